@@ -0,0 +1,104 @@
+/**
+ * Tests for budget thresholds, downgrade selection and daily spend tracking.
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  resolveBudgetSettings,
+  crossedThresholds,
+  selectCheaperModel,
+  DailySpend,
+} from './budget-guard.ts';
+
+let dir: string;
+
+before(() => {
+  dir = mkdtempSync(join(tmpdir(), 'budget-guard-test-'));
+});
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('resolveBudgetSettings', () => {
+  it('is off without limits and applies defaults otherwise', () => {
+    assert.equal(resolveBudgetSettings(undefined), null);
+    assert.equal(resolveBudgetSettings({ action: 'abort' }), null);
+    assert.deepEqual(resolveBudgetSettings({ perTaskUsd: 5 }), {
+      perTaskUsd: 5,
+      perDayUsd: undefined,
+      warnAt: [0.5, 0.8],
+      action: 'pause',
+      downgradeModel: undefined,
+    });
+    assert.deepEqual(resolveBudgetSettings({ perDayUsd: 50, warnAt: [0.9, 0.25, 1.5] })!.warnAt, [0.25, 0.9]);
+  });
+});
+
+describe('crossedThresholds', () => {
+  it('reports each threshold once and stays quiet past the limit', () => {
+    assert.deepEqual(crossedThresholds(4, 10, [0.5, 0.8], []), []);
+    assert.deepEqual(crossedThresholds(8.5, 10, [0.5, 0.8], []), [0.5, 0.8]);
+    assert.deepEqual(crossedThresholds(8.5, 10, [0.5, 0.8], [0.5]), [0.8]);
+    assert.deepEqual(crossedThresholds(10, 10, [0.5, 0.8], []), []);
+  });
+});
+
+describe('selectCheaperModel', () => {
+  const pricing = {
+    'claude-opus-4-6': { inputCostPerMTok: 15, outputCostPerMTok: 75 },
+    'claude-sonnet-4-5-20250929': { inputCostPerMTok: 3, outputCostPerMTok: 15 },
+    'claude-haiku-4-5': { inputCostPerMTok: 1, outputCostPerMTok: 5 },
+    'gpt-5.4': { inputCostPerMTok: 2.5, outputCostPerMTok: 10 },
+  };
+
+  it('steps down to the next cheaper model and resolves its agent', () => {
+    assert.deepEqual(selectCheaperModel('claude-opus-4-6', pricing), { model: 'claude-sonnet-4-5-20250929', agent: 'claude' });
+    assert.deepEqual(selectCheaperModel('claude-sonnet-4-5-20250929', pricing), { model: 'gpt-5.4', agent: 'codex' });
+    assert.equal(selectCheaperModel('claude-haiku-4-5', pricing), null);
+  });
+
+  it('only considers router candidates when given', () => {
+    const candidates = ['claude-opus-4-6', 'claude-haiku-4-5'];
+    assert.equal(selectCheaperModel('claude-opus-4-6', pricing, { candidates })!.model, 'claude-haiku-4-5');
+  });
+
+  it('cannot downgrade an unknown or unpriced model', () => {
+    assert.equal(selectCheaperModel(undefined, pricing), null);
+    assert.equal(selectCheaperModel('mystery-model', pricing), null);
+  });
+});
+
+describe('DailySpend', () => {
+  it('adds only each task\'s increase, split by UTC day, and persists', () => {
+    const path = join(dir, 'spend.json');
+    const spend = new DailySpend(path);
+    const day1 = new Date('2026-03-01T23:00:00Z');
+    const day2 = new Date('2026-03-02T01:00:00Z');
+
+    assert.equal(spend.record('HOK-1', 2, day1), 2);
+    assert.equal(spend.record('HOK-2', 1, day1), 3);
+    assert.equal(spend.record('HOK-1', 2.5, day1), 3.5);
+    assert.equal(spend.record('HOK-1', 4, day2), 1.5);
+
+    const reloaded = new DailySpend(path);
+    assert.equal(reloaded.today(day1), 3.5);
+    assert.equal(reloaded.today(day2), 1.5);
+    // Reporting the same total again adds nothing
+    assert.equal(reloaded.record('HOK-1', 4, day2), 1.5);
+  });
+
+  it('warns once per threshold per day', () => {
+    const spend = new DailySpend(join(dir, 'warn.json'));
+    const now = new Date('2026-03-01T12:00:00Z');
+    spend.record('HOK-1', 6, now);
+    assert.deepEqual(spend.takeWarnings(10, [0.5, 0.8], now), [0.5]);
+    assert.deepEqual(spend.takeWarnings(10, [0.5, 0.8], now), []);
+    spend.record('HOK-1', 9, now);
+    assert.deepEqual(spend.takeWarnings(10, [0.5, 0.8], now), [0.8]);
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Budget Guard - Per-task and per-day spend limits for mill tasks.
+ *
+ * The mill prices each running task's session usage (see workflow-cost.ts)
+ * on every poll and hands the number here:
+ *
+ * - `crossedThresholds()` finds warning thresholds (fractions of a limit)
+ *   newly crossed since the last check
+ * - `DailySpend` turns per-task running totals into spend per UTC day,
+ *   persisted so a restarted mill keeps counting
+ * - `selectCheaperModel()` picks the model a task is downgraded to
+ *
+ * What to do about an exceeded limit (pause, downgrade, abort) is decided by
+ * the orchestrator; every warning and action is kept as a `BudgetDecision`
+ * so it can be recorded on the task's eval record.
+ *
+ * @module budget-guard
+ */
+
+import { existsSync, readFileSync, writeFileSync, renameSync, mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { BudgetConfig } from './config.ts';
+import type { BudgetDecision } from './eval-schema.ts';
+import type { PricingTable } from './workflow-cost.ts';
+import { resolveAgent } from './model-router.ts';
+
+export type { BudgetDecision };
+
+// ────────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────────
+
+export type BudgetAction = 'pause' | 'downgrade' | 'abort';
+
+/** BudgetConfig with defaults applied. */
+export interface BudgetSettings {
+  perTaskUsd?: number;
+  perDayUsd?: number;
+  /** Ascending fractions of a limit at which to warn */
+  warnAt: number[];
+  action: BudgetAction;
+  downgradeModel?: string;
+}
+
+/** Budget bookkeeping kept on each mill task. */
+export interface TaskBudget {
+  /** Latest total spend across the task's sessions, on every model it used */
+  costUsd: number;
+  /** Warning thresholds already reported against the per-task limit */
+  warned: number[];
+  decisions: BudgetDecision[];
+}
+
+interface SpendDay {
+  totalUsd: number;
+  /** Day-limit warning thresholds already reported */
+  warned: number[];
+}
+
+interface SpendData {
+  version: 1;
+  /** Last cost seen per task, so only the increase is added to today */
+  lastSeen: Record<string, number>;
+  days: Record<string, SpendDay>;
+}
+
+// ────────────────────────────────────────────────────────────────
+// Constants
+// ────────────────────────────────────────────────────────────────
+
+const DEFAULT_WARN_AT = [0.5, 0.8];
+
+/** Days of history kept in the spend file */
+const RETAIN_DAYS = 30;
+
+// ────────────────────────────────────────────────────────────────
+// Settings & Thresholds
+// ────────────────────────────────────────────────────────────────
+
+/** Apply defaults; null when no limit is configured (guardrails off). */
+export function resolveBudgetSettings(config: BudgetConfig | undefined): BudgetSettings | null {
+  if (!config || (config.perTaskUsd === undefined && config.perDayUsd === undefined)) return null;
+  return {
+    perTaskUsd: config.perTaskUsd,
+    perDayUsd: config.perDayUsd,
+    warnAt: [...(config.warnAt ?? DEFAULT_WARN_AT)].filter((f) => f > 0 && f < 1).sort((a, b) => a - b),
+    action: config.action ?? 'pause',
+    downgradeModel: config.downgradeModel,
+  };
+}
+
+/** Thresholds in `warnAt` that `costUsd` has reached but weren't reported yet. */
+export function crossedThresholds(costUsd: number, limitUsd: number, warnAt: number[], warned: number[]): number[] {
+  return warnAt.filter((fraction) => costUsd >= fraction * limitUsd && costUsd < limitUsd && !warned.includes(fraction));
+}
+
+/** Fresh budget bookkeeping for a task. */
+export function emptyTaskBudget(): TaskBudget {
+  return { costUsd: 0, warned: [], decisions: [] };
+}
+
+export function formatUsd(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+// ────────────────────────────────────────────────────────────────
+// Downgrade
+// ────────────────────────────────────────────────────────────────
+
+/** Blended price used to rank models: input + output per million tokens. */
+function blendedPrice(pricing: PricingTable, model: string): number | null {
+  const entry = pricing[model];
+  return entry ? entry.inputCostPerMTok + entry.outputCostPerMTok : null;
+}
+
+/**
+ * The model to downgrade `current` to: the most expensive priced candidate
+ * that is still cheaper than `current` (the smallest step down). Candidates
+ * default to every model in the pricing table. Returns null when `current`
+ * isn't priced or nothing cheaper is available.
+ */
+export function selectCheaperModel(
+  current: string | undefined,
+  pricing: PricingTable,
+  options: { candidates?: string[]; agentMap?: Record<string, string>; defaultAgent?: string } = {},
+): { model: string; agent: string } | null {
+  if (!current) return null;
+  const currentPrice = blendedPrice(pricing, current);
+  if (currentPrice === null) return null;
+
+  const candidates = options.candidates && options.candidates.length > 0 ? options.candidates : Object.keys(pricing);
+  const cheaper = candidates
+    .map((model) => ({ model, price: blendedPrice(pricing, model) }))
+    .filter((c): c is { model: string; price: number } => c.model !== current && c.price !== null && c.price < currentPrice)
+    .sort((a, b) => b.price - a.price || a.model.localeCompare(b.model));
+
+  if (cheaper.length === 0) return null;
+  const model = cheaper[0].model;
+  return { model, agent: resolveAgent(model, options.agentMap ?? {}, options.defaultAgent ?? 'claude') };
+}
+
+// ────────────────────────────────────────────────────────────────
+// Daily Spend
+// ────────────────────────────────────────────────────────────────
+
+/** UTC date key (YYYY-MM-DD). */
+export function spendDay(now: Date): string {
+  return now.toISOString().slice(0, 10);
+}
+
+/**
+ * Spend per UTC day across all mill tasks, persisted to a small JSON file
+ * (default `.wavemill/budget-spend.json`). Each task reports its running
+ * total; only the increase since its previous report counts toward today,
+ * so a task that spans midnight is split across both days.
+ */
+export class DailySpend {
+  readonly path: string;
+  private data: SpendData;
+
+  constructor(path: string) {
+    this.path = path;
+    this.data = DailySpend.read(path) ?? { version: 1, lastSeen: {}, days: {} };
+  }
+
+  private static read(path: string): SpendData | null {
+    if (!existsSync(path)) return null;
+    try {
+      const parsed = JSON.parse(readFileSync(path, 'utf-8'));
+      if (parsed && typeof parsed.days === 'object' && typeof parsed.lastSeen === 'object') {
+        return parsed as SpendData;
+      }
+    } catch {
+      // Fall through
+    }
+    console.warn(`Warning: Ignoring unreadable budget spend file at ${path}`);
+    return null;
+  }
+
+  private day(now: Date): SpendDay {
+    const key = spendDay(now);
+    this.data.days[key] ??= { totalUsd: 0, warned: [] };
+    return this.data.days[key];
+  }
+
+  /** Record a task's latest total cost; returns today's total spend. */
+  record(issue: string, costUsd: number, now = new Date()): number {
+    const delta = Math.max(0, costUsd - (this.data.lastSeen[issue] ?? 0));
+    this.data.lastSeen[issue] = Math.max(costUsd, this.data.lastSeen[issue] ?? 0);
+    const day = this.day(now);
+    day.totalUsd += delta;
+    if (delta > 0) this.save(now);
+    return day.totalUsd;
+  }
+
+  today(now = new Date()): number {
+    return this.data.days[spendDay(now)]?.totalUsd ?? 0;
+  }
+
+  /** Day-limit thresholds newly crossed today; marks them reported. */
+  takeWarnings(limitUsd: number, warnAt: number[], now = new Date()): number[] {
+    const day = this.day(now);
+    const crossed = crossedThresholds(day.totalUsd, limitUsd, warnAt, day.warned);
+    if (crossed.length > 0) {
+      day.warned.push(...crossed);
+      this.save(now);
+    }
+    return crossed;
+  }
+
+  /** Stop tracking a finished task. */
+  forget(issue: string, now = new Date()): void {
+    if (issue in this.data.lastSeen) {
+      delete this.data.lastSeen[issue];
+      this.save(now);
+    }
+  }
+
+  private save(now: Date): void {
+    const cutoff = spendDay(new Date(now.getTime() - RETAIN_DAYS * 86_400_000));
+    for (const key of Object.keys(this.data.days)) {
+      if (key < cutoff) delete this.data.days[key];
+    }
+    mkdirSync(dirname(this.path), { recursive: true });
+    const tmp = `${this.path}.${process.pid}.tmp`;
+    writeFileSync(tmp, JSON.stringify(this.data, null, 2) + '\n');
+    renameSync(tmp, this.path);
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Tests for the BM25 code index.
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'node:child_process';
+import { mkdirSync, mkdtempSync, rmSync, unlinkSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { CodeIndex, extractSymbols, openCodeIndex, tokenize } from './code-index.ts';
+
+let repo: string;
+
+function git(...args: string[]): void {
+  execFileSync('git', args, { cwd: repo, stdio: 'ignore' });
+}
+
+function write(path: string, content: string): void {
+  mkdirSync(join(repo, path, '..'), { recursive: true });
+  writeFileSync(join(repo, path), content);
+}
+
+before(() => {
+  repo = mkdtempSync(join(tmpdir(), 'code-index-test-'));
+  git('init', '-q');
+  git('config', 'user.email', 'test@example.com');
+  git('config', 'user.name', 'Test');
+  write('src/billing/invoice-renderer.ts', 'export function renderInvoicePdf(invoice: Invoice) {\n  return layoutPages(invoice.lineItems);\n}\n');
+  write('src/auth/session.ts', 'export class SessionStore {\n  expire() {}\n}\nconst constructor = 1;\n');
+  write('README.md', '# Project\n\n## Billing\n\nInvoices are rendered as PDF.\n');
+  write('node_modules/dep/index.js', 'export function renderInvoicePdf() {}\n');
+  git('add', 'src', 'README.md');
+  git('commit', '-qm', 'init');
+});
+
+after(() => {
+  rmSync(repo, { recursive: true, force: true });
+});
+
+describe('tokenize', () => {
+  it('splits identifiers, folds plurals and keeps compounds', () => {
+    assert.deepEqual(tokenize('findRelevantFiles'), ['find', 'relevant', 'file', 'findrelevantfiles']);
+    assert.deepEqual(tokenize('HTTPServer parse_entries the'), ['http', 'server', 'httpserver', 'parse', 'entry', 'parseentries']);
+  });
+});
+
+describe('extractSymbols', () => {
+  it('finds top-level declarations per language', () => {
+    assert.deepEqual(
+      extractSymbols('a.ts', 'export async function load() {}\n  const inner = 1;\nexport interface Options {}\n'),
+      [{ name: 'load', kind: 'function', line: 1 }, { name: 'Options', kind: 'interface', line: 3 }],
+    );
+    assert.deepEqual(extractSymbols('a.py', 'class Parser:\n    def parse(self):\n'), [
+      { name: 'Parser', kind: 'class', line: 1 },
+      { name: 'parse', kind: 'function', line: 2 },
+    ]);
+    assert.deepEqual(extractSymbols('a.json', '{}'), []);
+  });
+});
+
+describe('CodeIndex', () => {
+  it('ranks files by identifier words and lists matching symbols', () => {
+    const index = new CodeIndex(repo);
+    assert.deepEqual(index.update(), { rebuilt: true, indexed: 3, removed: 0 });
+
+    const [top, ...rest] = index.search('PDF of an invoice is missing line items');
+    assert.equal(top.path, 'src/billing/invoice-renderer.ts');
+    assert.deepEqual(top.symbols.map((s) => s.name), ['renderInvoicePdf']);
+    assert.deepEqual(rest.map((r) => r.path), ['README.md']);
+    // Terms that are Object.prototype keys are ordinary terms
+    assert.equal(index.search('constructor')[0].path, 'src/auth/session.ts');
+    assert.deepEqual(index.search('zzz'), []);
+  });
+
+  it('re-indexes only what changed since the indexed commit', () => {
+    const first = openCodeIndex(repo)!;
+    assert.equal(first.size, 3);
+
+    write('src/auth/session.ts', 'export class SessionStore {\n  refreshToken() {}\n}\n');
+    git('commit', '-qam', 'refresh');
+    unlinkSync(join(repo, 'README.md'));
+    write('src/auth/oauth.ts', 'export function exchangeCode() {}\n');
+
+    const index = new CodeIndex(repo);
+    assert.deepEqual(index.update(), { rebuilt: false, indexed: 2, removed: 1 });
+    assert.equal(index.search('refresh token')[0].path, 'src/auth/session.ts');
+    assert.equal(index.search('exchange code')[0].path, 'src/auth/oauth.ts');
+    assert.deepEqual(index.update(), { rebuilt: false, indexed: 0, removed: 0 });
+  });
+
+  it('is unavailable outside a git repository', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'code-index-nogit-'));
+    try {
+      assert.equal(openCodeIndex(dir), null);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,382 @@
+/**
+ * Code Index
+ *
+ * Local BM25 index over the repository's source files, used to rank files
+ * and symbols by relevance to an issue description. Unlike keyword grep,
+ * identifiers are split into words (`findRelevantFiles` → find, relevant,
+ * file) and file paths and symbol names are weighted above body text, so a
+ * file can match an issue without sharing its exact wording.
+ *
+ * The index lives in `.wavemill/code-index.json` and records the commit it
+ * was built at. Updates only re-read the files `git diff` reports since that
+ * commit (plus untracked files), and skip files whose content hash is unchanged.
+ *
+ * @module code-index
+ */
+
+import { createHash } from 'node:crypto';
+import { execFileSync } from 'node:child_process';
+import { existsSync, mkdirSync, readFileSync, renameSync, statSync, writeFileSync } from 'node:fs';
+import { dirname, extname, join } from 'node:path';
+
+// ────────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────────
+
+export interface CodeSymbol {
+  name: string;
+  kind: 'function' | 'class' | 'interface' | 'type' | 'enum' | 'const' | 'heading';
+  /** 1-based line number */
+  line: number;
+}
+
+interface IndexedFile {
+  /** SHA-1 of the file content */
+  hash: string;
+  /** Weighted term count (BM25 document length) */
+  length: number;
+  terms: Record<string, number>;
+  symbols: CodeSymbol[];
+}
+
+interface CodeIndexData {
+  version: number;
+  /** HEAD when the index was last updated; null outside a commit */
+  commit: string | null;
+  updatedAt: string;
+  files: Record<string, IndexedFile>;
+}
+
+export interface CodeIndexUpdate {
+  /** Whether every file was re-read (first build, or the indexed commit is gone) */
+  rebuilt: boolean;
+  indexed: number;
+  removed: number;
+}
+
+export interface CodeSearchResult {
+  path: string;
+  score: number;
+  /** Query terms found in the file */
+  matchedTerms: string[];
+  /** Symbols whose names contain a query term, best first */
+  symbols: CodeSymbol[];
+}
+
+// ────────────────────────────────────────────────────────────────
+// Constants
+// ────────────────────────────────────────────────────────────────
+
+export const CODE_INDEX_PATH = '.wavemill/code-index.json';
+
+const INDEX_VERSION = 1;
+const MAX_FILE_BYTES = 200_000;
+const INDEXED_EXTENSIONS = new Set([
+  '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.py', '.go', '.rs', '.java', '.kt',
+  '.rb', '.php', '.cs', '.swift', '.sh', '.md',
+]);
+const EXCLUDED_PATH = /(^|\/)(node_modules|dist|build|vendor|\.wavemill|\.git)\/|\.min\.js$/;
+
+/** Extra weight of path and symbol-name terms over body text */
+const PATH_WEIGHT = 3;
+const SYMBOL_WEIGHT = 2;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'this', 'that', 'from', 'into', 'when', 'then', 'else', 'are', 'was',
+  'not', 'but', 'all', 'any', 'can', 'should', 'would', 'will', 'have', 'has', 'its', 'our', 'you',
+  'add', 'fix', 'update', 'make', 'use', 'new', 'get', 'set', 'var', 'let', 'const', 'function',
+  'return', 'import', 'export', 'true', 'false', 'null', 'undefined', 'string', 'number', 'void',
+]);
+
+// ────────────────────────────────────────────────────────────────
+// Tokenization and Symbols
+// ────────────────────────────────────────────────────────────────
+
+/** Crude plural folding so "files" matches "file" and "entries" matches "entry". */
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return word.slice(0, -3) + 'y';
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Split text into lower-case terms. Identifiers are split on camelCase,
+ * snake_case and kebab-case boundaries; compound identifiers are also kept
+ * whole, so an exact symbol name in the query is a strong match.
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const word of text.match(/[A-Za-z][A-Za-z0-9]*(?:[_-][A-Za-z0-9]+)*/g) ?? []) {
+    const parts = word
+      .split(/[_-]/)
+      .flatMap((part) => part.split(/(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/))
+      .map((part) => part.toLowerCase())
+      .filter((part) => part.length >= 2 && !STOP_WORDS.has(part));
+    for (const part of parts) terms.push(stem(part));
+    if (parts.length > 1) terms.push(word.toLowerCase().replace(/[_-]/g, ''));
+  }
+  return terms;
+}
+
+const SYMBOL_PATTERNS: Array<{ extensions: string[]; pattern: RegExp; kind: (m: RegExpMatchArray) => CodeSymbol['kind']; name: number }> = [
+  {
+    extensions: ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'],
+    pattern: /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(function\*?|class|interface|type|enum|const)\s+([A-Za-z_$][\w$]*)/,
+    kind: (m) => (m[1].startsWith('function') ? 'function' : m[1]) as CodeSymbol['kind'],
+    name: 2,
+  },
+  { extensions: ['.py'], pattern: /^\s*(def|class)\s+(\w+)/, kind: (m) => (m[1] === 'def' ? 'function' : 'class'), name: 2 },
+  { extensions: ['.go'], pattern: /^func\s+(?:\([^)]*\)\s*)?(\w+)/, kind: () => 'function', name: 1 },
+  { extensions: ['.go'], pattern: /^type\s+(\w+)/, kind: () => 'type', name: 1 },
+  {
+    extensions: ['.rs'],
+    pattern: /^\s*(?:pub(?:\([^)]*\))?\s+)?(fn|struct|enum|trait)\s+(\w+)/,
+    kind: (m) => (m[1] === 'fn' ? 'function' : m[1] === 'trait' ? 'interface' : m[1] === 'struct' ? 'class' : 'enum'),
+    name: 2,
+  },
+  { extensions: ['.sh'], pattern: /^(?:function\s+)?([A-Za-z_][\w-]*)\s*\(\)\s*\{/, kind: () => 'function', name: 1 },
+  { extensions: ['.md'], pattern: /^#{1,3}\s+(.+?)\s*$/, kind: () => 'heading', name: 1 },
+];
+
+/** Top-level declarations (and Markdown headings) by regex, per language. */
+export function extractSymbols(path: string, content: string): CodeSymbol[] {
+  const patterns = SYMBOL_PATTERNS.filter((p) => p.extensions.includes(extname(path)));
+  if (patterns.length === 0) return [];
+  const symbols: CodeSymbol[] = [];
+  content.split('\n').forEach((line, i) => {
+    for (const { pattern, kind, name } of patterns) {
+      const match = line.match(pattern);
+      if (match) {
+        symbols.push({ name: match[name], kind: kind(match), line: i + 1 });
+        break;
+      }
+    }
+  });
+  return symbols;
+}
+
+function indexFile(path: string, content: string): IndexedFile {
+  // A Map, so terms like "constructor" don't collide with Object.prototype
+  const terms = new Map<string, number>();
+  const add = (tokens: string[], weight: number) => {
+    for (const token of tokens) terms.set(token, (terms.get(token) ?? 0) + weight);
+  };
+  const symbols = extractSymbols(path, content);
+  add(tokenize(content), 1);
+  add(tokenize(path), PATH_WEIGHT);
+  add(symbols.flatMap((s) => tokenize(s.name)), SYMBOL_WEIGHT);
+  return {
+    hash: createHash('sha1').update(content).digest('hex'),
+    length: [...terms.values()].reduce((a, b) => a + b, 0),
+    terms: Object.fromEntries(terms),
+    symbols,
+  };
+}
+
+export function isIndexable(path: string): boolean {
+  return INDEXED_EXTENSIONS.has(extname(path)) && !EXCLUDED_PATH.test(path);
+}
+
+// ────────────────────────────────────────────────────────────────
+// Index
+// ────────────────────────────────────────────────────────────────
+
+function termFrequency(file: IndexedFile, term: string): number {
+  return Object.hasOwn(file.terms, term) ? file.terms[term] : 0;
+}
+
+function git(repoPath: string, args: string[]): string {
+  return execFileSync('git', args, {
+    cwd: repoPath,
+    encoding: 'utf-8',
+    stdio: ['ignore', 'pipe', 'ignore'],
+    maxBuffer: 64 * 1024 * 1024,
+  });
+}
+
+function gitPaths(repoPath: string, args: string[]): string[] {
+  return git(repoPath, [...args, '-z']).split('\0').filter(Boolean);
+}
+
+/**
+ * BM25 index over a repository, persisted under `.wavemill/`. Reads the
+ * stored index on construction; call `update()` to bring it up to date with
+ * the working tree and `save()` to persist it.
+ */
+export class CodeIndex {
+  readonly repoPath: string;
+  readonly path: string;
+  private data: CodeIndexData;
+
+  constructor(repoPath: string, indexPath = join(repoPath, CODE_INDEX_PATH)) {
+    this.repoPath = repoPath;
+    this.path = indexPath;
+    this.data = CodeIndex.read(indexPath) ?? { version: INDEX_VERSION, commit: null, updatedAt: '', files: {} };
+  }
+
+  private static read(path: string): CodeIndexData | null {
+    if (!existsSync(path)) return null;
+    try {
+      const parsed = JSON.parse(readFileSync(path, 'utf-8'));
+      if (parsed?.version === INDEX_VERSION && parsed.files && typeof parsed.files === 'object') {
+        return parsed as CodeIndexData;
+      }
+    } catch {
+      // Rebuilt below
+    }
+    return null;
+  }
+
+  get size(): number {
+    return Object.keys(this.data.files).length;
+  }
+
+  get commit(): string | null {
+    return this.data.commit;
+  }
+
+  /**
+   * Re-index what changed since the indexed commit: files in `git diff`,
+   * untracked files and files missing from the index. Everything is re-read
+   * when there's no usable indexed commit. Throws outside a git repository.
+   */
+  update(): CodeIndexUpdate {
+    const current = new Set(
+      gitPaths(this.repoPath, ['ls-files', '--cached', '--others', '--exclude-standard']).filter(isIndexable),
+    );
+    let head: string | null = null;
+    try {
+      head = git(this.repoPath, ['rev-parse', '--verify', 'HEAD']).trim();
+    } catch {
+      // No commits yet
+    }
+
+    // Without a usable indexed commit, every file is a candidate; unchanged hashes are still skipped
+    const previous = this.data.commit;
+    const incremental = previous !== null && this.commitExists(previous);
+    const candidates = incremental
+      ? new Set([
+        ...gitPaths(this.repoPath, ['diff', '--name-only', previous]),
+        ...gitPaths(this.repoPath, ['ls-files', '--others', '--exclude-standard']),
+        ...[...current].filter((p) => !this.data.files[p]),
+      ])
+      : current;
+
+    let indexed = 0;
+    let removed = 0;
+    const drop = (path: string) => {
+      if (!this.data.files[path]) return;
+      delete this.data.files[path];
+      removed++;
+    };
+    for (const path of Object.keys(this.data.files)) {
+      if (!current.has(path)) drop(path);
+    }
+    for (const path of candidates) {
+      if (!current.has(path)) continue;
+      const full = join(this.repoPath, path);
+      try {
+        const stat = statSync(full);
+        if (!stat.isFile() || stat.size > MAX_FILE_BYTES) {
+          drop(path);
+          continue;
+        }
+        const entry = indexFile(path, readFileSync(full, 'utf-8'));
+        if (this.data.files[path]?.hash === entry.hash) continue;
+        this.data.files[path] = entry;
+        indexed++;
+      } catch {
+        // Deleted or unreadable since listing
+        drop(path);
+      }
+    }
+
+    this.data.commit = head;
+    this.data.updatedAt = new Date().toISOString();
+    return { rebuilt: !incremental, indexed, removed };
+  }
+
+  private commitExists(commit: string): boolean {
+    try {
+      git(this.repoPath, ['cat-file', '-e', `${commit}^{commit}`]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /** Rank files by BM25 score against the query's terms. */
+  search(query: string, limit = 10): CodeSearchResult[] {
+    const queryTerms = [...new Set(tokenize(query))];
+    const files = Object.entries(this.data.files);
+    if (queryTerms.length === 0 || files.length === 0) return [];
+
+    const avgLength = files.reduce((sum, [, f]) => sum + f.length, 0) / files.length;
+    const idf: Record<string, number> = {};
+    for (const term of queryTerms) {
+      const df = files.filter(([, f]) => termFrequency(f, term) > 0).length;
+      idf[term] = Math.log(1 + (files.length - df + 0.5) / (df + 0.5));
+    }
+
+    const results: CodeSearchResult[] = [];
+    for (const [path, file] of files) {
+      let score = 0;
+      const matchedTerms: string[] = [];
+      for (const term of queryTerms) {
+        const tf = termFrequency(file, term);
+        if (!tf) continue;
+        matchedTerms.push(term);
+        score += idf[term] * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * (file.length / avgLength)));
+      }
+      if (score === 0) continue;
+
+      const matched = new Set(matchedTerms);
+      const symbols = file.symbols
+        .map((symbol) => ({ symbol, hits: tokenize(symbol.name).filter((t) => matched.has(t)).length }))
+        .filter((s) => s.hits > 0)
+        .sort((a, b) => b.hits - a.hits || a.symbol.line - b.symbol.line)
+        .map((s) => s.symbol);
+      results.push({ path, score, matchedTerms, symbols });
+    }
+
+    return results.sort((a, b) => b.score - a.score || a.path.localeCompare(b.path)).slice(0, limit);
+  }
+
+  save(): void {
+    mkdirSync(dirname(this.path), { recursive: true });
+    const tmp = `${this.path}.${process.pid}.tmp`;
+    writeFileSync(tmp, JSON.stringify(this.data) + '\n');
+    renameSync(tmp, this.path);
+  }
+}
+
+/**
+ * Load the repository's code index, bring it up to date and save it.
+ * Returns null when the index can't be built (e.g. not a git repository).
+ */
+export function openCodeIndex(repoPath: string): CodeIndex | null {
+  try {
+    const index = new CodeIndex(repoPath);
+    const committed = index.commit;
+    const result = index.update();
+    if (result.rebuilt || result.indexed > 0 || result.removed > 0 || index.commit !== committed) index.save();
+    return index;
+  } catch {
+    return null;
+  }
+}
+
+/** Markdown list of ranked files with their matching symbols. */
+export function formatCodeSearchResults(results: CodeSearchResult[], symbolsPerFile = 3): string {
+  return results
+    .map((r) => {
+      const symbols = r.symbols.slice(0, symbolsPerFile).map((s) => `\`${s.name}\` (${s.kind}, line ${s.line})`);
+      return `- \`${r.path}\` (score ${r.score.toFixed(2)}; matches: ${r.matchedTerms.join(', ')})` +
+        (symbols.length > 0 ? `\n  Symbols: ${symbols.join(', ')}` : '');
+    })
+    .join('\n');
+}
@@ -5,7 +5,8 @@
  * - Directory structure
  * - Key conventions and patterns (from project-context.md)
  * - Recent git activity
- * - Files relevant to a specific issue
+ * - Files and symbols relevant to a specific issue (code index, with a
+ *   keyword grep fallback)
  * - Subsystem specifications
  *
  * Used primarily by issue expansion (expand-issue.ts) to give AI agents
@@ -19,6 +20,7 @@ import fs from 'node:fs/promises';
 import path from 'node:path';
 import { execSync } from 'node:child_process';
 import { findRelevantSubsystems, type SubsystemSearchResult } from './subsystem-search.ts';
+import { formatCodeSearchResults, openCodeIndex, type CodeIndex } from './code-index.ts';
 
 // ────────────────────────────────────────────────────────────────
 // Types
@@ -40,6 +42,10 @@ export interface CodebaseContextOptions {
   keyFilesMaxLines?: number;
   /** Number of recent git commits to include (default: 20) */
   gitActivityLimit?: number;
+  /** Code index to rank files with (default: open the repo's index; null for keyword search only) */
+  codeIndex?: CodeIndex | null;
+  /** Maximum files to list from the code index (default: 15) */
+  relevantFilesLimit?: number;
 }
 
 // ────────────────────────────────────────────────────────────────
@@ -54,7 +60,8 @@ export interface CodebaseContextOptions {
  * 2. Key files and conventions (project-context.md, CLAUDE.md)
  * 3. Subsystem specifications (relevant to issue)
  * 4. Recent git activity
- * 5. Files matching issue keywords
+ * 5. Files and symbols ranked by the code index (keyword grep when there is
+ *    no index)
  *
  * All gathering operations run in parallel for performance.
  *
@@ -81,16 +88,22 @@ export async function gatherCodebaseContext(
     maxTreeDepth = 3,
     keyFilesMaxLines = 1000,
     gitActivityLimit = 20,
+    relevantFilesLimit = 15,
   } = options;
 
   console.log('Gathering codebase context...');
 
+  const codeIndex = options.codeIndex === undefined ? openCodeIndex(repoPath) : options.codeIndex;
+  const indexedFiles = codeIndex
+    ? rankRelevantFiles(codeIndex, issueTitle, issueDescription, relevantFilesLimit)
+    : '';
+
   const [dirTree, keyFiles, gitActivity, relevantFiles, subsystemContext] =
     await Promise.all([
       getDirectoryTree(repoPath, maxTreeDepth),
       getKeyFilesReference(repoPath, keyFilesMaxLines),
       Promise.resolve(getRecentGitActivity(repoPath, gitActivityLimit)),
-      findRelevantFiles(repoPath, issueTitle),
+      indexedFiles ? Promise.resolve(indexedFiles) : findRelevantFiles(repoPath, issueTitle),
       gatherSubsystemContext(repoPath, issueDescription, issueTitle),
     ]);
 
@@ -112,7 +125,7 @@ ${subsystemContext}
 ${gitActivity}
 \`\`\`
 
-## Relevant Files (keyword search)
+## Relevant Files (${indexedFiles ? 'code index' : 'keyword search'})
 ${relevantFiles}
 `.trim();
 }
@@ -343,6 +356,34 @@ export async function findRelevantFiles(
     : '(No matching files found)';
 }
 
+/**
+ * Rank files and symbols by relevance to an issue using the code index.
+ *
+ * @param codeIndex - Up-to-date code index for the repository
+ * @param issueTitle - Issue title
+ * @param issueDescription - Issue description
+ * @param limit - Maximum number of files (default: 15)
+ * @returns Markdown list of ranked files, or '' when nothing matches
+ *
+ * @example
+ * ```typescript
+ * const index = openCodeIndex('/path/to/repo');
+ * const files = index ? rankRelevantFiles(index, 'Login fails on Safari', '...') : '';
+ * // Returns:
+ * // - `src/auth/login-form.tsx` (score 12.31; matches: login, safari)
+ * //   Symbols: `LoginForm` (function, line 14)
+ * ```
+ */
+export function rankRelevantFiles(
+  codeIndex: CodeIndex,
+  issueTitle: string,
+  issueDescription: string,
+  limit: number = 15
+): string {
+  const results = codeIndex.search(`${issueTitle}\n${issueDescription}`, limit);
+  return formatCodeSearchResults(results);
+}
+
 /**
  * Gather subsystem context for an issue.
  *
@@ -0,0 +1,80 @@
+/**
+ * Tests for layered config provenance.
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { explainConfig, entriesFor, formatConfigExplanation } from './config-explain.ts';
+
+let dir: string;
+let repoDir: string;
+let userConfigPath: string;
+
+before(() => {
+  dir = mkdtempSync(join(tmpdir(), 'config-explain-test-'));
+  repoDir = join(dir, 'repo');
+  mkdirSync(repoDir);
+  userConfigPath = join(dir, 'user.json');
+});
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function writeConfigs(user: unknown, repo: unknown): void {
+  writeFileSync(userConfigPath, JSON.stringify(user));
+  writeFileSync(join(repoDir, '.wavemill-config.json'), JSON.stringify(repo));
+}
+
+describe('explainConfig', () => {
+  it('attributes each value to the layer that set it', () => {
+    writeConfigs(
+      { mill: { maxParallel: 4, agentCmd: 'codex' }, router: { models: ['a', 'b'] } },
+      { mill: { maxParallel: 2 }, router: { models: ['c'] } },
+    );
+    const explanation = explainConfig({ repoDir, userConfigPath, env: { MAX_PARALLEL: '6', REQUIRE_CONFIRM: 'false' } });
+    const entry = (path: string) => explanation.entries.find((e) => e.path === path)!;
+
+    assert.equal(entry('mill.baseBranch').source, 'default');
+    assert.equal(entry('mill.agentCmd').source, 'user');
+    assert.equal(entry('mill.agentCmd').file, userConfigPath);
+    assert.deepEqual(entry('router.models'), {
+      path: 'router.models',
+      source: 'repo',
+      value: ['c'],
+      file: join(repoDir, '.wavemill-config.json'),
+      overrides: [{ source: 'user', value: ['a', 'b'], file: userConfigPath }],
+    });
+
+    const maxParallel = entry('mill.maxParallel');
+    assert.equal(maxParallel.value, 6);
+    assert.equal(maxParallel.envVar, 'MAX_PARALLEL');
+    assert.deepEqual(maxParallel.overrides.map((o) => `${o.source}:${o.value}`), ['repo:2', 'user:4', 'default:3']);
+    assert.equal(entry('mill.requireConfirm').value, false);
+
+    assert.equal(explanation.config.mill?.maxParallel, 6);
+    assert.equal(explanation.config.mill?.agentCmd, 'codex');
+  });
+
+  it('flags unknown keys and schema violations per file', () => {
+    writeConfigs({ mill: { maxParalel: 5 } }, { router: { enabled: 'yes' }, telemetry: true });
+    const explanation = explainConfig({ repoDir, userConfigPath, env: {} });
+
+    assert.deepEqual(explanation.unknownKeys.map((i) => `${i.source}:${i.detail}`), ['user:mill.maxParalel', 'repo:telemetry']);
+    assert.ok(explanation.schemaErrors.some((i) => i.source === 'repo' && /\/router\/enabled: must be boolean/.test(i.detail)));
+
+    const lines = formatConfigExplanation(explanation, 'mill');
+    assert.ok(lines.some((l) => l.startsWith('⚠ Unknown key mill.maxParalel in user config')));
+    assert.ok(!lines.some((l) => l.includes('telemetry')));
+  });
+
+  it('works without any config files', () => {
+    const explanation = explainConfig({ repoDir: join(dir, 'empty'), userConfigPath: join(dir, 'missing.json'), env: {} });
+    assert.ok(explanation.entries.every((e) => e.source === 'default'));
+    assert.deepEqual(entriesFor(explanation, 'expand').map((e) => e.path), ['expand.maxDisplay', 'expand.maxSelect']);
+    assert.match(formatConfigExplanation(explanation, 'autoEval')[0], /^autoEval {2}true {2}← default$/);
+  });
+});
@@ -0,0 +1,312 @@
+/**
+ * Config Explain - Effective wavemill settings with per-key provenance.
+ *
+ * Settings resolve in layers (later wins), matching `load_config` in
+ * wavemill-common.sh:
+ *
+ *   1. Hardcoded defaults
+ *   2. User-level config (~/.wavemill/config.json)
+ *   3. Per-repo config (.wavemill-config.json)
+ *   4. Environment variables
+ *
+ * `explainConfig()` merges the layers the same way (objects deep-merge,
+ * arrays and scalars replace) and records which layer produced every leaf
+ * value and which values it overrode. It also flags keys the schema doesn't
+ * declare (usually typos, silently ignored otherwise) and schema violations
+ * in each file. Used by `wavemill config explain`, by tools' `--verbose`
+ * output, and by the TypeScript mill, whose effective config it is.
+ *
+ * @module config-explain
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { homedir } from 'node:os';
+import { getConfigValidationErrors, loadConfigSchema, type WavemillConfig } from './config.ts';
+
+// ────────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────────
+
+export type ConfigSource = 'default' | 'user' | 'repo' | 'env';
+
+export interface ConfigOrigin {
+  source: ConfigSource;
+  value: unknown;
+  /** Environment variable name, for `env` */
+  envVar?: string;
+  /** Config file path, for `user` and `repo` */
+  file?: string;
+}
+
+export interface ConfigEntry extends ConfigOrigin {
+  /** Dotted key path, e.g. `mill.maxParallel` */
+  path: string;
+  /** Lower layers this value replaced, highest first */
+  overrides: ConfigOrigin[];
+}
+
+export interface ConfigIssue {
+  source: 'user' | 'repo';
+  file: string;
+  /** Dotted key path (unknown keys) or schema error text (violations) */
+  detail: string;
+}
+
+export interface ConfigExplanation {
+  /** Effective merged config */
+  config: WavemillConfig;
+  /** One entry per leaf value, sorted by path */
+  entries: ConfigEntry[];
+  unknownKeys: ConfigIssue[];
+  schemaErrors: ConfigIssue[];
+}
+
+export interface ExplainConfigOptions {
+  repoDir?: string;
+  /** Defaults to ~/.wavemill/config.json */
+  userConfigPath?: string;
+  /** Defaults to process.env */
+  env?: Record<string, string | undefined>;
+}
+
+type Layer = { source: ConfigSource; file?: string; values: Record<string, unknown> };
+
+// ────────────────────────────────────────────────────────────────
+// Constants
+// ────────────────────────────────────────────────────────────────
+
+/**
+ * Hardcoded defaults: `_WAVEMILL_DEFAULTS` in wavemill-common.sh plus the
+ * fallbacks its jq expression applies.
+ */
+export const CONFIG_DEFAULTS: WavemillConfig = {
+  linear: { project: '' },
+  mill: {
+    session: '',
+    maxParallel: 3,
+    pollSeconds: 10,
+    baseBranch: 'main',
+    worktreeRoot: 'worktrees',
+    agentCmd: 'claude',
+    requireConfirm: true,
+    planningMode: 'skip',
+    maxRetries: 3,
+    retryDelay: 2,
+    setupCommand: '',
+  },
+  expand: { maxSelect: 3, maxDisplay: 9 },
+  plan: { maxDisplay: 9, research: false, model: 'claude-opus-4-6' },
+  router: { enabled: true, defaultModel: 'claude-sonnet-4-5-20250929' },
+  autoEval: true,
+};
+
+/** Environment variables that override config keys (see load_config). */
+export const CONFIG_ENV_VARS: Record<string, string> = {
+  'linear.project': 'LINEAR_PROJECT',
+  'mill.session': 'SESSION',
+  'mill.maxParallel': 'MAX_PARALLEL',
+  'mill.pollSeconds': 'POLL_SECONDS',
+  'mill.baseBranch': 'BASE_BRANCH',
+  'mill.worktreeRoot': 'WORKTREE_ROOT',
+  'mill.agentCmd': 'AGENT_CMD',
+  'mill.requireConfirm': 'REQUIRE_CONFIRM',
+  'mill.planningMode': 'PLANNING_MODE',
+  'mill.maxRetries': 'MAX_RETRIES',
+  'mill.retryDelay': 'RETRY_DELAY',
+  'mill.setupCommand': 'SETUP_CMD',
+  'expand.maxSelect': 'MAX_SELECT',
+  'expand.maxDisplay': 'MAX_DISPLAY',
+  'plan.maxDisplay': 'PLAN_MAX_DISPLAY',
+  'plan.research': 'PLAN_RESEARCH',
+  'plan.model': 'PLAN_MODEL',
+  'router.enabled': 'ROUTER_ENABLED',
+  'router.defaultModel': 'ROUTER_DEFAULT_MODEL',
+  'autoEval': 'AUTO_EVAL',
+};
+
+// ────────────────────────────────────────────────────────────────
+// Helpers
+// ────────────────────────────────────────────────────────────────
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readLayerFile(path: string): Record<string, unknown> | null {
+  if (!existsSync(path)) return null;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Failed to parse ${path}: ${(err as Error).message}`);
+  }
+  return isPlainObject(parsed) ? parsed : {};
+}
+
+/** Leaf values of a config object keyed by dotted path. */
+function flatten(values: Record<string, unknown>, prefix = '', out = new Map<string, unknown>()): Map<string, unknown> {
+  for (const [key, value] of Object.entries(values)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value) && Object.keys(value).length > 0) flatten(value, path, out);
+    else out.set(path, value);
+  }
+  return out;
+}
+
+function setPath(target: Record<string, unknown>, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let node = target;
+  for (const key of keys.slice(0, -1)) {
+    if (!isPlainObject(node[key])) node[key] = {};
+    node = node[key] as Record<string, unknown>;
+  }
+  node[keys[keys.length - 1]] = value;
+}
+
+/** Parse an env var the way the typed default would be used. */
+function coerceEnv(raw: string, like: unknown): unknown {
+  if (typeof like === 'number') {
+    const n = Number(raw);
+    return Number.isFinite(n) ? n : raw;
+  }
+  if (typeof like === 'boolean') {
+    if (raw === 'true') return true;
+    if (raw === 'false') return false;
+  }
+  return raw;
+}
+
+function envLayer(env: Record<string, string | undefined>): Layer {
+  const values: Record<string, unknown> = {};
+  const defaults = flatten(CONFIG_DEFAULTS as Record<string, unknown>);
+  for (const [path, name] of Object.entries(CONFIG_ENV_VARS)) {
+    const raw = env[name];
+    if (raw !== undefined && raw !== '') setPath(values, path, coerceEnv(raw, defaults.get(path)));
+  }
+  return { source: 'env', values };
+}
+
+/** Dotted paths in `values` that the schema doesn't declare. */
+function findUnknownKeys(values: unknown, schema: Record<string, unknown>, prefix = ''): string[] {
+  if (!isPlainObject(values)) return [];
+  const properties = isPlainObject(schema.properties) ? schema.properties : null;
+  const additional = isPlainObject(schema.additionalProperties) ? schema.additionalProperties : null;
+  if (!properties && !additional) return [];
+
+  const unknown: string[] = [];
+  for (const [key, value] of Object.entries(values)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const child = properties && isPlainObject(properties[key]) ? properties[key] : additional;
+    if (!child) unknown.push(path);
+    else unknown.push(...findUnknownKeys(value, child as Record<string, unknown>, path));
+  }
+  return unknown;
+}
+
+// ────────────────────────────────────────────────────────────────
+// Public API
+// ────────────────────────────────────────────────────────────────
+
+/**
+ * Resolve the effective config and where each value came from.
+ *
+ * @example
+ * ```typescript
+ * const { entries } = explainConfig({ repoDir });
+ * entries.find((e) => e.path === 'mill.maxParallel')
+ * // { path: 'mill.maxParallel', value: 5, source: 'env', envVar: 'MAX_PARALLEL', overrides: [...] }
+ * ```
+ */
+export function explainConfig(options: ExplainConfigOptions = {}): ConfigExplanation {
+  const repoFile = resolve(options.repoDir ?? process.cwd(), '.wavemill-config.json');
+  const userFile = options.userConfigPath ?? join(homedir(), '.wavemill', 'config.json');
+  const schema = loadConfigSchema();
+
+  const layers: Layer[] = [{ source: 'default', values: structuredClone(CONFIG_DEFAULTS) as Record<string, unknown> }];
+  const unknownKeys: ConfigIssue[] = [];
+  const schemaErrors: ConfigIssue[] = [];
+
+  for (const [source, file] of [['user', userFile], ['repo', repoFile]] as const) {
+    const values = readLayerFile(file);
+    if (!values) continue;
+    layers.push({ source, file, values });
+    for (const detail of findUnknownKeys(values, schema)) unknownKeys.push({ source, file, detail });
+    for (const detail of getConfigValidationErrors(values) ?? []) schemaErrors.push({ source, file, detail });
+  }
+  layers.push(envLayer(options.env ?? process.env));
+
+  const byPath = new Map<string, ConfigEntry>();
+  for (const layer of layers) {
+    for (const [path, value] of flatten(layer.values)) {
+      // A leaf replaces anything it shadows: the same path, or a whole subtree
+      // when an object is replaced by a scalar (and vice versa).
+      const shadowed = [...byPath.keys()].filter((p) => p === path || p.startsWith(`${path}.`) || path.startsWith(`${p}.`));
+      const origin: ConfigOrigin = {
+        source: layer.source,
+        value,
+        ...(layer.source === 'env' ? { envVar: CONFIG_ENV_VARS[path] } : {}),
+        ...(layer.file ? { file: layer.file } : {}),
+      };
+      const previous = byPath.get(path);
+      for (const p of shadowed) byPath.delete(p);
+      byPath.set(path, {
+        path,
+        ...origin,
+        overrides: previous ? [stripOverrides(previous), ...previous.overrides] : [],
+      });
+    }
+  }
+
+  const entries = [...byPath.values()].sort((a, b) => a.path.localeCompare(b.path));
+  const config: Record<string, unknown> = {};
+  for (const entry of entries) setPath(config, entry.path, entry.value);
+
+  return { config: config as WavemillConfig, entries, unknownKeys, schemaErrors };
+}
+
+function stripOverrides(entry: ConfigEntry): ConfigOrigin {
+  const { path: _path, overrides: _overrides, ...origin } = entry;
+  return origin;
+}
+
+/** Entries at `key` or below it (all entries when `key` is omitted). */
+export function entriesFor(explanation: ConfigExplanation, key?: string): ConfigEntry[] {
+  if (!key) return explanation.entries;
+  return explanation.entries.filter((e) => e.path === key || e.path.startsWith(`${key}.`));
+}
+
+/** Short label for where a value came from, e.g. `env MAX_PARALLEL`. */
+export function describeOrigin(origin: ConfigOrigin): string {
+  if (origin.source === 'env') return `env ${origin.envVar}`;
+  if (origin.source === 'default') return 'default';
+  return `${origin.source} (${origin.file})`;
+}
+
+/**
+ * Render entries (optionally only those under `key`) as aligned lines:
+ * `mill.maxParallel  5  ← env MAX_PARALLEL (overrides repo: 3, default: 3)`.
+ */
+export function formatConfigExplanation(explanation: ConfigExplanation, key?: string): string[] {
+  const entries = entriesFor(explanation, key);
+  const width = Math.max(0, ...entries.map((e) => e.path.length));
+  const valueWidth = Math.min(40, Math.max(0, ...entries.map((e) => JSON.stringify(e.value).length)));
+
+  const lines = entries.map((entry) => {
+    const overrides = entry.overrides.length > 0
+      ? ` (overrides ${entry.overrides.map((o) => `${o.source}: ${JSON.stringify(o.value)}`).join(', ')})`
+      : '';
+    return `${entry.path.padEnd(width)}  ${JSON.stringify(entry.value).padEnd(valueWidth)}  ← ${describeOrigin(entry)}${overrides}`;
+  });
+
+  const underKey = (path: string) => !key || path === key || path.startsWith(`${key}.`);
+  for (const issue of explanation.unknownKeys.filter((i) => underKey(i.detail))) {
+    lines.push(`⚠ Unknown key ${issue.detail} in ${issue.source} config (${issue.file}) — ignored`);
+  }
+  // Schema errors are reported as `/mill/maxParallel: must be integer`
+  const errorPath = (detail: string) => detail.split(':')[0].replace(/^\//, '').replace(/\//g, '.');
+  for (const issue of explanation.schemaErrors.filter((i) => underKey(errorPath(i.detail)) || errorPath(i.detail) === 'root')) {
+    lines.push(`✗ Schema violation in ${issue.source} config (${issue.file}): ${issue.detail}`);
+  }
+  return lines;
+}
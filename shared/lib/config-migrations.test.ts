@@ -0,0 +1,140 @@
+/**
+ * Tests for versioned config migrations, diffs, backups and rollback.
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync, readFileSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { CURRENT_CONFIG_VERSION } from './config.ts';
+import {
+  CONFIG_MIGRATIONS,
+  compareVersions,
+  moveConfigKey,
+  migrateConfig,
+  diffConfig,
+  migrateConfigFile,
+  restoreConfigBackup,
+  type ConfigMigration,
+} from './config-migrations.ts';
+
+let dir: string;
+
+before(() => {
+  dir = mkdtempSync(join(tmpdir(), 'config-migrations-test-'));
+});
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+/** A base version plus a later migration that moves a key. */
+const migrations: ConfigMigration[] = [
+  CONFIG_MIGRATIONS[0],
+  {
+    version: '1.1.0',
+    description: 'Move autoEval under eval',
+    up: (config) => moveConfigKey(config, 'autoEval', 'eval.autoEval'),
+    down: (config) => moveConfigKey(config, 'eval.autoEval', 'autoEval'),
+  },
+];
+
+describe('CONFIG_MIGRATIONS', () => {
+  it('are ordered and end at the current config version', () => {
+    const versions = CONFIG_MIGRATIONS.map((m) => m.version);
+    assert.deepEqual([...versions].sort(compareVersions), versions);
+    assert.equal(versions.at(-1), CURRENT_CONFIG_VERSION);
+  });
+});
+
+describe('moveConfigKey', () => {
+  it('moves nested values and drops emptied parents', () => {
+    assert.deepEqual(moveConfigKey({ a: { b: 1 } }, 'a.b', 'c.d'), { c: { d: 1 } });
+    assert.deepEqual(moveConfigKey({ a: { b: 1, x: 2 } }, 'a.b', 'c'), { a: { x: 2 }, c: 1 });
+    // Missing source is a no-op; an explicitly set destination wins
+    assert.deepEqual(moveConfigKey({ c: 3 }, 'a.b', 'c'), { c: 3 });
+    assert.deepEqual(moveConfigKey({ a: 1, c: 3 }, 'a', 'c'), { c: 3 });
+  });
+});
+
+describe('migrateConfig', () => {
+  it('upgrades unversioned configs through every migration', () => {
+    const original = { autoEval: false, mill: { maxParallel: 2 } };
+    const result = migrateConfig(original, { to: '1.1.0', migrations });
+    assert.equal(result.from, '0.0.0');
+    assert.equal(result.direction, 'up');
+    assert.deepEqual(result.applied.map((m) => m.version), ['1.0.0', '1.1.0']);
+    assert.deepEqual(result.config, { configVersion: '1.1.0', mill: { maxParallel: 2 }, eval: { autoEval: false } });
+    // Input is untouched
+    assert.deepEqual(original, { autoEval: false, mill: { maxParallel: 2 } });
+  });
+
+  it('rolls back with the inverse migrations in reverse order', () => {
+    const current = { configVersion: '1.1.0', eval: { autoEval: false } };
+    const result = migrateConfig(current, { to: '1.0.0', migrations });
+    assert.equal(result.direction, 'down');
+    assert.deepEqual(result.applied.map((m) => m.version), ['1.1.0']);
+    assert.deepEqual(result.config, { configVersion: '1.0.0', autoEval: false });
+    assert.deepEqual(migrateConfig(current, { to: '0.0.0', migrations }).config, { autoEval: false });
+  });
+
+  it('rejects unknown targets and configs newer than wavemill', () => {
+    assert.throws(() => migrateConfig({}, { to: '9.9.9' }), /Unknown config version 9\.9\.9/);
+    assert.throws(() => migrateConfig({ configVersion: '2.0.0' }), /newer than this wavemill supports/);
+  });
+});
+
+describe('diffConfig', () => {
+  it('reports added, removed and changed keys by path', () => {
+    assert.deepEqual(diffConfig({ a: 1, b: { c: [1] }, d: 1 }, { a: 2, b: { c: [1], e: true } }), [
+      { path: 'a', kind: 'changed', before: 1, after: 2 },
+      { path: 'b.e', kind: 'added', after: true },
+      { path: 'd', kind: 'removed', before: 1 },
+    ]);
+  });
+});
+
+describe('migrateConfigFile', () => {
+  it('dry-runs, then writes with a backup that rollback restores', () => {
+    const path = join(dir, 'repo.json');
+    const original = JSON.stringify({ autoEval: true }, null, 2) + '\n';
+    writeFileSync(path, original);
+
+    const dry = migrateConfigFile(path, { to: '1.1.0', migrations, dryRun: true });
+    assert.equal(dry.written, false);
+    assert.deepEqual(dry.changes.map((c) => `${c.kind} ${c.path}`), ['removed autoEval', 'added configVersion', 'added eval']);
+    assert.equal(readFileSync(path, 'utf-8'), original);
+
+    const result = migrateConfigFile(path, { to: '1.1.0', migrations });
+    assert.equal(result.written, true);
+    assert.equal(readFileSync(result.backupPath!, 'utf-8'), original);
+    assert.deepEqual(JSON.parse(readFileSync(path, 'utf-8')), { configVersion: '1.1.0', eval: { autoEval: true } });
+
+    // Already current: nothing to write
+    assert.equal(migrateConfigFile(path, { to: '1.1.0', migrations }).written, false);
+
+    restoreConfigBackup(path);
+    assert.equal(readFileSync(path, 'utf-8'), original);
+  });
+
+  it('refuses to write a config that fails schema validation', () => {
+    const path = join(dir, 'invalid.json');
+    writeFileSync(path, JSON.stringify({ mill: { maxParallel: 2 } }));
+    const broken: ConfigMigration[] = [{
+      version: '1.0.0',
+      description: 'Break the config',
+      up: (config) => ({ ...config, mill: { maxParallel: 'lots' } }),
+      down: (config) => config,
+    }];
+
+    const result = migrateConfigFile(path, { migrations: broken });
+    assert.equal(result.written, false);
+    assert.match(result.errors.join('\n'), /\/mill\/maxParallel/);
+    assert.equal(existsSync(`${path}.backup`), false);
+  });
+
+  it('fails clearly without a backup to restore', () => {
+    assert.throws(() => restoreConfigBackup(join(dir, 'none.json')), /No backup to restore/);
+  });
+});
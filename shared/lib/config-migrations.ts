@@ -0,0 +1,297 @@
+/**
+ * Config Migrations - Versioned, reversible upgrades of wavemill config files.
+ *
+ * Each migration moves a config from the previous version to `version`
+ * (`up`) and back (`down`). They apply to both the per-repo
+ * `.wavemill-config.json` and the user-level `~/.wavemill/config.json`:
+ *
+ * - `migrateConfig()` runs the migrations between two versions on an object
+ * - `migrateConfigFile()` does the same for a file: diff, schema validation
+ *   against wavemill-config.schema.json, backup, then write
+ * - `restoreConfigBackup()` puts the backup taken by the last write back
+ *
+ * When a key is renamed or moved, add a migration here (see
+ * `moveConfigKey()`) and bump CURRENT_CONFIG_VERSION in config.ts, so user
+ * values follow the key instead of being silently orphaned.
+ *
+ * @module config-migrations
+ */
+
+import { existsSync, readFileSync, writeFileSync, copyFileSync, renameSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { homedir } from 'node:os';
+import { CURRENT_CONFIG_VERSION, getConfigValidationErrors } from './config.ts';
+
+// ────────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────────
+
+export type ConfigObject = Record<string, unknown>;
+
+export interface ConfigMigration {
+  /** Config version this migration upgrades to */
+  version: string;
+  description: string;
+  /** Transform a config at the previous version into this version */
+  up(config: ConfigObject): ConfigObject;
+  /** Inverse of `up` */
+  down(config: ConfigObject): ConfigObject;
+}
+
+export interface MigrationResult {
+  from: string;
+  to: string;
+  direction: 'up' | 'down' | 'none';
+  /** Migrations applied, in the order they ran */
+  applied: ConfigMigration[];
+  config: ConfigObject;
+}
+
+export interface ConfigChange {
+  /** Dotted key path, e.g. `mill.maxParallel` */
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface ConfigFileMigration extends MigrationResult {
+  path: string;
+  changes: ConfigChange[];
+  /** Schema validation errors for the migrated config (nothing is written when non-empty) */
+  errors: string[];
+  backupPath?: string;
+  written: boolean;
+}
+
+// ────────────────────────────────────────────────────────────────
+// Migrations
+// ────────────────────────────────────────────────────────────────
+
+/** Version assumed for configs written before `configVersion` existed */
+export const UNVERSIONED = '0.0.0';
+
+/**
+ * All migrations, oldest first. The last entry's version must equal
+ * CURRENT_CONFIG_VERSION.
+ */
+export const CONFIG_MIGRATIONS: ConfigMigration[] = [
+  {
+    version: '1.0.0',
+    description: 'Introduce configVersion; pre-versioning configs are otherwise unchanged',
+    up: (config) => config,
+    down: (config) => config,
+  },
+];
+
+// ────────────────────────────────────────────────────────────────
+// Helpers
+// ────────────────────────────────────────────────────────────────
+
+/** Compare dotted numeric versions: negative, zero or positive like a sort comparator. */
+export function compareVersions(a: string, b: string): number {
+  const partsA = a.split('.').map(Number);
+  const partsB = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] || 0) - (partsB[i] || 0);
+    if (diff !== 0) return Math.sign(diff);
+  }
+  return 0;
+}
+
+function isPlainObject(value: unknown): value is ConfigObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Move the value at dotted path `from` to `to`, creating parent objects as
+ * needed and dropping parents left empty. A value already at `to` wins (the
+ * user set the new key explicitly). For use in migrations.
+ */
+export function moveConfigKey(config: ConfigObject, from: string, to: string): ConfigObject {
+  const fromKeys = from.split('.');
+  const parents: ConfigObject[] = [config];
+  for (const key of fromKeys.slice(0, -1)) {
+    const next = parents[parents.length - 1][key];
+    if (!isPlainObject(next)) return config;
+    parents.push(next);
+  }
+  const leaf = fromKeys[fromKeys.length - 1];
+  const holder = parents[parents.length - 1];
+  if (!(leaf in holder)) return config;
+
+  const value = holder[leaf];
+  delete holder[leaf];
+  for (let i = parents.length - 1; i > 0; i--) {
+    if (Object.keys(parents[i]).length > 0) break;
+    delete parents[i - 1][fromKeys[i - 1]];
+  }
+
+  const toKeys = to.split('.');
+  let target = config;
+  for (const key of toKeys.slice(0, -1)) {
+    if (!isPlainObject(target[key])) target[key] = {};
+    target = target[key] as ConfigObject;
+  }
+  const toLeaf = toKeys[toKeys.length - 1];
+  if (!(toLeaf in target)) target[toLeaf] = value;
+  return config;
+}
+
+// ────────────────────────────────────────────────────────────────
+// Migration Runner
+// ────────────────────────────────────────────────────────────────
+
+/** Version of a config object (UNVERSIONED when it has none). */
+export function configVersionOf(config: ConfigObject): string {
+  return typeof config.configVersion === 'string' && config.configVersion ? config.configVersion : UNVERSIONED;
+}
+
+/**
+ * Run the migrations needed to take `config` to version `to` (default:
+ * CURRENT_CONFIG_VERSION), upgrading or rolling back as needed. The input
+ * is not modified.
+ *
+ * Throws when `to` isn't a known version, or when the config is newer than
+ * every known migration (an older wavemill can't upgrade it).
+ */
+export function migrateConfig(
+  config: ConfigObject,
+  options: { to?: string; migrations?: ConfigMigration[] } = {},
+): MigrationResult {
+  const migrations = options.migrations ?? CONFIG_MIGRATIONS;
+  const from = configVersionOf(config);
+  const to = options.to ?? CURRENT_CONFIG_VERSION;
+  const known = [UNVERSIONED, ...migrations.map((m) => m.version)];
+
+  if (!known.includes(to)) {
+    throw new Error(`Unknown config version ${to} (known: ${known.join(', ')})`);
+  }
+  const latest = known[known.length - 1];
+  if (compareVersions(from, latest) > 0) {
+    throw new Error(`Config version ${from} is newer than this wavemill supports (${latest}); upgrade wavemill instead`);
+  }
+
+  let result = structuredClone(config);
+  const direction = compareVersions(to, from) > 0 ? 'up' : compareVersions(to, from) < 0 ? 'down' : 'none';
+  let applied: ConfigMigration[] = [];
+
+  if (direction === 'up') {
+    applied = migrations.filter((m) => compareVersions(m.version, from) > 0 && compareVersions(m.version, to) <= 0);
+    for (const migration of applied) result = migration.up(result);
+  } else if (direction === 'down') {
+    applied = migrations
+      .filter((m) => compareVersions(m.version, to) > 0 && compareVersions(m.version, from) <= 0)
+      .reverse();
+    for (const migration of applied) result = migration.down(result);
+  }
+
+  if (to === UNVERSIONED) {
+    delete result.configVersion;
+  } else if (direction !== 'none' || result.configVersion === undefined) {
+    // Keep configVersion first, as in freshly generated configs
+    const { configVersion: _previous, ...rest } = result;
+    result = { configVersion: to, ...rest };
+  }
+
+  return { from, to, direction, applied, config: result };
+}
+
+/** Key-by-key differences between two configs (arrays compare as values). */
+export function diffConfig(before: unknown, after: unknown, path = ''): ConfigChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const changes: ConfigChange[] = [];
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+    for (const key of keys) {
+      const child = path ? `${path}.${key}` : key;
+      if (!(key in after)) changes.push({ path: child, kind: 'removed', before: before[key] });
+      else if (!(key in before)) changes.push({ path: child, kind: 'added', after: after[key] });
+      else changes.push(...diffConfig(before[key], after[key], child));
+    }
+    return changes;
+  }
+  return JSON.stringify(before) === JSON.stringify(after) ? [] : [{ path, kind: 'changed', before, after }];
+}
+
+/** One line per change: `+ path = value`, `- path`, `~ path: old → new`. */
+export function formatConfigChanges(changes: ConfigChange[]): string[] {
+  return changes.map((change) => {
+    if (change.kind === 'added') return `+ ${change.path} = ${JSON.stringify(change.after)}`;
+    if (change.kind === 'removed') return `- ${change.path} (was ${JSON.stringify(change.before)})`;
+    return `~ ${change.path}: ${JSON.stringify(change.before)} → ${JSON.stringify(change.after)}`;
+  });
+}
+
+// ────────────────────────────────────────────────────────────────
+// Config Files
+// ────────────────────────────────────────────────────────────────
+
+export function repoConfigPath(repoDir = process.cwd()): string {
+  return resolve(repoDir, '.wavemill-config.json');
+}
+
+export function userConfigPath(): string {
+  return join(homedir(), '.wavemill', 'config.json');
+}
+
+export function backupPathFor(path: string): string {
+  return `${path}.backup`;
+}
+
+function readConfigFile(path: string): ConfigObject {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Failed to parse ${path}: ${(err as Error).message}`);
+  }
+  if (!isPlainObject(parsed)) throw new Error(`${path} does not contain a JSON object`);
+  return parsed;
+}
+
+function writeConfigFile(path: string, config: ConfigObject): void {
+  const tmp = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmp, JSON.stringify(config, null, 2) + '\n', 'utf-8');
+  renameSync(tmp, path);
+}
+
+/**
+ * Migrate a config file to version `to` (default: current).
+ *
+ * The migrated config is validated against the schema first; nothing is
+ * written when validation fails, when nothing changes, or with `dryRun`.
+ * Otherwise the original is copied to `<path>.backup` before writing.
+ */
+export function migrateConfigFile(
+  path: string,
+  options: { to?: string; dryRun?: boolean; migrations?: ConfigMigration[] } = {},
+): ConfigFileMigration {
+  const original = readConfigFile(path);
+  const result = migrateConfig(original, options);
+  const changes = diffConfig(original, result.config);
+  const errors = getConfigValidationErrors(result.config) ?? [];
+
+  const base: ConfigFileMigration = { ...result, path, changes, errors, written: false };
+  if (options.dryRun || errors.length > 0 || changes.length === 0) return base;
+
+  const backupPath = backupPathFor(path);
+  copyFileSync(path, backupPath);
+  writeConfigFile(path, result.config);
+  return { ...base, backupPath, written: true };
+}
+
+/**
+ * Restore `<path>.backup` over `path`. The replaced config becomes the new
+ * backup, so restoring again undoes the rollback. Returns the changes made.
+ */
+export function restoreConfigBackup(path: string): ConfigChange[] {
+  const backupPath = backupPathFor(path);
+  if (!existsSync(backupPath)) throw new Error(`No backup to restore at ${backupPath}`);
+
+  const backup = readConfigFile(backupPath);
+  const current = existsSync(path) ? readConfigFile(path) : {};
+  if (existsSync(path)) copyFileSync(path, `${backupPath}.tmp`);
+  writeConfigFile(path, backup);
+  if (existsSync(`${backupPath}.tmp`)) renameSync(`${backupPath}.tmp`, backupPath);
+  return diffConfig(current, backup);
+}
@@ -38,6 +38,24 @@ export interface MillConfig {
   setupCommand?: string;
 }
 
+export interface BudgetConfig {
+  perTaskUsd?: number;
+  perDayUsd?: number;
+  warnAt?: number[];
+  action?: 'pause' | 'downgrade' | 'abort';
+  downgradeModel?: string;
+}
+
+export interface HookConfig {
+  name?: string;
+  phase: 'beforeLaunch' | 'afterPrCreated' | 'afterReview' | 'afterMerge';
+  command?: string;
+  module?: string;
+  timeoutSeconds?: number;
+  onFailure?: 'warn' | 'ignore' | 'fail';
+  enabled?: boolean;
+}
+
 export interface ExpandConfig {
   maxSelect?: number;
   maxDisplay?: number;
@@ -52,7 +70,7 @@ export interface PlanConfig {
 
 export interface JudgeConfig {
   model?: string;
-  provider?: 'anthropic';
+  provider?: 'claude-cli' | 'anthropic';
 }
 
 export interface PricingEntry {
@@ -72,15 +90,46 @@ export interface InterventionPenaltiesConfig {
   postPrCommit?: number;
   manualEdit?: number;
   testFix?: number;
+  environmentFix?: number;
   sessionRedirect?: number;
 }
 
+export interface EvalStoreConfig {
+  backend?: 'jsonl' | 'sqlite';
+  path?: string;
+}
+
+export interface EvalOutcomesConfig {
+  source?: 'auto' | 'github' | 'gitlab' | 'fixture';
+  fixturePath?: string;
+  gitlabProject?: string;
+}
+
+export interface EvalTestsConfig {
+  command?: string;
+  reports?: string[];
+  lcov?: string;
+  baselineLcov?: string;
+  timeoutSeconds?: number;
+}
+
 export interface EvalConfig {
   aggregation?: AggregationConfig;
   evalsDir?: string;
+  store?: EvalStoreConfig;
   judge?: JudgeConfig;
   pricing?: Record<string, PricingEntry>;
   interventionPenalties?: InterventionPenaltiesConfig;
+  outcomes?: EvalOutcomesConfig;
+  tests?: EvalTestsConfig;
+}
+
+export interface RouterObjectiveConfig {
+  type?: 'score' | 'score-minus-cost' | 'cheapest-within';
+  /** score-minus-cost: score points given up per USD of expected cost */
+  costWeight?: number;
+  /** cheapest-within: how far below the best expected score a cheaper model may be */
+  tolerance?: number;
 }
 
 export interface RouterConfig {
@@ -94,6 +143,10 @@ export interface RouterConfig {
   mode?: 'heuristic' | 'llm' | 'auto';
   llmModel?: string;
   llmProvider?: 'openai' | 'anthropic';
+  policy?: 'greedy' | 'thompson';
+  explorationBudget?: number;
+  explorationWindow?: number;
+  objective?: RouterObjectiveConfig;
 }
 
 export interface ValidationLayerConfig {
@@ -133,6 +186,23 @@ export interface LinearConfig {
   project?: string;
 }
 
+export interface GitHubTrackerConfig {
+  repo?: string;
+  label?: string;
+  identifierPrefix?: string;
+}
+
+export interface LocalTrackerConfig {
+  path?: string;
+  identifierPrefix?: string;
+}
+
+export interface TrackerConfig {
+  backend?: 'linear' | 'github' | 'local';
+  github?: GitHubTrackerConfig;
+  local?: LocalTrackerConfig;
+}
+
 export interface WorktreeModeConfig {
   enabled?: boolean;
   autoApproveReadOnly?: boolean;
@@ -146,11 +216,14 @@ export interface PermissionsConfig {
 export interface WavemillConfig {
   configVersion?: string;
   linear?: LinearConfig;
+  tracker?: TrackerConfig;
   mill?: MillConfig;
   expand?: ExpandConfig;
   plan?: PlanConfig;
   eval?: EvalConfig;
   autoEval?: boolean;
+  budget?: BudgetConfig;
+  hooks?: HookConfig[];
   router?: RouterConfig;
   validation?: ValidationConfig;
   constraints?: ConstraintsConfig;
@@ -187,6 +260,25 @@ function warnValidatorDisabled(reason: string): void {
   didWarnValidatorDisabled = true;
 }
 
+/**
+ * Read wavemill-config.schema.json from the repo root.
+ */
+export function loadConfigSchema(): Record<string, unknown> {
+  const schemaPath = resolve(
+    import.meta.url.replace('file://', '').replace('/shared/lib/config.ts', ''),
+    'wavemill-config.schema.json'
+  );
+
+  if (!existsSync(schemaPath)) {
+    throw new Error(
+      `Config schema not found at ${schemaPath}. ` +
+      `Ensure wavemill-config.schema.json exists in the repo root.`
+    );
+  }
+
+  return JSON.parse(readFileSync(schemaPath, 'utf-8'));
+}
+
 /**
  * Load and compile the JSON schema for validation.
  * Cached after first call.
@@ -207,20 +299,7 @@ function getValidator(): ValidatorFunction | null {
     return compiledValidator;
   }
 
-  // Load schema from repo root
-  const schemaPath = resolve(
-    import.meta.url.replace('file://', '').replace('/shared/lib/config.ts', ''),
-    'wavemill-config.schema.json'
-  );
-
-  if (!existsSync(schemaPath)) {
-    throw new Error(
-      `Config schema not found at ${schemaPath}. ` +
-      `Ensure wavemill-config.schema.json exists in the repo root.`
-    );
-  }
-
-  const schema = JSON.parse(readFileSync(schemaPath, 'utf-8'));
+  const schema = loadConfigSchema();
   const require = createRequire(import.meta.url);
   let AjvCtor: {
     new (options: { allErrors: boolean; strict: boolean }): { compile(schema: unknown): ValidatorFunction };
@@ -255,27 +334,36 @@ function getValidator(): ValidatorFunction | null {
 }
 
 /**
- * Validate a config object against the schema.
- * Throws on validation failure with detailed error messages.
+ * Schema validation errors for a config object, formatted as
+ * `<path>: <message>`. Empty when valid; null when validation is
+ * unavailable (ajv missing or disabled).
  */
-function validateConfig(config: unknown): asserts config is WavemillConfig {
+export function getConfigValidationErrors(config: unknown): string[] | null {
   const validate = getValidator();
   if (!validate) {
-    return;
+    return null;
+  }
+
+  if (validate(config) || !validate.errors) {
+    return [];
   }
-  const valid = validate(config);
+  return validate.errors.map((err) => {
+    const path = err.instancePath || 'root';
+    const message = err.message || 'unknown error';
+    return `${path}: ${message}`;
+  });
+}
 
-  if (!valid && validate.errors) {
-    const errorMessages = validate.errors
-      .map((err) => {
-        const path = err.instancePath || 'root';
-        const message = err.message || 'unknown error';
-        return `  ${path}: ${message}`;
-      })
-      .join('\n');
+/**
+ * Validate a config object against the schema.
+ * Throws on validation failure with detailed error messages.
+ */
+function validateConfig(config: unknown): asserts config is WavemillConfig {
+  const errors = getConfigValidationErrors(config);
 
+  if (errors && errors.length > 0) {
     throw new Error(
-      `Config validation failed:\n${errorMessages}\n\n` +
+      `Config validation failed:\n${errors.map((e) => `  ${e}`).join('\n')}\n\n` +
       `Check .wavemill-config.json against wavemill-config.schema.json`
     );
   }
@@ -459,3 +547,11 @@ export function getPlanConfig(repoDir?: string): PlanConfig {
 export function getPermissionsConfig(repoDir?: string): PermissionsConfig {
   return loadWavemillConfig(repoDir).permissions || {};
 }
+
+/**
+ * Get the issue tracker config section.
+ * Returns empty object if not configured (Linear backend).
+ */
+export function getTrackerConfig(repoDir?: string): TrackerConfig {
+  return loadWavemillConfig(repoDir).tracker || {};
+}
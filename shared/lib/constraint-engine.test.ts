@@ -0,0 +1,143 @@
+/**
+ * Tests for the in-process constraint engine.
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'node:child_process';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import type { Constraint } from './constraint-parser.ts';
+import {
+  collectChanges,
+  evaluateRules,
+  violationLocation,
+  type ChangeSet,
+  type ConstraintCheck,
+  type ConstraintRule,
+} from './constraint-engine.ts';
+
+let repo: string;
+let changes: ChangeSet;
+
+function git(...args: string[]): void {
+  execFileSync('git', args, { cwd: repo, stdio: 'ignore' });
+}
+
+function write(path: string, content: string): void {
+  mkdirSync(join(repo, path, '..'), { recursive: true });
+  writeFileSync(join(repo, path), content);
+}
+
+function rule(checks: ConstraintCheck[], severity: Constraint['severity'] = 'error'): ConstraintRule {
+  return {
+    id: 'CONSTRAINT-1',
+    constraint: { id: 'CONSTRAINT-1', category: 'other', type: 'auto-validatable', description: 'test', severity },
+    checks,
+  };
+}
+
+function locations(checks: ConstraintCheck[]): string[] {
+  const [result] = evaluateRules([rule(checks)], changes, repo);
+  return result.violations.map(violationLocation);
+}
+
+before(() => {
+  repo = mkdtempSync(join(tmpdir(), 'constraint-engine-test-'));
+  git('init', '-q', '-b', 'develop');
+  git('config', 'user.email', 'test@example.com');
+  git('config', 'user.name', 'Test');
+  write('src/config.ts', 'export const port = 3000;\n');
+  write('src/app.ts', 'export function run(input: string) {\n  return eval(input);\n}\n');
+  write('src/app.test.ts', 'import { run } from "./app";\n');
+  git('add', '.');
+  git('commit', '-qm', 'init');
+
+  git('checkout', '-qb', 'feature');
+  write('src/config.ts', 'export const port = 8080;\n');
+  write('src/app.ts', [
+    "import moment from 'moment';",
+    "import { readFileSync } from 'node:fs';",
+    'export function run(input: string) {',
+    '  return eval(input);',
+    '}',
+    'export function log(value: any) {',
+    '  console.log(moment(), value);',
+    '}',
+    '',
+  ].join('\n'));
+  git('commit', '-qam', 'feature');
+  // Uncommitted and untracked work counts too
+  write('src/util.ts', 'const client = { apiKey: "sk-123" };\nexport const fs = require("fs");\n');
+  write('scripts/deploy.sh', 'DEPLOY_TOKEN="abc"\nTOKEN=$1\n');
+
+  changes = collectChanges(repo, 'develop');
+});
+
+after(() => {
+  rmSync(repo, { recursive: true, force: true });
+});
+
+describe('collectChanges', () => {
+  it('lists committed, uncommitted and untracked changes since the merge base', () => {
+    assert.deepEqual(changes.files.map((f) => [f.path, f.status]), [
+      ['src/app.ts', 'modified'],
+      ['src/config.ts', 'modified'],
+      ['scripts/deploy.sh', 'added'],
+      ['src/util.ts', 'added'],
+    ]);
+    const app = changes.files[0].addedLines;
+    assert.ok(app !== 'all');
+    assert.deepEqual([...app].sort((a, b) => a - b), [1, 2, 6, 7, 8]);
+  });
+
+  it('fails clearly when the base branch does not exist', () => {
+    assert.throws(() => collectChanges(repo, 'trunk'), /Base branch "trunk" not found/);
+  });
+});
+
+describe('evaluateRules', () => {
+  it('checks touched files against globs', () => {
+    assert.deepEqual(locations([{ kind: 'files-not-touched', globs: ['src/config.ts'] }]), ['src/config.ts']);
+    assert.deepEqual(locations([{ kind: 'files-touched', globs: ['docs/**'] }]), ['docs/**']);
+    assert.deepEqual(locations([{ kind: 'files-touched', globs: ['*.sh'] }]), []);
+  });
+
+  it('finds forbidden imports on added lines, including require and node: specifiers', () => {
+    assert.deepEqual(locations([{ kind: 'forbidden-import', modules: ['moment', 'fs'] }]), [
+      'src/app.ts:1:1',
+      'src/app.ts:2:1',
+      'src/util.ts:2:19',
+    ]);
+  });
+
+  it('finds banned APIs and the any type, ignoring untouched lines', () => {
+    // eval(input) on line 4 predates the branch
+    assert.deepEqual(locations([{ kind: 'banned-api', apis: ['eval', 'console.log', 'any'] }]), [
+      'src/app.ts:6:28',
+      'src/app.ts:7:3',
+    ]);
+  });
+
+  it('finds hardcoded secrets in code and in other text files', () => {
+    assert.deepEqual(locations([{ kind: 'hardcoded-secret', names: ['API_KEY', 'TOKEN'] }]), [
+      'scripts/deploy.sh:1:1',
+      'src/util.ts:1:18',
+    ]);
+  });
+
+  it('requires tests for changed source files', () => {
+    const [result] = evaluateRules([rule([{ kind: 'required-tests' }])], changes, repo);
+    assert.deepEqual(result.violations.map((v) => v.file), ['src/config.ts', 'src/util.ts']);
+    assert.match(result.violations[1].message, /expected util\.test\.ts or util\.spec\.ts/);
+  });
+
+  it('only fails rules at error severity', () => {
+    const checks: ConstraintCheck[] = [{ kind: 'files-not-touched', globs: ['src/config.ts'] }];
+    const [error, warning] = evaluateRules([rule(checks), rule(checks, 'warning')], changes, repo);
+    assert.equal(error.passed, false);
+    assert.equal(warning.passed, true);
+    assert.equal(warning.violations.length, 1);
+  });
+});
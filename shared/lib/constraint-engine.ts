@@ -0,0 +1,452 @@
+/**
+ * Constraint Engine
+ *
+ * Evaluates declarative constraint checks in process against the files a
+ * branch changed since it forked from its base branch. TypeScript and
+ * JavaScript files are parsed with the TypeScript compiler, so import and
+ * API checks look at syntax rather than text, and only lines the branch
+ * added can violate them. Every violation names the file and, where there
+ * is one, the line and column it was found at.
+ *
+ * @module constraint-engine
+ */
+
+import { execFileSync } from 'node:child_process';
+import { existsSync, readFileSync } from 'node:fs';
+import { basename, dirname, extname, join } from 'node:path';
+import ts from 'typescript';
+import type { Constraint } from './constraint-parser.ts';
+import { globToRegExp, matchesGlob } from './glob-utils.ts';
+
+// ────────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────────
+
+/** A declarative check a constraint compiles to. */
+export type ConstraintCheck =
+  /** Changed files must not match any of the globs. */
+  | { kind: 'files-not-touched'; globs: string[] }
+  /** At least one changed file must match one of the globs. */
+  | { kind: 'files-touched'; globs: string[] }
+  /** Added code must not import these modules (or their subpaths). */
+  | { kind: 'forbidden-import'; modules: string[] }
+  /** Changed source files need a sibling `.test`/`.spec` file; `globs` narrows which sources. */
+  | { kind: 'required-tests'; globs?: string[] }
+  /** Added code must not reference these identifiers or dotted names (`any` bans the type). */
+  | { kind: 'banned-api'; apis: string[] }
+  /** Added code must not assign string literals to names containing these words. */
+  | { kind: 'hardcoded-secret'; names: string[] };
+
+/** A constraint together with the checks it compiled to. */
+export interface ConstraintRule {
+  id: string;
+  constraint: Constraint;
+  checks: ConstraintCheck[];
+}
+
+/** A file the branch changed relative to the merge base. */
+export interface ChangedFile {
+  path: string;
+  status: 'added' | 'modified' | 'deleted' | 'renamed';
+  previousPath?: string;
+  /** Line numbers added or modified, or 'all' for new and untracked files */
+  addedLines: Set<number> | 'all';
+}
+
+export interface ChangeSet {
+  baseBranch: string;
+  /** Commit the branch forked from; changes are measured against it */
+  mergeBase: string;
+  files: ChangedFile[];
+}
+
+export interface RuleViolation {
+  ruleId: string;
+  check: ConstraintCheck['kind'];
+  severity: Constraint['severity'];
+  /** Repo-relative path, or the expected globs for files-touched */
+  file: string;
+  line?: number;
+  column?: number;
+  message: string;
+  /** How to fix it */
+  remediation: string;
+}
+
+export interface RuleResult {
+  ruleId: string;
+  description: string;
+  category: Constraint['category'];
+  severity: Constraint['severity'];
+  /** A rule fails only on violations at error severity */
+  passed: boolean;
+  violations: RuleViolation[];
+}
+
+/** Fix guidance shown with each violation of a check. */
+export const REMEDIATION: Record<ConstraintCheck['kind'], string> = {
+  'files-not-touched': 'Revert the changes to this file, or update the constraint if the change is intentional',
+  'files-touched': 'Make the required change in a file matching the constraint',
+  'forbidden-import': 'Remove the import and use an allowed alternative',
+  'required-tests': 'Add a <name>.test.<ext> or <name>.spec.<ext> file next to the source file',
+  'banned-api': 'Replace the banned API with an allowed alternative',
+  'hardcoded-secret': 'Read the value from an environment variable or secret store instead',
+};
+
+// ────────────────────────────────────────────────────────────────
+// Change Set
+// ────────────────────────────────────────────────────────────────
+
+function git(repoRoot: string, args: string[]): string {
+  return execFileSync('git', ['-c', 'core.quotePath=false', ...args], {
+    cwd: repoRoot,
+    encoding: 'utf-8',
+    stdio: ['ignore', 'pipe', 'ignore'],
+    maxBuffer: 64 * 1024 * 1024,
+  });
+}
+
+function resolveBase(repoRoot: string, baseBranch: string): string {
+  for (const ref of [baseBranch, `origin/${baseBranch}`]) {
+    try {
+      git(repoRoot, ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]);
+      return ref;
+    } catch {
+      // try the next candidate
+    }
+  }
+  throw new Error(`Base branch "${baseBranch}" not found locally or on origin`);
+}
+
+/** Added line numbers per file from a zero-context diff. */
+function parseAddedLines(diff: string): Map<string, Set<number>> {
+  const added = new Map<string, Set<number>>();
+  let current: Set<number> | null = null;
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('+++ ')) {
+      const target = line.slice(4);
+      current = target === '/dev/null' ? null : new Set();
+      if (current) added.set(target.replace(/^b\//, ''), current);
+      continue;
+    }
+    const hunk = current && line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+    if (hunk && current) {
+      const start = Number(hunk[1]);
+      const count = hunk[2] === undefined ? 1 : Number(hunk[2]);
+      for (let i = 0; i < count; i++) current.add(start + i);
+    }
+  }
+  return added;
+}
+
+/**
+ * Collect the files changed since the branch forked from `baseBranch`,
+ * including uncommitted and untracked work. The base is looked up locally
+ * first and on origin second.
+ */
+export function collectChanges(repoRoot: string, baseBranch: string): ChangeSet {
+  const mergeBase = git(repoRoot, ['merge-base', resolveBase(repoRoot, baseBranch), 'HEAD']).trim();
+  const addedLines = parseAddedLines(git(repoRoot, ['diff', '-U0', '--no-color', '-M', mergeBase]));
+
+  const files: ChangedFile[] = [];
+  for (const entry of git(repoRoot, ['diff', '--name-status', '-M', mergeBase]).split('\n')) {
+    if (!entry) continue;
+    const [code, ...paths] = entry.split('\t');
+    const path = paths[paths.length - 1];
+    const status = code[0] === 'A' ? 'added' : code[0] === 'D' ? 'deleted' : code[0] === 'R' ? 'renamed' : 'modified';
+    files.push({
+      path,
+      status,
+      ...(status === 'renamed' ? { previousPath: paths[0] } : {}),
+      addedLines: status === 'added' ? 'all' : addedLines.get(path) ?? new Set(),
+    });
+  }
+  for (const path of git(repoRoot, ['ls-files', '--others', '--exclude-standard']).split('\n')) {
+    if (path) files.push({ path, status: 'added', addedLines: 'all' });
+  }
+
+  return { baseBranch, mergeBase, files };
+}
+
+// ────────────────────────────────────────────────────────────────
+// Matching
+// ────────────────────────────────────────────────────────────────
+
+const CODE_EXTENSIONS = new Set(['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs']);
+const TEST_FILE = /\.(test|spec)\.[cm]?[jt]sx?$/;
+
+function matchesModule(specifier: string, module: string): boolean {
+  const spec = specifier.replace(/^node:/, '');
+  const target = module.replace(/^node:/, '');
+  if (/[*?]/.test(target)) return globToRegExp(target).test(spec);
+  return spec === target || spec.startsWith(`${target}/`);
+}
+
+function isCodeFile(path: string): boolean {
+  return CODE_EXTENSIONS.has(extname(path)) && !path.endsWith('.d.ts');
+}
+
+// ────────────────────────────────────────────────────────────────
+// Source Analysis
+// ────────────────────────────────────────────────────────────────
+
+interface Finding {
+  line: number;
+  column: number;
+  message: string;
+}
+
+type Located = { file: string; message: string } & Partial<Finding>;
+
+function scriptKind(path: string): ts.ScriptKind {
+  switch (extname(path)) {
+    case '.tsx':
+      return ts.ScriptKind.TSX;
+    case '.jsx':
+      return ts.ScriptKind.JSX;
+    case '.js':
+    case '.mjs':
+    case '.cjs':
+      return ts.ScriptKind.JS;
+    default:
+      return ts.ScriptKind.TS;
+  }
+}
+
+function at(source: ts.SourceFile, node: ts.Node, message: string): Finding {
+  const { line, character } = source.getLineAndCharacterOfPosition(node.getStart(source));
+  return { line: line + 1, column: character + 1, message };
+}
+
+function walk(node: ts.Node, visit: (node: ts.Node) => void): void {
+  visit(node);
+  ts.forEachChild(node, (child) => walk(child, visit));
+}
+
+/** `a.b.c` for identifier chains, null for anything else. */
+function dottedName(node: ts.Node): string | null {
+  if (ts.isIdentifier(node)) return node.text;
+  if (node.kind === ts.SyntaxKind.ThisKeyword) return 'this';
+  if (ts.isPropertyAccessExpression(node)) {
+    const left = dottedName(node.expression);
+    return left === null ? null : `${left}.${node.name.text}`;
+  }
+  return null;
+}
+
+/** Identifiers that name a declaration or a property rather than reference a value. */
+function isNameOnly(node: ts.Identifier): boolean {
+  const parent = node.parent as ts.Node & { name?: ts.Node; propertyName?: ts.Node };
+  return parent.name === node || parent.propertyName === node;
+}
+
+function findImports(source: ts.SourceFile, modules: string[]): Finding[] {
+  const findings: Finding[] = [];
+  const check = (node: ts.Node, specifier: ts.Expression | undefined) => {
+    if (!specifier || !ts.isStringLiteralLike(specifier)) return;
+    const module = modules.find((m) => matchesModule(specifier.text, m));
+    if (module) findings.push(at(source, node, `Imports "${specifier.text}", which is forbidden`));
+  };
+  walk(source, (node) => {
+    if (ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) {
+      check(node, node.moduleSpecifier);
+    } else if (ts.isImportEqualsDeclaration(node) && ts.isExternalModuleReference(node.moduleReference)) {
+      check(node, node.moduleReference.expression);
+    } else if (
+      ts.isCallExpression(node) &&
+      (node.expression.kind === ts.SyntaxKind.ImportKeyword ||
+        (ts.isIdentifier(node.expression) && node.expression.text === 'require'))
+    ) {
+      check(node, node.arguments[0]);
+    }
+  });
+  return findings;
+}
+
+function findApis(source: ts.SourceFile, apis: string[]): Finding[] {
+  const banned = new Set(apis);
+  const findings: Finding[] = [];
+  walk(source, (node) => {
+    if (node.kind === ts.SyntaxKind.AnyKeyword) {
+      if (banned.has('any')) findings.push(at(source, node, 'Uses the `any` type'));
+      return;
+    }
+    if (ts.isIdentifier(node) && isNameOnly(node)) return;
+    if (!ts.isIdentifier(node) && !ts.isPropertyAccessExpression(node)) return;
+    const name = dottedName(node);
+    if (name && banned.has(name)) findings.push(at(source, node, `Uses \`${name}\`, which is banned`));
+  });
+  return findings;
+}
+
+function normalizeName(name: string): string {
+  return name.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function findSecrets(source: ts.SourceFile, names: string[]): Finding[] {
+  const words = names.map(normalizeName);
+  const findings: Finding[] = [];
+  const check = (node: ts.Node, name: ts.Node | undefined, value: ts.Node | undefined) => {
+    if (!name || !value || !ts.isStringLiteralLike(value) || value.text === '') return;
+    const text = ts.isPropertyAccessExpression(name) ? name.name.text : ts.isIdentifier(name) || ts.isStringLiteral(name) ? name.text : null;
+    if (text && words.some((w) => normalizeName(text).includes(w))) findings.push(at(source, node, `Possible hardcoded secret: ${text} is assigned a string literal`));
+  };
+  walk(source, (node) => {
+    if (ts.isVariableDeclaration(node) || ts.isPropertyDeclaration(node)) {
+      check(node, node.name, node.initializer);
+    } else if (ts.isPropertyAssignment(node)) {
+      check(node, node.name, node.initializer);
+    } else if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+      check(node, node.left, node.right);
+    }
+  });
+  return findings;
+}
+
+/** Line-based fallback for files the compiler cannot parse (shell, YAML, Python...). */
+function findSecretsInText(content: string, names: string[]): Finding[] {
+  const findings: Finding[] = [];
+  const pattern = new RegExp(`\\b\\w*(?:${names.map((n) => n.replace(/\W/g, '')).join('|')})\\w*\\s*[:=]\\s*["'][^"']+["']`, 'i');
+  content.split('\n').forEach((text, index) => {
+    const match = text.match(pattern);
+    if (match) {
+      findings.push({ line: index + 1, column: (match.index ?? 0) + 1, message: `Possible hardcoded secret: ${match[0].split(/\s*[:=]/)[0]} is assigned a string literal` });
+    }
+  });
+  return findings;
+}
+
+// ────────────────────────────────────────────────────────────────
+// Evaluation
+// ────────────────────────────────────────────────────────────────
+
+/** Reads and parses changed files at most once across all rules. */
+class SourceCache {
+  private readonly repoRoot: string;
+  private readonly texts = new Map<string, string | null>();
+  private readonly sources = new Map<string, ts.SourceFile | null>();
+
+  constructor(repoRoot: string) {
+    this.repoRoot = repoRoot;
+  }
+
+  text(path: string): string | null {
+    if (!this.texts.has(path)) {
+      const full = join(this.repoRoot, path);
+      this.texts.set(path, existsSync(full) ? readFileSync(full, 'utf-8') : null);
+    }
+    return this.texts.get(path)!;
+  }
+
+  source(path: string): ts.SourceFile | null {
+    if (!this.sources.has(path)) {
+      const text = isCodeFile(path) ? this.text(path) : null;
+      this.sources.set(path, text === null ? null : ts.createSourceFile(path, text, ts.ScriptTarget.Latest, true, scriptKind(path)));
+    }
+    return this.sources.get(path)!;
+  }
+}
+
+function expectedTests(path: string): string[] {
+  const ext = extname(path);
+  const stem = basename(path, ext);
+  const dir = dirname(path);
+  return [
+    join(dir, `${stem}.test${ext}`),
+    join(dir, `${stem}.spec${ext}`),
+    join(dir, '__tests__', `${stem}.test${ext}`),
+  ].map((p) => p.replace(/^\.\//, ''));
+}
+
+function evaluateCheck(
+  check: ConstraintCheck,
+  files: ChangedFile[],
+  repoRoot: string,
+  cache: SourceCache,
+): Located[] {
+  const present = files.filter((f) => f.status !== 'deleted');
+  const onAddedLines = (file: ChangedFile, findings: Finding[]) =>
+    findings
+      .filter((f) => file.addedLines === 'all' || file.addedLines.has(f.line))
+      .map((f) => ({ file: file.path, ...f }));
+
+  switch (check.kind) {
+    case 'files-not-touched':
+      return files
+        .filter((f) => check.globs.some((g) => matchesGlob(f.path, g) || (f.previousPath !== undefined && matchesGlob(f.previousPath, g))))
+        .map((f) => ({ file: f.path, message: `${f.path} was ${f.status}, but must not be changed` }));
+
+    case 'files-touched':
+      return files.some((f) => check.globs.some((g) => matchesGlob(f.path, g)))
+        ? []
+        : [{ file: check.globs.join(', '), message: `No changed file matches ${check.globs.join(', ')}` }];
+
+    case 'forbidden-import':
+      return present.flatMap((f) => {
+        const source = cache.source(f.path);
+        return source ? onAddedLines(f, findImports(source, check.modules)) : [];
+      });
+
+    case 'banned-api':
+      return present.flatMap((f) => {
+        const source = cache.source(f.path);
+        return source ? onAddedLines(f, findApis(source, check.apis)) : [];
+      });
+
+    case 'hardcoded-secret':
+      return present.flatMap((f) => {
+        if (/\.(md|json)$/.test(f.path)) return [];
+        const source = cache.source(f.path);
+        if (source) return onAddedLines(f, findSecrets(source, check.names));
+        const text = cache.text(f.path);
+        return text === null ? [] : onAddedLines(f, findSecretsInText(text, check.names));
+      });
+
+    case 'required-tests': {
+      const changed = new Set(present.map((f) => f.path));
+      return present
+        .filter((f) => isCodeFile(f.path) && !TEST_FILE.test(f.path))
+        .filter((f) => !check.globs || check.globs.some((g) => matchesGlob(f.path, g)))
+        .filter((f) => !expectedTests(f.path).some((t) => changed.has(t) || existsSync(join(repoRoot, t))))
+        .map((f) => {
+          const [test, spec] = expectedTests(f.path).map((t) => basename(t));
+          return { file: f.path, message: `No test file for ${f.path} (expected ${test} or ${spec})` };
+        });
+    }
+  }
+}
+
+/**
+ * Evaluate rules against a change set. Files are read from the working
+ * tree under `repoRoot`.
+ */
+export function evaluateRules(rules: ConstraintRule[], changes: ChangeSet, repoRoot: string): RuleResult[] {
+  const cache = new SourceCache(repoRoot);
+  return rules.map((rule) => {
+    const { severity, description, category } = rule.constraint;
+    const violations = rule.checks.flatMap((check) =>
+      evaluateCheck(check, changes.files, repoRoot, cache).map((v) => ({
+        ruleId: rule.id,
+        check: check.kind,
+        severity,
+        ...v,
+        remediation: REMEDIATION[check.kind],
+      })),
+    );
+    violations.sort((a, b) => a.file.localeCompare(b.file) || (a.line ?? 0) - (b.line ?? 0));
+    return {
+      ruleId: rule.id,
+      description,
+      category,
+      severity,
+      passed: severity !== 'error' || violations.length === 0,
+      violations,
+    };
+  });
+}
+
+/** `path:line:column` for a violation, as far as it is known. */
+export function violationLocation(violation: RuleViolation): string {
+  if (violation.line === undefined) return violation.file;
+  return `${violation.file}:${violation.line}${violation.column !== undefined ? `:${violation.column}` : ''}`;
+}
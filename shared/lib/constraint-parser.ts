@@ -115,10 +115,11 @@ function mapCategory(categoryRaw: string): Constraint['category'] {
  */
 function classifyConstraint(description: string): 'auto-validatable' | 'manual-review' {
   const autoPatterns = [
-    /don't modify|must not modify|do not change/i,
+    /(?:don't|do not|must not|cannot) (?:modify|change|touch)/i,
     /must use|should use|use only/i,
     /must include|should include|must have/i,
-    /no .+ allowed|cannot use|must not use/i,
+    /no .+ allowed|cannot use|must not use|do not use|don't use|never use/i,
+    /must not import|do not import|don't import/i,
     /file .+ must/i,
     /match pattern/i,
   ];
@@ -163,6 +164,12 @@ function extractPattern(description: string): string | undefined {
     return globMatch[1];
   }
 
+  // Module patterns (e.g., "do not import `moment`")
+  const importMatch = description.match(/import(?:\s+from)?\s+["'`]([^"'`]+)["'`]/i);
+  if (importMatch) {
+    return importMatch[1];
+  }
+
   // Code patterns (e.g., "use async/await")
   const codeMatch = description.match(/use\s+["'`]?([a-zA-Z0-9_\/\-\.]+)["'`]?/i);
   if (codeMatch && codeMatch[1].length < 50) {
@@ -0,0 +1,107 @@
+/**
+ * Tests for SARIF and GitHub Checks export of constraint results.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { RuleViolation } from './constraint-engine.ts';
+import type { ValidationResult } from './constraint-validator.ts';
+import { MAX_CHECK_ANNOTATIONS, toCheckRun, toSarif } from './constraint-report.ts';
+
+const importViolation: RuleViolation = {
+  ruleId: 'CONSTRAINT-1',
+  check: 'forbidden-import',
+  severity: 'error',
+  file: 'src/api.ts',
+  line: 3,
+  column: 1,
+  message: 'Imports "axios", which is forbidden',
+  remediation: 'Remove the import and use an allowed alternative',
+};
+
+const touchViolation: RuleViolation = {
+  ruleId: 'CONSTRAINT-2',
+  check: 'files-touched',
+  severity: 'warning',
+  file: 'CHANGELOG.md',
+  message: 'No changed file matches CHANGELOG.md',
+  remediation: 'Make the required change in a file matching the constraint',
+};
+
+function validation(violations: RuleViolation[], overrides: Partial<ValidationResult> = {}): ValidationResult {
+  return {
+    issueId: 'HOK-1',
+    baseBranch: 'main',
+    passed: !violations.some((v) => v.severity === 'error'),
+    totalRules: 2,
+    passedRules: 1,
+    failedRules: 1,
+    changedFiles: 4,
+    results: [
+      { ruleId: 'CONSTRAINT-1', description: 'Do not import axios', category: 'code-style', severity: 'error', passed: false, violations: [importViolation] },
+      { ruleId: 'CONSTRAINT-2', description: 'Update the changelog', category: 'file', severity: 'warning', passed: true, violations: [touchViolation] },
+    ],
+    violations,
+    manualReviewRequired: false,
+    executionTimeMs: 5,
+    ...overrides,
+  };
+}
+
+describe('toSarif', () => {
+  it('describes rules and locates each result', () => {
+    const log = toSarif(validation([importViolation, touchViolation]));
+    assert.equal(log.version, '2.1.0');
+    const [run] = log.runs;
+    assert.deepEqual(run.tool.driver.rules.map((r) => [r.id, r.defaultConfiguration.level, r.properties.category]), [
+      ['CONSTRAINT-1', 'error', 'code-style'],
+      ['CONSTRAINT-2', 'warning', 'file'],
+    ]);
+    assert.equal(run.tool.driver.rules[0].help.text, importViolation.remediation);
+
+    const [located, branchWide] = run.results;
+    assert.deepEqual(located.locations[0].physicalLocation, {
+      artifactLocation: { uri: 'src/api.ts', uriBaseId: '%SRCROOT%' },
+      region: { startLine: 3, startColumn: 1 },
+    });
+    assert.equal(located.level, 'error');
+    assert.equal(branchWide.ruleIndex, 1);
+    assert.deepEqual(branchWide.locations[0].physicalLocation, {
+      artifactLocation: { uri: 'constraints/HOK-1/rules.json', uriBaseId: '%SRCROOT%' },
+    });
+  });
+});
+
+describe('toCheckRun', () => {
+  it('annotates violations and concludes from the result', () => {
+    const run = toCheckRun(validation([importViolation, touchViolation]), 'abc123');
+    assert.equal(run.head_sha, 'abc123');
+    assert.equal(run.conclusion, 'failure');
+    assert.deepEqual(run.output.annotations[0], {
+      path: 'src/api.ts',
+      start_line: 3,
+      end_line: 3,
+      start_column: 1,
+      end_column: 1,
+      annotation_level: 'failure',
+      title: 'CONSTRAINT-1: Do not import axios',
+      message: 'Imports "axios", which is forbidden',
+      raw_details: 'Remediation: Remove the import and use an allowed alternative',
+    });
+    assert.deepEqual(
+      [run.output.annotations[1].path, run.output.annotations[1].start_line, run.output.annotations[1].annotation_level],
+      ['constraints/HOK-1/rules.json', 1, 'warning'],
+    );
+    assert.match(run.output.summary, /1 errors, 1 warnings/);
+
+    assert.equal(toCheckRun(validation([], { passed: true, manualReviewRequired: true })).conclusion, 'neutral');
+    assert.equal(toCheckRun(validation([], { passed: true })).conclusion, 'success');
+  });
+
+  it('caps annotations at the API limit', () => {
+    const many = Array.from({ length: 60 }, (_, i) => ({ ...importViolation, line: i + 1 }));
+    const run = toCheckRun(validation(many));
+    assert.equal(run.output.annotations.length, MAX_CHECK_ANNOTATIONS);
+    assert.match(run.output.summary, /first 50 of 60 violations/);
+  });
+});
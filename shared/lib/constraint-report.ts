@@ -0,0 +1,206 @@
+/**
+ * Constraint Report
+ *
+ * Exports constraint validation results for other tools: a SARIF 2.1.0 log
+ * for code scanning and other SARIF consumers, and a GitHub Checks API
+ * payload whose annotations put each violation next to its line in the
+ * pull request.
+ *
+ * @module constraint-report
+ */
+
+import type { RuleViolation } from './constraint-engine.ts';
+import type { ValidationResult } from './constraint-validator.ts';
+
+export const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+export const REPORT_TOOL_NAME = 'wavemill-constraints';
+/** The Checks API accepts at most 50 annotations per request */
+export const MAX_CHECK_ANNOTATIONS = 50;
+
+// ────────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────────
+
+type SarifLevel = 'error' | 'warning';
+
+export interface SarifRule {
+  id: string;
+  shortDescription: { text: string };
+  help: { text: string };
+  defaultConfiguration: { level: SarifLevel };
+  properties: { category: string };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId: '%SRCROOT%' };
+      region?: { startLine: number; startColumn?: number };
+    };
+  }>;
+  partialFingerprints: { 'constraintViolation/v1': string };
+  properties: { check: RuleViolation['check']; remediation: string };
+}
+
+/** The subset of SARIF 2.1.0 the report uses. */
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: Array<{
+    tool: { driver: { name: string; rules: SarifRule[] } };
+    automationDetails: { id: string };
+    results: SarifResult[];
+  }>;
+}
+
+export interface CheckAnnotation {
+  path: string;
+  start_line: number;
+  end_line: number;
+  start_column?: number;
+  end_column?: number;
+  annotation_level: 'failure' | 'warning';
+  title: string;
+  message: string;
+  raw_details: string;
+}
+
+/** Body for `POST /repos/{owner}/{repo}/check-runs`. */
+export interface CheckRunPayload {
+  name: string;
+  head_sha?: string;
+  status: 'completed';
+  conclusion: 'success' | 'failure' | 'neutral';
+  output: {
+    title: string;
+    summary: string;
+    annotations: CheckAnnotation[];
+  };
+}
+
+// ────────────────────────────────────────────────────────────────
+// Helpers
+// ────────────────────────────────────────────────────────────────
+
+/**
+ * Path a violation is reported at. Violations that are about the branch as
+ * a whole (a required file was never touched) point at the stored rules,
+ * which are part of the change.
+ */
+function reportPath(violation: RuleViolation, issueId: string): string {
+  return violation.check === 'files-touched' ? `constraints/${issueId}/rules.json` : violation.file;
+}
+
+function describe(result: ValidationResult, ruleId: string): string {
+  return result.results.find((r) => r.ruleId === ruleId)?.description ?? ruleId;
+}
+
+// ────────────────────────────────────────────────────────────────
+// SARIF
+// ────────────────────────────────────────────────────────────────
+
+/** Convert a validation result to a SARIF 2.1.0 log with one run. */
+export function toSarif(result: ValidationResult): SarifLog {
+  const rules: SarifRule[] = result.results.map((rule) => ({
+    id: rule.ruleId,
+    shortDescription: { text: rule.description },
+    help: {
+      text: [...new Set(rule.violations.map((v) => v.remediation))].join('\n') || rule.description,
+    },
+    defaultConfiguration: { level: rule.severity },
+    properties: { category: rule.category },
+  }));
+  const ruleIndex = new Map(rules.map((rule, index) => [rule.id, index]));
+
+  const results = result.violations.map((violation): SarifResult => {
+    const path = reportPath(violation, result.issueId);
+    return {
+      ruleId: violation.ruleId,
+      ruleIndex: ruleIndex.get(violation.ruleId)!,
+      level: violation.severity,
+      message: { text: violation.message },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: path, uriBaseId: '%SRCROOT%' },
+            ...(violation.line !== undefined
+              ? { region: { startLine: violation.line, ...(violation.column !== undefined ? { startColumn: violation.column } : {}) } }
+              : {}),
+          },
+        },
+      ],
+      // Line-independent, so a violation keeps its identity when code above it moves
+      partialFingerprints: { 'constraintViolation/v1': `${violation.ruleId}:${path}:${violation.message}` },
+      properties: { check: violation.check, remediation: violation.remediation },
+    };
+  });
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: { driver: { name: REPORT_TOOL_NAME, rules } },
+        automationDetails: { id: `${REPORT_TOOL_NAME}/${result.issueId}/` },
+        results,
+      },
+    ],
+  };
+}
+
+// ────────────────────────────────────────────────────────────────
+// GitHub Checks
+// ────────────────────────────────────────────────────────────────
+
+/**
+ * Convert a validation result to a completed check run. Only the first
+ * {@link MAX_CHECK_ANNOTATIONS} violations become annotations; the summary
+ * says how many were left out.
+ */
+export function toCheckRun(result: ValidationResult, headSha?: string): CheckRunPayload {
+  const annotations = result.violations.slice(0, MAX_CHECK_ANNOTATIONS).map((violation): CheckAnnotation => {
+    const line = violation.line ?? 1;
+    return {
+      path: reportPath(violation, result.issueId),
+      start_line: line,
+      end_line: line,
+      // Columns are only allowed on single-line annotations
+      ...(violation.column !== undefined ? { start_column: violation.column, end_column: violation.column } : {}),
+      annotation_level: violation.severity === 'error' ? 'failure' : 'warning',
+      title: `${violation.ruleId}: ${describe(result, violation.ruleId)}`,
+      message: violation.message,
+      raw_details: `Remediation: ${violation.remediation}`,
+    };
+  });
+
+  const errors = result.violations.filter((v) => v.severity === 'error').length;
+  const warnings = result.violations.length - errors;
+  const summary = [
+    `${result.passedRules}/${result.totalRules} constraint rules passed against ${result.changedFiles} files changed since \`${result.baseBranch}\`.`,
+    ...(result.violations.length > 0 ? [`${errors} errors, ${warnings} warnings.`] : []),
+    ...(result.violations.length > annotations.length
+      ? [`Showing the first ${annotations.length} of ${result.violations.length} violations.`]
+      : []),
+    ...(result.manualReviewRequired
+      ? [`Some constraints need manual review: \`constraints/${result.issueId}/manual-review.md\`.`]
+      : []),
+  ].join('\n\n');
+
+  return {
+    name: `Constraints (${result.issueId})`,
+    ...(headSha ? { head_sha: headSha } : {}),
+    status: 'completed',
+    conclusion: !result.passed ? 'failure' : result.manualReviewRequired ? 'neutral' : 'success',
+    output: {
+      title: result.passed
+        ? `All ${result.totalRules} constraint rules passed`
+        : `${result.failedRules} of ${result.totalRules} constraint rules failed`,
+      summary,
+      annotations,
+    },
+  };
+}
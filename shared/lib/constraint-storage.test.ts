@@ -40,8 +40,6 @@ function testSaveConstraintRules() {
     rules: [
       {
         id: 'CONSTRAINT-1',
-        filename: '01-file-no-modify-config.cjs',
-        code: '#!/usr/bin/env node\nconsole.log("Rule 1");',
         constraint: {
           id: 'CONSTRAINT-1',
           category: 'file',
@@ -49,18 +47,18 @@ function testSaveConstraintRules() {
           description: 'Do not modify config.json',
           severity: 'error',
         },
+        checks: [{ kind: 'files-not-touched', globs: ['config.json'] }],
       },
       {
         id: 'CONSTRAINT-2',
-        filename: '02-code-style-use-typescript.cjs',
-        code: '#!/usr/bin/env node\nconsole.log("Rule 2");',
         constraint: {
           id: 'CONSTRAINT-2',
           category: 'code-style',
           type: 'auto-validatable',
-          description: 'Must use TypeScript',
+          description: 'Do not use eval',
           severity: 'error',
         },
+        checks: [{ kind: 'banned-api', apis: ['eval'] }],
       },
     ],
     manualReviewConstraints: [
@@ -83,16 +81,8 @@ function testSaveConstraintRules() {
 
   assert(fs.existsSync(savedDir), 'Constraint directory should be created');
   assert(
-    fs.existsSync(path.join(savedDir, 'rules')),
-    'Rules subdirectory should be created'
-  );
-  assert(
-    fs.existsSync(path.join(savedDir, 'rules', '01-file-no-modify-config.cjs')),
-    'First rule file should be saved'
-  );
-  assert(
-    fs.existsSync(path.join(savedDir, 'rules', '02-code-style-use-typescript.cjs')),
-    'Second rule file should be saved'
+    fs.existsSync(path.join(savedDir, 'rules.json')),
+    'Rules file should be saved'
   );
   assert(
     fs.existsSync(path.join(savedDir, 'metadata.json')),
@@ -102,10 +92,6 @@ function testSaveConstraintRules() {
     fs.existsSync(path.join(savedDir, 'manual-review.md')),
     'Manual review document should be saved'
   );
-
-  // Check that rule files are executable
-  const stat = fs.statSync(path.join(savedDir, 'rules', '01-file-no-modify-config.cjs'));
-  assert((stat.mode & 0o111) !== 0, 'Rule files should be executable');
 }
 
 function testLoadConstraintRules() {
@@ -115,7 +101,11 @@ function testLoadConstraintRules() {
 
   assert(loaded !== null, 'Should load constraint rules');
   assert(loaded!.issueId === 'HOK-123', 'Should have correct issue ID');
-  assert(loaded!.ruleFiles.length === 2, 'Should load 2 rule files');
+  assert(loaded!.rules.length === 2, 'Should load 2 rules');
+  assert(
+    loaded!.rules[1].checks[0].kind === 'banned-api',
+    'Should load the declarative checks of each rule'
+  );
   assert(loaded!.metadata !== null, 'Should load metadata');
   assert(loaded!.metadata!.totalRules === 2, 'Metadata should show 2 total rules');
   assert(
@@ -185,8 +175,6 @@ function testSaveWithoutManualReview() {
     rules: [
       {
         id: 'CONSTRAINT-1',
-        filename: '01-file-test.cjs',
-        code: '#!/usr/bin/env node\nconsole.log("Test");',
         constraint: {
           id: 'CONSTRAINT-1',
           category: 'file',
@@ -194,6 +182,7 @@ function testSaveWithoutManualReview() {
           description: 'Test constraint',
           severity: 'error',
         },
+        checks: [{ kind: 'required-tests' }],
       },
     ],
     manualReviewConstraints: [],
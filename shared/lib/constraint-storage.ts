@@ -3,7 +3,8 @@
  * Constraint Storage
  *
  * Manages persistent storage of constraint rules in the repository.
- * Rules are stored in `constraints/<issue-id>/` directory (version controlled).
+ * Rules are stored in `constraints/<issue-id>/` directory (version controlled),
+ * as declarative checks in `rules.json`.
  */
 
 import * as fs from 'node:fs';
@@ -20,6 +21,8 @@ export interface StoredConstraintMetadata {
   manualReviewCount: number;
 }
 
+const RULES_FILE = 'rules.json';
+
 /**
  * Save generated rules to constraints directory
  */
@@ -29,17 +32,11 @@ export function saveConstraintRules(
   repoRoot: string = process.cwd()
 ): string {
   const constraintDir = path.join(repoRoot, 'constraints', issueId);
-  const rulesDir = path.join(constraintDir, 'rules');
-
-  // Create directories
   fs.mkdirSync(constraintDir, { recursive: true });
-  fs.mkdirSync(rulesDir, { recursive: true });
 
-  // Save each rule
-  for (const rule of ruleGenerationResult.rules) {
-    const rulePath = path.join(rulesDir, rule.filename);
-    fs.writeFileSync(rulePath, rule.code, { mode: 0o755 }); // Make executable
-  }
+  // Save rules
+  const rulesPath = path.join(constraintDir, RULES_FILE);
+  fs.writeFileSync(rulesPath, JSON.stringify(ruleGenerationResult.rules, null, 2) + '\n');
 
   // Save manual review constraints
   if (ruleGenerationResult.manualReviewConstraints.length > 0) {
@@ -79,7 +76,7 @@ export function loadConstraintRules(
     return null;
   }
 
-  const rulesDir = path.join(constraintDir, 'rules');
+  const rulesPath = path.join(constraintDir, RULES_FILE);
   const metadataPath = path.join(constraintDir, 'metadata.json');
   const manualReviewPath = path.join(constraintDir, 'manual-review.md');
 
@@ -89,14 +86,10 @@ export function loadConstraintRules(
     metadata = JSON.parse(fs.readFileSync(metadataPath, 'utf-8'));
   }
 
-  // Load rule files
-  const ruleFiles: string[] = [];
-  if (fs.existsSync(rulesDir)) {
-    ruleFiles.push(
-      ...fs.readdirSync(rulesDir)
-        .filter(f => f.endsWith('.cjs') || f.endsWith('.js'))
-        .map(f => path.join(rulesDir, f))
-    );
+  // Load rules
+  let rules: GeneratedRule[] = [];
+  if (fs.existsSync(rulesPath)) {
+    rules = JSON.parse(fs.readFileSync(rulesPath, 'utf-8'));
   }
 
   // Load manual review document
@@ -109,7 +102,7 @@ export function loadConstraintRules(
     issueId,
     constraintDir,
     metadata,
-    ruleFiles,
+    rules,
     manualReviewContent,
   };
 }
@@ -190,6 +183,6 @@ export interface LoadedConstraintRules {
   issueId: string;
   constraintDir: string;
   metadata: StoredConstraintMetadata | null;
-  ruleFiles: string[];
+  rules: GeneratedRule[];
   manualReviewContent: string | null;
 }
@@ -2,34 +2,40 @@
 /**
  * Constraint Validator
  *
- * Executes generated constraint rules and collects violations.
- * Supports parallel rule execution for better performance.
+ * Evaluates stored constraint rules against the changes on the current
+ * branch and collects violations with their file and line.
  */
 
-import { execSync, spawn } from 'node:child_process';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
-import { loadConstraintRules, type LoadedConstraintRules } from './constraint-storage.ts';
+import { loadConstraintRules } from './constraint-storage.ts';
+import {
+  collectChanges,
+  evaluateRules,
+  violationLocation,
+  type ChangeSet,
+  type RuleResult,
+  type RuleViolation,
+} from './constraint-engine.ts';
+import { getMillConfig } from './config.ts';
+
+export type { RuleResult, RuleViolation };
 
 export interface ValidationResult {
   issueId: string;
+  baseBranch: string;
   passed: boolean;
   totalRules: number;
   passedRules: number;
   failedRules: number;
+  changedFiles: number;
+  results: RuleResult[];
+  /** Violations of all rules, including warnings that do not fail validation */
   violations: RuleViolation[];
   manualReviewRequired: boolean;
   executionTimeMs: number;
 }
 
-export interface RuleViolation {
-  ruleFile: string;
-  ruleId: string;
-  exitCode: number;
-  stdout: string;
-  stderr: string;
-}
-
 /**
  * Validate constraints for an issue
  */
@@ -45,104 +51,44 @@ export async function validateConstraints(
   if (!loaded) {
     throw new Error(`No constraint rules found for issue ${issueId}`);
   }
-
-  const violations: RuleViolation[] = [];
-  const { ruleFiles, manualReviewContent } = loaded;
-
-  // Execute rules (in parallel if enabled)
-  if (options.parallel !== false && ruleFiles.length > 1) {
-    const results = await executeRulesParallel(ruleFiles, repoRoot);
-    violations.push(...results.filter(r => r.exitCode !== 0));
-  } else {
-    // Sequential execution
-    for (const ruleFile of ruleFiles) {
-      const result = await executeRule(ruleFile, repoRoot);
-      if (result.exitCode !== 0) {
-        violations.push(result);
-      }
-    }
+  if (loaded.rules.length === 0 && fs.existsSync(path.join(loaded.constraintDir, 'rules'))) {
+    throw new Error(
+      `Constraint rules for ${issueId} use the old script format; regenerate them with ` +
+      `npx tsx tools/generate-constraint-rules.ts ${issueId} --force`
+    );
   }
 
-  const executionTimeMs = Date.now() - startTime;
+  const baseBranch = options.baseBranch || getMillConfig(repoRoot).baseBranch || 'main';
+  const collected = options.changes ?? collectChanges(repoRoot, baseBranch);
+  // The stored rules themselves are not subject to the constraints
+  const changes = { ...collected, files: collected.files.filter(f => !f.path.startsWith('constraints/')) };
+  const results = evaluateRules(loaded.rules, changes, repoRoot);
+  const failedRules = results.filter(r => !r.passed).length;
 
   return {
     issueId,
-    passed: violations.length === 0,
-    totalRules: ruleFiles.length,
-    passedRules: ruleFiles.length - violations.length,
-    failedRules: violations.length,
-    violations,
-    manualReviewRequired: manualReviewContent !== null,
-    executionTimeMs,
+    baseBranch: changes.baseBranch,
+    passed: failedRules === 0,
+    totalRules: results.length,
+    passedRules: results.length - failedRules,
+    failedRules,
+    changedFiles: changes.files.length,
+    results,
+    violations: results.flatMap(r => r.violations),
+    manualReviewRequired: loaded.manualReviewContent !== null,
+    executionTimeMs: Date.now() - startTime,
   };
 }
 
-/**
- * Execute a single rule
- */
-async function executeRule(ruleFile: string, cwd: string): Promise<RuleViolation> {
-  const ruleId = path.basename(ruleFile, '.js');
-
-  return new Promise((resolve) => {
-    const child = spawn('node', [ruleFile], {
-      cwd,
-      stdio: ['ignore', 'pipe', 'pipe'],
-      timeout: 30000, // 30 second timeout
-    });
-
-    let stdout = '';
-    let stderr = '';
-
-    child.stdout?.on('data', (data) => {
-      stdout += data.toString();
-    });
-
-    child.stderr?.on('data', (data) => {
-      stderr += data.toString();
-    });
-
-    child.on('close', (code) => {
-      resolve({
-        ruleFile,
-        ruleId,
-        exitCode: code ?? 1,
-        stdout: stdout.trim(),
-        stderr: stderr.trim(),
-      });
-    });
-
-    child.on('error', (error) => {
-      resolve({
-        ruleFile,
-        ruleId,
-        exitCode: 1,
-        stdout: '',
-        stderr: `Failed to execute rule: ${error.message}`,
-      });
-    });
-  });
-}
-
-/**
- * Execute multiple rules in parallel
- */
-async function executeRulesParallel(
-  ruleFiles: string[],
-  cwd: string
-): Promise<RuleViolation[]> {
-  const promises = ruleFiles.map((ruleFile) => executeRule(ruleFile, cwd));
-  return Promise.all(promises);
-}
-
 /**
  * Format validation result for display
  */
 export function formatValidationResult(result: ValidationResult): string {
   let output = '';
 
-  if (result.passed && !result.manualReviewRequired) {
+  if (result.passed && result.violations.length === 0 && !result.manualReviewRequired) {
     output += `\n✅ All constraint validations passed for ${result.issueId}\n`;
-    output += `   ${result.passedRules} rules checked in ${result.executionTimeMs}ms\n`;
+    output += `   ${result.passedRules} rules checked against ${result.changedFiles} changed files in ${result.executionTimeMs}ms\n`;
     return output;
   }
 
@@ -153,6 +99,7 @@ export function formatValidationResult(result: ValidationResult): string {
   // Summary
   const statusIcon = result.passed ? '✅' : '❌';
   output += `${statusIcon} Status: ${result.passed ? 'PASSED' : 'FAILED'}\n`;
+  output += `   Base branch: ${result.baseBranch} (${result.changedFiles} changed files)\n`;
   output += `   Total rules: ${result.totalRules}\n`;
   output += `   Passed: ${result.passedRules}\n`;
   output += `   Failed: ${result.failedRules}\n`;
@@ -164,18 +111,21 @@ export function formatValidationResult(result: ValidationResult): string {
     output += `   Violations\n`;
     output += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
 
-    for (const violation of result.violations) {
-      output += `Rule: ${violation.ruleId}\n`;
-      output += `File: ${violation.ruleFile}\n`;
-      output += `Exit code: ${violation.exitCode}\n\n`;
+    for (const rule of result.results) {
+      if (rule.violations.length === 0) continue;
 
-      if (violation.stderr) {
-        output += violation.stderr + '\n\n';
-      } else if (violation.stdout) {
-        output += violation.stdout + '\n\n';
+      const icon = rule.passed ? '⚠️ ' : '❌';
+      output += `${icon} ${rule.ruleId} (${rule.severity}): ${rule.description}\n`;
+      for (const violation of rule.violations) {
+        output += `   • ${violationLocation(violation)}\n`;
+        output += `     ${violation.message}\n`;
       }
-
-      output += `---\n\n`;
+      const remediation = [...new Set(rule.violations.map(v => v.remediation))];
+      output += `\n📋 Remediation:\n`;
+      for (const step of remediation) {
+        output += `   - ${step}\n`;
+      }
+      output += `\n---\n\n`;
     }
   }
 
@@ -195,5 +145,6 @@ export function formatValidationResult(result: ValidationResult): string {
  * Validation options
  */
 export interface ValidationOptions {
-  parallel?: boolean; // Execute rules in parallel (default: true)
+  baseBranch?: string; // Branch the changes are measured against (default: mill.baseBranch, then main)
+  changes?: ChangeSet; // Pre-collected changes, skipping git
 }
@@ -0,0 +1,157 @@
+/**
+ * Tests for dashboard-data aggregations.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { EvalRecord } from './eval-schema.ts';
+import type { ReviewMetric } from './review-metrics.ts';
+import {
+  weekStart,
+  buildModelTrends,
+  buildCostSummary,
+  buildInterventionBreakdown,
+  buildReviewSummary,
+  buildDashboardSummary,
+} from './dashboard-data.ts';
+
+function makeRecord(overrides?: Partial<EvalRecord>): EvalRecord {
+  return {
+    id: 'r1',
+    schemaVersion: '1.0.0',
+    originalPrompt: 'Add a logout button',
+    modelId: 'claude-opus-4-6',
+    modelVersion: 'claude-opus-4-6',
+    score: 1.0,
+    scoreBand: 'Full Success',
+    timeSeconds: 245,
+    timestamp: '2026-02-11T10:30:00Z',
+    interventionRequired: false,
+    interventionCount: 0,
+    interventionDetails: [],
+    rationale: 'Task completed autonomously.',
+    ...overrides,
+  };
+}
+
+function merged(value: boolean): EvalRecord['outcomes'] {
+  return {
+    success: value,
+    review: { humanReviewRequired: false, approvals: 0, changeRequests: 0 },
+    rework: { agentIterations: 1 },
+    delivery: { prCreated: true, merged: value },
+  } as EvalRecord['outcomes'];
+}
+
+describe('weekStart', () => {
+  it('returns the Monday of the ISO week in UTC', () => {
+    assert.equal(weekStart('2026-02-11T10:30:00Z'), '2026-02-09'); // Wednesday
+    assert.equal(weekStart('2026-02-09T00:00:00Z'), '2026-02-09'); // Monday
+    assert.equal(weekStart('2026-02-15T23:59:59Z'), '2026-02-09'); // Sunday
+  });
+
+  it('returns null for unparseable timestamps', () => {
+    assert.equal(weekStart('not a date'), null);
+  });
+});
+
+describe('buildModelTrends', () => {
+  it('counts score bands per model and buckets them by week', () => {
+    const trends = buildModelTrends([
+      makeRecord({ id: 'a', timestamp: '2026-02-02T00:00:00Z', score: 0.2, scoreBand: 'Failure' }),
+      makeRecord({ id: 'b', timestamp: '2026-02-11T00:00:00Z', score: 1.0 }),
+      makeRecord({ id: 'c', timestamp: '2026-02-12T00:00:00Z', score: 0.8, scoreBand: 'Minor Feedback' }),
+      makeRecord({ id: 'd', modelId: 'gpt-5.4', score: 0.5, scoreBand: 'Partial' }),
+    ]);
+
+    assert.deepEqual(trends.map((t) => t.modelId), ['claude-opus-4-6', 'gpt-5.4']);
+    const [claude] = trends;
+    assert.equal(claude.count, 3);
+    assert.equal(claude.avgScore, 0.667);
+    assert.equal(claude.bands['Failure'], 1);
+    assert.equal(claude.bands['Partial'], 0);
+    assert.deepEqual(claude.weekly.map((w) => [w.week, w.count, w.avgScore]), [
+      ['2026-02-02', 1, 0.2],
+      ['2026-02-09', 2, 0.9],
+    ]);
+    assert.equal(claude.weekly[1].bands['Minor Feedback'], 1);
+  });
+});
+
+describe('buildCostSummary', () => {
+  it('divides total spend, including unmerged attempts, by merged PRs', () => {
+    const cost = buildCostSummary([
+      makeRecord({ id: 'a', workflowCost: 1.5, outcomes: merged(true) }),
+      makeRecord({ id: 'b', workflowCost: 0.5, outcomes: merged(false) }),
+      makeRecord({ id: 'c', outcomes: merged(true) }),
+      makeRecord({ id: 'd', modelId: 'gpt-5.4', workflowCost: 2 }),
+    ]);
+
+    assert.equal(cost.mergedPRs, 2);
+    assert.equal(cost.totalCost, 4);
+    assert.equal(cost.uncostedRecords, 1);
+    assert.equal(cost.costPerMergedPr, 2);
+
+    const gpt = cost.byModel.find((m) => m.modelId === 'gpt-5.4');
+    assert.equal(gpt?.mergedPRs, 0);
+    assert.equal(gpt?.costPerMergedPr, null);
+  });
+});
+
+describe('buildInterventionBreakdown', () => {
+  it('counts structured interventions by type, severity and model', () => {
+    const breakdown = buildInterventionBreakdown([
+      makeRecord({
+        interventions: [
+          { timestamp: '2026-02-11T10:00:00Z', type: 'bugfix', severity: 'high', note: 'fixed null check' },
+          { timestamp: '2026-02-11T10:05:00Z', type: 'bugfix', severity: 'low', note: 'typo' },
+          { timestamp: '2026-02-11T10:10:00Z', type: 'clarification', severity: 'low', note: 'scope' },
+        ],
+      }),
+      makeRecord({
+        id: 'b',
+        modelId: 'gpt-5.4',
+        interventionDetails: ['legacy free text'],
+        interventions: [{ timestamp: '2026-02-11T11:00:00Z', type: 'bugfix', severity: 'med', note: 'x' }],
+      }),
+    ]);
+
+    const bugfix = breakdown.find((b) => b.type === 'bugfix');
+    assert.equal(bugfix?.count, 3);
+    assert.deepEqual(bugfix?.bySeverity, { low: 1, med: 1, high: 1 });
+    assert.deepEqual(bugfix?.byModel, { 'claude-opus-4-6': 2, 'gpt-5.4': 1 });
+    assert.equal(breakdown.find((b) => b.type === 'rollback')?.count, 0);
+    assert.equal(breakdown.length, 7);
+  });
+});
+
+describe('buildReviewSummary', () => {
+  it('summarizes review outcomes and iterations', () => {
+    const metric = (outcome: ReviewMetric['outcome'], totalIterations: number) =>
+      ({ outcome, totalIterations, iterations: [] }) as unknown as ReviewMetric;
+
+    assert.deepEqual(buildReviewSummary([metric('resolved', 1), metric('resolved', 2), metric('escalated', 3)]), {
+      total: 3,
+      resolved: 2,
+      escalated: 1,
+      error: 0,
+      avgIterations: 2,
+    });
+    assert.equal(buildReviewSummary([]).avgIterations, 0);
+  });
+});
+
+describe('buildDashboardSummary', () => {
+  it('lists records newest first with merge status', () => {
+    const summary = buildDashboardSummary([
+      makeRecord({ id: 'old', timestamp: '2026-01-01T00:00:00Z' }),
+      makeRecord({ id: 'new', timestamp: '2026-03-01T00:00:00Z', outcomes: merged(true) }),
+    ]);
+
+    assert.deepEqual(summary.records.map((r) => [r.id, r.merged]), [['new', true], ['old', false]]);
+    assert.equal(summary.totals.evals, 2);
+    assert.equal(summary.totals.models, 1);
+    assert.equal(summary.bandLabels.length, 5);
+    assert.equal(summary.review.total, 0);
+  });
+});
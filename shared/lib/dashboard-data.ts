@@ -0,0 +1,315 @@
+/**
+ * Dashboard data — aggregates eval records and review metrics for the
+ * local `wavemill dashboard` UI.
+ *
+ * Pure functions over already-loaded data so the HTTP layer stays thin and
+ * the aggregations can be tested without a server.
+ *
+ * @module dashboard-data
+ */
+
+import { SCORE_BANDS } from './eval-schema.ts';
+import type { EvalRecord, InterventionType, InterventionSeverity } from './eval-schema.ts';
+import type { ReviewMetric } from './review-metrics.ts';
+
+// ────────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────────
+
+/** Score-band counts keyed by band label. */
+export type BandCounts = Record<string, number>;
+
+/** One time bucket of a model's score trend. */
+export interface TrendPoint {
+  /** Bucket start date (YYYY-MM-DD, Monday of the ISO week, UTC) */
+  week: string;
+  count: number;
+  avgScore: number;
+  bands: BandCounts;
+}
+
+/** Score-band trend for a single model. */
+export interface ModelTrend {
+  modelId: string;
+  count: number;
+  avgScore: number;
+  bands: BandCounts;
+  weekly: TrendPoint[];
+}
+
+/** Workflow cost per merged PR, overall or for one model. */
+export interface CostSummary {
+  /** Records whose PR was merged */
+  mergedPRs: number;
+  /** Sum of workflowCost across all records that have one */
+  totalCost: number;
+  /** Records with no workflowCost (excluded from totalCost) */
+  uncostedRecords: number;
+  /** totalCost / mergedPRs, or null when nothing has merged */
+  costPerMergedPr: number | null;
+}
+
+/** Intervention counts for one InterventionType. */
+export interface InterventionBreakdown {
+  type: InterventionType;
+  count: number;
+  bySeverity: Record<InterventionSeverity, number>;
+  /** Counts per model, for spotting which models need babysitting */
+  byModel: Record<string, number>;
+}
+
+/** Review-loop outcome counts from the review metrics log. */
+export interface ReviewSummary {
+  total: number;
+  resolved: number;
+  escalated: number;
+  error: number;
+  avgIterations: number;
+}
+
+/** Lightweight per-record row for the eval table (full record via drill-down). */
+export interface EvalRow {
+  id: string;
+  timestamp: string;
+  modelId: string;
+  score: number;
+  scoreBand: string;
+  issueId?: string;
+  prUrl?: string;
+  workflowCost?: number;
+  interventionCount: number;
+  merged: boolean;
+}
+
+/** Everything the dashboard page renders. */
+export interface DashboardSummary {
+  generatedAt: string;
+  bandLabels: string[];
+  totals: {
+    evals: number;
+    models: number;
+    avgScore: number;
+  };
+  models: ModelTrend[];
+  cost: CostSummary & { byModel: Array<CostSummary & { modelId: string }> };
+  interventions: InterventionBreakdown[];
+  review: ReviewSummary;
+  records: EvalRow[];
+}
+
+// ────────────────────────────────────────────────────────────────
+// Constants
+// ────────────────────────────────────────────────────────────────
+
+const INTERVENTION_TYPES: InterventionType[] = [
+  'clarification',
+  'bugfix',
+  'manual_merge',
+  'environment_fix',
+  'prompt_edit',
+  'scope_change',
+  'rollback',
+];
+
+const BAND_LABELS: string[] = SCORE_BANDS.map((band) => band.label);
+
+// ────────────────────────────────────────────────────────────────
+// Helpers
+// ────────────────────────────────────────────────────────────────
+
+function emptyBands(): BandCounts {
+  return Object.fromEntries(BAND_LABELS.map((label) => [label, 0]));
+}
+
+function average(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function round(value: number, places: number): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Start of the ISO week (Monday, UTC) containing `timestamp`, as YYYY-MM-DD.
+ * Returns null for unparseable timestamps.
+ */
+export function weekStart(timestamp: string): string | null {
+  const ms = Date.parse(timestamp);
+  if (Number.isNaN(ms)) return null;
+  const date = new Date(ms);
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  date.setUTCDate(date.getUTCDate() - daysSinceMonday);
+  return date.toISOString().slice(0, 10);
+}
+
+function isMerged(record: EvalRecord): boolean {
+  return record.outcomes?.delivery?.merged === true;
+}
+
+function summarizeCost(records: EvalRecord[]): CostSummary {
+  let totalCost = 0;
+  let uncostedRecords = 0;
+  let mergedPRs = 0;
+
+  for (const record of records) {
+    if (isMerged(record)) mergedPRs++;
+    if (typeof record.workflowCost === 'number') {
+      totalCost += record.workflowCost;
+    } else {
+      uncostedRecords++;
+    }
+  }
+
+  return {
+    mergedPRs,
+    totalCost: round(totalCost, 4),
+    uncostedRecords,
+    costPerMergedPr: mergedPRs > 0 ? round(totalCost / mergedPRs, 4) : null,
+  };
+}
+
+function groupByModel(records: EvalRecord[]): Map<string, EvalRecord[]> {
+  const groups = new Map<string, EvalRecord[]>();
+  for (const record of records) {
+    const group = groups.get(record.modelId) ?? [];
+    group.push(record);
+    groups.set(record.modelId, group);
+  }
+  return groups;
+}
+
+// ────────────────────────────────────────────────────────────────
+// Aggregations
+// ────────────────────────────────────────────────────────────────
+
+/** Score-band counts and weekly trend for each model, most-used first. */
+export function buildModelTrends(records: EvalRecord[]): ModelTrend[] {
+  const trends: ModelTrend[] = [];
+
+  for (const [modelId, group] of groupByModel(records)) {
+    const bands = emptyBands();
+    const weeks = new Map<string, EvalRecord[]>();
+
+    for (const record of group) {
+      bands[record.scoreBand] = (bands[record.scoreBand] ?? 0) + 1;
+      const week = weekStart(record.timestamp);
+      if (!week) continue;
+      const bucket = weeks.get(week) ?? [];
+      bucket.push(record);
+      weeks.set(week, bucket);
+    }
+
+    const weekly = [...weeks.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([week, bucket]) => {
+        const weekBands = emptyBands();
+        for (const record of bucket) {
+          weekBands[record.scoreBand] = (weekBands[record.scoreBand] ?? 0) + 1;
+        }
+        return {
+          week,
+          count: bucket.length,
+          avgScore: round(average(bucket.map((r) => r.score)), 3),
+          bands: weekBands,
+        };
+      });
+
+    trends.push({
+      modelId,
+      count: group.length,
+      avgScore: round(average(group.map((r) => r.score)), 3),
+      bands,
+      weekly,
+    });
+  }
+
+  return trends.sort((a, b) => b.count - a.count || a.modelId.localeCompare(b.modelId));
+}
+
+/**
+ * Workflow cost per merged PR, overall and per model.
+ *
+ * Spend on attempts that never merged still counts toward the total, so
+ * the ratio reflects what each shipped PR actually cost.
+ */
+export function buildCostSummary(records: EvalRecord[]): DashboardSummary['cost'] {
+  const byModel = [...groupByModel(records)]
+    .map(([modelId, group]) => ({ modelId, ...summarizeCost(group) }))
+    .sort((a, b) => a.modelId.localeCompare(b.modelId));
+
+  return { ...summarizeCost(records), byModel };
+}
+
+/**
+ * Intervention counts per InterventionType, from structured `interventions`.
+ * Legacy free-text `interventionDetails` carry no type and are not counted.
+ */
+export function buildInterventionBreakdown(records: EvalRecord[]): InterventionBreakdown[] {
+  const breakdown = new Map<InterventionType, InterventionBreakdown>(
+    INTERVENTION_TYPES.map((type) => [
+      type,
+      { type, count: 0, bySeverity: { low: 0, med: 0, high: 0 }, byModel: {} },
+    ]),
+  );
+
+  for (const record of records) {
+    for (const intervention of record.interventions ?? []) {
+      const entry = breakdown.get(intervention.type);
+      if (!entry) continue;
+      entry.count++;
+      entry.bySeverity[intervention.severity] = (entry.bySeverity[intervention.severity] ?? 0) + 1;
+      entry.byModel[record.modelId] = (entry.byModel[record.modelId] ?? 0) + 1;
+    }
+  }
+
+  return [...breakdown.values()];
+}
+
+/** Outcome counts and average iterations from the review metrics log. */
+export function buildReviewSummary(metrics: ReviewMetric[]): ReviewSummary {
+  return {
+    total: metrics.length,
+    resolved: metrics.filter((m) => m.outcome === 'resolved').length,
+    escalated: metrics.filter((m) => m.outcome === 'escalated').length,
+    error: metrics.filter((m) => m.outcome === 'error').length,
+    avgIterations: round(average(metrics.map((m) => m.totalIterations)), 2),
+  };
+}
+
+/** Build the full dashboard payload. Records are listed newest first. */
+export function buildDashboardSummary(
+  records: EvalRecord[],
+  reviewMetrics: ReviewMetric[] = [],
+): DashboardSummary {
+  const rows: EvalRow[] = records
+    .map((record) => ({
+      id: record.id,
+      timestamp: record.timestamp,
+      modelId: record.modelId,
+      score: record.score,
+      scoreBand: record.scoreBand,
+      issueId: record.issueId,
+      prUrl: record.prUrl,
+      workflowCost: record.workflowCost,
+      interventionCount: record.interventionCount,
+      merged: isMerged(record),
+    }))
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+  return {
+    generatedAt: new Date().toISOString(),
+    bandLabels: BAND_LABELS,
+    totals: {
+      evals: records.length,
+      models: new Set(records.map((r) => r.modelId)).size,
+      avgScore: round(average(records.map((r) => r.score)), 3),
+    },
+    models: buildModelTrends(records),
+    cost: buildCostSummary(records),
+    interventions: buildInterventionBreakdown(records),
+    review: buildReviewSummary(reviewMetrics),
+    records: rows,
+  };
+}
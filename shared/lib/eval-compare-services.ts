@@ -0,0 +1,148 @@
+/**
+ * Eval Compare Services - The git, GitHub, agent and judge side effects
+ * behind `wavemill eval compare`.
+ *
+ * Kept apart from eval-compare.ts so the comparison runner can be tested
+ * with in-memory services (as mill-services.ts is for the mill).
+ *
+ * @module eval-compare-services
+ */
+
+import { closeSync, existsSync, mkdirSync, openSync, writeFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { spawn } from 'node:child_process';
+import { execShellCommand, escapeShellArg } from './shell-utils.ts';
+import { agentShellCommand } from './mill-runner.ts';
+import { computeWorkflowCost } from './workflow-cost.ts';
+import { runReplayEvaluation } from './eval-orchestrator.ts';
+import type { AgentExit, AgentRun, CompareServices } from './eval-compare.ts';
+
+// ────────────────────────────────────────────────────────────────
+// Constants
+// ────────────────────────────────────────────────────────────────
+
+const API_TIMEOUT_MS = 30_000;
+const GIT_TIMEOUT_MS = 120_000;
+
+// ────────────────────────────────────────────────────────────────
+// Helpers
+// ────────────────────────────────────────────────────────────────
+
+function run(command: string, cwd: string, timeout = API_TIMEOUT_MS): string {
+  return (execShellCommand(command, {
+    cwd,
+    encoding: 'utf-8',
+    timeout,
+    maxBuffer: 50 * 1024 * 1024,
+    stdio: ['ignore', 'pipe', 'pipe'],
+  }) as string).trim();
+}
+
+/** Run an agent as its own process group, logging to `run.logFile`. */
+function runAgentProcess(agentRun: AgentRun): Promise<AgentExit> {
+  mkdirSync(dirname(agentRun.logFile), { recursive: true });
+  const command = agentShellCommand({ agent: agentRun.agent, model: agentRun.model, instructionsFile: agentRun.instructionsFile });
+  writeFileSync(agentRun.logFile, `[wavemill] ${new Date().toISOString()} in ${agentRun.worktree}\n[wavemill] $ ${command}\n`, { flag: 'a' });
+
+  const fd = openSync(agentRun.logFile, 'a');
+  return new Promise((resolvePromise, reject) => {
+    const child = spawn('bash', ['-c', command], {
+      cwd: agentRun.worktree,
+      detached: true,
+      stdio: ['ignore', fd, fd],
+    });
+    closeSync(fd);
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      try {
+        process.kill(-child.pid!, 'SIGTERM');
+      } catch {
+        // Already exited
+      }
+    }, agentRun.timeoutMs);
+
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      resolvePromise({ exitCode: code, timedOut });
+    });
+  });
+}
+
+// ────────────────────────────────────────────────────────────────
+// Factory
+// ────────────────────────────────────────────────────────────────
+
+/**
+ * Services for replaying issues in `repoDir`. `setupCommand` (mill.setupCommand)
+ * runs in each new worktree, as the mill does.
+ */
+export function createCompareServices(repoDir: string, options: { setupCommand?: string; evalModel?: string } = {}): CompareServices {
+  return {
+    async baseCommit(task) {
+      if (task.prNumber === undefined) throw new Error(`${task.issueId} has no PR to replay from`);
+      const mergeCommit = run(`gh pr view ${task.prNumber} --json mergeCommit --jq '.mergeCommit.oid // ""'`, repoDir);
+      if (!mergeCommit) throw new Error(`PR #${task.prNumber} has no merge commit`);
+      try {
+        return run(`git rev-parse --verify ${escapeShellArg(`${mergeCommit}^1`)}`, repoDir);
+      } catch {
+        run(`git fetch origin ${escapeShellArg(mergeCommit)}`, repoDir, GIT_TIMEOUT_MS);
+        return run(`git rev-parse --verify ${escapeShellArg(`${mergeCommit}^1`)}`, repoDir);
+      }
+    },
+
+    async createWorktree(baseCommit, branch, dir) {
+      if (existsSync(dir)) throw new Error(`Worktree ${dir} already exists`);
+      mkdirSync(dirname(resolve(dir)), { recursive: true });
+      run(`git worktree add ${escapeShellArg(dir)} -b ${escapeShellArg(branch)} ${escapeShellArg(baseCommit)}`, repoDir, GIT_TIMEOUT_MS);
+      if (options.setupCommand) {
+        run(options.setupCommand, dir, 180_000);
+      }
+    },
+
+    async removeWorktree(branch, dir) {
+      if (existsSync(dir)) {
+        run(`git worktree remove ${escapeShellArg(dir)} --force`, repoDir);
+      }
+      try {
+        run(`git branch -D ${escapeShellArg(branch)}`, repoDir);
+      } catch {
+        // Branch already gone
+      }
+      run('git worktree prune', repoDir);
+    },
+
+    runAgent: runAgentProcess,
+
+    async diff(worktree, baseCommit) {
+      // Stage everything so new files show up; the worktree is thrown away
+      run('git add -A', worktree);
+      return run(`git diff --cached ${escapeShellArg(baseCommit)}`, worktree, GIT_TIMEOUT_MS);
+    },
+
+    async runCost(worktree, branch, agent) {
+      const outcome = computeWorkflowCost({ worktreePath: worktree, branchName: branch, repoDir, agentType: agent });
+      return outcome.status === 'success' ? outcome.totalCostUsd : null;
+    },
+
+    async judge(task, variant, replay) {
+      return runReplayEvaluation({
+        issueId: task.issueId,
+        taskPrompt: task.taskPrompt,
+        diff: replay.diff,
+        repoDir,
+        agentType: variant.agent,
+        solutionModel: variant.model,
+        timeSeconds: replay.timeSeconds,
+        workflowCost: replay.costUsd,
+        evalModel: options.evalModel,
+        metadata: { comparisonVariant: variant.label },
+      });
+    },
+  };
+}
@@ -0,0 +1,197 @@
+/**
+ * Tests for the pairwise eval comparison harness, driven by in-memory
+ * services.
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, readFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { tmpdir } from 'node:os';
+import type { EvalRecord } from './eval-schema.ts';
+import {
+  parseVariant,
+  selectReplayTasks,
+  runComparison,
+  loadComparison,
+  meanInterval,
+  compareVariants,
+  formatComparison,
+  type CompareServices,
+  type ReplayTask,
+} from './eval-compare.ts';
+
+const TOOLS_DIR = resolve(import.meta.dirname, '../../tools');
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'eval-compare-test-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function record(issueId: string, overrides: Partial<EvalRecord> = {}): EvalRecord {
+  return {
+    id: `${issueId}-${overrides.timestamp ?? ''}`,
+    schemaVersion: '1.0.0',
+    originalPrompt: `## Objective\nDo ${issueId}`,
+    modelId: 'claude-opus-4-6',
+    modelVersion: 'claude-opus-4-6',
+    score: 0.8,
+    scoreBand: 'Assisted Success',
+    timeSeconds: 0,
+    timestamp: '2026-02-01T00:00:00Z',
+    interventionRequired: false,
+    interventionCount: 0,
+    interventionDetails: [],
+    rationale: 'ok',
+    issueId,
+    prUrl: `https://github.com/acme/app/pull/${issueId.replace(/\D/g, '')}`,
+    stratum: 'ts_small',
+    ...overrides,
+  } as EvalRecord;
+}
+
+/** Scores and costs per `issue|variant`; diffs are empty for listed no-op runs. */
+function fakeServices(scores: Record<string, number>, options: { noChanges?: string[]; failBase?: string[] } = {}) {
+  const calls = { worktrees: [] as string[], removed: [] as string[], prompts: [] as string[] };
+  let clock = Date.parse('2026-03-01T12:00:00Z');
+  const services: CompareServices = {
+    baseCommit: async (task) => {
+      if (options.failBase?.includes(task.issueId)) throw new Error('PR has no merge commit');
+      return `base-${task.issueId}`;
+    },
+    createWorktree: async (_base, branch) => { calls.worktrees.push(branch); },
+    removeWorktree: async (branch) => { calls.removed.push(branch); },
+    runAgent: async (run) => {
+      calls.prompts.push(readFileSync(run.instructionsFile, 'utf-8'));
+      clock += (run.model === 'gpt-5.4' ? 60 : 120) * 1000;
+      return { exitCode: 0, timedOut: false };
+    },
+    diff: async (worktree) => (options.noChanges?.some((id) => worktree.includes(id)) ? '' : 'diff --git a/x b/x'),
+    runCost: async (_worktree, _branch, agent) => (agent === 'codex' ? 0.5 : 2),
+    judge: async (task, variant) => ({ score: scores[`${task.issueId}|${variant.label}`], rationale: 'judged' }) as EvalRecord,
+  };
+  return { services, calls, now: () => new Date(clock) };
+}
+
+const tasks: ReplayTask[] = [
+  { issueId: 'HOK-1', taskPrompt: 'Do HOK-1', stratum: 'ts_small', prNumber: 1 },
+  { issueId: 'HOK-2', taskPrompt: 'Do HOK-2', stratum: 'ts_small', prNumber: 2 },
+  { issueId: 'HOK-3', taskPrompt: 'Do HOK-3', stratum: 'py_med', prNumber: 3 },
+];
+const variants = ['claude:claude-opus-4-6', 'codex:gpt-5.4'].map(parseVariant);
+
+describe('parseVariant', () => {
+  it('parses agent and optional model', () => {
+    assert.deepEqual(parseVariant('codex:gpt-5.4'), { label: 'codex:gpt-5.4', agent: 'codex', model: 'gpt-5.4' });
+    assert.deepEqual(parseVariant(' claude '), { label: 'claude', agent: 'claude' });
+    assert.throws(() => parseVariant('claude:'), /Invalid variant/);
+  });
+});
+
+describe('selectReplayTasks', () => {
+  it('takes the latest merged record per issue, newest first', () => {
+    const selected = selectReplayTasks([
+      record('HOK-1', { score: 0.4 }),
+      record('HOK-1', { score: 0.9, timestamp: '2026-02-03T00:00:00Z' }),
+      record('HOK-2', { timestamp: '2026-02-02T00:00:00Z', stratum: undefined }),
+      record('HOK-3', { outcomes: { success: true, delivery: { prCreated: true, merged: false } } } as Partial<EvalRecord>),
+      record('HOK-4', { prUrl: undefined }),
+      record('HOK-5', { originalPrompt: '' }),
+    ]);
+    assert.deepEqual(selected.map((t) => [t.issueId, t.prNumber, t.stratum, t.originalScore]), [
+      ['HOK-1', 1, 'ts_small', 0.9],
+      ['HOK-2', 2, 'unknown', 0.8],
+    ]);
+    assert.deepEqual(selectReplayTasks([record('HOK-1'), record('HOK-2')], { issues: ['HOK-2'] }).map((t) => t.issueId), ['HOK-2']);
+    assert.equal(selectReplayTasks([record('HOK-1'), record('HOK-2')], { limit: 1 }).length, 1);
+  });
+});
+
+describe('runComparison', () => {
+  it('replays every issue per variant, records outcomes and resumes after errors', async () => {
+    const scores = { 'HOK-1|claude:claude-opus-4-6': 0.9, 'HOK-1|codex:gpt-5.4': 0.7, 'HOK-3|claude:claude-opus-4-6': 0.6 };
+    const runDir = join(dir, 'compare', 'run1');
+    const options = { runId: 'run1', variants, worktreeRoot: join(dir, 'worktrees'), runDir, toolsDir: TOOLS_DIR, timeoutMs: 60_000 };
+
+    const first = fakeServices(scores, { noChanges: ['HOK-3-codex'], failBase: ['HOK-2'] });
+    const results = await runComparison(tasks, { ...options, services: first.services, now: first.now });
+
+    const summary = (r: typeof results) => r.runs.map((run) => `${run.issueId}|${run.variant}|${run.status}|${run.score ?? '-'}`).sort();
+    assert.deepEqual(summary(results), [
+      'HOK-1|claude:claude-opus-4-6|judged|0.9',
+      'HOK-1|codex:gpt-5.4|judged|0.7',
+      'HOK-2|claude:claude-opus-4-6|error|-',
+      'HOK-2|codex:gpt-5.4|error|-',
+      'HOK-3|claude:claude-opus-4-6|judged|0.6',
+      'HOK-3|codex:gpt-5.4|no_changes|0',
+    ]);
+    const run = results.runs.find((r) => r.issueId === 'HOK-1' && r.variant === 'codex:gpt-5.4')!;
+    assert.equal(run.branch, 'compare/run1/hok-1-codex-gpt-5-4');
+    assert.equal(run.timeSeconds, 60);
+    assert.equal(run.costUsd, 0.5);
+    assert.equal(results.baseline, 'claude:claude-opus-4-6');
+    assert.deepEqual(first.calls.removed.length, first.calls.worktrees.length);
+    assert.match(first.calls.prompts[0], /Do HOK-1/);
+    assert.match(first.calls.prompts[0], /do NOT create a pull request/);
+    assert.deepEqual(loadComparison(runDir), results);
+
+    // Resuming only reruns the errored runs
+    const second = fakeServices({ ...scores, 'HOK-2|claude:claude-opus-4-6': 0.5, 'HOK-2|codex:gpt-5.4': 0.6 });
+    const resumed = await runComparison(tasks, { ...options, services: second.services, now: second.now }, results);
+    assert.deepEqual(second.calls.worktrees, ['compare/run1/hok-2-claude-claude-opus-4-6', 'compare/run1/hok-2-codex-gpt-5-4']);
+    assert.ok(resumed.runs.every((r) => r.status !== 'error'));
+  });
+
+  it('rejects a baseline that is not a variant', async () => {
+    const { services } = fakeServices({});
+    await assert.rejects(
+      runComparison(tasks, { runId: 'x', variants, baseline: 'codex', services, worktreeRoot: dir, runDir: dir, toolsDir: TOOLS_DIR, timeoutMs: 1 }),
+      /Baseline "codex" is not one of the variants/,
+    );
+  });
+});
+
+describe('meanInterval', () => {
+  it('uses the t distribution and needs two values for an interval', () => {
+    assert.deepEqual(meanInterval([0.5]), { n: 1, mean: 0.5, low: null, high: null });
+    const interval = meanInterval([0.1, 0.2, 0.3]);
+    assert.equal(interval.mean.toFixed(3), '0.200');
+    // sd 0.1, se 0.0577, t(2) = 4.303
+    assert.equal(interval.low!.toFixed(3), '-0.048');
+    assert.equal(interval.high!.toFixed(3), '0.448');
+  });
+});
+
+describe('compareVariants', () => {
+  it('pairs runs by issue, overall and per stratum', () => {
+    const run = (issueId: string, variant: string, stratum: string, score: number, costUsd?: number) =>
+      ({ issueId, variant, stratum, status: 'judged' as const, branch: '', score, costUsd, timeSeconds: 100, finishedAt: '' });
+    const results = {
+      runId: 'r',
+      startedAt: '',
+      baseline: 'a',
+      variants: [parseVariant('a'), parseVariant('b')],
+      tasks: [...tasks],
+      runs: [
+        run('HOK-1', 'a', 'ts_small', 0.9, 2), run('HOK-1', 'b', 'ts_small', 0.7, 1),
+        run('HOK-2', 'a', 'ts_small', 0.8, 2), run('HOK-2', 'b', 'ts_small', 0.8),
+        run('HOK-3', 'a', 'py_med', 0.4), { ...run('HOK-3', 'b', 'py_med', 0), status: 'error' as const },
+      ],
+    };
+
+    const comparisons = compareVariants(results);
+    assert.deepEqual(comparisons.map((c) => [c.stratum, c.pairs, c.score.mean.toFixed(2), c.cost?.n]), [
+      ['all', 2, '-0.10', 1],
+      ['ts_small', 2, '-0.10', 1],
+    ]);
+
+    const lines = formatComparison(results, comparisons);
+    assert.ok(lines.some((l) => /^a\s+3\s+0\s+0\.70\s+\$2\.00\s+100s$/.test(l)));
+    assert.ok(lines.some((l) => /b\s+n=2\s+score -0\.10 \[-1\.37, \+1\.17\]\s+cost -\$1\.00\s+time \+0s \[\+0s, \+0s\]/.test(l)));
+  });
+});
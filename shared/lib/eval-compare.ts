@@ -0,0 +1,502 @@
+/**
+ * Eval Compare - Paired A/B comparison of agent/model configurations.
+ *
+ * The router's historical averages mix different tasks and strata, so they
+ * can't say whether one model is better than another. A comparison instead
+ * replays the same already-merged issues against every configuration
+ * ("variant") and compares them issue by issue:
+ *
+ * 1. Pick merged issues from the eval history (`selectReplayTasks`)
+ * 2. For each issue and variant, check out the commit the merged PR was
+ *    based on in a fresh worktree, run the agent on the original task
+ *    packet, and judge the resulting diff (`runComparison`)
+ * 3. Pair each variant's runs with the baseline's on the same issues and
+ *    report score/cost/time deltas with 95% confidence intervals, overall
+ *    and per stratum (`compareVariants`)
+ *
+ * Results are saved to `<runDir>/results.json` after every run, so an
+ * interrupted comparison can be resumed. Git, agents and the judge sit
+ * behind `CompareServices` (real ones in eval-compare-services.ts).
+ *
+ * @module eval-compare
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { EvalRecord } from './eval-schema.ts';
+import { fillPromptTemplate } from './prompt-utils.ts';
+import { issueSlug } from './task-scheduler.ts';
+import { formatUsd } from './budget-guard.ts';
+
+// ────────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────────
+
+/** An agent/model configuration under comparison. */
+export interface CompareVariant {
+  /** Shown in reports: the `agent:model` spec it was parsed from */
+  label: string;
+  agent: string;
+  model?: string;
+}
+
+/** A merged issue to replay. */
+export interface ReplayTask {
+  issueId: string;
+  /** Task packet the original run was given */
+  taskPrompt: string;
+  /** Stratum of the original run ('unknown' if it had none) */
+  stratum: string;
+  /** The merged PR, used to find the base commit */
+  prNumber?: number;
+  /** Judge score of the original run */
+  originalScore?: number;
+}
+
+export type ReplayRunStatus = 'judged' | 'no_changes' | 'error';
+
+/**
+ * One variant's run on one issue. `no_changes` runs (the agent changed
+ * nothing) score 0; `error` runs never reached the agent or the judge and
+ * are left out of the comparison.
+ */
+export interface ReplayRun {
+  issueId: string;
+  variant: string;
+  stratum: string;
+  status: ReplayRunStatus;
+  branch: string;
+  baseCommit?: string;
+  score?: number;
+  costUsd?: number;
+  timeSeconds?: number;
+  agentExitCode?: number | null;
+  timedOut?: boolean;
+  rationale?: string;
+  error?: string;
+  finishedAt: string;
+}
+
+/** Everything saved in `results.json`. */
+export interface ComparisonResults {
+  runId: string;
+  startedAt: string;
+  baseline: string;
+  variants: CompareVariant[];
+  tasks: ReplayTask[];
+  runs: ReplayRun[];
+}
+
+/** How to run an agent for one replay. */
+export interface AgentRun {
+  worktree: string;
+  instructionsFile: string;
+  agent: string;
+  model?: string;
+  /** Agent output goes here */
+  logFile: string;
+  timeoutMs: number;
+}
+
+export interface AgentExit {
+  exitCode: number | null;
+  timedOut: boolean;
+}
+
+/** Side effects the comparison runner needs. */
+export interface CompareServices {
+  /** Commit the issue's merged PR was based on */
+  baseCommit(task: ReplayTask): Promise<string>;
+  /** Create `branch` at `baseCommit`, checked out in `dir` */
+  createWorktree(baseCommit: string, branch: string, dir: string): Promise<void>;
+  removeWorktree(branch: string, dir: string): Promise<void>;
+  /** Run the agent to completion (or timeout); never throws for a failing agent */
+  runAgent(run: AgentRun): Promise<AgentExit>;
+  /** Everything the run changed since `baseCommit`, committed or not */
+  diff(worktree: string, baseCommit: string): Promise<string>;
+  /** Agent session cost of the run; null if unknown */
+  runCost(worktree: string, branch: string, agent: string): Promise<number | null>;
+  /** Judge the run's diff against the task */
+  judge(task: ReplayTask, variant: CompareVariant, run: { diff: string; timeSeconds: number; costUsd?: number }): Promise<EvalRecord>;
+}
+
+export interface CompareOptions {
+  runId: string;
+  variants: CompareVariant[];
+  /** Label of the variant the others are compared with (default: the first) */
+  baseline?: string;
+  services: CompareServices;
+  /** Worktrees go under `<worktreeRoot>/compare-<runId>/` */
+  worktreeRoot: string;
+  /** results.json, instructions and agent logs go here */
+  runDir: string;
+  /** Directory holding prompts/eval-compare-task.md */
+  toolsDir: string;
+  timeoutMs: number;
+  /** Runs at a time (default: 1) */
+  parallel?: number;
+  /** Leave worktrees in place for inspection */
+  keepWorktrees?: boolean;
+  log?: (message: string) => void;
+  now?: () => Date;
+}
+
+/** Mean of per-issue deltas with a 95% confidence interval (null below two pairs). */
+export interface Interval {
+  n: number;
+  mean: number;
+  low: number | null;
+  high: number | null;
+}
+
+/** A variant against the baseline, on the issues both completed. */
+export interface VariantComparison {
+  /** Stratum, or 'all' */
+  stratum: string;
+  variant: string;
+  baseline: string;
+  pairs: number;
+  /** variant − baseline */
+  score: Interval;
+  /** Only over pairs where both costs are known */
+  cost: Interval | null;
+  time: Interval | null;
+}
+
+// ────────────────────────────────────────────────────────────────
+// Variants and Tasks
+// ────────────────────────────────────────────────────────────────
+
+/** Parse an `agent[:model]` spec, e.g. `claude:claude-opus-4-6` or `codex`. */
+export function parseVariant(spec: string): CompareVariant {
+  const trimmed = spec.trim();
+  const separator = trimmed.indexOf(':');
+  const agent = separator === -1 ? trimmed : trimmed.slice(0, separator);
+  const model = separator === -1 ? '' : trimmed.slice(separator + 1);
+  if (!agent || (separator !== -1 && !model)) {
+    throw new Error(`Invalid variant "${spec}" (expected agent or agent:model)`);
+  }
+  return { label: trimmed, agent, ...(model ? { model } : {}) };
+}
+
+function variantSlug(variant: CompareVariant): string {
+  return issueSlug(variant.label).replace(/^-+|-+$/g, '');
+}
+
+/** PR number from a GitHub PR URL. */
+export function prNumberFromUrl(url: string | undefined): number | undefined {
+  const match = url?.match(/\/pull\/(\d+)/);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+/**
+ * Merged issues to replay, newest first: the latest eval record of each
+ * issue whose PR merged and whose task packet was recorded.
+ */
+export function selectReplayTasks(
+  records: EvalRecord[],
+  options: { issues?: string[]; stratum?: string; limit?: number } = {},
+): ReplayTask[] {
+  const latest = new Map<string, EvalRecord>();
+  for (const record of records) {
+    if (!record.issueId) continue;
+    const current = latest.get(record.issueId);
+    if (!current || record.timestamp > current.timestamp) latest.set(record.issueId, record);
+  }
+
+  const wanted = options.issues ? new Set(options.issues) : null;
+  const tasks = [...latest.values()]
+    .filter((record) => (wanted ? wanted.has(record.issueId!) : true))
+    .filter((record) => record.outcomes?.delivery?.merged ?? !!record.prUrl)
+    .filter((record) => !!record.originalPrompt?.trim() && prNumberFromUrl(record.prUrl) !== undefined)
+    .filter((record) => !options.stratum || record.stratum === options.stratum)
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    .map((record): ReplayTask => ({
+      issueId: record.issueId!,
+      taskPrompt: record.originalPrompt,
+      stratum: record.stratum ?? 'unknown',
+      prNumber: prNumberFromUrl(record.prUrl),
+      originalScore: record.score,
+    }));
+
+  return options.limit ? tasks.slice(0, options.limit) : tasks;
+}
+
+/** Run id from the start time, e.g. `20260301-120000`. */
+export function newRunId(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 19).replace(/[-:]/g, '').replace('T', '-');
+}
+
+// ────────────────────────────────────────────────────────────────
+// Results File
+// ────────────────────────────────────────────────────────────────
+
+export function resultsPath(runDir: string): string {
+  return join(runDir, 'results.json');
+}
+
+export function loadComparison(runDir: string): ComparisonResults {
+  const path = resultsPath(runDir);
+  if (!existsSync(path)) throw new Error(`No comparison results at ${path}`);
+  return JSON.parse(readFileSync(path, 'utf-8')) as ComparisonResults;
+}
+
+function saveComparison(runDir: string, results: ComparisonResults): void {
+  mkdirSync(runDir, { recursive: true });
+  writeFileSync(resultsPath(runDir), JSON.stringify(results, null, 2) + '\n');
+}
+
+// ────────────────────────────────────────────────────────────────
+// Runner
+// ────────────────────────────────────────────────────────────────
+
+function instructions(options: CompareOptions, task: ReplayTask, worktree: string, branch: string): string {
+  const template = readFileSync(join(options.toolsDir, 'prompts', 'eval-compare-task.md'), 'utf-8');
+  // ISSUE_CONTEXT last, so placeholders inside the task packet are left alone
+  return fillPromptTemplate(template, {
+    ISSUE: task.issueId,
+    WORKTREE: worktree,
+    BRANCH: branch,
+    ISSUE_CONTEXT: task.taskPrompt.trim(),
+  });
+}
+
+async function runReplay(options: CompareOptions, task: ReplayTask, variant: CompareVariant): Promise<ReplayRun> {
+  const { services } = options;
+  const now = options.now ?? (() => new Date());
+  const slug = variantSlug(variant);
+  const branch = `compare/${options.runId}/${task.issueId.toLowerCase()}-${slug}`;
+  const worktree = join(options.worktreeRoot, `compare-${options.runId}`, `${task.issueId}-${slug}`);
+  const runFiles = join(options.runDir, task.issueId, slug);
+  mkdirSync(runFiles, { recursive: true });
+
+  const run: ReplayRun = { issueId: task.issueId, variant: variant.label, stratum: task.stratum, status: 'error', branch, finishedAt: '' };
+  let created = false;
+  try {
+    const baseCommit = await services.baseCommit(task);
+    run.baseCommit = baseCommit;
+    await services.createWorktree(baseCommit, branch, worktree);
+    created = true;
+
+    const instructionsFile = join(runFiles, 'instructions.md');
+    writeFileSync(instructionsFile, instructions(options, task, worktree, branch));
+    const started = now().getTime();
+    const exit = await services.runAgent({
+      worktree,
+      instructionsFile,
+      agent: variant.agent,
+      ...(variant.model ? { model: variant.model } : {}),
+      logFile: join(runFiles, 'agent.log'),
+      timeoutMs: options.timeoutMs,
+    });
+    run.timeSeconds = Math.round((now().getTime() - started) / 1000);
+    run.agentExitCode = exit.exitCode;
+    if (exit.timedOut) run.timedOut = true;
+
+    const cost = await services.runCost(worktree, branch, variant.agent);
+    if (cost !== null) run.costUsd = cost;
+
+    const diff = await services.diff(worktree, baseCommit);
+    if (!diff.trim()) {
+      run.status = 'no_changes';
+      run.score = 0;
+    } else {
+      const record = await services.judge(task, variant, { diff, timeSeconds: run.timeSeconds, costUsd: run.costUsd });
+      run.status = 'judged';
+      run.score = record.score;
+      run.rationale = record.rationale;
+    }
+  } catch (error) {
+    run.status = 'error';
+    run.error = (error as Error).message;
+  } finally {
+    if (created && !options.keepWorktrees) {
+      await services.removeWorktree(branch, worktree).catch(() => {});
+    }
+  }
+
+  run.finishedAt = now().toISOString();
+  return run;
+}
+
+/**
+ * Run every variant on every task, `parallel` runs at a time. With
+ * `previous` results, runs that already completed are kept and only the
+ * rest (including earlier errors) are run.
+ */
+export async function runComparison(tasks: ReplayTask[], options: CompareOptions, previous?: ComparisonResults): Promise<ComparisonResults> {
+  const log = options.log ?? (() => {});
+  const baseline = options.baseline ?? options.variants[0]?.label;
+  if (!options.variants.some((variant) => variant.label === baseline)) {
+    throw new Error(`Baseline "${baseline}" is not one of the variants (${options.variants.map((v) => v.label).join(', ')})`);
+  }
+  if (new Set(options.variants.map((variant) => variant.label)).size !== options.variants.length) {
+    throw new Error('Variants must be distinct');
+  }
+
+  const key = (issueId: string, variant: string) => `${issueId}\0${variant}`;
+  const results: ComparisonResults = {
+    runId: options.runId,
+    startedAt: previous?.startedAt ?? (options.now ?? (() => new Date()))().toISOString(),
+    baseline: baseline!,
+    variants: options.variants,
+    tasks,
+    runs: (previous?.runs ?? []).filter((run) => run.status !== 'error'),
+  };
+  const done = new Set(results.runs.map((run) => key(run.issueId, run.variant)));
+  const queue = tasks.flatMap((task) =>
+    options.variants.filter((variant) => !done.has(key(task.issueId, variant.label))).map((variant) => ({ task, variant })),
+  );
+  saveComparison(options.runDir, results);
+
+  const total = queue.length;
+  let started = 0;
+  const worker = async () => {
+    for (let next = queue.shift(); next; next = queue.shift()) {
+      log(`[${++started}/${total}] ${next.task.issueId} × ${next.variant.label}`);
+      const run = await runReplay(options, next.task, next.variant);
+      results.runs.push(run);
+      saveComparison(options.runDir, results);
+      log(run.status === 'error'
+        ? `  ✗ ${run.issueId} × ${run.variant}: ${run.error}`
+        : `  ✓ ${run.issueId} × ${run.variant}: score ${run.score!.toFixed(2)}${run.status === 'no_changes' ? ' (no changes)' : ''}`);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, options.parallel ?? 1) }, worker));
+
+  return results;
+}
+
+// ────────────────────────────────────────────────────────────────
+// Statistics
+// ────────────────────────────────────────────────────────────────
+
+/** Two-sided 95% Student t critical values by degrees of freedom. */
+const T_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.16, 2.145, 2.131, 2.12, 2.11, 2.101, 2.093, 2.086,
+  2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+
+function tCritical95(df: number): number {
+  if (df <= T_95.length) return T_95[df - 1];
+  if (df <= 40) return 2.021;
+  if (df <= 60) return 2.0;
+  if (df <= 120) return 1.98;
+  return 1.96;
+}
+
+/** Mean with a t-based 95% confidence interval. */
+export function meanInterval(values: number[]): Interval {
+  const n = values.length;
+  if (n === 0) return { n, mean: 0, low: null, high: null };
+  const mean = values.reduce((sum, value) => sum + value, 0) / n;
+  if (n < 2) return { n, mean, low: null, high: null };
+
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (n - 1);
+  const margin = tCritical95(n - 1) * Math.sqrt(variance / n);
+  return { n, mean, low: mean - margin, high: mean + margin };
+}
+
+const completed = (run: ReplayRun) => run.status !== 'error';
+
+/**
+ * Pair each variant's completed runs with the baseline's on the same
+ * issues, overall ('all') and per stratum.
+ */
+export function compareVariants(results: ComparisonResults): VariantComparison[] {
+  const byVariant = new Map<string, Map<string, ReplayRun>>();
+  for (const run of results.runs.filter(completed)) {
+    if (!byVariant.has(run.variant)) byVariant.set(run.variant, new Map());
+    byVariant.get(run.variant)!.set(run.issueId, run);
+  }
+  const baselineRuns = byVariant.get(results.baseline) ?? new Map<string, ReplayRun>();
+  const strata = [...new Set(['all', ...results.tasks.map((task) => task.stratum)])];
+
+  const comparisons: VariantComparison[] = [];
+  for (const stratum of strata) {
+    for (const variant of results.variants.filter((v) => v.label !== results.baseline)) {
+      const pairs = [...(byVariant.get(variant.label)?.values() ?? [])]
+        .filter((run) => stratum === 'all' || run.stratum === stratum)
+        .flatMap((run) => (baselineRuns.has(run.issueId) ? [[run, baselineRuns.get(run.issueId)!] as const] : []));
+      if (pairs.length === 0) continue;
+
+      const costs = pairs.filter(([a, b]) => a.costUsd !== undefined && b.costUsd !== undefined);
+      const times = pairs.filter(([a, b]) => a.timeSeconds !== undefined && b.timeSeconds !== undefined);
+      comparisons.push({
+        stratum,
+        variant: variant.label,
+        baseline: results.baseline,
+        pairs: pairs.length,
+        score: meanInterval(pairs.map(([a, b]) => a.score! - b.score!)),
+        cost: costs.length > 0 ? meanInterval(costs.map(([a, b]) => a.costUsd! - b.costUsd!)) : null,
+        time: times.length > 0 ? meanInterval(times.map(([a, b]) => a.timeSeconds! - b.timeSeconds!)) : null,
+      });
+    }
+  }
+  return comparisons;
+}
+
+// ────────────────────────────────────────────────────────────────
+// Formatting
+// ────────────────────────────────────────────────────────────────
+
+function signed(value: number, format: (n: number) => string): string {
+  return `${value < 0 ? '-' : '+'}${format(Math.abs(value))}`;
+}
+
+function formatInterval(interval: Interval | null, format: (n: number) => string): string {
+  if (!interval) return 'n/a';
+  const mean = signed(interval.mean, format);
+  if (interval.low === null || interval.high === null) return mean;
+  return `${mean} [${signed(interval.low, format)}, ${signed(interval.high, format)}]`;
+}
+
+const formatScore = (n: number) => n.toFixed(2);
+const formatSeconds = (n: number) => `${Math.round(n)}s`;
+
+function average(values: number[]): number | undefined {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : undefined;
+}
+
+/** Report lines: per-variant averages, then paired deltas against the baseline. */
+export function formatComparison(results: ComparisonResults, comparisons: VariantComparison[] = compareVariants(results)): string[] {
+  const lines = [`Comparison ${results.runId}: ${results.tasks.length} issue(s), baseline ${results.baseline}`, ''];
+
+  const width = Math.max(7, ...results.variants.map((variant) => variant.label.length));
+  lines.push(`${'Variant'.padEnd(width)}  Runs  Errors  Score  Cost     Time`);
+  for (const variant of results.variants) {
+    const runs = results.runs.filter((run) => run.variant === variant.label);
+    const ok = runs.filter(completed);
+    const score = average(ok.map((run) => run.score!));
+    const cost = average(ok.flatMap((run) => (run.costUsd !== undefined ? [run.costUsd] : [])));
+    const time = average(ok.flatMap((run) => (run.timeSeconds !== undefined ? [run.timeSeconds] : [])));
+    lines.push([
+      variant.label.padEnd(width),
+      String(ok.length).padEnd(4),
+      String(runs.length - ok.length).padEnd(6),
+      (score !== undefined ? formatScore(score) : '-').padEnd(5),
+      (cost !== undefined ? formatUsd(cost) : '-').padEnd(7),
+      time !== undefined ? formatSeconds(time) : '-',
+    ].join('  '));
+  }
+
+  if (comparisons.length === 0) {
+    lines.push('', 'No paired runs yet.');
+    return lines;
+  }
+
+  lines.push('', `Paired deltas vs ${results.baseline} (mean [95% CI])`);
+  for (const stratum of [...new Set(comparisons.map((c) => c.stratum))]) {
+    lines.push(`  ${stratum}`);
+    for (const comparison of comparisons.filter((c) => c.stratum === stratum)) {
+      lines.push(
+        `    ${comparison.variant.padEnd(width)}  n=${comparison.pairs}` +
+          `  score ${formatInterval(comparison.score, formatScore)}` +
+          `  cost ${formatInterval(comparison.cost, formatUsd)}` +
+          `  time ${formatInterval(comparison.time, formatSeconds)}`,
+      );
+    }
+  }
+  return lines;
+}
@@ -154,7 +154,13 @@ export function formatEvalRecord(record: EvalRecord): string {
       const testInfo = o.tests.added
         ? `added${o.tests.passRate !== undefined ? ` (${Math.round(o.tests.passRate * 100)}% pass)` : ''}`
         : 'none added';
-      lines.push(`    ${BOLD}Tests:${NC}     ${testInfo}`);
+      const runInfo = o.tests.total !== undefined
+        ? `, ${o.tests.passed}/${o.tests.total} passed${o.tests.flaky ? `, ${o.tests.flaky} flaky` : ''}`
+        : '';
+      const coverageInfo = o.tests.coverageDelta !== undefined
+        ? `, coverage ${o.tests.coverageDelta >= 0 ? '+' : ''}${(o.tests.coverageDelta * 100).toFixed(1)}pp`
+        : '';
+      lines.push(`    ${BOLD}Tests:${NC}     ${testInfo}${runInfo}${coverageInfo}`);
     }
 
     if (o.staticAnalysis && Object.keys(o.staticAnalysis).length > 0) {
@@ -10,6 +10,9 @@
  * 6. Record enrichment
  * 7. Persistence
  *
+ * `runReplayEvaluation` judges a local run that has no PR (e.g. a replay
+ * from `wavemill eval compare`) from its diff alone.
+ *
  * @module eval-orchestrator
  */
 
@@ -39,6 +42,7 @@ import {
   collectReworkOutcome,
   collectDeliveryOutcome,
 } from './outcome-collectors.ts';
+import { resolveOutcomeSource, type OutcomeSource } from './outcome-sources.ts';
 import { evaluateTask } from './eval.js';
 import { enrichEvalRecord } from './eval-record-builder.ts';
 import { appendEvalRecord } from './eval-persistence.ts';
@@ -70,6 +74,32 @@ export interface EvalOptions {
   evalModel?: string;
 }
 
+/**
+ * Options for judging a local run that has no PR.
+ */
+export interface ReplayEvalOptions {
+  /** Issue the run worked on */
+  issueId: string;
+  /** Task packet the agent was given */
+  taskPrompt: string;
+  /** Everything the run changed, relative to its base commit */
+  diff: string;
+  /** Repository directory */
+  repoDir: string;
+  /** Agent type (claude, codex, etc.) */
+  agentType: string;
+  /** Solution model used by the agent */
+  solutionModel?: string;
+  /** Wall-clock time of the agent run */
+  timeSeconds: number;
+  /** Agent session cost, if known */
+  workflowCost?: number;
+  /** Override eval model (optional) */
+  evalModel?: string;
+  /** Extra metadata kept on the record */
+  metadata?: Record<string, unknown>;
+}
+
 // ────────────────────────────────────────────────────────────────
 // Public API
 // ────────────────────────────────────────────────────────────────
@@ -254,21 +284,31 @@ export async function runEvaluation(options: EvalOptions): Promise<EvalRecord> {
 
   // 7. Collect outcome components
   console.log('\nCollecting outcome components...');
+  let outcomeSource: OutcomeSource | undefined;
+  if (prNumber) {
+    try {
+      outcomeSource = resolveOutcomeSource(repoDir);
+      console.log(`  Outcome source: ${outcomeSource.provider}`);
+    } catch (sourceErr) {
+      const errorMsg = sourceErr instanceof Error ? sourceErr.message : String(sourceErr);
+      console.warn(`  Warning: could not resolve outcome source — ${errorMsg}`);
+    }
+  }
   const outcomes: Outcomes = {
     success: false, // Will be set after scoring based on score threshold
     ci: prNumber
-      ? collectCiOutcome(prNumber, repoDir)
+      ? collectCiOutcome(prNumber, repoDir, outcomeSource)
       : undefined,
     tests:
       prNumber && branch
-        ? collectTestsOutcome(prNumber, branch, 'main', repoDir)
+        ? collectTestsOutcome(prNumber, branch, 'main', repoDir, outcomeSource)
         : undefined,
     staticAnalysis:
       prNumber && branch
-        ? collectStaticAnalysisOutcome(prNumber, branch, 'main', repoDir)
+        ? collectStaticAnalysisOutcome(prNumber, branch, 'main', repoDir, outcomeSource)
         : undefined,
     review: prNumber
-      ? collectReviewOutcome(prNumber, interventionSummary, repoDir, undefined, issueId, branch)
+      ? collectReviewOutcome(prNumber, interventionSummary, repoDir, undefined, issueId, branch, outcomeSource)
       : {
           humanReviewRequired: interventionSummary.interventions.some(
             (e) => e.type === 'review_comment' && e.count > 0
@@ -279,7 +319,7 @@ export async function runEvaluation(options: EvalOptions): Promise<EvalRecord> {
         },
     rework: collectReworkOutcome(repoDir, branch, agentType, repoDir),
     delivery: prNumber
-      ? collectDeliveryOutcome(prNumber, repoDir)
+      ? collectDeliveryOutcome(prNumber, repoDir, undefined, outcomeSource)
       : {
           prCreated: false,
           merged: false,
@@ -289,7 +329,12 @@ export async function runEvaluation(options: EvalOptions): Promise<EvalRecord> {
   console.log(
     `  CI: ${outcomes.ci?.ran ? (outcomes.ci.passed ? 'passed' : 'failed') : 'not run'}`
   );
-  console.log(`  Tests: ${outcomes.tests?.added ? 'added' : 'none added'}`);
+  console.log(
+    `  Tests: ${outcomes.tests?.added ? 'added' : 'none added'}` +
+      (outcomes.tests?.total !== undefined
+        ? ` (${outcomes.tests.passed}/${outcomes.tests.total} passed, ${outcomes.tests.flaky ?? 0} flaky)`
+        : '')
+  );
   console.log(
     `  Review: ${outcomes.review.approvals} approvals, ${outcomes.review.changeRequests} change requests`
   );
@@ -344,3 +389,76 @@ export async function runEvaluation(options: EvalOptions): Promise<EvalRecord> {
 
   return record;
 }
+
+/**
+ * Judge a local run from its diff.
+ *
+ * There is no PR, so intervention, CI, review and delivery outcomes are not
+ * collected; difficulty and task context come from the diff. The record is
+ * returned but not persisted, so replays don't count twice in the eval
+ * history the router learns from.
+ *
+ * @param options - Replay evaluation options
+ * @returns Eval record for the run
+ */
+export async function runReplayEvaluation(options: ReplayEvalOptions): Promise<EvalRecord> {
+  const {
+    issueId,
+    taskPrompt,
+    diff,
+    repoDir,
+    agentType,
+    solutionModel,
+    timeSeconds,
+    workflowCost,
+    evalModel,
+    metadata = {},
+  } = options;
+
+  if (evalModel) {
+    process.env.EVAL_MODEL = evalModel;
+  }
+
+  let difficultyData = null;
+  try {
+    difficultyData = analyzePrDifficulty({ prDiff: diff, repoDir });
+  } catch {
+    // Best-effort
+  }
+
+  let taskContextData = null;
+  try {
+    taskContextData = analyzeTaskContext({
+      issue: { identifier: issueId, title: issueId, description: taskPrompt },
+      prDiff: diff,
+      locTouched: difficultyData?.difficultySignals.locTouched,
+      filesTouched: difficultyData?.difficultySignals.filesTouched,
+    });
+  } catch {
+    // Best-effort
+  }
+
+  const record = await evaluateTask({
+    taskPrompt,
+    prReviewOutput: diff,
+    issueId,
+    timeSeconds,
+    metadata: { ...metadata, replay: true },
+  });
+
+  enrichEvalRecord(record, {
+    agentType,
+    difficulty: difficultyData,
+    taskContext: taskContextData,
+  });
+
+  if (solutionModel) {
+    record.modelId = solutionModel;
+    record.modelVersion = solutionModel;
+  }
+  if (workflowCost !== undefined) {
+    record.workflowCost = workflowCost;
+  }
+
+  return record;
+}
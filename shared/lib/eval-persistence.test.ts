@@ -173,6 +173,34 @@ test('filter by model returns only matching records', () => {
   }
 });
 
+test('filter by models returns records of any listed model', () => {
+  const tmp = makeTempDir();
+  const evalsDir = join(tmp, 'evals');
+  try {
+    appendEvalRecord(makeRecord({ id: 'r1', modelId: 'claude-opus-4-6' }), { dir: evalsDir });
+    appendEvalRecord(makeRecord({ id: 'r2', modelId: 'claude-sonnet-4-5' }), { dir: evalsDir });
+    appendEvalRecord(makeRecord({ id: 'r3', modelId: 'gpt-5.4' }), { dir: evalsDir });
+
+    const records = readEvalRecords({ dir: evalsDir, models: ['gpt-5.4', 'claude-opus-4-6'] });
+    assert.deepEqual(records.map((r) => r.id), ['r1', 'r3']);
+  } finally {
+    cleanUp(tmp);
+  }
+});
+
+test('repoDir selects that repo\'s config and evals directory', () => {
+  const tmp = makeTempDir();
+  try {
+    writeFileSync(join(tmp, '.wavemill-config.json'), JSON.stringify({ eval: { evalsDir: 'data/evals' } }));
+    appendEvalRecord(makeRecord({ id: 'r1' }), { repoDir: tmp });
+
+    assert.match(readFileSync(join(tmp, 'data', 'evals', 'evals.jsonl'), 'utf-8'), /"r1"/);
+    assert.deepEqual(readEvalRecords({ repoDir: tmp }).map((r) => r.id), ['r1']);
+  } finally {
+    cleanUp(tmp);
+  }
+});
+
 test('filter by date range returns only records in range', () => {
   const tmp = makeTempDir();
   const evalsDir = join(tmp, 'evals');
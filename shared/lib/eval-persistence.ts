@@ -1,17 +1,21 @@
 /**
- * Eval result persistence — append and query eval records in JSONL format.
+ * Eval result persistence — append and query eval records.
  *
- * Records are stored as newline-delimited JSON (one JSON object per line)
- * in a configurable directory (default: `.wavemill/evals/`).
+ * By default records are stored as newline-delimited JSON (one JSON object
+ * per line) in a configurable directory (default: `.wavemill/evals/`).
+ * Setting `eval.store.backend` to `sqlite` switches to the indexed SQLite
+ * warehouse in eval-warehouse.ts; the query API is the same for both.
  *
  * @module eval-persistence
  */
 
 import { readFileSync, writeFileSync, mkdirSync, existsSync, renameSync } from 'node:fs';
-import { join, resolve, dirname } from 'node:path';
+import { join, resolve, dirname, basename } from 'node:path';
 import { randomUUID } from 'node:crypto';
+import { homedir } from 'node:os';
 import type { EvalRecord } from './eval-schema.ts';
 import { loadWavemillConfig } from './config.ts';
+import { EvalWarehouse } from './eval-warehouse.ts';
 
 // ────────────────────────────────────────────────────────────────
 // Constants
@@ -19,21 +23,43 @@ import { loadWavemillConfig } from './config.ts';
 
 const DEFAULT_EVALS_DIR = '.wavemill/evals';
 const EVALS_FILENAME = 'evals.jsonl';
+const WAREHOUSE_FILENAME = 'evals.db';
 
 // ────────────────────────────────────────────────────────────────
 // Config
 // ────────────────────────────────────────────────────────────────
 
+/** Storage backend for eval records. */
+export type EvalStoreBackend = 'jsonl' | 'sqlite';
+
 /** Options for specifying the eval storage directory. */
 export interface PersistenceOptions {
   /** Override directory for eval storage. Resolved relative to cwd. */
   dir?: string;
+  /** Override the storage backend (default: eval.store.backend, else 'jsonl') */
+  backend?: EvalStoreBackend;
+  /** Override the SQLite database path (default: eval.store.path, else <dir>/evals.db) */
+  dbPath?: string;
+  /** Repository whose config and evals directory are used (default: cwd) */
+  repoDir?: string;
 }
 
 /** Options for querying stored eval records. */
 export interface QueryOptions extends PersistenceOptions {
   /** Filter by model identifier (exact match) */
   model?: string;
+  /** Filter to any of these model identifiers */
+  models?: string[];
+  /** Filter by agent type (e.g. "claude", "codex") */
+  agentType?: string;
+  /** Filter by tech stack/size stratum */
+  stratum?: string;
+  /** Filter by taskContext.taskType */
+  taskType?: string;
+  /** Filter by difficulty band */
+  difficultyBand?: string;
+  /** Filter by source repo name (directory basename) */
+  repo?: string;
   /** Include only records after this date (inclusive) */
   after?: Date;
   /** Include only records before this date (inclusive) */
@@ -55,29 +81,55 @@ export interface QueryOptions extends PersistenceOptions {
  * Returns `{ dir, fromConfig }` — `fromConfig` is true when the path
  * came from `.wavemill-config.json` (needs path-traversal validation).
  */
-function resolveEvalsDir(dir?: string): { dir: string; fromConfig: boolean } {
+function resolveEvalsDir(dir?: string, repoDir = '.'): { dir: string; fromConfig: boolean } {
   if (dir) return { dir: resolve(dir), fromConfig: false };
 
   // Try reading evalsDir from .wavemill-config.json
-  const config = loadWavemillConfig();
+  const config = loadWavemillConfig(repoDir);
   if (config.eval?.evalsDir) {
-    return { dir: resolve(config.eval.evalsDir), fromConfig: true };
+    return { dir: resolve(repoDir, config.eval.evalsDir), fromConfig: true };
   }
 
-  return { dir: resolve(DEFAULT_EVALS_DIR), fromConfig: false };
+  return { dir: resolve(repoDir, DEFAULT_EVALS_DIR), fromConfig: false };
 }
 
 /** Resolve the full path to the evals JSONL file. */
-function resolveEvalsFile(dir?: string): string {
-  return join(resolveEvalsDir(dir).dir, EVALS_FILENAME);
+function resolveEvalsFile(options?: PersistenceOptions): string {
+  return join(resolveEvalsDir(options?.dir, options?.repoDir).dir, EVALS_FILENAME);
+}
+
+/** Name recorded for the repo (directory basename, as in aggregate-evals). */
+function currentRepoName(repoDir = '.'): string {
+  return basename(resolve(repoDir));
+}
+
+/** Resolve which backend to use for a call. */
+function resolveBackend(options?: PersistenceOptions): EvalStoreBackend {
+  return options?.backend ?? loadWavemillConfig(options?.repoDir).eval?.store?.backend ?? 'jsonl';
+}
+
+/**
+ * Resolve the SQLite warehouse path: explicit option, then
+ * `eval.store.path` (supports `~/`), then `<evalsDir>/evals.db`.
+ */
+export function resolveEvalDbPath(options?: PersistenceOptions): string {
+  if (options?.dbPath) return resolve(options.dbPath);
+
+  const repoDir = options?.repoDir ?? '.';
+  const configured = loadWavemillConfig(repoDir).eval?.store?.path;
+  if (configured) {
+    return resolve(repoDir, configured.startsWith('~/') ? join(homedir(), configured.slice(2)) : configured);
+  }
+
+  return join(resolveEvalsDir(options?.dir, repoDir).dir, WAREHOUSE_FILENAME);
 }
 
 /**
  * Validate that the resolved directory doesn't escape the project root.
  * Throws if path traversal is detected.
  */
-function assertSafePath(evalsDir: string): void {
-  const projectRoot = resolve('.');
+function assertSafePath(evalsDir: string, repoDir = '.'): void {
+  const projectRoot = resolve(repoDir);
   const resolved = resolve(evalsDir);
   if (!resolved.startsWith(projectRoot)) {
     throw new Error(
@@ -93,20 +145,31 @@ function assertSafePath(evalsDir: string): void {
 // ────────────────────────────────────────────────────────────────
 
 /**
- * Append an eval record to the JSONL file.
+ * Append an eval record to the configured store.
  *
- * Creates the output directory and file if they don't exist.
- * Uses atomic write (temp file + rename) to prevent corruption.
+ * JSONL: creates the output directory and file if they don't exist and
+ * uses atomic write (temp file + rename) to prevent corruption.
+ * SQLite: upserts by record id, tagged with the current repo name.
  *
  * @param record - The eval record to persist
- * @param options - Optional directory override
+ * @param options - Optional directory/backend override
  */
 export function appendEvalRecord(
   record: EvalRecord,
   options?: PersistenceOptions,
 ): void {
-  const { dir: evalsDir, fromConfig } = resolveEvalsDir(options?.dir);
-  if (fromConfig) assertSafePath(evalsDir);
+  if (resolveBackend(options) === 'sqlite') {
+    const warehouse = EvalWarehouse.open(resolveEvalDbPath(options));
+    try {
+      warehouse.upsert(record, currentRepoName(options?.repoDir));
+    } finally {
+      warehouse.close();
+    }
+    return;
+  }
+
+  const { dir: evalsDir, fromConfig } = resolveEvalsDir(options?.dir, options?.repoDir);
+  if (fromConfig) assertSafePath(evalsDir, options?.repoDir);
 
   // Ensure directory exists
   mkdirSync(evalsDir, { recursive: true });
@@ -129,16 +192,28 @@ export function appendEvalRecord(
 }
 
 /**
- * Read and optionally filter eval records from the JSONL file.
+ * Read and optionally filter eval records from the configured store.
  *
- * Returns an empty array if the file doesn't exist.
- * Malformed lines are silently skipped.
+ * JSONL: returns an empty array if the file doesn't exist; malformed lines
+ * are silently skipped. SQLite: filters run as indexed queries and results
+ * are ordered by timestamp.
  *
- * @param options - Query filters and directory override
+ * @param options - Query filters and directory/backend override
  * @returns Array of matching eval records
  */
 export function readEvalRecords(options?: QueryOptions): EvalRecord[] {
-  const filePath = resolveEvalsFile(options?.dir);
+  if (resolveBackend(options) === 'sqlite') {
+    const dbPath = resolveEvalDbPath(options);
+    if (!existsSync(dbPath)) return [];
+    const warehouse = EvalWarehouse.open(dbPath);
+    try {
+      return warehouse.query(options);
+    } finally {
+      warehouse.close();
+    }
+  }
+
+  const filePath = resolveEvalsFile(options);
 
   if (!existsSync(filePath)) {
     return [];
@@ -174,6 +249,15 @@ function matchesFilters(
   if (options.model && record.modelId !== options.model) {
     return false;
   }
+  if (options.models && !options.models.includes(record.modelId)) return false;
+
+  if (options.agentType && record.agentType !== options.agentType) return false;
+  if (options.stratum && record.stratum !== options.stratum) return false;
+  if (options.taskType && record.taskContext?.taskType !== options.taskType) return false;
+  if (options.difficultyBand && record.difficultyBand !== options.difficultyBand) return false;
+
+  // A JSONL file only holds its own repo's records
+  if (options.repo && options.repo !== currentRepoName(options.repoDir)) return false;
 
   if (options.after) {
     const recordDate = new Date(record.timestamp);
@@ -10,6 +10,7 @@ import {
   attachTaskContextMetadata,
   attachRepoContextMetadata,
   attachWorkflowCostMetadata,
+  attachBudgetDecisions,
   enrichEvalRecord,
 } from './eval-record-builder.ts';
 
@@ -174,6 +175,30 @@ describe('eval-record-builder', () => {
     });
   });
 
+  describe('attachBudgetDecisions', () => {
+    it('should attach budget decisions when provided', () => {
+      const decisions = [{
+        at: '2026-03-02T11:00:00Z',
+        scope: 'task' as const,
+        action: 'downgrade' as const,
+        costUsd: 5.2,
+        limitUsd: 5,
+        fromModel: 'claude-opus-4-6',
+        toModel: 'claude-sonnet-4-5-20250929',
+        detail: 'spent $5.20 of the $5.00 per-task limit; switching to claude-sonnet-4-5-20250929',
+      }];
+      attachBudgetDecisions(baseRecord, decisions);
+      expect(baseRecord.budgetDecisions).toEqual(decisions);
+    });
+
+    it('should not modify record when there are no decisions', () => {
+      const before = { ...baseRecord };
+      attachBudgetDecisions(baseRecord, []);
+      attachBudgetDecisions(baseRecord, null);
+      expect(baseRecord).toEqual(before);
+    });
+  });
+
   describe('enrichEvalRecord', () => {
     it('should attach all metadata when provided', () => {
       const metadata = {
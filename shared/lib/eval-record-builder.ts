@@ -6,6 +6,7 @@
  * - Task context analysis results
  * - Repo context analysis results
  * - Workflow cost computation results
+ * - Budget decisions
  * - Agent type
  *
  * All functions mutate the record in place (following existing patterns).
@@ -13,7 +14,7 @@
  * @module eval-record-builder
  */
 
-import type { EvalRecord, TaskContext, RepoContext } from './eval-schema.ts';
+import type { EvalRecord, TaskContext, RepoContext, BudgetDecision } from './eval-schema.ts';
 import type { DifficultyAnalysis } from './difficulty-analyzer.ts';
 import type { WorkflowCostOutcome, WorkflowCostResult, WorkflowCostFailure } from './workflow-cost.ts';
 
@@ -36,6 +37,8 @@ export interface EvalRecordMetadata {
   repoContext?: RepoContext | null;
   /** Workflow cost computation results */
   workflowCost?: WorkflowCostOutcome | null;
+  /** Budget warnings and actions from the mill */
+  budgetDecisions?: BudgetDecision[] | null;
 }
 
 // ────────────────────────────────────────────────────────────────
@@ -122,6 +125,19 @@ export function attachWorkflowCostMetadata(
   }
 }
 
+/**
+ * Attach budget guardrail decisions to eval record.
+ * Only mutates record if there are decisions.
+ */
+export function attachBudgetDecisions(
+  record: EvalRecord,
+  decisions: BudgetDecision[] | null
+): void {
+  if (decisions && decisions.length > 0) {
+    record.budgetDecisions = decisions;
+  }
+}
+
 // ────────────────────────────────────────────────────────────────
 // Main Orchestrator
 // ────────────────────────────────────────────────────────────────
@@ -135,6 +151,7 @@ export function attachWorkflowCostMetadata(
  * - Task context analysis
  * - Repo context analysis
  * - Workflow cost computation
+ * - Budget decisions
  *
  * @param record - Base eval record from evaluateTask()
  * @param metadata - All metadata to attach
@@ -145,4 +162,5 @@ export function enrichEvalRecord(record: EvalRecord, metadata: EvalRecordMetadat
   attachTaskContextMetadata(record, metadata.taskContext || null);
   attachRepoContextMetadata(record, metadata.repoContext || null);
   attachWorkflowCostMetadata(record, metadata.workflowCost || null);
+  attachBudgetDecisions(record, metadata.budgetDecisions || null);
 }
@@ -267,6 +267,38 @@ export interface RoutingDecision {
   decisionRationale?: string;
 }
 
+// ────────────────────────────────────────────────────────────────
+// Budget Decisions
+// ────────────────────────────────────────────────────────────────
+
+/**
+ * A budget guardrail event during a task: a spend warning, or the action
+ * taken when a per-task or per-day limit was exceeded.
+ */
+export interface BudgetDecision {
+  /** ISO 8601 datetime when the decision was made */
+  at: string;
+
+  /** Which limit was involved */
+  scope: 'task' | 'day';
+
+  /** "warn" for threshold warnings; otherwise the enforced action */
+  action: 'warn' | 'pause' | 'downgrade' | 'abort';
+
+  /** Spend in USD counted against the limit at decision time */
+  costUsd: number;
+
+  /** The limit in USD */
+  limitUsd: number;
+
+  /** Model before and after a downgrade */
+  fromModel?: string;
+  toModel?: string;
+
+  /** Human-readable summary */
+  detail: string;
+}
+
 // ────────────────────────────────────────────────────────────────
 // Task Context (HOK-774)
 // ────────────────────────────────────────────────────────────────
@@ -441,6 +473,37 @@ export interface TestsOutcome {
   passRate?: number;
   /** Total test execution time in seconds, if available */
   durationSeconds?: number;
+  /** Number of test files added in this PR */
+  testFilesAdded?: number;
+  /** Number of existing test files modified in this PR */
+  testFilesModified?: number;
+  /** Test counts from ingested results */
+  total?: number;
+  passed?: number;
+  failed?: number;
+  skipped?: number;
+  /** Tests that failed and then passed on retry */
+  flaky?: number;
+  /** Retry attempts across all tests */
+  retries?: number;
+  /** Per-suite results */
+  suites?: TestSuiteOutcome[];
+  /** Line coverage (0-1) from an lcov report */
+  lineCoverage?: number;
+  /** Change in line coverage against the baseline lcov (-1 to 1) */
+  coverageDelta?: number;
+}
+
+/**
+ * Results of one test suite.
+ */
+export interface TestSuiteOutcome {
+  name: string;
+  tests: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  durationSeconds?: number;
 }
 
 /**
@@ -696,6 +759,9 @@ export interface EvalRecord {
   /** Routing decision metadata (required if training routing models) */
   routingDecision?: RoutingDecision;
 
+  /** Budget warnings and enforced actions taken while the task ran */
+  budgetDecisions?: BudgetDecision[];
+
   /** Optional extensibility bag for additional metadata */
   metadata?: Record<string, unknown>;
 }
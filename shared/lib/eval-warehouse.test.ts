@@ -0,0 +1,215 @@
+/**
+ * Unit tests for eval-warehouse — SQLite storage, indexed queries and
+ * JSONL migration. Skipped on runtimes without node:sqlite.
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync, mkdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import type { EvalRecord } from './eval-schema.ts';
+import { EvalWarehouse, isWarehouseAvailable } from './eval-warehouse.ts';
+import { appendEvalRecord, readEvalRecords } from './eval-persistence.ts';
+
+// ────────────────────────────────────────────────────────────────
+// Test Harness
+// ────────────────────────────────────────────────────────────────
+
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => void) {
+  try {
+    fn();
+    passed++;
+    console.log(`  PASS  ${name}`);
+  } catch (err) {
+    failed++;
+    console.log(`  FAIL  ${name}`);
+    console.log(`        ${(err as Error).message}`);
+  }
+}
+
+if (!isWarehouseAvailable()) {
+  console.log(`\n  SKIP  node:sqlite is not available on Node.js ${process.version}\n`);
+  process.exit(0);
+}
+
+// ────────────────────────────────────────────────────────────────
+// Fixtures
+// ────────────────────────────────────────────────────────────────
+
+function makeRecord(overrides?: Partial<EvalRecord>): EvalRecord {
+  return {
+    id: 'r1',
+    schemaVersion: '1.0.0',
+    originalPrompt: 'Add a logout button',
+    modelId: 'claude-opus-4-6',
+    modelVersion: 'claude-opus-4-6',
+    score: 1.0,
+    scoreBand: 'Full Success',
+    timeSeconds: 245,
+    timestamp: '2026-02-14T10:30:00Z',
+    interventionRequired: false,
+    interventionCount: 0,
+    interventionDetails: [],
+    rationale: 'Task completed autonomously.',
+    ...overrides,
+  };
+}
+
+function withWarehouse(fn: (warehouse: EvalWarehouse, tmp: string) => void) {
+  const tmp = mkdtempSync(join(tmpdir(), 'eval-warehouse-test-'));
+  const warehouse = EvalWarehouse.open(join(tmp, 'evals.db'));
+  try {
+    fn(warehouse, tmp);
+  } finally {
+    warehouse.close();
+    rmSync(tmp, { recursive: true, force: true });
+  }
+}
+
+// ────────────────────────────────────────────────────────────────
+// Query Tests
+// ────────────────────────────────────────────────────────────────
+
+console.log('\n--- Query Tests ---\n');
+
+test('round-trips full records ordered by timestamp', () => {
+  withWarehouse((warehouse) => {
+    const late = makeRecord({ id: 'late', timestamp: '2026-03-01T00:00:00Z', metadata: { nested: { a: 1 } } });
+    const early = makeRecord({ id: 'early', timestamp: '2026-01-01T00:00:00Z' });
+    warehouse.upsert(late, 'repo-a');
+    warehouse.upsert(early, 'repo-a');
+
+    const records = warehouse.query();
+    assert.deepEqual(records.map((r) => r.id), ['early', 'late']);
+    assert.deepEqual(records[1], late);
+  });
+});
+
+test('filters on indexed columns', () => {
+  withWarehouse((warehouse) => {
+    warehouse.upsert(makeRecord({
+      id: 'a', agentType: 'claude', stratum: 'ts_nextjs_small', difficultyBand: 'easy',
+      taskContext: { taskType: 'feature', changeKind: 'create_new', complexity: 's' },
+    }), 'web');
+    warehouse.upsert(makeRecord({
+      id: 'b', modelId: 'gpt-5.4', agentType: 'codex', stratum: 'py_django_med', difficultyBand: 'hard',
+      taskContext: { taskType: 'bugfix', changeKind: 'modify_existing', complexity: 'm' },
+    }), 'api');
+
+    assert.deepEqual(warehouse.query({ model: 'gpt-5.4' }).map((r) => r.id), ['b']);
+    assert.deepEqual(warehouse.query({ models: ['gpt-5.4', 'o3'] }).map((r) => r.id), ['b']);
+    assert.deepEqual(warehouse.query({ models: [] }), []);
+    assert.deepEqual(warehouse.query({ agentType: 'claude' }).map((r) => r.id), ['a']);
+    assert.deepEqual(warehouse.query({ stratum: 'py_django_med' }).map((r) => r.id), ['b']);
+    assert.deepEqual(warehouse.query({ taskType: 'feature' }).map((r) => r.id), ['a']);
+    assert.deepEqual(warehouse.query({ difficultyBand: 'hard' }).map((r) => r.id), ['b']);
+    assert.deepEqual(warehouse.query({ repo: 'web' }).map((r) => r.id), ['a']);
+    assert.deepEqual(warehouse.query({ agentType: 'claude', repo: 'api' }), []);
+  });
+});
+
+test('filters on date and score ranges (inclusive)', () => {
+  withWarehouse((warehouse) => {
+    warehouse.upsert(makeRecord({ id: 'jan', score: 0.3, timestamp: '2026-01-15T00:00:00Z' }));
+    warehouse.upsert(makeRecord({ id: 'feb', score: 0.8, timestamp: '2026-02-10T00:00:00Z' }));
+    warehouse.upsert(makeRecord({ id: 'mar', score: 1.0, timestamp: '2026-03-05T00:00:00Z' }));
+
+    const inRange = warehouse.query({
+      after: new Date('2026-02-10T00:00:00Z'),
+      before: new Date('2026-03-01T00:00:00Z'),
+    });
+    assert.deepEqual(inRange.map((r) => r.id), ['feb']);
+    assert.deepEqual(warehouse.query({ minScore: 0.8 }).map((r) => r.id), ['feb', 'mar']);
+    assert.deepEqual(warehouse.query({ maxScore: 0.8 }).map((r) => r.id), ['jan', 'feb']);
+  });
+});
+
+test('upsert replaces a record with the same id', () => {
+  withWarehouse((warehouse) => {
+    warehouse.upsert(makeRecord({ score: 0.5, scoreBand: 'Partial' }));
+    warehouse.upsert(makeRecord({ score: 0.9, scoreBand: 'Minor Feedback' }));
+
+    const records = warehouse.query();
+    assert.equal(records.length, 1);
+    assert.equal(records[0].score, 0.9);
+  });
+});
+
+// ────────────────────────────────────────────────────────────────
+// Migration Tests
+// ────────────────────────────────────────────────────────────────
+
+console.log('\n--- Migration Tests ---\n');
+
+test('imports JSONL idempotently and counts malformed lines', () => {
+  withWarehouse((warehouse, tmp) => {
+    const jsonl = join(tmp, 'evals.jsonl');
+    writeFileSync(jsonl, [
+      JSON.stringify(makeRecord({ id: 'x1' })),
+      '{not json',
+      JSON.stringify({ id: 'no-model' }),
+      JSON.stringify(makeRecord({ id: 'x2' })),
+      '',
+    ].join('\n'));
+
+    assert.deepEqual(warehouse.importJsonl(jsonl, 'repo-a'), { imported: 2, existing: 0, malformed: 2 });
+    assert.deepEqual(warehouse.importJsonl(jsonl, 'repo-a'), { imported: 0, existing: 2, malformed: 2 });
+    assert.equal(warehouse.count(), 2);
+    assert.equal(warehouse.count('repo-a'), 2);
+    assert.equal(warehouse.count('repo-b'), 0);
+  });
+});
+
+test('import does not overwrite records already in the warehouse', () => {
+  withWarehouse((warehouse, tmp) => {
+    warehouse.upsert(makeRecord({ id: 'x1', score: 0.9, scoreBand: 'Minor Feedback' }));
+    const jsonl = join(tmp, 'evals.jsonl');
+    writeFileSync(jsonl, JSON.stringify(makeRecord({ id: 'x1', score: 0.1, scoreBand: 'Failure' })) + '\n');
+
+    warehouse.importJsonl(jsonl);
+    assert.equal(warehouse.query()[0].score, 0.9);
+  });
+});
+
+test('missing JSONL file imports nothing', () => {
+  withWarehouse((warehouse, tmp) => {
+    assert.deepEqual(warehouse.importJsonl(join(tmp, 'nope.jsonl')), { imported: 0, existing: 0, malformed: 0 });
+  });
+});
+
+// ────────────────────────────────────────────────────────────────
+// eval-persistence Integration
+// ────────────────────────────────────────────────────────────────
+
+console.log('\n--- eval-persistence Integration ---\n');
+
+test('appendEvalRecord/readEvalRecords use the warehouse when backend is sqlite', () => {
+  const tmp = mkdtempSync(join(tmpdir(), 'eval-warehouse-test-'));
+  try {
+    const evalsDir = join(tmp, 'evals');
+    mkdirSync(evalsDir);
+    const opts = { dir: evalsDir, backend: 'sqlite' as const };
+
+    appendEvalRecord(makeRecord({ id: 's1', agentType: 'claude' }), opts);
+    appendEvalRecord(makeRecord({ id: 's2', agentType: 'codex' }), opts);
+
+    assert.deepEqual(readEvalRecords({ ...opts, agentType: 'codex' }).map((r) => r.id), ['s2']);
+    assert.equal(readEvalRecords({ dir: evalsDir }).length, 0, 'JSONL store is untouched');
+    assert.deepEqual(readEvalRecords({ backend: 'sqlite', dbPath: join(tmp, 'missing.db') }), []);
+  } finally {
+    rmSync(tmp, { recursive: true, force: true });
+  }
+});
+
+// ────────────────────────────────────────────────────────────────
+// Summary
+// ────────────────────────────────────────────────────────────────
+
+console.log(`\n--- Results: ${passed} passed, ${failed} failed ---\n`);
+
+if (failed > 0) {
+  process.exit(1);
+}
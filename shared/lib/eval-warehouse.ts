@@ -0,0 +1,300 @@
+/**
+ * Eval warehouse — SQLite-backed storage for eval records.
+ *
+ * An optional alternative to the per-repo JSONL file. Records are stored
+ * as JSON alongside indexed columns (model, agent type, stratum, task type,
+ * difficulty band, timestamp, repo) so filtered queries don't have to read
+ * and parse every record. One database can hold evals from many repos,
+ * which replaces the aggregate/deduplicate JSONL round-trip.
+ *
+ * Uses the built-in `node:sqlite` module (Node.js 22.13+), loaded lazily so
+ * the JSONL store keeps working on older runtimes.
+ *
+ * @module eval-warehouse
+ */
+
+import { readFileSync, existsSync, mkdirSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { createRequire } from 'node:module';
+import type { EvalRecord } from './eval-schema.ts';
+
+// ────────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────────
+
+/** Filters supported by warehouse queries (mirrors eval-persistence QueryOptions). */
+export interface WarehouseFilters {
+  model?: string;
+  /** Any of these models */
+  models?: string[];
+  agentType?: string;
+  stratum?: string;
+  taskType?: string;
+  difficultyBand?: string;
+  repo?: string;
+  after?: Date;
+  before?: Date;
+  minScore?: number;
+  maxScore?: number;
+}
+
+/** Result of importing a JSONL file into the warehouse. */
+export interface ImportResult {
+  /** Records newly inserted */
+  imported: number;
+  /** Records skipped because their id was already present */
+  existing: number;
+  /** Lines that could not be parsed */
+  malformed: number;
+}
+
+/** Minimal surface of node:sqlite's DatabaseSync used here. */
+interface SqliteStatement {
+  run(...params: unknown[]): { changes: number | bigint };
+  all(...params: unknown[]): Record<string, unknown>[];
+  get(...params: unknown[]): Record<string, unknown> | undefined;
+}
+
+interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): SqliteStatement;
+  close(): void;
+}
+
+// ────────────────────────────────────────────────────────────────
+// Constants
+// ────────────────────────────────────────────────────────────────
+
+const SCHEMA_VERSION = 1;
+
+const SCHEMA_SQL = `
+  CREATE TABLE IF NOT EXISTS evals (
+    id              TEXT PRIMARY KEY,
+    repo            TEXT,
+    model_id        TEXT NOT NULL,
+    agent_type      TEXT,
+    stratum         TEXT,
+    task_type       TEXT,
+    difficulty_band TEXT,
+    score           REAL NOT NULL,
+    timestamp       TEXT NOT NULL,
+    ts_ms           INTEGER NOT NULL,
+    record          TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_evals_model ON evals (model_id);
+  CREATE INDEX IF NOT EXISTS idx_evals_agent ON evals (agent_type);
+  CREATE INDEX IF NOT EXISTS idx_evals_stratum ON evals (stratum);
+  CREATE INDEX IF NOT EXISTS idx_evals_task_type ON evals (task_type);
+  CREATE INDEX IF NOT EXISTS idx_evals_difficulty ON evals (difficulty_band);
+  CREATE INDEX IF NOT EXISTS idx_evals_ts ON evals (ts_ms);
+  CREATE INDEX IF NOT EXISTS idx_evals_repo ON evals (repo);
+`;
+
+const INSERT_COLUMNS =
+  '(id, repo, model_id, agent_type, stratum, task_type, difficulty_band, score, timestamp, ts_ms, record)';
+
+// ────────────────────────────────────────────────────────────────
+// Driver Loading
+// ────────────────────────────────────────────────────────────────
+
+let _DatabaseSync: (new (path: string) => SqliteDatabase) | null | undefined;
+
+/**
+ * Load node:sqlite's DatabaseSync constructor, or null if this runtime
+ * doesn't provide it.
+ */
+function loadDriver(): (new (path: string) => SqliteDatabase) | null {
+  if (_DatabaseSync !== undefined) return _DatabaseSync;
+  try {
+    const require = createRequire(import.meta.url);
+    _DatabaseSync = require('node:sqlite').DatabaseSync;
+  } catch {
+    _DatabaseSync = null;
+  }
+  return _DatabaseSync ?? null;
+}
+
+/** Whether the SQLite warehouse can be used on this Node.js runtime. */
+export function isWarehouseAvailable(): boolean {
+  return loadDriver() !== null;
+}
+
+// ────────────────────────────────────────────────────────────────
+// Warehouse
+// ────────────────────────────────────────────────────────────────
+
+/** Extract the indexed column values for a record. */
+function toRow(record: EvalRecord, repo: string | null): unknown[] {
+  const tsMs = Date.parse(record.timestamp);
+  return [
+    record.id,
+    repo,
+    record.modelId,
+    record.agentType ?? null,
+    record.stratum ?? null,
+    record.taskContext?.taskType ?? null,
+    record.difficultyBand ?? null,
+    record.score,
+    record.timestamp,
+    Number.isNaN(tsMs) ? 0 : tsMs,
+    JSON.stringify(record),
+  ];
+}
+
+/**
+ * SQLite eval warehouse.
+ *
+ * Open with `EvalWarehouse.open(path)`; the schema is created on first use.
+ * Callers should `close()` when done.
+ */
+export class EvalWarehouse {
+  readonly path: string;
+  private readonly db: SqliteDatabase;
+
+  private constructor(path: string, db: SqliteDatabase) {
+    this.path = path;
+    this.db = db;
+  }
+
+  /**
+   * Open (creating if needed) the warehouse database at `path`.
+   * Throws if node:sqlite is unavailable.
+   */
+  static open(path: string): EvalWarehouse {
+    const DatabaseSync = loadDriver();
+    if (!DatabaseSync) {
+      throw new Error(
+        `The SQLite eval store requires Node.js 22.13+ (node:sqlite); running ${process.version}.\n` +
+        `Upgrade Node.js or set eval.store.backend to "jsonl" in .wavemill-config.json.`,
+      );
+    }
+
+    const absPath = resolve(path);
+    mkdirSync(dirname(absPath), { recursive: true });
+    const db = new DatabaseSync(absPath);
+    db.exec('PRAGMA journal_mode = WAL');
+    db.exec(SCHEMA_SQL);
+    db.exec(`PRAGMA user_version = ${SCHEMA_VERSION}`);
+    return new EvalWarehouse(absPath, db);
+  }
+
+  /** Insert a record, replacing any existing record with the same id. */
+  upsert(record: EvalRecord, repo?: string): void {
+    this.db
+      .prepare(`INSERT OR REPLACE INTO evals ${INSERT_COLUMNS} VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`)
+      .run(...toRow(record, repo ?? null));
+  }
+
+  /**
+   * Insert a record unless its id is already present.
+   * @returns true if the record was inserted
+   */
+  insertIfAbsent(record: EvalRecord, repo?: string): boolean {
+    const result = this.db
+      .prepare(`INSERT OR IGNORE INTO evals ${INSERT_COLUMNS} VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`)
+      .run(...toRow(record, repo ?? null));
+    return Number(result.changes) > 0;
+  }
+
+  /** Query records matching all filters, oldest first. */
+  query(filters: WarehouseFilters = {}): EvalRecord[] {
+    const where: string[] = [];
+    const params: unknown[] = [];
+    const eq = (column: string, value: string | undefined) => {
+      if (value === undefined) return;
+      where.push(`${column} = ?`);
+      params.push(value);
+    };
+
+    eq('model_id', filters.model);
+    if (filters.models) {
+      where.push(filters.models.length > 0 ? `model_id IN (${filters.models.map(() => '?').join(', ')})` : '0');
+      params.push(...filters.models);
+    }
+    eq('agent_type', filters.agentType);
+    eq('stratum', filters.stratum);
+    eq('task_type', filters.taskType);
+    eq('difficulty_band', filters.difficultyBand);
+    eq('repo', filters.repo);
+
+    if (filters.after) {
+      where.push('ts_ms >= ?');
+      params.push(filters.after.getTime());
+    }
+    if (filters.before) {
+      where.push('ts_ms <= ?');
+      params.push(filters.before.getTime());
+    }
+    if (filters.minScore !== undefined) {
+      where.push('score >= ?');
+      params.push(filters.minScore);
+    }
+    if (filters.maxScore !== undefined) {
+      where.push('score <= ?');
+      params.push(filters.maxScore);
+    }
+
+    const sql =
+      'SELECT record FROM evals' +
+      (where.length > 0 ? ` WHERE ${where.join(' AND ')}` : '') +
+      ' ORDER BY ts_ms, id';
+
+    return this.db
+      .prepare(sql)
+      .all(...params)
+      .map((row) => JSON.parse(row.record as string) as EvalRecord);
+  }
+
+  /** Total number of records, optionally for a single repo. */
+  count(repo?: string): number {
+    const row = repo === undefined
+      ? this.db.prepare('SELECT COUNT(*) AS n FROM evals').get()
+      : this.db.prepare('SELECT COUNT(*) AS n FROM evals WHERE repo = ?').get(repo);
+    return Number(row?.n ?? 0);
+  }
+
+  /**
+   * Import records from an eval JSONL file. Existing ids are left untouched,
+   * so re-running a migration is safe.
+   */
+  importJsonl(jsonlPath: string, repo?: string): ImportResult {
+    const result: ImportResult = { imported: 0, existing: 0, malformed: 0 };
+    if (!existsSync(jsonlPath)) return result;
+
+    const lines = readFileSync(jsonlPath, 'utf-8')
+      .split('\n')
+      .filter((line) => line.trim().length > 0);
+
+    this.db.exec('BEGIN');
+    try {
+      for (const line of lines) {
+        let record: EvalRecord;
+        try {
+          record = JSON.parse(line) as EvalRecord;
+        } catch {
+          result.malformed++;
+          continue;
+        }
+        if (!record?.id || !record.modelId || typeof record.score !== 'number') {
+          result.malformed++;
+          continue;
+        }
+        if (this.insertIfAbsent(record, repo)) {
+          result.imported++;
+        } else {
+          result.existing++;
+        }
+      }
+      this.db.exec('COMMIT');
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+
+    return result;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
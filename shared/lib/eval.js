@@ -7,7 +7,7 @@ import { randomUUID } from 'crypto';
 import { fileURLToPath } from "node:url";
 import { dirname, join, resolve } from "node:path";
 import { getScoreBand } from './eval-schema.ts';
-import { callClaude, parseJsonFromLLM } from './llm-cli.ts';
+import { callLLM, parseJsonFromLLM, splitPromptForCache } from './llm-cli.ts';
 import { getEvalConfig } from './config.ts';
 import { loadPricingTable } from './workflow-cost.ts';
 
@@ -17,6 +17,8 @@ const __dirname = dirname(__filename);
 const DEFAULT_MODEL = 'claude-sonnet-4-5-20250929';
 const DEFAULT_PROVIDER = 'claude-cli';
 const SUPPORTED_PROVIDERS = ['claude-cli', 'anthropic'];
+// Judge provider name (config) → llm-cli provider
+const JUDGE_PROVIDER_MAP = { 'claude-cli': 'claude', anthropic: 'anthropic' };
 const SCHEMA_VERSION = '1.0.0';
 const MAX_RETRIES = 2;
 const TIMEOUT_MS = 120_000;
@@ -95,8 +97,13 @@ function buildJudgePrompt(template, taskPrompt, prReviewOutput, interventions, i
     .replace('{{INTERVENTION_METADATA}}', finalInterventionText);
 }
 
-async function callClaudeWithRetry(prompt, model) {
-  const result = await callClaude(prompt, {
+/**
+ * Call the judge through the configured provider. The prompt may be split
+ * into blocks so the static rubric is cached by the anthropic provider.
+ */
+async function callJudgeWithRetry(prompt, model, provider) {
+  const result = await callLLM(prompt, {
+    provider: JUDGE_PROVIDER_MAP[provider],
     mode: 'sync',
     model,
     timeout: TIMEOUT_MS, // 120000
@@ -164,11 +171,12 @@ function parseJudgeResponse(raw) {
  * @param {EvalInput} input
  * @param {import('./eval-schema.ts').Outcomes} [outcomes] - Optional pre-collected outcome components
  * @param {Object} [options] - Optional configuration
+ * @param {string} [options.model] - Judge model for this call (overrides EVAL_MODEL and config)
  * @param {Function} [options._callFn] - Override for the LLM call function (testing)
  * @returns {Promise<import('./eval-schema.ts').EvalRecord>}
  */
 export async function evaluateTask(input, outcomes = undefined, options = {}) {
-  const { _callFn } = options;
+  const { _callFn, model: modelOverride } = options;
   const {
     taskPrompt,
     prReviewOutput,
@@ -190,18 +198,19 @@ export async function evaluateTask(input, outcomes = undefined, options = {}) {
     ? interventionRecords.length
     : interventions.length;
 
-  // Resolve judge model: env var > config file > default
+  // Resolve judge model: option > env var > config file > default
   const judgeConfig = loadJudgeConfig();
-  const model = process.env.EVAL_MODEL || judgeConfig.model;
+  const model = modelOverride || process.env.EVAL_MODEL || judgeConfig.model;
   const provider = judgeConfig.provider;
   const pricingTable = loadPricingTable();
 
   const template = await loadPromptTemplate();
   const prompt = buildJudgePrompt(template, taskPrompt, prReviewOutput, interventions, interventionText);
 
-  const callFn = _callFn || callClaudeWithRetry;
+  const callFn = _callFn ||
+    ((p, m) => callJudgeWithRetry(splitPromptForCache(template, p), m, provider));
 
-  // Call Claude (with retry built-in)
+  // Call the judge (with retry built-in)
   const response = await callFn(prompt, model);
 
   // Parse response
@@ -0,0 +1,192 @@
+/**
+ * Tests for fix commit classification and the flaky test registry.
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, mkdirSync, readFileSync, writeFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  classifyFixCommit,
+  createFixEvidence,
+  isEnvironmentFile,
+  rerunPassedChecks,
+} from './failure-classifier.ts';
+import { FlakyTestRegistry } from './flaky-registry.ts';
+import { createFixtureOutcomeSource, type SourceCheck } from './outcome-sources.ts';
+
+describe('isEnvironmentFile', () => {
+  it('matches lockfiles, CI pipelines and toolchain pins', () => {
+    for (const path of ['package-lock.json', 'web/yarn.lock', '.github/workflows/ci.yml', '.nvmrc', 'Cargo.lock']) {
+      assert.equal(isEnvironmentFile(path), true, path);
+    }
+    for (const path of ['package.json', 'src/lock.ts', '.github/CODEOWNERS', 'test/upload.test.ts']) {
+      assert.equal(isEnvironmentFile(path), false, path);
+    }
+  });
+});
+
+describe('rerunPassedChecks', () => {
+  const attempt = (name: string, status: 'success' | 'failure', minute: number): SourceCheck => ({
+    name,
+    status,
+    startedAt: `2026-03-01T10:${String(minute).padStart(2, '0')}:00Z`,
+    completedAt: `2026-03-01T10:${String(minute + 5).padStart(2, '0')}:00Z`,
+  });
+
+  it('lists failed checks only when every one passed on a later re-run', () => {
+    const flaky = [attempt('e2e', 'failure', 0), attempt('e2e', 'success', 10), attempt('lint', 'success', 0)];
+    assert.deepEqual(rerunPassedChecks(flaky), ['e2e']);
+    assert.deepEqual(rerunPassedChecks([...flaky, attempt('unit', 'failure', 0)]), []);
+    assert.deepEqual(rerunPassedChecks([]), []);
+  });
+
+  it('ignores passes before the last failure and attempts without times', () => {
+    assert.deepEqual(rerunPassedChecks([attempt('e2e', 'success', 0), attempt('e2e', 'failure', 10)]), []);
+    assert.deepEqual(
+      rerunPassedChecks([attempt('e2e', 'failure', 0), attempt('e2e', 'success', 10), attempt('e2e', 'failure', 20)]),
+      [],
+    );
+    assert.deepEqual(rerunPassedChecks([{ name: 'e2e', status: 'failure' }, { name: 'e2e', status: 'success' }]), []);
+  });
+});
+
+describe('FlakyTestRegistry', () => {
+  it('records retried tests and matches commits that mention them', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'flaky-registry-'));
+    try {
+      const registry = FlakyTestRegistry.forRepo(dir);
+      registry.record([{ suite: 'upload', name: 'retries large files' }], new Date('2026-03-01T00:00:00Z'));
+      registry.record([{ suite: 'upload', name: 'retries large files' }], new Date('2026-03-02T00:00:00Z'));
+
+      const reloaded = FlakyTestRegistry.forRepo(dir);
+      assert.deepEqual(reloaded.tests, [{
+        suite: 'upload',
+        name: 'retries large files',
+        reason: 'passed on retry',
+        firstSeen: '2026-03-01T00:00:00.000Z',
+        lastSeen: '2026-03-02T00:00:00.000Z',
+        occurrences: 2,
+      }]);
+      assert.equal(reloaded.match('Fix upload: "Retries large files" timeout')?.name, 'retries large files');
+      // Ingested suites are often made up, so the name is enough
+      assert.equal(reloaded.match('Fix "retries large files" timeout')?.name, 'retries large files');
+      // The name only as part of other words
+      assert.equal(reloaded.match('upload: stop retries large filesystem scans'), undefined);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('matches short names by file only, and prefers file matches', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'flaky-registry-'));
+    try {
+      const registry = FlakyTestRegistry.forRepo(dir);
+      registry.record([
+        { suite: 'config', name: 'returns null' },
+        { suite: 'upload', name: 'resumes interrupted uploads' },
+        { suite: 'cache', name: 'expires stale entries', file: 'test/cache.test.ts' },
+      ]);
+      assert.equal(registry.match('config: fix parser so it returns null on empty input'), undefined);
+      assert.equal(
+        registry.match('upload: fix resumes interrupted uploads', ['test/cache.test.ts'])?.name,
+        'expires stale entries',
+      );
+      assert.equal(
+        registry.match('cache: fix timing', ['test/cache.test.ts', 'test/fixtures/cache.json', 'vitest.config.ts'])?.name,
+        'expires stale entries',
+      );
+      // Also changing the code under test is not a flaky test fix
+      assert.equal(registry.match('cache: fix timing', ['test/cache.test.ts', 'src/cache.ts']), undefined);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('ignores an unreadable registry file', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'flaky-registry-'));
+    try {
+      mkdirSync(join(dir, '.wavemill'));
+      writeFileSync(join(dir, '.wavemill', 'flaky-tests.json'), '{ not json');
+      assert.deepEqual(FlakyTestRegistry.forRepo(dir).tests, []);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('classifyFixCommit', () => {
+  let dir: string;
+  const shas: Record<string, string> = {};
+
+  const git = (...args: string[]) => execFileSync('git', args, { cwd: dir, encoding: 'utf-8' }).trim();
+  const commit = (label: string, files: Record<string, string>) => {
+    for (const [path, content] of Object.entries(files)) {
+      mkdirSync(join(dir, path, '..'), { recursive: true });
+      writeFileSync(join(dir, path), content);
+    }
+    git('add', '-A');
+    git('commit', '-q', '-m', label);
+    shas[label] = git('rev-parse', 'HEAD');
+  };
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), 'failure-classifier-'));
+    git('init', '-q');
+    git('config', 'user.email', 'dev@example.com');
+    git('config', 'user.name', 'Dev');
+    commit('feat: upload', { 'src/upload.ts': 'export {};\n', 'test/upload.test.ts': '// v1\n' });
+    commit('fix: pin lockfile', { 'package-lock.json': '{}\n', '.nvmrc': '22\n' });
+    commit('fix flaky upload test', { 'test/upload.test.ts': '// v2\n' });
+    commit('fix failing test after e2e flake', { 'src/upload.ts': 'export const x = 1;\n' });
+    commit('fix failing parser test', { 'src/upload.ts': 'export const x = 2;\n' });
+  });
+
+  after(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('tells environment, flaky test and flaky CI fixes from agent fixes', () => {
+    const source = createFixtureOutcomeSource({
+      changes: {},
+      commits: {
+        // Parent of the flaky CI fix: e2e failed, then passed on re-run
+        [shas['fix flaky upload test']]: {
+          checks: [
+            { name: 'e2e', status: 'failure', startedAt: '2026-03-01T10:00:00Z', completedAt: '2026-03-01T10:05:00Z' },
+            { name: 'e2e', status: 'success', startedAt: '2026-03-01T10:10:00Z', completedAt: '2026-03-01T10:15:00Z' },
+          ],
+        },
+        // Parent of the agent fix: unit failed on every attempt
+        [shas['fix failing test after e2e flake']]: {
+          checks: [{ name: 'unit', status: 'failure' }, { name: 'unit', status: 'failure' }],
+        },
+      },
+    });
+    const evidence = createFixEvidence(dir, source);
+    const registry = FlakyTestRegistry.forRepo(dir);
+    registry.record([{ suite: 'upload', name: 'resumes uploads', file: 'test/upload.test.ts' }]);
+
+    const classify = (label: string) =>
+      classifyFixCommit({ sha: shas[label].slice(0, 7), message: label }, evidence, registry);
+
+    assert.deepEqual(classify('fix: pin lockfile'), {
+      cause: 'environment',
+      reason: 'only changes .nvmrc, package-lock.json',
+    });
+    assert.deepEqual(classify('fix flaky upload test'), {
+      cause: 'flaky-test',
+      reason: '"resumes uploads" is in the flaky test registry',
+    });
+    assert.deepEqual(classify('fix failing test after e2e flake'), { cause: 'flaky-ci', reason: 'e2e passed on re-run' });
+    assert.deepEqual(classify('fix failing parser test'), { cause: 'agent', reason: '' });
+    assert.match(readFileSync(registry.path, 'utf-8'), /resumes uploads/);
+  });
+
+  it('blames the agent when there is no evidence', () => {
+    const evidence = createFixEvidence(dir);
+    assert.deepEqual(classifyFixCommit({ sha: 'deadbee', message: 'fix test' }, evidence), { cause: 'agent', reason: '' });
+  });
+});
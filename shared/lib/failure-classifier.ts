@@ -0,0 +1,176 @@
+/**
+ * Failure classifier for fix commits.
+ *
+ * Intervention detection flags commits that fix tests or land after the PR
+ * was opened. Not every such fix is the agent's fault: a test may be flaky,
+ * or CI may have failed for reasons outside the change. A fix commit is
+ * classified, in order, as:
+ * - `environment` — it only touches lockfiles, CI or toolchain config
+ * - `flaky-test`  — it only touches files of tests in the flaky test
+ *                   registry (and test infrastructure), or names one
+ * - `flaky-ci`    — every check that failed on its parent commit passed
+ *                   when re-run on that same commit afterwards
+ * - `agent`       — none of the above
+ *
+ * @module failure-classifier
+ */
+
+import { escapeShellArg, execShellCommand } from './shell-utils.ts';
+import { matchesGlob } from './glob-utils.ts';
+import type { CommandRunner, OutcomeSource, SourceCheck } from './outcome-sources.ts';
+import type { FlakyTestRegistry } from './flaky-registry.ts';
+
+/**
+ * Files whose changes fix the environment rather than the code: lockfiles,
+ * CI pipelines and toolchain version pins.
+ */
+export const ENVIRONMENT_FILE_GLOBS = [
+  'package-lock.json',
+  'npm-shrinkwrap.json',
+  'yarn.lock',
+  'pnpm-lock.yaml',
+  'bun.lockb',
+  '*.lock',
+  'go.sum',
+  '.github/workflows',
+  '.github/actions',
+  '.gitlab-ci.yml',
+  '.circleci',
+  '.travis.yml',
+  'azure-pipelines.yml',
+  'Jenkinsfile',
+  'Dockerfile',
+  '.dockerignore',
+  'docker-compose.yml',
+  'docker-compose.yaml',
+  '.nvmrc',
+  '.node-version',
+  '.python-version',
+  '.tool-versions',
+  '.npmrc',
+  '.yarnrc',
+  '.yarnrc.yml',
+];
+
+// ────────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────────
+
+export type FixCause = 'environment' | 'flaky-test' | 'flaky-ci' | 'agent';
+
+export interface FixClassification {
+  cause: FixCause;
+  /** Why, for intervention details; empty for agent fixes */
+  reason: string;
+}
+
+export interface FixCommit {
+  /** Full or abbreviated sha */
+  sha: string;
+  message: string;
+}
+
+/** Where the classifier looks up what a commit changed and how CI behaved. */
+export interface FixEvidence {
+  /** Repo-relative files changed by the commit, or null when unknown */
+  changedFiles(sha: string): string[] | null;
+  /** Every check attempt on the commit's parent, including re-runs */
+  parentCheckHistory(sha: string): SourceCheck[];
+}
+
+// ────────────────────────────────────────────────────────────────
+// Evidence
+// ────────────────────────────────────────────────────────────────
+
+/**
+ * Evidence from the local git history, plus CI check history from the
+ * outcome source when one is given. Non-throwing: missing commits or
+ * unavailable CI data yield no evidence.
+ */
+export function createFixEvidence(
+  repoDir: string,
+  source?: OutcomeSource,
+  run: CommandRunner = (command) =>
+    String(execShellCommand(command, { encoding: 'utf-8', cwd: repoDir, timeout: 10_000 })).trim(),
+): FixEvidence {
+  const git = (command: string): string | null => {
+    try {
+      return run(command);
+    } catch {
+      return null;
+    }
+  };
+
+  return {
+    changedFiles(sha) {
+      const raw = git(`git diff-tree --no-commit-id --name-only -r ${escapeShellArg(sha)}`);
+      return raw === null ? null : raw.split('\n').filter(Boolean);
+    },
+
+    parentCheckHistory(sha) {
+      if (!source) return [];
+      const parent = git(`git rev-parse --verify --quiet ${escapeShellArg(`${sha}^`)}`);
+      if (!parent) return [];
+      try {
+        return source.checkHistory(parent);
+      } catch {
+        return [];
+      }
+    },
+  };
+}
+
+// ────────────────────────────────────────────────────────────────
+// Classification
+// ────────────────────────────────────────────────────────────────
+
+export function isEnvironmentFile(path: string): boolean {
+  return ENVIRONMENT_FILE_GLOBS.some((glob) => matchesGlob(path, glob));
+}
+
+function startTime(check: SourceCheck): number {
+  return Date.parse(check.startedAt ?? check.completedAt ?? '');
+}
+
+function endTime(check: SourceCheck): number {
+  return Date.parse(check.completedAt ?? check.startedAt ?? '');
+}
+
+/**
+ * Names of checks that failed on a commit and then passed when re-run on
+ * it, or an empty list when any failing check has no passing attempt after
+ * its last failure. Attempts without timestamps can't be ordered and never
+ * count as passing re-runs.
+ */
+export function rerunPassedChecks(history: SourceCheck[]): string[] {
+  const names = [...new Set(history.filter((c) => c.status === 'failure').map((c) => c.name))];
+  const passedAfterFailing = (name: string) => {
+    const attempts = history.filter((c) => c.name === name);
+    const lastFailure = Math.max(...attempts.filter((c) => c.status === 'failure').map(endTime));
+    return attempts.some((c) => c.status === 'success' && startTime(c) >= lastFailure);
+  };
+  return names.every(passedAfterFailing) ? names : [];
+}
+
+export function classifyFixCommit(
+  commit: FixCommit,
+  evidence: FixEvidence,
+  registry?: FlakyTestRegistry,
+): FixClassification {
+  const files = evidence.changedFiles(commit.sha);
+  if (files && files.length > 0 && files.every(isEnvironmentFile)) {
+    return { cause: 'environment', reason: `only changes ${files.join(', ')}` };
+  }
+
+  const flaky = registry?.match(commit.message, files ?? []);
+  if (flaky) {
+    return { cause: 'flaky-test', reason: `"${flaky.name}" is in the flaky test registry` };
+  }
+
+  const rerunPassed = rerunPassedChecks(evidence.parentCheckHistory(commit.sha));
+  if (rerunPassed.length > 0) {
+    return { cause: 'flaky-ci', reason: `${rerunPassed.join(', ')} passed on re-run` };
+  }
+
+  return { cause: 'agent', reason: '' };
+}
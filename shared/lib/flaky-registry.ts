@@ -0,0 +1,161 @@
+/**
+ * Flaky test registry: tests known to fail intermittently, persisted to a
+ * small JSON file (default `.wavemill/flaky-tests.json`).
+ *
+ * Entries are recorded automatically when ingested test results show a
+ * test passing on retry, and can be added by hand (a `name` is enough).
+ * The failure classifier uses the registry to tell commits that fix flaky
+ * tests apart from fixes for bugs the agent introduced.
+ *
+ * @module flaky-registry
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { matchesGlob } from './glob-utils.ts';
+
+export const DEFAULT_FLAKY_REGISTRY_PATH = '.wavemill/flaky-tests.json';
+
+/**
+ * Shortest test name matched against commit messages. Short names such as
+ * "returns null" turn up in unrelated bug-fix messages.
+ */
+const MIN_MESSAGE_MATCH_LENGTH = 16;
+
+/**
+ * Test infrastructure a flaky test fix may touch besides the test file:
+ * runner config, fixtures, mocks, snapshots and shared test helpers.
+ */
+export const TEST_INFRA_FILE_GLOBS = [
+  'jest.config.*',
+  'vitest.config.*',
+  'playwright.config.*',
+  'cypress.config.*',
+  'karma.conf.*',
+  '.mocharc*',
+  'pytest.ini',
+  'conftest.py',
+  'setupTests.*',
+  '**/fixtures/**',
+  '**/__fixtures__/**',
+  '**/__mocks__/**',
+  '**/__snapshots__/**',
+  '**/test-utils/**',
+  '**/test-helpers/**',
+];
+
+// ────────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────────
+
+export interface FlakyTestEntry {
+  /** Test name as reported by the runner */
+  name: string;
+  suite?: string;
+  /** Repo-relative test file, if known */
+  file?: string;
+  reason?: string;
+  firstSeen?: string;
+  lastSeen?: string;
+  /** Times the test was seen passing on retry */
+  occurrences?: number;
+}
+
+interface RegistryData {
+  version: 1;
+  tests: FlakyTestEntry[];
+}
+
+// ────────────────────────────────────────────────────────────────
+// Registry
+// ────────────────────────────────────────────────────────────────
+
+export class FlakyTestRegistry {
+  readonly path: string;
+  private data: RegistryData;
+
+  constructor(path: string) {
+    this.path = path;
+    this.data = FlakyTestRegistry.read(path) ?? { version: 1, tests: [] };
+  }
+
+  /** Registry of a repository, at the default path. */
+  static forRepo(repoDir: string): FlakyTestRegistry {
+    return new FlakyTestRegistry(resolve(repoDir, DEFAULT_FLAKY_REGISTRY_PATH));
+  }
+
+  private static read(path: string): RegistryData | null {
+    if (!existsSync(path)) return null;
+    try {
+      const parsed = JSON.parse(readFileSync(path, 'utf-8'));
+      if (parsed && Array.isArray(parsed.tests)) {
+        return { version: 1, tests: parsed.tests.filter((t: FlakyTestEntry) => t && typeof t.name === 'string') };
+      }
+    } catch {
+      // Fall through
+    }
+    console.warn(`Warning: Ignoring unreadable flaky test registry at ${path}`);
+    return null;
+  }
+
+  get tests(): readonly FlakyTestEntry[] {
+    return this.data.tests;
+  }
+
+  /** Record tests seen passing on retry; saves only when given any. */
+  record(tests: Array<Pick<FlakyTestEntry, 'name' | 'suite' | 'file'>>, now = new Date()): void {
+    if (tests.length === 0) return;
+    const timestamp = now.toISOString();
+    for (const test of tests) {
+      const existing = this.data.tests.find((t) => t.name === test.name && t.suite === test.suite);
+      if (existing) {
+        existing.lastSeen = timestamp;
+        existing.occurrences = (existing.occurrences ?? 0) + 1;
+        existing.file ??= test.file;
+      } else {
+        this.data.tests.push({
+          ...test,
+          reason: 'passed on retry',
+          firstSeen: timestamp,
+          lastSeen: timestamp,
+          occurrences: 1,
+        });
+      }
+    }
+    this.save();
+  }
+
+  /**
+   * The registered test a commit is about: preferably one whose file the
+   * commit changes, when it changes nothing but flaky test files and test
+   * infrastructure; otherwise one the commit message names as whole words.
+   * Suites aren't required in the message: ingested ones are often just the
+   * report name or "(root)". Names shorter than MIN_MESSAGE_MATCH_LENGTH are
+   * only matched by file.
+   */
+  match(message: string, files: string[] = []): FlakyTestEntry | undefined {
+    const flakyFiles = new Set(this.data.tests.flatMap((t) => (t.file === undefined ? [] : [t.file])));
+    if (files.every((f) => flakyFiles.has(f) || isTestInfraFile(f))) {
+      const byFile = this.data.tests.find((t) => t.file !== undefined && files.includes(t.file));
+      if (byFile) return byFile;
+    }
+    return this.data.tests.find((t) => t.name.length >= MIN_MESSAGE_MATCH_LENGTH && mentions(message, t.name));
+  }
+
+  private save(): void {
+    mkdirSync(dirname(this.path), { recursive: true });
+    const tmp = `${this.path}.${process.pid}.tmp`;
+    writeFileSync(tmp, JSON.stringify(this.data, null, 2) + '\n');
+    renameSync(tmp, this.path);
+  }
+}
+
+export function isTestInfraFile(path: string): boolean {
+  return TEST_INFRA_FILE_GLOBS.some((glob) => matchesGlob(path, glob));
+}
+
+/** Whether `text` contains `phrase` as whole words, ignoring case. */
+function mentions(text: string, phrase: string): boolean {
+  const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?<!\\w)${escaped}(?!\\w)`, 'i').test(text);
+}
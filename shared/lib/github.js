@@ -121,7 +121,7 @@ export const getPullRequest = (prNumber, options = {}) => {
     // Request JSON output with all needed fields
     args.push(
       '--json',
-      'number,title,body,state,author,headRefName,baseRefName,labels,url,createdAt,updatedAt,mergedAt,closedAt'
+      'number,title,body,state,author,headRefName,headRefOid,baseRefName,labels,url,createdAt,updatedAt,mergedAt,closedAt'
     );
 
     const output = execSync(args.join(' '), { encoding: 'utf-8' }).trim();
@@ -135,6 +135,7 @@ export const getPullRequest = (prNumber, options = {}) => {
       state: pr.state,
       author: pr.author?.login || pr.author,
       headRefName: pr.headRefName,
+      headRefOid: pr.headRefOid,
       baseRefName: pr.baseRefName,
       labels: pr.labels || [],
       url: pr.url,
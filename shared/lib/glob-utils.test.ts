@@ -0,0 +1,19 @@
+/**
+ * Tests for glob matching.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { matchesGlob } from './glob-utils.ts';
+
+describe('matchesGlob', () => {
+  it('matches paths, directories, file names and globs', () => {
+    assert.equal(matchesGlob('src/config.ts', 'src/config.ts'), true);
+    assert.equal(matchesGlob('src/legacy/a.ts', 'src/legacy'), true);
+    assert.equal(matchesGlob('deep/package.json', 'package.json'), true);
+    assert.equal(matchesGlob('src/a/b/c.sql', 'src/**/*.sql'), true);
+    assert.equal(matchesGlob('migrations/001.sql', '*.sql'), true);
+    assert.equal(matchesGlob('src/a/b.ts', 'src/*.ts'), false);
+    assert.equal(matchesGlob('src/configuration.ts', 'src/config'), false);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Glob matching for repo-relative paths, shared by constraint checks, test
+ * report discovery and fix commit classification.
+ *
+ * @module glob-utils
+ */
+
+import { basename } from 'node:path';
+
+/** Compile a glob (`*`, `?`, `**`) to a regex matching whole paths. */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      const slash = glob[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Whether a repo-relative path matches a glob. Patterns without a slash
+ * match the file name at any depth; plain paths also match everything
+ * under them.
+ */
+export function matchesGlob(path: string, glob: string): boolean {
+  const pattern = glob.replace(/^\.?\//, '');
+  if (!/[*?]/.test(pattern)) {
+    const dir = pattern.replace(/\/$/, '');
+    return path === dir || path.startsWith(`${dir}/`) || (!pattern.includes('/') && basename(path) === pattern);
+  }
+  const regex = globToRegExp(pattern);
+  return regex.test(path) || (!pattern.includes('/') && regex.test(basename(path)));
+}
@@ -12,14 +12,7 @@
 
 import fs from 'node:fs/promises';
 import path from 'node:path';
-import {
-  getInitiative,
-  getProjects,
-  getTeams,
-  createIssue,
-  createIssueRelation,
-  getOrCreateProjectMilestone,
-} from './linear.js';
+import { getIssueTracker } from './issue-tracker.ts';
 import { parseJsonFromLLM } from './llm-cli.ts';
 import { toKebabCase } from './string-utils.js';
 import {
@@ -141,9 +134,11 @@ export async function decomposeInitiative(
     repoRoot = process.cwd(),
   } = options;
 
+  const tracker = getIssueTracker(repoRoot);
+
   // 1. Fetch initiative details
   console.log('Fetching initiative details...');
-  const initiative = await getInitiative(initiativeId);
+  const initiative = await tracker.getInitiative(initiativeId);
   if (!initiative) {
     throw new Error(`Initiative not found: ${initiativeId}`);
   }
@@ -158,7 +153,7 @@ export async function decomposeInitiative(
   // 2. Resolve target project
   let targetProject = null;
   if (projectName) {
-    const projects = await getProjects();
+    const projects = await tracker.getProjects();
     targetProject = projects.find((p: any) => p.name === projectName);
     if (!targetProject) {
       throw new Error(
@@ -177,7 +172,7 @@ export async function decomposeInitiative(
   console.log(`Target project: ${targetProject.name}`);
 
   // 3. Resolve team
-  const teams = await getTeams();
+  const teams = await tracker.getTeams();
   if (teams.length === 0) {
     throw new Error('No teams found in Linear.');
   }
@@ -309,7 +304,7 @@ export async function decomposeInitiative(
     let milestoneId: string | undefined;
     try {
       console.log(`\nCreating milestone: "${milestone.name}"...`);
-      milestoneId = await getOrCreateProjectMilestone(
+      milestoneId = await tracker.getOrCreateProjectMilestone(
         targetProject.id,
         milestone.name
       );
@@ -329,7 +324,7 @@ export async function decomposeInitiative(
 
       console.log(`  Creating: ${issue.title}`);
 
-      const created = await createIssue({
+      const created = await tracker.createIssue({
         title: issue.title,
         description: enhancedDescription,
         teamId: team.id,
@@ -353,7 +348,7 @@ export async function decomposeInitiative(
           console.log(
             `  ${createdIssues[i].identifier} blocked by ${createdIssues[depIndex].identifier}`
           );
-          await createIssueRelation(
+          await tracker.createIssueRelation(
             createdIssues[depIndex].id,
             createdIssues[i].id,
             'blocks'
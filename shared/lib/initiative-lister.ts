@@ -7,7 +7,7 @@
  * @module initiative-lister
  */
 
-import { getInitiatives } from './linear.js';
+import { getIssueTracker } from './issue-tracker.ts';
 
 // ────────────────────────────────────────────────────────────────
 // Types
@@ -74,7 +74,7 @@ export async function listInitiatives(
 ): Promise<RankedInitiative[]> {
   const { projectName, maxDisplay = 9 } = options;
 
-  const initiatives = await getInitiatives();
+  const initiatives = await getIssueTracker().getInitiatives();
 
   // Filter by project if specified
   let filtered = initiatives;
@@ -10,6 +10,7 @@ import {
   formatForJudge,
   detectSessionRedirects,
   deduplicatePostPrAndManualEdits,
+  separateEnvironmentFixes,
   detectManualEdits,
   detectTestFixes,
   type InterventionSummary,
@@ -85,6 +86,7 @@ describe('intervention-detector', () => {
       assert.equal(DEFAULT_PENALTIES.post_pr_commit, 0.08);
       assert.equal(DEFAULT_PENALTIES.manual_edit, 0.10);
       assert.equal(DEFAULT_PENALTIES.test_fix, 0.06);
+      assert.equal(DEFAULT_PENALTIES.environment_fix, 0.02);
       assert.equal(DEFAULT_PENALTIES.session_redirect, 0.12);
     });
   });
@@ -488,6 +490,60 @@ describe('intervention-detector', () => {
     });
   });
 
+  describe('separateEnvironmentFixes', () => {
+    it('moves non-agent fixes to one environment_fix entry per commit', () => {
+      const testFix: InterventionEvent = {
+        type: 'test_fix',
+        count: 2,
+        details: ['aaa1111: fix flaky upload test', 'bbb2222: fix failing test for parser'],
+        timestamps: ['2026-02-20T10:00:00Z', '2026-02-20T11:00:00Z'],
+      };
+      const postPr: InterventionEvent = {
+        type: 'post_pr_commit',
+        count: 2,
+        details: ['aaa1111: fix flaky upload test', 'ccc3333: bump lockfile'],
+        timestamps: ['2026-02-20T10:00:00Z', '2026-02-20T12:00:00Z'],
+      };
+      const classified: string[] = [];
+
+      const environment = separateEnvironmentFixes([testFix, postPr], (sha) => {
+        classified.push(sha);
+        if (sha === 'aaa1111') return { cause: 'flaky-test', reason: '"upload" is in the flaky test registry' };
+        if (sha === 'ccc3333') return { cause: 'environment', reason: 'only changes package-lock.json' };
+        return { cause: 'agent', reason: '' };
+      });
+
+      assert.deepEqual(classified, ['aaa1111', 'bbb2222', 'ccc3333']);
+      assert.equal(environment.type, 'environment_fix');
+      assert.deepEqual(environment.details, [
+        'aaa1111: fix flaky upload test [flaky-test: "upload" is in the flaky test registry]',
+        'ccc3333: bump lockfile [environment: only changes package-lock.json]',
+      ]);
+      assert.deepEqual(environment.timestamps, ['2026-02-20T10:00:00Z', '2026-02-20T12:00:00Z']);
+      assert.deepEqual([testFix.count, testFix.details, testFix.timestamps], [
+        1, ['bbb2222: fix failing test for parser'], ['2026-02-20T11:00:00Z'],
+      ]);
+      assert.equal(postPr.count, 0);
+    });
+
+    it('drops timestamps rather than misalign them when some are missing', () => {
+      const testFix: InterventionEvent = {
+        type: 'test_fix',
+        count: 1,
+        details: ['aaa1111: fix flaky upload test'],
+        timestamps: ['2026-02-20T10:00:00Z'],
+      };
+      const postPr: InterventionEvent = { type: 'post_pr_commit', count: 1, details: ['ccc3333: bump lockfile'] };
+
+      const environment = separateEnvironmentFixes(
+        [testFix, postPr],
+        () => ({ cause: 'environment', reason: 'only changes package-lock.json' }),
+      );
+      assert.equal(environment.count, 2);
+      assert.equal(environment.timestamps, undefined);
+    });
+  });
+
   describe('score differentiation validation', () => {
     it('multi-intervention summary produces meaningfully higher penalty than zero', () => {
       // Scenario: 3 review comments + 2 post-PR commits = should produce >10% penalty
@@ -16,6 +16,9 @@ import { resolveProjectsDir } from './workflow-cost.ts';
 import { loadWavemillConfig } from './config.ts';
 import { escapeShellArg, execShellCommand } from './shell-utils.ts';
 import { loadReviewInterventions } from './review-intervention-mapper.ts';
+import { resolveOutcomeSource, type OutcomeSource } from './outcome-sources.ts';
+import { FlakyTestRegistry } from './flaky-registry.ts';
+import { classifyFixCommit, createFixEvidence, type FixClassification } from './failure-classifier.ts';
 import type {
   InterventionRecord,
   InterventionType,
@@ -41,7 +44,7 @@ export interface PrCommit {
 }
 
 export interface InterventionEvent {
-  type: 'review_comment' | 'post_pr_commit' | 'manual_edit' | 'test_fix' | 'session_redirect' | 'self_review_blocker' | 'self_review_warning';
+  type: 'review_comment' | 'post_pr_commit' | 'manual_edit' | 'test_fix' | 'environment_fix' | 'session_redirect' | 'self_review_blocker' | 'self_review_warning';
   count: number;
   details: string[];
   timestamps?: string[]; // ISO 8601 timestamps parallel to details array
@@ -57,6 +60,7 @@ export interface InterventionPenalties {
   post_pr_commit: number;
   manual_edit: number;
   test_fix: number;
+  environment_fix: number;
   session_redirect: number;
   self_review_blocker: number;
   self_review_warning: number;
@@ -75,6 +79,7 @@ export interface InterventionMeta {
 export const DEFAULT_PENALTIES: InterventionPenalties = {
   review_comment: 0.05,
   test_fix: 0.06,
+  environment_fix: 0.02,       // Flaky test or CI/config fix, not the agent's bug
   post_pr_commit: 0.08,
   manual_edit: 0.10,
   session_redirect: 0.12,
@@ -137,6 +142,7 @@ export function loadPenalties(repoDir?: string): InterventionPenalties {
     post_pr_commit: configured.postPrCommit ?? DEFAULT_PENALTIES.post_pr_commit,
     manual_edit: configured.manualEdit ?? DEFAULT_PENALTIES.manual_edit,
     test_fix: configured.testFix ?? DEFAULT_PENALTIES.test_fix,
+    environment_fix: configured.environmentFix ?? DEFAULT_PENALTIES.environment_fix,
     session_redirect: configured.sessionRedirect ?? DEFAULT_PENALTIES.session_redirect,
     self_review_blocker: configured.selfReviewBlocker ?? DEFAULT_PENALTIES.self_review_blocker,
     self_review_warning: configured.selfReviewWarning ?? DEFAULT_PENALTIES.self_review_warning,
@@ -544,6 +550,82 @@ export function deduplicatePostPrAndManualEdits(
   postPrEvent.count = postPrEvent.details.length;
 }
 
+/**
+ * Timestamps parallel to `details`, or undefined when any entry lacks one
+ * (a shorter array would pair timestamps with the wrong details).
+ */
+function alignedTimestamps(timestamps: Array<string | undefined>): string[] | undefined {
+  return timestamps.every((t): t is string => Boolean(t)) ? timestamps : undefined;
+}
+
+/**
+ * Move test_fix and post_pr_commit entries whose commit `classify` does not
+ * blame on the agent (flaky tests, CI hiccups, lockfile/config fixes) into
+ * a single environment_fix event, once per SHA prefix, with the reason
+ * appended to the detail.
+ *
+ * Mutates the test_fix and post_pr_commit events in place.
+ */
+export function separateEnvironmentFixes(
+  events: InterventionEvent[],
+  classify: (sha: string, detail: string) => FixClassification,
+): InterventionEvent {
+  const environmentEvent: InterventionEvent = { type: 'environment_fix', count: 0, details: [] };
+  const environmentTimestamps: Array<string | undefined> = [];
+  const classified = new Map<string, FixClassification>();
+
+  for (const event of events) {
+    if ((event.type !== 'test_fix' && event.type !== 'post_pr_commit') || event.count === 0) continue;
+
+    const details: string[] = [];
+    const timestamps: Array<string | undefined> = [];
+    event.details.forEach((detail, i) => {
+      const sha = detail.slice(0, 7);
+      let classification = classified.get(sha);
+      if (!classification) {
+        classification = classify(sha, detail);
+        classified.set(sha, classification);
+        if (classification.cause !== 'agent') {
+          environmentEvent.details.push(`${detail} [${classification.cause}: ${classification.reason}]`);
+          environmentTimestamps.push(event.timestamps?.[i]);
+        }
+      }
+      if (classification.cause === 'agent') {
+        details.push(detail);
+        timestamps.push(event.timestamps?.[i]);
+      }
+    });
+    event.details = details;
+    event.timestamps = alignedTimestamps(timestamps);
+    event.count = details.length;
+  }
+
+  environmentEvent.count = environmentEvent.details.length;
+  environmentEvent.timestamps = alignedTimestamps(environmentTimestamps);
+  return environmentEvent;
+}
+
+/**
+ * Classify a fix commit against local git history, CI re-runs from the
+ * outcome source and the repo's flaky test registry.
+ */
+function fixCommitClassifier(
+  repoDir: string,
+  prCommits: PrCommit[],
+  source?: OutcomeSource,
+): (sha: string, detail: string) => FixClassification {
+  const evidence = createFixEvidence(repoDir, source);
+  const registry = FlakyTestRegistry.forRepo(repoDir);
+  return (sha, detail) => {
+    const commit = prCommits.find((c) => c.sha.startsWith(sha));
+    return classifyFixCommit(
+      { sha: commit?.sha ?? sha, message: commit?.message ?? detail.slice(sha.length + 2) },
+      evidence,
+      registry,
+    );
+  };
+}
+
 // ────────────────────────────────────────────────────────────────
 // Aggregation
 // ────────────────────────────────────────────────────────────────
@@ -556,6 +638,8 @@ export interface DetectOptions {
   worktreePath?: string;
   agentType?: string;
   issueId?: string;
+  /** CI data for classifying fix commits (default: resolved from eval.outcomes) */
+  outcomeSource?: OutcomeSource;
 }
 
 /**
@@ -607,6 +691,29 @@ export function detectAllInterventions(
   interventions.push(postPrEvent);
   interventions.push(manualEditEvent);
 
+  // Fixes for flaky tests, CI hiccups and lockfile/config drift are not the
+  // agent's bugs: move them to environment_fix (lower penalty).
+  const fixCount = interventions
+    .filter((e) => e.type === 'test_fix' || e.type === 'post_pr_commit')
+    .reduce((sum, e) => sum + e.count, 0);
+  if (fixCount > 0) {
+    try {
+      const repoDir = opts.repoDir || process.cwd();
+      let source = opts.outcomeSource;
+      if (!source && opts.prNumber) {
+        try {
+          source = resolveOutcomeSource(repoDir, { nwo });
+        } catch {
+          // Classify without CI re-run data
+        }
+      }
+      interventions.push(separateEnvironmentFixes(interventions, fixCommitClassifier(repoDir, prCommits, source)));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.warn(`[intervention-detector] Failed to classify fix commits: ${message}`);
+    }
+  }
+
   // Session transcript detection (requires worktree path + branch).
   // Only applies to Claude — Codex autonomous mode has no user messages.
   if (opts.worktreePath && branch && (!opts.agentType || opts.agentType === 'claude')) {
@@ -702,6 +809,8 @@ function mapToInterventionType(detectionType: string, detail: string): Intervent
       return 'manual_merge';
     case 'test_fix':
       return 'bugfix';
+    case 'environment_fix':
+      return 'environment_fix';
     case 'session_redirect':
       // Could be scope_change or clarification
       // Default to scope_change for user redirections
@@ -12,7 +12,7 @@
  */
 
 import * as readline from 'readline/promises';
-import { getIssue, getLabels, addLabelsToIssue, getOrCreateLabel } from './linear.js';
+import { getIssueTracker } from './issue-tracker.ts';
 
 // ────────────────────────────────────────────────────────────────
 // Types
@@ -179,7 +179,8 @@ export async function autoLabelIssue(
   console.log(`🔍 Analyzing issue ${identifier}...\n`);
 
   // Fetch issue
-  const issue = await getIssue(identifier);
+  const tracker = getIssueTracker();
+  const issue = await tracker.getIssue(identifier);
   console.log(`📋 ${issue.title}`);
   console.log(`   State: ${issue.state.name}`);
   console.log(`   Project: ${issue.project?.name || 'None'}\n`);
@@ -197,9 +198,8 @@ export async function autoLabelIssue(
   console.log(`   Components: ${analysis.components.join(', ') || 'None'}`);
   console.log(`   Tests: ${analysis.tests.join(', ') || 'None'}\n`);
 
-  // Get available labels for this team
-  const availableLabels = await getLabels(issue.team.id);
-  const labelMap = new Map(availableLabels.map((l) => [l.name, l.id]));
+  // Get available labels for this issue
+  const availableLabels = new Set(await tracker.getAvailableLabels(issue));
 
   // Build label set
   const proposedLabels: string[] = [
@@ -216,51 +216,13 @@ export async function autoLabelIssue(
     proposedLabels.push(filesLabel);
   }
 
-  // Auto-create component labels if they don't exist
-  const createdLabels: string[] = [];
-  for (const componentLabel of analysis.components) {
-    if (!labelMap.has(componentLabel)) {
-      try {
-        console.log(`   🔨 Creating new component label: ${componentLabel}`);
-        const newLabel = await getOrCreateLabel(
-          componentLabel,
-          issue.team.id,
-          {
-            color: '#4A90E2',
-            description: 'Auto-detected component from file paths',
-          },
-          availableLabels // Pass labels cache (will be mutated to include new labels)
-        );
-        labelMap.set(componentLabel, newLabel.id);
-        createdLabels.push(componentLabel);
-      } catch (error) {
-        const message = error instanceof Error ? error.message : String(error);
-        console.warn(`   ⚠️  Failed to create label ${componentLabel}: ${message}`);
-      }
-    }
-  }
-
-  if (createdLabels.length > 0) {
-    console.log(`\n✨ Created ${createdLabels.length} new component label(s)\n`);
-  }
+  // Component labels are auto-created when applied; everything else must exist
+  const creatable = new Set(analysis.components);
+  const missing = proposedLabels.filter((l) => !availableLabels.has(l) && !creatable.has(l));
 
-  // Resolve label IDs
-  const labelIds: string[] = [];
-  const missing: string[] = [];
-
-  for (const labelName of proposedLabels) {
-    const id = labelMap.get(labelName);
-    if (id) {
-      labelIds.push(id);
-    } else {
-      missing.push(labelName);
-    }
-  }
-
-  // Get current labels (with IDs for merging)
-  const currentLabelNodes = issue.labels?.nodes || [];
-  const currentLabels = currentLabelNodes.map((l) => l.name);
-  const currentLabelIds = new Set(currentLabelNodes.map((l) => l.id));
+  // Get current labels
+  const currentLabels = (issue.labels?.nodes || []).map((l) => l.name);
+  const currentLabelSet = new Set(currentLabels);
 
   console.log('🏷️  Current labels:');
   if (currentLabels.length > 0) {
@@ -270,25 +232,18 @@ export async function autoLabelIssue(
   }
 
   // Filter out labels already on the issue
-  const newLabelNames: string[] = [];
-  const newLabelIds: string[] = [];
-  for (const labelName of proposedLabels) {
-    const id = labelMap.get(labelName);
-    if (id && !currentLabelIds.has(id)) {
-      newLabelNames.push(labelName);
-      newLabelIds.push(id);
-    }
-  }
+  const newLabelNames = proposedLabels.filter(
+    (l) => !currentLabelSet.has(l) && (availableLabels.has(l) || creatable.has(l))
+  );
 
   console.log('\n🎯 Proposed labels:');
   proposedLabels.forEach((l) => {
-    const id = labelMap.get(l);
-    const alreadyApplied = id && currentLabelIds.has(id);
-    const exists = labelMap.has(l);
-    if (alreadyApplied) {
+    if (currentLabelSet.has(l)) {
       console.log(`   ⏭️  ${l} (already applied)`);
+    } else if (creatable.has(l) && !availableLabels.has(l)) {
+      console.log(`   🔨 ${l} (new component label)`);
     } else {
-      console.log(`   ${exists ? '✅' : '❌'} ${l}`);
+      console.log(`   ${availableLabels.has(l) ? '✅' : '❌'} ${l}`);
     }
   });
 
@@ -303,7 +258,7 @@ export async function autoLabelIssue(
   }
 
   // Interactive confirmation
-  if (interactive && newLabelIds.length > 0) {
+  if (interactive && newLabelNames.length > 0) {
     const rl = readline.createInterface({
       input: process.stdin,
       output: process.stdout,
@@ -320,12 +275,18 @@ export async function autoLabelIssue(
   }
 
   // Merge new labels with existing ones
-  if (newLabelIds.length > 0) {
-    const mergedLabelIds = [...currentLabelIds, ...newLabelIds];
+  if (newLabelNames.length > 0) {
     console.log(
-      `\n📝 Applying ${newLabelIds.length} new label(s) (keeping ${currentLabelIds.size} existing)...`
+      `\n📝 Applying ${newLabelNames.length} new label(s) (keeping ${currentLabelSet.size} existing)...`
     );
-    await addLabelsToIssue(issue.id, mergedLabelIds);
+    const result = await tracker.addLabels(issue.identifier, newLabelNames, {
+      createMissing: true,
+      color: '#4A90E2',
+      description: 'Auto-detected component from file paths',
+    });
+    if (result.created.length > 0) {
+      console.log(`✨ Created ${result.created.length} new component label(s)`);
+    }
     console.log(`✅ Successfully labeled ${identifier}`);
   } else {
     console.log('\n✅ All proposed labels already applied — no changes needed');
@@ -0,0 +1,264 @@
+/**
+ * Tests for issue-tracker backends.
+ *
+ * The local JSONL backend is exercised end to end; Linear and GitHub need
+ * network/CLI access, so only their pure helpers and backend selection
+ * are covered here.
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync, readFileSync, mkdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  LocalIssueTracker,
+  getIssueTracker,
+  resolveTrackerBackend,
+  parseBodyRelations,
+  isBacklogState,
+  assertTrackerCredentials,
+  type LocalIssueRecord,
+} from './issue-tracker.ts';
+import { clearConfigCache } from './config.ts';
+
+let repoDir: string;
+
+function writeBacklog(records: LocalIssueRecord[]): void {
+  mkdirSync(join(repoDir, '.wavemill'), { recursive: true });
+  writeFileSync(
+    join(repoDir, '.wavemill', 'backlog.jsonl'),
+    records.map((r) => JSON.stringify(r)).join('\n') + '\n'
+  );
+}
+
+function readBacklog(): LocalIssueRecord[] {
+  return readFileSync(join(repoDir, '.wavemill', 'backlog.jsonl'), 'utf-8')
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => JSON.parse(line));
+}
+
+beforeEach(() => {
+  repoDir = mkdtempSync(join(tmpdir(), 'issue-tracker-test-'));
+  clearConfigCache();
+  delete process.env.WAVEMILL_TRACKER;
+});
+
+afterEach(() => {
+  rmSync(repoDir, { recursive: true, force: true });
+  clearConfigCache();
+  delete process.env.WAVEMILL_TRACKER;
+});
+
+describe('LocalIssueTracker', () => {
+  it('treats a missing file as an empty backlog', async () => {
+    const tracker = new LocalIssueTracker({ repoDir });
+    assert.deepEqual(await tracker.getBacklog(), []);
+  });
+
+  it('returns only Backlog/Todo issues in the Linear-compatible shape', async () => {
+    writeBacklog([
+      { identifier: 'LOCAL-1', title: 'Add login', state: 'Todo', labels: ['Area: Auth'], priority: 2 },
+      { identifier: 'LOCAL-2', title: 'Ship it', state: 'In Progress' },
+      { identifier: 'LOCAL-3', title: 'No state defaults to Backlog' },
+    ]);
+    const tracker = new LocalIssueTracker({ repoDir });
+
+    const backlog = await tracker.getBacklog();
+    assert.deepEqual(backlog.map((i) => i.identifier), ['LOCAL-1', 'LOCAL-3']);
+    assert.equal(backlog[0].state.name, 'Todo');
+    assert.deepEqual(backlog[0].labels.nodes.map((l) => l.name), ['Area: Auth']);
+    assert.equal(backlog[0].priority, 2);
+    assert.equal(backlog[1].state.name, 'Backlog');
+  });
+
+  it('filters by project when a project name is given', async () => {
+    writeBacklog([
+      { identifier: 'LOCAL-1', title: 'A', project: 'web' },
+      { identifier: 'LOCAL-2', title: 'B', project: 'api' },
+      { identifier: 'LOCAL-3', title: 'C', milestone: 'api' },
+    ]);
+    const tracker = new LocalIssueTracker({ repoDir });
+    const backlog = await tracker.getBacklog('api');
+    assert.deepEqual(backlog.map((i) => i.identifier), ['LOCAL-2', 'LOCAL-3']);
+  });
+
+  it('derives relations and inverse relations from blockedBy', async () => {
+    writeBacklog([
+      { identifier: 'LOCAL-1', title: 'Foundation' },
+      { identifier: 'LOCAL-2', title: 'Feature', blockedBy: ['LOCAL-1'] },
+    ]);
+    const tracker = new LocalIssueTracker({ repoDir });
+
+    const foundation = await tracker.getIssue('LOCAL-1');
+    assert.equal(foundation.relations?.nodes.length, 1);
+    assert.equal(foundation.relations?.nodes[0].type, 'blocks');
+    assert.equal(foundation.relations?.nodes[0].relatedIssue.identifier, 'LOCAL-2');
+
+    const feature = await tracker.getIssue('LOCAL-2');
+    assert.equal(feature.inverseRelations?.nodes[0].issue.identifier, 'LOCAL-1');
+    assert.equal(feature.inverseRelations?.nodes[0].issue.completedAt, null);
+  });
+
+  it('marks blockers as completed once they are Done', async () => {
+    writeBacklog([
+      { identifier: 'LOCAL-1', title: 'Foundation', state: 'Todo' },
+      { identifier: 'LOCAL-2', title: 'Feature', state: 'Todo', blockedBy: ['LOCAL-1'] },
+    ]);
+    const tracker = new LocalIssueTracker({ repoDir });
+
+    await tracker.setIssueState('LOCAL-1', 'Done');
+
+    const feature = await tracker.getIssue('LOCAL-2');
+    assert.ok(feature.inverseRelations?.nodes[0].issue.completedAt);
+    const state = await tracker.getIssueCompletionState('LOCAL-1');
+    assert.ok(state.completedAt);
+    assert.equal(state.canceledAt, null);
+  });
+
+  it('clears completion timestamps when an issue is reopened', async () => {
+    writeBacklog([{ identifier: 'LOCAL-1', title: 'A', state: 'Todo' }]);
+    const tracker = new LocalIssueTracker({ repoDir });
+
+    await tracker.setIssueState('LOCAL-1', 'Canceled');
+    assert.ok((await tracker.getIssueCompletionState('LOCAL-1')).canceledAt);
+
+    await tracker.setIssueState('LOCAL-1', 'Todo');
+    const state = await tracker.getIssueCompletionState('LOCAL-1');
+    assert.equal(state.completedAt, null);
+    assert.equal(state.canceledAt, null);
+  });
+
+  it('updates descriptions in place and keeps other records', async () => {
+    writeBacklog([
+      { identifier: 'LOCAL-1', title: 'A', description: 'old' },
+      { identifier: 'LOCAL-2', title: 'B' },
+    ]);
+    const tracker = new LocalIssueTracker({ repoDir });
+
+    const result = await tracker.updateIssueDescription('local-1', '## Objective\nnew');
+    assert.equal(result.success, true);
+    assert.equal(result.issue?.identifier, 'LOCAL-1');
+
+    const records = readBacklog();
+    assert.equal(records.length, 2);
+    assert.equal(records[0].description, '## Objective\nnew');
+    assert.ok(records[0].updatedAt);
+  });
+
+  it('throws for unknown identifiers', async () => {
+    writeBacklog([{ identifier: 'LOCAL-1', title: 'A' }]);
+    const tracker = new LocalIssueTracker({ repoDir });
+    await assert.rejects(() => tracker.getIssue('LOCAL-99'), /Issue not found: LOCAL-99/);
+  });
+
+  it('reports the line number of malformed records', async () => {
+    mkdirSync(join(repoDir, '.wavemill'), { recursive: true });
+    writeFileSync(join(repoDir, '.wavemill', 'backlog.jsonl'), '{"identifier":"LOCAL-1","title":"A"}\n{oops\n');
+    const tracker = new LocalIssueTracker({ repoDir });
+    await assert.rejects(() => tracker.getBacklog(), /line 2/);
+  });
+
+  it('creates issues with the next identifier and records relations', async () => {
+    writeBacklog([{ identifier: 'LOCAL-7', title: 'Existing' }]);
+    const tracker = new LocalIssueTracker({ repoDir });
+
+    const first = await tracker.createIssue({ title: 'First', description: 'd1', priority: 2, projectMilestoneId: 'Phase 1' });
+    const second = await tracker.createIssue({ title: 'Second', description: 'd2' });
+    assert.equal(first.identifier, 'LOCAL-8');
+    assert.equal(second.identifier, 'LOCAL-9');
+
+    assert.equal(await tracker.createIssueRelation(first.id, second.id, 'blocks'), true);
+    assert.equal(await tracker.createIssueRelation(first.id, second.id, 'related'), false);
+
+    const records = readBacklog();
+    assert.equal(records.find((r) => r.identifier === 'LOCAL-8')?.milestone, 'Phase 1');
+    assert.deepEqual(records.find((r) => r.identifier === 'LOCAL-9')?.blockedBy, ['LOCAL-8']);
+  });
+
+  it('only creates unknown labels when asked to', async () => {
+    writeBacklog([
+      { identifier: 'LOCAL-1', title: 'A', labels: ['Bug'] },
+      { identifier: 'LOCAL-2', title: 'B', labels: ['Risk: Low'] },
+    ]);
+    const tracker = new LocalIssueTracker({ repoDir });
+
+    const skipped = await tracker.addLabels('LOCAL-1', ['Risk: Low', 'Component: Auth']);
+    assert.deepEqual(skipped.added, ['Risk: Low']);
+    assert.deepEqual(skipped.missing, ['Component: Auth']);
+
+    const created = await tracker.addLabels('LOCAL-1', ['Bug', 'Component: Auth'], { createMissing: true });
+    assert.deepEqual(created.added, ['Component: Auth']);
+    assert.deepEqual(created.created, ['Component: Auth']);
+
+    const issue = await tracker.getIssue('LOCAL-1');
+    assert.deepEqual(issue.labels.nodes.map((l) => l.name), ['Bug', 'Risk: Low', 'Component: Auth']);
+  });
+
+  it('honours a custom path and identifier prefix', async () => {
+    const tracker = new LocalIssueTracker({ repoDir, path: 'issues.jsonl', identifierPrefix: 'OFF' });
+    const created = await tracker.createIssue({ title: 'A', description: '' });
+    assert.equal(created.identifier, 'OFF-1');
+    assert.equal(tracker.filePath, join(repoDir, 'issues.jsonl'));
+  });
+});
+
+describe('parseBodyRelations', () => {
+  it('parses blocked-by and blocks lines', () => {
+    const body = 'Some text\n\nBlocked by #12, #14\n- Blocks GH-20\n**Depends on:** LOCAL-3';
+    const rel = parseBodyRelations(body);
+    assert.deepEqual(rel.blockedBy.sort(), [12, 14, 3].sort());
+    assert.deepEqual(rel.blocks, [20]);
+  });
+
+  it('returns empty lists for bodies without relations', () => {
+    assert.deepEqual(parseBodyRelations(null), { blockedBy: [], blocks: [] });
+    assert.deepEqual(parseBodyRelations('Fixes #12 in passing'), { blockedBy: [], blocks: [] });
+  });
+});
+
+describe('isBacklogState', () => {
+  it('accepts Backlog and Todo case-insensitively', () => {
+    assert.equal(isBacklogState('Backlog'), true);
+    assert.equal(isBacklogState('todo'), true);
+    assert.equal(isBacklogState('In Progress'), false);
+    assert.equal(isBacklogState(undefined), false);
+  });
+});
+
+describe('backend selection', () => {
+  it('defaults to linear', () => {
+    assert.equal(resolveTrackerBackend({}), 'linear');
+    assert.equal(getIssueTracker(repoDir).backend, 'linear');
+  });
+
+  it('reads tracker.backend from .wavemill-config.json', () => {
+    writeFileSync(join(repoDir, '.wavemill-config.json'), JSON.stringify({ tracker: { backend: 'local' } }));
+    const tracker = getIssueTracker(repoDir);
+    assert.equal(tracker.backend, 'local');
+    assert.equal((tracker as LocalIssueTracker).filePath, join(repoDir, '.wavemill', 'backlog.jsonl'));
+  });
+
+  it('lets WAVEMILL_TRACKER override the config', () => {
+    writeFileSync(join(repoDir, '.wavemill-config.json'), JSON.stringify({ tracker: { backend: 'local' } }));
+    process.env.WAVEMILL_TRACKER = 'github';
+    assert.equal(getIssueTracker(repoDir).backend, 'github');
+  });
+
+  it('rejects unknown backends', () => {
+    process.env.WAVEMILL_TRACKER = 'jira';
+    assert.throws(() => resolveTrackerBackend({}), /Unknown issue tracker backend: jira/);
+  });
+
+  it('requires LINEAR_API_KEY only for the linear backend', () => {
+    const saved = process.env.LINEAR_API_KEY;
+    delete process.env.LINEAR_API_KEY;
+    try {
+      assert.throws(() => assertTrackerCredentials(getIssueTracker(repoDir)), /LINEAR_API_KEY/);
+      assert.doesNotThrow(() => assertTrackerCredentials(new LocalIssueTracker({ repoDir })));
+    } finally {
+      if (saved !== undefined) process.env.LINEAR_API_KEY = saved;
+    }
+  });
+});
@@ -0,0 +1,1103 @@
+/**
+ * Issue tracker backends — pluggable source of truth for the backlog.
+ *
+ * Wavemill was originally hard-wired to Linear. This module defines an
+ * IssueTracker interface and three implementations:
+ *
+ * - LinearIssueTracker: thin wrapper over ./linear.js (default)
+ * - GitHubIssueTracker: GitHub Issues via the `gh` CLI
+ * - LocalIssueTracker: a JSONL file in the repo, for offline runs and tests
+ *
+ * Every backend returns issues in the Linear-compatible shape the mill's
+ * jq scoring and the tools already consume (`state.name`, `labels.nodes`,
+ * `relations.nodes`, `inverseRelations.nodes`, ...), so callers do not
+ * need to know which tracker is active. The backend is selected with
+ * `tracker.backend` in .wavemill-config.json or the WAVEMILL_TRACKER env var.
+ *
+ * @module issue-tracker
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync, renameSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import {
+  getBacklog as linearGetBacklog,
+  getBacklogForScoring as linearGetBacklogForScoring,
+  getIssue as linearGetIssue,
+  getIssueCompletionState as linearGetIssueCompletionState,
+  getIssueBasic as linearGetIssueBasic,
+  getIssueForLabeling as linearGetIssueForLabeling,
+  setIssueState as linearSetIssueState,
+  updateIssue as linearUpdateIssue,
+  createIssue as linearCreateIssue,
+  createIssueRelation as linearCreateIssueRelation,
+  getOrCreateProjectMilestone as linearGetOrCreateProjectMilestone,
+  getLabels as linearGetLabels,
+  getOrCreateLabel as linearGetOrCreateLabel,
+  addLabelsToIssue as linearAddLabelsToIssue,
+  getInitiatives as linearGetInitiatives,
+  getInitiative as linearGetInitiative,
+  getProjects as linearGetProjects,
+  getTeams as linearGetTeams,
+} from './linear.js';
+import { getTrackerConfig, type TrackerConfig } from './config.ts';
+import { execShellCommand, escapeShellArg } from './shell-utils.ts';
+
+// ────────────────────────────────────────────────────────────────
+// Common types
+// ────────────────────────────────────────────────────────────────
+
+/** Supported tracker backends. */
+export type IssueTrackerBackend = 'linear' | 'github' | 'local';
+
+export const SUPPORTED_TRACKER_BACKENDS: IssueTrackerBackend[] = ['linear', 'github', 'local'];
+
+/** Workflow states that mark an issue as finished. */
+const COMPLETED_STATES = ['done', 'completed', 'merged'];
+const CANCELED_STATES = ['canceled', 'cancelled', "won't do", 'duplicate'];
+
+/** States the mill treats as "ready to pick up". */
+const BACKLOG_STATES = ['backlog', 'todo'];
+
+export interface TrackerLabel {
+  id?: string;
+  name: string;
+}
+
+/** Minimal reference to another issue, used in relations. */
+export interface TrackerIssueRef {
+  id: string;
+  identifier: string;
+  completedAt: string | null;
+  canceledAt: string | null;
+}
+
+export interface TrackerRelation {
+  type: string;
+  relatedIssue: TrackerIssueRef;
+}
+
+export interface TrackerInverseRelation {
+  type: string;
+  issue: TrackerIssueRef;
+}
+
+export interface TrackerComment {
+  body: string;
+  user?: { name: string } | null;
+  createdAt: string;
+}
+
+/** An issue in the Linear-compatible shape shared by all backends. */
+export interface TrackerIssue {
+  id: string;
+  identifier: string;
+  title: string;
+  description: string | null;
+  state: { name: string; id?: string };
+  labels: { nodes: TrackerLabel[] };
+  priority?: number;
+  estimate?: number | null;
+  project?: { id: string; name: string } | null;
+  team?: { id: string; name?: string; key?: string } | null;
+  parent?: { id: string; identifier: string; title: string } | null;
+  children?: { nodes: TrackerIssue[] };
+  relations?: { nodes: TrackerRelation[] };
+  inverseRelations?: { nodes: TrackerInverseRelation[] };
+  comments?: { nodes: TrackerComment[] };
+  url?: string;
+  completedAt?: string | null;
+  canceledAt?: string | null;
+}
+
+export interface IssueUpdateResult {
+  success: boolean;
+  issue?: { id: string; identifier: string; url?: string };
+}
+
+export interface CreateIssueParams {
+  title: string;
+  description: string;
+  teamId?: string;
+  projectId?: string;
+  parentId?: string;
+  priority?: number;
+  estimate?: number;
+  projectMilestoneId?: string;
+  labels?: string[];
+}
+
+export interface CreatedIssue {
+  id: string;
+  identifier: string;
+  title: string;
+  url: string;
+}
+
+export interface AddLabelsOptions {
+  /** Create labels that do not exist yet (default: false — missing labels are skipped). */
+  createMissing?: boolean;
+  color?: string;
+  description?: string;
+}
+
+export interface AddLabelsResult {
+  /** Labels newly attached to the issue. */
+  added: string[];
+  /** Labels that had to be created first. */
+  created: string[];
+  /** Labels skipped because they do not exist and createMissing was false. */
+  missing: string[];
+}
+
+/** A label to set up in the tracker, e.g. from `tools/init-labels.ts`. */
+export interface LabelDefinition {
+  name: string;
+  color?: string;
+  description?: string;
+}
+
+export interface EnsureLabelsResult {
+  created: string[];
+  /** Labels that were already there. */
+  existing: string[];
+}
+
+/** Named container (project, team) in the tracker. */
+export interface TrackerContainer {
+  id: string;
+  name: string;
+  key?: string;
+  [extra: string]: unknown;
+}
+
+/**
+ * An issue tracker backend.
+ *
+ * Identifiers are always `<PREFIX>-<number>` strings so they fit the
+ * branch/slug conventions the mill derives from Linear identifiers.
+ */
+export interface IssueTracker {
+  readonly backend: IssueTrackerBackend;
+
+  /** Open issues in Backlog/Todo (optionally scoped to a project). */
+  getBacklog(projectName?: string | null): Promise<TrackerIssue[]>;
+  /** Like getBacklog, but backends may omit fields the mill's scoring does not use. */
+  getBacklogForScoring(projectName?: string | null): Promise<TrackerIssue[]>;
+  getIssue(identifier: string): Promise<TrackerIssue>;
+  /** Lightweight lookup used when polling whether an issue has been closed. */
+  getIssueCompletionState(identifier: string): Promise<Pick<TrackerIssue, 'id' | 'completedAt' | 'canceledAt'>>;
+  setIssueState(identifier: string, stateName: string): Promise<IssueUpdateResult>;
+  updateIssueDescription(identifier: string, description: string): Promise<IssueUpdateResult>;
+
+  createIssue(params: CreateIssueParams): Promise<CreatedIssue>;
+  /** Record that `issueId` has a relation of `type` to `relatedIssueId` (e.g. issueId blocks relatedIssueId). */
+  createIssueRelation(issueId: string, relatedIssueId: string, type: string): Promise<boolean>;
+  getOrCreateProjectMilestone(projectId: string, milestoneName: string): Promise<string | undefined>;
+
+  /** Label names that can be applied to the given issue. */
+  getAvailableLabels(issue: TrackerIssue): Promise<string[]>;
+  addLabels(identifier: string, labelNames: string[], options?: AddLabelsOptions): Promise<AddLabelsResult>;
+  /** Create the labels a team doesn't have yet (team ids come from getTeams). */
+  ensureLabels(labels: LabelDefinition[], teamId: string): Promise<EnsureLabelsResult>;
+
+  getProjects(): Promise<TrackerContainer[]>;
+  getTeams(): Promise<TrackerContainer[]>;
+  getInitiatives(statusFilter?: string[]): Promise<any[]>;
+  getInitiative(initiativeId: string): Promise<any | null>;
+}
+
+// ────────────────────────────────────────────────────────────────
+// Shared helpers
+// ────────────────────────────────────────────────────────────────
+
+function isCompletedState(stateName: string): boolean {
+  return COMPLETED_STATES.includes(stateName.toLowerCase());
+}
+
+function isCanceledState(stateName: string): boolean {
+  return CANCELED_STATES.includes(stateName.toLowerCase());
+}
+
+/**
+ * Check whether an issue is in a state the mill may pick up.
+ */
+export function isBacklogState(stateName: string | undefined): boolean {
+  return BACKLOG_STATES.includes((stateName || '').toLowerCase());
+}
+
+/**
+ * Parse "<PREFIX>-<number>", "#<number>" or a bare number into its number part.
+ */
+function parseIssueNumber(identifier: string): number {
+  const match = identifier.trim().match(/^(?:[A-Za-z]+-|#)?(\d+)$/);
+  if (!match) {
+    throw new Error(`Invalid issue identifier: ${identifier}. Expected format: ABC-123`);
+  }
+  return parseInt(match[1], 10);
+}
+
+/**
+ * Extract dependency references from an issue body.
+ *
+ * Recognizes lines such as "Blocked by #12", "Blocked by GH-12, GH-14"
+ * and "Blocks LOCAL-3" (case-insensitive). GitHub has no native
+ * blocking relation, so this is how GitHubIssueTracker persists them.
+ *
+ * @returns Issue numbers this issue is blocked by, and issue numbers it blocks
+ */
+export function parseBodyRelations(body: string | null | undefined): { blockedBy: number[]; blocks: number[] } {
+  const blockedBy = new Set<number>();
+  const blocks = new Set<number>();
+  const refPattern = /(?:#|[A-Za-z]+-)(\d+)/g;
+
+  for (const line of (body || '').split('\n')) {
+    const match = line.match(/^\s*(?:[-*]\s*)?\**(blocked by|depends on|blocks)\**\s*:?\s*(.+)$/i);
+    if (!match) continue;
+
+    const target = match[1].toLowerCase() === 'blocks' ? blocks : blockedBy;
+    for (const ref of match[2].matchAll(refPattern)) {
+      target.add(parseInt(ref[1], 10));
+    }
+  }
+
+  return { blockedBy: [...blockedBy], blocks: [...blocks] };
+}
+
+// ────────────────────────────────────────────────────────────────
+// Linear backend
+// ────────────────────────────────────────────────────────────────
+
+/**
+ * Linear backend. Delegates to the GraphQL client in ./linear.js, which
+ * already returns issues in the shared shape.
+ */
+export class LinearIssueTracker implements IssueTracker {
+  readonly backend = 'linear' as const;
+
+  async getBacklog(projectName?: string | null): Promise<TrackerIssue[]> {
+    return linearGetBacklog(projectName || null);
+  }
+
+  async getBacklogForScoring(projectName?: string | null): Promise<TrackerIssue[]> {
+    return linearGetBacklogForScoring(projectName || null);
+  }
+
+  async getIssue(identifier: string): Promise<TrackerIssue> {
+    return linearGetIssue(identifier);
+  }
+
+  async getIssueCompletionState(identifier: string): Promise<Pick<TrackerIssue, 'id' | 'completedAt' | 'canceledAt'>> {
+    return linearGetIssueCompletionState(identifier);
+  }
+
+  async setIssueState(identifier: string, stateName: string): Promise<IssueUpdateResult> {
+    return linearSetIssueState(identifier, stateName);
+  }
+
+  async updateIssueDescription(identifier: string, description: string): Promise<IssueUpdateResult> {
+    const issue = await linearGetIssueBasic(identifier);
+    return linearUpdateIssue(issue.id, { description });
+  }
+
+  async createIssue(params: CreateIssueParams): Promise<CreatedIssue> {
+    if (!params.teamId) {
+      throw new Error('Linear issues require a teamId');
+    }
+    return linearCreateIssue(params);
+  }
+
+  async createIssueRelation(issueId: string, relatedIssueId: string, type: string): Promise<boolean> {
+    return linearCreateIssueRelation(issueId, relatedIssueId, type);
+  }
+
+  async getOrCreateProjectMilestone(projectId: string, milestoneName: string): Promise<string | undefined> {
+    return linearGetOrCreateProjectMilestone(projectId, milestoneName);
+  }
+
+  async getAvailableLabels(issue: TrackerIssue): Promise<string[]> {
+    const labels = await linearGetLabels(issue.team?.id);
+    return labels.map((l: TrackerLabel) => l.name);
+  }
+
+  async addLabels(identifier: string, labelNames: string[], options: AddLabelsOptions = {}): Promise<AddLabelsResult> {
+    const result: AddLabelsResult = { added: [], created: [], missing: [] };
+    const issue = await linearGetIssueForLabeling(identifier);
+    const available: TrackerLabel[] = await linearGetLabels(issue.team.id);
+    const currentIds = new Set<string>(issue.labels.nodes.map((l: TrackerLabel) => l.id));
+    const newIds: string[] = [];
+
+    for (const name of labelNames) {
+      let label = available.find((l) => l.name === name);
+      if (!label) {
+        if (!options.createMissing) {
+          result.missing.push(name);
+          continue;
+        }
+        label = await linearGetOrCreateLabel(
+          name,
+          issue.team.id,
+          { color: options.color, description: options.description },
+          available
+        ) as TrackerLabel | undefined;
+        if (!label) {
+          result.missing.push(name);
+          continue;
+        }
+        result.created.push(name);
+      }
+      if (label.id && !currentIds.has(label.id)) {
+        newIds.push(label.id);
+        currentIds.add(label.id);
+        result.added.push(name);
+      }
+    }
+
+    if (newIds.length > 0) {
+      await linearAddLabelsToIssue(issue.id, [...currentIds]);
+    }
+    return result;
+  }
+
+  async ensureLabels(labels: LabelDefinition[], teamId: string): Promise<EnsureLabelsResult> {
+    const result: EnsureLabelsResult = { created: [], existing: [] };
+    const available: TrackerLabel[] = await linearGetLabels(teamId);
+    for (const label of labels) {
+      if (available.some((l) => l.name === label.name)) {
+        result.existing.push(label.name);
+        continue;
+      }
+      const created = await linearGetOrCreateLabel(
+        label.name,
+        teamId,
+        { color: label.color, description: label.description },
+        available
+      );
+      if (created) result.created.push(label.name);
+    }
+    return result;
+  }
+
+  async getProjects(): Promise<TrackerContainer[]> {
+    return linearGetProjects();
+  }
+
+  async getTeams(): Promise<TrackerContainer[]> {
+    return linearGetTeams();
+  }
+
+  async getInitiatives(statusFilter?: string[]): Promise<any[]> {
+    return linearGetInitiatives(statusFilter);
+  }
+
+  async getInitiative(initiativeId: string): Promise<any | null> {
+    return linearGetInitiative(initiativeId);
+  }
+}
+
+// ────────────────────────────────────────────────────────────────
+// GitHub backend
+// ────────────────────────────────────────────────────────────────
+
+/** Label prefix used to carry non-terminal workflow states on open issues. */
+const GITHUB_STATE_LABEL_PREFIX = 'status: ';
+const GITHUB_PRIORITY_LABELS: Record<number, string> = {
+  1: 'priority: urgent',
+  2: 'priority: high',
+  3: 'priority: medium',
+  4: 'priority: low',
+};
+
+interface GhIssue {
+  number: number;
+  title: string;
+  body: string | null;
+  state: 'OPEN' | 'CLOSED';
+  stateReason?: string | null;
+  labels: { name: string }[];
+  milestone?: { number?: number; title: string } | null;
+  url: string;
+  closedAt?: string | null;
+  comments?: { body: string; author?: { login: string } | null; createdAt: string }[];
+}
+
+const GH_ISSUE_FIELDS = 'number,title,body,state,stateReason,labels,milestone,url,closedAt';
+
+/**
+ * GitHub Issues backend, driven through the `gh` CLI.
+ *
+ * Mapping onto the Linear model:
+ * - Workflow state: closed issues are Done (or Canceled when closed as
+ *   "not planned"); open issues use a `status: <State>` label, defaulting
+ *   to Backlog when none is present.
+ * - Priority: `priority: urgent|high|medium|low` labels.
+ * - Dependencies: "Blocked by #N" / "Blocks #N" lines in the issue body.
+ * - Projects: the repository itself; milestones map to GitHub milestones.
+ * - Initiatives are not supported and always come back empty.
+ */
+export class GitHubIssueTracker implements IssueTracker {
+  readonly backend = 'github' as const;
+  private readonly repo?: string;
+  private readonly label?: string;
+  private readonly prefix: string;
+  private readonly cwd: string;
+
+  constructor(options: { repo?: string; label?: string; identifierPrefix?: string; cwd?: string } = {}) {
+    this.repo = options.repo;
+    this.label = options.label;
+    this.prefix = options.identifierPrefix || 'GH';
+    this.cwd = options.cwd || process.cwd();
+  }
+
+  private gh(args: string, input?: string): string {
+    const repoFlag = this.repo ? ` --repo ${escapeShellArg(this.repo)}` : '';
+    return execShellCommand(`gh ${args}${repoFlag}`, {
+      encoding: 'utf-8',
+      cwd: this.cwd,
+      input,
+      stdio: ['pipe', 'pipe', 'pipe'],
+    }) as string;
+  }
+
+  private ghApi(path: string, extraArgs = ''): string {
+    const repoPath = this.repo || '{owner}/{repo}';
+    return execShellCommand(`gh api ${escapeShellArg(`repos/${repoPath}/${path}`)}${extraArgs}`, {
+      encoding: 'utf-8',
+      cwd: this.cwd,
+      stdio: ['pipe', 'pipe', 'pipe'],
+    }) as string;
+  }
+
+  private toIdentifier(num: number): string {
+    return `${this.prefix}-${num}`;
+  }
+
+  private fetchOpenIssues(search?: string): GhIssue[] {
+    const labelFlag = this.label ? ` --label ${escapeShellArg(this.label)}` : '';
+    const searchFlag = search ? ` --search ${escapeShellArg(search)}` : '';
+    const output = this.gh(`issue list --state open --limit 1000${labelFlag}${searchFlag} --json ${GH_ISSUE_FIELDS}`);
+    return JSON.parse(output || '[]');
+  }
+
+  private fetchIssue(num: number, withComments = false): GhIssue {
+    const fields = withComments ? `${GH_ISSUE_FIELDS},comments` : GH_ISSUE_FIELDS;
+    return JSON.parse(this.gh(`issue view ${num} --json ${fields}`));
+  }
+
+  /**
+   * Index `issues` by number, adding the issues their bodies reference as
+   * blockers or blocked (closed ones included) so relations get real states.
+   * References that can't be viewed are left out.
+   */
+  private withReferences(issues: GhIssue[]): Map<number, GhIssue> {
+    const known = new Map(issues.map((i) => [i.number, i]));
+    for (const issue of issues) {
+      const { blockedBy, blocks } = parseBodyRelations(issue.body);
+      for (const num of [...blockedBy, ...blocks]) {
+        if (known.has(num)) continue;
+        try {
+          known.set(num, this.fetchIssue(num));
+        } catch {
+          // Deleted, transferred or in another repository
+        }
+      }
+    }
+    return known;
+  }
+
+  private stateOf(issue: GhIssue): string {
+    if (issue.state === 'CLOSED') {
+      return issue.stateReason === 'NOT_PLANNED' ? 'Canceled' : 'Done';
+    }
+    const stateLabel = issue.labels.find((l) => l.name.toLowerCase().startsWith(GITHUB_STATE_LABEL_PREFIX));
+    return stateLabel ? stateLabel.name.slice(GITHUB_STATE_LABEL_PREFIX.length) : 'Backlog';
+  }
+
+  private ref(num: number, known: Map<number, GhIssue>): TrackerIssueRef {
+    const issue = known.get(num);
+    const state = issue ? this.stateOf(issue) : 'Backlog';
+    return {
+      id: String(num),
+      identifier: this.toIdentifier(num),
+      completedAt: state === 'Done' ? issue?.closedAt || null : null,
+      canceledAt: state === 'Canceled' ? issue?.closedAt || null : null,
+    };
+  }
+
+  private normalize(issue: GhIssue, known: Map<number, GhIssue>): TrackerIssue {
+    const state = this.stateOf(issue);
+    const priorityEntry = Object.entries(GITHUB_PRIORITY_LABELS)
+      .find(([, name]) => issue.labels.some((l) => l.name.toLowerCase() === name));
+    const { blockedBy, blocks } = parseBodyRelations(issue.body);
+
+    // Inverse direction: other issues that declare "Blocks #this"
+    for (const other of known.values()) {
+      if (other.number === issue.number) continue;
+      const rel = parseBodyRelations(other.body);
+      if (rel.blocks.includes(issue.number) && !blockedBy.includes(other.number)) blockedBy.push(other.number);
+      if (rel.blockedBy.includes(issue.number) && !blocks.includes(other.number)) blocks.push(other.number);
+    }
+
+    return {
+      id: String(issue.number),
+      identifier: this.toIdentifier(issue.number),
+      title: issue.title,
+      description: issue.body,
+      state: { name: state },
+      labels: {
+        nodes: issue.labels
+          .filter((l) => !l.name.toLowerCase().startsWith(GITHUB_STATE_LABEL_PREFIX))
+          .map((l) => ({ id: l.name, name: l.name })),
+      },
+      priority: priorityEntry ? Number(priorityEntry[0]) : 0,
+      estimate: null,
+      project: issue.milestone ? { id: issue.milestone.title, name: issue.milestone.title } : null,
+      team: { id: this.repo || 'github', key: this.prefix },
+      relations: { nodes: blocks.map((n) => ({ type: 'blocks', relatedIssue: this.ref(n, known) })) },
+      inverseRelations: { nodes: blockedBy.map((n) => ({ type: 'blocks', issue: this.ref(n, known) })) },
+      comments: {
+        nodes: (issue.comments || []).map((c) => ({
+          body: c.body,
+          user: c.author ? { name: c.author.login } : null,
+          createdAt: c.createdAt,
+        })),
+      },
+      url: issue.url,
+      completedAt: state === 'Done' ? issue.closedAt || null : null,
+      canceledAt: state === 'Canceled' ? issue.closedAt || null : null,
+    };
+  }
+
+  private ensureLabel(name: string, options: AddLabelsOptions = {}): void {
+    const color = (options.color || '#ededed').replace(/^#/, '');
+    const desc = options.description ? ` --description ${escapeShellArg(options.description)}` : '';
+    this.gh(`label create ${escapeShellArg(name)} --color ${escapeShellArg(color)}${desc} --force`);
+  }
+
+  async getBacklog(projectName?: string | null): Promise<TrackerIssue[]> {
+    const open = this.fetchOpenIssues();
+    const known = this.withReferences(open);
+    return open
+      .filter((i) => !projectName || i.milestone?.title === projectName)
+      .map((i) => this.normalize(i, known))
+      .filter((i) => isBacklogState(i.state.name));
+  }
+
+  async getBacklogForScoring(projectName?: string | null): Promise<TrackerIssue[]> {
+    return this.getBacklog(projectName);
+  }
+
+  async getIssue(identifier: string): Promise<TrackerIssue> {
+    const num = parseIssueNumber(identifier);
+    const issue = this.fetchIssue(num, true);
+    // Open issues mentioning this one may declare it blocked; normalize() checks the bodies
+    const known = this.withReferences([issue]);
+    for (const other of this.fetchOpenIssues(`${num} in:body`)) known.set(other.number, other);
+    return this.normalize(issue, known);
+  }
+
+  async getIssueCompletionState(identifier: string): Promise<Pick<TrackerIssue, 'id' | 'completedAt' | 'canceledAt'>> {
+    const num = parseIssueNumber(identifier);
+    const issue = this.fetchIssue(num);
+    const state = this.stateOf(issue);
+    return {
+      id: String(num),
+      completedAt: state === 'Done' ? issue.closedAt || null : null,
+      canceledAt: state === 'Canceled' ? issue.closedAt || null : null,
+    };
+  }
+
+  async setIssueState(identifier: string, stateName: string): Promise<IssueUpdateResult> {
+    const num = parseIssueNumber(identifier);
+    const issue = this.fetchIssue(num);
+
+    if (isCompletedState(stateName) || isCanceledState(stateName)) {
+      if (issue.state !== 'CLOSED') {
+        const reason = isCanceledState(stateName) ? 'not planned' : 'completed';
+        this.gh(`issue close ${num} --reason ${escapeShellArg(reason)}`);
+      }
+    } else {
+      if (issue.state === 'CLOSED') {
+        this.gh(`issue reopen ${num}`);
+      }
+      const stale = issue.labels
+        .map((l) => l.name)
+        .filter((name) => name.toLowerCase().startsWith(GITHUB_STATE_LABEL_PREFIX));
+      const target = `${GITHUB_STATE_LABEL_PREFIX}${stateName}`;
+      this.ensureLabel(target);
+      const removeFlags = stale
+        .filter((name) => name !== target)
+        .map((name) => ` --remove-label ${escapeShellArg(name)}`)
+        .join('');
+      this.gh(`issue edit ${num} --add-label ${escapeShellArg(target)}${removeFlags}`);
+    }
+
+    return { success: true, issue: { id: String(num), identifier: this.toIdentifier(num), url: issue.url } };
+  }
+
+  async updateIssueDescription(identifier: string, description: string): Promise<IssueUpdateResult> {
+    const num = parseIssueNumber(identifier);
+    this.gh(`issue edit ${num} --body-file -`, description);
+    const issue = this.fetchIssue(num);
+    return { success: true, issue: { id: String(num), identifier: this.toIdentifier(num), url: issue.url } };
+  }
+
+  async createIssue(params: CreateIssueParams): Promise<CreatedIssue> {
+    const labels = [...(params.labels || [])];
+    if (params.priority && GITHUB_PRIORITY_LABELS[params.priority]) {
+      labels.push(GITHUB_PRIORITY_LABELS[params.priority]);
+    }
+    for (const name of labels) {
+      this.ensureLabel(name);
+    }
+
+    let args = `issue create --title ${escapeShellArg(params.title)} --body-file -`;
+    if (params.projectMilestoneId) args += ` --milestone ${escapeShellArg(params.projectMilestoneId)}`;
+    for (const name of labels) args += ` --label ${escapeShellArg(name)}`;
+
+    let body = params.description;
+    if (params.parentId) {
+      body += `\n\nParent: #${parseIssueNumber(params.parentId)}`;
+    }
+
+    const url = this.gh(args, body).trim().split('\n').pop() || '';
+    const num = parseInt(url.match(/\/issues\/(\d+)/)?.[1] || '', 10);
+    if (!num) {
+      throw new Error(`Could not parse created issue URL from gh output: ${url}`);
+    }
+    return { id: String(num), identifier: this.toIdentifier(num), title: params.title, url };
+  }
+
+  async createIssueRelation(issueId: string, relatedIssueId: string, type: string): Promise<boolean> {
+    if (type !== 'blocks') {
+      return false;
+    }
+    // issueId blocks relatedIssueId → record on the blocked issue
+    const blockerNum = parseIssueNumber(issueId);
+    const blockedNum = parseIssueNumber(relatedIssueId);
+    const blocked = this.fetchIssue(blockedNum);
+    if (parseBodyRelations(blocked.body).blockedBy.includes(blockerNum)) {
+      return true;
+    }
+    const body = `${(blocked.body || '').trimEnd()}\n\nBlocked by #${blockerNum}\n`;
+    this.gh(`issue edit ${blockedNum} --body-file -`, body);
+    return true;
+  }
+
+  async getOrCreateProjectMilestone(_projectId: string, milestoneName: string): Promise<string | undefined> {
+    const milestones: { title: string }[] = JSON.parse(this.ghApi('milestones?state=all&per_page=100') || '[]');
+    if (!milestones.some((m) => m.title === milestoneName)) {
+      this.ghApi('milestones', ` -X POST -f title=${escapeShellArg(milestoneName)}`);
+    }
+    // gh issue create --milestone takes the title
+    return milestoneName;
+  }
+
+  async getAvailableLabels(_issue: TrackerIssue): Promise<string[]> {
+    const labels: { name: string }[] = JSON.parse(this.gh('label list --limit 500 --json name') || '[]');
+    return labels.map((l) => l.name);
+  }
+
+  async addLabels(identifier: string, labelNames: string[], options: AddLabelsOptions = {}): Promise<AddLabelsResult> {
+    const result: AddLabelsResult = { added: [], created: [], missing: [] };
+    const num = parseIssueNumber(identifier);
+    const issue = this.fetchIssue(num);
+    const current = new Set(issue.labels.map((l) => l.name));
+    const labels: { name: string }[] = JSON.parse(this.gh('label list --limit 500 --json name') || '[]');
+    const available = new Set(labels.map((l) => l.name));
+
+    for (const name of labelNames) {
+      if (current.has(name)) continue;
+      if (!available.has(name)) {
+        if (!options.createMissing) {
+          result.missing.push(name);
+          continue;
+        }
+        this.ensureLabel(name, options);
+        available.add(name);
+        result.created.push(name);
+      }
+      current.add(name);
+      result.added.push(name);
+    }
+
+    if (result.added.length > 0) {
+      const flags = result.added.map((name) => ` --add-label ${escapeShellArg(name)}`).join('');
+      this.gh(`issue edit ${num}${flags}`);
+    }
+    return result;
+  }
+
+  async ensureLabels(labels: LabelDefinition[]): Promise<EnsureLabelsResult> {
+    const result: EnsureLabelsResult = { created: [], existing: [] };
+    const current: { name: string }[] = JSON.parse(this.gh('label list --limit 500 --json name') || '[]');
+    const available = new Set(current.map((l) => l.name));
+    for (const label of labels) {
+      if (available.has(label.name)) {
+        result.existing.push(label.name);
+      } else {
+        this.ensureLabel(label.name, label);
+        result.created.push(label.name);
+      }
+    }
+    return result;
+  }
+
+  async getProjects(): Promise<TrackerContainer[]> {
+    const name = this.repo || 'github';
+    return [{ id: name, name }];
+  }
+
+  async getTeams(): Promise<TrackerContainer[]> {
+    return [{ id: this.repo || 'github', name: this.repo || 'GitHub', key: this.prefix }];
+  }
+
+  async getInitiatives(): Promise<any[]> {
+    return [];
+  }
+
+  async getInitiative(): Promise<any | null> {
+    return null;
+  }
+}
+
+// ────────────────────────────────────────────────────────────────
+// Local file backend
+// ────────────────────────────────────────────────────────────────
+
+/**
+ * One line of the local backlog JSONL file.
+ *
+ * Kept deliberately flat so the file is easy to write by hand:
+ * `{"identifier":"LOCAL-1","title":"Add login","state":"Todo","blockedBy":["LOCAL-2"]}`
+ */
+export interface LocalIssueRecord {
+  identifier: string;
+  title: string;
+  description?: string;
+  state?: string;
+  labels?: string[];
+  priority?: number;
+  estimate?: number | null;
+  /** Identifiers of issues that block this one. */
+  blockedBy?: string[];
+  parent?: string;
+  milestone?: string;
+  project?: string;
+  comments?: TrackerComment[];
+  createdAt?: string;
+  updatedAt?: string;
+  completedAt?: string | null;
+  canceledAt?: string | null;
+}
+
+/**
+ * Local backlog backend: a JSONL file (default `.wavemill/backlog.jsonl`).
+ *
+ * Lets the whole mill loop run offline — in tests, on air-gapped machines,
+ * or on repos whose issues live nowhere else. Unknown labels are created
+ * implicitly (the label set is whatever the issues use), and initiatives
+ * are not supported.
+ */
+export class LocalIssueTracker implements IssueTracker {
+  readonly backend = 'local' as const;
+  readonly filePath: string;
+  private readonly prefix: string;
+
+  constructor(options: { path?: string; identifierPrefix?: string; repoDir?: string } = {}) {
+    this.filePath = resolve(options.repoDir || process.cwd(), options.path || '.wavemill/backlog.jsonl');
+    this.prefix = options.identifierPrefix || 'LOCAL';
+  }
+
+  /** Read all records. A missing file is an empty backlog. */
+  readRecords(): LocalIssueRecord[] {
+    if (!existsSync(this.filePath)) {
+      return [];
+    }
+    const records: LocalIssueRecord[] = [];
+    const lines = readFileSync(this.filePath, 'utf-8').split('\n');
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i].trim();
+      if (!line) continue;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        throw new Error(`Malformed JSON on line ${i + 1} of ${this.filePath}`);
+      }
+    }
+    return records;
+  }
+
+  /** Rewrite the file atomically (write to temp, then rename). */
+  private writeRecords(records: LocalIssueRecord[]): void {
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    writeFileSync(tmpPath, records.map((r) => JSON.stringify(r)).join('\n') + '\n', 'utf-8');
+    renameSync(tmpPath, this.filePath);
+  }
+
+  private find(records: LocalIssueRecord[], identifier: string): LocalIssueRecord {
+    const record = records.find((r) => r.identifier.toUpperCase() === identifier.trim().toUpperCase());
+    if (!record) {
+      throw new Error(`Issue not found: ${identifier}`);
+    }
+    return record;
+  }
+
+  private ref(identifier: string, records: LocalIssueRecord[]): TrackerIssueRef {
+    const record = records.find((r) => r.identifier === identifier);
+    return {
+      id: identifier,
+      identifier,
+      completedAt: record?.completedAt ?? null,
+      canceledAt: record?.canceledAt ?? null,
+    };
+  }
+
+  private normalize(record: LocalIssueRecord, records: LocalIssueRecord[]): TrackerIssue {
+    const blockedBy = record.blockedBy || [];
+    const blocks = records
+      .filter((r) => (r.blockedBy || []).includes(record.identifier))
+      .map((r) => r.identifier);
+    const parent = record.parent ? records.find((r) => r.identifier === record.parent) : undefined;
+    const children = records.filter((r) => r.parent === record.identifier);
+    const projectName = record.project || record.milestone;
+
+    return {
+      id: record.identifier,
+      identifier: record.identifier,
+      title: record.title,
+      description: record.description ?? null,
+      state: { name: record.state || 'Backlog' },
+      labels: { nodes: (record.labels || []).map((name) => ({ id: name, name })) },
+      priority: record.priority ?? 0,
+      estimate: record.estimate ?? null,
+      project: projectName ? { id: projectName, name: projectName } : null,
+      team: { id: 'local', name: 'Local', key: this.prefix },
+      parent: parent ? { id: parent.identifier, identifier: parent.identifier, title: parent.title } : null,
+      children: {
+        nodes: children.map((c) => ({
+          id: c.identifier,
+          identifier: c.identifier,
+          title: c.title,
+          description: c.description ?? null,
+          state: { name: c.state || 'Backlog' },
+          labels: { nodes: (c.labels || []).map((name) => ({ id: name, name })) },
+        })),
+      },
+      relations: { nodes: blocks.map((id) => ({ type: 'blocks', relatedIssue: this.ref(id, records) })) },
+      inverseRelations: { nodes: blockedBy.map((id) => ({ type: 'blocks', issue: this.ref(id, records) })) },
+      comments: { nodes: record.comments || [] },
+      url: `file://${this.filePath}#${record.identifier}`,
+      completedAt: record.completedAt ?? null,
+      canceledAt: record.canceledAt ?? null,
+    };
+  }
+
+  private update(identifier: string, mutate: (record: LocalIssueRecord) => void): IssueUpdateResult {
+    const records = this.readRecords();
+    const record = this.find(records, identifier);
+    mutate(record);
+    record.updatedAt = new Date().toISOString();
+    this.writeRecords(records);
+    return {
+      success: true,
+      issue: { id: record.identifier, identifier: record.identifier, url: `file://${this.filePath}#${record.identifier}` },
+    };
+  }
+
+  async getBacklog(projectName?: string | null): Promise<TrackerIssue[]> {
+    const records = this.readRecords();
+    return records
+      .filter((r) => isBacklogState(r.state || 'Backlog'))
+      // A record belongs to a project by name or through its milestone
+      .filter((r) => !projectName || r.project === projectName || r.milestone === projectName)
+      .map((r) => this.normalize(r, records));
+  }
+
+  async getBacklogForScoring(projectName?: string | null): Promise<TrackerIssue[]> {
+    return this.getBacklog(projectName);
+  }
+
+  async getIssue(identifier: string): Promise<TrackerIssue> {
+    const records = this.readRecords();
+    return this.normalize(this.find(records, identifier), records);
+  }
+
+  async getIssueCompletionState(identifier: string): Promise<Pick<TrackerIssue, 'id' | 'completedAt' | 'canceledAt'>> {
+    const record = this.find(this.readRecords(), identifier);
+    return { id: record.identifier, completedAt: record.completedAt ?? null, canceledAt: record.canceledAt ?? null };
+  }
+
+  async setIssueState(identifier: string, stateName: string): Promise<IssueUpdateResult> {
+    return this.update(identifier, (record) => {
+      const now = new Date().toISOString();
+      record.state = stateName;
+      record.completedAt = isCompletedState(stateName) ? (record.completedAt || now) : null;
+      record.canceledAt = isCanceledState(stateName) ? (record.canceledAt || now) : null;
+    });
+  }
+
+  async updateIssueDescription(identifier: string, description: string): Promise<IssueUpdateResult> {
+    return this.update(identifier, (record) => {
+      record.description = description;
+    });
+  }
+
+  async createIssue(params: CreateIssueParams): Promise<CreatedIssue> {
+    const records = this.readRecords();
+    const nextNumber = records.reduce((max, r) => {
+      const match = r.identifier.match(/-(\d+)$/);
+      return match ? Math.max(max, parseInt(match[1], 10)) : max;
+    }, 0) + 1;
+    const identifier = `${this.prefix}-${nextNumber}`;
+    const now = new Date().toISOString();
+
+    const record: LocalIssueRecord = {
+      identifier,
+      title: params.title,
+      description: params.description,
+      state: 'Backlog',
+      labels: params.labels || [],
+      priority: params.priority ?? 0,
+      estimate: params.estimate ?? null,
+      blockedBy: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    if (params.parentId) record.parent = params.parentId;
+    if (params.projectMilestoneId) record.milestone = params.projectMilestoneId;
+    if (params.projectId && params.projectId !== 'local') record.project = params.projectId;
+
+    records.push(record);
+    this.writeRecords(records);
+    return { id: identifier, identifier, title: params.title, url: `file://${this.filePath}#${identifier}` };
+  }
+
+  async createIssueRelation(issueId: string, relatedIssueId: string, type: string): Promise<boolean> {
+    if (type !== 'blocks') {
+      return false;
+    }
+    this.update(relatedIssueId, (record) => {
+      const blockedBy = new Set(record.blockedBy || []);
+      blockedBy.add(issueId);
+      record.blockedBy = [...blockedBy];
+    });
+    return true;
+  }
+
+  async getOrCreateProjectMilestone(_projectId: string, milestoneName: string): Promise<string | undefined> {
+    // Milestones are plain strings on each record; nothing to create.
+    return milestoneName;
+  }
+
+  async getAvailableLabels(): Promise<string[]> {
+    const names = new Set<string>();
+    for (const record of this.readRecords()) {
+      for (const label of record.labels || []) names.add(label);
+    }
+    return [...names].sort();
+  }
+
+  async addLabels(identifier: string, labelNames: string[], options: AddLabelsOptions = {}): Promise<AddLabelsResult> {
+    const result: AddLabelsResult = { added: [], created: [], missing: [] };
+    const available = new Set(await this.getAvailableLabels());
+
+    this.update(identifier, (record) => {
+      const current = new Set(record.labels || []);
+      for (const name of labelNames) {
+        if (current.has(name)) continue;
+        if (!available.has(name)) {
+          if (!options.createMissing) {
+            result.missing.push(name);
+            continue;
+          }
+          result.created.push(name);
+        }
+        current.add(name);
+        result.added.push(name);
+      }
+      record.labels = [...current];
+    });
+    return result;
+  }
+
+  async ensureLabels(labels: LabelDefinition[]): Promise<EnsureLabelsResult> {
+    // Labels are plain strings on each record; nothing to create.
+    return { created: [], existing: labels.map((l) => l.name) };
+  }
+
+  async getProjects(): Promise<TrackerContainer[]> {
+    const names = new Set(this.readRecords().map((r) => r.project || r.milestone).filter((p): p is string => !!p));
+    return [{ id: 'local', name: 'local' }, ...[...names].map((name) => ({ id: name, name }))];
+  }
+
+  async getTeams(): Promise<TrackerContainer[]> {
+    return [{ id: 'local', name: 'Local', key: this.prefix }];
+  }
+
+  async getInitiatives(): Promise<any[]> {
+    return [];
+  }
+
+  async getInitiative(): Promise<any | null> {
+    return null;
+  }
+}
+
+// ────────────────────────────────────────────────────────────────
+// Factory
+// ────────────────────────────────────────────────────────────────
+
+/**
+ * Resolve which backend to use.
+ * Priority: WAVEMILL_TRACKER env var > tracker.backend config > 'linear'.
+ */
+export function resolveTrackerBackend(config: TrackerConfig = {}): IssueTrackerBackend {
+  const backend = (process.env.WAVEMILL_TRACKER || config.backend || 'linear').toLowerCase();
+  if (!SUPPORTED_TRACKER_BACKENDS.includes(backend as IssueTrackerBackend)) {
+    throw new Error(
+      `Unknown issue tracker backend: ${backend}. Supported: ${SUPPORTED_TRACKER_BACKENDS.join(', ')}`
+    );
+  }
+  return backend as IssueTrackerBackend;
+}
+
+/**
+ * Create the issue tracker configured for a repository.
+ *
+ * @param repoDir - Repository directory (default: current working directory)
+ *
+ * @example
+ * ```typescript
+ * const tracker = getIssueTracker();
+ * const backlog = await tracker.getBacklog(projectName);
+ * await tracker.setIssueState('HOK-123', 'In Progress');
+ * ```
+ */
+export function getIssueTracker(repoDir?: string): IssueTracker {
+  const absRepoDir = resolve(repoDir || process.cwd());
+  const config = getTrackerConfig(absRepoDir);
+
+  switch (resolveTrackerBackend(config)) {
+    case 'github':
+      return new GitHubIssueTracker({ ...config.github, cwd: absRepoDir });
+    case 'local':
+      return new LocalIssueTracker({ ...config.local, repoDir: absRepoDir });
+    case 'linear':
+    default:
+      return new LinearIssueTracker();
+  }
+}
+
+/**
+ * Fail fast with a helpful message when the active backend is missing
+ * credentials. Only Linear needs one; GitHub relies on `gh auth`.
+ */
+export function assertTrackerCredentials(tracker: IssueTracker): void {
+  if (tracker.backend === 'linear' && !process.env.LINEAR_API_KEY) {
+    throw new Error(
+      'LINEAR_API_KEY not found in environment. ' +
+      'Set it, or choose another backend with tracker.backend in .wavemill-config.json.'
+    );
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Tests for judge calibration: sampling, agreement statistics, the store
+ * and re-judging.
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import type { EvalRecord } from './eval-schema.ts';
+import {
+  CalibrationStore,
+  sampleRecords,
+  pearson,
+  spearman,
+  weightedKappa,
+  agreement,
+  selfConsistency,
+  calibrationReport,
+  formatCalibrationReport,
+  rejudgeRecord,
+} from './judge-calibration.ts';
+
+let dir: string;
+
+before(() => {
+  dir = mkdtempSync(join(tmpdir(), 'judge-calibration-test-'));
+});
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function record(id: string, score: number, interventions: Array<[string, number]> = []): EvalRecord {
+  return {
+    id,
+    schemaVersion: '1.0.0',
+    originalPrompt: `Task ${id}`,
+    modelId: 'm',
+    modelVersion: 'm',
+    score,
+    scoreBand: 'Partial',
+    timeSeconds: 0,
+    timestamp: '2026-02-01T00:00:00Z',
+    interventionRequired: false,
+    interventionCount: 0,
+    interventionDetails: [],
+    rationale: '',
+    prUrl: `https://github.com/acme/app/pull/${id}`,
+    metadata: {
+      interventionSummary: {
+        interventions: interventions.map(([type, count]) => ({ type, count, details: [] })),
+        totalInterventionScore: 0,
+      },
+    },
+  } as EvalRecord;
+}
+
+describe('sampleRecords', () => {
+  it('is seeded, skips records without a PR and covers every band present', () => {
+    const records = [
+      ...Array.from({ length: 10 }, (_, i) => record(`ok${i}`, 0.8)),
+      record('fail', 0.0),
+      record('full', 1.0),
+      { ...record('nopr', 0.5), prUrl: undefined },
+    ];
+    const first = sampleRecords(records, { size: 4, seed: 42 }).map((r) => r.id);
+    assert.deepEqual(sampleRecords(records, { size: 4, seed: 42 }).map((r) => r.id), first);
+    assert.ok(first.includes('fail') && first.includes('full'));
+    assert.ok(!first.includes('nopr'));
+    assert.equal(sampleRecords(records, { size: 50, seed: 1 }).length, 12);
+  });
+});
+
+describe('agreement statistics', () => {
+  it('computes correlations, with ties ranked by average', () => {
+    assert.equal(pearson([1, 2, 3], [2, 4, 6]), 1);
+    assert.equal(pearson([1, 1, 1], [1, 2, 3]), null);
+    assert.equal(spearman([1, 2, 3, 4], [10, 20, 20, 30])!.toFixed(3), '0.949');
+  });
+
+  it('builds a band confusion matrix and weighted kappa', () => {
+    const judge = [0.9, 0.8, 0.6, 0.1, 1.0];
+    const human = [0.8, 0.6, 0.6, 0.2, 1.0];
+    const stats = agreement(judge, human)!;
+    assert.equal(stats.n, 5);
+    assert.equal(stats.bandAgreement, 0.6);
+    assert.equal(stats.bias.toFixed(2), '0.04');
+    // Human Assisted Success (row 2) judged Minor Feedback (column 3) once
+    assert.equal(stats.confusion.matrix[2][3], 1);
+    assert.equal(weightedKappa([[5, 0], [0, 5]]), 1);
+    assert.ok(stats.weightedKappa! > 0.8 && stats.weightedKappa! < 1);
+  });
+
+  it('measures self-consistency per judge model', () => {
+    const at = (recordId: string, judgeModel: string, score: number) => ({ recordId, judgeModel, score, timestamp: '' });
+    const [a, b] = selfConsistency([
+      at('r1', 'a', 0.8), at('r1', 'a', 0.8), at('r2', 'a', 0.6), at('r2', 'a', 0.8),
+      at('r1', 'b', 0.5), at('r2', 'b', 0.5),
+    ]);
+    assert.equal(a.judgeModel, 'a');
+    assert.equal(a.records, 2);
+    assert.equal(a.maxStdDev.toFixed(2), '0.10');
+    assert.equal(a.bandFlipRate, 0.5);
+    assert.equal(b, undefined);
+  });
+});
+
+describe('calibrationReport', () => {
+  it('combines human scores and re-judgements for the sample', () => {
+    const store = new CalibrationStore(join(dir, 'calibration'));
+    const records = [
+      record('r1', 0.9, [['review_comment', 2]]),
+      record('r2', 0.6, [['review_comment', 1], ['test_fix', 1]]),
+      record('r3', 0.2),
+      record('other', 0.5),
+    ];
+    store.writeSample({ createdAt: '', seed: 1, recordIds: ['r1', 'r2', 'r3'] });
+    const human = (recordId: string, rater: string, score: number) => store.addHumanScore({ recordId, rater, score, timestamp: '' });
+    human('r1', 'alice', 0.5);
+    human('r1', 'alice', 0.6); // latest wins
+    human('r1', 'bob', 0.8);
+    human('r2', 'alice', 0.6);
+    human('r3', 'alice', 0.2);
+    human('other', 'alice', 1);
+    for (const score of [0.8, 0.9]) store.addRejudgement({ recordId: 'r1', judgeModel: 'alt', score, timestamp: '' });
+
+    const report = calibrationReport(records, store.readSample()!, store.humanScores(), store.rejudgements());
+    assert.equal(report.sampleSize, 3);
+    assert.equal(report.humanRated, 3);
+    assert.deepEqual(report.raters, ['alice', 'bob']);
+    assert.equal(report.judgeVsHuman!.n, 3);
+    assert.equal(report.interRater!.n, 1);
+    assert.equal(report.judges[0].vsOriginal!.n, 1);
+    assert.equal(report.selfConsistency[0].runs, 2);
+    assert.deepEqual(report.penalties.map((p) => [p.configKey, p.n, p.meanResidual.toFixed(2)]), [
+      ['reviewComment', 2, '0.10'],
+      ['testFix', 1, '0.00'],
+    ]);
+    assert.deepEqual(report.bands.map((b) => [b.band, b.n]), [['Partial', 1], ['Assisted Success', 1], ['Minor Feedback', 1]]);
+
+    const lines = formatCalibrationReport(report);
+    assert.match(lines[0], /3 record\(s\), 3 human-rated by alice, bob/);
+    assert.ok(lines.some((l) => /reviewComment\s+n=2\s+\+0\.10\s+\(judge too lenient\)/.test(l)));
+  });
+});
+
+describe('rejudgeRecord', () => {
+  it('judges the record again with the chosen model and its interventions', async () => {
+    let prompt = '';
+    const result = await rejudgeRecord(record('r1', 0.9, [['review_comment', 2]]), {
+      diff: 'diff --git a/x b/x',
+      penalties: { review_comment: 0.1, post_pr_commit: 0, manual_edit: 0, test_fix: 0, session_redirect: 0, self_review_blocker: 0, self_review_warning: 0 },
+      model: 'alt-judge',
+      _callFn: async (p) => {
+        prompt = p;
+        return { text: JSON.stringify({ score: 0.7, rationale: 'fine', interventionFlags: [] }) };
+      },
+    });
+    assert.deepEqual({ ...result, timestamp: '' }, { recordId: 'r1', judgeModel: 'alt-judge', score: 0.7, timestamp: '' });
+    assert.match(prompt, /Task r1/);
+    assert.match(prompt, /"penaltyPerOccurrence": 0.1/);
+  });
+});
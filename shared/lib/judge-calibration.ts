@@ -0,0 +1,531 @@
+/**
+ * Judge Calibration - Does the eval judge agree with humans, and with itself?
+ *
+ * Routing is driven by the judge's scores, so they need checking against
+ * something. Calibration works on a fixed sample of eval records:
+ *
+ * 1. `sampleRecords` draws a seeded sample spread across score bands
+ * 2. Humans score the sampled records (`wavemill eval calibrate rate`)
+ * 3. The records are re-judged several times, optionally with alternate
+ *    judge models (`rejudgeRecord`)
+ * 4. `calibrationReport` measures judge↔human agreement (Pearson, Spearman,
+ *    band confusion matrix, weighted kappa), each alternate judge against
+ *    the original, and each model's self-consistency (run-to-run spread).
+ *    It also breaks down human scores by judge band and judge−human
+ *    residuals by intervention type: the evidence for tuning `SCORE_BANDS`
+ *    and `eval.interventionPenalties`.
+ *
+ * Samples, human scores and re-judgements live in `.wavemill/calibration/`.
+ *
+ * @module judge-calibration
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { SCORE_BANDS, getScoreBand, type EvalRecord, type ScoreBandLabel } from './eval-schema.ts';
+import { evaluateTask } from './eval.js';
+import { formatForJudge, type InterventionPenalties, type InterventionSummary } from './intervention-detector.ts';
+
+// ────────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────────
+
+/** The records under calibration. */
+export interface CalibrationSample {
+  createdAt: string;
+  seed: number;
+  recordIds: string[];
+}
+
+/** A human's score for one record. */
+export interface HumanScore {
+  recordId: string;
+  rater: string;
+  score: number;
+  note?: string;
+  timestamp: string;
+}
+
+/** One re-judgement of a record. */
+export interface Rejudgement {
+  recordId: string;
+  judgeModel: string;
+  score: number;
+  timestamp: string;
+}
+
+export interface ConfusionMatrix {
+  /** Band labels, lowest first; rows are human bands, columns judge bands */
+  labels: ScoreBandLabel[];
+  matrix: number[][];
+}
+
+export interface AgreementStats {
+  n: number;
+  pearson: number | null;
+  spearman: number | null;
+  /** Mean |a − b| */
+  meanAbsDiff: number;
+  /** Mean (a − b): positive when the first rater scores higher */
+  bias: number;
+  /** Fraction of pairs in the same band */
+  bandAgreement: number;
+  /** Quadratic-weighted Cohen's kappa over bands */
+  weightedKappa: number | null;
+  confusion: ConfusionMatrix;
+}
+
+export interface SelfConsistency {
+  judgeModel: string;
+  /** Records re-judged at least twice by this model */
+  records: number;
+  runs: number;
+  /** Mean per-record standard deviation of scores */
+  meanStdDev: number;
+  maxStdDev: number;
+  /** Fraction of records whose runs landed in more than one band */
+  bandFlipRate: number;
+}
+
+/** Human scores of the records the judge put in one band. */
+export interface BandBreakdown {
+  band: ScoreBandLabel;
+  n: number;
+  humanMean: number;
+  humanMin: number;
+  humanMax: number;
+}
+
+/** Judge − human residuals over the records with one intervention type. */
+export interface PenaltyResidual {
+  /** Intervention type, e.g. review_comment */
+  type: string;
+  /** The `eval.interventionPenalties` key it's weighted by */
+  configKey: string;
+  n: number;
+  /** Positive: the judge scores these higher than humans (penalty too light) */
+  meanResidual: number;
+}
+
+export interface CalibrationReport {
+  sampleSize: number;
+  humanRated: number;
+  raters: string[];
+  /** Original judge score vs mean human score */
+  judgeVsHuman: AgreementStats | null;
+  /** Per re-judging model: its mean score vs the original judge score, and vs humans */
+  judges: Array<{ judgeModel: string; vsOriginal: AgreementStats | null; vsHuman: AgreementStats | null }>;
+  /** Agreement between human raters (records with two or more raters, first two) */
+  interRater: AgreementStats | null;
+  selfConsistency: SelfConsistency[];
+  bands: BandBreakdown[];
+  penalties: PenaltyResidual[];
+}
+
+// ────────────────────────────────────────────────────────────────
+// Store
+// ────────────────────────────────────────────────────────────────
+
+function readJsonl<T>(path: string): T[] {
+  if (!existsSync(path)) return [];
+  return readFileSync(path, 'utf-8')
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as T);
+}
+
+/**
+ * Calibration files in one directory: `sample.json`, `human-scores.jsonl`
+ * and `rejudges.jsonl`. Scores are append-only; a rater's latest score for
+ * a record wins.
+ */
+export class CalibrationStore {
+  readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  private path(name: string): string {
+    return join(this.dir, name);
+  }
+
+  readSample(): CalibrationSample | null {
+    const path = this.path('sample.json');
+    return existsSync(path) ? (JSON.parse(readFileSync(path, 'utf-8')) as CalibrationSample) : null;
+  }
+
+  writeSample(sample: CalibrationSample): void {
+    mkdirSync(this.dir, { recursive: true });
+    writeFileSync(this.path('sample.json'), JSON.stringify(sample, null, 2) + '\n');
+  }
+
+  humanScores(): HumanScore[] {
+    const latest = new Map<string, HumanScore>();
+    for (const score of readJsonl<HumanScore>(this.path('human-scores.jsonl'))) {
+      latest.set(`${score.recordId}\0${score.rater}`, score);
+    }
+    return [...latest.values()];
+  }
+
+  addHumanScore(score: HumanScore): void {
+    mkdirSync(this.dir, { recursive: true });
+    appendFileSync(this.path('human-scores.jsonl'), JSON.stringify(score) + '\n');
+  }
+
+  rejudgements(): Rejudgement[] {
+    return readJsonl<Rejudgement>(this.path('rejudges.jsonl'));
+  }
+
+  addRejudgement(rejudgement: Rejudgement): void {
+    mkdirSync(this.dir, { recursive: true });
+    appendFileSync(this.path('rejudges.jsonl'), JSON.stringify(rejudgement) + '\n');
+  }
+}
+
+// ────────────────────────────────────────────────────────────────
+// Sampling
+// ────────────────────────────────────────────────────────────────
+
+/** Deterministic PRNG (mulberry32) so a seed always gives the same sample. */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Records that can be re-judged: they have a task prompt and a PR. */
+export function isCalibratable(record: EvalRecord): boolean {
+  return !!record.originalPrompt?.trim() && !!record.prUrl && typeof record.score === 'number';
+}
+
+/**
+ * Draw up to `size` calibratable records, taking from each score band in
+ * turn so rare bands (Failure, Full Success) are represented.
+ */
+export function sampleRecords(records: EvalRecord[], options: { size: number; seed: number }): EvalRecord[] {
+  const random = seededRandom(options.seed);
+  const byBand = new Map<string, EvalRecord[]>();
+  for (const record of records.filter(isCalibratable)) {
+    const band = getScoreBand(record.score).label;
+    if (!byBand.has(band)) byBand.set(band, []);
+    byBand.get(band)!.push(record);
+  }
+
+  // Fisher–Yates per band
+  const pools = SCORE_BANDS.map((band) => byBand.get(band.label) ?? []).map((pool) => {
+    const shuffled = [...pool];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  });
+
+  const sample: EvalRecord[] = [];
+  while (sample.length < options.size && pools.some((pool) => pool.length > 0)) {
+    for (const pool of pools) {
+      const next = pool.shift();
+      if (next && sample.length < options.size) sample.push(next);
+    }
+  }
+  return sample;
+}
+
+// ────────────────────────────────────────────────────────────────
+// Re-judging
+// ────────────────────────────────────────────────────────────────
+
+/** The detector's intervention summary stored on a record, if any. */
+export function interventionSummaryOf(record: EvalRecord): InterventionSummary | null {
+  const summary = record.metadata?.interventionSummary as InterventionSummary | undefined;
+  return summary && Array.isArray(summary.interventions) ? summary : null;
+}
+
+/**
+ * Judge a record again from its task prompt and PR diff, with the same
+ * prompt the original judge saw (interventions weighted by `penalties`).
+ */
+export async function rejudgeRecord(
+  record: EvalRecord,
+  options: { diff: string; penalties: InterventionPenalties; model?: string; _callFn?: (prompt: string, model: string) => Promise<{ text: string }> },
+): Promise<Rejudgement> {
+  const summary = interventionSummaryOf(record);
+  const judged = await evaluateTask(
+    {
+      taskPrompt: record.originalPrompt,
+      prReviewOutput: options.diff,
+      ...(summary ? { interventionText: formatForJudge(summary, options.penalties) } : {}),
+      issueId: record.issueId,
+      prUrl: record.prUrl,
+    },
+    undefined,
+    { model: options.model, _callFn: options._callFn },
+  );
+  return { recordId: record.id, judgeModel: judged.judgeModel ?? judged.modelId, score: judged.score, timestamp: judged.timestamp };
+}
+
+// ────────────────────────────────────────────────────────────────
+// Statistics
+// ────────────────────────────────────────────────────────────────
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function stdDev(values: number[]): number {
+  const m = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - m) ** 2, 0) / values.length);
+}
+
+/** Pearson correlation; null when either side has no variance. */
+export function pearson(xs: number[], ys: number[]): number | null {
+  if (xs.length < 2) return null;
+  const mx = mean(xs);
+  const my = mean(ys);
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < xs.length; i++) {
+    sxy += (xs[i] - mx) * (ys[i] - my);
+    sxx += (xs[i] - mx) ** 2;
+    syy += (ys[i] - my) ** 2;
+  }
+  return sxx === 0 || syy === 0 ? null : sxy / Math.sqrt(sxx * syy);
+}
+
+/** Ranks with ties given their average rank. */
+function ranks(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const result = new Array<number>(values.length);
+  for (let i = 0; i < order.length; ) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++;
+    for (let k = i; k <= j; k++) result[order[k].index] = (i + j) / 2 + 1;
+    i = j + 1;
+  }
+  return result;
+}
+
+/** Spearman rank correlation. */
+export function spearman(xs: number[], ys: number[]): number | null {
+  return pearson(ranks(xs), ranks(ys));
+}
+
+const BAND_LABELS = SCORE_BANDS.map((band) => band.label) as ScoreBandLabel[];
+
+function bandIndex(score: number): number {
+  return BAND_LABELS.indexOf(getScoreBand(score).label as ScoreBandLabel);
+}
+
+/** Band confusion matrix: rows from `a`, columns from `b`. */
+export function bandConfusion(a: number[], b: number[]): ConfusionMatrix {
+  const matrix = BAND_LABELS.map(() => BAND_LABELS.map(() => 0));
+  for (let i = 0; i < a.length; i++) matrix[bandIndex(a[i])][bandIndex(b[i])]++;
+  return { labels: BAND_LABELS, matrix };
+}
+
+/** Quadratic-weighted Cohen's kappa for an ordinal confusion matrix. */
+export function weightedKappa(matrix: number[][]): number | null {
+  const k = matrix.length;
+  const total = matrix.flat().reduce((sum, value) => sum + value, 0);
+  if (total === 0) return null;
+  const rows = matrix.map((row) => row.reduce((sum, value) => sum + value, 0));
+  const cols = matrix[0].map((_, j) => matrix.reduce((sum, row) => sum + row[j], 0));
+
+  let observed = 0;
+  let expected = 0;
+  for (let i = 0; i < k; i++) {
+    for (let j = 0; j < k; j++) {
+      const weight = (i - j) ** 2 / (k - 1) ** 2;
+      observed += weight * matrix[i][j];
+      expected += (weight * rows[i] * cols[j]) / total;
+    }
+  }
+  return expected === 0 ? null : 1 - observed / expected;
+}
+
+/** Agreement of paired scores `a` (e.g. judge) with `b` (e.g. human). */
+export function agreement(a: number[], b: number[]): AgreementStats | null {
+  if (a.length === 0) return null;
+  const confusion = bandConfusion(b, a);
+  const diffs = a.map((value, i) => value - b[i]);
+  return {
+    n: a.length,
+    pearson: pearson(a, b),
+    spearman: spearman(a, b),
+    meanAbsDiff: mean(diffs.map(Math.abs)),
+    bias: mean(diffs),
+    bandAgreement: a.filter((value, i) => bandIndex(value) === bandIndex(b[i])).length / a.length,
+    weightedKappa: weightedKappa(confusion.matrix),
+    confusion,
+  };
+}
+
+/** Spread of repeated judgements per model. */
+export function selfConsistency(rejudgements: Rejudgement[]): SelfConsistency[] {
+  const byModel = new Map<string, Map<string, number[]>>();
+  for (const r of rejudgements) {
+    if (!byModel.has(r.judgeModel)) byModel.set(r.judgeModel, new Map());
+    const byRecord = byModel.get(r.judgeModel)!;
+    byRecord.set(r.recordId, [...(byRecord.get(r.recordId) ?? []), r.score]);
+  }
+
+  return [...byModel.entries()].flatMap(([judgeModel, byRecord]) => {
+    const repeated = [...byRecord.values()].filter((scores) => scores.length >= 2);
+    if (repeated.length === 0) return [];
+    const spreads = repeated.map(stdDev);
+    return [{
+      judgeModel,
+      records: repeated.length,
+      runs: repeated.reduce((sum, scores) => sum + scores.length, 0),
+      meanStdDev: mean(spreads),
+      maxStdDev: Math.max(...spreads),
+      bandFlipRate: repeated.filter((scores) => new Set(scores.map(bandIndex)).size > 1).length / repeated.length,
+    }];
+  });
+}
+
+/** Intervention type → `eval.interventionPenalties` key. */
+function penaltyConfigKey(type: string): string {
+  return type.replace(/_([a-z])/g, (_, c: string) => c.toUpperCase());
+}
+
+/**
+ * Agreement, consistency and tuning evidence for the sampled records.
+ * `records` must include every sampled record.
+ */
+export function calibrationReport(
+  records: EvalRecord[],
+  sample: CalibrationSample,
+  humanScores: HumanScore[],
+  rejudgements: Rejudgement[],
+): CalibrationReport {
+  const inSample = new Set(sample.recordIds);
+  const byId = new Map(records.filter((r) => inSample.has(r.id)).map((r) => [r.id, r]));
+  const humans = humanScores.filter((s) => byId.has(s.recordId));
+  const rejudged = rejudgements.filter((r) => byId.has(r.recordId));
+
+  const humanByRecord = new Map<string, HumanScore[]>();
+  for (const score of humans) humanByRecord.set(score.recordId, [...(humanByRecord.get(score.recordId) ?? []), score]);
+  const humanMean = new Map([...humanByRecord.entries()].map(([id, scores]) => [id, mean(scores.map((s) => s.score))]));
+  const rated = [...humanMean.keys()];
+
+  const judgeVsHuman = agreement(rated.map((id) => byId.get(id)!.score), rated.map((id) => humanMean.get(id)!));
+
+  const multiRated = [...humanByRecord.values()].filter((scores) => scores.length >= 2);
+  const interRater = agreement(multiRated.map((s) => s[0].score), multiRated.map((s) => s[1].score));
+
+  const judges = [...new Set(rejudged.map((r) => r.judgeModel))].sort().map((judgeModel) => {
+    const byRecord = new Map<string, number[]>();
+    for (const r of rejudged.filter((r) => r.judgeModel === judgeModel)) {
+      byRecord.set(r.recordId, [...(byRecord.get(r.recordId) ?? []), r.score]);
+    }
+    const ids = [...byRecord.keys()];
+    const scoreOf = (id: string) => mean(byRecord.get(id)!);
+    const withHuman = ids.filter((id) => humanMean.has(id));
+    return {
+      judgeModel,
+      vsOriginal: agreement(ids.map(scoreOf), ids.map((id) => byId.get(id)!.score)),
+      vsHuman: agreement(withHuman.map(scoreOf), withHuman.map((id) => humanMean.get(id)!)),
+    };
+  });
+
+  const bands = BAND_LABELS.flatMap((band): BandBreakdown[] => {
+    const scores = rated.filter((id) => getScoreBand(byId.get(id)!.score).label === band).map((id) => humanMean.get(id)!);
+    if (scores.length === 0) return [];
+    return [{ band, n: scores.length, humanMean: mean(scores), humanMin: Math.min(...scores), humanMax: Math.max(...scores) }];
+  });
+
+  const residualsByType = new Map<string, number[]>();
+  for (const id of rated) {
+    const types = new Set((interventionSummaryOf(byId.get(id)!)?.interventions ?? []).filter((e) => e.count > 0).map((e) => e.type));
+    for (const type of types) {
+      residualsByType.set(type, [...(residualsByType.get(type) ?? []), byId.get(id)!.score - humanMean.get(id)!]);
+    }
+  }
+  const penalties = [...residualsByType.entries()]
+    .map(([type, residuals]) => ({ type, configKey: penaltyConfigKey(type), n: residuals.length, meanResidual: mean(residuals) }))
+    .sort((a, b) => Math.abs(b.meanResidual) - Math.abs(a.meanResidual));
+
+  return {
+    sampleSize: byId.size,
+    humanRated: rated.length,
+    raters: [...new Set(humans.map((s) => s.rater))].sort(),
+    judgeVsHuman,
+    judges,
+    interRater,
+    selfConsistency: selfConsistency(rejudged),
+    bands,
+    penalties,
+  };
+}
+
+// ────────────────────────────────────────────────────────────────
+// Formatting
+// ────────────────────────────────────────────────────────────────
+
+const fixed = (value: number | null, digits = 2) => (value === null ? 'n/a' : value.toFixed(digits));
+const signed = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}`;
+
+function formatAgreement(title: string, stats: AgreementStats | null, withMatrix: boolean, rowLabel = 'human', colLabel = 'judge'): string[] {
+  if (!stats) return [`${title}: no pairs yet`];
+  const lines = [
+    `${title} (n=${stats.n})`,
+    `  Pearson ${fixed(stats.pearson)}  Spearman ${fixed(stats.spearman)}  weighted κ ${fixed(stats.weightedKappa)}`,
+    `  Same band ${(stats.bandAgreement * 100).toFixed(0)}%  mean |Δ| ${stats.meanAbsDiff.toFixed(2)}  bias ${signed(stats.bias)}`,
+  ];
+  if (withMatrix) {
+    const short = stats.confusion.labels.map((label) => label.split(' ').map((w) => w[0]).join(''));
+    lines.push(`  ${`${rowLabel} \\ ${colLabel}`.padEnd(20)}${short.map((s) => s.padStart(5)).join('')}`);
+    stats.confusion.labels.forEach((label, i) => {
+      lines.push(`  ${label.padEnd(20)}${stats.confusion.matrix[i].map((count) => String(count).padStart(5)).join('')}`);
+    });
+  }
+  return lines;
+}
+
+/** Report lines for the terminal. */
+export function formatCalibrationReport(report: CalibrationReport): string[] {
+  const lines = [
+    `Calibration sample: ${report.sampleSize} record(s), ${report.humanRated} human-rated` +
+      (report.raters.length > 0 ? ` by ${report.raters.join(', ')}` : ''),
+    '',
+    ...formatAgreement('Judge vs human', report.judgeVsHuman, true),
+  ];
+
+  if (report.interRater) {
+    lines.push('', ...formatAgreement('Human vs human', report.interRater, false));
+  }
+  for (const judge of report.judges) {
+    lines.push('', ...formatAgreement(`Re-judged by ${judge.judgeModel} vs original judge`, judge.vsOriginal, false));
+    if (judge.vsHuman) lines.push(...formatAgreement(`Re-judged by ${judge.judgeModel} vs human`, judge.vsHuman, false));
+  }
+
+  lines.push('', 'Self-consistency (repeated judgements)');
+  if (report.selfConsistency.length === 0) lines.push('  No record judged twice by the same model yet');
+  for (const c of report.selfConsistency) {
+    lines.push(`  ${c.judgeModel}: ${c.records} record(s), ${c.runs} run(s); score SD mean ${c.meanStdDev.toFixed(3)}, max ${c.maxStdDev.toFixed(3)}; band flips ${(c.bandFlipRate * 100).toFixed(0)}%`);
+  }
+
+  if (report.bands.length > 0) {
+    lines.push('', 'Human scores by judge band (SCORE_BANDS)');
+    for (const b of report.bands) {
+      lines.push(`  ${b.band.padEnd(18)} n=${String(b.n).padEnd(3)} human mean ${b.humanMean.toFixed(2)}  range ${b.humanMin.toFixed(2)}–${b.humanMax.toFixed(2)}`);
+    }
+  }
+
+  if (report.penalties.length > 0) {
+    lines.push('', 'Judge − human by intervention type (eval.interventionPenalties)');
+    for (const p of report.penalties) {
+      const hint = p.meanResidual > 0.05 ? 'judge too lenient' : p.meanResidual < -0.05 ? 'judge too harsh' : 'in line';
+      lines.push(`  ${p.configKey.padEnd(18)} n=${String(p.n).padEnd(3)} ${signed(p.meanResidual)}  (${hint})`);
+    }
+  }
+  return lines;
+}
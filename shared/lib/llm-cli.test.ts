@@ -0,0 +1,262 @@
+/**
+ * Tests for the Anthropic Messages API provider in llm-cli.
+ *
+ * A local HTTP server stands in for the API via ANTHROPIC_BASE_URL, so no
+ * network access or real key is needed.
+ */
+
+import { describe, it, before, after, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { callLLM, splitPromptForCache, promptToText } from './llm-cli.ts';
+import { clearConfigCache } from './config.ts';
+
+interface CapturedRequest {
+  headers: IncomingMessage['headers'];
+  body: any;
+}
+
+type Handler = (req: CapturedRequest, res: ServerResponse) => void;
+
+let server: Server;
+let handler: Handler;
+let captured: CapturedRequest[] = [];
+let repoDir: string;
+const savedEnv = {
+  key: process.env.ANTHROPIC_API_KEY,
+  baseUrl: process.env.ANTHROPIC_BASE_URL,
+};
+
+function jsonResponse(res: ServerResponse, status: number, payload: unknown): void {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(payload));
+}
+
+function sse(events: Array<Record<string, unknown>>): string {
+  return events.map((e) => `event: ${e.type}\ndata: ${JSON.stringify(e)}\n\n`).join('');
+}
+
+before(async () => {
+  server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      const request = { headers: req.headers, body: JSON.parse(raw) };
+      captured.push(request);
+      handler(request, res);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  process.env.ANTHROPIC_BASE_URL = `http://127.0.0.1:${port}`;
+});
+
+after(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  if (savedEnv.baseUrl === undefined) delete process.env.ANTHROPIC_BASE_URL;
+  else process.env.ANTHROPIC_BASE_URL = savedEnv.baseUrl;
+  if (savedEnv.key === undefined) delete process.env.ANTHROPIC_API_KEY;
+  else process.env.ANTHROPIC_API_KEY = savedEnv.key;
+});
+
+beforeEach(() => {
+  captured = [];
+  process.env.ANTHROPIC_API_KEY = 'test-key';
+  repoDir = mkdtempSync(join(tmpdir(), 'llm-cli-test-'));
+  writeFileSync(
+    join(repoDir, '.wavemill-config.json'),
+    JSON.stringify({
+      eval: {
+        pricing: {
+          'claude-test': {
+            inputCostPerMTok: 3,
+            outputCostPerMTok: 15,
+            cacheWriteCostPerMTok: 3.75,
+            cacheReadCostPerMTok: 0.3,
+          },
+        },
+      },
+    })
+  );
+  clearConfigCache();
+});
+
+afterEach(() => {
+  rmSync(repoDir, { recursive: true, force: true });
+  clearConfigCache();
+});
+
+describe('anthropic provider', () => {
+  it('sends a Messages API request with cache-control breakpoints', async () => {
+    handler = (_req, res) =>
+      jsonResponse(res, 200, {
+        content: [{ type: 'text', text: '{"ok": true}' }],
+        usage: { input_tokens: 10, output_tokens: 5 },
+      });
+
+    await callLLM(
+      [{ text: 'Static rubric. ', cache: true }, { text: 'Dynamic part' }, { text: '' }],
+      { provider: 'anthropic', model: 'claude-test', system: 'Be terse.', maxTokens: 256, cwd: repoDir }
+    );
+
+    assert.equal(captured.length, 1);
+    const { headers, body } = captured[0];
+    assert.equal(headers['x-api-key'], 'test-key');
+    assert.equal(headers['anthropic-version'], '2023-06-01');
+    assert.equal(body.model, 'claude-test');
+    assert.equal(body.max_tokens, 256);
+    assert.equal(body.system, 'Be terse.');
+    assert.equal(body.stream, undefined);
+    assert.deepEqual(body.messages, [
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Static rubric. ', cache_control: { type: 'ephemeral' } },
+          { type: 'text', text: 'Dynamic part' },
+        ],
+      },
+    ]);
+  });
+
+  it('returns native usage, cache usage and cost from the pricing table', async () => {
+    handler = (_req, res) =>
+      jsonResponse(res, 200, {
+        content: [{ type: 'text', text: 'Hello' }, { type: 'text', text: ' world' }],
+        usage: {
+          input_tokens: 1_000,
+          output_tokens: 2_000,
+          cache_creation_input_tokens: 4_000,
+          cache_read_input_tokens: 10_000,
+        },
+      });
+
+    const result = await callLLM('hi', { provider: 'anthropic', model: 'claude-test', cwd: repoDir });
+
+    assert.equal(result.text, 'Hello world');
+    assert.equal(result.provider, 'anthropic');
+    assert.deepEqual(result.usage, { inputTokens: 15_000, outputTokens: 2_000, totalTokens: 17_000 });
+    assert.deepEqual(result.cacheUsage, { cacheCreationInputTokens: 4_000, cacheReadInputTokens: 10_000 });
+    // 1k×$3 + 4k×$3.75 + 10k×$0.30 + 2k×$15 per MTok
+    assert.ok(Math.abs((result.costUsd ?? 0) - 0.051) < 1e-9);
+  });
+
+  it('leaves costUsd undefined for models missing from the pricing table', async () => {
+    handler = (_req, res) =>
+      jsonResponse(res, 200, { content: [{ type: 'text', text: 'x' }], usage: { input_tokens: 1, output_tokens: 1 } });
+
+    const result = await callLLM('hi', { provider: 'anthropic', model: 'unpriced-model', cwd: repoDir });
+    assert.equal(result.costUsd, undefined);
+    assert.equal(result.usage?.totalTokens, 2);
+  });
+
+  it('streams text deltas and accumulates usage in stream mode', async () => {
+    handler = (_req, res) => {
+      res.writeHead(200, { 'content-type': 'text/event-stream' });
+      const body = sse([
+        { type: 'message_start', message: { usage: { input_tokens: 12, output_tokens: 1, cache_read_input_tokens: 100 } } },
+        { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: '{"verdict":' } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: ' "ready"}' } },
+        { type: 'content_block_stop', index: 0 },
+        { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 7 } },
+        { type: 'message_stop' },
+      ]);
+      // Split mid-event to exercise buffering across chunks
+      res.write(body.slice(0, 50));
+      res.end(body.slice(50));
+    };
+
+    const chunks: string[] = [];
+    const result = await callLLM('review', {
+      provider: 'anthropic',
+      mode: 'stream',
+      model: 'claude-test',
+      cwd: repoDir,
+      onText: (chunk) => chunks.push(chunk),
+    });
+
+    assert.equal(captured[0].body.stream, true);
+    assert.deepEqual(chunks, ['{"verdict":', ' "ready"}']);
+    assert.equal(result.text, '{"verdict": "ready"}');
+    assert.deepEqual(result.usage, { inputTokens: 112, outputTokens: 7, totalTokens: 119 });
+    assert.deepEqual(result.cacheUsage, { cacheCreationInputTokens: 0, cacheReadInputTokens: 100 });
+  });
+
+  it('handles a final event without a trailing blank line', async () => {
+    handler = (_req, res) => {
+      res.writeHead(200, { 'content-type': 'text/event-stream' });
+      const body = sse([{ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'ok' } }]);
+      res.write(body);
+      res.end(`event: message_delta\ndata: ${JSON.stringify({ type: 'message_delta', usage: { output_tokens: 3 } })}`);
+    };
+
+    const result = await callLLM('x', { provider: 'anthropic', mode: 'stream', cwd: repoDir });
+    assert.equal(result.text, 'ok');
+    assert.equal(result.usage?.outputTokens, 3);
+  });
+
+  it('surfaces stream error events', async () => {
+    handler = (_req, res) => {
+      res.writeHead(200, { 'content-type': 'text/event-stream' });
+      res.end(sse([{ type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }]));
+    };
+
+    await assert.rejects(
+      () => callLLM('x', { provider: 'anthropic', mode: 'stream', cwd: repoDir }),
+      /overloaded_error: Overloaded/
+    );
+  });
+
+  it('reports API errors with status and message', async () => {
+    handler = (_req, res) =>
+      jsonResponse(res, 401, { type: 'error', error: { type: 'authentication_error', message: 'invalid x-api-key' } });
+
+    await assert.rejects(
+      () => callLLM('x', { provider: 'anthropic', cwd: repoDir }),
+      /authentication failed \(401\): authentication_error: invalid x-api-key/
+    );
+  });
+
+  it('requires ANTHROPIC_API_KEY', async () => {
+    delete process.env.ANTHROPIC_API_KEY;
+    handler = (_req, res) => jsonResponse(res, 200, {});
+
+    await assert.rejects(() => callLLM('x', { provider: 'anthropic', cwd: repoDir }), /ANTHROPIC_API_KEY is not set/);
+    assert.equal(captured.length, 0);
+  });
+
+  it('rejects more than four cache breakpoints', async () => {
+    handler = (_req, res) => jsonResponse(res, 200, {});
+    const blocks = Array.from({ length: 5 }, (_, i) => ({ text: `part ${i}`, cache: true }));
+
+    await assert.rejects(() => callLLM(blocks, { provider: 'anthropic', cwd: repoDir }), /Too many cache breakpoints: 5/);
+  });
+});
+
+describe('splitPromptForCache', () => {
+  it('caches the template text before the first placeholder', () => {
+    const template = '# Rubric\nScore carefully.\n\n{{TASK}}\n\n{{DIFF}}';
+    const filled = template.replace('{{TASK}}', 'Add login').replace('{{DIFF}}', '+code');
+
+    assert.deepEqual(splitPromptForCache(template, filled), [
+      { text: '# Rubric\nScore carefully.\n\n', cache: true },
+      { text: 'Add login\n\n+code' },
+    ]);
+  });
+
+  it('falls back to a single block when the prefix does not match', () => {
+    assert.deepEqual(splitPromptForCache('{{TASK}} first', 'Add login first'), [{ text: 'Add login first' }]);
+    assert.deepEqual(splitPromptForCache('Intro {{X}}', 'STRICT Intro y'), [{ text: 'STRICT Intro y' }]);
+  });
+
+  it('round-trips through promptToText', () => {
+    const template = 'Intro\n{{X}}';
+    const filled = 'Intro\nvalue';
+    assert.equal(promptToText(splitPromptForCache(template, filled)), filled);
+    assert.equal(promptToText('plain'), 'plain');
+  });
+});
@@ -2,8 +2,10 @@
  * Shared LLM CLI integration
  *
  * Provides a unified interface for calling LLM CLIs (Claude, Codex, etc.) with:
- * - Multi-provider support (Claude CLI, Codex CLI, OpenAI API)
+ * - Multi-provider support (Claude CLI, Codex CLI, OpenAI API, Anthropic Messages API)
  * - Both sync (execSync) and stream (spawn) modes
+ * - Direct HTTP calls to the Anthropic Messages API with SSE streaming,
+ *   native token accounting and prompt-cache breakpoints
  * - Temp file management for large prompts
  * - Configurable timeout, buffer limits, model
  * - JSON envelope unwrapping (data.result, usage extraction)
@@ -19,15 +21,35 @@ import { writeFileSync, unlinkSync, existsSync, readFileSync } from 'node:fs';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
 import { escapeShellArg, execShellCommand } from './shell-utils.ts';
+import { loadPricingTable, computeModelCost } from './workflow-cost.ts';
 
 // ────────────────────────────────────────────────────────────────
 // Types
 // ────────────────────────────────────────────────────────────────
 
 /**
- * Supported LLM providers
+ * Supported LLM providers.
+ *
+ * `anthropic` talks to the Messages API over HTTP; the others shell out
+ * to a CLI.
+ */
+export type LLMProvider = 'claude' | 'codex' | 'openai' | 'anthropic';
+
+/** Providers that are invoked through a local CLI binary. */
+type CliProvider = Exclude<LLMProvider, 'anthropic'>;
+
+/**
+ * A segment of a prompt. Segments are concatenated in order; for the
+ * `anthropic` provider, `cache: true` places a cache-control breakpoint at
+ * the end of the segment so everything up to it can be reused across calls.
  */
-export type LLMProvider = 'claude' | 'codex' | 'openai';
+export interface LLMPromptBlock {
+  text: string;
+  cache?: boolean;
+}
+
+/** A prompt is either plain text or an ordered list of blocks. */
+export type LLMPrompt = string | LLMPromptBlock[];
 
 export interface LLMCallOptions {
   /** LLM provider to use (default: 'claude') */
@@ -52,6 +74,14 @@ export interface LLMCallOptions {
   cwd?: string;
   /** Override CLI command (e.g., 'claude', 'codex', 'openai') */
   cliCmd?: string;
+  /** System prompt (anthropic provider only) */
+  system?: string;
+  /** Max output tokens (anthropic provider only, default: 8192) */
+  maxTokens?: number;
+  /** API base URL (anthropic provider only, default: ANTHROPIC_BASE_URL or https://api.anthropic.com) */
+  baseUrl?: string;
+  /** Called with each text delta in stream mode (anthropic provider only) */
+  onText?: (chunk: string) => void;
 }
 
 export interface LLMCallResult {
@@ -63,8 +93,13 @@ export interface LLMCallResult {
     outputTokens: number;
     totalTokens: number;
   };
-  /** Cost in USD (if available from JSON envelope) */
+  /** Cost in USD (if available from JSON envelope or the pricing table) */
   costUsd?: number;
+  /** Prompt-cache token counts (anthropic provider only; already included in usage.inputTokens) */
+  cacheUsage?: {
+    cacheCreationInputTokens: number;
+    cacheReadInputTokens: number;
+  };
   /** Raw output before cleaning */
   rawOutput: string;
   /** Provider that was used */
@@ -97,6 +132,13 @@ const DEFAULT_MAX_BUFFER = 10 * 1024 * 1024; // 10MB
 const DEFAULT_MAX_RETRIES = 2;
 const DEFAULT_BACKOFF_BASE = 2000; // 2 seconds
 
+const ANTHROPIC_DEFAULT_BASE_URL = 'https://api.anthropic.com';
+const ANTHROPIC_API_VERSION = '2023-06-01';
+const ANTHROPIC_DEFAULT_MODEL = 'claude-sonnet-4-5-20250929';
+const ANTHROPIC_DEFAULT_MAX_TOKENS = 8192;
+/** The Messages API accepts at most four cache-control breakpoints per request. */
+const ANTHROPIC_MAX_CACHE_BREAKPOINTS = 4;
+
 // ────────────────────────────────────────────────────────────────
 // Text Cleaning Utilities
 // ────────────────────────────────────────────────────────────────
@@ -211,7 +253,7 @@ interface ProviderConfig {
   defaultArgs: string[];
 }
 
-const PROVIDER_CONFIGS: Record<LLMProvider, ProviderConfig> = {
+const PROVIDER_CONFIGS: Record<CliProvider, ProviderConfig> = {
   claude: {
     defaultCmd: 'claude',
     envVarName: 'CLAUDECODE',
@@ -235,20 +277,20 @@ const PROVIDER_CONFIGS: Record<LLMProvider, ProviderConfig> = {
 /**
  * Get provider configuration
  */
-function getProviderConfig(provider: LLMProvider): ProviderConfig {
+function getProviderConfig(provider: CliProvider): ProviderConfig {
   return PROVIDER_CONFIGS[provider];
 }
 
 /**
  * Get CLI command for provider
  */
-function getCliCommand(provider: LLMProvider, options: LLMCallOptions): string {
+function getCliCommand(provider: CliProvider, options: LLMCallOptions): string {
   if (options.cliCmd) {
     return options.cliCmd;
   }
 
   const config = getProviderConfig(provider);
-  const envVarMap: Record<LLMProvider, string | undefined> = {
+  const envVarMap: Record<CliProvider, string | undefined> = {
     claude: process.env.CLAUDE_CMD,
     codex: process.env.CODEX_CMD,
     openai: process.env.OPENAI_CMD,
@@ -268,7 +310,7 @@ function executeSync(
   tmpFile: string,
   cliArgs: string[],
   options: LLMCallOptions,
-  provider: LLMProvider
+  provider: CliProvider
 ): string {
   const timeout = options.timeout ?? DEFAULT_TIMEOUT;
   const maxBuffer = options.maxBuffer ?? DEFAULT_MAX_BUFFER;
@@ -392,7 +434,7 @@ async function executeStream(
   tmpFile: string,
   cliArgs: string[],
   options: LLMCallOptions,
-  provider: LLMProvider
+  provider: CliProvider
 ): Promise<string> {
   return new Promise((resolve, reject) => {
     const cwd = options.cwd || process.cwd();
@@ -446,6 +488,313 @@ async function executeStream(
   });
 }
 
+// ────────────────────────────────────────────────────────────────
+// Anthropic Messages API
+// ────────────────────────────────────────────────────────────────
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+interface AnthropicResponse {
+  text: string;
+  usage: AnthropicUsage;
+  rawOutput: string;
+}
+
+/**
+ * Normalize a prompt into blocks, dropping empty segments (the API rejects
+ * empty text blocks).
+ */
+function toPromptBlocks(prompt: LLMPrompt): LLMPromptBlock[] {
+  const blocks = typeof prompt === 'string' ? [{ text: prompt }] : prompt;
+  return blocks.filter((b) => b.text.length > 0);
+}
+
+/**
+ * Flatten a prompt to plain text for CLI providers.
+ */
+export function promptToText(prompt: LLMPrompt): string {
+  return typeof prompt === 'string' ? prompt : prompt.map((b) => b.text).join('');
+}
+
+/**
+ * Split a filled prompt template into a cacheable static prefix and the
+ * dynamic remainder.
+ *
+ * The prefix is everything in the template before its first `{{PLACEHOLDER}}`,
+ * which is identical across calls and therefore a good cache breakpoint.
+ * Falls back to a single uncached block if the filled prompt does not start
+ * with that prefix.
+ */
+export function splitPromptForCache(template: string, filled: string): LLMPromptBlock[] {
+  const placeholderIdx = template.indexOf('{{');
+  const prefix = placeholderIdx >= 0 ? template.slice(0, placeholderIdx) : template;
+
+  if (prefix.length === 0 || !filled.startsWith(prefix)) {
+    return [{ text: filled }];
+  }
+
+  const rest = filled.slice(prefix.length);
+  return rest.length > 0
+    ? [{ text: prefix, cache: true }, { text: rest }]
+    : [{ text: prefix, cache: true }];
+}
+
+/**
+ * Resolve the Messages API endpoint. ANTHROPIC_BASE_URL lets a proxy or a
+ * local mock server stand in for the real API.
+ */
+function getAnthropicEndpoint(options: LLMCallOptions): string {
+  const base = options.baseUrl || process.env.ANTHROPIC_BASE_URL || ANTHROPIC_DEFAULT_BASE_URL;
+  return `${base.replace(/\/+$/, '')}/v1/messages`;
+}
+
+/**
+ * Build the Messages API request body.
+ */
+function buildAnthropicRequest(
+  blocks: LLMPromptBlock[],
+  options: LLMCallOptions,
+  stream: boolean
+): Record<string, unknown> {
+  const breakpoints = blocks.filter((b) => b.cache).length;
+  if (breakpoints > ANTHROPIC_MAX_CACHE_BREAKPOINTS) {
+    throw new Error(
+      `Too many cache breakpoints: ${breakpoints} (Anthropic allows at most ${ANTHROPIC_MAX_CACHE_BREAKPOINTS})`
+    );
+  }
+
+  const content = blocks.map((b) => ({
+    type: 'text',
+    text: b.text,
+    ...(b.cache && { cache_control: { type: 'ephemeral' } }),
+  }));
+
+  return {
+    model: options.model || ANTHROPIC_DEFAULT_MODEL,
+    max_tokens: options.maxTokens ?? ANTHROPIC_DEFAULT_MAX_TOKENS,
+    messages: [{ role: 'user', content }],
+    ...(options.system && { system: options.system }),
+    ...(stream && { stream: true }),
+  };
+}
+
+/**
+ * Turn a non-2xx Messages API response into an actionable error.
+ */
+function anthropicHttpError(status: number, body: string, endpoint: string): Error {
+  let detail = body;
+  try {
+    const parsed = JSON.parse(body);
+    if (parsed?.error?.message) {
+      detail = `${parsed.error.type || 'error'}: ${parsed.error.message}`;
+    }
+  } catch {
+    // Non-JSON error body — report as-is
+  }
+
+  if (status === 401 || status === 403) {
+    return new Error(
+      `anthropic API authentication failed (${status}): ${detail}\n\n` +
+      `Troubleshooting:\n` +
+      `  - Check API key: echo $ANTHROPIC_API_KEY\n` +
+      `  - Endpoint: ${endpoint}\n`
+    );
+  }
+
+  if (status === 429 || status === 529) {
+    return new Error(
+      `anthropic API rate limit or overload (${status}): ${detail}\n\n` +
+      `Troubleshooting:\n` +
+      `  - Wait a few minutes and try again\n` +
+      `  - Check usage at: https://console.anthropic.com/settings/usage\n`
+    );
+  }
+
+  return new Error(`anthropic API request failed (${status}): ${detail}\n\nEndpoint: ${endpoint}\n`);
+}
+
+/**
+ * Read a server-sent event stream from the Messages API, accumulating text
+ * deltas and usage from message_start/message_delta events.
+ */
+async function readAnthropicStream(
+  body: ReadableStream<Uint8Array>,
+  onText?: (chunk: string) => void
+): Promise<AnthropicResponse> {
+  const decoder = new TextDecoder();
+  const usage: AnthropicUsage = {};
+  let text = '';
+  let rawOutput = '';
+  let buffer = '';
+
+  const handleEvent = (data: string) => {
+    if (!data || data === '[DONE]') return;
+    const event = JSON.parse(data);
+
+    switch (event.type) {
+      case 'message_start':
+        Object.assign(usage, event.message?.usage || {});
+        break;
+      case 'content_block_delta':
+        if (event.delta?.type === 'text_delta') {
+          text += event.delta.text;
+          onText?.(event.delta.text);
+        }
+        break;
+      case 'message_delta':
+        Object.assign(usage, event.usage || {});
+        break;
+      case 'error':
+        throw new Error(
+          `anthropic API stream error: ${event.error?.type || 'error'}: ${event.error?.message || data}`
+        );
+    }
+  };
+
+  const eventData = (rawEvent: string) =>
+    rawEvent
+      .split(/\r?\n/)
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.slice(5).trimStart())
+      .join('\n');
+
+  const reader = body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    const chunk = decoder.decode(value, { stream: true });
+    rawOutput += chunk;
+    buffer += chunk;
+
+    // Events are separated by a blank line; keep any trailing partial event
+    let sep: number;
+    while ((sep = buffer.search(/\r?\n\r?\n/)) >= 0) {
+      const rawEvent = buffer.slice(0, sep);
+      buffer = buffer.slice(sep).replace(/^\r?\n\r?\n/, '');
+      handleEvent(eventData(rawEvent));
+    }
+  }
+
+  // A final event may end at EOF without the blank line after it
+  const tail = decoder.decode();
+  rawOutput += tail;
+  buffer += tail;
+  if (buffer.trim()) handleEvent(eventData(buffer));
+
+  return { text, usage, rawOutput };
+}
+
+/**
+ * Estimate the cost of a Messages API call from the repo pricing table.
+ * Returns undefined when the model is not priced or config is unreadable.
+ */
+function computeAnthropicCost(
+  model: string,
+  usage: AnthropicUsage,
+  repoDir?: string
+): number | undefined {
+  let pricing;
+  try {
+    pricing = loadPricingTable(repoDir)[model];
+  } catch {
+    return undefined;
+  }
+  if (!pricing) return undefined;
+
+  return computeModelCost(
+    {
+      inputTokens: usage.input_tokens || 0,
+      cacheCreationTokens: usage.cache_creation_input_tokens || 0,
+      cacheReadTokens: usage.cache_read_input_tokens || 0,
+      outputTokens: usage.output_tokens || 0,
+    },
+    pricing
+  );
+}
+
+/**
+ * Call the Anthropic Messages API directly over HTTP.
+ *
+ * 'sync' mode issues a single JSON request; 'stream' mode consumes the SSE
+ * stream and reports deltas through options.onText. Both return native
+ * token usage, with cost derived from the pricing table.
+ */
+async function callAnthropicAPI(
+  prompt: LLMPrompt,
+  options: LLMCallOptions
+): Promise<Omit<LLMCallResult, 'provider'>> {
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  if (!apiKey) {
+    throw new Error(
+      'ANTHROPIC_API_KEY is not set — required for the anthropic provider.\n' +
+      'Export it in your shell or add it to .env'
+    );
+  }
+
+  const stream = options.mode === 'stream';
+  const endpoint = getAnthropicEndpoint(options);
+  const model = options.model || ANTHROPIC_DEFAULT_MODEL;
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+  const body = buildAnthropicRequest(toPromptBlocks(prompt), options, stream);
+
+  let res: Response;
+  try {
+    res = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': ANTHROPIC_API_VERSION,
+      },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(timeout),
+    });
+  } catch (error) {
+    const err = error as Error;
+    if (err.name === 'TimeoutError') {
+      throw new Error(`anthropic API timed out after ${timeout}ms\n\nEndpoint: ${endpoint}\n`);
+    }
+    throw new Error(`anthropic API request failed: ${err.message}\n\nEndpoint: ${endpoint}\n`);
+  }
+
+  if (!res.ok) {
+    throw anthropicHttpError(res.status, await res.text(), endpoint);
+  }
+
+  let response: AnthropicResponse;
+  if (stream && res.body) {
+    response = await readAnthropicStream(res.body, options.onText);
+  } else {
+    const rawOutput = await res.text();
+    const data = JSON.parse(rawOutput);
+    const text = (data.content || [])
+      .filter((block: { type: string }) => block.type === 'text')
+      .map((block: { text: string }) => block.text)
+      .join('');
+    response = { text, usage: data.usage || {}, rawOutput };
+  }
+
+  const { usage } = response;
+  const cacheCreationInputTokens = usage.cache_creation_input_tokens || 0;
+  const cacheReadInputTokens = usage.cache_read_input_tokens || 0;
+  const inputTokens = (usage.input_tokens || 0) + cacheCreationInputTokens + cacheReadInputTokens;
+  const outputTokens = usage.output_tokens || 0;
+
+  return {
+    text: response.text.trim(),
+    usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+    costUsd: computeAnthropicCost(model, usage, options.cwd),
+    cacheUsage: { cacheCreationInputTokens, cacheReadInputTokens },
+    rawOutput: response.rawOutput,
+  };
+}
+
 // ────────────────────────────────────────────────────────────────
 // Health Check
 // ────────────────────────────────────────────────────────────────
@@ -630,7 +979,7 @@ export async function checkClaudeAvailability(
  * Call LLM CLI with the given prompt.
  *
  * Features:
- * - Multi-provider support (Claude, Codex, OpenAI)
+ * - Multi-provider support (Claude, Codex, OpenAI, Anthropic Messages API)
  * - Supports both sync (execSync) and stream (spawn) modes
  * - Temp file management for large prompts
  * - Configurable timeout, buffer limits, model
@@ -639,7 +988,7 @@ export async function checkClaudeAvailability(
  * - Tool-call/XML tag stripping
  * - Provider-specific env injection
  *
- * @param prompt - The prompt to send to the LLM
+ * @param prompt - The prompt to send to the LLM (text or cacheable blocks)
  * @param options - Configuration options
  * @returns Result with cleaned text, usage, and cost
  *
@@ -673,9 +1022,19 @@ export async function checkClaudeAvailability(
  *   cliFlags: ['--tools', '', '--append-system-prompt', 'Be concise.'],
  * });
  * ```
+ *
+ * @example
+ * ```typescript
+ * // Anthropic Messages API with a cached instruction prefix
+ * const result = await callLLM(
+ *   [{ text: rubric, cache: true }, { text: diff }],
+ *   { provider: 'anthropic', model: 'claude-sonnet-4-5-20250929' }
+ * );
+ * console.log(result.usage, result.costUsd, result.cacheUsage);
+ * ```
  */
 export async function callLLM(
-  prompt: string,
+  prompt: LLMPrompt,
   options: LLMCallOptions = {}
 ): Promise<LLMCallResult> {
   const provider = options.provider || 'claude';
@@ -693,7 +1052,7 @@ export async function callLLM(
  * Backward compatibility: callClaude() is an alias for callLLM() with provider='claude'
  */
 export async function callClaude(
-  prompt: string,
+  prompt: LLMPrompt,
   options: Omit<LLMCallOptions, 'provider'> = {}
 ): Promise<LLMCallResult> {
   return callLLM(prompt, { ...options, provider: 'claude' });
@@ -703,18 +1062,28 @@ export async function callClaude(
  * Internal: Single LLM CLI call without retry.
  */
 async function callLLMOnce(
-  prompt: string,
+  prompt: LLMPrompt,
   options: LLMCallOptions,
   provider: LLMProvider
 ): Promise<LLMCallResult> {
   const mode = options.mode || 'sync';
   const stripCalls = options.stripToolCalls ?? true;
 
+  // HTTP provider: no temp file or CLI involved
+  if (provider === 'anthropic') {
+    const result = await callAnthropicAPI(prompt, options);
+    return {
+      ...result,
+      text: stripCalls ? stripToolCalls(result.text) : result.text,
+      provider,
+    };
+  }
+
   // Create temp file for prompt
   const tmpFile = join(tmpdir(), `wavemill-${provider}-${Date.now()}.txt`);
 
   try {
-    writeFileSync(tmpFile, prompt, 'utf-8');
+    writeFileSync(tmpFile, promptToText(prompt), 'utf-8');
 
     // Build CLI arguments
     const config = getProviderConfig(provider);
@@ -767,7 +1136,7 @@ async function callLLMOnce(
  * Internal: LLM CLI call with retry logic and exponential backoff.
  */
 async function callLLMWithRetry(
-  prompt: string,
+  prompt: LLMPrompt,
   options: LLMCallOptions,
   provider: LLMProvider,
   maxRetries: number
@@ -803,7 +1172,7 @@ async function callLLMWithRetry(
   }
 
   throw new Error(
-    `${provider} CLI call failed after ${maxRetries + 1} attempts\n\n` +
+    `${provider === 'anthropic' ? 'anthropic API' : `${provider} CLI`} call failed after ${maxRetries + 1} attempts\n\n` +
     `Last error: ${lastError?.message}\n\n` +
     `Troubleshooting:\n` +
     `  - Run health check: npm run check:review\n` +
@@ -67,8 +67,8 @@ export interface LLMRouterOptions {
 // Constants
 // ────────────────────────────────────────────────────────────────
 
-const DEFAULT_ARTIFACT_PATH = 'dspy/artifacts/optimized-selector.json';
-const DEFAULT_RUNTIME_MODEL = 'gpt-4o-mini';
+export const DEFAULT_ARTIFACT_PATH = 'dspy/artifacts/optimized-selector.json';
+export const DEFAULT_RUNTIME_MODEL = 'gpt-4o-mini';
 const DEFAULT_PROVIDER = 'openai';
 const TIMEOUT_MS = 15_000;
 const MAX_PROMPT_LENGTH = 2000;
@@ -204,7 +204,7 @@ function callOpenAI(prompt: string, model: string): string {
 /**
  * Default LLM call: routes to the configured provider.
  */
-function defaultCallFn(prompt: string, model: string, provider?: string): string {
+export function defaultCallFn(prompt: string, model: string, provider?: string): string {
   return callOpenAI(prompt, model);
 }
 
@@ -0,0 +1,107 @@
+/**
+ * Tests for mill lifecycle hooks: config validation, command and module
+ * hooks, timeouts and failure policies.
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { HookRegistry, resolveHooks, hookEnv, blockingFailure, type HookContext } from './mill-hooks.ts';
+
+let dir: string;
+let context: HookContext;
+
+before(() => {
+  dir = mkdtempSync(join(tmpdir(), 'mill-hooks-test-'));
+  const worktree = join(dir, 'worktree');
+  mkdirSync(worktree);
+  context = {
+    phase: 'afterPrCreated',
+    issue: 'HOK-1',
+    title: 'Add a thing',
+    state: 'pr_open',
+    branch: 'task/add-a-thing',
+    worktree,
+    repoDir: dir,
+    agent: 'claude',
+    pr: 42,
+  };
+});
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('resolveHooks', () => {
+  it('applies defaults, resolves module paths and skips disabled hooks', () => {
+    const hooks = resolveHooks([
+      { phase: 'beforeLaunch', command: 'npm ci' },
+      { name: 'notify', phase: 'afterMerge', module: 'hooks/notify.ts', timeoutSeconds: 5, onFailure: 'ignore' },
+      { phase: 'afterReview', command: 'true', enabled: false },
+    ], dir);
+    assert.deepEqual(hooks, [
+      { name: 'npm ci', phase: 'beforeLaunch', command: 'npm ci', timeoutMs: 120_000, onFailure: 'warn' },
+      { name: 'notify', phase: 'afterMerge', module: join(dir, 'hooks/notify.ts'), timeoutMs: 5_000, onFailure: 'ignore' },
+    ]);
+  });
+
+  it('rejects unknown phases and ambiguous hooks', () => {
+    assert.throws(() => resolveHooks([{ phase: 'afterDeploy' as never, command: 'x' }], dir), /unknown phase "afterDeploy"/);
+    assert.throws(() => resolveHooks([{ phase: 'afterMerge' }], dir), /exactly one of "command" or "module"/);
+    assert.throws(() => resolveHooks([{ phase: 'afterMerge', command: 'x', module: 'y.ts' }], dir), /exactly one/);
+  });
+});
+
+describe('HookRegistry', () => {
+  it('runs command hooks in the worktree with the context on stdin and in env', async () => {
+    const logFile = join(dir, 'tasks', 'HOK-1', 'hooks.log');
+    const registry = HookRegistry.fromConfig([
+      { name: 'record', phase: 'afterPrCreated', command: 'pwd > ctx.txt; cat >> ctx.txt; echo "$WAVEMILL_ISSUE #$WAVEMILL_PR"' },
+      { name: 'other phase', phase: 'afterMerge', command: 'exit 1' },
+    ], dir);
+
+    const results = await registry.run(context, { logFile });
+    assert.deepEqual(results.map((r) => [r.hook.name, r.ok]), [['record', true]]);
+
+    const [cwd, stdin] = readFileSync(join(context.worktree, 'ctx.txt'), 'utf-8').split('\n');
+    assert.equal(cwd, context.worktree);
+    assert.deepEqual(JSON.parse(stdin), context);
+    assert.match(readFileSync(logFile, 'utf-8'), /afterPrCreated: record\nHOK-1 #42\n/);
+    assert.equal(hookEnv({ ...context, evalRecord: { score: 0.8 } as never }).WAVEMILL_EVAL_SCORE, '0.8');
+  });
+
+  it('times out slow hooks and applies failure policies', async () => {
+    const logged: string[] = [];
+    const registry = HookRegistry.fromConfig([
+      { name: 'slow', phase: 'afterPrCreated', command: 'sleep 5', timeoutSeconds: 0.2 },
+      { name: 'quiet', phase: 'afterPrCreated', command: 'exit 1', onFailure: 'ignore' },
+      { name: 'gate', phase: 'afterPrCreated', command: 'echo nope; exit 4', onFailure: 'fail' },
+    ], dir);
+
+    const results = await registry.run(context, { log: (message) => logged.push(message) });
+    assert.deepEqual(results.map((r) => r.error), ['timed out after 0.2s', 'exited with code 1', 'exited with code 4: nope']);
+    assert.ok(results[0].durationMs < 2_000);
+    assert.equal(blockingFailure(results)?.hook.name, 'gate');
+    assert.deepEqual(logged.map((m) => m.match(/hook "(\w+)"/)![1]), ['slow', 'gate']);
+  });
+
+  it('calls the default export of module hooks with the typed context', async () => {
+    const module = join(dir, 'hook.mjs');
+    writeFileSync(module, [
+      "import { writeFileSync } from 'node:fs';",
+      "export default async (context) => writeFileSync(context.worktree + '/module.txt', context.phase + ' ' + context.pr);",
+    ].join('\n'));
+    writeFileSync(join(dir, 'bad.mjs'), 'export const hook = () => {};\n');
+
+    const results = await HookRegistry.fromConfig([
+      { phase: 'afterPrCreated', module: 'hook.mjs' },
+      { phase: 'afterPrCreated', module: 'bad.mjs' },
+    ], dir).run(context);
+
+    assert.equal(readFileSync(join(context.worktree, 'module.txt'), 'utf-8'), 'afterPrCreated 42');
+    assert.equal(results[0].ok, true);
+    assert.match(results[1].error!, /has no default-exported function/);
+  });
+});
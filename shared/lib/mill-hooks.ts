@@ -0,0 +1,276 @@
+/**
+ * Mill Hooks - Team-defined steps around the mill task lifecycle.
+ *
+ * Hooks are declared in the `hooks` section of .wavemill-config.json and run
+ * at these phases of a mill task:
+ *
+ * - `beforeLaunch`   — worktree ready, agent about to start
+ * - `afterPrCreated` — the agent opened a PR
+ * - `afterReview`    — the PR received a review
+ * - `afterMerge`     — the PR merged (after the post-merge eval, if any)
+ *
+ * A hook is either a shell `command` (run with bash in the task's worktree,
+ * the context as JSON on stdin and as `WAVEMILL_*` env vars) or a local
+ * TS/JS `module` whose default export receives the typed `HookContext`.
+ * Each has a timeout and a failure policy:
+ *
+ * - `warn` (default) — log the failure and carry on
+ * - `ignore`         — carry on without logging
+ * - `fail`           — fail the step: a `beforeLaunch` failure is retried per
+ *                      the mill's retry policy (a launch gate); after a PR
+ *                      exists the task is failed. `afterMerge` can't undo
+ *                      the merge, so `fail` there is logged as an error.
+ *
+ * @module mill-hooks
+ */
+
+import { appendFileSync, existsSync, mkdirSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { spawn } from 'node:child_process';
+import type { HookConfig } from './config.ts';
+import type { EvalRecord } from './eval-schema.ts';
+import type { TaskState } from './mill-state.ts';
+
+// ────────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────────
+
+export const HOOK_PHASES = ['beforeLaunch', 'afterPrCreated', 'afterReview', 'afterMerge'] as const;
+export type HookPhase = (typeof HOOK_PHASES)[number];
+
+export type HookFailurePolicy = 'warn' | 'ignore' | 'fail';
+
+/** What a hook is told about the task. */
+export interface HookContext {
+  phase: HookPhase;
+  issue: string;
+  title: string;
+  state: TaskState;
+  branch: string;
+  worktree: string;
+  repoDir: string;
+  agent?: string;
+  model?: string;
+  pr?: number;
+  /** The task's eval record (`afterMerge`, when an eval ran) */
+  evalRecord?: EvalRecord;
+}
+
+/** Signature of a module hook's default export. */
+export type HookFunction = (context: HookContext) => void | Promise<void>;
+
+/** A validated hook from config. */
+export interface MillHook {
+  name: string;
+  phase: HookPhase;
+  command?: string;
+  /** Absolute module path */
+  module?: string;
+  timeoutMs: number;
+  onFailure: HookFailurePolicy;
+}
+
+export interface HookResult {
+  hook: MillHook;
+  ok: boolean;
+  durationMs: number;
+  error?: string;
+}
+
+export interface HookRunOptions {
+  /** Appends each hook's output here (e.g. `tasks/<issue>/hooks.log`) */
+  logFile?: string;
+  log?: (message: string) => void;
+}
+
+// ────────────────────────────────────────────────────────────────
+// Constants
+// ────────────────────────────────────────────────────────────────
+
+const DEFAULT_TIMEOUT_SECONDS = 120;
+
+/** Output kept for error messages */
+const ERROR_TAIL_CHARS = 500;
+
+// ────────────────────────────────────────────────────────────────
+// Config
+// ────────────────────────────────────────────────────────────────
+
+function isHookPhase(value: unknown): value is HookPhase {
+  return (HOOK_PHASES as readonly unknown[]).includes(value);
+}
+
+/**
+ * Validate hook config entries; module paths resolve against `repoDir`.
+ * Throws on the first invalid entry.
+ */
+export function resolveHooks(configs: HookConfig[], repoDir: string): MillHook[] {
+  return configs
+    .filter((config) => config.enabled !== false)
+    .map((config, index) => {
+      const name = config.name ?? config.command ?? config.module ?? `hook ${index + 1}`;
+      if (!isHookPhase(config.phase)) {
+        throw new Error(`Hook "${name}": unknown phase "${config.phase}" (expected: ${HOOK_PHASES.join(', ')})`);
+      }
+      if (!config.command === !config.module) {
+        throw new Error(`Hook "${name}": set exactly one of "command" or "module"`);
+      }
+      return {
+        name,
+        phase: config.phase,
+        ...(config.command ? { command: config.command } : {}),
+        ...(config.module ? { module: resolve(repoDir, config.module) } : {}),
+        timeoutMs: (config.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS) * 1000,
+        onFailure: config.onFailure ?? 'warn',
+      };
+    });
+}
+
+/** Environment passed to command hooks. */
+export function hookEnv(context: HookContext): Record<string, string> {
+  const env: Record<string, string> = {
+    WAVEMILL_HOOK_PHASE: context.phase,
+    WAVEMILL_ISSUE: context.issue,
+    WAVEMILL_TITLE: context.title,
+    WAVEMILL_STATE: context.state,
+    WAVEMILL_BRANCH: context.branch,
+    WAVEMILL_WORKTREE: context.worktree,
+    WAVEMILL_REPO_DIR: context.repoDir,
+  };
+  if (context.agent) env.WAVEMILL_AGENT = context.agent;
+  if (context.model) env.WAVEMILL_MODEL = context.model;
+  if (context.pr !== undefined) env.WAVEMILL_PR = String(context.pr);
+  if (context.evalRecord?.score !== undefined) env.WAVEMILL_EVAL_SCORE = String(context.evalRecord.score);
+  return env;
+}
+
+// ────────────────────────────────────────────────────────────────
+// Execution
+// ────────────────────────────────────────────────────────────────
+
+function runCommand(hook: MillHook, context: HookContext, logFile?: string): Promise<void> {
+  const cwd = existsSync(context.worktree) ? context.worktree : context.repoDir;
+
+  return new Promise((resolvePromise, reject) => {
+    const child = spawn('bash', ['-c', hook.command!], {
+      cwd,
+      env: { ...process.env, ...hookEnv(context) },
+      stdio: ['pipe', 'pipe', 'pipe'],
+      detached: true,
+    });
+
+    let output = '';
+    const collect = (chunk: Buffer) => {
+      output += chunk.toString();
+      if (logFile) appendFileSync(logFile, chunk);
+    };
+    child.stdout.on('data', collect);
+    child.stderr.on('data', collect);
+
+    const timer = setTimeout(() => {
+      try {
+        process.kill(-child.pid!, 'SIGTERM');
+      } catch {
+        // Already gone
+      }
+      reject(new Error(`timed out after ${hook.timeoutMs / 1000}s`));
+    }, hook.timeoutMs);
+
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on('close', (code, signal) => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolvePromise();
+      } else {
+        const tail = output.trim().slice(-ERROR_TAIL_CHARS);
+        reject(new Error(`exited with ${signal ?? `code ${code}`}${tail ? `: ${tail}` : ''}`));
+      }
+    });
+
+    child.stdin.on('error', () => {
+      // The command didn't read its stdin
+    });
+    child.stdin.end(JSON.stringify(context));
+  });
+}
+
+async function runModule(hook: MillHook, context: HookContext): Promise<void> {
+  const loaded = await import(pathToFileURL(hook.module!).href);
+  const fn = loaded.default as unknown;
+  if (typeof fn !== 'function') {
+    throw new Error(`${hook.module} has no default-exported function`);
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`timed out after ${hook.timeoutMs / 1000}s`)), hook.timeoutMs);
+  });
+  try {
+    await Promise.race([(fn as HookFunction)(context), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// ────────────────────────────────────────────────────────────────
+// Registry
+// ────────────────────────────────────────────────────────────────
+
+/**
+ * The configured hooks, grouped by phase. Hooks of a phase run one after
+ * another in config order; a failing hook doesn't stop the ones after it.
+ */
+export class HookRegistry {
+  private readonly hooks: MillHook[];
+
+  constructor(hooks: MillHook[]) {
+    this.hooks = hooks;
+  }
+
+  /** Build from the `hooks` config section. */
+  static fromConfig(configs: HookConfig[] | undefined, repoDir: string): HookRegistry {
+    return new HookRegistry(resolveHooks(configs ?? [], repoDir));
+  }
+
+  forPhase(phase: HookPhase): MillHook[] {
+    return this.hooks.filter((hook) => hook.phase === phase);
+  }
+
+  get size(): number {
+    return this.hooks.length;
+  }
+
+  /** Run every hook for `context.phase`; never throws. */
+  async run(context: HookContext, options: HookRunOptions = {}): Promise<HookResult[]> {
+    const results: HookResult[] = [];
+    for (const hook of this.forPhase(context.phase)) {
+      const started = Date.now();
+      if (options.logFile) {
+        mkdirSync(dirname(options.logFile), { recursive: true });
+        appendFileSync(options.logFile, `[wavemill] ${new Date().toISOString()} ${context.phase}: ${hook.name}\n`);
+      }
+      try {
+        if (hook.command) await runCommand(hook, context, options.logFile);
+        else await runModule(hook, context);
+        results.push({ hook, ok: true, durationMs: Date.now() - started });
+      } catch (error) {
+        const message = (error as Error).message;
+        results.push({ hook, ok: false, durationMs: Date.now() - started, error: message });
+        if (options.logFile) appendFileSync(options.logFile, `[wavemill] ${hook.name} failed: ${message}\n`);
+        if (hook.onFailure !== 'ignore') {
+          options.log?.(`⚠ ${context.issue}: ${context.phase} hook "${hook.name}" failed: ${message}`);
+        }
+      }
+    }
+    return results;
+  }
+}
+
+/** The first failure whose policy is `fail`, if any. */
+export function blockingFailure(results: HookResult[]): HookResult | undefined {
+  return results.find((result) => !result.ok && result.hook.onFailure === 'fail');
+}
@@ -0,0 +1,452 @@
+/**
+ * Tests for the mill orchestrator, driven by in-memory services and runner.
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, mkdirSync, rmSync, readFileSync, writeFileSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import type { TrackerIssue } from './issue-tracker.ts';
+import type { TaskRunner, TaskLaunch, TaskHandle } from './mill-runner.ts';
+import { MillLedger, createTask, transitionTask } from './mill-state.ts';
+import { HookRegistry, resolveHooks } from './mill-hooks.ts';
+import type { HookConfig } from './config.ts';
+import {
+  MillOrchestrator,
+  resolveMillSettings,
+  isTaskPacket,
+  type MillServices,
+  type PullRequestState,
+} from './mill-orchestrator.ts';
+
+const PACKET = '## Objective\nShip it';
+
+function issue(identifier: string, overrides: Partial<TrackerIssue> = {}): TrackerIssue {
+  return {
+    id: identifier,
+    identifier,
+    title: `Task ${identifier}`,
+    description: PACKET,
+    state: { name: 'Backlog' },
+    labels: { nodes: [] },
+    ...overrides,
+  };
+}
+
+/** In-memory stand-in for the tracker, GitHub and git. */
+function fakeWorld() {
+  const world = {
+    issues: new Map<string, TrackerIssue>(),
+    trackerStates: new Map<string, string>(),
+    completed: new Set<string>(),
+    prs: new Map<string, number>(),
+    prSince: [] as string[],
+    prStatus: new Map<number, { state: PullRequestState; reviewed: boolean }>(),
+    worktrees: new Set<string>(),
+    evals: [] as string[],
+    failures: { expand: 0, worktree: 0 },
+    alive: new Set<string>(),
+    launches: [] as TaskLaunch[],
+    costs: new Map<string, number>(),
+    evalDecisions: new Map<string, string[]>(),
+  };
+
+  const services: MillServices = {
+    getIssue: async (id) => world.issues.get(id)!,
+    setIssueState: async (id, state) => { world.trackerStates.set(id, state); },
+    isIssueCompleted: async (id) => world.completed.has(id),
+    expandIssue: async () => {
+      if (world.failures.expand > 0) {
+        world.failures.expand--;
+        throw new Error('LLM timeout');
+      }
+      return { packet: PACKET, details: '## 3. Approach\nDetails' };
+    },
+    createWorktree: async (_branch, dir) => {
+      if (world.failures.worktree > 0) {
+        world.failures.worktree--;
+        throw new Error('git fetch failed');
+      }
+      mkdirSync(dir, { recursive: true });
+      world.worktrees.add(dir);
+    },
+    removeWorktree: async (_branch, dir) => { world.worktrees.delete(dir); },
+    routeModel: async () => ({ agent: 'codex', model: 'gpt-5.4' }),
+    findPullRequest: async (branch, since) => {
+      world.prSince.push(since);
+      return world.prs.get(branch) ?? null;
+    },
+    getPullRequest: async (pr) => world.prStatus.get(pr) ?? { state: 'OPEN', reviewed: false },
+    runEval: async (task) => {
+      world.evals.push(task.issue);
+      world.evalDecisions.set(task.issue, (task.budget?.decisions ?? []).map((d) => d.action));
+    },
+    getEvalRecord: async () => null,
+    getTaskCost: async (task) => world.costs.get(task.issue) ?? null,
+    cheaperModel: async (model) => (model === 'gpt-5.4' ? { agent: 'claude', model: 'claude-haiku-4-5' } : null),
+  };
+
+  const runner: TaskRunner = {
+    name: 'fake',
+    launch: (task) => {
+      world.launches.push(task);
+      world.alive.add(task.issue);
+    },
+    isAlive: (task: TaskHandle) => world.alive.has(task.issue),
+    stop: (task: TaskHandle) => { world.alive.delete(task.issue); },
+    attachHint: (task: TaskHandle) => `watch ${task.issue}`,
+  };
+
+  return { world, services, runner };
+}
+
+let dir: string;
+let clock: Date;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'mill-orchestrator-test-'));
+  clock = new Date('2026-03-01T12:00:00Z');
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function setup(overrides: Parameters<typeof resolveMillSettings>[2] = {}, hooks: HookConfig[] = []) {
+  const fake = fakeWorld();
+  const settings = resolveMillSettings({ worktreeRoot: 'worktrees', maxRetries: 2, retryDelay: 5 }, dir, {
+    requireConfirm: false,
+    ...overrides,
+  });
+  const ledgerPath = join(dir, '.wavemill', 'mill-ledger.json');
+  const orchestrator = new MillOrchestrator({
+    ledger: new MillLedger(ledgerPath),
+    runner: fake.runner,
+    services: fake.services,
+    settings,
+    stateDir: join(dir, '.wavemill'),
+    hooks: new HookRegistry(resolveHooks(hooks, dir)),
+    log: () => {},
+    now: () => clock,
+  });
+  return { ...fake, orchestrator, ledgerPath, settings };
+}
+
+const stateOf = (ledgerPath: string, id: string) => new MillLedger(ledgerPath).get(id)?.state;
+
+describe('MillOrchestrator', () => {
+  it('drives a task from selection to merge, one step per tick', async () => {
+    const { world, orchestrator, ledgerPath } = setup();
+    world.issues.set('HOK-1', issue('HOK-1', { description: 'Please add a thing' }));
+
+    orchestrator.select(world.issues.get('HOK-1')!);
+    const expected: Array<[string, () => void]> = [
+      ['expanded', () => {}],
+      ['planned', () => {}],
+      ['running', () => {}],
+      ['running', () => {}],
+      ['pr_open', () => world.prs.set('task/hok-1-task-hok-1', 42)],
+      ['reviewing', () => world.prStatus.set(42, { state: 'OPEN', reviewed: true })],
+      ['merged', () => world.prStatus.set(42, { state: 'MERGED', reviewed: true })],
+    ];
+    for (const [state, setupWorld] of expected) {
+      setupWorld();
+      await orchestrator.tick();
+      assert.equal(stateOf(ledgerPath, 'HOK-1'), state);
+    }
+
+    const task = new MillLedger(ledgerPath).get('HOK-1')!;
+    assert.equal(task.pr, 42);
+    assert.equal(task.agent, 'codex');
+    assert.equal(task.model, 'gpt-5.4');
+    assert.equal(task.runner, 'fake');
+    assert.equal(task.cleanedUp, true);
+    // Only PRs opened since the task was selected count
+    assert.deepEqual([...new Set(world.prSince)], [task.history[0].at]);
+    assert.deepEqual(world.evals, ['HOK-1']);
+    assert.equal(world.trackerStates.get('HOK-1'), 'Done');
+    assert.equal(world.worktrees.size, 0);
+    assert.equal(world.alive.size, 0);
+    assert.deepEqual(orchestrator.activeTasks(), []);
+
+    // The agent got the expanded packet, with details copied into its worktree
+    const [launch] = world.launches;
+    const instructions = readFileSync(launch.instructionsFile, 'utf-8');
+    assert.match(instructions, /You are working on: Task HOK-1 \(HOK-1\)/);
+    assert.match(instructions, /## Objective\nShip it/);
+    assert.match(instructions, /Read task-packet-details.md/);
+    assert.doesNotMatch(instructions, /\{\{/);
+    assert.equal(launch.agent, 'codex');
+    assert.equal(launch.interactive, false);
+  });
+
+  it('retries failed steps with backoff and fails the task when retries run out', async () => {
+    const { world, orchestrator, ledgerPath } = setup();
+    world.issues.set('HOK-2', issue('HOK-2', { description: 'Needs expansion' }));
+    world.failures.expand = 1;
+    world.failures.worktree = 5;
+
+    orchestrator.select(world.issues.get('HOK-2')!);
+    await orchestrator.tick();
+    let task = new MillLedger(ledgerPath).get('HOK-2')!;
+    assert.equal(task.state, 'selected');
+    assert.equal(task.attempts, 1);
+    assert.equal(task.error, 'LLM timeout');
+
+    // Not due yet: nothing happens
+    await orchestrator.tick();
+    assert.equal(new MillLedger(ledgerPath).get('HOK-2')!.attempts, 1);
+
+    clock = new Date(clock.getTime() + 5_000);
+    await orchestrator.tick();
+    assert.equal(stateOf(ledgerPath, 'HOK-2'), 'expanded');
+
+    await orchestrator.tick();
+    clock = new Date(clock.getTime() + 5_000);
+    await orchestrator.tick();
+    task = new MillLedger(ledgerPath).get('HOK-2')!;
+    assert.equal(task.state, 'failed');
+    assert.equal(task.error, 'git fetch failed');
+    assert.equal(task.cleanedUp, true);
+    assert.equal(world.trackerStates.get('HOK-2'), 'Backlog');
+    assert.equal(world.launches.length, 0);
+  });
+
+  it('fails a task whose agent exits without a PR, and one whose PR is closed', async () => {
+    const { world, orchestrator, ledgerPath } = setup();
+    world.issues.set('HOK-3', issue('HOK-3'));
+    world.issues.set('HOK-4', issue('HOK-4'));
+    orchestrator.select(world.issues.get('HOK-3')!);
+    orchestrator.select(world.issues.get('HOK-4')!);
+    for (let i = 0; i < 3; i++) await orchestrator.tick();
+
+    world.alive.delete('HOK-3');
+    world.prs.set('task/hok-4-task-hok-4', 7);
+    await orchestrator.tick();
+    world.prStatus.set(7, { state: 'CLOSED', reviewed: false });
+    await orchestrator.tick();
+
+    const ledger = new MillLedger(ledgerPath);
+    assert.equal(ledger.get('HOK-3')!.state, 'failed');
+    assert.equal(ledger.get('HOK-3')!.history.at(-1)!.detail, 'agent exited without creating a PR');
+    assert.equal(ledger.get('HOK-4')!.state, 'failed');
+    assert.equal(ledger.get('HOK-4')!.error, 'PR #7 closed without merge');
+  });
+
+  it('treats external completion as merged and holds the slot until the runner closes (requireConfirm)', async () => {
+    const { world, orchestrator, ledgerPath } = setup({ requireConfirm: true, autoEval: false });
+    world.issues.set('HOK-5', issue('HOK-5'));
+    orchestrator.select(world.issues.get('HOK-5')!);
+    for (let i = 0; i < 3; i++) await orchestrator.tick();
+
+    world.completed.add('HOK-5');
+    await orchestrator.tick();
+    assert.equal(stateOf(ledgerPath, 'HOK-5'), 'merged');
+    assert.equal(orchestrator.freeSlots(), 2);
+    assert.equal(world.evals.length, 0);
+
+    world.alive.delete('HOK-5');
+    await orchestrator.tick();
+    assert.equal(new MillLedger(ledgerPath).get('HOK-5')!.cleanedUp, true);
+    assert.equal(orchestrator.freeSlots(), 3);
+  });
+
+  it('resumes in-flight tasks from the ledger after a restart', async () => {
+    const first = setup();
+    first.world.issues.set('HOK-6', issue('HOK-6'));
+    first.orchestrator.select(first.world.issues.get('HOK-6')!);
+    await first.orchestrator.tick();
+    await first.orchestrator.tick();
+    assert.equal(stateOf(first.ledgerPath, 'HOK-6'), 'planned');
+
+    // New orchestrator over the same ledger picks up at "planned"
+    const second = setup();
+    await second.orchestrator.tick();
+    assert.equal(stateOf(second.ledgerPath, 'HOK-6'), 'running');
+    assert.equal(second.world.launches.length, 1);
+    assert.equal(first.world.launches.length, 0);
+  });
+
+  it('fills free slots from the backlog with the scheduler, skipping known issues', async () => {
+    const { world, orchestrator } = setup({ maxParallel: 2 });
+    world.issues.set('HOK-7', issue('HOK-7'));
+    orchestrator.select(world.issues.get('HOK-7')!);
+
+    const selected = orchestrator.fillSlots([
+      issue('HOK-7'),
+      issue('HOK-8', { relations: { nodes: [{ type: 'blocks', relatedIssue: { id: '9', identifier: 'HOK-9', completedAt: null, canceledAt: null } }] } }),
+      issue('HOK-9', { inverseRelations: { nodes: [{ type: 'blocks', issue: { id: '8', identifier: 'HOK-8', completedAt: null, canceledAt: null } }] } }),
+    ]);
+
+    assert.deepEqual(selected.map((t) => t.issue), ['HOK-8']);
+    assert.equal(orchestrator.freeSlots(), 0);
+    assert.deepEqual(orchestrator.fillSlots([issue('HOK-10')]), []);
+  });
+
+  it('re-selects failed issues, avoids overlap with active tasks and keeps same-titled issues apart', () => {
+    const failed = createTask({ issue: 'HOK-11', title: 'Retry me', slug: 'retry-me', branch: 'task/retry-me', worktree: '/wt/retry-me' }, clock);
+    transitionTask(failed, 'failed', 'agent crashed', clock);
+    new MillLedger(join(dir, '.wavemill', 'mill-ledger.json')).put({ ...failed, cleanedUp: true });
+    const { orchestrator } = setup({ maxParallel: 3 });
+
+    const touchesUpload = (id: string) => issue(id, { title: 'Fix upload', description: `${PACKET}\nEdit \`src/upload.ts\`` });
+    const first = orchestrator.fillSlots([issue('HOK-11'), touchesUpload('HOK-12')]);
+    assert.deepEqual(first.map((t) => t.issue), ['HOK-11', 'HOK-12']);
+    assert.equal(first[0].state, 'selected');
+
+    // HOK-13 touches the same file as the active HOK-12
+    assert.deepEqual(orchestrator.fillSlots([touchesUpload('HOK-13')]), []);
+    const other = orchestrator.fillSlots([issue('HOK-14', { title: 'Fix upload' })]);
+    assert.equal(other[0].branch, 'task/hok-14-fix-upload');
+    assert.equal(first[1].branch, 'task/hok-12-fix-upload');
+  });
+});
+
+describe('MillOrchestrator budget guardrails', () => {
+  async function runToRunning(orchestrator: MillOrchestrator, world: ReturnType<typeof fakeWorld>['world'], ids: string[]) {
+    for (const id of ids) {
+      world.issues.set(id, issue(id));
+      orchestrator.select(world.issues.get(id)!);
+    }
+    for (let i = 0; i < 3; i++) await orchestrator.tick();
+  }
+
+  it('warns, downgrades to a cheaper model, then pauses until the limit is raised', async () => {
+    const { world, orchestrator, ledgerPath, settings } = setup({
+      budget: { perTaskUsd: 1, warnAt: [0.5, 0.8], action: 'downgrade' },
+    });
+    await runToRunning(orchestrator, world, ['HOK-1']);
+
+    world.costs.set('HOK-1', 0.6);
+    await orchestrator.tick();
+    assert.equal(stateOf(ledgerPath, 'HOK-1'), 'running');
+
+    // The last warning switches models, leaving the rest of the limit to the cheaper one
+    world.costs.set('HOK-1', 0.85);
+    await orchestrator.tick();
+    let task = new MillLedger(ledgerPath).get('HOK-1')!;
+    assert.equal(task.state, 'planned');
+    assert.equal(task.model, 'claude-haiku-4-5');
+    assert.equal(task.agent, 'claude');
+    assert.equal(world.alive.has('HOK-1'), false);
+
+    await orchestrator.tick();
+    assert.equal(world.launches.at(-1)!.model, 'claude-haiku-4-5');
+
+    // Spend on both models counts toward the same limit, and warnings aren't repeated
+    world.costs.set('HOK-1', 0.95);
+    await orchestrator.tick();
+    assert.equal(stateOf(ledgerPath, 'HOK-1'), 'running');
+
+    world.costs.set('HOK-1', 1.1);
+    await orchestrator.tick();
+    task = new MillLedger(ledgerPath).get('HOK-1')!;
+    assert.equal(task.state, 'paused');
+    assert.equal(orchestrator.freeSlots(), 3);
+    assert.deepEqual(task.budget!.decisions.map((d) => d.action), ['warn', 'warn', 'downgrade', 'pause']);
+    assert.deepEqual(
+      { from: task.budget!.decisions[2].fromModel, to: task.budget!.decisions[2].toModel },
+      { from: 'gpt-5.4', to: 'claude-haiku-4-5' },
+    );
+    assert.equal(task.budget!.decisions[3].costUsd, 1.1);
+    assert.match(task.budget!.decisions[3].detail, /per-task limit/);
+
+    await orchestrator.tick();
+    assert.equal(stateOf(ledgerPath, 'HOK-1'), 'paused');
+
+    settings.budget!.perTaskUsd = 5;
+    await orchestrator.tick();
+    assert.equal(stateOf(ledgerPath, 'HOK-1'), 'planned');
+
+    // The decisions reach the eval once the task merges
+    await orchestrator.tick();
+    world.completed.add('HOK-1');
+    await orchestrator.tick();
+    assert.deepEqual(world.evalDecisions.get('HOK-1'), ['warn', 'warn', 'downgrade', 'pause']);
+  });
+
+  it('aborts running tasks and stops scheduling once the daily limit is spent', async () => {
+    const { world, orchestrator, ledgerPath } = setup({
+      budget: { perDayUsd: 1, warnAt: [0.5], action: 'abort' },
+    });
+    await runToRunning(orchestrator, world, ['HOK-1', 'HOK-2']);
+
+    world.costs.set('HOK-1', 0.6);
+    world.costs.set('HOK-2', 0.6);
+    await orchestrator.tick();
+
+    let ledger = new MillLedger(ledgerPath);
+    assert.equal(ledger.get('HOK-1')!.state, 'running');
+    assert.deepEqual(ledger.get('HOK-1')!.budget!.decisions.map((d) => `${d.scope}:${d.action}`), ['day:warn']);
+    assert.equal(ledger.get('HOK-2')!.state, 'failed');
+    assert.match(ledger.get('HOK-2')!.error!, /budget exceeded: daily spend \$1\.20 reached the \$1\.00 limit/);
+    assert.equal(world.trackerStates.get('HOK-2'), 'Backlog');
+
+    await orchestrator.tick();
+    ledger = new MillLedger(ledgerPath);
+    assert.equal(ledger.get('HOK-1')!.state, 'failed');
+    assert.deepEqual(orchestrator.fillSlots([issue('HOK-3')]), []);
+
+    // A new day starts with a fresh allowance
+    clock = new Date('2026-03-02T00:00:01Z');
+    assert.deepEqual(orchestrator.fillSlots([issue('HOK-3')]).map((t) => t.issue), ['HOK-3']);
+  });
+});
+
+describe('MillOrchestrator hooks', () => {
+  it('gates launch on a failing beforeLaunch hook and retries it', async () => {
+    const { world, orchestrator, ledgerPath } = setup({}, [
+      { name: 'gate', phase: 'beforeLaunch', command: 'test -f "$WAVEMILL_REPO_DIR/allow"', onFailure: 'fail' },
+    ]);
+    world.issues.set('HOK-9', issue('HOK-9'));
+    orchestrator.select(world.issues.get('HOK-9')!);
+    for (let i = 0; i < 3; i++) await orchestrator.tick();
+
+    let task = new MillLedger(ledgerPath).get('HOK-9')!;
+    assert.equal(task.state, 'planned');
+    assert.match(task.error!, /^beforeLaunch hook "gate" failed: exited with code 1/);
+    assert.equal(world.launches.length, 0);
+    assert.match(readFileSync(join(dir, '.wavemill', 'tasks', 'HOK-9', 'hooks.log'), 'utf-8'), /beforeLaunch: gate/);
+
+    writeFileSync(join(dir, 'allow'), '');
+    clock = new Date(clock.getTime() + 5_000);
+    await orchestrator.tick();
+    task = new MillLedger(ledgerPath).get('HOK-9')!;
+    assert.equal(task.state, 'running');
+    assert.equal(world.launches.length, 1);
+  });
+
+  it('fails the task when an afterPrCreated hook with the fail policy fails', async () => {
+    const { world, orchestrator, ledgerPath } = setup({}, [
+      { name: 'warn-only', phase: 'afterPrCreated', command: 'exit 3' },
+      { name: 'label', phase: 'afterPrCreated', command: 'echo "PR $WAVEMILL_PR" >&2; exit 2', onFailure: 'fail' },
+    ]);
+    world.issues.set('HOK-10', issue('HOK-10'));
+    orchestrator.select(world.issues.get('HOK-10')!);
+    for (let i = 0; i < 3; i++) await orchestrator.tick();
+    world.prs.set('task/hok-10-task-hok-10', 77);
+    await orchestrator.tick();
+
+    const task = new MillLedger(ledgerPath).get('HOK-10')!;
+    assert.equal(task.state, 'failed');
+    assert.equal(task.error, 'afterPrCreated hook "label" failed: exited with code 2: PR 77');
+    assert.equal(world.alive.size, 0);
+  });
+});
+
+describe('resolveMillSettings', () => {
+  it('applies wavemill defaults and resolves the worktree root', () => {
+    const settings = resolveMillSettings({}, '/repo/app');
+    assert.equal(settings.maxParallel, 3);
+    assert.equal(settings.worktreeRoot, '/repo/app/worktrees');
+    assert.deepEqual(settings.retry, { maxRetries: 3, retryDelay: 2 });
+    assert.ok(existsSync(join(settings.toolsDir, 'prompts', 'mill-task.md')));
+  });
+
+  it('recognizes task packets the way is_task_packet does', () => {
+    assert.equal(isTaskPacket('## Objective\nx'), true);
+    assert.equal(isTaskPacket('Quick Reference'), true);
+    assert.equal(isTaskPacket('Just a sentence'), false);
+  });
+});
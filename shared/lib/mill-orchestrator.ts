@@ -0,0 +1,677 @@
+/**
+ * Mill Orchestrator - Drives mill tasks through their lifecycle.
+ *
+ * Each `tick()` advances every active task by at most one step of the
+ * mill-state lifecycle and persists the result, so the orchestrator can be
+ * stopped and restarted at any point:
+ *
+ * - selected  → expanded   the issue has a task packet (expanding it if needed)
+ * - expanded  → planned    agent/model routed, worktree created, instructions written
+ * - planned   → running    the runner has started the agent; issue "In Progress"
+ * - running   → pr_open    a PR exists for the task branch; issue "In Review"
+ * - pr_open   → reviewing  the PR has received a review
+ * - *         → merged     the PR merged (or the issue was completed elsewhere);
+ *                          eval runs, issue "Done"
+ * - *         → failed     retries exhausted, agent exited without a PR, or the
+ *                          PR was closed; issue back to "Backlog"
+ *
+ * Steps that do work (expand, plan, launch) are retried with exponential
+ * backoff per MillConfig.maxRetries / retryDelay. Polling failures (GitHub or
+ * tracker hiccups) never fail a task; they're logged and retried next tick.
+ *
+ * With budget guardrails on, each running task's spend is checked before it
+ * is polled. Over the per-task limit it is paused (→ paused, agent stopped,
+ * worktree kept), downgraded (→ planned, relaunched on a cheaper model) or
+ * aborted (→ failed); over the per-day limit no new tasks start and running
+ * ones are paused or aborted. Paused tasks go back to planned once the
+ * budget allows.
+ *
+ * Configured hooks (see mill-hooks.ts) run before launch, after the PR is
+ * created, after it is reviewed and after it merges; a failing hook with
+ * the `fail` policy fails that step.
+ *
+ * All side effects go through `MillServices` and a `TaskRunner`, so the
+ * lifecycle can be tested without git, GitHub, a tracker or tmux.
+ *
+ * @module mill-orchestrator
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync, copyFileSync } from 'node:fs';
+import { join, resolve, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { MillConfig } from './config.ts';
+import { CONFIG_DEFAULTS } from './config-explain.ts';
+import type { EvalRecord, RoutingDecision } from './eval-schema.ts';
+import type { TrackerIssue } from './issue-tracker.ts';
+import type { TaskRunner } from './mill-runner.ts';
+import { HookRegistry, blockingFailure, type HookContext, type HookPhase, type HookResult } from './mill-hooks.ts';
+import { fillPromptTemplate } from './prompt-utils.ts';
+import { issueSlug, scheduleTasks } from './task-scheduler.ts';
+import type { Subsystem } from './subsystem-detector.ts';
+import {
+  DailySpend,
+  crossedThresholds,
+  emptyTaskBudget,
+  formatUsd,
+  spendDay,
+  type BudgetDecision,
+  type BudgetSettings,
+} from './budget-guard.ts';
+import {
+  createTask,
+  transitionTask,
+  recordFailure,
+  isDue,
+  isTerminal,
+  millTaskDir,
+  type MillLedger,
+  type MillTask,
+  type RetryPolicy,
+} from './mill-state.ts';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// ────────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────────
+
+export type PullRequestState = 'OPEN' | 'MERGED' | 'CLOSED';
+
+/** External systems the orchestrator talks to. */
+export interface MillServices {
+  getIssue(issue: string): Promise<TrackerIssue>;
+  setIssueState(issue: string, state: string): Promise<void>;
+  /** Whether the issue was completed or canceled (e.g. by a PR in another repo) */
+  isIssueCompleted(issue: string): Promise<boolean>;
+  /** Expand an issue into a task packet; returns the packet and optional details section */
+  expandIssue(issue: string): Promise<{ packet: string; details?: string }>;
+  /** Create (or reuse) the task's worktree on its branch */
+  createWorktree(branch: string, dir: string): Promise<void>;
+  removeWorktree(branch: string, dir: string): Promise<void>;
+  /** Suggest an agent/model for a task packet; null to use the default agent */
+  routeModel(packet: string): Promise<{ agent: string; model?: string; routingDecision?: RoutingDecision } | null>;
+  /** PR for the branch opened at or after `since` (ISO), preferring open ones; null if none */
+  findPullRequest(branch: string, since: string): Promise<number | null>;
+  getPullRequest(pr: number): Promise<{ state: PullRequestState; reviewed: boolean }>;
+  /** Post-merge eval; failures should be logged, not thrown */
+  runEval(task: MillTask): Promise<void>;
+  /** The task's latest eval record, for hooks; null if none */
+  getEvalRecord(task: MillTask): Promise<EvalRecord | null>;
+  /** Total spend so far across the task's agent sessions; null if unknown */
+  getTaskCost(task: MillTask): Promise<number | null>;
+  /** Model (and its agent) to downgrade to from `model`; null if none is cheaper */
+  cheaperModel(model: string | undefined): Promise<{ agent: string; model: string } | null>;
+}
+
+/** Mill settings with defaults applied. */
+export interface MillSettings {
+  /** Absolute repo directory */
+  repoDir: string;
+  maxParallel: number;
+  pollSeconds: number;
+  baseBranch: string;
+  /** Absolute worktree root */
+  worktreeRoot: string;
+  agentCmd: string;
+  /** Skip routing and always use agentCmd */
+  agentExplicit: boolean;
+  planningMode: 'skip' | 'interactive';
+  /** Keep merged tasks' runners open until the user closes them */
+  requireConfirm: boolean;
+  autoEval: boolean;
+  retry: RetryPolicy;
+  /** Command run in each new worktree before the agent starts (e.g. npm install) */
+  setupCommand?: string;
+  /** Directory holding wavemill's tools (for agent instructions) */
+  toolsDir: string;
+  /** Spend limits; null when budget guardrails are off */
+  budget: BudgetSettings | null;
+}
+
+export interface MillOrchestratorOptions {
+  ledger: MillLedger;
+  runner: TaskRunner;
+  services: MillServices;
+  settings: MillSettings;
+  /** Per-task files (packets, instructions) go under `<stateDir>/tasks/<issue>/` */
+  stateDir: string;
+  /** Lifecycle hooks (default: none) */
+  hooks?: HookRegistry;
+  /** Subsystems for the scheduler's overlap check (default: none) */
+  subsystems?: Subsystem[];
+  log?: (message: string) => void;
+  now?: () => Date;
+}
+
+// ────────────────────────────────────────────────────────────────
+// Settings
+// ────────────────────────────────────────────────────────────────
+
+const TASK_PACKET_PATTERN = /(##+ (1\.|Objective)|##+ What|##+ Technical Context|##+ Success Criteria|## Task Packet|Quick Reference|## Detailed Sections)/;
+
+/** Same check as is_task_packet in wavemill-common.sh. */
+export function isTaskPacket(description: string): boolean {
+  return TASK_PACKET_PATTERN.test(description);
+}
+
+/**
+ * Apply the defaults wavemill-common.sh uses (CONFIG_DEFAULTS, which
+ * `config explain` reports) to a MillConfig.
+ */
+export function resolveMillSettings(
+  config: MillConfig,
+  repoDir: string,
+  overrides: Partial<MillSettings> = {},
+): MillSettings {
+  const defaults = CONFIG_DEFAULTS.mill as Required<MillConfig>;
+  return {
+    repoDir: resolve(repoDir),
+    maxParallel: config.maxParallel ?? defaults.maxParallel,
+    pollSeconds: config.pollSeconds ?? defaults.pollSeconds,
+    baseBranch: config.baseBranch ?? defaults.baseBranch,
+    worktreeRoot: resolve(repoDir, config.worktreeRoot ?? defaults.worktreeRoot),
+    agentCmd: config.agentCmd ?? defaults.agentCmd,
+    agentExplicit: false,
+    planningMode: config.planningMode ?? defaults.planningMode,
+    requireConfirm: config.requireConfirm ?? defaults.requireConfirm,
+    autoEval: true,
+    retry: {
+      maxRetries: config.maxRetries ?? defaults.maxRetries,
+      retryDelay: config.retryDelay ?? defaults.retryDelay,
+    },
+    setupCommand: config.setupCommand,
+    toolsDir: resolve(__dirname, '../../tools'),
+    budget: null,
+    ...overrides,
+  };
+}
+
+// ────────────────────────────────────────────────────────────────
+// Orchestrator
+// ────────────────────────────────────────────────────────────────
+
+export class MillOrchestrator {
+  private readonly ledger: MillLedger;
+  private readonly runner: TaskRunner;
+  private readonly services: MillServices;
+  private readonly settings: MillSettings;
+  private readonly stateDir: string;
+  private readonly hooks: HookRegistry;
+  private readonly subsystems: Subsystem[];
+  /** Tracker issues of tasks selected from the backlog, for overlap checks */
+  private readonly issues = new Map<string, TrackerIssue>();
+  private readonly log: (message: string) => void;
+  private readonly now: () => Date;
+  private readonly spend: DailySpend | null;
+  /** Day on which "daily budget reached" was last logged */
+  private dayLimitLogged: string | null = null;
+
+  constructor(options: MillOrchestratorOptions) {
+    this.ledger = options.ledger;
+    this.runner = options.runner;
+    this.services = options.services;
+    this.settings = options.settings;
+    this.stateDir = options.stateDir;
+    this.hooks = options.hooks ?? new HookRegistry([]);
+    this.subsystems = options.subsystems ?? [];
+    this.log = options.log ?? ((message) => console.log(message));
+    this.now = options.now ?? (() => new Date());
+    this.spend = this.settings.budget ? new DailySpend(join(this.stateDir, 'budget-spend.json')) : null;
+  }
+
+  /** Tasks occupying a slot. */
+  activeTasks(): MillTask[] {
+    return this.ledger.active();
+  }
+
+  /** Free slots; paused tasks keep their worktree but not a slot. */
+  freeSlots(): number {
+    const occupied = this.activeTasks().filter((t) => t.state !== 'paused').length;
+    return Math.max(0, this.settings.maxParallel - occupied);
+  }
+
+  /** Start tracking an issue. Returns the existing task if it is already active. */
+  select(issue: Pick<TrackerIssue, 'identifier' | 'title'>): MillTask {
+    const existing = this.ledger.get(issue.identifier);
+    if (existing && !isTerminal(existing.state)) return existing;
+
+    // The identifier keeps issues with the same title on separate branches
+    const slug = issueSlug(`${issue.identifier} ${issue.title}`);
+    const task = createTask({
+      issue: issue.identifier,
+      title: issue.title,
+      slug,
+      branch: `task/${slug}`,
+      worktree: join(this.settings.worktreeRoot, slug),
+    }, this.now());
+    this.ledger.put(task);
+    this.log(`→ ${task.issue}: selected (${task.title})`);
+    return task;
+  }
+
+  /**
+   * Select backlog issues for the free slots with the dependency-aware
+   * scheduler, skipping issues with an active task and avoiding overlap with
+   * them. Issues whose earlier task finished or failed can be selected again.
+   */
+  fillSlots(backlog: TrackerIssue[]): MillTask[] {
+    const free = this.freeSlots();
+    if (free === 0) return [];
+    if (this.dayBudgetReached()) return [];
+
+    const active = this.activeTasks();
+    const busy = new Set(active.map((t) => t.issue));
+    const { selected } = scheduleTasks(backlog.filter((i) => !busy.has(i.identifier)), {
+      maxParallel: free,
+      running: active.map((task) => this.issues.get(task.issue) ?? this.issueFromTask(task)),
+      subsystems: this.subsystems,
+    });
+    return selected.map(({ issue }) => {
+      this.issues.set(issue.identifier, issue);
+      return this.select(issue);
+    });
+  }
+
+  /** Stand-in tracker issue for a task selected before a restart: its packet is the description. */
+  private issueFromTask(task: MillTask): TrackerIssue {
+    const packet = join(millTaskDir(this.stateDir, task.issue), 'task-packet.md');
+    return {
+      id: task.issue,
+      identifier: task.issue,
+      title: task.title,
+      description: existsSync(packet) ? readFileSync(packet, 'utf-8') : null,
+      state: { name: 'In Progress' },
+      labels: { nodes: [] },
+    };
+  }
+
+  /** Advance every active task by at most one step. */
+  async tick(): Promise<void> {
+    for (const task of this.activeTasks()) {
+      if (!isDue(task, this.now())) continue;
+      await this.step(task);
+      this.ledger.put(task);
+    }
+  }
+
+  private async step(task: MillTask): Promise<void> {
+    switch (task.state) {
+      case 'selected':
+        return this.attempt(task, () => this.expand(task));
+      case 'expanded':
+        return this.attempt(task, () => this.plan(task));
+      case 'planned':
+        return this.attempt(task, () => this.launch(task));
+      case 'running':
+      case 'pr_open':
+      case 'reviewing':
+        try {
+          if (task.state === 'running' && (await this.enforceBudget(task))) return;
+          await this.poll(task);
+        } catch (error) {
+          this.log(`⚠ ${task.issue}: status check failed (${(error as Error).message}); will retry`);
+        }
+        return;
+      case 'paused':
+        return this.resumeIfAffordable(task);
+      case 'merged':
+      case 'failed':
+        // Terminal but still holding a runner (requireConfirm)
+        if (!this.runner.isAlive(task)) await this.cleanup(task);
+        return;
+    }
+  }
+
+  /** Run a step, applying the retry policy on failure. */
+  private async attempt(task: MillTask, fn: () => Promise<void>): Promise<void> {
+    const stateBefore = task.state;
+    try {
+      await fn();
+    } catch (error) {
+      const message = (error as Error).message;
+      const retrying = recordFailure(task, message, this.settings.retry, this.now());
+      if (retrying) {
+        this.log(`⚠ ${task.issue}: ${stateBefore} step failed (attempt ${task.attempts}/${this.settings.retry.maxRetries}): ${message}`);
+      } else {
+        this.log(`✗ ${task.issue}: failed after ${this.settings.retry.maxRetries} attempt(s): ${message}`);
+        await this.onFailed(task);
+      }
+    }
+  }
+
+  private move(task: MillTask, to: MillTask['state'], detail?: string): void {
+    transitionTask(task, to, detail, this.now());
+    this.log(`→ ${task.issue}: ${to}${detail ? ` (${detail})` : ''}`);
+  }
+
+  private taskDir(task: MillTask): string {
+    const dir = millTaskDir(this.stateDir, task.issue);
+    mkdirSync(dir, { recursive: true });
+    return dir;
+  }
+
+  // ── Steps ─────────────────────────────────────────────────────
+
+  private async expand(task: MillTask): Promise<void> {
+    const issue = await this.services.getIssue(task.issue);
+    const description = issue.description ?? '';
+    const dir = this.taskDir(task);
+
+    let packet = description;
+    let details: string | undefined;
+    let detail = 'issue already has a task packet';
+    if (this.settings.planningMode !== 'interactive' && !isTaskPacket(description)) {
+      ({ packet, details } = await this.services.expandIssue(task.issue));
+      detail = 'expanded task packet';
+    }
+
+    writeFileSync(join(dir, 'task-packet.md'), packet);
+    if (details) writeFileSync(join(dir, 'task-packet-details.md'), details);
+    this.move(task, 'expanded', detail);
+  }
+
+  private async plan(task: MillTask): Promise<void> {
+    const dir = this.taskDir(task);
+    const packet = readFileSync(join(dir, 'task-packet.md'), 'utf-8');
+
+    let agent = this.settings.agentCmd;
+    let model: string | undefined;
+    let routingDecision: RoutingDecision | undefined;
+    if (!this.settings.agentExplicit) {
+      const route = await this.services.routeModel(packet);
+      if (route) {
+        agent = route.agent;
+        model = route.model;
+        routingDecision = route.routingDecision;
+      }
+    }
+
+    await this.services.createWorktree(task.branch, task.worktree);
+
+    const detailsFile = join(dir, 'task-packet-details.md');
+    const hasDetails = existsSync(detailsFile);
+    if (hasDetails) copyFileSync(detailsFile, join(task.worktree, 'task-packet-details.md'));
+
+    writeFileSync(join(dir, 'instructions.md'), this.instructions(task, packet, hasDetails));
+    task.agent = agent;
+    task.model = model;
+    task.routingDecision = routingDecision;
+    this.move(task, 'planned', `${agent}${model ? ` --model ${model}` : ''}`);
+  }
+
+  private instructions(task: MillTask, packet: string, hasDetails: boolean): string {
+    const interactive = this.settings.planningMode === 'interactive';
+    const template = readFileSync(
+      join(this.settings.toolsDir, 'prompts', interactive ? 'mill-task-planning.md' : 'mill-task.md'),
+      'utf-8',
+    );
+
+    const detailsNote = hasDetails
+      ? '📖 Full Details: Read task-packet-details.md in the repo root for the complete implementation approach, success criteria, constraints and validation steps.'
+      : 'NOTE: Task packet details file was not pre-seeded in this worktree.\nWork from the issue description plus direct codebase analysis.';
+    const issueContext = packet.trim()
+      ? `Issue Description (Brief Overview):\n${packet.trim()}\n\n${detailsNote}`
+      : detailsNote;
+
+    // ISSUE_CONTEXT last, so placeholders inside the issue text are left alone
+    return fillPromptTemplate(template, {
+      ISSUE: task.issue,
+      TITLE: task.title,
+      SLUG: task.slug,
+      WORKTREE: task.worktree,
+      BRANCH: task.branch,
+      BASE_BRANCH: this.settings.baseBranch,
+      TOOLS_DIR: this.settings.toolsDir,
+      ISSUE_CONTEXT: issueContext,
+    });
+  }
+
+  private async launch(task: MillTask): Promise<void> {
+    const blocked = await this.runHooks(task, 'beforeLaunch');
+    if (blocked) throw new Error(`beforeLaunch hook "${blocked.hook.name}" failed: ${blocked.error}`);
+
+    this.runner.launch({
+      issue: task.issue,
+      slug: task.slug,
+      worktree: task.worktree,
+      instructionsFile: join(this.taskDir(task), 'instructions.md'),
+      agent: task.agent ?? this.settings.agentCmd,
+      model: task.model,
+      interactive: this.settings.planningMode === 'interactive',
+    });
+    task.runner = this.runner.name;
+    await this.setIssueState(task, 'In Progress');
+    this.move(task, 'running', `${this.runner.name}: ${this.runner.attachHint(task)}`);
+  }
+
+  private async poll(task: MillTask): Promise<void> {
+    if (task.state === 'running') {
+      const pr = await this.services.findPullRequest(task.branch, task.history[0]?.at ?? task.updated);
+      if (pr) {
+        task.pr = pr;
+        await this.setIssueState(task, 'In Review');
+        this.move(task, 'pr_open', `PR #${pr}`);
+        await this.failOnHook(task, 'afterPrCreated');
+      } else if (await this.services.isIssueCompleted(task.issue)) {
+        this.move(task, 'merged', 'completed externally');
+        await this.onMerged(task);
+      } else if (!this.runner.isAlive(task)) {
+        this.move(task, 'failed', 'agent exited without creating a PR');
+        await this.onFailed(task);
+      }
+      return;
+    }
+
+    const status = await this.services.getPullRequest(task.pr!);
+    if (status.state === 'MERGED') {
+      this.move(task, 'merged', `PR #${task.pr} merged`);
+      await this.onMerged(task);
+    } else if (status.state === 'CLOSED') {
+      task.error = `PR #${task.pr} closed without merge`;
+      this.move(task, 'failed', task.error);
+      await this.onFailed(task);
+    } else if (task.state === 'pr_open' && status.reviewed) {
+      this.move(task, 'reviewing', `PR #${task.pr} reviewed`);
+      await this.failOnHook(task, 'afterReview');
+    }
+  }
+
+  // ── Budget ────────────────────────────────────────────────────
+
+  /** Whether the per-day limit is used up (logged once per day). */
+  private dayBudgetReached(): boolean {
+    const limit = this.settings.budget?.perDayUsd;
+    if (limit === undefined || !this.spend) return false;
+    const now = this.now();
+    const spent = this.spend.today(now);
+    if (spent < limit) return false;
+    if (this.dayLimitLogged !== spendDay(now)) {
+      this.dayLimitLogged = spendDay(now);
+      this.log(`⚠ Daily budget reached (${formatUsd(spent)} of ${formatUsd(limit)}); not starting new tasks today`);
+    }
+    return true;
+  }
+
+  private decide(task: MillTask, decision: Omit<BudgetDecision, 'at'>): void {
+    (task.budget ??= emptyTaskBudget()).decisions.push({ at: this.now().toISOString(), ...decision });
+    this.log(`${decision.action === 'warn' ? '⚠' : '✗'} ${task.issue}: budget ${decision.action}: ${decision.detail}`);
+  }
+
+  /**
+   * Check a running task's spend against the limits. Returns true when an
+   * action was taken (the task has moved on and shouldn't be polled).
+   */
+  private async enforceBudget(task: MillTask): Promise<boolean> {
+    const budget = this.settings.budget;
+    if (!budget || !this.spend) return false;
+    const cost = await this.services.getTaskCost(task);
+    if (cost === null) return false;
+
+    const now = this.now();
+    const taskBudget = (task.budget ??= emptyTaskBudget());
+    taskBudget.costUsd = cost;
+    const today = this.spend.record(task.issue, cost, now);
+
+    if (budget.perDayUsd !== undefined) {
+      const limitUsd = budget.perDayUsd;
+      for (const fraction of this.spend.takeWarnings(limitUsd, budget.warnAt, now)) {
+        this.decide(task, { scope: 'day', action: 'warn', costUsd: today, limitUsd, detail: `daily spend ${formatUsd(today)} passed ${Math.round(fraction * 100)}% of ${formatUsd(limitUsd)}` });
+      }
+      if (today >= limitUsd) {
+        const detail = `daily spend ${formatUsd(today)} reached the ${formatUsd(limitUsd)} limit`;
+        await this.stopForBudget(task, budget.action === 'abort' ? 'abort' : 'pause', { scope: 'day', costUsd: today, limitUsd, detail });
+        return true;
+      }
+    }
+
+    if (budget.perTaskUsd !== undefined) {
+      const limitUsd = budget.perTaskUsd;
+      const crossed = crossedThresholds(cost, limitUsd, budget.warnAt, taskBudget.warned);
+      for (const fraction of crossed) {
+        taskBudget.warned.push(fraction);
+        this.decide(task, { scope: 'task', action: 'warn', costUsd: cost, limitUsd, detail: `spent ${formatUsd(cost)}, ${Math.round(fraction * 100)}% of ${formatUsd(limitUsd)}` });
+      }
+      if (cost >= limitUsd) {
+        // Switching models can't bring the total back under the limit
+        const detail = `spent ${formatUsd(cost)} of the ${formatUsd(limitUsd)} per-task limit`;
+        await this.stopForBudget(task, budget.action === 'abort' ? 'abort' : 'pause', { scope: 'task', costUsd: cost, limitUsd, detail });
+        return true;
+      }
+      // Downgrade at the last warning, so the cheaper model gets the rest of the limit
+      if (budget.action === 'downgrade' && crossed.includes(budget.warnAt[budget.warnAt.length - 1])) {
+        const detail = `spent ${formatUsd(cost)} of the ${formatUsd(limitUsd)} per-task limit`;
+        return this.downgrade(task, { scope: 'task', costUsd: cost, limitUsd, detail });
+      }
+    }
+    return false;
+  }
+
+  /** Restart the task's agent on a cheaper model; false when there's none. */
+  private async downgrade(task: MillTask, decision: Pick<BudgetDecision, 'scope' | 'costUsd' | 'limitUsd' | 'detail'>): Promise<boolean> {
+    const next = await this.services.cheaperModel(task.model);
+    if (!next) {
+      this.log(`⚠ ${task.issue}: budget: no cheaper model than ${task.model ?? 'the default'} to switch to`);
+      return false;
+    }
+    this.runner.stop(task);
+    this.decide(task, { ...decision, action: 'downgrade', fromModel: task.model, toModel: next.model, detail: `${decision.detail}; switching to ${next.model}` });
+    task.agent = next.agent;
+    task.model = next.model;
+    this.move(task, 'planned', `budget: downgraded to ${next.model}`);
+    return true;
+  }
+
+  private async stopForBudget(
+    task: MillTask,
+    action: 'pause' | 'abort',
+    decision: Pick<BudgetDecision, 'scope' | 'costUsd' | 'limitUsd' | 'detail'>,
+  ): Promise<void> {
+    this.runner.stop(task);
+    this.decide(task, { ...decision, action });
+    if (action === 'abort') {
+      task.error = `budget exceeded: ${decision.detail}`;
+      this.move(task, 'failed', task.error);
+      await this.onFailed(task);
+    } else {
+      this.move(task, 'paused', `budget: ${decision.detail}`);
+    }
+  }
+
+  /** Relaunch a paused task once it fits the budget again (limit raised, or a new day). */
+  private async resumeIfAffordable(task: MillTask): Promise<void> {
+    const budget = this.settings.budget;
+    const taskBudget = task.budget ?? emptyTaskBudget();
+    const dayOk = !budget || budget.perDayUsd === undefined || !this.spend || this.spend.today(this.now()) < budget.perDayUsd;
+    const taskOk = !budget || budget.perTaskUsd === undefined || taskBudget.costUsd < budget.perTaskUsd;
+    if (dayOk && taskOk && this.freeSlots() > 0) {
+      this.move(task, 'planned', 'budget available again');
+    }
+  }
+
+  // ── Hooks ─────────────────────────────────────────────────────
+
+  /** Run a phase's hooks; returns the first failure whose policy is `fail`. */
+  private async runHooks(task: MillTask, phase: HookPhase, extra: Partial<HookContext> = {}): Promise<HookResult | undefined> {
+    if (this.hooks.forPhase(phase).length === 0) return undefined;
+    const context: HookContext = {
+      phase,
+      issue: task.issue,
+      title: task.title,
+      state: task.state,
+      branch: task.branch,
+      worktree: task.worktree,
+      repoDir: this.settings.repoDir,
+      ...(task.agent ? { agent: task.agent } : {}),
+      ...(task.model ? { model: task.model } : {}),
+      ...(task.pr !== undefined ? { pr: task.pr } : {}),
+      ...extra,
+    };
+    const results = await this.hooks.run(context, { logFile: join(this.taskDir(task), 'hooks.log'), log: this.log });
+    return blockingFailure(results);
+  }
+
+  /** Run a phase's hooks and fail the task if one with the `fail` policy fails. */
+  private async failOnHook(task: MillTask, phase: HookPhase): Promise<void> {
+    const blocked = await this.runHooks(task, phase);
+    if (!blocked) return;
+    this.runner.stop(task);
+    task.error = `${phase} hook "${blocked.hook.name}" failed: ${blocked.error}`;
+    this.move(task, 'failed', task.error);
+    await this.onFailed(task);
+  }
+
+  // ── Terminal States ───────────────────────────────────────────
+
+  private async onMerged(task: MillTask): Promise<void> {
+    if (this.settings.autoEval && !task.evalCompleted) {
+      this.log(`  📊 Running post-merge eval for ${task.issue}...`);
+      try {
+        await this.services.runEval(task);
+      } catch (error) {
+        this.log(`⚠ ${task.issue}: eval failed: ${(error as Error).message}`);
+      }
+      task.evalCompleted = true;
+    }
+    await this.setIssueState(task, 'Done');
+
+    if (this.hooks.forPhase('afterMerge').length > 0) {
+      const evalRecord = task.evalCompleted ? await this.services.getEvalRecord(task).catch(() => null) : null;
+      const blocked = await this.runHooks(task, 'afterMerge', evalRecord ? { evalRecord } : {});
+      if (blocked) this.log(`✗ ${task.issue}: afterMerge hook "${blocked.hook.name}" failed after the PR merged: ${blocked.error}`);
+    }
+
+    if (this.settings.requireConfirm && this.runner.isAlive(task)) {
+      this.log(`  → ${task.issue}: ${this.runner.name} session stays open for review; close it when ready`);
+      return;
+    }
+    await this.cleanup(task);
+  }
+
+  private async onFailed(task: MillTask): Promise<void> {
+    await this.setIssueState(task, 'Backlog');
+    if (this.settings.requireConfirm && this.runner.isAlive(task)) return;
+    await this.cleanup(task);
+  }
+
+  private async cleanup(task: MillTask): Promise<void> {
+    this.runner.stop(task);
+    this.spend?.forget(task.issue, this.now());
+    try {
+      await this.services.removeWorktree(task.branch, task.worktree);
+    } catch (error) {
+      this.log(`⚠ ${task.issue}: could not remove worktree ${task.worktree}: ${(error as Error).message}`);
+    }
+    task.cleanedUp = true;
+    this.log(`  ✓ ${task.issue}: cleaned up`);
+  }
+
+  /** Tracker updates are best-effort, as in the bash mill. */
+  private async setIssueState(task: MillTask, state: string): Promise<void> {
+    try {
+      await this.services.setIssueState(task.issue, state);
+    } catch (error) {
+      this.log(`⚠ ${task.issue}: failed to set tracker state → ${state}: ${(error as Error).message}`);
+    }
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Tests for agent commands and the headless runner.
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync, readFileSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { agentShellCommand, HeadlessRunner, headlessLogPath, headlessPidPath, type TaskLaunch } from './mill-runner.ts';
+
+let dir: string;
+
+before(() => {
+  dir = mkdtempSync(join(tmpdir(), 'mill-runner-test-'));
+});
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+async function waitFor(check: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error('timed out waiting for condition');
+    await sleep(25);
+  }
+}
+
+function launchFor(issue: string, agent: string): TaskLaunch {
+  const instructionsFile = join(dir, `${issue}-instructions.md`);
+  writeFileSync(instructionsFile, `instructions for ${issue}\n`);
+  return { issue, slug: issue.toLowerCase(), worktree: dir, instructionsFile, agent };
+}
+
+describe('agentShellCommand', () => {
+  it('pipes instructions to the agent the way agent-adapters.sh does', () => {
+    const base = { instructionsFile: '/tmp/x.md' };
+    assert.equal(
+      agentShellCommand({ ...base, agent: 'claude', model: 'claude-opus-4-6' }),
+      `cat '/tmp/x.md' | claude --model 'claude-opus-4-6'; echo "[wavemill] Agent exited ($?)"`,
+    );
+    assert.match(agentShellCommand({ ...base, agent: 'codex' }), /^codex exec --dangerously-bypass-approvals-and-sandbox - < '\/tmp\/x.md';/);
+    assert.match(agentShellCommand({ ...base, agent: 'claude', interactive: true }), /^claude "\$\(cat '\/tmp\/x.md'\)";/);
+  });
+});
+
+describe('HeadlessRunner', () => {
+  it('runs the agent in the background and logs its output', async () => {
+    const stateDir = join(dir, 'state-a');
+    const runner = new HeadlessRunner(stateDir);
+    const task = launchFor('HOK-1', 'cat');
+
+    runner.launch(task);
+    assert.ok(existsSync(headlessPidPath(stateDir, 'HOK-1')));
+    await waitFor(() => !runner.isAlive(task));
+
+    const log = readFileSync(headlessLogPath(stateDir, 'HOK-1'), 'utf-8');
+    assert.match(log, /\[wavemill\] .* HOK-1 in /);
+    assert.match(log, /instructions for HOK-1/);
+    assert.match(log, /\[wavemill\] Agent exited \(0\)/);
+    assert.equal(runner.attachHint(task), `tail -f '${headlessLogPath(stateDir, 'HOK-1')}'`);
+  });
+
+  it('reports a running agent as alive until stopped', async () => {
+    const stateDir = join(dir, 'state-b');
+    const runner = new HeadlessRunner(stateDir);
+    const task = launchFor('HOK-2', 'sleep 30');
+
+    runner.launch(task);
+    try {
+      assert.equal(runner.isAlive(task), true);
+      // A new runner over the same state dir (a restarted mill) sees it too
+      assert.equal(new HeadlessRunner(stateDir).isAlive(task), true);
+    } finally {
+      runner.stop(task);
+    }
+    await waitFor(() => !runner.isAlive(task));
+    assert.equal(existsSync(headlessPidPath(stateDir, 'HOK-2')), false);
+  });
+
+  it('refuses interactive launches', () => {
+    const runner = new HeadlessRunner(join(dir, 'state-c'));
+    assert.throws(() => runner.launch({ ...launchFor('HOK-3', 'cat'), interactive: true }), /cannot start interactive/);
+  });
+});
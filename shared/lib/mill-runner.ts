@@ -0,0 +1,258 @@
+/**
+ * Mill Runner - Where the mill's agents actually run.
+ *
+ * The orchestrator only needs to start an agent for a task, ask whether it
+ * is still running, and stop it. `TaskRunner` is that surface, with two
+ * implementations:
+ *
+ * - tmux: one window per task in the mill's session, as wavemill-mill.sh does
+ * - headless: a detached child process per task, logging to
+ *   `.wavemill/tasks/<issue>/agent.log`, for servers and containers without
+ *   a terminal
+ *
+ * @module mill-runner
+ */
+
+import { closeSync, existsSync, mkdirSync, openSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { execFileSync, spawn, spawnSync } from 'node:child_process';
+import { escapeShellArg } from './shell-utils.ts';
+import { isProcessAlive, millTaskDir } from './mill-state.ts';
+
+// ────────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────────
+
+/** Everything a runner needs to start the agent for one task. */
+export interface TaskLaunch {
+  issue: string;
+  slug: string;
+  /** Worktree the agent runs in */
+  worktree: string;
+  /** File holding the agent's instructions (autonomous) or opening prompt (interactive) */
+  instructionsFile: string;
+  /** Agent CLI (claude, codex, ...) */
+  agent: string;
+  model?: string;
+  /** Start the agent interactively for user-guided planning */
+  interactive?: boolean;
+}
+
+/** Identifies a launched task to its runner. */
+export type TaskHandle = Pick<TaskLaunch, 'issue' | 'slug'>;
+
+export interface TaskRunner {
+  /** Runner name shown in logs and `--runner` */
+  readonly name: string;
+  /** Start the agent. Throws if it could not be started. */
+  launch(task: TaskLaunch): void;
+  /** Whether the agent for a task is still running */
+  isAlive(task: TaskHandle): boolean;
+  /** Stop the agent and release whatever the runner holds for it */
+  stop(task: TaskHandle): void;
+  /** How a user can watch a task, e.g. "tmux attach -t wavemill" */
+  attachHint(task: TaskHandle): string;
+}
+
+// ────────────────────────────────────────────────────────────────
+// Agent Commands
+// ────────────────────────────────────────────────────────────────
+
+/**
+ * Shell command that runs an agent on a task and reports its exit status.
+ * Mirrors agent_launch_autonomous / agent_launch_interactive in
+ * agent-adapters.sh.
+ */
+export function agentShellCommand(task: Pick<TaskLaunch, 'agent' | 'model' | 'instructionsFile' | 'interactive'>): string {
+  const file = escapeShellArg(task.instructionsFile);
+  const model = task.model ? ` --model ${escapeShellArg(task.model)}` : '';
+  const exitNote = `echo "[wavemill] Agent exited ($?)"`;
+
+  if (task.interactive) {
+    const cmd = task.agent === 'claude' || task.agent === 'codex' ? `${task.agent}${model}` : task.agent;
+    return `${cmd} "$(cat ${file})"; ${exitNote}`;
+  }
+
+  switch (task.agent) {
+    case 'claude':
+      return `cat ${file} | claude${model}; ${exitNote}`;
+    case 'codex':
+      return `codex exec${model} --dangerously-bypass-approvals-and-sandbox - < ${file}; ${exitNote}`;
+    default:
+      return `${task.agent} < ${file}; ${exitNote}`;
+  }
+}
+
+// ────────────────────────────────────────────────────────────────
+// tmux
+// ────────────────────────────────────────────────────────────────
+
+function tmux(args: string[]): string {
+  return execFileSync('tmux', args, { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'] });
+}
+
+/**
+ * Runs each task in its own window (`<ISSUE>-<slug>`) of a tmux session,
+ * creating the session on first launch. The shell stays open after the
+ * agent exits so its output can be read, so (as in wavemill-mill.sh) a task
+ * counts as alive until its window is closed.
+ */
+export class TmuxRunner implements TaskRunner {
+  readonly name = 'tmux';
+  readonly session: string;
+
+  constructor(session: string) {
+    this.session = session;
+  }
+
+  private target(task: TaskHandle): string {
+    return `${this.session}:${task.issue}-${task.slug}`;
+  }
+
+  private hasSession(): boolean {
+    return spawnSync('tmux', ['has-session', '-t', this.session], { stdio: 'ignore' }).status === 0;
+  }
+
+  launch(task: TaskLaunch): void {
+    const window = `${task.issue}-${task.slug}`;
+    if (this.hasSession()) {
+      tmux(['new-window', '-d', '-t', this.session, '-n', window, '-c', task.worktree]);
+    } else {
+      tmux(['new-session', '-d', '-s', this.session, '-n', window, '-c', task.worktree]);
+    }
+
+    // Codex doesn't reliably ring the bell when it needs input; highlight its windows instead
+    if (task.agent === 'codex') {
+      try {
+        tmux(['set-window-option', '-t', this.target(task), 'window-status-activity-style', 'bg=red,fg=white,bold']);
+      } catch {
+        // Cosmetic only
+      }
+    }
+
+    tmux(['send-keys', '-t', this.target(task), agentShellCommand(task), 'C-m']);
+  }
+
+  isAlive(task: TaskHandle): boolean {
+    try {
+      const dead = tmux(['list-panes', '-t', this.target(task), '-F', '#{pane_dead}']);
+      return dead.split('\n').includes('0');
+    } catch {
+      return false;
+    }
+  }
+
+  stop(task: TaskHandle): void {
+    try {
+      tmux(['kill-window', '-t', this.target(task)]);
+    } catch {
+      // Already closed
+    }
+  }
+
+  attachHint(task: TaskHandle): string {
+    return `tmux attach -t ${escapeShellArg(this.target(task))}`;
+  }
+}
+
+// ────────────────────────────────────────────────────────────────
+// Headless
+// ────────────────────────────────────────────────────────────────
+
+/** Log file the headless runner writes a task's agent output to. */
+export function headlessLogPath(stateDir: string, issue: string): string {
+  return join(millTaskDir(stateDir, issue), 'agent.log');
+}
+
+/** Pidfile the headless runner records a task's agent process in. */
+export function headlessPidPath(stateDir: string, issue: string): string {
+  return join(millTaskDir(stateDir, issue), 'agent.pid');
+}
+
+/**
+ * Runs each task's agent as a detached child process in its own process
+ * group, with stdout/stderr appended to the task's `agent.log`. The pid is
+ * recorded in `agent.pid`, so agents outlive the mill and a restarted mill
+ * (or `wavemill status`) can still tell whether they're running.
+ *
+ * There's no terminal to hand over, so interactive planning sessions can't
+ * be launched.
+ */
+export class HeadlessRunner implements TaskRunner {
+  readonly name = 'headless';
+  readonly stateDir: string;
+
+  constructor(stateDir: string) {
+    this.stateDir = stateDir;
+  }
+
+  private pid(task: TaskHandle): number | null {
+    const path = headlessPidPath(this.stateDir, task.issue);
+    if (!existsSync(path)) return null;
+    const pid = parseInt(readFileSync(path, 'utf-8').trim(), 10);
+    return Number.isInteger(pid) && pid > 0 ? pid : null;
+  }
+
+  launch(task: TaskLaunch): void {
+    if (task.interactive) {
+      throw new Error('The headless runner cannot start interactive planning sessions (set mill.planningMode to "skip")');
+    }
+
+    const logPath = headlessLogPath(this.stateDir, task.issue);
+    mkdirSync(millTaskDir(this.stateDir, task.issue), { recursive: true });
+    const command = agentShellCommand(task);
+    writeFileSync(logPath, `[wavemill] ${new Date().toISOString()} ${task.issue} in ${task.worktree}\n[wavemill] $ ${command}\n`, { flag: 'a' });
+
+    const fd = openSync(logPath, 'a');
+    try {
+      const child = spawn('bash', ['-c', command], {
+        cwd: task.worktree,
+        detached: true,
+        stdio: ['ignore', fd, fd],
+      });
+      if (!child.pid) throw new Error(`Failed to start agent for ${task.issue}`);
+      writeFileSync(headlessPidPath(this.stateDir, task.issue), `${child.pid}\n`);
+      child.unref();
+    } finally {
+      closeSync(fd);
+    }
+  }
+
+  isAlive(task: TaskHandle): boolean {
+    const pid = this.pid(task);
+    return pid !== null && isProcessAlive(pid);
+  }
+
+  stop(task: TaskHandle): void {
+    const pid = this.pid(task);
+    if (pid !== null && isProcessAlive(pid)) {
+      try {
+        // Negative pid: the whole group, so pipelines like `cat | claude` go too
+        process.kill(-pid, 'SIGTERM');
+      } catch {
+        // Already exited
+      }
+    }
+    rmSync(headlessPidPath(this.stateDir, task.issue), { force: true });
+  }
+
+  attachHint(task: TaskHandle): string {
+    return `tail -f ${escapeShellArg(headlessLogPath(this.stateDir, task.issue))}`;
+  }
+}
+
+// ────────────────────────────────────────────────────────────────
+// Factory
+// ────────────────────────────────────────────────────────────────
+
+export const RUNNERS = ['tmux', 'headless'] as const;
+export type RunnerName = (typeof RUNNERS)[number];
+
+export function isRunnerName(name: string): name is RunnerName {
+  return (RUNNERS as readonly string[]).includes(name);
+}
+
+/** Build a runner by name; `session` is the tmux session, `stateDir` holds headless logs. */
+export function createRunner(name: RunnerName, options: { session: string; stateDir: string }): TaskRunner {
+  return name === 'headless' ? new HeadlessRunner(options.stateDir) : new TmuxRunner(options.session);
+}
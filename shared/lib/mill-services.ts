@@ -0,0 +1,226 @@
+/**
+ * Mill Services - Production MillServices for the mill orchestrator.
+ *
+ * Talks to the configured issue tracker, GitHub (via `gh`), git worktrees,
+ * the model router, and wavemill's own expand/eval tools, the same way
+ * wavemill-mill.sh does. Task spend comes from the agents' session files,
+ * priced with the eval pricing table.
+ *
+ * @module mill-services
+ */
+
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { join, resolve, dirname } from 'node:path';
+import { tmpdir } from 'node:os';
+import { spawnSync } from 'node:child_process';
+import { getIssueTracker } from './issue-tracker.ts';
+import { execShellCommand, escapeShellArg } from './shell-utils.ts';
+import { recommendModel, loadRouterConfig, isRouterEnabled, resolveAgent } from './model-router.ts';
+import { computeWorkflowCost, loadPricingTable } from './workflow-cost.ts';
+import { AGENT_TYPES } from './session-adapters.ts';
+import { selectCheaperModel } from './budget-guard.ts';
+import { readEvalRecords } from './eval-persistence.ts';
+import { loadWavemillConfig } from './config.ts';
+import type { MillServices, MillSettings, PullRequestState } from './mill-orchestrator.ts';
+
+// ────────────────────────────────────────────────────────────────
+// Constants
+// ────────────────────────────────────────────────────────────────
+
+/** Per-call timeout for gh/git (matches API_TIMEOUT in wavemill-mill.sh) */
+const API_TIMEOUT_MS = 30_000;
+const EXPAND_TIMEOUT_MS = 120_000;
+const EVAL_TIMEOUT_MS = 120_000;
+
+// ────────────────────────────────────────────────────────────────
+// Helpers
+// ────────────────────────────────────────────────────────────────
+
+function run(command: string, cwd: string, timeout = API_TIMEOUT_MS): string {
+  return (execShellCommand(command, {
+    cwd,
+    encoding: 'utf-8',
+    timeout,
+    stdio: ['ignore', 'pipe', 'pipe'],
+  }) as string).trim();
+}
+
+/** Run one of wavemill's tools with tsx; returns stdout or throws with stderr. */
+function runTool(toolsDir: string, tool: string, args: string[], cwd: string, timeout: number): string {
+  const proc = spawnSync('npx', ['tsx', join(toolsDir, tool), ...args], {
+    cwd,
+    encoding: 'utf-8',
+    timeout,
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+  if (proc.error) throw proc.error;
+  if (proc.status !== 0) {
+    throw new Error(`${tool} exited with code ${proc.status}: ${(proc.stderr || '').trim().slice(-500)}`);
+  }
+  return proc.stdout;
+}
+
+// ────────────────────────────────────────────────────────────────
+// Factory
+// ────────────────────────────────────────────────────────────────
+
+export function createMillServices(repoDir: string, settings: MillSettings): MillServices {
+  const tracker = getIssueTracker(repoDir);
+
+  return {
+    getIssue: (issue) => tracker.getIssue(issue),
+
+    async setIssueState(issue, state) {
+      const result = await tracker.setIssueState(issue, state);
+      if (!result.success) throw new Error(`tracker rejected state "${state}"`);
+    },
+
+    async isIssueCompleted(issue) {
+      const state = await tracker.getIssueCompletionState(issue);
+      return state.completedAt != null || state.canceledAt != null;
+    },
+
+    async expandIssue(issue) {
+      const dir = mkdtempSync(join(tmpdir(), 'wavemill-expand-'));
+      try {
+        const output = join(dir, 'task-packet.md');
+        // Nobody can answer the validation prompt: a failing packet exits non-zero and fails the step
+        runTool(
+          settings.toolsDir,
+          'expand-issue.ts',
+          [issue, '--output', output, '--update', '--non-interactive'],
+          repoDir,
+          EXPAND_TIMEOUT_MS,
+        );
+        const detailsFile = join(dir, 'task-packet-details.md');
+        return {
+          packet: readFileSync(output, 'utf-8'),
+          ...(existsSync(detailsFile) ? { details: readFileSync(detailsFile, 'utf-8') } : {}),
+        };
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    },
+
+    async createWorktree(branch, dir) {
+      if (existsSync(dir)) return;
+      run(`git fetch origin ${escapeShellArg(settings.baseBranch)}`, repoDir, 60_000);
+
+      let branchExists = true;
+      try {
+        run(`git show-ref --verify --quiet ${escapeShellArg(`refs/heads/${branch}`)}`, repoDir);
+      } catch {
+        branchExists = false;
+      }
+
+      execShellCommand(`mkdir -p ${escapeShellArg(dirname(resolve(dir)))}`);
+      if (branchExists) {
+        run(`git worktree add ${escapeShellArg(dir)} ${escapeShellArg(branch)}`, repoDir, 60_000);
+      } else {
+        run(
+          `git worktree add ${escapeShellArg(dir)} -b ${escapeShellArg(branch)} ${escapeShellArg(`origin/${settings.baseBranch}`)}`,
+          repoDir,
+          60_000,
+        );
+      }
+
+      if (settings.setupCommand) {
+        run(settings.setupCommand, dir, 180_000);
+      }
+    },
+
+    async removeWorktree(branch, dir) {
+      if (existsSync(dir)) {
+        run(`git worktree remove ${escapeShellArg(dir)} --force`, repoDir);
+      }
+      try {
+        run(`git branch -D ${escapeShellArg(branch)}`, repoDir);
+      } catch {
+        // Branch already gone
+      }
+      run('git worktree prune', repoDir);
+    },
+
+    async routeModel(packet) {
+      if (!isRouterEnabled(repoDir)) return null;
+      const rec = recommendModel(packet, loadRouterConfig(repoDir));
+      // Always take the agent; only take the model when the router had enough data
+      return {
+        agent: rec.recommendedAgent,
+        ...(rec.insufficientData ? {} : { model: rec.recommendedModel, routingDecision: rec.routingDecision }),
+      };
+    },
+
+    async findPullRequest(branch, since) {
+      const out = run(`gh pr list --head ${escapeShellArg(branch)} --state all --json number,state,createdAt`, repoDir);
+      // Skip PRs left on the branch by an earlier task for the same issue
+      const prs = (JSON.parse(out || '[]') as Array<{ number: number; state: string; createdAt: string }>)
+        .filter((pr) => Date.parse(pr.createdAt) >= Date.parse(since));
+      return (prs.find((pr) => pr.state === 'OPEN') ?? prs[0])?.number ?? null;
+    },
+
+    async getPullRequest(pr) {
+      const out = run(`gh pr view ${pr} --json state,reviewDecision,reviews`, repoDir);
+      const data = JSON.parse(out) as { state: PullRequestState; reviewDecision?: string; reviews?: unknown[] };
+      return {
+        state: data.state,
+        reviewed: !!data.reviewDecision || (data.reviews?.length ?? 0) > 0,
+      };
+    },
+
+    async runEval(task) {
+      try {
+        const output = runTool(settings.toolsDir, 'run-eval-hook.ts', [
+          '--issue', task.issue,
+          ...(task.pr ? ['--pr', String(task.pr)] : []),
+          '--branch', task.branch,
+          '--worktree', task.worktree,
+          '--workflow-type', 'mill',
+          '--repo-dir', repoDir,
+          '--agent', task.agent ?? settings.agentCmd,
+          ...(task.budget?.decisions.length ? ['--budget-decisions', JSON.stringify(task.budget.decisions)] : []),
+          ...(task.routingDecision ? ['--routing-decision', JSON.stringify(task.routingDecision)] : []),
+        ], repoDir, EVAL_TIMEOUT_MS);
+        for (const line of output.split('\n').filter(Boolean)) console.log(`  [eval] ${line}`);
+      } catch (error) {
+        console.warn(`  [eval] ${(error as Error).message}`);
+      }
+    },
+
+    async getEvalRecord(task) {
+      const evalsDir = loadWavemillConfig(repoDir).eval?.evalsDir ?? '.wavemill/evals';
+      const records = readEvalRecords({ dir: resolve(repoDir, evalsDir) }).filter((record) => record.issueId === task.issue);
+      if (records.length === 0) return null;
+      return records.reduce((latest, record) => (record.timestamp > latest.timestamp ? record : latest));
+    },
+
+    async getTaskCost(task) {
+      // A downgrade can switch agents, so add up every agent's sessions on the branch
+      const pricingTable = loadPricingTable(repoDir);
+      const costs = AGENT_TYPES.map((agentType) =>
+        computeWorkflowCost({
+          worktreePath: task.worktree,
+          branchName: task.branch,
+          repoDir,
+          pricingTable,
+          agentType,
+          detectAgent: false,
+        }),
+      ).flatMap((outcome) => (outcome.status === 'success' ? [outcome.totalCostUsd] : []));
+      return costs.length > 0 ? costs.reduce((sum, cost) => sum + cost, 0) : null;
+    },
+
+    async cheaperModel(model) {
+      const router = loadRouterConfig(repoDir);
+      const fixed = settings.budget?.downgradeModel;
+      if (fixed) {
+        return fixed === model ? null : { model: fixed, agent: resolveAgent(fixed, router.agentMap ?? {}, router.defaultAgent ?? 'claude') };
+      }
+      return selectCheaperModel(model, loadPricingTable(repoDir), {
+        candidates: router.models,
+        agentMap: router.agentMap,
+        defaultAgent: router.defaultAgent,
+      });
+    },
+  };
+}
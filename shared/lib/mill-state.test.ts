@@ -0,0 +1,169 @@
+/**
+ * Tests for the mill task lifecycle, retry policy and ledger persistence.
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync, readdirSync, existsSync } from 'node:fs';
+import { spawnSync } from 'node:child_process';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  createTask,
+  transitionTask,
+  canTransition,
+  recordFailure,
+  retryDelaySeconds,
+  isDue,
+  MillLedger,
+  acquireMillLock,
+  releaseMillLock,
+  readMillLock,
+  isMillLockHeld,
+  processStartTime,
+} from './mill-state.ts';
+
+const T0 = new Date('2026-03-01T12:00:00Z');
+
+function task() {
+  return createTask({ issue: 'HOK-1', title: 'Add thing', slug: 'add-thing', branch: 'task/add-thing', worktree: '/wt/add-thing' }, T0);
+}
+
+let dir: string;
+
+before(() => {
+  dir = mkdtempSync(join(tmpdir(), 'mill-state-test-'));
+});
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('transitionTask', () => {
+  it('walks the happy path and records history', () => {
+    const t = task();
+    for (const state of ['expanded', 'planned', 'running', 'pr_open', 'reviewing', 'merged'] as const) {
+      transitionTask(t, state, undefined, T0);
+    }
+    assert.equal(t.state, 'merged');
+    assert.deepEqual(t.history.map((h) => h.to), ['selected', 'expanded', 'planned', 'running', 'pr_open', 'reviewing', 'merged']);
+    assert.equal(t.history[1].from, 'selected');
+  });
+
+  it('rejects transitions the lifecycle does not allow', () => {
+    const t = task();
+    assert.throws(() => transitionTask(t, 'running'), /Invalid transition for HOK-1: selected → running/);
+    transitionTask(t, 'failed', 'gave up');
+    assert.throws(() => transitionTask(t, 'expanded'), /failed → expanded/);
+    assert.equal(canTransition('running', 'merged'), true);
+    assert.equal(canTransition('reviewing', 'pr_open'), false);
+  });
+});
+
+describe('retry policy', () => {
+  const policy = { maxRetries: 3, retryDelay: 2 };
+
+  it('backs off exponentially from retryDelay', () => {
+    assert.deepEqual([1, 2, 3].map((n) => retryDelaySeconds(n, policy)), [2, 4, 8]);
+  });
+
+  it('schedules retries until maxRetries, then fails the task', () => {
+    const t = task();
+    assert.equal(recordFailure(t, 'boom', policy, T0), true);
+    assert.equal(t.retryAt, '2026-03-01T12:00:02.000Z');
+    assert.equal(isDue(t, new Date('2026-03-01T12:00:01Z')), false);
+    assert.equal(isDue(t, new Date('2026-03-01T12:00:02Z')), true);
+
+    assert.equal(recordFailure(t, 'boom', policy, T0), true);
+    assert.equal(t.retryAt, '2026-03-01T12:00:04.000Z');
+
+    assert.equal(recordFailure(t, 'still broken', policy, T0), false);
+    assert.equal(t.state, 'failed');
+    assert.equal(t.error, 'still broken');
+    assert.match(t.history.at(-1)!.detail!, /selected failed after 3 attempt\(s\): still broken/);
+  });
+
+  it('resets attempts when a step succeeds', () => {
+    const t = task();
+    recordFailure(t, 'flaky', policy, T0);
+    transitionTask(t, 'expanded', undefined, T0);
+    assert.equal(t.attempts, 0);
+    assert.equal(t.retryAt, undefined);
+    assert.equal(t.error, undefined);
+  });
+});
+
+describe('MillLedger', () => {
+  it('persists tasks across instances and tracks active ones', () => {
+    const path = join(dir, 'ledger', 'mill-ledger.json');
+    const ledger = new MillLedger(path, 'sess');
+    const running = task();
+    transitionTask(running, 'expanded', undefined, T0);
+    ledger.put(running);
+
+    const done = { ...task(), issue: 'HOK-2' };
+    transitionTask(done, 'failed', 'x', T0);
+    done.cleanedUp = true;
+    ledger.put(done);
+
+    const reloaded = new MillLedger(path);
+    assert.equal(reloaded.session, 'sess');
+    assert.equal(reloaded.get('HOK-1')?.state, 'expanded');
+    assert.deepEqual(reloaded.active().map((t) => t.issue), ['HOK-1']);
+    assert.deepEqual(readdirSync(join(dir, 'ledger')), ['mill-ledger.json']);
+  });
+
+  it('starts fresh when the ledger file is corrupt', () => {
+    const path = join(dir, 'corrupt.json');
+    writeFileSync(path, '{not json');
+    const originalWarn = console.warn;
+    console.warn = () => {};
+    try {
+      assert.deepEqual(new MillLedger(path).all(), []);
+    } finally {
+      console.warn = originalWarn;
+    }
+  });
+});
+
+describe('mill lock', () => {
+  it('refuses a second live mill and takes over a stale pidfile', () => {
+    const path = join(dir, 'mill.pid');
+
+    // A pid that has already exited stands in for a crashed mill
+    const dead = spawnSync('true').pid;
+    writeFileSync(path, JSON.stringify({ pid: dead, started: T0.toISOString(), runner: 'tmux' }));
+    const lock = acquireMillLock(path, 'headless', T0);
+    assert.equal(lock.pid, process.pid);
+    assert.equal(readMillLock(path)?.runner, 'headless');
+
+    // The parent process is alive, so its lock is respected
+    writeFileSync(path, JSON.stringify({ pid: process.ppid, started: T0.toISOString(), runner: 'tmux' }));
+    assert.throws(() => acquireMillLock(path, 'headless'), new RegExp(`Another mill is already running \\(pid ${process.ppid}`));
+
+    // Only the holder removes the pidfile
+    releaseMillLock(path);
+    assert.equal(existsSync(path), true);
+    rmSync(path);
+    acquireMillLock(path, 'tmux');
+    releaseMillLock(path);
+    assert.equal(existsSync(path), false);
+  });
+
+  it('records the process start time and treats a reused pid as stale', () => {
+    const path = join(dir, 'mill.pid');
+    const lock = acquireMillLock(path, 'tmux', T0);
+    assert.equal(lock.processStart, processStartTime(process.pid));
+    releaseMillLock(path);
+
+    const parent = { pid: process.ppid, started: T0.toISOString(), runner: 'tmux' };
+    writeFileSync(path, JSON.stringify({ ...parent, processStart: processStartTime(process.ppid) }));
+    assert.throws(() => acquireMillLock(path, 'headless'), /Another mill is already running/);
+
+    // Same pid, different start time: a new process reused the dead mill's pid
+    writeFileSync(path, JSON.stringify({ ...parent, processStart: 'Thu Jan  1 00:00:00 1970' }));
+    assert.equal(isMillLockHeld(readMillLock(path)!), false);
+    assert.equal(acquireMillLock(path, 'headless').pid, process.pid);
+    releaseMillLock(path);
+  });
+});
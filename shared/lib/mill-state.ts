@@ -0,0 +1,401 @@
+/**
+ * Mill State - Task lifecycle state machine and persisted ledger.
+ *
+ * Every task the mill works on moves through:
+ *
+ *   selected → expanded → planned → running → pr_open → reviewing → merged
+ *
+ * with `failed` reachable from any non-terminal state. `running` may jump
+ * straight to `merged` when the issue is completed outside this repo, and
+ * `pr_open` may skip `reviewing` when a PR merges without a review. Budget
+ * guardrails can send a running task back to `planned` (relaunch on a
+ * cheaper model) or to `paused` until the budget allows it to continue.
+ *
+ * The ledger is a single JSON file (default `.wavemill/mill-ledger.json`)
+ * rewritten atomically on every change, so a restarted orchestrator picks up
+ * where the previous one stopped. A pidfile lock (`.wavemill/mill.pid`) keeps
+ * two mills from driving the same ledger.
+ *
+ * @module mill-state
+ */
+
+import { existsSync, readFileSync, writeFileSync, renameSync, mkdirSync, rmSync, linkSync } from 'node:fs';
+import { execFileSync } from 'node:child_process';
+import { dirname, join } from 'node:path';
+import type { TaskBudget } from './budget-guard.ts';
+import type { RoutingDecision } from './eval-schema.ts';
+
+// ────────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────────
+
+export type TaskState =
+  | 'selected'
+  | 'expanded'
+  | 'planned'
+  | 'running'
+  | 'pr_open'
+  | 'reviewing'
+  | 'paused'
+  | 'merged'
+  | 'failed';
+
+export interface TaskTransition {
+  from: TaskState | null;
+  to: TaskState;
+  at: string;
+  /** Why the transition happened (e.g. "PR #42 merged") */
+  detail?: string;
+}
+
+/** One task as recorded in the ledger. */
+export interface MillTask {
+  issue: string;
+  title: string;
+  slug: string;
+  branch: string;
+  worktree: string;
+  state: TaskState;
+  /** Agent CLI and model chosen at planning time */
+  agent?: string;
+  model?: string;
+  /** How the router chose the model, passed on to the eval record */
+  routingDecision?: RoutingDecision;
+  /** Runner that launched the agent (tmux, headless) */
+  runner?: string;
+  pr?: number;
+  /** Failed attempts at the current step (reset on every transition) */
+  attempts: number;
+  /** Earliest time the current step may be retried (ISO) */
+  retryAt?: string;
+  /** Last step error */
+  error?: string;
+  /** Whether the runner and worktree have been torn down */
+  cleanedUp?: boolean;
+  evalCompleted?: boolean;
+  /** Spend tracking and budget decisions (when budget guardrails are on) */
+  budget?: TaskBudget;
+  history: TaskTransition[];
+  updated: string;
+}
+
+export interface LedgerData {
+  version: 1;
+  session: string;
+  started: string;
+  tasks: Record<string, MillTask>;
+}
+
+/** Retry settings, mirroring MillConfig.maxRetries / retryDelay. */
+export interface RetryPolicy {
+  /** Attempts per step before the task fails (default: 3) */
+  maxRetries: number;
+  /** Seconds before the first retry; doubles on each further attempt (default: 2) */
+  retryDelay: number;
+}
+
+// ────────────────────────────────────────────────────────────────
+// Constants
+// ────────────────────────────────────────────────────────────────
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { maxRetries: 3, retryDelay: 2 };
+
+const TRANSITIONS: Record<TaskState, TaskState[]> = {
+  selected: ['expanded', 'failed'],
+  expanded: ['planned', 'failed'],
+  planned: ['running', 'failed'],
+  running: ['pr_open', 'merged', 'failed', 'planned', 'paused'],
+  pr_open: ['reviewing', 'merged', 'failed'],
+  reviewing: ['merged', 'failed'],
+  paused: ['planned', 'failed'],
+  merged: [],
+  failed: [],
+};
+
+// ────────────────────────────────────────────────────────────────
+// State Machine
+// ────────────────────────────────────────────────────────────────
+
+export function isTerminal(state: TaskState): boolean {
+  return TRANSITIONS[state].length === 0;
+}
+
+export function canTransition(from: TaskState, to: TaskState): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+/** Create a task in the `selected` state. */
+export function createTask(
+  fields: Pick<MillTask, 'issue' | 'title' | 'slug' | 'branch' | 'worktree'>,
+  now = new Date(),
+): MillTask {
+  const at = now.toISOString();
+  return {
+    ...fields,
+    state: 'selected',
+    attempts: 0,
+    history: [{ from: null, to: 'selected', at }],
+    updated: at,
+  };
+}
+
+/**
+ * Move a task to a new state, recording the transition and clearing retry
+ * bookkeeping. Throws if the lifecycle doesn't allow the move.
+ */
+export function transitionTask(task: MillTask, to: TaskState, detail?: string, now = new Date()): MillTask {
+  if (!canTransition(task.state, to)) {
+    throw new Error(`Invalid transition for ${task.issue}: ${task.state} → ${to}`);
+  }
+
+  const at = now.toISOString();
+  task.history.push({ from: task.state, to, at, ...(detail ? { detail } : {}) });
+  task.state = to;
+  task.attempts = 0;
+  task.updated = at;
+  delete task.retryAt;
+  if (to !== 'failed') delete task.error;
+  return task;
+}
+
+/** Seconds to wait before retry number `attempt` (1-based): retryDelay, 2×, 4×, ... */
+export function retryDelaySeconds(attempt: number, policy: RetryPolicy): number {
+  return policy.retryDelay * 2 ** Math.max(0, attempt - 1);
+}
+
+/**
+ * Record a failed step. Schedules a retry while attempts remain, otherwise
+ * moves the task to `failed`. Returns true if the task will be retried.
+ */
+export function recordFailure(task: MillTask, error: string, policy: RetryPolicy, now = new Date()): boolean {
+  task.attempts += 1;
+  task.error = error;
+  task.updated = now.toISOString();
+
+  if (task.attempts < policy.maxRetries) {
+    task.retryAt = new Date(now.getTime() + retryDelaySeconds(task.attempts, policy) * 1000).toISOString();
+    return true;
+  }
+
+  transitionTask(task, 'failed', `${task.state} failed after ${task.attempts} attempt(s): ${error}`, now);
+  task.error = error;
+  return false;
+}
+
+/** Whether a task's retry backoff has elapsed. */
+export function isDue(task: MillTask, now = new Date()): boolean {
+  return !task.retryAt || Date.parse(task.retryAt) <= now.getTime();
+}
+
+/** Directory for a task's per-task files (packets, instructions, logs). */
+export function millTaskDir(stateDir: string, issue: string): string {
+  return join(stateDir, 'tasks', issue);
+}
+
+// ────────────────────────────────────────────────────────────────
+// Ledger
+// ────────────────────────────────────────────────────────────────
+
+/**
+ * Persisted set of mill tasks. Reads once on construction; every mutation
+ * goes through `save()`, which writes to a temp file and renames it so a
+ * crash never leaves a half-written ledger.
+ */
+export class MillLedger {
+  readonly path: string;
+  private data: LedgerData;
+
+  constructor(path: string, session = 'wavemill') {
+    this.path = path;
+    this.data = MillLedger.read(path) ?? {
+      version: 1,
+      session,
+      started: new Date().toISOString(),
+      tasks: {},
+    };
+  }
+
+  private static read(path: string): LedgerData | null {
+    if (!existsSync(path)) return null;
+    try {
+      const parsed = JSON.parse(readFileSync(path, 'utf-8'));
+      if (parsed && typeof parsed === 'object' && parsed.tasks && typeof parsed.tasks === 'object') {
+        return parsed as LedgerData;
+      }
+    } catch {
+      // Fall through: a corrupt ledger is reported and replaced rather than crashing the mill
+    }
+    console.warn(`Warning: Ignoring unreadable mill ledger at ${path}`);
+    return null;
+  }
+
+  get session(): string {
+    return this.data.session;
+  }
+
+  get(issue: string): MillTask | undefined {
+    return this.data.tasks[issue];
+  }
+
+  all(): MillTask[] {
+    return Object.values(this.data.tasks);
+  }
+
+  /** Tasks that still occupy a slot: non-terminal, or terminal but not yet cleaned up. */
+  active(): MillTask[] {
+    return this.all().filter((t) => !isTerminal(t.state) || !t.cleanedUp);
+  }
+
+  put(task: MillTask): void {
+    this.data.tasks[task.issue] = task;
+    this.save();
+  }
+
+  remove(issue: string): void {
+    delete this.data.tasks[issue];
+    this.save();
+  }
+
+  save(): void {
+    mkdirSync(dirname(this.path), { recursive: true });
+    const tmp = `${this.path}.${process.pid}.tmp`;
+    writeFileSync(tmp, JSON.stringify(this.data, null, 2) + '\n');
+    renameSync(tmp, this.path);
+  }
+}
+
+// ────────────────────────────────────────────────────────────────
+// Mill Lock
+// ────────────────────────────────────────────────────────────────
+
+/** Contents of the mill pidfile. */
+export interface MillLock {
+  pid: number;
+  started: string;
+  runner: string;
+  /** Process start time from ps, to tell the mill from a later process reusing its pid */
+  processStart?: string;
+}
+
+/** Whether a process exists (signal 0 probes without delivering anything). */
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: it exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/** Start time of a process as reported by ps, or null when unavailable. */
+export function processStartTime(pid: number): string | null {
+  try {
+    const out = execFileSync('ps', ['-o', 'lstart=', '-p', String(pid)], {
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+      env: { ...process.env, LC_ALL: 'C', TZ: 'UTC' },
+      timeout: 5_000,
+    }).trim();
+    return out || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether the mill that wrote a pidfile is still running: its pid is alive
+ * and, when the pidfile records one, has the same start time.
+ */
+export function isMillLockHeld(lock: MillLock): boolean {
+  if (!isProcessAlive(lock.pid)) return false;
+  if (!lock.processStart) return true;
+  const start = processStartTime(lock.pid);
+  return start === null || start === lock.processStart;
+}
+
+/** Read the mill pidfile; null if missing or unreadable. */
+export function readMillLock(path: string): MillLock | null {
+  if (!existsSync(path)) return null;
+  try {
+    const lock = JSON.parse(readFileSync(path, 'utf-8'));
+    return typeof lock?.pid === 'number' ? (lock as MillLock) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Claim the mill pidfile for this process. Throws if another live mill holds
+ * it; a lock left by a mill that died is taken over.
+ *
+ * The pidfile is written to a temp file and hard-linked into place, which
+ * fails if it already exists, so of two mills starting at once only one
+ * gets the lock and readers never see a half-written file.
+ */
+export function acquireMillLock(path: string, runner: string, now = new Date()): MillLock {
+  const processStart = processStartTime(process.pid);
+  const lock: MillLock = {
+    pid: process.pid,
+    started: now.toISOString(),
+    runner,
+    ...(processStart && { processStart }),
+  };
+  mkdirSync(dirname(path), { recursive: true });
+  const tmp = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmp, JSON.stringify(lock, null, 2) + '\n');
+
+  try {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        linkSync(tmp, path);
+        return lock;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      }
+
+      const existing = readMillLock(path);
+      if (existing?.pid === process.pid) {
+        renameSync(tmp, path);
+        return lock;
+      }
+      if (existing && isMillLockHeld(existing)) {
+        throw new Error(`Another mill is already running (pid ${existing.pid}, started ${existing.started})`);
+      }
+      if (attempt > 1) throw new Error(`Could not acquire the mill lock at ${path}`);
+      removeStaleLock(path, existing);
+    }
+  } finally {
+    rmSync(tmp, { force: true });
+  }
+}
+
+/**
+ * Move a dead mill's pidfile out of the way. If another mill replaced it in
+ * the meantime, that lock is put back.
+ */
+function removeStaleLock(path: string, stale: MillLock | null): void {
+  const aside = `${path}.${process.pid}.stale`;
+  try {
+    renameSync(path, aside);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+    throw error;
+  }
+  const moved = readMillLock(aside);
+  if (moved?.pid !== stale?.pid || moved?.started !== stale?.started) {
+    try {
+      linkSync(aside, path);
+    } catch {
+      // A newer lock is already in place
+    }
+  }
+  rmSync(aside, { force: true });
+}
+
+/** Remove the pidfile if this process holds it. */
+export function releaseMillLock(path: string): void {
+  if (readMillLock(path)?.pid === process.pid) {
+    rmSync(path, { force: true });
+  }
+}
@@ -11,10 +11,18 @@
 
 import { readFileSync, existsSync } from 'node:fs';
 import { resolve } from 'node:path';
-import { readEvalRecords } from './eval-persistence.ts';
-import type { EvalRecord } from './eval-schema.ts';
+import { readEvalRecords, type QueryOptions } from './eval-persistence.ts';
+import type { EvalRecord, RoutingDecision } from './eval-schema.ts';
 import { recommendModelLLM } from './llm-router.ts';
-import { loadWavemillConfig } from './config.ts';
+import { loadWavemillConfig, type RouterObjectiveConfig } from './config.ts';
+import {
+  GREEDY_POLICY_VERSION,
+  THOMPSON_POLICY_VERSION,
+  armPosteriors,
+  explorationUsage,
+  thompsonSelect,
+} from './router-bandit.ts';
+import { describeObjective, resolveObjective, selectByObjective } from './router-objective.ts';
 
 // ────────────────────────────────────────────────────────────────
 // Task Type Classification
@@ -149,6 +157,9 @@ export interface ModelStats {
   successRate: number;
   avgTimeSeconds: number;
   avgInterventionCount: number;
+  /** Average workflow cost in USD (null when no record has one) */
+  avgCost: number | null;
+  taskTypeAvgCost: number | null;
 }
 
 /**
@@ -173,6 +184,10 @@ export function aggregateEvalHistory(
     );
 
     const avg = (arr: number[]) => arr.reduce((a, b) => a + b, 0) / arr.length;
+    const avgCost = (list: EvalRecord[]) => {
+      const costs = list.filter((r) => typeof r.workflowCost === 'number').map((r) => r.workflowCost!);
+      return costs.length > 0 ? avg(costs) : null;
+    };
 
     stats.push({
       modelId,
@@ -187,6 +202,8 @@ export function aggregateEvalHistory(
         modelRecords.filter((r) => r.score >= 0.8).length / modelRecords.length,
       avgTimeSeconds: avg(modelRecords.map((r) => r.timeSeconds)),
       avgInterventionCount: avg(modelRecords.map((r) => r.interventionCount)),
+      avgCost: avgCost(modelRecords),
+      taskTypeAvgCost: avgCost(taskTypeRecords),
     });
   }
 
@@ -213,6 +230,14 @@ export interface CandidateScore {
   taskTypeRecordCount: number;
   successRate: number;
   avgTimeSeconds: number;
+  /** Expected workflow cost in USD for the task type (null when unknown) */
+  expectedCost?: number | null;
+  /** Value under the routing objective (higher is better) */
+  objectiveValue?: number;
+  /** Posterior mean score in the routing context (thompson policy) */
+  posteriorMean?: number;
+  /** This decision's draw from the posterior (thompson policy) */
+  sampledScore?: number;
 }
 
 export interface ModelRecommendation {
@@ -230,6 +255,12 @@ export interface ModelRecommendation {
   costEstimate?: string;
   /** Which routing mode produced this recommendation */
   routingMode?: 'heuristic' | 'llm';
+  /** Candidates, choice and policy, for recording on the eval record */
+  routingDecision?: RoutingDecision;
+  /** Routing objective in effect, e.g. "score − 0.05×cost" */
+  objective?: string;
+  /** Why a cheaper model was or wasn't chosen */
+  costReasoning?: string;
 }
 
 export interface RouterOptions {
@@ -257,6 +288,18 @@ export interface RouterOptions {
   llmModel?: string;
   /** Provider for the LLM router (default: 'openai') */
   llmProvider?: 'openai' | 'anthropic';
+  /** Heuristic policy: 'greedy' (best historical average) or 'thompson' (bandit) */
+  policy?: 'greedy' | 'thompson';
+  /** Thompson policy: maximum share (0–1) of recent decisions that may explore */
+  explorationBudget?: number;
+  /** Thompson policy: number of recent decisions the budget applies to */
+  explorationWindow?: number;
+  /** Difficulty stratum of the task, when known (narrows the bandit context) */
+  stratum?: string;
+  /** Random source for the thompson policy (default: Math.random) */
+  random?: () => number;
+  /** Quality/cost trade-off (default: best expected score) */
+  objective?: RouterObjectiveConfig;
 }
 
 const DEFAULT_ROUTER_OPTIONS = {
@@ -272,6 +315,12 @@ const DEFAULT_ROUTER_OPTIONS = {
   repoName: '',
   llmModel: '',
   llmProvider: 'openai' as const,
+  policy: 'greedy' as 'greedy' | 'thompson',
+  explorationBudget: 0.2,
+  explorationWindow: 50,
+  stratum: '',
+  random: Math.random,
+  objective: {} as RouterObjectiveConfig,
 } satisfies Required<RouterOptions>;
 
 /**
@@ -309,6 +358,10 @@ export function loadRouterConfig(repoDir?: string): RouterOptions {
   if (r.mode !== undefined) opts.mode = r.mode;
   if (r.llmModel !== undefined) opts.llmModel = r.llmModel;
   if (r.llmProvider !== undefined) opts.llmProvider = r.llmProvider;
+  if (r.policy !== undefined) opts.policy = r.policy;
+  if (r.explorationBudget !== undefined) opts.explorationBudget = r.explorationBudget;
+  if (r.explorationWindow !== undefined) opts.explorationWindow = r.explorationWindow;
+  if (r.objective !== undefined) opts.objective = r.objective;
   return opts;
 }
 
@@ -322,16 +375,23 @@ export function isRouterEnabled(repoDir?: string): boolean {
 }
 
 /**
- * Load eval records from per-repo file and optionally merge with the
- * aggregated cross-repo file. Deduplicates by record `id`.
+ * Load eval records from the store configured for `opts.repoDir` (per-repo
+ * JSONL or the SQLite warehouse) and optionally merge with the aggregated
+ * cross-repo file. The model filter is applied by the store's query and to
+ * the aggregated records alike. Deduplicates by record `id`.
  */
-function loadMergedEvalRecords(opts: Required<RouterOptions>): EvalRecord[] {
-  const perRepo = readEvalRecords(
-    opts.evalsDir ? { dir: opts.evalsDir } : undefined,
-  );
+function loadMergedEvalRecords(
+  opts: Required<RouterOptions>,
+  filters: Pick<QueryOptions, 'models'> = {},
+): EvalRecord[] {
+  const repoDir = opts.repoDir || '.';
+  const perRepo = readEvalRecords({
+    ...filters,
+    repoDir,
+    ...(opts.evalsDir && { dir: opts.evalsDir }),
+  });
 
   // Try loading aggregated cross-repo data
-  const repoDir = opts.repoDir || '.';
   const configPath = resolve(repoDir, '.wavemill-config.json');
   let aggregatedPath = resolve(repoDir, '.wavemill/evals/aggregated-evals.jsonl');
 
@@ -357,6 +417,7 @@ function loadMergedEvalRecords(opts: Required<RouterOptions>): EvalRecord[] {
     for (const line of lines) {
       try {
         const record = JSON.parse(line) as EvalRecord;
+        if (filters.models && !filters.models.includes(record.modelId)) continue;
         if (!seen.has(record.id)) {
           seen.add(record.id);
           merged.push(record);
@@ -371,9 +432,125 @@ function loadMergedEvalRecords(opts: Required<RouterOptions>): EvalRecord[] {
   }
 }
 
+/**
+ * Eval records the router learns from: the configured store merged with the
+ * aggregated cross-repo history.
+ */
+export function loadRoutingHistory(options: RouterOptions = {}): EvalRecord[] {
+  return loadMergedEvalRecords({ ...DEFAULT_ROUTER_OPTIONS, ...options });
+}
+
+/**
+ * Routing decision for the eval record: every candidate, the chosen one and
+ * the policy that chose it.
+ */
+function buildRoutingDecision(
+  modelIds: string[],
+  chosen: string,
+  policyVersion: string,
+  rationale: string,
+  opts: Required<RouterOptions>,
+): RoutingDecision {
+  return {
+    candidates: modelIds.map((modelId) => ({
+      agentType: resolveAgent(modelId, opts.agentMap, opts.defaultAgent),
+      modelId,
+    })),
+    chosen: modelIds.indexOf(chosen),
+    decisionPolicyVersion: policyVersion,
+    decisionRationale: rationale,
+  };
+}
+
+/** Expected cost for the task type, falling back to the model's overall average. */
+function expectedCost(stats: ModelStats | undefined): number | null {
+  return stats ? stats.taskTypeAvgCost ?? stats.avgCost : null;
+}
+
+/**
+ * Thompson-sampling recommendation: one posterior draw per candidate model
+ * in the task-type (and stratum) context, within the exploration budget.
+ * Needs no minimum amount of data; models without history start from an
+ * uninformative prior.
+ */
+function recommendModelThompson(
+  records: EvalRecord[],
+  characteristics: PromptCharacteristics,
+  opts: Required<RouterOptions>,
+): ModelRecommendation {
+  const taskType = characteristics.taskType;
+  const models = opts.models?.length
+    ? [...opts.models]
+    : [...new Set([opts.defaultModel, ...records.map((r) => r.modelId)])];
+
+  const arms = armPosteriors(
+    records,
+    models,
+    (r) =>
+      classifyTaskType(r.originalPrompt) === taskType &&
+      (!opts.stratum || r.stratum === opts.stratum),
+  );
+  const stats = new Map(aggregateEvalHistory(records, taskType).map((s) => [s.modelId, s]));
+  const costs = Object.fromEntries(models.map((modelId) => [modelId, expectedCost(stats.get(modelId))]));
+  const objective = resolveObjective(opts.objective);
+  const choice = thompsonSelect(arms, explorationUsage(records, opts.explorationWindow), {
+    explorationBudget: opts.explorationBudget,
+    explorationWindow: opts.explorationWindow,
+    defaultModel: opts.defaultModel,
+    random: opts.random,
+    objective,
+    costs,
+  });
+
+  const candidates: CandidateScore[] = [...arms]
+    .sort((a, b) => b.mean - a.mean)
+    .map((arm) => {
+      const s = stats.get(arm.modelId);
+      return {
+        modelId: arm.modelId,
+        avgScore: s ? s.taskTypeAvgScore ?? s.avgScore : 0,
+        recordCount: s?.totalRecords ?? 0,
+        taskTypeRecordCount: s?.taskTypeRecords ?? 0,
+        successRate: s?.successRate ?? 0,
+        avgTimeSeconds: s?.avgTimeSeconds ?? 0,
+        expectedCost: costs[arm.modelId],
+        posteriorMean: arm.mean,
+        sampledScore: choice.samples[arm.modelId],
+      };
+    });
+
+  const chosen = arms.find((arm) => arm.modelId === choice.modelId)!;
+  const confidence: 'high' | 'medium' | 'low' =
+    choice.choice === 'explore' || chosen.contextRecords < 5 ? 'low'
+      : chosen.contextRecords < 10 ? 'medium' : 'high';
+  const context = opts.stratum ? `${taskType}/${opts.stratum}` : taskType;
+
+  return {
+    recommendedModel: choice.modelId,
+    recommendedAgent: resolveAgent(choice.modelId, opts.agentMap, opts.defaultAgent),
+    confidence,
+    reasoning:
+      choice.choice === 'explore'
+        ? `Exploring ${choice.modelId} for ${context} tasks: its posterior draw beat ` +
+          `${choice.exploitModelId}, the best so far (mean ${chosen.mean.toFixed(2)} vs ` +
+          `${arms.find((a) => a.modelId === choice.exploitModelId)!.mean.toFixed(2)}).`
+        : `${choice.modelId} has the best posterior mean score (${chosen.mean.toFixed(2)}) ` +
+          `for ${context} tasks, from ${chosen.contextRecords} evaluation(s).`,
+    taskType,
+    promptCharacteristics: characteristics,
+    candidates,
+    insufficientData: false,
+    routingMode: 'heuristic',
+    routingDecision: buildRoutingDecision(models, choice.modelId, THOMPSON_POLICY_VERSION, choice.rationale, opts),
+    objective: describeObjective(objective),
+    costReasoning: choice.costExplanation,
+  };
+}
+
 /**
  * Heuristic model recommendation based on regex task classification
- * and historical eval score averages.
+ * and historical eval score averages (or Thompson sampling over them
+ * with `policy: 'thompson'`).
  */
 function recommendModelHeuristic(
   prompt: string,
@@ -382,8 +559,13 @@ function recommendModelHeuristic(
 ): ModelRecommendation {
   const taskType = characteristics.taskType;
 
-  // Load eval records (per-repo + aggregated cross-repo data)
-  const records = loadMergedEvalRecords(opts);
+  // Load eval records (per-repo + aggregated cross-repo data) for the
+  // candidate models, if configured
+  const records = loadMergedEvalRecords(opts, opts.models?.length ? { models: opts.models } : {});
+
+  if (opts.policy === 'thompson') {
+    return recommendModelThompson(records, characteristics, opts);
+  }
 
   // Count distinct models
   const distinctModels = new Set(records.map((r) => r.modelId));
@@ -407,12 +589,7 @@ function recommendModelHeuristic(
   }
 
   // Aggregate history
-  let modelStats = aggregateEvalHistory(records, taskType);
-
-  // Filter to candidate models if configured
-  if (opts.models && opts.models.length > 0) {
-    modelStats = modelStats.filter((s) => opts.models!.includes(s.modelId));
-  }
+  const modelStats = aggregateEvalHistory(records, taskType);
 
   if (modelStats.length === 0) {
     return {
@@ -428,6 +605,13 @@ function recommendModelHeuristic(
     };
   }
 
+  // Pick under the routing objective; exact ties keep the score ordering above
+  const objective = resolveObjective(opts.objective);
+  const choice = selectByObjective(
+    modelStats.map((s) => ({ modelId: s.modelId, score: s.taskTypeAvgScore ?? s.avgScore, cost: expectedCost(s) })),
+    objective,
+  );
+
   // Build candidate scores
   const candidates: CandidateScore[] = modelStats.map((s) => ({
     modelId: s.modelId,
@@ -436,9 +620,11 @@ function recommendModelHeuristic(
     taskTypeRecordCount: s.taskTypeRecords,
     successRate: s.successRate,
     avgTimeSeconds: s.avgTimeSeconds,
+    expectedCost: expectedCost(s),
+    objectiveValue: choice.values[s.modelId],
   }));
 
-  const best = modelStats[0];
+  const best = modelStats.find((s) => s.modelId === choice.modelId)!;
   const taskTypeCount = best.taskTypeRecords;
 
   // Determine confidence
@@ -458,8 +644,12 @@ function recommendModelHeuristic(
       ? `${taskTypeCount} ${taskType} evaluation(s)`
       : `${best.totalRecords} total evaluation(s) (no ${taskType}-specific data)`;
 
+  const cost = expectedCost(best);
   const reasoning =
-    `${best.modelId} has the highest average score (${scoreDisplay}) ` +
+    (best === modelStats[0]
+      ? `${best.modelId} has the highest average score (${scoreDisplay}) `
+      : `${best.modelId} is best on ${describeObjective(objective)} (average score ${scoreDisplay}` +
+        `${cost !== null ? `, expected cost $${cost.toFixed(2)}` : ''}) `) +
     `based on ${dataSource}.` +
     (confidence === 'low'
       ? ' Confidence is low due to limited task-type-specific data.'
@@ -475,6 +665,15 @@ function recommendModelHeuristic(
     candidates,
     insufficientData: false,
     routingMode: 'heuristic',
+    routingDecision: buildRoutingDecision(
+      candidates.map((c) => c.modelId),
+      best.modelId,
+      GREEDY_POLICY_VERSION,
+      `exploit: ${reasoning}`,
+      opts,
+    ),
+    objective: describeObjective(objective),
+    costReasoning: choice.explanation,
   };
 }
 
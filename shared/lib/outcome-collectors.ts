@@ -3,7 +3,8 @@
  *
  * Each collector gathers data for a specific outcome dimension (CI, tests,
  * static analysis, review, rework, delivery) from available sources:
- * - GitHub API (via gh CLI)
+ * - The repository's outcome source (GitHub, GitLab or a fixture; see
+ *   outcome-sources.ts) for checks, reviews and merge status
  * - Git history
  * - Session files
  * - Intervention detector output
@@ -27,18 +28,22 @@ import type {
   DeliveryOutcome,
 } from './eval-schema.ts';
 import type { InterventionSummary } from './intervention-detector.ts';
-import { resolveOwnerRepo } from './intervention-detector.ts';
 import { resolveProjectsDir } from './workflow-cost.ts';
+import { resolveOutcomeSource, type OutcomeSource, type SourceCheck } from './outcome-sources.ts';
+import { ingestTestResults } from './test-results.ts';
+import { FlakyTestRegistry } from './flaky-registry.ts';
+import { getEvalConfig } from './config.ts';
 
 // ────────────────────────────────────────────────────────────────
 // PR Checks Cache
 // ────────────────────────────────────────────────────────────────
 
 /**
- * In-memory cache of PR checks, keyed by "${prNumber}:${repoDir}".
+ * In-memory cache of PR checks from remote sources, keyed by
+ * "${prNumber}:${repoDir}:${provider}".
  * Lifetime: process-level singleton (cleared manually or on process exit).
  */
-const prChecksCache = new Map<string, any[]>();
+const prChecksCache = new Map<string, SourceCheck[]>();
 
 /**
  * Clear the PR checks cache for a specific PR or all PRs.
@@ -48,58 +53,53 @@ const prChecksCache = new Map<string, any[]>();
  */
 export function clearPrChecksCache(prNumber?: string, repoDir?: string): void {
   if (prNumber !== undefined && repoDir !== undefined) {
-    const key = `${prNumber}:${repoDir}`;
-    prChecksCache.delete(key);
+    const prefix = `${prNumber}:${repoDir}:`;
+    for (const key of prChecksCache.keys()) {
+      if (key.startsWith(prefix)) prChecksCache.delete(key);
+    }
   } else {
     prChecksCache.clear();
   }
 }
 
 /**
- * Fetch PR checks from GitHub, with in-process caching.
+ * Fetch PR checks from the outcome source, with in-process caching.
  *
- * Makes a single `gh pr checks` call per PR and caches the result.
+ * Makes a single checks call per PR and caches the result.
  * Subsequent calls for the same PR return cached data.
  *
- * @param prNumber - GitHub PR number
+ * @param prNumber - PR or merge request number
  * @param repoDir - Repository directory (defaults to cwd)
- * @returns Array of check objects, or empty array on error
+ * @param source - Outcome source (default: resolved for repoDir)
+ * @returns Array of checks, or empty array on error
  */
-function fetchPrChecks(prNumber: string, repoDir?: string): any[] {
+function fetchPrChecks(prNumber: string, repoDir?: string, source?: OutcomeSource): SourceCheck[] {
   const cwd = repoDir || process.cwd();
-  const cacheKey = `${prNumber}:${cwd}`;
-
-  // Check cache first
-  const cached = prChecksCache.get(cacheKey);
-  if (cached !== undefined) {
-    return cached;
-  }
 
   try {
-    // Fetch all fields needed by any collector
-    const checksRaw = execShellCommand(
-      `gh pr checks ${escapeShellArg(prNumber)} --json name,state,conclusion,startedAt,completedAt 2>/dev/null || echo '[]'`,
-      { encoding: 'utf-8', cwd, timeout: 15_000 }
-    ).trim();
-
-    if (!checksRaw || checksRaw === '[]') {
-      prChecksCache.set(cacheKey, []);
-      return [];
+    const src = source ?? resolveOutcomeSource(cwd);
+    if (!src.remote) {
+      return src.checks(prNumber);
     }
 
-    const checks = JSON.parse(checksRaw);
-    if (!Array.isArray(checks)) {
-      prChecksCache.set(cacheKey, []);
-      return [];
+    const cacheKey = `${prNumber}:${cwd}:${src.provider}`;
+    // Check cache first
+    const cached = prChecksCache.get(cacheKey);
+    if (cached !== undefined) {
+      return cached;
     }
 
-    // Cache and return
-    prChecksCache.set(cacheKey, checks);
+    let checks: SourceCheck[] = [];
+    try {
+      checks = src.checks(prNumber);
+    } finally {
+      // Failures are cached too, so collectors don't retry the same call
+      prChecksCache.set(cacheKey, checks);
+    }
     return checks;
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : String(err);
     console.warn(`[outcome-collectors] Failed to fetch PR checks: ${message}`);
-    prChecksCache.set(cacheKey, []);
     return [];
   }
 }
@@ -109,17 +109,20 @@ function fetchPrChecks(prNumber: string, repoDir?: string): any[] {
 // ────────────────────────────────────────────────────────────────
 
 /**
- * Collect CI/CD check results from GitHub PR.
+ * Collect CI/CD check results for a PR or merge request.
  *
- * Uses `gh pr checks` to fetch check run data.
+ * Reads check runs (GitHub) or the latest pipeline's jobs (GitLab) from the
+ * outcome source.
  *
- * @param prNumber - GitHub PR number
+ * @param prNumber - PR or merge request number
  * @param repoDir - Repository directory (defaults to cwd)
+ * @param source - Outcome source (default: resolved for repoDir)
  * @returns CI outcome with check results
  */
 export function collectCiOutcome(
   prNumber: string,
   repoDir?: string,
+  source?: OutcomeSource,
 ): CiOutcome {
   const cwd = repoDir || process.cwd();
   const outcome: CiOutcome = {
@@ -130,7 +133,7 @@ export function collectCiOutcome(
 
   try {
     // Fetch PR checks via shared cache
-    const checks = fetchPrChecks(prNumber, cwd);
+    const checks = fetchPrChecks(prNumber, cwd, source);
 
     if (checks.length === 0) {
       return outcome; // No checks ran
@@ -139,25 +142,8 @@ export function collectCiOutcome(
     outcome.ran = true;
 
     for (const check of checks) {
-      const name = check.name || 'unknown';
-      let status: 'success' | 'failure' | 'pending' | 'skipped' | 'cancelled' = 'pending';
-
-      // Map GitHub check conclusion to our status enum
-      const conclusion = (check.conclusion || '').toLowerCase();
-      const state = (check.state || '').toLowerCase();
-
-      if (conclusion === 'success') {
-        status = 'success';
-      } else if (conclusion === 'failure') {
-        status = 'failure';
-        outcome.passed = false;
-      } else if (conclusion === 'skipped' || conclusion === 'neutral') {
-        status = 'skipped';
-      } else if (conclusion === 'cancelled') {
-        status = 'cancelled';
-        outcome.passed = false;
-      } else if (state === 'pending' || state === 'in_progress') {
-        status = 'pending';
+      const { name, status } = check;
+      if (status === 'failure' || status === 'cancelled' || status === 'pending') {
         outcome.passed = false; // Treat pending as not-passed
       }
 
@@ -191,16 +177,40 @@ export function collectCiOutcome(
 // Tests Outcome Collector
 // ────────────────────────────────────────────────────────────────
 
+/**
+ * The worktree of `repoDir` (the main checkout included) that has
+ * `branchName` checked out, or null when none does.
+ */
+function findBranchWorktree(repoDir: string, branchName: string): string | null {
+  if (!branchName) return null;
+  const raw = String(execShellCommand('git worktree list --porcelain', {
+    encoding: 'utf-8', cwd: repoDir, timeout: 10_000,
+  }));
+  for (const entry of raw.split('\n\n')) {
+    const lines = entry.split('\n');
+    const path = lines.find((l) => l.startsWith('worktree '))?.slice('worktree '.length);
+    const branch = lines.find((l) => l.startsWith('branch '))?.slice('branch refs/heads/'.length);
+    if (path && branch === branchName) return path;
+  }
+  return null;
+}
+
 /**
  * Collect test outcome: whether tests were added and pass rate if available.
  *
  * Detects test file additions via git diff. Attempts to extract pass rate
- * from CI check output if a "test" check exists.
+ * from CI check output if a "test" check exists. When `eval.tests` is
+ * configured, runs the test command and/or reads its reports instead, for
+ * per-suite counts, flaky retries and coverage (see test-results.ts). This
+ * happens in the worktree that has `branchName` checked out, and is skipped
+ * when there is none. Tests that passed on retry are recorded in the flaky
+ * test registry.
  *
  * @param prNumber - GitHub PR number
  * @param branchName - Git branch name
  * @param baseBranch - Base branch (usually 'main')
  * @param repoDir - Repository directory (defaults to cwd)
+ * @param source - Outcome source (default: resolved for repoDir)
  * @returns Tests outcome
  */
 export function collectTestsOutcome(
@@ -208,6 +218,7 @@ export function collectTestsOutcome(
   branchName: string,
   baseBranch: string,
   repoDir?: string,
+  source?: OutcomeSource,
 ): TestsOutcome {
   const cwd = repoDir || process.cwd();
   const outcome: TestsOutcome = {
@@ -224,23 +235,25 @@ export function collectTestsOutcome(
 
     if (diffRaw) {
       // Check if any files were added (A) or modified (M)
-      const lines = diffRaw.split('\n').filter(Boolean);
+      const lines: string[] = diffRaw.split('\n').filter(Boolean);
       outcome.added = lines.some((line) => line.startsWith('A') || line.startsWith('M'));
+      outcome.testFilesAdded = lines.filter((line) => line.startsWith('A')).length;
+      outcome.testFilesModified = lines.filter((line) => line.startsWith('M')).length;
     }
 
     // Try to extract test pass rate from CI checks
     // Look for a check with "test" in the name
-    const checks = fetchPrChecks(prNumber, cwd);
-    const testCheck = checks.find((c: { name: string }) =>
+    const checks = fetchPrChecks(prNumber, cwd, source);
+    const testCheck = checks.find((c) =>
       c.name.toLowerCase().includes('test')
     );
 
     if (testCheck) {
-      // If we found a test check, infer pass rate from conclusion
+      // If we found a test check, infer pass rate from its status
       // This is a simple heuristic; actual pass rate would require parsing check output
-      if (testCheck.conclusion === 'success') {
+      if (testCheck.status === 'success') {
         outcome.passRate = 1.0;
-      } else if (testCheck.conclusion === 'failure') {
+      } else if (testCheck.status === 'failure') {
         outcome.passRate = 0.0; // Could be partial, but we don't have granular data
       }
     }
@@ -249,6 +262,45 @@ export function collectTestsOutcome(
     console.warn(`[outcome-collectors] Failed to collect test outcome: ${message}`);
   }
 
+  try {
+    const testsConfig = getEvalConfig(cwd).tests;
+    const worktree = testsConfig ? findBranchWorktree(cwd, branchName) : null;
+    if (testsConfig && !worktree) {
+      console.warn(`[outcome-collectors] Skipping test ingestion: ${branchName || '(no branch)'} is not checked out in any worktree of ${cwd}`);
+    } else if (testsConfig && worktree) {
+      const { results, exitCode, lineCoverage, coverageDelta } = ingestTestResults(worktree, testsConfig);
+      if (results) {
+        const ran = results.passed + results.failed;
+        if (ran > 0) {
+          outcome.passRate = results.passed / ran;
+        }
+        if (results.durationSeconds !== undefined) {
+          outcome.durationSeconds = results.durationSeconds;
+        }
+        outcome.total = results.total;
+        outcome.passed = results.passed;
+        outcome.failed = results.failed;
+        outcome.skipped = results.skipped;
+        outcome.flaky = results.flaky;
+        outcome.retries = results.retries;
+        outcome.suites = results.suites;
+        FlakyTestRegistry.forRepo(cwd).record(results.flakyTests);
+      } else if (exitCode !== undefined && exitCode !== null) {
+        // Output in no known format: fall back to the exit code
+        outcome.passRate = exitCode === 0 ? 1.0 : 0.0;
+      }
+      if (lineCoverage !== undefined) {
+        outcome.lineCoverage = lineCoverage;
+      }
+      if (coverageDelta !== undefined) {
+        outcome.coverageDelta = coverageDelta;
+      }
+    }
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.warn(`[outcome-collectors] Failed to ingest test results: ${message}`);
+  }
+
   return outcome;
 }
 
@@ -267,6 +319,7 @@ export function collectTestsOutcome(
  * @param branchName - Git branch name (unused currently, for future expansion)
  * @param baseBranch - Base branch (unused currently, for future expansion)
  * @param repoDir - Repository directory (defaults to cwd)
+ * @param source - Outcome source (default: resolved for repoDir)
  * @returns Static analysis outcome
  */
 export function collectStaticAnalysisOutcome(
@@ -274,42 +327,43 @@ export function collectStaticAnalysisOutcome(
   branchName: string,
   baseBranch: string,
   repoDir?: string,
+  source?: OutcomeSource,
 ): StaticAnalysisOutcome {
   const cwd = repoDir || process.cwd();
   const outcome: StaticAnalysisOutcome = {};
 
   try {
     // Fetch PR checks via shared cache
-    const checks = fetchPrChecks(prNumber, cwd);
+    const checks = fetchPrChecks(prNumber, cwd, source);
 
     if (checks.length === 0) {
       return outcome;
     }
 
     // Look for typecheck-related checks
-    const typecheckCheck = checks.find((c: { name: string }) =>
+    const typecheckCheck = checks.find((c) =>
       /type|tsc|typecheck/i.test(c.name)
     );
     if (typecheckCheck) {
-      outcome.typecheckPassed = typecheckCheck.conclusion === 'success';
+      outcome.typecheckPassed = typecheckCheck.status === 'success';
     }
 
     // Look for lint-related checks
-    const lintCheck = checks.find((c: { name: string }) =>
+    const lintCheck = checks.find((c) =>
       /lint|eslint|prettier/i.test(c.name)
     );
     if (lintCheck) {
       // We can't determine actual delta without detailed output, but we can infer
-      // 0 (no change/passed) vs positive (failures) from conclusion
-      outcome.lintDelta = lintCheck.conclusion === 'success' ? 0 : 1;
+      // 0 (no change/passed) vs positive (failures) from status
+      outcome.lintDelta = lintCheck.status === 'success' ? 0 : 1;
     }
 
     // Look for security scan checks
-    const securityCheck = checks.find((c: { name: string }) =>
+    const securityCheck = checks.find((c) =>
       /security|codeql|snyk|dependabot/i.test(c.name)
     );
     if (securityCheck) {
-      outcome.securityFindingsDelta = securityCheck.conclusion === 'success' ? 0 : 1;
+      outcome.securityFindingsDelta = securityCheck.status === 'success' ? 0 : 1;
     }
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : String(err);
@@ -326,16 +380,18 @@ export function collectStaticAnalysisOutcome(
 /**
  * Collect review outcome from PR review data and intervention summary.
  *
- * Combines intervention detector data with GitHub PR review API to get
- * complete review activity picture. Optionally includes self-review metrics
- * if issueId or branchName are provided.
+ * Combines intervention detector data with the outcome source's reviews
+ * (GitHub PR reviews, GitLab approval notes) to get complete review activity
+ * picture. Optionally includes self-review metrics if issueId or branchName
+ * are provided.
  *
- * @param prNumber - GitHub PR number
+ * @param prNumber - PR or merge request number
  * @param interventionSummary - Intervention summary from intervention-detector
  * @param repoDir - Repository directory (defaults to cwd)
  * @param nwo - GitHub owner/repo string (optional, will be resolved if needed)
  * @param issueId - Linear issue ID (optional, for self-review lookup)
  * @param branchName - Git branch name (optional, for self-review lookup)
+ * @param source - Outcome source (default: resolved for repoDir)
  * @returns Review outcome
  */
 export function collectReviewOutcome(
@@ -345,9 +401,9 @@ export function collectReviewOutcome(
   nwo?: string,
   issueId?: string,
   branchName?: string,
+  source?: OutcomeSource,
 ): ReviewOutcome {
   const cwd = repoDir || process.cwd();
-  const repo = nwo || resolveOwnerRepo(cwd);
   const outcome: ReviewOutcome = {
     humanReviewRequired: false,
     rounds: 0,
@@ -362,53 +418,36 @@ export function collectReviewOutcome(
     );
     outcome.humanReviewRequired = reviewCommentEvent ? reviewCommentEvent.count > 0 : false;
 
-    if (!repo) {
-      console.warn('[outcome-collectors] Cannot resolve GitHub repo — skipping review API calls');
-      return outcome;
-    }
-
-    // Fetch PR reviews via GitHub API
-    const reviewsRaw = execShellCommand(
-      `gh api repos/${escapeShellArg(repo)}/pulls/${escapeShellArg(prNumber)}/reviews --jq '[.[] | {state: .state, submittedAt: .submitted_at}]' 2>/dev/null || echo '[]'`,
-      { encoding: 'utf-8', cwd, timeout: 15_000 }
-    ).trim();
-
-    if (!reviewsRaw || reviewsRaw === '[]') {
-      return outcome;
-    }
-
-    const reviews = JSON.parse(reviewsRaw);
-    if (!Array.isArray(reviews)) {
-      return outcome;
-    }
-
-    // Count review types
-    for (const review of reviews) {
-      const state = (review.state || '').toUpperCase();
-      if (state === 'APPROVED') {
-        outcome.approvals++;
-      } else if (state === 'CHANGES_REQUESTED') {
-        outcome.changeRequests++;
-        outcome.humanReviewRequired = true;
-      } else if (state === 'COMMENTED') {
-        // Counted in intervention summary, don't double-count here
+    const reviews = (source ?? resolveOutcomeSource(cwd, { nwo })).reviews(prNumber);
+    if (!reviews) {
+      console.warn('[outcome-collectors] Cannot resolve repository — skipping review API calls');
+    } else {
+      // Count review types
+      for (const review of reviews) {
+        if (review.state === 'approved') {
+          outcome.approvals++;
+        } else if (review.state === 'changes_requested') {
+          outcome.changeRequests++;
+          outcome.humanReviewRequired = true;
+        }
+        // Comments are counted in intervention summary, don't double-count here
       }
-    }
 
-    // Count distinct rounds (unique submission timestamps rounded to nearest hour)
-    const timestamps = reviews
-      .map((r: { submittedAt: string }) => r.submittedAt)
-      .filter(Boolean)
-      .map((ts: string) => {
-        try {
-          return Math.floor(new Date(ts).getTime() / (1000 * 60 * 60)); // Round to hour
-        } catch {
-          return 0;
-        }
-      });
+      // Count distinct rounds (unique submission timestamps rounded to nearest hour)
+      const timestamps = reviews
+        .map((r) => r.submittedAt)
+        .filter((ts): ts is string => !!ts)
+        .map((ts) => {
+          try {
+            return Math.floor(new Date(ts).getTime() / (1000 * 60 * 60)); // Round to hour
+          } catch {
+            return 0;
+          }
+        });
 
-    const uniqueRounds = new Set(timestamps);
-    outcome.rounds = uniqueRounds.size;
+      const uniqueRounds = new Set(timestamps);
+      outcome.rounds = uniqueRounds.size;
+    }
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : String(err);
     console.warn(`[outcome-collectors] Failed to collect review outcome: ${message}`);
@@ -535,49 +574,41 @@ export function collectReworkOutcome(
 /**
  * Collect delivery outcome: PR creation, merge status, and timing.
  *
- * Uses GitHub API to fetch PR metadata including merge status and timestamps.
+ * Reads PR or merge request metadata, including merge status and
+ * timestamps, from the outcome source.
  *
- * @param prNumber - GitHub PR number
+ * @param prNumber - PR or merge request number
  * @param repoDir - Repository directory (defaults to cwd)
+ * @param nwo - GitHub owner/repo string (optional, will be resolved if needed)
+ * @param source - Outcome source (default: resolved for repoDir)
  * @returns Delivery outcome
  */
 export function collectDeliveryOutcome(
   prNumber: string,
   repoDir?: string,
   nwo?: string,
+  source?: OutcomeSource,
 ): DeliveryOutcome {
   const cwd = repoDir || process.cwd();
-  const repo = nwo || resolveOwnerRepo(cwd);
   const outcome: DeliveryOutcome = {
     prCreated: false,
     merged: false,
   };
 
-  if (!repo) {
-    console.warn('[outcome-collectors] Cannot resolve GitHub repo — skipping delivery outcome');
-    return outcome;
-  }
-
   try {
-    // Fetch PR metadata via GitHub API
-    const prDataRaw = execShellCommand(
-      `gh api repos/${escapeShellArg(repo)}/pulls/${escapeShellArg(prNumber)} --jq '{merged: .merged, mergedAt: .merged_at, createdAt: .created_at}' 2>/dev/null || echo '{}'`,
-      { encoding: 'utf-8', cwd, timeout: 15_000 }
-    ).trim();
-
-    if (!prDataRaw || prDataRaw === '{}') {
+    const pr = (source ?? resolveOutcomeSource(cwd, { nwo })).changeRequest(prNumber);
+    if (!pr) {
       return outcome;
     }
 
-    const prData = JSON.parse(prDataRaw);
     outcome.prCreated = true;
-    outcome.merged = prData.merged === true;
+    outcome.merged = pr.merged;
 
     // Calculate time to merge if merged
-    if (outcome.merged && prData.createdAt && prData.mergedAt) {
+    if (outcome.merged && pr.createdAt && pr.mergedAt) {
       try {
-        const created = new Date(prData.createdAt).getTime();
-        const merged = new Date(prData.mergedAt).getTime();
+        const created = new Date(pr.createdAt).getTime();
+        const merged = new Date(pr.mergedAt).getTime();
         outcome.timeToMergeSeconds = Math.round((merged - created) / 1000);
       } catch {
         // Ignore parse errors
@@ -0,0 +1,179 @@
+/**
+ * Tests for outcome sources and the collectors that read from them.
+ */
+
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, writeFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  createFixtureOutcomeSource,
+  createGitHubOutcomeSource,
+  createGitLabOutcomeSource,
+  detectOutcomeProvider,
+  resolveOutcomeSource,
+  type CommandRunner,
+  type OutcomeFixture,
+} from './outcome-sources.ts';
+import {
+  clearPrChecksCache,
+  collectCiOutcome,
+  collectDeliveryOutcome,
+  collectReviewOutcome,
+  collectStaticAnalysisOutcome,
+} from './outcome-collectors.ts';
+import type { InterventionSummary } from './intervention-detector.ts';
+
+const noInterventions: InterventionSummary = { interventions: [], totalInterventionScore: 0 };
+
+/** Command runner answering from a table of command substrings. */
+function fakeRunner(responses: Record<string, unknown>): CommandRunner & { calls: string[] } {
+  const calls: string[] = [];
+  const run = (command: string) => {
+    calls.push(command);
+    const match = Object.keys(responses).find((key) => command.includes(key));
+    if (match === undefined) throw new Error(`unexpected command: ${command}`);
+    const response = responses[match];
+    return typeof response === 'string' ? response : JSON.stringify(response);
+  };
+  return Object.assign(run, { calls });
+}
+
+beforeEach(() => {
+  clearPrChecksCache();
+});
+
+const fixture: OutcomeFixture = {
+  changes: {
+    '42': {
+      checks: [
+        { name: 'build', status: 'success', startedAt: '2026-01-01T10:00:00Z', completedAt: '2026-01-01T10:02:00Z' },
+        { name: 'lint', status: 'failure' },
+        { name: 'typecheck', status: 'success' },
+      ],
+      reviews: [
+        { state: 'changes_requested', submittedAt: '2026-01-01T11:00:00Z' },
+        { state: 'approved', submittedAt: '2026-01-01T14:30:00Z' },
+      ],
+      changeRequest: { merged: true, createdAt: '2026-01-01T09:00:00Z', mergedAt: '2026-01-01T15:00:00Z' },
+    },
+  },
+};
+
+describe('collectors with a fixture source', () => {
+  const source = createFixtureOutcomeSource(fixture);
+
+  it('fills CI, static analysis, review and delivery outcomes', () => {
+    const ci = collectCiOutcome('42', '/nonexistent', source);
+    assert.equal(ci.ran, true);
+    assert.equal(ci.passed, false);
+    assert.deepEqual(ci.checks[0], { name: 'build', status: 'success', durationSeconds: 120 });
+
+    const analysis = collectStaticAnalysisOutcome('42', 'feature', 'main', '/nonexistent', source);
+    assert.deepEqual(analysis, { typecheckPassed: true, lintDelta: 1 });
+
+    const review = collectReviewOutcome('42', noInterventions, '/nonexistent', undefined, undefined, undefined, source);
+    assert.deepEqual(review, { humanReviewRequired: true, rounds: 2, approvals: 1, changeRequests: 1 });
+
+    const delivery = collectDeliveryOutcome('42', '/nonexistent', undefined, source);
+    assert.deepEqual(delivery, { prCreated: true, merged: true, timeToMergeSeconds: 6 * 3600 });
+  });
+
+  it('reports nothing for change requests missing from the fixture', () => {
+    assert.equal(collectCiOutcome('7', '/nonexistent', source).ran, false);
+    assert.equal(collectDeliveryOutcome('7', '/nonexistent', undefined, source).prCreated, false);
+  });
+});
+
+describe('createGitHubOutcomeSource', () => {
+  it('maps gh buckets, review states and pull metadata', () => {
+    const run = fakeRunner({
+      'gh pr checks': [
+        { name: 'test', bucket: 'pass', state: 'SUCCESS' },
+        { name: 'deploy', bucket: 'skipping', state: 'SKIPPED' },
+        { name: 'e2e', bucket: 'pending', state: 'IN_PROGRESS' },
+      ],
+      '/reviews': [{ state: 'APPROVED', submittedAt: '2026-01-01T12:00:00Z' }, { state: 'DISMISSED' }],
+      '{merged: .merged': { merged: false, mergedAt: null, createdAt: '2026-01-01T09:00:00Z' },
+    });
+    const source = createGitHubOutcomeSource('/repo', { nwo: 'acme/app', run });
+
+    assert.deepEqual(source.checks('5').map((c) => c.status), ['success', 'skipped', 'pending']);
+    assert.deepEqual(source.reviews('5'), [{ state: 'approved', submittedAt: '2026-01-01T12:00:00Z' }]);
+    assert.deepEqual(source.changeRequest('5'), { merged: false, createdAt: '2026-01-01T09:00:00Z' });
+    assert.ok(run.calls.every((c) => !c.startsWith('gh api') || c.includes("repos/'acme/app'/pulls/'5'")));
+  });
+
+  it('caches remote checks across collectors', () => {
+    const run = fakeRunner({ 'gh pr checks': [{ name: 'lint', bucket: 'fail' }] });
+    const source = createGitHubOutcomeSource('/repo', { nwo: 'acme/app', run });
+
+    assert.equal(collectCiOutcome('5', '/repo', source).passed, false);
+    assert.equal(collectStaticAnalysisOutcome('5', 'b', 'main', '/repo', source).lintDelta, 1);
+    assert.equal(run.calls.length, 1);
+  });
+});
+
+describe('createGitLabOutcomeSource', () => {
+  const run = fakeRunner({
+    'merge_requests/3/pipelines': [{ id: 900 }, { id: 899 }],
+    'pipelines/900/jobs': [
+      { name: 'unit-tests', status: 'success', started_at: '2026-01-01T10:00:00Z', finished_at: '2026-01-01T10:01:30Z' },
+      { name: 'audit', status: 'failed', allow_failure: true },
+      { name: 'lint', status: 'failed', allow_failure: false },
+      { name: 'deploy', status: 'manual' },
+    ],
+    'merge_requests/3/notes': [
+      { system: true, body: 'requested changes', created_at: '2026-01-01T11:00:00Z' },
+      { system: false, body: 'Looks close', created_at: '2026-01-01T11:05:00Z' },
+      { system: true, body: 'added 1 commit', created_at: '2026-01-01T12:00:00Z' },
+      { system: true, body: 'approved this merge request', created_at: '2026-01-01T13:00:00Z' },
+    ],
+    'merge_requests/3': { state: 'merged', created_at: '2026-01-01T09:00:00Z', merged_at: '2026-01-01T13:30:00Z' },
+  });
+  const source = createGitLabOutcomeSource('/repo', { project: 'group/app', run });
+
+  it('reads the latest pipeline jobs as checks', () => {
+    assert.deepEqual(source.checks('3'), [
+      { name: 'unit-tests', status: 'success', startedAt: '2026-01-01T10:00:00Z', completedAt: '2026-01-01T10:01:30Z' },
+      { name: 'audit', status: 'skipped' },
+      { name: 'lint', status: 'failure' },
+      { name: 'deploy', status: 'skipped' },
+    ]);
+    assert.ok(run.calls.some((c) => c.includes("'projects/group%2Fapp/pipelines/900/jobs?per_page=100'")));
+  });
+
+  it('fills review and delivery outcomes from merge request data', () => {
+    const review = collectReviewOutcome('3', noInterventions, '/repo', undefined, undefined, undefined, source);
+    assert.deepEqual(review, { humanReviewRequired: true, rounds: 2, approvals: 1, changeRequests: 1 });
+
+    const delivery = collectDeliveryOutcome('3', '/repo', undefined, source);
+    assert.deepEqual(delivery, { prCreated: true, merged: true, timeToMergeSeconds: 4.5 * 3600 });
+  });
+});
+
+describe('resolveOutcomeSource', () => {
+  it('detects the provider from the origin remote', () => {
+    const remote = (url: string) => fakeRunner({ 'git remote': url });
+    assert.equal(detectOutcomeProvider('/nonexistent', remote('git@github.com:acme/app.git')), 'github');
+    assert.equal(detectOutcomeProvider('/nonexistent', remote('https://gitlab.example.com/acme/app.git')), 'gitlab');
+    assert.equal(detectOutcomeProvider('/nonexistent', remote('')), 'github');
+  });
+
+  it('uses the fixture configured in eval.outcomes', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'outcome-sources-'));
+    try {
+      writeFileSync(join(dir, 'outcomes.json'), JSON.stringify(fixture));
+      writeFileSync(
+        join(dir, '.wavemill-config.json'),
+        JSON.stringify({ eval: { outcomes: { source: 'fixture', fixturePath: 'outcomes.json' } } }),
+      );
+      const source = resolveOutcomeSource(dir);
+      assert.equal(source.provider, 'fixture');
+      assert.equal(collectCiOutcome('42', dir).checks.length, 3);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
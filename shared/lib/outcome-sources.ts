@@ -0,0 +1,390 @@
+/**
+ * Outcome sources: where outcome collectors read CI checks, reviews and
+ * change-request metadata from.
+ *
+ * Each source adapts one hosting provider to a small provider-neutral
+ * interface, so the collectors in outcome-collectors.ts work the same on
+ * GitHub pull requests, GitLab merge requests, or a local JSON fixture:
+ * - GitHub: `gh pr checks` and `gh api`
+ * - GitLab: `glab api` (merge request, latest pipeline jobs, notes)
+ * - Fixture: a JSON file, for tests and offline evals
+ *
+ * Adapters may throw on unexpected errors; the collectors catch and degrade.
+ *
+ * @module outcome-sources
+ */
+
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { escapeShellArg, execShellCommand } from './shell-utils.ts';
+import { resolveOwnerRepo } from './intervention-detector.ts';
+import { detectCiProvider } from './repo-context-analyzer.ts';
+import { getEvalConfig } from './config.ts';
+
+// ────────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────────
+
+export type OutcomeProvider = 'github' | 'gitlab' | 'fixture';
+
+export type SourceCheckStatus = 'success' | 'failure' | 'pending' | 'skipped' | 'cancelled';
+
+/** One CI check (GitHub check run or GitLab pipeline job). */
+export interface SourceCheck {
+  name: string;
+  status: SourceCheckStatus;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+/** One review submission (GitHub review or GitLab approval note). */
+export interface SourceReview {
+  state: 'approved' | 'changes_requested' | 'commented';
+  submittedAt?: string;
+}
+
+/** Pull request or merge request metadata. */
+export interface SourceChangeRequest {
+  createdAt?: string;
+  merged: boolean;
+  mergedAt?: string;
+}
+
+/**
+ * Provider-neutral access to a change request's outcome data. `id` is the
+ * PR number on GitHub and the merge request IID on GitLab.
+ */
+export interface OutcomeSource {
+  readonly provider: OutcomeProvider;
+  /** Whether calls go over the network (collectors cache checks per process) */
+  readonly remote: boolean;
+  /** CI checks, empty when none ran */
+  checks(id: string): SourceCheck[];
+  /** Every check attempt on a commit, including re-runs of the same check */
+  checkHistory(sha: string): SourceCheck[];
+  /** Reviews, or null when the repository could not be resolved */
+  reviews(id: string): SourceReview[] | null;
+  /** Change request metadata, or null when it does not exist */
+  changeRequest(id: string): SourceChangeRequest | null;
+}
+
+/** Runs a shell command in the repository and returns its stdout. */
+export type CommandRunner = (command: string) => string;
+
+export interface RemoteSourceOptions {
+  /** Command runner (default: execShellCommand in repoDir) */
+  run?: CommandRunner;
+}
+
+export interface GitHubSourceOptions extends RemoteSourceOptions {
+  /** GitHub owner/repo (default: resolved from gh or the origin remote) */
+  nwo?: string;
+}
+
+export interface GitLabSourceOptions extends RemoteSourceOptions {
+  /** Project path such as "group/project" (default: glab's current repository) */
+  project?: string;
+}
+
+/** Shape of a fixture file, keyed by change request id and commit sha. */
+export interface OutcomeFixture {
+  changes: Record<string, {
+    checks?: SourceCheck[];
+    reviews?: SourceReview[];
+    changeRequest?: SourceChangeRequest | null;
+  }>;
+  commits?: Record<string, {
+    checks?: SourceCheck[];
+  }>;
+}
+
+export interface ResolveOutcomeSourceOptions extends RemoteSourceOptions {
+  /** GitHub owner/repo, passed to the GitHub adapter */
+  nwo?: string;
+}
+
+function shellRunner(repoDir: string): CommandRunner {
+  return (command) => String(execShellCommand(command, { encoding: 'utf-8', cwd: repoDir, timeout: 15_000 })).trim();
+}
+
+function parseJson(raw: string): unknown {
+  return raw ? JSON.parse(raw) : null;
+}
+
+// ────────────────────────────────────────────────────────────────
+// GitHub
+// ────────────────────────────────────────────────────────────────
+
+/** Map a `gh pr checks` entry to a status; `bucket` is gh's normalized state. */
+function githubCheckStatus(check: { bucket?: string; state?: string }): SourceCheckStatus {
+  switch ((check.bucket || '').toLowerCase()) {
+    case 'pass': return 'success';
+    case 'fail': return 'failure';
+    case 'skipping': return 'skipped';
+    case 'cancel': return 'cancelled';
+    case 'pending': return 'pending';
+  }
+  switch ((check.state || '').toLowerCase()) {
+    case 'success': return 'success';
+    case 'failure':
+    case 'error':
+    case 'timed_out':
+    case 'action_required':
+    case 'startup_failure': return 'failure';
+    case 'skipped':
+    case 'neutral': return 'skipped';
+    case 'cancelled': return 'cancelled';
+    default: return 'pending';
+  }
+}
+
+/**
+ * Outcome source for GitHub pull requests, via the gh CLI. The owner/repo is
+ * resolved on first use so that building a source never touches the network.
+ */
+export function createGitHubOutcomeSource(
+  repoDir: string,
+  options: GitHubSourceOptions = {},
+): OutcomeSource {
+  const run = options.run ?? shellRunner(repoDir);
+  let repo: string | undefined = options.nwo;
+  let resolved = !!repo;
+  const ownerRepo = (): string | undefined => {
+    if (!resolved) {
+      repo = resolveOwnerRepo(repoDir);
+      resolved = true;
+    }
+    return repo;
+  };
+
+  return {
+    provider: 'github',
+    remote: true,
+
+    checks(id) {
+      // gh exits non-zero when checks fail or are pending, so keep its output
+      const raw = run(
+        `gh pr checks ${escapeShellArg(id)} --json name,state,bucket,startedAt,completedAt 2>/dev/null || true`,
+      );
+      const checks = parseJson(raw);
+      if (!Array.isArray(checks)) return [];
+      return checks.map((check) => ({
+        name: check.name || 'unknown',
+        status: githubCheckStatus(check),
+        ...(check.startedAt && { startedAt: check.startedAt }),
+        ...(check.completedAt && { completedAt: check.completedAt }),
+      }));
+    },
+
+    checkHistory(sha) {
+      const nwo = ownerRepo();
+      if (!nwo) return [];
+      const raw = run(
+        `gh api ${escapeShellArg(`repos/${nwo}/commits/${sha}/check-runs?filter=all&per_page=100`)} --jq '[.check_runs[] | {name, conclusion, startedAt: .started_at, completedAt: .completed_at}]' 2>/dev/null || echo '[]'`,
+      );
+      const runs = parseJson(raw);
+      if (!Array.isArray(runs)) return [];
+      return runs.map((check) => ({
+        name: check.name || 'unknown',
+        status: githubCheckStatus({ state: check.conclusion ?? '' }),
+        ...(check.startedAt && { startedAt: check.startedAt }),
+        ...(check.completedAt && { completedAt: check.completedAt }),
+      }));
+    },
+
+    reviews(id) {
+      const nwo = ownerRepo();
+      if (!nwo) return null;
+      const raw = run(
+        `gh api repos/${escapeShellArg(nwo)}/pulls/${escapeShellArg(id)}/reviews --jq '[.[] | {state: .state, submittedAt: .submitted_at}]' 2>/dev/null || echo '[]'`,
+      );
+      const reviews = parseJson(raw);
+      if (!Array.isArray(reviews)) return [];
+      return reviews.flatMap((review): SourceReview[] => {
+        const state = (review.state || '').toUpperCase();
+        const mapped = state === 'APPROVED' ? 'approved'
+          : state === 'CHANGES_REQUESTED' ? 'changes_requested'
+          : state === 'COMMENTED' ? 'commented'
+          : null;
+        return mapped ? [{ state: mapped, ...(review.submittedAt && { submittedAt: review.submittedAt }) }] : [];
+      });
+    },
+
+    changeRequest(id) {
+      const nwo = ownerRepo();
+      if (!nwo) return null;
+      const raw = run(
+        `gh api repos/${escapeShellArg(nwo)}/pulls/${escapeShellArg(id)} --jq '{merged: .merged, mergedAt: .merged_at, createdAt: .created_at}' 2>/dev/null || echo '{}'`,
+      );
+      const pr = parseJson(raw) as { merged?: boolean; mergedAt?: string; createdAt?: string } | null;
+      if (!pr || Object.keys(pr).length === 0) return null;
+      return {
+        merged: pr.merged === true,
+        ...(pr.createdAt && { createdAt: pr.createdAt }),
+        ...(pr.mergedAt && { mergedAt: pr.mergedAt }),
+      };
+    },
+  };
+}
+
+// ────────────────────────────────────────────────────────────────
+// GitLab
+// ────────────────────────────────────────────────────────────────
+
+function gitlabJobStatus(job: { status?: string; allow_failure?: boolean }): SourceCheckStatus {
+  switch (job.status) {
+    case 'success': return 'success';
+    // Jobs allowed to fail do not fail the pipeline
+    case 'failed': return job.allow_failure ? 'skipped' : 'failure';
+    case 'canceled': return 'cancelled';
+    case 'skipped':
+    case 'manual': return 'skipped';
+    default: return 'pending';
+  }
+}
+
+/**
+ * Outcome source for GitLab merge requests, via `glab api`. Checks are the
+ * jobs of the merge request's latest pipeline; reviews are read from the
+ * approval and change-request system notes.
+ */
+export function createGitLabOutcomeSource(
+  repoDir: string,
+  options: GitLabSourceOptions = {},
+): OutcomeSource {
+  const run = options.run ?? shellRunner(repoDir);
+  // glab substitutes :id with the project of the current repository
+  const project = `projects/${options.project ? encodeURIComponent(options.project) : ':id'}`;
+  const api = (endpoint: string): unknown =>
+    parseJson(run(`glab api ${escapeShellArg(`${project}/${endpoint}`)} 2>/dev/null`));
+
+  return {
+    provider: 'gitlab',
+    remote: true,
+
+    checks(id) {
+      const pipelines = api(`merge_requests/${id}/pipelines`);
+      if (!Array.isArray(pipelines) || pipelines.length === 0) return [];
+      // Newest pipeline first
+      const jobs = api(`pipelines/${pipelines[0].id}/jobs?per_page=100`);
+      if (!Array.isArray(jobs)) return [];
+      return jobs.map((job) => ({
+        name: job.name || 'unknown',
+        status: gitlabJobStatus(job),
+        ...(job.started_at && { startedAt: job.started_at }),
+        ...(job.finished_at && { completedAt: job.finished_at }),
+      }));
+    },
+
+    checkHistory(sha) {
+      // all=true includes retried jobs
+      const statuses = api(`repository/commits/${sha}/statuses?all=true&per_page=100`);
+      if (!Array.isArray(statuses)) return [];
+      return statuses.map((status) => ({
+        name: status.name || 'unknown',
+        status: gitlabJobStatus(status),
+        ...(status.started_at && { startedAt: status.started_at }),
+        ...(status.finished_at && { completedAt: status.finished_at }),
+      }));
+    },
+
+    reviews(id) {
+      const notes = api(`merge_requests/${id}/notes?per_page=100&sort=asc`);
+      if (!Array.isArray(notes)) return [];
+      return notes.flatMap((note): SourceReview[] => {
+        const body = String(note.body || '');
+        const state = note.system
+          ? (/^approved this merge request/.test(body) ? 'approved'
+            : /^requested changes/.test(body) ? 'changes_requested'
+            : null)
+          : 'commented';
+        return state ? [{ state, ...(note.created_at && { submittedAt: note.created_at }) }] : [];
+      });
+    },
+
+    changeRequest(id) {
+      const mr = api(`merge_requests/${id}`) as { state?: string; created_at?: string; merged_at?: string } | null;
+      if (!mr || !mr.state) return null;
+      return {
+        merged: mr.state === 'merged',
+        ...(mr.created_at && { createdAt: mr.created_at }),
+        ...(mr.merged_at && { mergedAt: mr.merged_at }),
+      };
+    },
+  };
+}
+
+// ────────────────────────────────────────────────────────────────
+// Fixture
+// ────────────────────────────────────────────────────────────────
+
+/**
+ * Outcome source backed by a JSON fixture (see {@link OutcomeFixture}).
+ * Change requests missing from the fixture have no checks, no reviews and
+ * no metadata.
+ */
+export function createFixtureOutcomeSource(fixture: OutcomeFixture | string): OutcomeSource {
+  const data: OutcomeFixture = typeof fixture === 'string'
+    ? JSON.parse(readFileSync(fixture, 'utf-8'))
+    : fixture;
+  if (!data || typeof data.changes !== 'object') {
+    throw new Error('Outcome fixture must have a "changes" object keyed by change request id');
+  }
+
+  return {
+    provider: 'fixture',
+    remote: false,
+    checks: (id) => data.changes[id]?.checks ?? [],
+    checkHistory: (sha) => data.commits?.[sha]?.checks ?? [],
+    reviews: (id) => data.changes[id]?.reviews ?? [],
+    changeRequest: (id) => data.changes[id]?.changeRequest ?? null,
+  };
+}
+
+// ────────────────────────────────────────────────────────────────
+// Resolution
+// ────────────────────────────────────────────────────────────────
+
+/**
+ * Pick the hosting provider for a repository: the origin remote's host when
+ * it names one, then a `.gitlab-ci.yml` (self-hosted GitLab), else GitHub.
+ */
+export function detectOutcomeProvider(repoDir: string, run: CommandRunner = shellRunner(repoDir)): 'github' | 'gitlab' {
+  let remoteUrl = '';
+  try {
+    remoteUrl = run('git remote get-url origin 2>/dev/null || true');
+  } catch {
+    // Not a git repository
+  }
+  if (/github\.com[:/]/.test(remoteUrl)) return 'github';
+  if (/gitlab/i.test(remoteUrl)) return 'gitlab';
+  return detectCiProvider(repoDir) === 'gitlab-ci' ? 'gitlab' : 'github';
+}
+
+/**
+ * Build the outcome source configured in `eval.outcomes` of
+ * .wavemill-config.json, detecting the provider when it is `auto` or unset.
+ *
+ * @throws Error if the fixture source is selected without a fixture path
+ */
+export function resolveOutcomeSource(
+  repoDir: string,
+  options: ResolveOutcomeSourceOptions = {},
+): OutcomeSource {
+  const config = getEvalConfig(repoDir).outcomes ?? {};
+  const provider = config.source && config.source !== 'auto'
+    ? config.source
+    : detectOutcomeProvider(repoDir, options.run);
+
+  switch (provider) {
+    case 'fixture':
+      if (!config.fixturePath) {
+        throw new Error('eval.outcomes.fixturePath is required when eval.outcomes.source is "fixture"');
+      }
+      return createFixtureOutcomeSource(resolve(repoDir, config.fixturePath));
+    case 'gitlab':
+      return createGitLabOutcomeSource(repoDir, { run: options.run, project: config.gitlabProject });
+    default:
+      return createGitHubOutcomeSource(repoDir, { run: options.run, nwo: options.nwo });
+  }
+}
@@ -5,9 +5,16 @@
  * in agent workflows without user confirmation. Patterns use glob-style matching
  * for simplicity and readability.
  *
+ * Command lines are parsed with `shell-command.ts` before matching, so
+ * `evaluateCommand()` approves a pipeline or list only when every command in
+ * it is approved, and explains the verdict.
+ *
  * @module permission-patterns
  */
 
+import { parseShellCommand, unquoteWord, type ParsedShell, type ShellRedirect, type SimpleCommand } from './shell-command.ts';
+import type { PermissionsConfig } from './config.ts';
+
 /**
  * Category of read-only command patterns
  */
@@ -186,6 +193,24 @@ export function getDefaultPatterns(): string[] {
   return DEFAULT_CATEGORIES.flatMap((category) => category.patterns);
 }
 
+/**
+ * Get patterns for a specific category by name
+ *
+ * @param categoryName - The category name to get patterns for
+ * @returns Array of patterns for that category, or empty array if not found
+ */
+export function getPatternsByCategory(categoryName: string): string[] {
+  const category = DEFAULT_CATEGORIES.find((c) => c.name === categoryName);
+  return category ? category.patterns : [];
+}
+
+/**
+ * Get all category names
+ */
+export function getCategoryNames(): string[] {
+  return DEFAULT_CATEGORIES.map((c) => c.name);
+}
+
 /**
  * Check if a command matches a pattern using glob-style matching
  *
@@ -219,6 +244,9 @@ export function matchesPattern(command: string, pattern: string): boolean {
 /**
  * Check if a command matches any pattern in a list
  *
+ * Matches the raw string; use `evaluateCommand()` for command lines that
+ * may contain pipes, lists, redirects or substitutions.
+ *
  * @param command - The command to check
  * @param patterns - List of patterns to match against
  * @returns true if command matches at least one pattern
@@ -234,11 +262,112 @@ export function matchesAnyPattern(command: string, patterns: string[]): boolean
   return patterns.some((pattern) => matchesPattern(command, pattern));
 }
 
+const DANGEROUS_PREFIXES = [
+  'rm *',
+  'rmdir *',
+  'delete *',
+  'del *',
+  'git push*',
+  'git commit*',
+  'git reset*',
+  'git rebase*',
+  'git merge*',
+  'git cherry-pick*',
+  'git clean*',
+  'git branch -d*',
+  'git branch -D*',
+  'git branch -m*',
+  'git branch -M*',
+  'git worktree remove*',
+  'git worktree prune*',
+  'gh pr create*',
+  'gh pr merge*',
+  'gh pr close*',
+  'gh issue create*',
+  'gh issue close*',
+  'npm install*',
+  'npm uninstall*',
+  'npm publish*',
+  'yarn add*',
+  'yarn remove*',
+  'pnpm add*',
+  'pnpm remove*',
+  'chmod *',
+  'chown *',
+  'sudo *',
+  'kill *',
+  'pkill *',
+];
+
+/** Redirect operators that write to their target */
+const WRITE_REDIRECTS = new Set(['>', '>>', '>|', '&>', '&>>', '<>']);
+
+/** How deep `$(...)` nesting is followed before giving up */
+const MAX_SUBSTITUTION_DEPTH = 5;
+
+/**
+ * Whether a redirect writes to a file. Writing to `/dev/null` and
+ * duplicating or closing descriptors (`2>&1`, `>&-`) are harmless.
+ */
+function writesToFile(redirect: ShellRedirect): boolean {
+  if (redirect.op === '>&' || redirect.op === '<&') return !/^(\d+|-)$/.test(redirect.target);
+  return WRITE_REDIRECTS.has(redirect.op) && redirect.target !== '/dev/null';
+}
+
+function startsWithDangerousPrefix(text: string): string | null {
+  const normalized = text.toLowerCase().trim();
+  const match = DANGEROUS_PREFIXES.find((dangerous) =>
+    normalized.startsWith(dangerous.toLowerCase().trim().replace('*', ''))
+  );
+  return match ?? null;
+}
+
+/**
+ * Check a pattern for safety and explain the verdict
+ *
+ * The pattern is parsed as a shell command line, so every command in a
+ * compound pattern (`git status; rm *`) is checked, with its quoting
+ * removed, against the known dangerous prefixes, along with commands inside
+ * `$(...)` and backticks.
+ * Patterns that redirect output to a file, set environment variables, or
+ * can't be parsed are unsafe.
+ *
+ * @param pattern - The pattern to validate
+ * @returns Whether the pattern is safe, and why not when it isn't
+ */
+export function checkPatternSafety(pattern: string, depth = 0): { safe: boolean; reason?: string } {
+  if (depth > MAX_SUBSTITUTION_DEPTH) return { safe: false, reason: 'command substitutions nested too deeply' };
+
+  let parsed: ParsedShell;
+  try {
+    parsed = parseShellCommand(pattern);
+  } catch (err) {
+    return { safe: false, reason: `cannot be parsed: ${(err as Error).message}` };
+  }
+
+  for (const command of parsed.commands) {
+    // Compare what the shell would run: `'rm' *` is still `rm *`
+    const text = command.words.map(unquoteWord).join(' ');
+    const dangerous = startsWithDangerousPrefix(text);
+    if (dangerous) return { safe: false, reason: `\`${text}\` matches dangerous command \`${dangerous}\`` };
+    if (command.assignments.length > 0) {
+      return { safe: false, reason: `sets environment variables (${command.assignments.join(' ')})` };
+    }
+    const write = command.redirects.find(writesToFile);
+    if (write) return { safe: false, reason: `redirects output to \`${write.target}\`` };
+    for (const inner of command.substitutions) {
+      const check = checkPatternSafety(inner, depth + 1);
+      if (!check.safe) return { safe: false, reason: `command substitution \`${inner}\` ${check.reason}` };
+    }
+  }
+  return { safe: true };
+}
+
 /**
  * Validate that a pattern is safe (doesn't match destructive commands)
  *
  * This is a safety check to prevent accidental auto-approval of destructive
- * commands. It checks against a list of known dangerous command prefixes.
+ * commands. See `checkPatternSafety()` for the rules and an explanation.
  *
  * @param pattern - The pattern to validate
  * @returns true if pattern is safe, false if potentially dangerous
@@ -248,68 +377,156 @@ export function matchesAnyPattern(command: string, patterns: string[]): boolean
  * isSafePattern('git status*') // true
  * isSafePattern('rm *') // false
  * isSafePattern('git push*') // false
+ * isSafePattern('git status; rm *') // false
  * ```
  */
 export function isSafePattern(pattern: string): boolean {
-  const dangerousPatterns = [
-    'rm *',
-    'rmdir *',
-    'delete *',
-    'del *',
-    'git push*',
-    'git commit*',
-    'git reset*',
-    'git rebase*',
-    'git merge*',
-    'git cherry-pick*',
-    'git clean*',
-    'git branch -d*',
-    'git branch -D*',
-    'git branch -m*',
-    'git branch -M*',
-    'git worktree remove*',
-    'git worktree prune*',
-    'gh pr create*',
-    'gh pr merge*',
-    'gh pr close*',
-    'gh issue create*',
-    'gh issue close*',
-    'npm install*',
-    'npm uninstall*',
-    'npm publish*',
-    'yarn add*',
-    'yarn remove*',
-    'pnpm add*',
-    'pnpm remove*',
-    'chmod *',
-    'chown *',
-    'sudo *',
-    'kill *',
-    'pkill *',
-  ];
-
-  // Check if pattern starts with any dangerous pattern
-  const normalizedPattern = pattern.toLowerCase().trim();
-  return !dangerousPatterns.some((dangerous) => {
-    const normalizedDangerous = dangerous.toLowerCase().trim();
-    return normalizedPattern.startsWith(normalizedDangerous.replace('*', ''));
-  });
+  return checkPatternSafety(pattern).safe;
 }
 
+// ────────────────────────────────────────────────────────────────
+// Command Evaluation
+// ────────────────────────────────────────────────────────────────
+
 /**
- * Get patterns for a specific category by name
+ * Verdict for one simple command within a command line
+ */
+export interface CommandVerdict {
+  /** The command as matched against patterns (words only, no redirects) */
+  command: string;
+  approved: boolean;
+  /** Pattern that matched, when one did */
+  pattern?: string;
+  reason: string;
+}
+
+/**
+ * Result of evaluating a full command line against auto-approve patterns
+ */
+export interface CommandEvaluation {
+  approved: boolean;
+  /** Why the command line was or wasn't approved */
+  reason: string;
+  /** One verdict per simple command, in order */
+  commands: CommandVerdict[];
+}
+
+function evaluateSimpleCommand(command: SimpleCommand, patterns: string[], depth: number): CommandVerdict {
+  const verdict = (approved: boolean, reason: string, pattern?: string): CommandVerdict =>
+    ({ command: command.text, approved, reason, ...(pattern ? { pattern } : {}) });
+
+  if (command.words.length === 0) return verdict(false, 'no command to run');
+  if (command.assignments.length > 0) {
+    return verdict(false, `sets environment variables (${command.assignments.join(' ')})`);
+  }
+  const write = command.redirects.find(writesToFile);
+  if (write) return verdict(false, `redirects output to file \`${write.target}\``);
+
+  for (const inner of command.substitutions) {
+    const evaluation = evaluateCommand(inner, patterns, depth + 1);
+    if (!evaluation.approved) {
+      return verdict(false, `command substitution \`${inner}\` is not approved: ${evaluation.reason}`);
+    }
+  }
+
+  const pattern = patterns.find((p) => matchesPattern(command.text, p));
+  if (!pattern) return verdict(false, 'no auto-approve pattern matches');
+  return verdict(true, `matches \`${pattern}\``, pattern);
+}
+
+/**
+ * Decide whether a command line can be auto-approved, with an explanation
  *
- * @param categoryName - The category name to get patterns for
- * @returns Array of patterns for that category, or empty array if not found
+ * Unlike `matchesAnyPattern()`, which globs against the raw string (so
+ * `cat *` also matches `cat a > b` and `ls; rm -rf x`), the command line is
+ * parsed first. It is approved only when:
+ *
+ * - every command in its pipelines and lists matches a pattern
+ * - no command redirects output to a file (`/dev/null` and `2>&1` are fine)
+ * - no command sets environment variables
+ * - every `$(...)`, backtick and `<(...)` substitution is itself approved
+ *
+ * Command lines that can't be parsed are never approved.
+ *
+ * @param command - The full command line
+ * @param patterns - Auto-approve patterns
+ *
+ * @example
+ * ```typescript
+ * evaluateCommand('git log | head -5', ['git log*', 'head *']).approved // true
+ * evaluateCommand('cat a > b', ['cat *']).reason // 'cat a: redirects output to file `b`'
+ * ```
  */
-export function getPatternsByCategory(categoryName: string): string[] {
-  const category = DEFAULT_CATEGORIES.find((c) => c.name === categoryName);
-  return category ? category.patterns : [];
+export function evaluateCommand(command: string, patterns: string[], depth = 0): CommandEvaluation {
+  if (depth > MAX_SUBSTITUTION_DEPTH) {
+    return { approved: false, reason: 'command substitutions nested too deeply', commands: [] };
+  }
+
+  let parsed: ParsedShell;
+  try {
+    parsed = parseShellCommand(command);
+  } catch (err) {
+    return { approved: false, reason: `cannot parse command: ${(err as Error).message}`, commands: [] };
+  }
+  if (parsed.commands.length === 0) {
+    return { approved: false, reason: 'empty command', commands: [] };
+  }
+
+  const commands = parsed.commands.map((c) => evaluateSimpleCommand(c, patterns, depth));
+  const rejected = commands.find((v) => !v.approved);
+  if (rejected) {
+    return { approved: false, reason: `${rejected.command || '(redirect only)'}: ${rejected.reason}`, commands };
+  }
+  const reason = commands.length === 1
+    ? commands[0].reason
+    : `all ${commands.length} commands match auto-approve patterns`;
+  return { approved: true, reason, commands };
 }
 
 /**
- * Get all category names
+ * Render an evaluation as human-readable lines
  */
-export function getCategoryNames(): string[] {
-  return DEFAULT_CATEGORIES.map((c) => c.name);
+export function formatEvaluation(command: string, evaluation: CommandEvaluation): string {
+  const lines = [`${evaluation.approved ? '✅ Auto-approved' : '❌ Not auto-approved'}: ${command}`];
+  lines.push(`   ${evaluation.reason}`);
+  if (evaluation.commands.length > 1) {
+    for (const verdict of evaluation.commands) {
+      lines.push(`   ${verdict.approved ? '✓' : '✗'} ${verdict.command || '(redirect only)'} — ${verdict.reason}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+// ────────────────────────────────────────────────────────────────
+// Agent Settings
+// ────────────────────────────────────────────────────────────────
+
+/**
+ * Resolve the auto-approve patterns an agent should be given
+ *
+ * Combines `permissions.autoApprovePatterns` with the default read-only
+ * patterns (when worktree mode auto-approves read-only commands) and drops
+ * any pattern that fails `checkPatternSafety()`, reporting it with the
+ * reason.
+ */
+export function resolveAutoApprovePatterns(permissionsConfig: PermissionsConfig): {
+  patterns: string[];
+  rejected: Array<{ pattern: string; reason: string }>;
+} {
+  let patterns = permissionsConfig.autoApprovePatterns || [];
+
+  if (
+    permissionsConfig.worktreeMode?.enabled &&
+    permissionsConfig.worktreeMode?.autoApproveReadOnly
+  ) {
+    patterns = [...new Set([...patterns, ...getDefaultPatterns()])];
+  }
+
+  const rejected: Array<{ pattern: string; reason: string }> = [];
+  const safe = patterns.filter((pattern) => {
+    const check = checkPatternSafety(pattern);
+    if (!check.safe) rejected.push({ pattern, reason: check.reason ?? 'unsafe' });
+    return check.safe;
+  });
+  return { patterns: safe, rejected };
 }
@@ -25,6 +25,7 @@ import { updateAffectedSubsystems } from './subsystem-updater.ts';
 import { detectAffectedSubsystems } from './subsystem-mapper.ts';
 import { gatherEvalContext } from './eval-context-gatherer.ts';
 import { enrichEvalRecord } from './eval-record-builder.ts';
+import type { BudgetDecision, RoutingDecision } from './eval-schema.ts';
 import { printEvalSummary, formatDifficultyDisplay, formatTaskContextDisplay, formatRepoContextDisplay, formatInterventionDisplay } from './eval-summary-printer.ts';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -39,6 +40,10 @@ export interface PostCompletionContext {
   branchName?: string;
   worktreePath?: string;
   agentType?: string;
+  /** Budget warnings and actions taken by the mill while the task ran */
+  budgetDecisions?: BudgetDecision[];
+  /** How the router chose the model for this task */
+  routingDecision?: RoutingDecision;
 }
 
 /**
@@ -202,6 +207,7 @@ export async function runPostCompletionEval(ctx: PostCompletionContext): Promise
       interventionText: interventionData.text,
       issueId: ctx.issueId || undefined,
       prUrl: evalContext.prUrl || undefined,
+      routingDecision: ctx.routingDecision,
       metadata: { workflowType: ctx.workflowType, hookTriggered: true, interventionSummary: interventionData.summary },
     });
 
@@ -279,6 +285,7 @@ export async function runPostCompletionEval(ctx: PostCompletionContext): Promise
       taskContext: taskContextData,
       repoContext: repoContextData,
       workflowCost: costOutcome,
+      budgetDecisions: ctx.budgetDecisions,
     });
 
     // 7. Persist
@@ -0,0 +1,236 @@
+/**
+ * Tests for pr-review-comments: location parsing, diff-hunk mapping and
+ * idempotent publishing against an in-memory client.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ReviewFinding, ReviewResult } from './review-engine.ts';
+import {
+  parseFindingLocation,
+  parseDiffLines,
+  anchorFindings,
+  findingFingerprint,
+  publishReviewComments,
+  type ReviewCommentsClient,
+  type ExistingReviewComment,
+  type ExistingReview,
+  type NewReviewComment,
+} from './pr-review-comments.ts';
+
+const DIFF = [
+  'diff --git a/src/api/auth.ts b/src/api/auth.ts',
+  'index 1111111..2222222 100644',
+  '--- a/src/api/auth.ts',
+  '+++ b/src/api/auth.ts',
+  '@@ -10,4 +10,5 @@ export function login() {',
+  '   const user = find();',
+  '-  if (user) {',
+  '+  if (!user) return null;',
+  '+  if (user.active) {',
+  '',
+  '     return user;',
+  '@@ -40,2 +41,3 @@ function other() {',
+  '   a();',
+  '+  b();',
+  '   c();',
+  'diff --git a/old.ts b/old.ts',
+  'deleted file mode 100644',
+  '--- a/old.ts',
+  '+++ /dev/null',
+  '@@ -1,1 +0,0 @@',
+  '-gone',
+  'diff --git a/src/new.ts b/src/new.ts',
+  'new file mode 100644',
+  '--- /dev/null',
+  '+++ b/src/new.ts',
+  '@@ -0,0 +1,2 @@',
+  '+export const x = 1;',
+  '+export const y = 2;',
+  '\\ No newline at end of file',
+  '',
+].join('\n');
+
+function finding(location: string, overrides?: Partial<ReviewFinding>): ReviewFinding {
+  return {
+    severity: 'blocker',
+    location,
+    category: 'logic',
+    description: `Problem at ${location}`,
+    ...overrides,
+  };
+}
+
+function result(findings: ReviewFinding[], verdict: ReviewResult['verdict'] = 'not_ready'): ReviewResult {
+  return { verdict, codeReviewFindings: findings };
+}
+
+/** In-memory stand-in for the GitHub API. */
+function fakeClient(comments: ExistingReviewComment[] = [], reviews: ExistingReview[] = []) {
+  const calls = {
+    createdReviews: [] as Array<{ commitId: string; body: string; comments: NewReviewComment[] }>,
+    createdComments: [] as NewReviewComment[],
+    updatedComments: [] as Array<{ id: number; body: string }>,
+    updatedReviews: [] as Array<{ id: number; body: string }>,
+  };
+  const client: ReviewCommentsClient = {
+    listReviewComments: () => comments,
+    listReviews: () => reviews,
+    createReview: (review) => calls.createdReviews.push(review),
+    createReviewComment: (_commitId, comment) => calls.createdComments.push(comment),
+    updateReviewComment: (id, body) => calls.updatedComments.push({ id, body }),
+    updateReview: (id, body) => calls.updatedReviews.push({ id, body }),
+  };
+  return { client, calls };
+}
+
+describe('parseFindingLocation', () => {
+  it('parses file:line forms', () => {
+    assert.deepEqual(parseFindingLocation('src/a.ts:45'), { path: 'src/a.ts', line: 45 });
+    assert.deepEqual(parseFindingLocation('`./src/a.ts:45:12`'), { path: 'src/a.ts', line: 45 });
+    assert.deepEqual(parseFindingLocation('src/a.ts:L7'), { path: 'src/a.ts', line: 7 });
+    assert.deepEqual(parseFindingLocation('src/a.ts line 9'), { path: 'src/a.ts', line: 9 });
+  });
+
+  it('parses ranges', () => {
+    assert.deepEqual(parseFindingLocation('src/a.ts:45-50'), { path: 'src/a.ts', line: 50, startLine: 45 });
+    assert.deepEqual(parseFindingLocation('src/a.ts#L3-L4'), { path: 'src/a.ts', line: 4, startLine: 3 });
+    assert.deepEqual(parseFindingLocation('src/a.ts lines 3-4'), { path: 'src/a.ts', line: 4, startLine: 3 });
+  });
+
+  it('returns null without a line number', () => {
+    assert.equal(parseFindingLocation('task-packet.md:Section 4'), null);
+    assert.equal(parseFindingLocation('plan.md:Phase 2'), null);
+    assert.equal(parseFindingLocation('src/a.ts'), null);
+    assert.equal(parseFindingLocation('src/a.ts:0'), null);
+  });
+});
+
+describe('parseDiffLines', () => {
+  it('collects new-side added and context lines per hunk', () => {
+    const files = parseDiffLines(DIFF);
+    assert.deepEqual([...files.keys()], ['src/api/auth.ts', 'src/new.ts']);
+    assert.deepEqual([...files.get('src/api/auth.ts')!.keys()], [10, 11, 12, 13, 14, 41, 42, 43]);
+    assert.equal(files.get('src/api/auth.ts')!.get(10), 0);
+    assert.equal(files.get('src/api/auth.ts')!.get(42), 1);
+    assert.deepEqual([...files.get('src/new.ts')!.keys()], [1, 2]);
+  });
+});
+
+describe('anchorFindings', () => {
+  it('anchors lines inside hunks and resolves unique path suffixes', () => {
+    const { anchored, unanchored } = anchorFindings(
+      [
+        finding('src/api/auth.ts:11'),
+        finding('api/auth.ts:42'),
+        finding('src/api/auth.ts:30'),
+        finding('task-packet.md:Section 4'),
+        finding('old.ts:1'),
+      ],
+      DIFF,
+    );
+
+    assert.deepEqual(anchored.map((a) => [a.path, a.line]), [
+      ['src/api/auth.ts', 11],
+      ['src/api/auth.ts', 42],
+    ]);
+    assert.deepEqual(unanchored.map((f) => f.location), ['src/api/auth.ts:30', 'task-packet.md:Section 4', 'old.ts:1']);
+  });
+
+  it('keeps ranges within one hunk and falls back to a single line otherwise', () => {
+    const { anchored } = anchorFindings(
+      [finding('src/api/auth.ts:11-13'), finding('src/api/auth.ts:13-42'), finding('src/api/auth.ts:42-60')],
+      DIFF,
+    );
+
+    assert.deepEqual(anchored.map((a) => [a.line, a.startLine]), [
+      [13, 11],
+      [42, undefined],
+      [42, undefined],
+    ]);
+  });
+});
+
+describe('publishReviewComments', () => {
+  it('creates one review with inline comments and the verdict on first run', () => {
+    const { client, calls } = fakeClient();
+    const summary = publishReviewComments(
+      result([finding('src/api/auth.ts:11'), finding('plan.md:Phase 2', { severity: 'warning' })]),
+      DIFF,
+      'abc123',
+      client,
+    );
+
+    assert.equal(calls.createdReviews.length, 1);
+    const [review] = calls.createdReviews;
+    assert.equal(review.commitId, 'abc123');
+    assert.match(review.body, /not ready/);
+    assert.match(review.body, /Blockers: 1 · Warnings: 1/);
+    assert.match(review.body, /`plan.md:Phase 2`/);
+    assert.equal(review.comments.length, 1);
+    assert.equal(review.comments[0].path, 'src/api/auth.ts');
+    assert.equal(review.comments[0].side, 'RIGHT');
+    assert.match(review.comments[0].body, /<!-- wavemill-finding:[0-9a-f]{12} -->/);
+    assert.deepEqual(summary, {
+      created: 1, updated: 0, unchanged: 0, resolved: 0, unanchored: 1, summaryReview: 'created',
+    });
+  });
+
+  it('updates, resolves and adds comments on re-run instead of duplicating', () => {
+    const kept = finding('src/api/auth.ts:11');
+    const reworded = finding('src/api/auth.ts:42', { severity: 'warning' });
+    const gone = finding('src/new.ts:1');
+    const fresh = finding('src/new.ts:2');
+
+    // Simulate a first run to get the bodies GitHub would hold
+    const first = fakeClient();
+    publishReviewComments(result([kept, reworded, gone]), DIFF, 'sha1', first.client);
+    const existing = first.calls.createdReviews[0].comments.map((c, i) => ({
+      id: i + 1,
+      path: c.path,
+      line: c.line,
+      body: c.body,
+    }));
+    // Same finding, now a blocker: body changes but fingerprint doesn't
+    const escalated = { ...reworded, severity: 'blocker' as const };
+
+    const second = fakeClient(existing, [{ id: 99, body: first.calls.createdReviews[0].body }]);
+    const summary = publishReviewComments(result([kept, escalated, fresh], 'ready'), DIFF, 'sha2', second.client);
+
+    assert.equal(second.calls.createdReviews.length, 0);
+    assert.deepEqual(second.calls.createdComments.map((c) => [c.path, c.line]), [['src/new.ts', 2]]);
+    assert.deepEqual(second.calls.updatedComments.map((u) => u.id), [2, 3]);
+    assert.match(second.calls.updatedComments[0].body, /Blocker/);
+    assert.match(second.calls.updatedComments[1].body, /✅ \*\*Resolved\*\*/);
+    assert.equal(second.calls.updatedReviews[0].id, 99);
+    assert.match(second.calls.updatedReviews[0].body, /ready to merge/);
+    assert.deepEqual(summary, {
+      created: 1, updated: 1, unchanged: 1, resolved: 1, unanchored: 0, summaryReview: 'updated',
+    });
+
+    // A third identical run touches nothing but the summary
+    const resolvedBody = second.calls.updatedComments[1].body;
+    const third = fakeClient(
+      [
+        ...existing.map((c) => (c.id === 3 ? { ...c, body: resolvedBody } : c.id === 2 ? { ...c, body: second.calls.updatedComments[0].body } : c)),
+        { id: 4, path: 'src/new.ts', line: 2, body: second.calls.createdComments[0].body },
+      ],
+      [{ id: 99, body: '<!-- wavemill-review-summary -->' }],
+    );
+    publishReviewComments(result([kept, escalated, fresh], 'ready'), DIFF, 'sha3', third.client);
+    assert.equal(third.calls.updatedComments.length, 0);
+    assert.equal(third.calls.createdComments.length, 0);
+  });
+
+  it('ignores outdated comments when matching fingerprints', () => {
+    const f = finding('src/api/auth.ts:11');
+    const fingerprint = findingFingerprint(f, 'src/api/auth.ts');
+    const { client, calls } = fakeClient([
+      { id: 1, path: 'src/api/auth.ts', line: null, body: `<!-- wavemill-finding:${fingerprint} -->\nold` },
+    ]);
+
+    publishReviewComments(result([f]), DIFF, 'sha', client);
+    assert.equal(calls.updatedComments.length, 0);
+    assert.equal(calls.createdReviews[0].comments.length, 1);
+  });
+});
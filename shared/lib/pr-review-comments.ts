@@ -0,0 +1,454 @@
+/**
+ * PR Review Comments — publish review-engine findings to GitHub.
+ *
+ * Turns a `ReviewResult` into line-anchored review comments on the PR diff
+ * plus a summary review carrying the verdict. Findings whose `location`
+ * can't be mapped onto a diff hunk are listed in the summary instead.
+ *
+ * Re-runs are idempotent: every comment carries a hidden marker with a
+ * fingerprint of the finding, so existing comments are updated in place,
+ * findings that are no longer reported are marked resolved, and the
+ * summary review is edited rather than re-posted.
+ *
+ * @module pr-review-comments
+ */
+
+import { createHash } from 'node:crypto';
+import { escapeShellArg, execShellCommand } from './shell-utils.ts';
+import type { ReviewFinding, ReviewResult } from './review-engine.ts';
+
+// ────────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────────
+
+/** A finding location parsed from free text such as `src/a.ts:45-50`. */
+export interface ParsedLocation {
+  path: string;
+  line: number;
+  /** First line of a multi-line range (omitted for single lines) */
+  startLine?: number;
+}
+
+/**
+ * Commentable new-side line numbers per file, from a unified diff, each
+ * mapped to the index of the hunk it belongs to.
+ */
+export type DiffLineMap = Map<string, Map<number, number>>;
+
+/** A finding anchored to a commentable line of the PR diff. */
+export interface AnchoredFinding {
+  finding: ReviewFinding;
+  fingerprint: string;
+  path: string;
+  line: number;
+  startLine?: number;
+}
+
+/** Result of mapping findings onto the diff. */
+export interface AnchorResult {
+  anchored: AnchoredFinding[];
+  /** Findings with no parseable location or outside the diff hunks */
+  unanchored: ReviewFinding[];
+}
+
+/** An existing PR review comment (only the fields we need). */
+export interface ExistingReviewComment {
+  id: number;
+  body: string;
+  path: string;
+  /** null when GitHub considers the comment outdated */
+  line: number | null;
+}
+
+/** An existing PR review (only the fields we need). */
+export interface ExistingReview {
+  id: number;
+  body: string;
+}
+
+/** A new inline comment, in GitHub's review-comment shape. */
+export interface NewReviewComment {
+  path: string;
+  line: number;
+  side: 'RIGHT';
+  start_line?: number;
+  start_side?: 'RIGHT';
+  body: string;
+}
+
+/**
+ * Minimal GitHub surface used for publishing. The gh-backed implementation
+ * is `createGhReviewClient`; tests pass an in-memory fake.
+ */
+export interface ReviewCommentsClient {
+  listReviewComments(): ExistingReviewComment[];
+  listReviews(): ExistingReview[];
+  createReview(review: { commitId: string; body: string; comments: NewReviewComment[] }): void;
+  createReviewComment(commitId: string, comment: NewReviewComment): void;
+  updateReviewComment(id: number, body: string): void;
+  updateReview(id: number, body: string): void;
+}
+
+/** Counts of what a publish run did. */
+export interface PublishSummary {
+  created: number;
+  updated: number;
+  unchanged: number;
+  resolved: number;
+  unanchored: number;
+  summaryReview: 'created' | 'updated';
+}
+
+// ────────────────────────────────────────────────────────────────
+// Constants
+// ────────────────────────────────────────────────────────────────
+
+const SUMMARY_MARKER = '<!-- wavemill-review-summary -->';
+const FINDING_MARKER_RE = /<!-- wavemill-finding:([0-9a-f]+) -->/;
+const RESOLVED_HEADING = '✅ **Resolved**';
+
+// ────────────────────────────────────────────────────────────────
+// Location & Diff Parsing
+// ────────────────────────────────────────────────────────────────
+
+/**
+ * Parse a finding location into path and line(s).
+ *
+ * Accepts `path:45`, `path:45-50`, `path:45:12` (column ignored),
+ * `path:L45`, `path#L45-L50` and `path line 45`, optionally wrapped in
+ * backticks. Returns null for locations without a line number, such as
+ * `task-packet.md:Section 4`.
+ */
+export function parseFindingLocation(location: string): ParsedLocation | null {
+  const text = location.trim().replace(/^`|`$/g, '');
+  const match =
+    text.match(/^(.+?)(?::|#)L?(\d+)(?:\s*[-–]\s*L?(\d+))?(?::\d+)?$/) ??
+    text.match(/^(.+?),?\s+lines?\s+(\d+)(?:\s*[-–]\s*(\d+))?$/i);
+  if (!match) return null;
+
+  const path = match[1].trim().replace(/^\.\//, '');
+  if (!path || /\s/.test(path)) return null;
+
+  const first = parseInt(match[2], 10);
+  const last = match[3] ? parseInt(match[3], 10) : first;
+  if (first <= 0) return null;
+
+  return last > first ? { path, line: last, startLine: first } : { path, line: first };
+}
+
+/**
+ * Collect the lines of each file that GitHub allows comments on: added and
+ * context lines inside hunks, numbered on the new (RIGHT) side.
+ */
+export function parseDiffLines(diff: string): DiffLineMap {
+  const files: DiffLineMap = new Map();
+  let current: Map<number, number> | null = null;
+  let hunkIndex = -1;
+  let newLine = 0;
+  let newRemaining = 0;
+
+  for (const line of diff.split('\n')) {
+    const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+    if (hunk) {
+      newLine = parseInt(hunk[1], 10);
+      newRemaining = hunk[2] === undefined ? 1 : parseInt(hunk[2], 10);
+      hunkIndex++;
+      continue;
+    }
+
+    if (newRemaining > 0 && current) {
+      // Blank context lines may arrive with their leading space stripped
+      if (line.startsWith('+') || line.startsWith(' ') || line === '') {
+        current.set(newLine, hunkIndex);
+        newLine++;
+        newRemaining--;
+      }
+      // '-' lines and '\ No newline at end of file' don't advance the new side
+      continue;
+    }
+
+    if (line.startsWith('diff --git ')) {
+      current = null;
+      newRemaining = 0;
+    } else if (line.startsWith('+++ ')) {
+      const target = line.slice(4).trim();
+      if (target === '/dev/null') {
+        current = null;
+      } else {
+        const path = target.replace(/^b\//, '');
+        current = files.get(path) ?? new Map();
+        files.set(path, current);
+      }
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Match a finding path against the diff's file paths. Exact matches win;
+ * otherwise a unique suffix match (`api/auth.ts` → `src/api/auth.ts`).
+ */
+function resolveDiffPath(path: string, files: DiffLineMap): string | null {
+  if (files.has(path)) return path;
+  const candidates = [...files.keys()].filter((file) => file.endsWith(`/${path}`));
+  return candidates.length === 1 ? candidates[0] : null;
+}
+
+/**
+ * Stable identity for a finding across review runs: file, category and
+ * description. Line numbers are left out so edits above a finding don't
+ * turn it into a "new" comment.
+ */
+export function findingFingerprint(finding: ReviewFinding, path?: string): string {
+  const description = finding.description.trim().replace(/\s+/g, ' ').toLowerCase();
+  return createHash('sha1')
+    .update(`${path ?? finding.location}\n${finding.category}\n${description}`)
+    .digest('hex')
+    .slice(0, 12);
+}
+
+/**
+ * Map findings onto commentable diff lines. A multi-line range is kept only
+ * when both ends fall in the same hunk (a GitHub requirement); otherwise the
+ * comment falls back to the end line, then the start line.
+ */
+export function anchorFindings(findings: ReviewFinding[], diff: string): AnchorResult {
+  const files = parseDiffLines(diff);
+  const result: AnchorResult = { anchored: [], unanchored: [] };
+
+  for (const finding of findings) {
+    const parsed = parseFindingLocation(finding.location);
+    const path = parsed ? resolveDiffPath(parsed.path, files) : null;
+    const lines = path ? files.get(path)! : null;
+
+    if (!parsed || !path || !lines) {
+      result.unanchored.push(finding);
+      continue;
+    }
+
+    const fingerprint = findingFingerprint(finding, path);
+    const startHunk = parsed.startLine !== undefined ? lines.get(parsed.startLine) : undefined;
+    if (startHunk !== undefined && startHunk === lines.get(parsed.line)) {
+      result.anchored.push({ finding, fingerprint, path, line: parsed.line, startLine: parsed.startLine });
+    } else if (lines.has(parsed.line)) {
+      result.anchored.push({ finding, fingerprint, path, line: parsed.line });
+    } else if (parsed.startLine !== undefined && lines.has(parsed.startLine)) {
+      result.anchored.push({ finding, fingerprint, path, line: parsed.startLine });
+    } else {
+      result.unanchored.push(finding);
+    }
+  }
+
+  return result;
+}
+
+// ────────────────────────────────────────────────────────────────
+// Comment Bodies
+// ────────────────────────────────────────────────────────────────
+
+function severityLabel(finding: ReviewFinding): string {
+  return finding.severity === 'blocker' ? '🚫 **Blocker**' : '⚠️ **Warning**';
+}
+
+/** Body for an inline finding comment, including its fingerprint marker. */
+export function formatFindingComment(finding: ReviewFinding, fingerprint: string): string {
+  const reviewers = finding.reviewers?.length ? ` · _${finding.reviewers.join(', ')}_` : '';
+  return [
+    `<!-- wavemill-finding:${fingerprint} -->`,
+    `${severityLabel(finding)} · \`${finding.category}\`${reviewers}`,
+    '',
+    finding.description,
+  ].join('\n');
+}
+
+/** Body for a comment whose finding is no longer reported. */
+function formatResolvedComment(previousBody: string, fingerprint: string): string {
+  const original = previousBody.replace(FINDING_MARKER_RE, '').trim();
+  return [
+    `<!-- wavemill-finding:${fingerprint} -->`,
+    `${RESOLVED_HEADING} — no longer reported by the latest review.`,
+    '',
+    '<details><summary>Original finding</summary>',
+    '',
+    original,
+    '',
+    '</details>',
+  ].join('\n');
+}
+
+/** Body for the summary review: verdict, counts and any unanchored findings. */
+export function formatSummaryBody(result: ReviewResult, unanchored: ReviewFinding[], resolved: number): string {
+  const findings = [...result.codeReviewFindings, ...(result.uiFindings ?? [])];
+  const blockers = findings.filter((f) => f.severity === 'blocker').length;
+  const warnings = findings.length - blockers;
+
+  const lines = [
+    SUMMARY_MARKER,
+    result.verdict === 'ready'
+      ? '## ✅ Wavemill review: ready to merge'
+      : '## ❌ Wavemill review: not ready — blocking issues must be addressed',
+    '',
+    `Blockers: ${blockers} · Warnings: ${warnings}`,
+  ];
+
+  if (unanchored.length > 0) {
+    lines.push('', '### Findings outside the diff', '');
+    for (const finding of unanchored) {
+      lines.push(`- ${severityLabel(finding)} \`${finding.location}\` [${finding.category}] ${finding.description}`);
+    }
+  }
+
+  if (resolved > 0) {
+    lines.push('', `_${resolved} earlier finding(s) marked resolved._`);
+  }
+
+  return lines.join('\n');
+}
+
+// ────────────────────────────────────────────────────────────────
+// Publishing
+// ────────────────────────────────────────────────────────────────
+
+function toNewComment(anchor: AnchoredFinding): NewReviewComment {
+  const comment: NewReviewComment = {
+    path: anchor.path,
+    line: anchor.line,
+    side: 'RIGHT',
+    body: formatFindingComment(anchor.finding, anchor.fingerprint),
+  };
+  if (anchor.startLine !== undefined) {
+    comment.start_line = anchor.startLine;
+    comment.start_side = 'RIGHT';
+  }
+  return comment;
+}
+
+/**
+ * Publish a review result to a PR.
+ *
+ * First run: one review with the summary body and all inline comments.
+ * Later runs: existing comments for the same finding are edited, new
+ * findings are added as single comments, stale bot comments are marked
+ * resolved, and the earlier summary review's body is replaced.
+ */
+export function publishReviewComments(
+  result: ReviewResult,
+  diff: string,
+  commitId: string,
+  client: ReviewCommentsClient,
+): PublishSummary {
+  const findings = [...result.codeReviewFindings, ...(result.uiFindings ?? [])];
+  const { anchored, unanchored } = anchorFindings(findings, diff);
+
+  // Existing bot comments by fingerprint; outdated ones can't be re-used
+  const existing = new Map<string, ExistingReviewComment>();
+  for (const comment of client.listReviewComments()) {
+    const match = comment.body.match(FINDING_MARKER_RE);
+    if (match && comment.line !== null) existing.set(match[1], comment);
+  }
+
+  const summary: PublishSummary = {
+    created: 0,
+    updated: 0,
+    unchanged: 0,
+    resolved: 0,
+    unanchored: unanchored.length,
+    summaryReview: 'created',
+  };
+
+  const newComments: NewReviewComment[] = [];
+  const current = new Set<string>();
+  for (const anchor of anchored) {
+    if (current.has(anchor.fingerprint)) continue;
+    current.add(anchor.fingerprint);
+
+    const comment = toNewComment(anchor);
+    const previous = existing.get(anchor.fingerprint);
+    if (!previous) {
+      newComments.push(comment);
+    } else if (previous.body !== comment.body) {
+      client.updateReviewComment(previous.id, comment.body);
+      summary.updated++;
+    } else {
+      summary.unchanged++;
+    }
+  }
+
+  for (const [fingerprint, comment] of existing) {
+    if (current.has(fingerprint) || comment.body.includes(RESOLVED_HEADING)) continue;
+    client.updateReviewComment(comment.id, formatResolvedComment(comment.body, fingerprint));
+    summary.resolved++;
+  }
+
+  const body = formatSummaryBody(result, unanchored, summary.resolved);
+  const previousSummary = client.listReviews().filter((r) => r.body.includes(SUMMARY_MARKER)).pop();
+
+  if (previousSummary) {
+    for (const comment of newComments) {
+      client.createReviewComment(commitId, comment);
+    }
+    client.updateReview(previousSummary.id, body);
+    summary.summaryReview = 'updated';
+  } else {
+    client.createReview({ commitId, body, comments: newComments });
+  }
+  summary.created = newComments.length;
+
+  return summary;
+}
+
+// ────────────────────────────────────────────────────────────────
+// gh CLI Client
+// ────────────────────────────────────────────────────────────────
+
+/**
+ * GitHub client backed by `gh api`.
+ *
+ * @param prNumber - Pull request number
+ * @param options.repo - OWNER/NAME (default: the repo gh resolves from cwd)
+ */
+export function createGhReviewClient(
+  prNumber: number,
+  options: { repo?: string; cwd?: string } = {},
+): ReviewCommentsClient {
+  const repoPath = options.repo || '{owner}/{repo}';
+  const cwd = options.cwd || process.cwd();
+
+  const api = (path: string, extraArgs = '', input?: unknown): string =>
+    execShellCommand(`gh api ${escapeShellArg(`repos/${repoPath}/${path}`)}${extraArgs}`, {
+      encoding: 'utf-8',
+      cwd,
+      input: input === undefined ? undefined : JSON.stringify(input),
+      stdio: ['pipe', 'pipe', 'pipe'],
+    }) as string;
+
+  // --jq emits one compact JSON value per line across all pages
+  const list = <T>(path: string, fields: string): T[] =>
+    api(path, ` --paginate --jq ${escapeShellArg(`.[] | {${fields}}`)}`)
+      .split('\n')
+      .filter((line) => line.trim().length > 0)
+      .map((line) => JSON.parse(line) as T);
+
+  return {
+    listReviewComments: () => list<ExistingReviewComment>(`pulls/${prNumber}/comments`, 'id, body, path, line'),
+    listReviews: () => list<ExistingReview>(`pulls/${prNumber}/reviews`, 'id, body'),
+    createReview: ({ commitId, body, comments }) => {
+      api(`pulls/${prNumber}/reviews`, ' --method POST --input -', {
+        commit_id: commitId,
+        body,
+        event: 'COMMENT',
+        comments,
+      });
+    },
+    createReviewComment: (commitId, comment) => {
+      api(`pulls/${prNumber}/comments`, ' --method POST --input -', { commit_id: commitId, ...comment });
+    },
+    updateReviewComment: (id, body) => {
+      api(`pulls/comments/${id}`, ' --method PATCH --input -', { body });
+    },
+    updateReview: (id, body) => {
+      api(`pulls/${prNumber}/reviews/${id}`, ' --method PUT --input -', { body });
+    },
+  };
+}
@@ -16,7 +16,14 @@ import {
   type ReviewContext,
   type DesignContext,
 } from './review-context-gatherer.ts';
-import { callClaude, parseJsonFromLLM, checkClaudeAvailability } from './llm-cli.ts';
+import {
+  callLLM,
+  parseJsonFromLLM,
+  checkClaudeAvailability,
+  splitPromptForCache,
+  type LLMPromptBlock,
+  type LLMProvider,
+} from './llm-cli.ts';
 import { loadWavemillConfig } from './config.ts';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -90,6 +97,12 @@ const DEFAULT_TIMEOUT_MS = 300_000; // 5 minutes (claude -p with JSON output is
 const DEFAULT_MAX_RETRIES = 1;
 const SUPPORTED_PROVIDERS = ['claude-cli', 'anthropic'];
 
+/** Maps judge provider names from config to llm-cli providers. */
+const JUDGE_PROVIDER_MAP: Record<string, LLMProvider> = {
+  'claude-cli': 'claude',
+  anthropic: 'anthropic',
+};
+
 // ────────────────────────────────────────────────────────────────
 // Configuration
 // ────────────────────────────────────────────────────────────────
@@ -273,12 +286,14 @@ function fillPromptTemplate(
  * Invoke LLM with retry logic.
  */
 async function invokeLLMWithRetry(
-  prompt: string,
+  prompt: LLMPromptBlock[],
   model: string,
+  provider: LLMProvider,
   timeout: number,
   maxRetries: number
 ): Promise<string> {
-  const result = await callClaude(prompt, {
+  const result = await callLLM(prompt, {
+    provider,
     mode: 'sync',
     model,
     timeout,
@@ -410,6 +425,21 @@ function parseReviewResponse(
 // Retry Logic
 // ────────────────────────────────────────────────────────────────
 
+/**
+ * Stricter prompt for the retry. The instruction goes after every block so
+ * the cached prefix stays byte-identical and still hits the prompt cache.
+ */
+function strictJsonPrompt(prompt: LLMPromptBlock[]): LLMPromptBlock[] {
+  return [
+    ...prompt,
+    {
+      text:
+        '\n\nCRITICAL: Respond with ONLY valid JSON. No text before or after. Start with { and end with }. ' +
+        'Return ONLY the JSON object. No explanations.',
+    },
+  ];
+}
+
 /**
  * Run review with automatic retry for malformed responses.
  *
@@ -417,10 +447,11 @@ function parseReviewResponse(
  * 1. First attempt with normal prompt
  * 2. If response is conversational or unparseable, retry with stricter prompt
  *
- * @param prompt - Filled review prompt
+ * @param prompt - Filled review prompt, split into cacheable blocks
  * @param context - Review context
  * @param repoDir - Repository directory
  * @param model - Model to use
+ * @param provider - LLM provider to call
  * @param timeout - Timeout in milliseconds
  * @param maxRetries - Max retries for LLM calls
  * @param options - Review options
@@ -428,10 +459,11 @@ function parseReviewResponse(
  * @returns ReviewResult
  */
 async function runReviewWithRetry(
-  prompt: string,
+  prompt: LLMPromptBlock[],
   context: ReviewContext,
   repoDir: string,
   model: string,
+  provider: LLMProvider,
   timeout: number,
   maxRetries: number,
   options: ReviewEngineOptions,
@@ -440,7 +472,7 @@ async function runReviewWithRetry(
   const maxAttempts = 2;
 
   // Invoke LLM
-  const responseText = await invokeLLMWithRetry(prompt, model, timeout, maxRetries);
+  const responseText = await invokeLLMWithRetry(prompt, model, provider, timeout, maxRetries);
 
   // Show raw response in verbose mode
   if (options.verbose) {
@@ -461,17 +493,12 @@ async function runReviewWithRetry(
       }
       console.error('Retrying with stricter prompt...\n');
 
-      // Retry with stricter prompt
-      const strictPrompt =
-        'CRITICAL: Respond with ONLY valid JSON. No text before or after. Start with { and end with }.\n\n' +
-        prompt +
-        '\n\nREMINDER: Return ONLY the JSON object. No explanations.';
-
       return runReviewWithRetry(
-        strictPrompt,
+        strictJsonPrompt(prompt),
         context,
         repoDir,
         model,
+        provider,
         timeout,
         maxRetries,
         options,
@@ -505,17 +532,12 @@ async function runReviewWithRetry(
       }
       console.error('Retrying with stricter prompt...\n');
 
-      // Retry with stricter prompt
-      const strictPrompt =
-        'CRITICAL: Respond with ONLY valid JSON. No text before or after. Start with { and end with }.\n\n' +
-        prompt +
-        '\n\nREMINDER: Return ONLY the JSON object. No explanations.';
-
       return runReviewWithRetry(
-        strictPrompt,
+        strictJsonPrompt(prompt),
         context,
         repoDir,
         model,
+        provider,
         timeout,
         maxRetries,
         options,
@@ -602,6 +624,7 @@ function deduplicateFindings(findings: ReviewFinding[]): ReviewFinding[] {
  * @param context - Review context
  * @param repoDir - Repository directory
  * @param model - Model to use
+ * @param provider - LLM provider to call
  * @param timeout - Timeout in milliseconds
  * @param maxRetries - Max retries for LLM calls
  * @param options - Review options
@@ -612,6 +635,7 @@ async function runPersonaReview(
   context: ReviewContext,
   repoDir: string,
   model: string,
+  provider: LLMProvider,
   timeout: number,
   maxRetries: number,
   options: ReviewEngineOptions
@@ -621,7 +645,11 @@ async function runPersonaReview(
 
   // Design persona needs design context, others skip it
   const skipDesignContext = persona !== 'design';
-  const prompt = fillPromptTemplate(template, context, skipDesignContext);
+  // The template's static instructions form a cacheable prefix
+  const prompt = splitPromptForCache(
+    template,
+    fillPromptTemplate(template, context, skipDesignContext)
+  );
 
   // Run review with retry logic
   const result = await runReviewWithRetry(
@@ -629,6 +657,7 @@ async function runPersonaReview(
     context,
     repoDir,
     model,
+    provider,
     timeout,
     maxRetries,
     options,
@@ -678,6 +707,7 @@ export async function runReview(
 
   // Determine effective settings (options override config)
   const model = options.model || config.judge.model;
+  const provider = JUDGE_PROVIDER_MAP[config.judge.provider];
   const timeout = options.timeout || DEFAULT_TIMEOUT_MS;
   const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
 
@@ -699,6 +729,7 @@ export async function runReview(
   if (options.verbose) {
     console.error('=== Review Engine Configuration ===');
     console.error(`Model: ${model}`);
+    console.error(`Provider: ${config.judge.provider}`);
     console.error(`Timeout: ${timeout}ms`);
     console.error(`Max retries: ${maxRetries}`);
     console.error(`Requested reviewers: ${requestedReviewers.join(', ')}`);
@@ -708,9 +739,23 @@ export async function runReview(
     console.error('');
   }
 
+  // Pre-flight check: the HTTP provider only needs an API key
+  if (provider === 'anthropic' && !process.env.SKIP_PREFLIGHT_CHECK) {
+    if (!process.env.ANTHROPIC_API_KEY) {
+      throw new Error(
+        'ANTHROPIC_API_KEY is not set, but eval.judge.provider is "anthropic".\n\n' +
+        'Troubleshooting:\n' +
+        '  1. Export ANTHROPIC_API_KEY in your shell or add it to .env\n' +
+        '  2. Or use the Claude CLI instead: set eval.judge.provider to "claude-cli"\n' +
+        '\n' +
+        'To skip this check (not recommended): SKIP_PREFLIGHT_CHECK=1'
+      );
+    }
+  }
+
   // Pre-flight check: Verify Claude CLI is available
   // Skip if SKIP_PREFLIGHT_CHECK=1 is set (for testing)
-  if (!process.env.SKIP_PREFLIGHT_CHECK) {
+  if (provider === 'claude' && !process.env.SKIP_PREFLIGHT_CHECK) {
     if (options.verbose) {
       console.error('=== Pre-Flight Check ===');
     }
@@ -766,6 +811,7 @@ export async function runReview(
       context,
       repoDir,
       model,
+      provider,
       timeout,
       maxRetries,
       options
@@ -0,0 +1,178 @@
+/**
+ * Tests for review-fix prompts and per-finding resolution tracking in
+ * review-metrics.
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import type { ReviewFinding, ReviewResult } from './review-engine.ts';
+import {
+  buildFixPrompts,
+  readFindingContext,
+  summarizeConstraints,
+  findingKey,
+  fixAgentCommand,
+} from './review-fix.ts';
+import { initReviewMetric, addIteration, recordFixAttempts } from './review-metrics.ts';
+
+let repoDir: string;
+
+before(() => {
+  repoDir = mkdtempSync(join(tmpdir(), 'review-fix-test-'));
+  mkdirSync(join(repoDir, 'src'));
+  writeFileSync(
+    join(repoDir, 'src', 'auth.ts'),
+    Array.from({ length: 40 }, (_, i) => `line ${i + 1}`).join('\n'),
+  );
+
+  const constraintDir = join(repoDir, 'constraints', 'HOK-1');
+  mkdirSync(constraintDir, { recursive: true });
+  writeFileSync(
+    join(constraintDir, 'rules.json'),
+    JSON.stringify([{
+      id: 'CONSTRAINT-1',
+      constraint: { id: 'CONSTRAINT-1', category: 'file', type: 'auto-validatable', description: 'Do not modify config.ts', pattern: 'config.ts', severity: 'error' },
+      checks: [{ kind: 'files-not-touched', globs: ['config.ts'] }],
+    }]),
+  );
+  writeFileSync(
+    join(constraintDir, 'manual-review.md'),
+    '# Manual Constraint Review\n\nIntro.\n\n## CONSTRAINT-2\n\n**Category:** design\n**Severity:** warning\n\n**Description:**\nKeep the public API unchanged\n\n---\n',
+  );
+});
+
+after(() => {
+  rmSync(repoDir, { recursive: true, force: true });
+});
+
+function finding(location: string, overrides?: Partial<ReviewFinding>): ReviewFinding {
+  return { severity: 'blocker', location, category: 'logic', description: `Bug at ${location}`, ...overrides };
+}
+
+function result(findings: ReviewFinding[]): ReviewResult {
+  return { verdict: findings.some((f) => f.severity === 'blocker') ? 'not_ready' : 'ready', codeReviewFindings: findings };
+}
+
+describe('readFindingContext', () => {
+  it('shows numbered lines around the finding and marks the flagged range', () => {
+    const context = readFindingContext(repoDir, 'src/auth.ts:20-21', 2);
+    assert.match(context, /`src\/auth.ts` lines 18-23/);
+    assert.match(context, /  18 \| line 18/);
+    assert.match(context, /> 20 \| line 20/);
+    assert.match(context, /> 21 \| line 21/);
+    assert.doesNotMatch(context, /line 24/);
+  });
+
+  it('explains when there is no code to show', () => {
+    assert.match(readFindingContext(repoDir, 'task-packet.md:Section 4'), /not a file:line location/);
+    assert.match(readFindingContext(repoDir, 'src/missing.ts:3'), /does not exist/);
+  });
+});
+
+describe('summarizeConstraints', () => {
+  it('lists generated rules and manual-review constraints', () => {
+    const summary = summarizeConstraints('HOK-1', repoDir);
+    assert.match(summary, /\*\*CONSTRAINT-1: Do not modify config.ts\*\* \(file, error\)/);
+    assert.match(summary, /\*\*CONSTRAINT-2\*\*: Keep the public API unchanged \(manual review\)/);
+  });
+
+  it('notes when an issue has no stored rules', () => {
+    assert.match(summarizeConstraints('HOK-404', repoDir), /No stored constraint rules/);
+    assert.match(summarizeConstraints(undefined, repoDir), /No stored constraint rules/);
+  });
+});
+
+describe('buildFixPrompts', () => {
+  it('builds one prompt per blocker with finding, context and constraints', () => {
+    const prompts = buildFixPrompts(
+      result([
+        finding('src/auth.ts:10', { reviewers: ['security'] }),
+        finding('src/auth.ts:30', { severity: 'warning' }),
+      ]),
+      { repoDir, issueId: 'HOK-1', contextLines: 1 },
+    );
+
+    assert.equal(prompts.length, 1);
+    const [fix] = prompts;
+    assert.equal(fix.path, 'src/auth.ts');
+    assert.equal(fix.line, 10);
+    assert.equal(fix.fingerprint, findingKey(fix.finding));
+    assert.match(fix.prompt, /\*\*Location:\*\* src\/auth.ts:10/);
+    assert.match(fix.prompt, /\*\*Flagged by:\*\* security/);
+    assert.match(fix.prompt, /Bug at src\/auth.ts:10/);
+    assert.match(fix.prompt, /> 10 \| line 10/);
+    assert.match(fix.prompt, /CONSTRAINT-1/);
+    assert.doesNotMatch(fix.prompt, /\{\{/);
+  });
+
+  it('returns nothing when there are no blockers', () => {
+    assert.deepEqual(buildFixPrompts(result([finding('src/auth.ts:1', { severity: 'warning' })]), { repoDir }), []);
+  });
+});
+
+describe('findingKey', () => {
+  it('ignores line numbers but not files', () => {
+    assert.equal(findingKey(finding('src/a.ts:10', { description: 'x' })), findingKey(finding('src/a.ts:12', { description: 'x' })));
+    assert.notEqual(findingKey(finding('src/a.ts:10', { description: 'x' })), findingKey(finding('src/b.ts:10', { description: 'x' })));
+  });
+});
+
+describe('fixAgentCommand', () => {
+  it('runs agents headlessly with the prompt on stdin', () => {
+    assert.deepEqual(fixAgentCommand('claude'), ['claude', '-p', '--permission-mode', 'acceptEdits']);
+    assert.deepEqual(fixAgentCommand('codex', 'gpt-5.4'), [
+      'codex', 'exec', '--model', 'gpt-5.4', '--dangerously-bypass-approvals-and-sandbox', '-',
+    ]);
+  });
+});
+
+describe('addIteration resolutions', () => {
+  it('records whether each previous blocker was resolved and whether a fix was attempted', () => {
+    const fixed = finding('src/auth.ts:10', { description: 'Null check missing' });
+    const reworded = finding('src/auth.ts:20', { category: 'security', description: 'Token leaked in logs' });
+    const untouched = finding('src/other.ts:5', { description: 'Off by one' });
+
+    const metric = initReviewMetric('feature', 'main');
+    addIteration(metric, 1, result([fixed, reworded, untouched]));
+    assert.equal(metric.iterations[0].resolutions, undefined);
+    assert.equal(metric.iterations[0].findings?.[0].fingerprint, findingKey(fixed));
+
+    recordFixAttempts(metric, [
+      { fingerprint: findingKey(fixed), location: fixed.location, outcome: 'changed' },
+      { fingerprint: findingKey(reworded), location: reworded.location, outcome: 'no_changes' },
+    ]);
+
+    // The reviewer rewords the security finding and moves it a few lines
+    addIteration(metric, 2, result([
+      finding('src/auth.ts:23', { category: 'security', description: 'Access token written to logs' }),
+      untouched,
+    ]));
+
+    assert.deepEqual(
+      metric.iterations[1].resolutions?.map((r) => [r.location, r.status, r.fixAttempted]),
+      [
+        ['src/auth.ts:10', 'resolved', true],
+        ['src/auth.ts:20', 'unresolved', true],
+        ['src/other.ts:5', 'unresolved', false],
+      ],
+    );
+    assert.equal(metric.iterations[0].fixAttempts?.length, 2);
+  });
+
+  it('skips resolutions for older records without fingerprints', () => {
+    const metric = initReviewMetric('feature', 'main');
+    metric.iterations.push({
+      iterationNumber: 1,
+      verdict: 'not_ready',
+      timestamp: '2026-01-01T00:00:00Z',
+      findingsSummary: { blockers: 1, warnings: 0, total: 1 },
+      findings: [{ severity: 'blocker', category: 'logic', location: 'src/a.ts:1' }],
+    });
+
+    addIteration(metric, 2, result([]));
+    assert.equal(metric.iterations[1].resolutions, undefined);
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Review Fix - Targeted fix prompts for self-review blockers.
+ *
+ * Turns each blocker from a review into a focused prompt for the agent:
+ * the finding itself, the surrounding code, and the task's constraint
+ * rules (from constraints/<issue-id>/), so a fix for one finding doesn't
+ * break a constraint the agent already satisfied. Also runs an agent CLI
+ * non-interactively on such a prompt for `wavemill review --fix`.
+ *
+ * @module review-fix
+ */
+
+import { readFileSync, existsSync } from 'node:fs';
+import { join, dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { spawnSync } from 'node:child_process';
+import { fillPromptTemplate } from './prompt-utils.ts';
+import { loadConstraintRules } from './constraint-storage.ts';
+import { parseFindingLocation, findingFingerprint } from './pr-review-comments.ts';
+import type { ReviewFinding, ReviewResult } from './review-engine.ts';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// ────────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────────
+
+/** A fix prompt for one blocker. */
+export interface FixPrompt {
+  /** Stable finding identity (see findingKey) */
+  fingerprint: string;
+  finding: ReviewFinding;
+  /** File and line parsed from the finding location, when available */
+  path?: string;
+  line?: number;
+  /** Full prompt text for the agent */
+  prompt: string;
+}
+
+export interface FixPromptOptions {
+  /** Repository directory (default: cwd) */
+  repoDir?: string;
+  /** Issue ID whose constraint rules to include */
+  issueId?: string;
+  /** Lines of code shown on each side of the finding (default: 15) */
+  contextLines?: number;
+}
+
+/** Agent CLIs that can run a fix prompt non-interactively. */
+export type FixAgent = 'claude' | 'codex';
+
+export interface FixAgentOptions {
+  agent: FixAgent;
+  model?: string;
+  cwd: string;
+  /** Timeout in milliseconds (default: 10 minutes) */
+  timeout?: number;
+}
+
+export interface FixAgentResult {
+  ok: boolean;
+  output: string;
+  error?: string;
+}
+
+// ────────────────────────────────────────────────────────────────
+// Constants
+// ────────────────────────────────────────────────────────────────
+
+const DEFAULT_CONTEXT_LINES = 15;
+const DEFAULT_AGENT_TIMEOUT = 10 * 60 * 1000;
+
+let _templateCache: string | undefined;
+
+// ────────────────────────────────────────────────────────────────
+// Prompt Building
+// ────────────────────────────────────────────────────────────────
+
+/**
+ * Identity of a finding across review iterations. Uses the file path (not
+ * the line) so a finding keeps its key when edits above it shift lines.
+ */
+export function findingKey(finding: ReviewFinding): string {
+  return findingFingerprint(finding, parseFindingLocation(finding.location)?.path);
+}
+
+function loadFixTemplate(): string {
+  if (_templateCache === undefined) {
+    const templatePath = join(__dirname, '../../tools/prompts/review-fix.md');
+    if (!existsSync(templatePath)) {
+      throw new Error(`Review fix prompt template not found at: ${templatePath}`);
+    }
+    _templateCache = readFileSync(templatePath, 'utf-8');
+  }
+  return _templateCache;
+}
+
+/**
+ * Numbered source lines around a finding, with the flagged lines marked.
+ * Returns a note instead when the location has no line or the file is gone.
+ */
+export function readFindingContext(repoDir: string, location: string, contextLines = DEFAULT_CONTEXT_LINES): string {
+  const parsed = parseFindingLocation(location);
+  if (!parsed) {
+    return `_No code context: "${location}" is not a file:line location._`;
+  }
+
+  const filePath = resolve(repoDir, parsed.path);
+  if (!existsSync(filePath)) {
+    return `_No code context: ${parsed.path} does not exist (it may have been deleted or the path is partial)._`;
+  }
+
+  const lines = readFileSync(filePath, 'utf-8').split('\n');
+  const first = parsed.startLine ?? parsed.line;
+  const from = Math.max(1, first - contextLines);
+  const to = Math.min(lines.length, parsed.line + contextLines);
+  const width = String(to).length;
+
+  const body: string[] = [];
+  for (let n = from; n <= to; n++) {
+    const marker = n >= first && n <= parsed.line ? '>' : ' ';
+    body.push(`${marker} ${String(n).padStart(width)} | ${lines[n - 1]}`);
+  }
+
+  return [`\`${parsed.path}\` lines ${from}-${to}:`, '', '```', ...body, '```'].join('\n');
+}
+
+/**
+ * Summarize an issue's stored constraint rules: the id, description,
+ * category and severity of each check in `rules.json`, plus the
+ * manual-review constraints.
+ */
+export function summarizeConstraints(issueId: string | undefined, repoDir: string): string {
+  const stored = issueId ? loadConstraintRules(issueId, repoDir) : null;
+  if (!stored || (stored.rules.length === 0 && !stored.manualReviewContent)) {
+    return '_No stored constraint rules for this task._';
+  }
+
+  const lines = stored.rules.map(
+    ({ id, constraint }) => `- **${id}: ${constraint.description}** (${constraint.category}, ${constraint.severity})`,
+  );
+
+  if (stored.manualReviewContent) {
+    for (const match of stored.manualReviewContent.matchAll(/^## (.+)\n[\s\S]*?\*\*Description:\*\*\n(.+)/gm)) {
+      lines.push(`- **${match[1].trim()}**: ${match[2].trim()} (manual review)`);
+    }
+  }
+
+  return lines.length > 0 ? lines.join('\n') : '_No stored constraint rules for this task._';
+}
+
+/**
+ * Build one fix prompt per blocker in a review result. Warnings are left
+ * to the agent's judgement and get no prompt.
+ */
+export function buildFixPrompts(result: ReviewResult, options: FixPromptOptions = {}): FixPrompt[] {
+  const repoDir = options.repoDir ? resolve(options.repoDir) : process.cwd();
+  const blockers = [...result.codeReviewFindings, ...(result.uiFindings ?? [])].filter(
+    (f) => f.severity === 'blocker',
+  );
+  if (blockers.length === 0) return [];
+
+  const template = loadFixTemplate();
+  const constraints = summarizeConstraints(options.issueId, repoDir);
+
+  return blockers.map((finding) => {
+    const parsed = parseFindingLocation(finding.location);
+    const prompt = fillPromptTemplate(template, {
+      LOCATION: finding.location,
+      CATEGORY: finding.category,
+      REVIEWERS: finding.reviewers?.join(', ') || 'general',
+      DESCRIPTION: finding.description,
+      FILE_CONTEXT: readFindingContext(repoDir, finding.location, options.contextLines),
+      CONSTRAINTS: constraints,
+    });
+
+    return {
+      fingerprint: findingKey(finding),
+      finding,
+      ...(parsed ? { path: parsed.path, line: parsed.line } : {}),
+      prompt,
+    };
+  });
+}
+
+// ────────────────────────────────────────────────────────────────
+// Agent Execution
+// ────────────────────────────────────────────────────────────────
+
+/** Command line for running an agent headlessly with the prompt on stdin. */
+export function fixAgentCommand(agent: FixAgent, model?: string): string[] {
+  const modelArgs = model ? ['--model', model] : [];
+  switch (agent) {
+    case 'claude':
+      return ['claude', '-p', '--permission-mode', 'acceptEdits', ...modelArgs];
+    case 'codex':
+      return ['codex', 'exec', ...modelArgs, '--dangerously-bypass-approvals-and-sandbox', '-'];
+  }
+}
+
+/**
+ * Run an agent CLI on a fix prompt and wait for it to exit.
+ * Never throws; failures come back as `ok: false`.
+ */
+export function runFixAgent(prompt: string, options: FixAgentOptions): FixAgentResult {
+  const [cmd, ...args] = fixAgentCommand(options.agent, options.model);
+  const proc = spawnSync(cmd, args, {
+    cwd: options.cwd,
+    input: prompt,
+    encoding: 'utf-8',
+    timeout: options.timeout ?? DEFAULT_AGENT_TIMEOUT,
+    maxBuffer: 50 * 1024 * 1024,
+  });
+
+  if (proc.error) {
+    return { ok: false, output: proc.stdout ?? '', error: proc.error.message };
+  }
+  if (proc.status !== 0) {
+    return {
+      ok: false,
+      output: proc.stdout ?? '',
+      error: `${cmd} exited with code ${proc.status}${proc.stderr ? `: ${proc.stderr.trim().slice(0, 500)}` : ''}`,
+    };
+  }
+  return { ok: true, output: proc.stdout ?? '' };
+}
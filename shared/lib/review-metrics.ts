@@ -15,6 +15,8 @@ import { readFileSync, writeFileSync, existsSync, mkdirSync, appendFileSync } fr
 import { join, dirname, resolve } from 'node:path';
 import type { ReviewResult, ReviewFinding } from './review-engine.ts';
 import { loadWavemillConfig } from './config.ts';
+import { parseFindingLocation } from './pr-review-comments.ts';
+import { findingKey } from './review-fix.ts';
 
 // ────────────────────────────────────────────────────────────────
 // Types
@@ -32,6 +34,31 @@ export interface FindingsSummary {
   total: number;
 }
 
+/**
+ * Outcome of a targeted fix attempt for one blocker (`wavemill review --fix`).
+ */
+export interface FixAttempt {
+  /** Finding fingerprint (see review-fix findingKey) */
+  fingerprint: string;
+  location: string;
+  /** changed = agent edited files; no_changes = agent left the tree as-is */
+  outcome: 'changed' | 'no_changes' | 'failed';
+  /** Error message when outcome is 'failed' */
+  error?: string;
+}
+
+/**
+ * Whether a blocker from the previous iteration is still reported.
+ */
+export interface FindingResolution {
+  fingerprint: string;
+  location: string;
+  category: string;
+  status: 'resolved' | 'unresolved';
+  /** Whether a targeted fix was attempted for it after the previous iteration */
+  fixAttempted: boolean;
+}
+
 /**
  * Record of a single review iteration.
  */
@@ -49,7 +76,13 @@ export interface IterationRecord {
     severity: 'blocker' | 'warning';
     category: string;
     location: string;
+    /** Stable identity across iterations (absent in older records) */
+    fingerprint?: string;
   }>;
+  /** Per-blocker resolution of the previous iteration's blockers */
+  resolutions?: FindingResolution[];
+  /** Targeted fixes attempted after this iteration (fix mode only) */
+  fixAttempts?: FixAttempt[];
 }
 
 /**
@@ -161,6 +194,7 @@ export function addIteration(
     severity: f.severity,
     category: f.category,
     location: f.location,
+    fingerprint: findingKey(f),
   }));
 
   const iteration: IterationRecord = {
@@ -171,10 +205,62 @@ export function addIteration(
     findings,
   };
 
+  const previous = metric.iterations[metric.iterations.length - 1];
+  const resolutions = previous ? resolvePreviousBlockers(previous, findings) : [];
+  if (resolutions.length > 0) {
+    iteration.resolutions = resolutions;
+  }
+
   metric.iterations.push(iteration);
   metric.totalIterations = metric.iterations.length;
 }
 
+/**
+ * Work out which of the previous iteration's blockers are still reported.
+ *
+ * Matches by fingerprint first, then by file and category, since the
+ * reviewer often rewords a finding it is reporting again. Older records
+ * without fingerprints yield no resolutions.
+ */
+function resolvePreviousBlockers(
+  previous: IterationRecord,
+  current: NonNullable<IterationRecord['findings']>
+): FindingResolution[] {
+  const pathOf = (location: string) => parseFindingLocation(location)?.path ?? location;
+  const attempted = new Set((previous.fixAttempts ?? []).map((a) => a.fingerprint));
+
+  return (previous.findings ?? [])
+    .filter((f) => f.severity === 'blocker' && f.fingerprint)
+    .map((f) => {
+      const stillReported = current.some(
+        (c) =>
+          c.severity === 'blocker' &&
+          (c.fingerprint === f.fingerprint ||
+            (c.category === f.category && pathOf(c.location) === pathOf(f.location)))
+      );
+      return {
+        fingerprint: f.fingerprint!,
+        location: f.location,
+        category: f.category,
+        status: stillReported ? 'unresolved' : 'resolved',
+        fixAttempted: attempted.has(f.fingerprint!),
+      };
+    });
+}
+
+/**
+ * Record targeted fix attempts against the latest iteration.
+ *
+ * @param metric - Metric to update (modified in place)
+ * @param attempts - One entry per blocker a fix was attempted for
+ */
+export function recordFixAttempts(metric: ReviewMetric, attempts: FixAttempt[]): void {
+  const latest = metric.iterations[metric.iterations.length - 1];
+  if (latest) {
+    latest.fixAttempts = attempts;
+  }
+}
+
 /**
  * Finalize a metric with the final outcome.
  *
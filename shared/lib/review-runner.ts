@@ -12,6 +12,7 @@ import {
   gatherReviewContext,
 } from './review-context-gatherer.ts';
 import { runReview, type ReviewResult, type ReviewFinding, type ReviewerPersona } from './review-engine.ts';
+import { buildFixPrompts, type FixPrompt } from './review-fix.ts';
 
 // ────────────────────────────────────────────────────────────────
 // Types
@@ -30,10 +31,20 @@ export interface ReviewOptions {
   verbose?: boolean;
   /** List of reviewer personas to run */
   reviewers?: ReviewerPersona[];
+  /** Attach a targeted fix prompt for each blocker */
+  includeFixPrompts?: boolean;
+  /** Issue ID whose constraint rules go into fix prompts */
+  issueId?: string;
+}
+
+/** Review result, plus fix prompts when requested. */
+export interface ReviewChangesResult extends ReviewResult {
+  fixPrompts?: FixPrompt[];
 }
 
 // Re-export types from review-engine for backward compatibility
 export type { ReviewFinding, ReviewResult, ReviewerPersona } from './review-engine.ts';
+export type { FixPrompt } from './review-fix.ts';
 
 
 // ────────────────────────────────────────────────────────────────
@@ -47,11 +58,11 @@ export type { ReviewFinding, ReviewResult, ReviewerPersona } from './review-engi
  * and delegates to the shared review engine.
  *
  * @param options - Review configuration options
- * @returns ReviewResult with verdict and findings
+ * @returns ReviewResult with verdict and findings (and fix prompts if requested)
  */
 export async function reviewChanges(
   options: ReviewOptions = {}
-): Promise<ReviewResult> {
+): Promise<ReviewChangesResult> {
   const targetBranch = options.targetBranch || 'main';
   const repoDir = options.repoDir ? resolve(options.repoDir) : process.cwd();
 
@@ -61,9 +72,15 @@ export async function reviewChanges(
   });
 
   // Delegate to review engine
-  return runReview(context, repoDir, {
+  const result: ReviewChangesResult = await runReview(context, repoDir, {
     skipUi: options.skipUi,
     verbose: options.verbose,
     reviewers: options.reviewers,
   });
+
+  if (options.includeFixPrompts) {
+    result.fixPrompts = buildFixPrompts(result, { repoDir, issueId: options.issueId });
+  }
+
+  return result;
 }
@@ -0,0 +1,179 @@
+/**
+ * Tests for the Thompson-sampling router policy.
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import type { EvalRecord } from './eval-schema.ts';
+import { appendEvalRecord } from './eval-persistence.ts';
+import { recommendModel } from './model-router.ts';
+import {
+  THOMPSON_POLICY_VERSION,
+  armPosteriors,
+  explorationUsage,
+  sampleBeta,
+  seededRandom,
+  thompsonSelect,
+} from './router-bandit.ts';
+
+let dir: string;
+
+before(() => {
+  dir = mkdtempSync(join(tmpdir(), 'router-bandit-test-'));
+});
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+let counter = 0;
+function record(modelId: string, score: number, overrides: Partial<EvalRecord> = {}): EvalRecord {
+  counter++;
+  return {
+    id: `r${counter}`,
+    schemaVersion: '1.0.0',
+    originalPrompt: 'Fix the crash in the login form',
+    modelId,
+    modelVersion: modelId,
+    score,
+    scoreBand: 'Partial',
+    timeSeconds: 60,
+    timestamp: `2026-02-01T00:00:${String(counter % 60).padStart(2, '0')}Z`,
+    interventionRequired: false,
+    interventionCount: 0,
+    interventionDetails: [],
+    rationale: '',
+    ...overrides,
+  } as EvalRecord;
+}
+
+function decision(rationale: string, timestamp: string): EvalRecord {
+  return record('a', 0.8, {
+    timestamp,
+    routingDecision: {
+      candidates: [{ agentType: 'claude', modelId: 'a' }],
+      chosen: 0,
+      decisionPolicyVersion: THOMPSON_POLICY_VERSION,
+      decisionRationale: rationale,
+    },
+  });
+}
+
+describe('sampleBeta', () => {
+  it('is reproducible with a seed and centred on the mean', () => {
+    const draw = (seed: number) => {
+      const random = seededRandom(seed);
+      return Array.from({ length: 4000 }, () => sampleBeta(2, 6, random));
+    };
+    assert.deepEqual(draw(7).slice(0, 5), draw(7).slice(0, 5));
+    const values = draw(7);
+    const mean = values.reduce((a, b) => a + b, 0) / values.length;
+    assert.ok(Math.abs(mean - 0.25) < 0.01, `mean ${mean}`);
+    assert.ok(values.every((v) => v > 0 && v < 1));
+    // Shapes below 1 take the boosted path
+    const random = seededRandom(3);
+    assert.ok(Array.from({ length: 100 }, () => sampleBeta(0.3, 0.5, random)).every((v) => v >= 0 && v <= 1));
+  });
+});
+
+describe('armPosteriors', () => {
+  it('uses the model-wide score as prior for the context', () => {
+    const records = [
+      record('a', 1, { stratum: 'ts_small' }),
+      record('a', 1, { stratum: 'ts_large' }),
+      record('a', 0, { stratum: 'ts_large' }),
+      record('a', 0, { stratum: 'ts_large' }),
+    ];
+    const [a, fresh] = armPosteriors(records, ['a', 'fresh'], (r) => r.stratum === 'ts_small');
+    // Prior mean 0.5 over 2 pseudo-records, plus one success
+    assert.deepEqual([a.contextRecords, a.totalRecords, a.alpha, a.beta], [1, 4, 2, 1]);
+    assert.equal(a.mean.toFixed(3), '0.667');
+    assert.deepEqual([fresh.alpha, fresh.beta, fresh.mean], [1, 1, 0.5]);
+  });
+});
+
+describe('explorationUsage', () => {
+  it('counts recent thompson decisions and explorations', () => {
+    const records = [
+      decision('explore: x', '2026-02-01T00:00:01Z'),
+      decision('exploit: y', '2026-02-01T00:00:02Z'),
+      decision('explore: z', '2026-02-01T00:00:03Z'),
+      record('a', 0.5),
+    ];
+    assert.deepEqual(explorationUsage(records, 10), { decisions: 3, explorations: 2 });
+    assert.deepEqual(explorationUsage(records, 2), { decisions: 2, explorations: 1 });
+  });
+});
+
+describe('thompsonSelect', () => {
+  const arms = armPosteriors(
+    [...Array.from({ length: 6 }, () => record('proven', 0.7)), record('unlucky', 0.1)],
+    ['proven', 'unlucky', 'new'],
+    () => true,
+  );
+  const options = { explorationBudget: 0.5, explorationWindow: 50, defaultModel: 'proven' };
+
+  it('explores untried and unlucky models within the budget', () => {
+    const random = seededRandom(11);
+    const picks = Array.from({ length: 200 }, () =>
+      thompsonSelect(arms, { decisions: 0, explorations: 0 }, { ...options, explorationBudget: 1, random }));
+    const explored = picks.filter((p) => p.choice === 'explore');
+    assert.ok(explored.length > 10 && explored.length < 150, `${explored.length} explorations`);
+    assert.ok(explored.some((p) => p.modelId === 'new'));
+    assert.ok(explored.every((p) => p.modelId !== 'proven' && p.exploitModelId === 'proven'));
+    assert.match(explored[0].rationale, /^explore: draw \d\.\d\d for \w+ .* beat proven/);
+  });
+
+  it('exploits once the budget is spent', () => {
+    const random = seededRandom(11);
+    const picks = Array.from({ length: 200 }, () =>
+      thompsonSelect(arms, { decisions: 9, explorations: 5 }, { ...options, random }));
+    assert.ok(picks.every((p) => p.choice === 'exploit' && p.modelId === 'proven'));
+    const wanted = picks.find((p) => p.sampledModelId !== 'proven')!;
+    assert.match(wanted.rationale, /^exploit: draw favoured \w+ but the exploration budget 5\/9 of last 50 decisions, cap 50% is spent/);
+  });
+
+  it('prefers the default model when nothing has data', () => {
+    const empty = armPosteriors([], ['x', 'default', 'y'], () => true);
+    const choice = thompsonSelect(empty, { decisions: 0, explorations: 0 }, { ...options, explorationBudget: 0, defaultModel: 'default', random: seededRandom(1) });
+    assert.equal(choice.exploitModelId, 'default');
+    assert.equal(choice.modelId, 'default');
+  });
+});
+
+describe('recommendModel with the thompson policy', () => {
+  it('routes by posterior and records the decision', () => {
+    const evalsDir = join(dir, 'evals');
+    for (let i = 0; i < 5; i++) appendEvalRecord(record('claude-opus-4-6', 0.9), { dir: evalsDir, backend: 'jsonl' });
+    appendEvalRecord(record('gpt-5.4', 0.4), { dir: evalsDir, backend: 'jsonl' });
+    // A refactor record doesn't count towards the bugfix context
+    appendEvalRecord(record('gpt-5.4', 1, { originalPrompt: 'Refactor the parser' }), { dir: evalsDir, backend: 'jsonl' });
+
+    const rec = recommendModel('Fix the crash when saving', {
+      mode: 'heuristic',
+      policy: 'thompson',
+      explorationBudget: 0,
+      evalsDir,
+      repoDir: dir,
+      defaultModel: 'claude-opus-4-6',
+      random: seededRandom(5),
+    });
+    assert.equal(rec.recommendedModel, 'claude-opus-4-6');
+    assert.equal(rec.recommendedAgent, 'claude');
+    assert.equal(rec.insufficientData, false);
+    assert.deepEqual(rec.candidates.map((c) => [c.modelId, c.taskTypeRecordCount]), [['claude-opus-4-6', 5], ['gpt-5.4', 1]]);
+    assert.ok(rec.candidates.every((c) => c.posteriorMean !== undefined && c.sampledScore !== undefined));
+
+    const routing = rec.routingDecision!;
+    assert.equal(routing.decisionPolicyVersion, THOMPSON_POLICY_VERSION);
+    assert.deepEqual(routing.candidates, [
+      { agentType: 'claude', modelId: 'claude-opus-4-6' },
+      { agentType: 'codex', modelId: 'gpt-5.4' },
+    ]);
+    assert.equal(routing.chosen, 0);
+    assert.match(routing.decisionRationale!, /^exploit: claude-opus-4-6 has the best mean/);
+  });
+});
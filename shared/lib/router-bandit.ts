@@ -0,0 +1,239 @@
+/**
+ * Thompson-sampling exploration policy for the model router.
+ *
+ * Each candidate model is an arm with a Beta posterior over its eval score
+ * in the routing context (task type, and difficulty stratum when known).
+ * The prior is centred on the model's score across all tasks, so a context
+ * with little data backs off to the model's overall record. A draw from each
+ * posterior picks the arm (under the routing objective, when it weighs
+ * cost). Picking anything other than the best arm on posterior means is an
+ * exploration, and explorations are capped at a share of recent bandit
+ * decisions read back from the eval history.
+ *
+ * @module router-bandit
+ */
+
+import type { EvalRecord } from './eval-schema.ts';
+import { describeObjective, selectByObjective, type RouterObjective } from './router-objective.ts';
+
+export const GREEDY_POLICY_VERSION = 'router-greedy-v1';
+export const THOMPSON_POLICY_VERSION = 'router-thompson-v1';
+
+/** Weight of the prior in pseudo-records */
+const PRIOR_STRENGTH = 2;
+
+// ────────────────────────────────────────────────────────────────
+// Sampling
+// ────────────────────────────────────────────────────────────────
+
+/** Deterministic PRNG (mulberry32) for reproducible routing in tests. */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sampleNormal(random: () => number): number {
+  // Box–Muller; 1 - u keeps log() away from 0
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/** Gamma(shape, 1) by Marsaglia–Tsang, boosted for shape < 1. */
+function sampleGamma(shape: number, random: () => number): number {
+  if (shape < 1) {
+    return sampleGamma(shape + 1, random) * Math.pow(1 - random(), 1 / shape);
+  }
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleNormal(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = 1 - random();
+    if (Math.log(u) < 0.5 * x * x + d - d * v + d * Math.log(v)) return d * v;
+  }
+}
+
+export function sampleBeta(alpha: number, beta: number, random: () => number): number {
+  const x = sampleGamma(alpha, random);
+  const y = sampleGamma(beta, random);
+  return x / (x + y);
+}
+
+// ────────────────────────────────────────────────────────────────
+// Posteriors
+// ────────────────────────────────────────────────────────────────
+
+export interface ArmPosterior {
+  modelId: string;
+  /** Records for this model in the routing context */
+  contextRecords: number;
+  /** Records for this model across all contexts */
+  totalRecords: number;
+  alpha: number;
+  beta: number;
+  mean: number;
+}
+
+const clamp01 = (score: number) => Math.min(1, Math.max(0, score));
+
+/**
+ * Beta posterior per model. Scores are treated as fractional successes;
+ * `inContext` selects the records for the current task type and stratum.
+ */
+export function armPosteriors(
+  records: EvalRecord[],
+  models: string[],
+  inContext: (record: EvalRecord) => boolean,
+): ArmPosterior[] {
+  return models.map((modelId) => {
+    const all = records.filter((r) => r.modelId === modelId);
+    const context = all.filter(inContext);
+    const priorMean = all.length > 0
+      ? all.reduce((sum, r) => sum + clamp01(r.score), 0) / all.length
+      : 0.5;
+    const successes = context.reduce((sum, r) => sum + clamp01(r.score), 0);
+    const alpha = PRIOR_STRENGTH * priorMean + successes;
+    const beta = PRIOR_STRENGTH * (1 - priorMean) + (context.length - successes);
+    return {
+      modelId,
+      contextRecords: context.length,
+      totalRecords: all.length,
+      // Keep both shapes positive for models that always scored 0 or 1
+      alpha: Math.max(alpha, 1e-3),
+      beta: Math.max(beta, 1e-3),
+      mean: alpha / (alpha + beta),
+    };
+  });
+}
+
+// ────────────────────────────────────────────────────────────────
+// Exploration Budget
+// ────────────────────────────────────────────────────────────────
+
+export interface ExplorationUsage {
+  /** Bandit decisions in the window */
+  decisions: number;
+  /** Of which explorations */
+  explorations: number;
+}
+
+/**
+ * Count recent bandit decisions and explorations from the routing decisions
+ * recorded on eval records.
+ */
+export function explorationUsage(records: EvalRecord[], window: number): ExplorationUsage {
+  const recent = records
+    .filter((r) => r.routingDecision?.decisionPolicyVersion === THOMPSON_POLICY_VERSION)
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    .slice(0, window);
+  return {
+    decisions: recent.length,
+    explorations: recent.filter((r) => r.routingDecision!.decisionRationale?.startsWith('explore')).length,
+  };
+}
+
+// ────────────────────────────────────────────────────────────────
+// Selection
+// ────────────────────────────────────────────────────────────────
+
+export interface ThompsonOptions {
+  /** Maximum share (0–1) of recent bandit decisions that may explore */
+  explorationBudget: number;
+  /** Number of recent bandit decisions the budget applies to */
+  explorationWindow: number;
+  /** Preferred on ties, e.g. when no model has any data */
+  defaultModel: string;
+  random: () => number;
+  /** Quality/cost trade-off applied to means and draws (default: score only) */
+  objective?: RouterObjective;
+  /** Expected cost per model in USD */
+  costs?: Record<string, number | null>;
+}
+
+export interface ThompsonChoice {
+  modelId: string;
+  choice: 'explore' | 'exploit';
+  /** Best model on posterior means */
+  exploitModelId: string;
+  /** Model the posterior draw picked (differs from modelId when the budget is spent) */
+  sampledModelId: string;
+  samples: Record<string, number>;
+  arms: ArmPosterior[];
+  usage: ExplorationUsage;
+  rationale: string;
+  /** Why a cheaper model was or wasn't chosen */
+  costExplanation: string;
+}
+
+/**
+ * Draw once from every arm's posterior and pick the best arm on the draws,
+ * unless that would explore beyond the budget, in which case pick the best
+ * arm on posterior means.
+ */
+export function thompsonSelect(
+  arms: ArmPosterior[],
+  usage: ExplorationUsage,
+  options: ThompsonOptions,
+): ThompsonChoice {
+  if (arms.length === 0) throw new Error('Thompson sampling needs at least one candidate model');
+
+  const samples: Record<string, number> = {};
+  for (const arm of arms) samples[arm.modelId] = sampleBeta(arm.alpha, arm.beta, options.random);
+
+  const objective = options.objective ?? { type: 'score' };
+  const choose = (value: (arm: ArmPosterior) => number) => selectByObjective(
+    arms.map((arm) => ({ modelId: arm.modelId, score: value(arm), cost: options.costs?.[arm.modelId] ?? null })),
+    objective,
+    options.defaultModel,
+  );
+  const onMeans = choose((arm) => arm.mean);
+  const onDraws = choose((arm) => samples[arm.modelId]);
+  const exploit = arms.find((arm) => arm.modelId === onMeans.modelId)!;
+  const sampled = arms.find((arm) => arm.modelId === onDraws.modelId)!;
+  const wantsToExplore = sampled.modelId !== exploit.modelId;
+  const withinBudget = (usage.explorations + 1) / (usage.decisions + 1) <= options.explorationBudget;
+  const explore = wantsToExplore && withinBudget;
+
+  const fmt = (n: number) => n.toFixed(2);
+  const budget = `exploration budget ${usage.explorations}/${usage.decisions} of last ${options.explorationWindow} decisions, cap ${Math.round(options.explorationBudget * 100)}%`;
+  let rationale: string;
+  if (explore) {
+    rationale =
+      `explore: draw ${fmt(samples[sampled.modelId])} for ${sampled.modelId} ` +
+      `(mean ${fmt(sampled.mean)}, n=${sampled.contextRecords}) beat ${exploit.modelId} ` +
+      `(draw ${fmt(samples[exploit.modelId])}, mean ${fmt(exploit.mean)}); ${budget}`;
+  } else if (wantsToExplore) {
+    rationale =
+      `exploit: draw favoured ${sampled.modelId} but the ${budget} is spent; ` +
+      `${exploit.modelId} has the best mean ${fmt(exploit.mean)} (n=${exploit.contextRecords})`;
+  } else {
+    rationale =
+      `exploit: ${exploit.modelId} has the best mean ${fmt(exploit.mean)} ` +
+      `(n=${exploit.contextRecords}) and the highest draw ${fmt(samples[exploit.modelId])}`;
+  }
+  if (objective.type !== 'score') rationale += `; objective ${describeObjective(objective)}`;
+
+  return {
+    modelId: explore ? sampled.modelId : exploit.modelId,
+    choice: explore ? 'explore' : 'exploit',
+    exploitModelId: exploit.modelId,
+    sampledModelId: sampled.modelId,
+    samples,
+    arms,
+    usage,
+    rationale,
+    costExplanation: explore ? onDraws.explanation : onMeans.explanation,
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Tests for the routing objectives (quality/cost trade-off).
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import type { EvalRecord } from './eval-schema.ts';
+import { appendEvalRecord } from './eval-persistence.ts';
+import { recommendModel } from './model-router.ts';
+import { resolveObjective, describeObjective, selectByObjective } from './router-objective.ts';
+
+let dir: string;
+
+before(() => {
+  dir = mkdtempSync(join(tmpdir(), 'router-objective-test-'));
+});
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const candidates = [
+  { modelId: 'opus', score: 0.85, cost: 3 },
+  { modelId: 'sonnet', score: 0.82, cost: 1 },
+  { modelId: 'mini', score: 0.6, cost: 0.2 },
+];
+
+describe('resolveObjective', () => {
+  it('defaults to score and fills in parameters', () => {
+    assert.deepEqual(resolveObjective(undefined), { type: 'score' });
+    assert.deepEqual(resolveObjective({ type: 'score-minus-cost' }), { type: 'score-minus-cost', costWeight: 0.05 });
+    assert.deepEqual(resolveObjective({ type: 'cheapest-within', tolerance: 0.1 }), { type: 'cheapest-within', tolerance: 0.1 });
+    assert.equal(describeObjective({ type: 'score-minus-cost', costWeight: 0.05 }), 'score − 0.05×cost');
+  });
+});
+
+describe('selectByObjective', () => {
+  it('ignores cost under the score objective but says what a cheaper model scores', () => {
+    const choice = selectByObjective(candidates, { type: 'score' });
+    assert.equal(choice.modelId, 'opus');
+    assert.equal(choice.explanation, 'Cost not weighed (objective: score); cheaper sonnet ($1.00 vs $3.00) scores 0.82 vs 0.85.');
+  });
+
+  it('subtracts weighted cost', () => {
+    const choice = selectByObjective(candidates, { type: 'score-minus-cost', costWeight: 0.05 });
+    assert.equal(choice.modelId, 'sonnet');
+    assert.equal(choice.values.opus.toFixed(2), '0.70');
+    assert.match(choice.explanation, /^Chose cheaper sonnet \(0\.82, \$1\.00\) over higher-scoring opus \(0\.85, \$3\.00\), saving \$2\.00\.$/);
+
+    const kept = selectByObjective(candidates, { type: 'score-minus-cost', costWeight: 0.01 });
+    assert.equal(kept.modelId, 'opus');
+    assert.equal(kept.explanation, 'Cheaper sonnet ($1.00) nets 0.81 (0.82 − 0.01×1.00) vs 0.82 for opus (0.85 − 0.01×3.00).');
+  });
+
+  it('charges models without cost data the average known cost', () => {
+    const choice = selectByObjective([{ modelId: 'new', score: 0.8, cost: null }, { modelId: 'old', score: 0.8, cost: 1 }], { type: 'score-minus-cost', costWeight: 0.1 });
+    assert.deepEqual(Object.values(choice.values).map((v) => v.toFixed(2)), ['0.70', '0.70']);
+    assert.equal(choice.modelId, 'new');
+  });
+
+  it('takes the cheapest model within the tolerance', () => {
+    const choice = selectByObjective(candidates, { type: 'cheapest-within', tolerance: 0.05 });
+    assert.equal(choice.modelId, 'sonnet');
+    assert.match(choice.explanation, /within 0\.05 of best opus/);
+
+    const strict = selectByObjective(candidates, { type: 'cheapest-within', tolerance: 0.01 });
+    assert.equal(strict.modelId, 'opus');
+    assert.equal(strict.explanation, 'Cheaper sonnet ($1.00) scores 0.82, more than 0.01 below 0.85.');
+
+    // With no cost data the best score wins
+    const unpriced = candidates.map((c) => ({ ...c, cost: null }));
+    assert.equal(selectByObjective(unpriced, { type: 'cheapest-within', tolerance: 0.05 }).explanation, 'No cost data for opus; chose it on score.');
+  });
+});
+
+describe('recommendModel with a cost objective', () => {
+  it('reports expected score and cost per candidate', () => {
+    const evalsDir = join(dir, 'evals');
+    let n = 0;
+    const add = (modelId: string, score: number, workflowCost?: number) =>
+      appendEvalRecord({
+        id: `r${++n}`,
+        schemaVersion: '1.0.0',
+        originalPrompt: 'Add a settings page',
+        modelId,
+        modelVersion: modelId,
+        score,
+        scoreBand: 'Partial',
+        timeSeconds: 60,
+        timestamp: '2026-02-01T00:00:00Z',
+        interventionRequired: false,
+        interventionCount: 0,
+        interventionDetails: [],
+        rationale: '',
+        ...(workflowCost !== undefined ? { workflowCost } : {}),
+      } as EvalRecord, { dir: evalsDir, backend: 'jsonl' });
+    add('claude-opus-4-6', 0.9, 4);
+    add('claude-opus-4-6', 0.9, 2);
+    add('claude-sonnet-4-5-20250929', 0.88, 1);
+    add('claude-sonnet-4-5-20250929', 0.86);
+
+    const rec = recommendModel('Add a billing page', {
+      mode: 'heuristic',
+      evalsDir,
+      repoDir: dir,
+      minRecords: 1,
+      objective: { type: 'cheapest-within', tolerance: 0.05 },
+    });
+    assert.equal(rec.recommendedModel, 'claude-sonnet-4-5-20250929');
+    assert.equal(rec.objective, 'cheapest within 0.05 of best score');
+    assert.deepEqual(rec.candidates.map((c) => [c.modelId, c.avgScore.toFixed(2), c.expectedCost]), [
+      ['claude-opus-4-6', '0.90', 3],
+      ['claude-sonnet-4-5-20250929', '0.87', 1],
+    ]);
+    assert.match(rec.reasoning, /^claude-sonnet-4-5-20250929 is best on cheapest within 0\.05 of best score \(average score 0\.87, expected cost \$1\.00\)/);
+    assert.match(rec.costReasoning!, /saving \$2\.00/);
+    assert.equal(rec.routingDecision!.chosen, 1);
+  });
+});
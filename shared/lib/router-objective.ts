@@ -0,0 +1,166 @@
+/**
+ * Routing objectives — how the router trades expected score against
+ * expected cost when picking between candidate models.
+ *
+ *   - `score`: highest expected score; cost is reported but not weighed
+ *   - `score-minus-cost`: highest `score − costWeight × cost (USD)`
+ *   - `cheapest-within`: cheapest model whose expected score is within
+ *     `tolerance` of the best
+ *
+ * @module router-objective
+ */
+
+import type { RouterObjectiveConfig } from './config.ts';
+
+export type RouterObjective =
+  | { type: 'score' }
+  | { type: 'score-minus-cost'; costWeight: number }
+  | { type: 'cheapest-within'; tolerance: number };
+
+export const DEFAULT_COST_WEIGHT = 0.05;
+export const DEFAULT_SCORE_TOLERANCE = 0.05;
+
+/** Fill in defaults for a configured objective (default: `score`). */
+export function resolveObjective(config?: RouterObjectiveConfig): RouterObjective {
+  switch (config?.type) {
+    case 'score-minus-cost':
+      return { type: 'score-minus-cost', costWeight: config.costWeight ?? DEFAULT_COST_WEIGHT };
+    case 'cheapest-within':
+      return { type: 'cheapest-within', tolerance: config.tolerance ?? DEFAULT_SCORE_TOLERANCE };
+    default:
+      return { type: 'score' };
+  }
+}
+
+export function describeObjective(objective: RouterObjective): string {
+  switch (objective.type) {
+    case 'score-minus-cost':
+      return `score − ${objective.costWeight}×cost`;
+    case 'cheapest-within':
+      return `cheapest within ${objective.tolerance} of best score`;
+    default:
+      return 'score';
+  }
+}
+
+// ────────────────────────────────────────────────────────────────
+// Selection
+// ────────────────────────────────────────────────────────────────
+
+export interface ObjectiveCandidate {
+  modelId: string;
+  /** Expected score (historical average, posterior mean or draw) */
+  score: number;
+  /** Expected cost in USD; null when no record has a workflow cost */
+  cost: number | null;
+}
+
+export interface ObjectiveChoice {
+  modelId: string;
+  /** Objective value per model (higher is better) */
+  values: Record<string, number>;
+  /** Why a cheaper model was or wasn't chosen */
+  explanation: string;
+}
+
+const usd = (cost: number | null) => (cost === null ? 'unknown cost' : `$${cost.toFixed(2)}`);
+const fmt = (n: number) => n.toFixed(2);
+
+/**
+ * Objective value per candidate: the net score under `score-minus-cost`,
+ * otherwise the score. A model without cost data is charged the average
+ * known cost so it is neither favoured nor ruled out.
+ */
+function objectiveValues(candidates: ObjectiveCandidate[], objective: RouterObjective): Record<string, number> {
+  const known = candidates.filter((c) => c.cost !== null).map((c) => c.cost!);
+  const fallbackCost = known.length > 0 ? known.reduce((a, b) => a + b, 0) / known.length : 0;
+  return Object.fromEntries(candidates.map((c) => [
+    c.modelId,
+    objective.type === 'score-minus-cost' ? c.score - objective.costWeight * (c.cost ?? fallbackCost) : c.score,
+  ]));
+}
+
+function pick(candidates: ObjectiveCandidate[], values: Record<string, number>, preferred?: string): ObjectiveCandidate {
+  return candidates.reduce((top, c) => {
+    const diff = values[c.modelId] - values[top.modelId];
+    if (diff > 0) return c;
+    if (diff === 0 && c.modelId === preferred) return c;
+    return top;
+  });
+}
+
+const scores = (candidates: ObjectiveCandidate[]) =>
+  Object.fromEntries(candidates.map((c) => [c.modelId, c.score]));
+
+/** Under `cheapest-within`, the cheapest priced model near the best score; else the best value. */
+function choose(
+  candidates: ObjectiveCandidate[],
+  objective: RouterObjective,
+  values: Record<string, number>,
+  preferred?: string,
+): ObjectiveCandidate {
+  if (objective.type !== 'cheapest-within') return pick(candidates, values, preferred);
+  const best = Math.max(...candidates.map((c) => c.score));
+  const priced = candidates.filter((c) => c.cost !== null && c.score >= best - objective.tolerance);
+  if (priced.length === 0) return pick(candidates, values, preferred);
+  return pick(priced, Object.fromEntries(priced.map((c) => [c.modelId, -c.cost!])), preferred);
+}
+
+function explain(
+  chosen: ObjectiveCandidate,
+  candidates: ObjectiveCandidate[],
+  objective: RouterObjective,
+  values: Record<string, number>,
+  preferred?: string,
+): string {
+  const top = pick(candidates, scores(candidates), preferred);
+  // The strongest cheaper alternative is the one worth explaining
+  const cheaper = candidates
+    .filter((c) => c !== chosen && c.cost !== null && chosen.cost !== null && c.cost < chosen.cost)
+    .sort((a, b) => values[b.modelId] - values[a.modelId]);
+
+  if (chosen !== top) {
+    const saving = chosen.cost !== null && top.cost !== null ? `, saving ${usd(top.cost - chosen.cost)}` : '';
+    if (objective.type === 'cheapest-within') {
+      return `Chose cheaper ${chosen.modelId} (${fmt(chosen.score)}, ${usd(chosen.cost)}): within ` +
+        `${objective.tolerance} of best ${top.modelId} (${fmt(top.score)}, ${usd(top.cost)})${saving}.`;
+    }
+    return `Chose cheaper ${chosen.modelId} (${fmt(chosen.score)}, ${usd(chosen.cost)}) over higher-scoring ` +
+      `${top.modelId} (${fmt(top.score)}, ${usd(top.cost)})${saving}.`;
+  }
+
+  if (cheaper.length === 0) {
+    return chosen.cost === null
+      ? `No cost data for ${chosen.modelId}; chose it on score.`
+      : `No cheaper candidate than ${chosen.modelId} (${usd(chosen.cost)}).`;
+  }
+
+  const alt = cheaper[0];
+  switch (objective.type) {
+    case 'score-minus-cost':
+      return `Cheaper ${alt.modelId} (${usd(alt.cost)}) nets ${fmt(values[alt.modelId])} ` +
+        `(${fmt(alt.score)} − ${objective.costWeight}×${fmt(alt.cost!)}) vs ${fmt(values[chosen.modelId])} ` +
+        `for ${chosen.modelId} (${fmt(chosen.score)} − ${objective.costWeight}×${fmt(chosen.cost!)}).`;
+    case 'cheapest-within':
+      return `Cheaper ${alt.modelId} (${usd(alt.cost)}) scores ${fmt(alt.score)}, more than ` +
+        `${objective.tolerance} below ${fmt(chosen.score)}.`;
+    default:
+      return `Cost not weighed (objective: score); cheaper ${alt.modelId} (${usd(alt.cost)} vs ` +
+        `${usd(chosen.cost)}) scores ${fmt(alt.score)} vs ${fmt(chosen.score)}.`;
+  }
+}
+
+/**
+ * Pick a model under the objective. Exact ties go to `preferred`
+ * (e.g. the default model), then to the earlier candidate.
+ */
+export function selectByObjective(
+  candidates: ObjectiveCandidate[],
+  objective: RouterObjective,
+  preferred?: string,
+): ObjectiveChoice {
+  if (candidates.length === 0) throw new Error('No candidate models to choose from');
+  const values = objectiveValues(candidates, objective);
+  const chosen = choose(candidates, objective, values, preferred);
+  return { modelId: chosen.modelId, values, explanation: explain(chosen, candidates, objective, values, preferred) };
+}
@@ -0,0 +1,153 @@
+/**
+ * Tests for router artifact training.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { EvalRecord } from './eval-schema.ts';
+import type { SelectorArtifact } from './llm-router.ts';
+import {
+  buildTrainingExamples,
+  detectRiskFlags,
+  heuristicPredictor,
+  routingScore,
+  selectFewShot,
+  splitExamples,
+  trainRouter,
+  type LabelOptions,
+} from './router-training.ts';
+
+const labelOptions: LabelOptions = {
+  models: ['claude-opus-4-6', 'gpt-5.4'],
+  defaultModel: 'claude-opus-4-6',
+  agentMap: {},
+  defaultAgent: 'claude',
+  repoName: 'app',
+};
+
+let counter = 0;
+function record(modelId: string, score: number, overrides: Partial<EvalRecord> = {}): EvalRecord {
+  counter++;
+  return {
+    id: `r${counter}`,
+    schemaVersion: '1.0.0',
+    originalPrompt: 'Add a settings page',
+    modelId,
+    modelVersion: modelId,
+    score,
+    scoreBand: 'Partial',
+    timeSeconds: 60,
+    timestamp: `2026-02-${String(counter).padStart(2, '0')}T00:00:00Z`,
+    interventionRequired: false,
+    interventionCount: 0,
+    interventionDetails: [],
+    rationale: '',
+    ...overrides,
+  } as EvalRecord;
+}
+
+describe('buildTrainingExamples', () => {
+  it('keeps successful models and falls back to the default otherwise', () => {
+    const [kept, failed, intervened] = buildTrainingExamples([
+      record('gpt-5.4', 0.9, { workflowCost: 4, stratum: 'ts_small' as EvalRecord['stratum'] }),
+      record('gpt-5.4', 0.5, { workflowCost: 40 }),
+      record('gpt-5.4', 0.95, { interventionCount: 2 }),
+    ], labelOptions);
+    assert.deepEqual(
+      [kept.recommended_model, kept.recommended_agent, kept.cost_estimate, kept.confidence, kept.stratum, kept.repo_name],
+      ['gpt-5.4', 'codex', 'low', 'medium', 'ts_small', 'app'],
+    );
+    assert.equal(kept.margin.toFixed(2), '0.05');
+    assert.deepEqual([failed.recommended_model, failed.cost_estimate, failed.confidence, failed.stratum], ['claude-opus-4-6', 'high', 'low', 'unknown']);
+    assert.equal(intervened.recommended_model, 'claude-opus-4-6');
+  });
+
+  it('only flags risk when enough patterns match', () => {
+    assert.deepEqual(detectRiskFlags('Refactor the module'), []);
+    assert.deepEqual(detectRiskFlags('Add a Prisma migration'), ['schema-migration']);
+  });
+});
+
+describe('splitExamples and selectFewShot', () => {
+  it('holds out the newest examples and covers strata by margin', () => {
+    const examples = buildTrainingExamples([
+      record('gpt-5.4', 0.86, { stratum: 'a' as EvalRecord['stratum'] }),
+      record('gpt-5.4', 1, { stratum: 'a' as EvalRecord['stratum'] }),
+      record('gpt-5.4', 0.9, { stratum: 'a' as EvalRecord['stratum'] }),
+      record('gpt-5.4', 0.2, { stratum: 'b' as EvalRecord['stratum'] }),
+      record('gpt-5.4', 0.9, { stratum: 'c' as EvalRecord['stratum'] }),
+    ], labelOptions);
+    const { train, holdout } = splitExamples(examples, 0.2);
+    assert.deepEqual(holdout.map((e) => e.stratum), ['c']);
+    assert.equal(train.length, 4);
+
+    const picked = selectFewShot(train, 3);
+    assert.deepEqual(picked.map((e) => [e.stratum, e.margin.toFixed(2)]), [['a', '0.15'], ['b', '0.65'], ['a', '0.05']]);
+  });
+});
+
+describe('routingScore', () => {
+  it('weights model, risk recall and cost band', () => {
+    const [expected] = buildTrainingExamples([record('gpt-5.4', 0.9, { originalPrompt: 'Add a Prisma migration' })], labelOptions);
+    const response = { recommended_model: 'gpt-5.4', recommended_agent: 'codex', confidence: 'high', risk_flags: ['schema-migration'], cost_estimate: 'medium', reasoning: '' };
+    assert.equal(routingScore(expected, response), 1);
+    assert.equal(routingScore(expected, { ...response, recommended_model: 'claude-opus-4-6', risk_flags: [] }), 0.2);
+    assert.equal(routingScore(expected, null), 0);
+  });
+});
+
+describe('heuristicPredictor', () => {
+  it('predicts the prompt\'s risk flags and the task type\'s median cost band', () => {
+    const train = [
+      record('gpt-5.4', 0.95, { originalPrompt: 'Add feature a', workflowCost: 30 }),
+      record('gpt-5.4', 0.95, { originalPrompt: 'Add feature b', workflowCost: 40 }),
+      record('gpt-5.4', 0.9, { originalPrompt: 'Add feature c', workflowCost: 5 }),
+    ];
+    const [example] = buildTrainingExamples([record('gpt-5.4', 0.95, { originalPrompt: 'Add feature d to the RSC page' })], labelOptions);
+    const predicted = heuristicPredictor(train, labelOptions)(example)!;
+    assert.equal(predicted.recommended_model, 'gpt-5.4');
+    assert.deepEqual(predicted.risk_flags, ['rsc-serialization']);
+    assert.equal(predicted.cost_estimate, 'high');
+  });
+});
+
+describe('trainRouter', () => {
+  // gpt-5.4 does well on plain features and opus on OAuth ones; both are the same task type to the heuristic router
+  const history = Array.from({ length: 15 }, (_, i) =>
+    i % 2 === 0
+      ? record('gpt-5.4', 0.95, { originalPrompt: `Add feature ${i}`, stratum: 'ts_small' as EvalRecord['stratum'] })
+      : record('claude-opus-4-6', 0.95, { originalPrompt: `Add feature ${i} with OAuth`, stratum: 'ts_large' as EvalRecord['stratum'] }));
+
+  // Fake router LLM that learned the pattern from the demonstrations
+  const callFn = (prompt: string) => {
+    const task = prompt.slice(prompt.lastIndexOf('Task:'));
+    const model = task.includes('OAuth') ? 'claude-opus-4-6' : 'gpt-5.4';
+    return JSON.stringify({ recommended_model: model, recommended_agent: '', confidence: 'high', risk_flags: [], cost_estimate: 'medium', reasoning: 'pattern' });
+  };
+
+  it('installs a candidate that beats the heuristic router', () => {
+    const result = trainRouter(history, { ...labelOptions, current: null, runtimeModel: 'mini', callFn, now: new Date('2026-03-01T00:00:00Z') });
+    assert.deepEqual([result.examples, result.train, result.holdout], [15, 12, 3]);
+    assert.deepEqual(new Set(result.fewShot.map((e) => e.stratum)), new Set(['ts_small', 'ts_large']));
+    assert.equal(result.scores.candidate.score, 1);
+    assert.ok(result.scores.heuristic.score < 1);
+    assert.equal(result.wins, true);
+    assert.equal(result.candidate.optimizer, 'wavemill-router-train');
+    assert.equal(result.candidate.few_shot_examples.length, 4);
+    assert.equal('recordId' in result.candidate.few_shot_examples[0], false);
+  });
+
+  it('keeps the current artifact when the candidate does not win', () => {
+    const current = { system_prompt: 'Route tasks.', few_shot_examples: [], model_candidates: [] } as unknown as SelectorArtifact;
+    const broken = () => 'not json';
+    const result = trainRouter(history, { ...labelOptions, current, runtimeModel: 'mini', callFn: broken });
+    assert.equal(result.wins, false);
+    assert.equal(result.scores.candidate.failures, 3);
+    assert.equal(result.candidate.system_prompt, 'Route tasks.');
+    assert.match(result.verdict, /does not beat the heuristic router/);
+  });
+
+  it('needs enough records', () => {
+    assert.throws(() => trainRouter(history.slice(0, 5), { ...labelOptions, current: null, runtimeModel: 'mini', callFn }), /at least 10/);
+  });
+});
@@ -0,0 +1,436 @@
+/**
+ * Router training — rebuilds the LLM router's selector artifact from the eval
+ * store without the Python DSPy pipeline.
+ *
+ * Eval records are labelled with the routing decision that would have been
+ * right in hindsight (as in `dspy/prepare_data.py`), split chronologically
+ * into training and held-out examples, and the few-shot demonstrations are
+ * picked from the training side to cover as many strata as possible with the
+ * most clear-cut outcomes. The candidate artifact keeps the current system
+ * prompt and is scored on the held-out examples against the heuristic router
+ * (and the current artifact); it only replaces the current one when it wins.
+ *
+ * @module router-training
+ */
+
+import { createHash } from 'node:crypto';
+import type { EvalRecord } from './eval-schema.ts';
+import { aggregateEvalHistory, classifyTaskType, resolveAgent, type TaskType } from './model-router.ts';
+import {
+  buildRoutingPrompt,
+  parseRoutingResponse,
+  type CallFn,
+  type FewShotExample,
+  type LLMRoutingResponse,
+  type SelectorArtifact,
+} from './llm-router.ts';
+
+/** Score at or above which the model that ran the task is taken as the right choice */
+export const SUCCESS_THRESHOLD = 0.85;
+/** Fewest labelled examples worth training on */
+export const MIN_TRAINING_EXAMPLES = 10;
+
+const MAX_PROMPT_LENGTH = 2000;
+
+/** Used when there's no current artifact to take the system prompt from. */
+export const DEFAULT_SYSTEM_PROMPT =
+  'Route a software engineering task to the best AI agent and model.\n\n' +
+  'Consider task complexity, whether it modifies existing code or creates new code, ' +
+  'the target repository\'s technology stack, and historical performance patterns. ' +
+  'Prefer cheaper models when both options have similar expected outcomes.\n\n' +
+  'Respond with JSON: recommended_model (from the available models), recommended_agent, ' +
+  'confidence (high|medium|low), risk_flags (list), cost_estimate (low|medium|high) and reasoning.';
+
+// ────────────────────────────────────────────────────────────────
+// Labelling
+// ────────────────────────────────────────────────────────────────
+
+const RISK_PATTERNS: Array<{ flag: string; threshold: number; patterns: RegExp[] }> = [
+  {
+    flag: 'modifies-existing-runtime',
+    threshold: 3,
+    patterns: [/\b(fix|update|modify|change|patch|refactor)\b/i, /\b(existing|current|legacy)\b/i, /\bquery\b.*\b(prisma|sql)\b/i],
+  },
+  {
+    flag: 'schema-migration',
+    threshold: 2,
+    patterns: [/\bprisma\b/i, /\bmigration\b/i, /\bbackward.?compat/i, /\bschema\b.*\b(change|update|add)\b/i],
+  },
+  { flag: 'large-scope-refactor', threshold: 2, patterns: [/\bmodulariz/i, /\brestructur/i, /\brefactor\b/i] },
+  {
+    flag: 'cross-service',
+    threshold: 2,
+    patterns: [/\bcross[- ]?repo\b/i, /\bmulti[- ]?service\b/i, /\bauth[- ]?service\b.*\bsite\b/i],
+  },
+  { flag: 'rsc-serialization', threshold: 1, patterns: [/\bserver.?component/i, /\bRSC\b/, /\bserialization\b/i] },
+  { flag: 'test-infrastructure', threshold: 2, patterns: [/\bfix.*test/i, /\bpytest\b/i, /\bCI\b.*\b(fix|broken|fail)/] },
+];
+
+/** Risk flags from keyword patterns, with per-flag thresholds so flags stay discriminative. */
+export function detectRiskFlags(prompt: string): string[] {
+  return RISK_PATTERNS
+    .filter(({ patterns, threshold }) => patterns.filter((p) => p.test(prompt)).length >= threshold)
+    .map(({ flag }) => flag);
+}
+
+export function costBand(cost: number | undefined): 'low' | 'medium' | 'high' {
+  if (cost === undefined) return 'medium';
+  if (cost < 10) return 'low';
+  return cost <= 25 ? 'medium' : 'high';
+}
+
+export interface LabelOptions {
+  /** Models the router may pick from */
+  models: string[];
+  /** Safe choice when the model that ran the task did poorly */
+  defaultModel: string;
+  agentMap: Record<string, string>;
+  defaultAgent: string;
+  /** Repo name for records without a source repo */
+  repoName: string;
+}
+
+export interface TrainingExample extends FewShotExample {
+  recordId: string;
+  timestamp: string;
+  stratum: string;
+  /** Distance of the score from the success threshold; larger is more clear-cut */
+  margin: number;
+}
+
+function reasoningFor(model: string, agent: string, riskFlags: string[], score: number): string {
+  if (riskFlags.length > 0) return `Risk flags [${riskFlags.join(', ')}] suggest using ${agent} (${model}).`;
+  if (score >= 0.95) return `High-confidence routing to ${agent} (${model}) based on historical success.`;
+  return `Default routing to ${agent} (${model}).`;
+}
+
+/**
+ * The routing decision that would have been right for a record: keep the
+ * model when it succeeded with at most one intervention, otherwise fall back
+ * to the default model.
+ */
+export function labelRecord(record: EvalRecord, options: LabelOptions): TrainingExample {
+  const prompt = record.originalPrompt;
+  const succeeded = record.score >= SUCCESS_THRESHOLD && record.interventionCount <= 1 && options.models.includes(record.modelId);
+  const model = succeeded ? record.modelId : options.defaultModel;
+  const agent = resolveAgent(model, options.agentMap, options.defaultAgent);
+  const riskFlags = detectRiskFlags(prompt);
+
+  return {
+    task_prompt: prompt.slice(0, MAX_PROMPT_LENGTH),
+    repo_name: (record as EvalRecord & { sourceRepo?: string }).sourceRepo ?? options.repoName,
+    task_type_hint: classifyTaskType(prompt),
+    available_models: options.models.join(','),
+    recommended_model: model,
+    recommended_agent: agent,
+    confidence: record.score >= 0.95 && record.interventionCount === 0 ? 'high' : record.score >= 0.8 ? 'medium' : 'low',
+    risk_flags: riskFlags,
+    cost_estimate: costBand(record.workflowCost),
+    reasoning: reasoningFor(model, agent, riskFlags, record.score),
+    recordId: record.id,
+    timestamp: record.timestamp,
+    stratum: record.stratum ?? 'unknown',
+    margin: Math.abs(record.score - SUCCESS_THRESHOLD),
+  };
+}
+
+/** Label every record that has a task prompt, oldest first. */
+export function buildTrainingExamples(records: EvalRecord[], options: LabelOptions): TrainingExample[] {
+  return records
+    .filter((r) => r.originalPrompt?.trim())
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+    .map((r) => labelRecord(r, options));
+}
+
+// ────────────────────────────────────────────────────────────────
+// Splitting and Few-Shot Selection
+// ────────────────────────────────────────────────────────────────
+
+/** Hold out the most recent examples, so the check resembles routing new work. */
+export function splitExamples(
+  examples: TrainingExample[],
+  holdoutFraction: number,
+): { train: TrainingExample[]; holdout: TrainingExample[] } {
+  const sorted = [...examples].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  const holdoutSize = Math.max(1, Math.round(sorted.length * holdoutFraction));
+  return { train: sorted.slice(0, -holdoutSize), holdout: sorted.slice(-holdoutSize) };
+}
+
+/**
+ * Pick demonstrations round-robin across strata (largest stratum first), taking
+ * the most clear-cut example left in each, so the prompt covers as many strata
+ * as it can.
+ */
+export function selectFewShot(train: TrainingExample[], count: number): TrainingExample[] {
+  const byStratum = new Map<string, TrainingExample[]>();
+  for (const example of train) {
+    const list = byStratum.get(example.stratum) ?? [];
+    list.push(example);
+    byStratum.set(example.stratum, list);
+  }
+  const queues = [...byStratum.values()]
+    .map((list) => [...list].sort((a, b) => b.margin - a.margin || b.timestamp.localeCompare(a.timestamp)))
+    .sort((a, b) => b.length - a.length);
+
+  const selected: TrainingExample[] = [];
+  while (selected.length < count && queues.some((q) => q.length > 0)) {
+    for (const queue of queues) {
+      if (selected.length >= count) break;
+      const next = queue.shift();
+      if (next) selected.push(next);
+    }
+  }
+  return selected;
+}
+
+// ────────────────────────────────────────────────────────────────
+// Artifact
+// ────────────────────────────────────────────────────────────────
+
+export interface CandidateArtifactOptions {
+  runtimeModel: string;
+  models: string[];
+  trainCount: number;
+  holdoutCount: number;
+  dataHash: string;
+  now?: Date;
+}
+
+/** Strip the training bookkeeping so demonstrations match the artifact format. */
+function fewShotExample(example: TrainingExample): FewShotExample {
+  const { recordId: _id, timestamp: _ts, stratum: _stratum, margin: _margin, ...fewShot } = example;
+  return fewShot;
+}
+
+export function buildCandidateArtifact(
+  current: SelectorArtifact | null,
+  fewShot: TrainingExample[],
+  options: CandidateArtifactOptions,
+): SelectorArtifact {
+  return {
+    version: current?.version ?? '1.0.0',
+    created_at: (options.now ?? new Date()).toISOString(),
+    optimizer: 'wavemill-router-train',
+    teacher_model: 'none',
+    runtime_model: options.runtimeModel,
+    system_prompt: current?.system_prompt ?? DEFAULT_SYSTEM_PROMPT,
+    few_shot_examples: fewShot.map(fewShotExample),
+    model_candidates: options.models,
+    metadata: {
+      training_records: options.trainCount,
+      validation_records: options.holdoutCount,
+      data_source: 'eval-store',
+      data_hash: options.dataHash,
+      strata: [...new Set(fewShot.map((e) => e.stratum))],
+    },
+  };
+}
+
+/** Short hash of the labelled examples, recorded for provenance. */
+export function examplesHash(examples: TrainingExample[]): string {
+  const hash = createHash('sha256');
+  for (const e of examples) hash.update(`${e.recordId}|${e.recommended_model}\n`);
+  return `sha256:${hash.digest('hex').slice(0, 16)}`;
+}
+
+// ────────────────────────────────────────────────────────────────
+// Evaluation
+// ────────────────────────────────────────────────────────────────
+
+export type RoutingPredictor = (example: TrainingExample) => LLMRoutingResponse | null;
+
+/**
+ * Same weighting as the DSPy metric: model choice 50%, risk flag recall 30%,
+ * cost band 20%. A failed prediction scores 0.
+ */
+export function routingScore(expected: FewShotExample, predicted: LLMRoutingResponse | null): number {
+  if (!predicted) return 0;
+  const modelCorrect = predicted.recommended_model === expected.recommended_model ? 1 : 0;
+  const trueFlags = new Set(expected.risk_flags);
+  const predictedFlags = new Set(predicted.risk_flags);
+  const riskRecall = trueFlags.size > 0
+    ? [...trueFlags].filter((f) => predictedFlags.has(f)).length / trueFlags.size
+    : predictedFlags.size === 0 ? 1 : 0.5;
+  const costCorrect = predicted.cost_estimate === expected.cost_estimate ? 1 : 0;
+  return 0.5 * modelCorrect + 0.3 * riskRecall + 0.2 * costCorrect;
+}
+
+export interface PredictorScore {
+  /** Mean routing score over the held-out examples (0–1) */
+  score: number;
+  /** Share of examples where the model matched the label */
+  modelAccuracy: number;
+  /** Predictions that failed (no response or unparseable) */
+  failures: number;
+  n: number;
+}
+
+export function evaluatePredictor(holdout: TrainingExample[], predict: RoutingPredictor): PredictorScore {
+  let total = 0;
+  let correct = 0;
+  let failures = 0;
+  for (const example of holdout) {
+    const predicted = predict(example);
+    if (!predicted) failures++;
+    total += routingScore(example, predicted);
+    if (predicted?.recommended_model === example.recommended_model) correct++;
+  }
+  const n = holdout.length;
+  return { score: n > 0 ? total / n : 0, modelAccuracy: n > 0 ? correct / n : 0, failures, n };
+}
+
+/**
+ * The heuristic router as a predictor: the best historical average for the
+ * task type over the training records, the keyword risk flags of the prompt,
+ * and the cost band of the task type's median training cost.
+ */
+export function heuristicPredictor(trainRecords: EvalRecord[], options: LabelOptions): RoutingPredictor {
+  const bestByType = new Map<string, string>();
+  const costByType = new Map<string, ReturnType<typeof costBand>>();
+  return (example) => {
+    const taskType = example.task_type_hint as TaskType;
+    if (!bestByType.has(taskType)) {
+      const best = aggregateEvalHistory(trainRecords, taskType).find((s) => options.models.includes(s.modelId));
+      bestByType.set(taskType, best?.modelId ?? options.defaultModel);
+      const costs = trainRecords
+        .filter((r) => r.workflowCost !== undefined && r.originalPrompt && classifyTaskType(r.originalPrompt) === taskType)
+        .map((r) => r.workflowCost!)
+        .sort((a, b) => a - b);
+      costByType.set(taskType, costBand(costs.length > 0 ? costs[Math.floor(costs.length / 2)] : undefined));
+    }
+    const model = bestByType.get(taskType)!;
+    return {
+      recommended_model: model,
+      recommended_agent: resolveAgent(model, options.agentMap, options.defaultAgent),
+      confidence: 'medium',
+      risk_flags: detectRiskFlags(example.task_prompt),
+      cost_estimate: costByType.get(taskType)!,
+      reasoning: 'Heuristic: best historical average for the task type.',
+    };
+  };
+}
+
+/** An artifact as a predictor, calling the router LLM once per example. */
+export function artifactPredictor(artifact: SelectorArtifact, callFn: CallFn, runtimeModel: string): RoutingPredictor {
+  return (example) => {
+    const prompt = buildRoutingPrompt(
+      artifact,
+      example.task_prompt,
+      example.repo_name,
+      example.task_type_hint as TaskType,
+      example.available_models.split(','),
+    );
+    try {
+      return parseRoutingResponse(callFn(prompt, runtimeModel));
+    } catch {
+      return null;
+    }
+  };
+}
+
+// ────────────────────────────────────────────────────────────────
+// Training
+// ────────────────────────────────────────────────────────────────
+
+export interface TrainRouterOptions extends LabelOptions {
+  /** Artifact currently in use (its system prompt is kept) */
+  current: SelectorArtifact | null;
+  /** Model the router LLM runs on */
+  runtimeModel: string;
+  callFn: CallFn;
+  /** Share of the most recent examples held out (default: 0.2) */
+  holdoutFraction?: number;
+  /** Number of few-shot demonstrations (default: 4) */
+  fewShotCount?: number;
+  /** Progress callback */
+  log?: (message: string) => void;
+  now?: Date;
+}
+
+export interface TrainingResult {
+  candidate: SelectorArtifact;
+  examples: number;
+  train: number;
+  holdout: number;
+  fewShot: Array<{ recordId: string; stratum: string; recommendedModel: string; margin: number }>;
+  scores: {
+    candidate: PredictorScore;
+    heuristic: PredictorScore;
+    current?: PredictorScore;
+  };
+  /** Whether the candidate should replace the current artifact */
+  wins: boolean;
+  verdict: string;
+}
+
+export function trainRouter(records: EvalRecord[], options: TrainRouterOptions): TrainingResult {
+  const log = options.log ?? (() => {});
+  const examples = buildTrainingExamples(records, options);
+  if (examples.length < MIN_TRAINING_EXAMPLES) {
+    throw new Error(`Need at least ${MIN_TRAINING_EXAMPLES} eval records with a task prompt to train on (found ${examples.length})`);
+  }
+
+  const { train, holdout } = splitExamples(examples, options.holdoutFraction ?? 0.2);
+  const fewShot = selectFewShot(train, options.fewShotCount ?? 4);
+  const candidate = buildCandidateArtifact(options.current, fewShot, {
+    runtimeModel: options.runtimeModel,
+    models: options.models,
+    trainCount: train.length,
+    holdoutCount: holdout.length,
+    dataHash: examplesHash(examples),
+    now: options.now,
+  });
+
+  const trainIds = new Set(train.map((e) => e.recordId));
+  const trainRecords = records.filter((r) => trainIds.has(r.id));
+
+  log(`Scoring the heuristic router on ${holdout.length} held-out example(s)...`);
+  const heuristic = evaluatePredictor(holdout, heuristicPredictor(trainRecords, options));
+  log('Scoring the candidate artifact...');
+  const candidateScore = evaluatePredictor(holdout, artifactPredictor(candidate, options.callFn, options.runtimeModel));
+  let current: PredictorScore | undefined;
+  if (options.current) {
+    log('Scoring the current artifact...');
+    current = evaluatePredictor(holdout, artifactPredictor(options.current, options.callFn, options.runtimeModel));
+  }
+
+  const fmt = (s: PredictorScore) => s.score.toFixed(3);
+  let wins = false;
+  let verdict: string;
+  if (candidateScore.score <= heuristic.score) {
+    verdict = `Candidate (${fmt(candidateScore)}) does not beat the heuristic router (${fmt(heuristic)}); keeping the current artifact.`;
+  } else if (current && candidateScore.score < current.score) {
+    verdict = `Candidate (${fmt(candidateScore)}) scores below the current artifact (${fmt(current)}); keeping the current artifact.`;
+  } else {
+    wins = true;
+    verdict = `Candidate (${fmt(candidateScore)}) beats the heuristic router (${fmt(heuristic)})` +
+      (current ? ` and matches or beats the current artifact (${fmt(current)})` : '') + '.';
+  }
+
+  return {
+    candidate,
+    examples: examples.length,
+    train: train.length,
+    holdout: holdout.length,
+    fewShot: fewShot.map((e) => ({ recordId: e.recordId, stratum: e.stratum, recommendedModel: e.recommended_model, margin: e.margin })),
+    scores: { candidate: candidateScore, heuristic, ...(current ? { current } : {}) },
+    wins,
+    verdict,
+  };
+}
+
+export function formatTrainingResult(result: TrainingResult): string[] {
+  const row = (label: string, s: PredictorScore) =>
+    `  ${label.padEnd(12)} ${s.score.toFixed(3)}  model accuracy ${(s.modelAccuracy * 100).toFixed(0)}%` +
+    (s.failures > 0 ? `  (${s.failures} failed)` : '');
+  return [
+    `${result.examples} labelled example(s): ${result.train} train, ${result.holdout} held out`,
+    `Few-shot examples (${result.fewShot.length}):`,
+    ...result.fewShot.map((e) => `  ${e.recordId}  ${e.stratum}  → ${e.recommendedModel}  margin ${e.margin.toFixed(2)}`),
+    'Held-out scores:',
+    row('heuristic', result.scores.heuristic),
+    ...(result.scores.current ? [row('current', result.scores.current)] : []),
+    row('candidate', result.scores.candidate),
+    result.verdict,
+  ];
+}
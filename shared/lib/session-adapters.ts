@@ -22,6 +22,8 @@ import { resolveProjectsDir } from './workflow-cost.ts';
 /** Supported agent identifiers. */
 export type AgentType = 'claude' | 'codex';
 
+export const AGENT_TYPES: AgentType[] = ['claude', 'codex'];
+
 /** Per-model aggregated token usage (without cost — cost is computed later). */
 export interface SessionModelUsage {
   inputTokens: number;
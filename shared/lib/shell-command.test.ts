@@ -0,0 +1,72 @@
+/**
+ * Tests for shell-command module
+ */
+
+import { strict as assert } from 'node:assert';
+import { test } from 'node:test';
+import { parseShellCommand, unquoteWord } from './shell-command.ts';
+
+const texts = (source: string) => parseShellCommand(source).commands.map((c) => c.text);
+
+test('parseShellCommand - splits pipelines and lists', () => {
+  const parsed = parseShellCommand('git log --oneline | head -5 && ls; pwd & whoami');
+  assert.deepEqual(parsed.commands.map((c) => c.text), ['git log --oneline', 'head -5', 'ls', 'pwd', 'whoami']);
+  assert.deepEqual(parsed.operators, ['|', '&&', ';', '&']);
+  assert.deepEqual(texts('ls\npwd'), ['ls', 'pwd']);
+  assert.deepEqual(parseShellCommand('sleep 1 &').operators, ['&']);
+});
+
+test('parseShellCommand - operators inside quotes and escapes are literal', () => {
+  assert.deepEqual(texts('grep "a|b; c" file.txt'), ['grep "a|b; c" file.txt']);
+  assert.deepEqual(texts("echo 'x && y' \\; z"), ["echo 'x && y' \\; z"]);
+  assert.deepEqual(texts('ls # ; rm -rf x'), ['ls']);
+});
+
+test('parseShellCommand - separates redirects from words', () => {
+  const [command] = parseShellCommand('cat a.txt 2>&1 >out.txt < in.txt 2>/dev/null').commands;
+  assert.equal(command.text, 'cat a.txt');
+  assert.deepEqual(command.redirects, [
+    { op: '>&', fd: 2, target: '1' },
+    { op: '>', fd: 1, target: 'out.txt' },
+    { op: '<', fd: 0, target: 'in.txt' },
+    { op: '>', fd: 2, target: '/dev/null' },
+  ]);
+  assert.deepEqual(parseShellCommand('ls &>> log').commands[0].redirects, [{ op: '&>>', fd: 1, target: 'log' }]);
+});
+
+test('parseShellCommand - escapes inside ANSI-C quotes', () => {
+  assert.deepEqual(texts("echo $'a\\'; b' ; ls"), ["echo $'a\\'; b'", 'ls']);
+  assert.deepEqual(parseShellCommand("echo $(printf $'\\')')").commands[0].substitutions, ["printf $'\\')'"]);
+  assert.throws(() => parseShellCommand("echo $'a\\'"), /unterminated \$'\.\.\.' quote/);
+});
+
+test('unquoteWord - removes quoting like the shell', () => {
+  assert.equal(unquoteWord("'rm'"), 'rm');
+  assert.equal(unquoteWord('"a \\"b\\" $x"'), 'a "b" $x');
+  assert.equal(unquoteWord('r\\m'), 'rm');
+  assert.equal(unquoteWord("$'\\x72\\155\\t'"), 'rm\t');
+  assert.equal(unquoteWord("x$(echo 'a')"), "x$(echo 'a')");
+});
+
+test('parseShellCommand - collects command substitutions', () => {
+  const [command] = parseShellCommand('cat $(git ls-files | head -1) "`pwd`/x" <(ls "$(whoami)")').commands;
+  assert.deepEqual(command.substitutions, ['git ls-files | head -1', 'pwd', 'ls "$(whoami)"']);
+  assert.deepEqual(parseShellCommand("echo '$(not run)'").commands[0].substitutions, []);
+});
+
+test('parseShellCommand - separates leading assignments', () => {
+  const [command] = parseShellCommand('GIT_PAGER=cat FOO+=1 git log A=B').commands;
+  assert.deepEqual(command.assignments, ['GIT_PAGER=cat', 'FOO+=1']);
+  assert.equal(command.text, 'git log A=B');
+});
+
+test('parseShellCommand - rejects malformed and unsupported input', () => {
+  assert.throws(() => parseShellCommand('echo "oops'), /unterminated double quote/);
+  assert.throws(() => parseShellCommand('echo $(ls'), /unterminated command substitution/);
+  assert.throws(() => parseShellCommand('ls |'), /command expected after `\|`/);
+  assert.throws(() => parseShellCommand('&& ls'), /syntax error near `&&`/);
+  assert.throws(() => parseShellCommand('(cd x; ls)'), /subshells/);
+  assert.throws(() => parseShellCommand('cat <<EOF'), /here-documents/);
+  assert.throws(() => parseShellCommand('echo ${x:-$(rm y)}'), /inside \$\{\.\.\.\}/);
+  assert.throws(() => parseShellCommand('ls >'), /missing target/);
+});
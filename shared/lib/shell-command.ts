@@ -0,0 +1,399 @@
+/**
+ * Shell Command Parser - Split a shell command line into simple commands.
+ *
+ * Auto-approval has to reason about what a command line actually runs, not
+ * about the raw string: `cat README.md > out.txt` writes a file and
+ * `ls; rm -rf x` runs two commands. This module tokenizes a POSIX-style
+ * command line (quotes, escapes, comments) and returns the simple commands
+ * it contains, together with:
+ *
+ * - the operators joining them (`|`, `&&`, `||`, `;`, `&`)
+ * - each command's redirects (`>`, `>>`, `2>&1`, `<`, ...)
+ * - the source of every command substitution (`$(...)`, backticks,
+ *   `<(...)`), so callers can evaluate the inner commands recursively
+ *
+ * It is deliberately conservative: constructs it doesn't model (subshells,
+ * here-documents, substitutions inside `${...}`) are parse errors rather
+ * than guesses.
+ *
+ * @module shell-command
+ */
+
+// ────────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────────
+
+export type ShellOperator = '|' | '|&' | '&&' | '||' | ';' | '&';
+
+export interface ShellRedirect {
+  /** Redirect operator without the fd, e.g. `>`, `>>`, `>&`, `<`, `&>` */
+  op: string;
+  /** File descriptor being redirected (`&>` applies to 1 and 2; reported as 1) */
+  fd: number;
+  /** Target word as written (a path, `/dev/null`, or an fd for `>&`/`<&`) */
+  target: string;
+}
+
+export interface SimpleCommand {
+  /** Command name and arguments as written (quotes kept) */
+  words: string[];
+  /** Leading `NAME=value` assignments */
+  assignments: string[];
+  redirects: ShellRedirect[];
+  /** Inner source of each command substitution anywhere in the command */
+  substitutions: string[];
+  /** Words joined with single spaces — what permission patterns match */
+  text: string;
+}
+
+export interface ParsedShell {
+  commands: SimpleCommand[];
+  /**
+   * `operators[i]` follows `commands[i]`; a trailing `;` or `&` gives one
+   * more operator than there are gaps between commands.
+   */
+  operators: ShellOperator[];
+}
+
+type Token =
+  | { type: 'word'; raw: string; substitutions: string[] }
+  | { type: 'op'; op: ShellOperator }
+  | { type: 'redirect'; op: string; fd: number; target: string; substitutions: string[] };
+
+// ────────────────────────────────────────────────────────────────
+// Constants
+// ────────────────────────────────────────────────────────────────
+
+/** Characters that end an unquoted word */
+const METACHARS = new Set([' ', '\t', '\n', ';', '&', '|', '<', '>', '(', ')']);
+
+/** Redirect operators, longest first so `>>` wins over `>` */
+const REDIRECT_OPS = ['&>>', '&>', '<<<', '<<-', '<<', '>>', '>|', '>&', '<&', '<>', '>', '<'];
+
+const ASSIGNMENT = /^[A-Za-z_][A-Za-z0-9_]*(\+)?=/;
+
+/** Single-character escapes inside `$'...'` */
+const ANSI_C_ESCAPES: Record<string, string> = {
+  a: '\x07', b: '\b', e: '\x1b', E: '\x1b', f: '\f', n: '\n', r: '\r', t: '\t', v: '\v',
+};
+
+// ────────────────────────────────────────────────────────────────
+// Tokenizer
+// ────────────────────────────────────────────────────────────────
+
+/** Skip a quoted string starting at `src[i]`; returns the index after it. */
+function skipQuoted(src: string, i: number, substitutions: string[] | null): number {
+  const quote = src[i];
+  let j = i + 1;
+  while (j < src.length && src[j] !== quote) {
+    if (quote === '"') {
+      if (src[j] === '\\') {
+        j += 2;
+        continue;
+      }
+      if (src.startsWith('$(', j) || src[j] === '`') {
+        const sub = src[j] === '`' ? readBacktick(src, j) : readDollarParen(src, j);
+        substitutions?.push(sub.inner);
+        j = sub.end;
+        continue;
+      }
+      if (src.startsWith('${', j)) {
+        j = readBraceParam(src, j);
+        continue;
+      }
+    }
+    j++;
+  }
+  if (j >= src.length) {
+    throw new Error(`unterminated ${quote === '"' ? 'double' : 'single'} quote`);
+  }
+  return j + 1;
+}
+
+/**
+ * Skip ANSI-C quoting (`$'...'`) starting at `src[i]`. Unlike plain single
+ * quotes, a backslash escapes the next character, so `$'a\''` is one word.
+ */
+function skipAnsiC(src: string, i: number): number {
+  let j = i + 2;
+  while (j < src.length && src[j] !== "'") {
+    j += src[j] === '\\' ? 2 : 1;
+  }
+  if (j >= src.length) throw new Error("unterminated $'...' quote");
+  return j + 1;
+}
+
+/** Read `$(...)` (or `<(...)`/`>(...)`) starting at `src[i]`. */
+function readDollarParen(src: string, i: number): { inner: string; end: number } {
+  const open = i + 2;
+  let depth = 1;
+  let j = open;
+  while (j < src.length) {
+    const c = src[j];
+    if (c === '\\') {
+      j += 2;
+      continue;
+    }
+    if (src.startsWith("$'", j)) {
+      j = skipAnsiC(src, j);
+      continue;
+    }
+    if (c === "'" || c === '"') {
+      j = skipQuoted(src, j, null);
+      continue;
+    }
+    if (c === '`') {
+      j = readBacktick(src, j).end;
+      continue;
+    }
+    if (c === '(') depth++;
+    if (c === ')' && --depth === 0) {
+      return { inner: src.slice(open, j), end: j + 1 };
+    }
+    j++;
+  }
+  throw new Error('unterminated command substitution');
+}
+
+/** Read a backtick substitution starting at `src[i]`. */
+function readBacktick(src: string, i: number): { inner: string; end: number } {
+  let inner = '';
+  let j = i + 1;
+  while (j < src.length && src[j] !== '`') {
+    if (src[j] === '\\' && j + 1 < src.length) {
+      inner += src[j + 1] === '`' || src[j + 1] === '\\' || src[j + 1] === '$' ? src[j + 1] : src.slice(j, j + 2);
+      j += 2;
+      continue;
+    }
+    inner += src[j];
+    j++;
+  }
+  if (j >= src.length) throw new Error('unterminated backtick substitution');
+  return { inner, end: j + 1 };
+}
+
+/** Skip `${...}`; substitutions inside are not modelled. */
+function readBraceParam(src: string, i: number): number {
+  const close = src.indexOf('}', i + 2);
+  if (close === -1) throw new Error('unterminated ${...} expansion');
+  const body = src.slice(i + 2, close);
+  if (body.includes('$(') || body.includes('`')) {
+    throw new Error('command substitution inside ${...} is not supported');
+  }
+  return close + 1;
+}
+
+/** Read one word starting at `src[i]`. */
+function readWord(src: string, i: number): { raw: string; substitutions: string[]; end: number } {
+  const substitutions: string[] = [];
+  let j = i;
+  while (j < src.length && !METACHARS.has(src[j])) {
+    const c = src[j];
+    if (c === '\\') {
+      j = Math.min(j + 2, src.length);
+    } else if (src.startsWith("$'", j)) {
+      j = skipAnsiC(src, j);
+    } else if (c === "'" || c === '"') {
+      j = skipQuoted(src, j, substitutions);
+    } else if (src.startsWith('$(', j) || c === '`') {
+      const sub = c === '`' ? readBacktick(src, j) : readDollarParen(src, j);
+      substitutions.push(sub.inner);
+      j = sub.end;
+    } else if (src.startsWith('${', j)) {
+      j = readBraceParam(src, j);
+    } else {
+      j++;
+    }
+  }
+  return { raw: src.slice(i, j), substitutions, end: j };
+}
+
+function tokenize(src: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < src.length) {
+    const c = src[i];
+
+    if (c === ' ' || c === '\t' || (c === '\\' && src[i + 1] === '\n')) {
+      i += c === '\\' ? 2 : 1;
+      continue;
+    }
+    if (c === '#') {
+      while (i < src.length && src[i] !== '\n') i++;
+      continue;
+    }
+    if (c === '\n') {
+      tokens.push({ type: 'op', op: ';' });
+      i++;
+      continue;
+    }
+    if (c === '(' || c === ')') {
+      throw new Error('subshells and grouped commands are not supported');
+    }
+    if ((c === '<' || c === '>') && src[i + 1] === '(') {
+      const sub = readDollarParen(src, i);
+      tokens.push({ type: 'word', raw: src.slice(i, sub.end), substitutions: [sub.inner] });
+      i = sub.end;
+      continue;
+    }
+
+    const redirectOp = REDIRECT_OPS.find((op) => src.startsWith(op, i));
+    if (redirectOp) {
+      i = readRedirect(src, i, redirectOp, null, tokens);
+      continue;
+    }
+
+    if (c === ';') {
+      if (src[i + 1] === ';') throw new Error('case statements are not supported');
+      tokens.push({ type: 'op', op: ';' });
+      i++;
+      continue;
+    }
+    if (c === '&' || c === '|') {
+      const two = src.slice(i, i + 2);
+      const op: ShellOperator = two === '&&' || two === '||' || two === '|&' ? two : c;
+      tokens.push({ type: 'op', op });
+      i += op.length;
+      continue;
+    }
+
+    const word = readWord(src, i);
+    i = word.end;
+
+    // `2>file`, `2>&1`: a bare number directly before a redirect is its fd
+    if (/^\d+$/.test(word.raw) && (src[i] === '<' || src[i] === '>')) {
+      const op = REDIRECT_OPS.find((candidate) => src.startsWith(candidate, i) && !candidate.startsWith('&'))!;
+      i = readRedirect(src, i, op, Number(word.raw), tokens);
+      continue;
+    }
+    tokens.push({ type: 'word', raw: word.raw, substitutions: word.substitutions });
+  }
+
+  return tokens;
+}
+
+function readRedirect(src: string, i: number, op: string, fd: number | null, tokens: Token[]): number {
+  if (op === '<<' || op === '<<-') throw new Error('here-documents are not supported');
+
+  let j = i + op.length;
+  while (src[j] === ' ' || src[j] === '\t') j++;
+  if (j >= src.length || METACHARS.has(src[j])) throw new Error(`missing target for redirect \`${op}\``);
+
+  const target = readWord(src, j);
+  const defaultFd = op.startsWith('<') ? 0 : 1;
+  tokens.push({ type: 'redirect', op, fd: fd ?? defaultFd, target: target.raw, substitutions: target.substitutions });
+  return target.end;
+}
+
+// ────────────────────────────────────────────────────────────────
+// Parser
+// ────────────────────────────────────────────────────────────────
+
+function emptyCommand(): SimpleCommand {
+  return { words: [], assignments: [], redirects: [], substitutions: [], text: '' };
+}
+
+function isEmpty(command: SimpleCommand): boolean {
+  return command.words.length === 0 && command.assignments.length === 0 && command.redirects.length === 0;
+}
+
+function decodeAnsiC(body: string): string {
+  return body.replace(/\\(x[0-9a-fA-F]{1,2}|[0-7]{1,3}|u[0-9a-fA-F]{1,4}|U[0-9a-fA-F]{1,8}|c.|.)/g, (_, esc: string) => {
+    if (esc.length > 1 && esc[0] === 'x') return String.fromCharCode(parseInt(esc.slice(1), 16));
+    if (/^[0-7]/.test(esc)) return String.fromCharCode(parseInt(esc, 8) & 0xff);
+    if (esc.length > 1 && (esc[0] === 'u' || esc[0] === 'U')) {
+      const code = parseInt(esc.slice(1), 16);
+      return code <= 0x10ffff ? String.fromCodePoint(code) : '';
+    }
+    if (esc.length > 1 && esc[0] === 'c') return String.fromCharCode(esc.charCodeAt(1) & 0x1f);
+    return ANSI_C_ESCAPES[esc] ?? esc;
+  });
+}
+
+/**
+ * Remove the quoting from a word the way the shell does before running it,
+ * so `'rm'`, `"rm"`, `r\m` and `$'\162m'` all become `rm`. Expansions and
+ * substitutions are kept as written.
+ */
+export function unquoteWord(raw: string): string {
+  let out = '';
+  let i = 0;
+  while (i < raw.length) {
+    const c = raw[i];
+    if (c === '\\') {
+      out += raw[i + 1] ?? '';
+      i += 2;
+    } else if (raw.startsWith("$'", i)) {
+      const end = skipAnsiC(raw, i);
+      out += decodeAnsiC(raw.slice(i + 2, end - 1));
+      i = end;
+    } else if (c === "'") {
+      const end = skipQuoted(raw, i, null);
+      out += raw.slice(i + 1, end - 1);
+      i = end;
+    } else if (c === '"') {
+      const end = skipQuoted(raw, i, null);
+      out += raw.slice(i + 1, end - 1).replace(/\\([$`"\\\n])/g, '$1');
+      i = end;
+    } else if (raw.startsWith('$(', i) || c === '`') {
+      const end = c === '`' ? readBacktick(raw, i).end : readDollarParen(raw, i).end;
+      out += raw.slice(i, end);
+      i = end;
+    } else if (raw.startsWith('${', i)) {
+      const end = readBraceParam(raw, i);
+      out += raw.slice(i, end);
+      i = end;
+    } else {
+      out += c;
+      i++;
+    }
+  }
+  return out;
+}
+
+/**
+ * Parse a command line into simple commands and the operators joining them.
+ *
+ * Throws an `Error` describing the problem for malformed input (unterminated
+ * quotes, dangling operators) and for unsupported constructs.
+ *
+ * @example
+ * ```typescript
+ * parseShellCommand('git log --oneline | head -5').commands.map((c) => c.text)
+ * // ['git log --oneline', 'head -5']
+ * ```
+ */
+export function parseShellCommand(source: string): ParsedShell {
+  const commands: SimpleCommand[] = [];
+  const operators: ShellOperator[] = [];
+  let current = emptyCommand();
+
+  for (const token of tokenize(source)) {
+    if (token.type === 'op') {
+      if (isEmpty(current)) throw new Error(`syntax error near \`${token.op}\``);
+      commands.push(current);
+      operators.push(token.op);
+      current = emptyCommand();
+    } else if (token.type === 'redirect') {
+      current.redirects.push({ op: token.op, fd: token.fd, target: token.target });
+      current.substitutions.push(...token.substitutions);
+    } else {
+      if (current.words.length === 0 && ASSIGNMENT.test(token.raw)) {
+        current.assignments.push(token.raw);
+      } else {
+        current.words.push(token.raw);
+      }
+      current.substitutions.push(...token.substitutions);
+    }
+  }
+
+  if (!isEmpty(current)) {
+    commands.push(current);
+  } else if (operators.length > 0 && !['&', ';'].includes(operators[operators.length - 1])) {
+    throw new Error(`command expected after \`${operators[operators.length - 1]}\``);
+  }
+
+  for (const command of commands) command.text = command.words.join(' ');
+  return { commands, operators };
+}
@@ -0,0 +1,163 @@
+/**
+ * Tests for the dependency-aware task scheduler.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { TrackerIssue } from './issue-tracker.ts';
+import type { Subsystem } from './subsystem-detector.ts';
+import {
+  scheduleTasks,
+  buildDependencyGraph,
+  conflictKeys,
+  priorityScore,
+  issueSlug,
+} from './task-scheduler.ts';
+
+function ref(identifier: string, closed = false) {
+  return { id: identifier, identifier, completedAt: closed ? '2026-01-01T00:00:00Z' : null, canceledAt: null };
+}
+
+function issue(identifier: string, overrides: Partial<TrackerIssue> & { blocks?: string[]; blockedBy?: string[] } = {}): TrackerIssue {
+  const { blocks = [], blockedBy = [], ...rest } = overrides;
+  return {
+    id: identifier,
+    identifier,
+    title: `Task ${identifier}`,
+    description: '',
+    state: { name: 'Backlog' },
+    labels: { nodes: [] },
+    relations: { nodes: blocks.map((id) => ({ type: 'blocks', relatedIssue: ref(id) })) },
+    inverseRelations: { nodes: blockedBy.map((id) => ({ type: 'blocks', issue: ref(id) })) },
+    ...rest,
+  };
+}
+
+const ids = (tasks: Array<{ identifier: string }>) => tasks.map((t) => t.identifier);
+
+describe('buildDependencyGraph', () => {
+  it('merges relations from both sides and ignores closed issues', () => {
+    const graph = buildDependencyGraph([
+      issue('A-1', { blocks: ['A-2'] }),
+      issue('A-2', { blockedBy: ['A-1'] }),
+      issue('A-3', { inverseRelations: { nodes: [{ type: 'blocks', issue: ref('A-9', true) }] } }),
+      issue('A-4', { blocks: ['A-5'], completedAt: '2026-01-01T00:00:00Z' }),
+    ]);
+
+    assert.deepEqual([...graph.keys()], ['A-1']);
+    assert.deepEqual([...graph.get('A-1')!], ['A-2']);
+  });
+});
+
+describe('scheduleTasks', () => {
+  it('launches only unblocked work, most downstream impact first', () => {
+    // A-1 → A-2 → A-3, and A-4 → A-5; A-6 is independent with a higher priority
+    const result = scheduleTasks([
+      issue('A-1', { blocks: ['A-2'] }),
+      issue('A-2', { blockedBy: ['A-1'], blocks: ['A-3'] }),
+      issue('A-3', { blockedBy: ['A-2'] }),
+      issue('A-4', { blocks: ['A-5'] }),
+      issue('A-5', { blockedBy: ['A-4'] }),
+      issue('A-6', { priority: 1 }),
+    ], { maxParallel: 2 });
+
+    assert.deepEqual(ids(result.selected), ['A-1', 'A-4']);
+    assert.deepEqual(result.selected[0].unblocks, ['A-2', 'A-3']);
+    assert.deepEqual(ids(result.ready), ['A-6']);
+    assert.deepEqual(
+      result.skipped.map((s) => [s.task.identifier, s.reason, s.detail]),
+      [
+        ['A-2', 'blocked', 'blocked by A-1'],
+        ['A-3', 'blocked', 'blocked by A-2'],
+        ['A-5', 'blocked', 'blocked by A-4'],
+        ['A-6', 'capacity', 'all 2 slot(s) taken'],
+      ],
+    );
+  });
+
+  it('holds back issues blocked by open work outside the backlog', () => {
+    const result = scheduleTasks([
+      issue('A-1', { blockedBy: ['A-100'] }),
+      issue('A-2', { inverseRelations: { nodes: [{ type: 'blocks', issue: ref('A-101', true) }] } }),
+    ]);
+    assert.deepEqual(ids(result.selected), ['A-2']);
+    assert.equal(result.skipped[0].detail, 'blocked by A-100');
+  });
+
+  it('reports dependency cycles instead of launching them', () => {
+    const result = scheduleTasks([
+      issue('A-1', { blocks: ['A-2'] }),
+      issue('A-2', { blocks: ['A-1'] }),
+      issue('A-3'),
+    ]);
+    assert.deepEqual(result.cycles, [['A-1', 'A-2']]);
+    assert.deepEqual(ids(result.selected), ['A-3']);
+    assert.deepEqual(result.skipped.map((s) => s.reason), ['cycle', 'cycle']);
+  });
+
+  it('avoids overlapping areas, subsystems and files, including running work', () => {
+    const subsystems: Subsystem[] = [{
+      id: 'router',
+      name: 'Router',
+      description: '',
+      keyFiles: ['shared/lib/model-router.ts'],
+      testPatterns: [],
+      dependencies: [],
+      confidence: 1,
+      detectionMethod: 'pattern',
+    }];
+
+    const result = scheduleTasks([
+      issue('A-1', { labels: { nodes: [{ name: 'Area: Billing' }] }, priority: 1 }),
+      issue('A-2', { labels: { nodes: [{ name: 'Area: Billing' }] } }),
+      issue('A-3', { description: 'Touch `shared/lib/model-router.ts`' }),
+      issue('A-4', { description: 'Edit `docs/index.md`', priority: 3 }),
+      issue('A-5', { description: 'Also edit `docs/index.md`' }),
+    ], {
+      maxParallel: 5,
+      subsystems,
+      running: [issue('A-50', { state: { name: 'In Progress' }, description: 'See `shared/lib/model-router.ts`' })],
+    });
+
+    assert.deepEqual(ids(result.selected), ['A-1', 'A-4']);
+    assert.deepEqual(
+      result.skipped.map((s) => [s.task.identifier, s.detail]),
+      [
+        ['A-2', 'overlaps A-1 on area:Area: Billing'],
+        ['A-3', 'overlaps A-50 on subsystem:router'],
+        ['A-5', 'overlaps A-4 on file:docs/index.md'],
+      ],
+    );
+  });
+
+  it('only schedules backlog and todo issues', () => {
+    const result = scheduleTasks([issue('A-1', { state: { name: 'In Progress' } }), issue('A-2', { state: { name: 'Todo' } })]);
+    assert.deepEqual(ids(result.selected), ['A-2']);
+  });
+});
+
+describe('conflictKeys', () => {
+  it('collects the area label and mentioned files', () => {
+    assert.deepEqual(
+      conflictKeys(issue('A-1', { labels: { nodes: [{ name: 'Page: Home' }, { name: 'bug' }] }, description: 'Fix `src/home.tsx`' })),
+      ['area:Page: Home', 'file:src/home.tsx'],
+    );
+  });
+});
+
+describe('priorityScore', () => {
+  it('matches the jq ranking in wavemill-common.sh', () => {
+    // 20 base + (5-2)*20 priority + 30 plan + 25 foundational + 10 blocks + 15 unblocked - 2*2 estimate
+    const scored = issue('A-1', {
+      priority: 2,
+      estimate: 2,
+      description: '## Objective\nDo it',
+      labels: { nodes: [{ name: 'Infrastructure' }] },
+      blocks: ['A-2'],
+    });
+    assert.equal(priorityScore(scored), 156);
+    // 20 base - 20 blocked - 3*2 default estimate
+    assert.equal(priorityScore(issue('A-2', { blockedBy: ['A-1'] })), -6);
+    assert.equal(issueSlug('Fix: the Login bug!'), 'fix-the-login-bug-');
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * Task Scheduler - Dependency-aware selection of backlog work for the mill.
+ *
+ * Builds a DAG from the tracker's "blocks" relations (the ones plan-decomposer
+ * creates via createIssueRelation), then picks up to `maxParallel` issues that:
+ *
+ * - have no open blockers (an issue is held back while anything that blocks
+ *   it is neither completed nor canceled, inside or outside the backlog)
+ * - don't overlap each other or already-running work, where overlap means a
+ *   shared area label, a shared subsystem (via subsystem-mapper) or a shared
+ *   file mentioned in the description
+ *
+ * Ready issues are ordered by how much downstream work they unblock
+ * (transitively), then by the same priority score the mill's jq ranking uses.
+ *
+ * @module task-scheduler
+ */
+
+import type { TrackerIssue, TrackerIssueRef } from './issue-tracker.ts';
+import type { Subsystem } from './subsystem-detector.ts';
+import { detectFilesInIssue, detectSubsystemsInIssue } from './subsystem-mapper.ts';
+
+// ────────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────────
+
+export interface ScheduleOptions {
+  /** Maximum number of issues to launch (default: 3) */
+  maxParallel?: number;
+  /** Issues already in progress; their areas/subsystems/files are reserved */
+  running?: TrackerIssue[];
+  /** Known subsystems for overlap detection (default: none) */
+  subsystems?: Subsystem[];
+}
+
+/** One backlog issue with its place in the dependency graph. */
+export interface ScheduledTask {
+  identifier: string;
+  slug: string;
+  title: string;
+  /** Priority score (mirrors score_and_rank_issues in wavemill-common.sh) */
+  score: number;
+  /** Open issues that must finish before this one can start */
+  blockedBy: string[];
+  /** Open issues that become closer to unblocked when this one finishes (transitive) */
+  unblocks: string[];
+  /** Overlap keys: `area:<label>`, `subsystem:<id>`, `file:<path>` */
+  conflictKeys: string[];
+  issue: TrackerIssue;
+}
+
+export interface SkippedTask {
+  task: ScheduledTask;
+  reason: 'blocked' | 'cycle' | 'conflict' | 'capacity';
+  /** Human-readable detail, e.g. the blockers or the conflicting issue */
+  detail: string;
+}
+
+export interface ScheduleResult {
+  /** Issues to launch now, in launch order */
+  selected: ScheduledTask[];
+  /** Unblocked issues not launched this round, in priority order */
+  ready: ScheduledTask[];
+  /** Everything not selected, with the reason */
+  skipped: SkippedTask[];
+  /** Dependency cycles found among backlog issues (each a list of identifiers) */
+  cycles: string[][];
+}
+
+// ────────────────────────────────────────────────────────────────
+// Constants
+// ────────────────────────────────────────────────────────────────
+
+const DEFAULT_MAX_PARALLEL = 3;
+const BACKLOG_STATES = ['backlog', 'todo'];
+const AREA_LABEL_PATTERN = /^(Area|Component|Page|Route):/;
+const DETAILED_PLAN_PATTERN = /##+ (1\.|Objective|What|Technical Context|Success Criteria|Implementation)/;
+const FOUNDATIONAL_PATTERN = /foundational|architecture|epic|infrastructure/;
+
+// ────────────────────────────────────────────────────────────────
+// Scoring
+// ────────────────────────────────────────────────────────────────
+
+function isOpen(ref: TrackerIssueRef): boolean {
+  return ref.completedAt == null && ref.canceledAt == null;
+}
+
+/** Branch slug, matching the jq `gsub("[^a-z0-9]+";"-")` the mill uses. */
+export function issueSlug(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+}
+
+/**
+ * Composite priority score for an issue (higher = sooner). Kept in step with
+ * score_and_rank_issues in wavemill-common.sh so the scheduler and the
+ * displayed ranking agree.
+ */
+export function priorityScore(issue: TrackerIssue): number {
+  const labels = (issue.labels?.nodes ?? []).map((l) => l.name.toLowerCase());
+  const blocksCount = (issue.relations?.nodes ?? [])
+    .filter((r) => r.type === 'blocks' && isOpen(r.relatedIssue)).length;
+  const blockedByCount = (issue.inverseRelations?.nodes ?? [])
+    .filter((r) => r.type === 'blocks' && isOpen(r.issue)).length;
+  const priority = issue.priority ?? 0;
+
+  return 20
+    + (priority > 0 ? (5 - priority) * 20 : 0)
+    + (DETAILED_PLAN_PATTERN.test(issue.description ?? '') ? 30 : 0)
+    + (labels.some((l) => FOUNDATIONAL_PATTERN.test(l)) ? 25 : 0)
+    + blocksCount * 10
+    + (blockedByCount === 0 ? 15 : 0)
+    - blockedByCount * 20
+    - (issue.estimate ?? 3) * 2;
+}
+
+// ────────────────────────────────────────────────────────────────
+// Graph
+// ────────────────────────────────────────────────────────────────
+
+/**
+ * Blocking edges between issues, as `blocker → [blocked]`. Both sides of a
+ * relation are read so a link is seen even when only one issue carries it.
+ * Closed issues contribute no edges.
+ */
+export function buildDependencyGraph(issues: TrackerIssue[]): Map<string, Set<string>> {
+  const graph = new Map<string, Set<string>>();
+  const addEdge = (from: string, to: string) => {
+    if (from === to) return;
+    if (!graph.has(from)) graph.set(from, new Set());
+    graph.get(from)!.add(to);
+  };
+
+  for (const issue of issues) {
+    const issueOpen = issue.completedAt == null && issue.canceledAt == null;
+    for (const rel of issue.relations?.nodes ?? []) {
+      if (issueOpen && rel.type === 'blocks' && isOpen(rel.relatedIssue)) addEdge(issue.identifier, rel.relatedIssue.identifier);
+    }
+    for (const rel of issue.inverseRelations?.nodes ?? []) {
+      if (rel.type === 'blocks' && isOpen(rel.issue)) addEdge(rel.issue.identifier, issue.identifier);
+    }
+  }
+  return graph;
+}
+
+/** Strongly connected components with more than one node (Tarjan). */
+function findCycles(graph: Map<string, Set<string>>): string[][] {
+  const index = new Map<string, number>();
+  const low = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+  let counter = 0;
+
+  const visit = (node: string) => {
+    index.set(node, counter);
+    low.set(node, counter);
+    counter++;
+    stack.push(node);
+    onStack.add(node);
+
+    for (const next of graph.get(node) ?? []) {
+      if (!index.has(next)) {
+        visit(next);
+        low.set(node, Math.min(low.get(node)!, low.get(next)!));
+      } else if (onStack.has(next)) {
+        low.set(node, Math.min(low.get(node)!, index.get(next)!));
+      }
+    }
+
+    if (low.get(node) === index.get(node)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== node);
+      if (component.length > 1) cycles.push(component.sort());
+    }
+  };
+
+  for (const node of graph.keys()) {
+    if (!index.has(node)) visit(node);
+  }
+  return cycles;
+}
+
+/** Every issue reachable from `start` along blocking edges. */
+function downstream(graph: Map<string, Set<string>>, start: string): string[] {
+  const seen = new Set<string>();
+  const queue = [...(graph.get(start) ?? [])];
+  while (queue.length > 0) {
+    const next = queue.shift()!;
+    if (next === start || seen.has(next)) continue;
+    seen.add(next);
+    queue.push(...(graph.get(next) ?? []));
+  }
+  return [...seen].sort();
+}
+
+/** Overlap keys for an issue: area label, referenced subsystems and files. */
+export function conflictKeys(issue: TrackerIssue, subsystems: Subsystem[] = []): string[] {
+  const keys = new Set<string>();
+  const description = issue.description ?? '';
+
+  const area = (issue.labels?.nodes ?? []).map((l) => l.name).find((name) => AREA_LABEL_PATTERN.test(name));
+  if (area) keys.add(`area:${area}`);
+  if (subsystems.length > 0) {
+    for (const subsystem of detectSubsystemsInIssue(description, subsystems)) keys.add(`subsystem:${subsystem.id}`);
+  }
+  for (const file of detectFilesInIssue(description)) keys.add(`file:${file}`);
+
+  return [...keys];
+}
+
+// ────────────────────────────────────────────────────────────────
+// Scheduling
+// ────────────────────────────────────────────────────────────────
+
+/**
+ * Decide which backlog issues to launch. Only backlog/todo issues are
+ * candidates; other states in `issues` still count as blockers.
+ */
+export function scheduleTasks(issues: TrackerIssue[], options: ScheduleOptions = {}): ScheduleResult {
+  const maxParallel = options.maxParallel ?? DEFAULT_MAX_PARALLEL;
+  const subsystems = options.subsystems ?? [];
+  const graph = buildDependencyGraph([...issues, ...(options.running ?? [])]);
+  const cycles = findCycles(graph);
+  const inCycle = new Map<string, string[]>();
+  for (const cycle of cycles) for (const id of cycle) inCycle.set(id, cycle);
+
+  const blockersOf = new Map<string, string[]>();
+  for (const [blocker, blocked] of graph) {
+    for (const id of blocked) {
+      if (!blockersOf.has(id)) blockersOf.set(id, []);
+      blockersOf.get(id)!.push(blocker);
+    }
+  }
+
+  const tasks: ScheduledTask[] = issues
+    .filter((issue) => BACKLOG_STATES.includes(issue.state.name.toLowerCase()))
+    .map((issue) => ({
+      identifier: issue.identifier,
+      slug: issueSlug(issue.title),
+      title: issue.title,
+      score: priorityScore(issue),
+      blockedBy: (blockersOf.get(issue.identifier) ?? []).sort(),
+      unblocks: downstream(graph, issue.identifier),
+      conflictKeys: conflictKeys(issue, subsystems),
+      issue,
+    }))
+    .sort((a, b) =>
+      b.unblocks.length - a.unblocks.length
+      || b.score - a.score
+      || a.identifier.localeCompare(b.identifier));
+
+  const skipped: SkippedTask[] = [];
+  const ready: ScheduledTask[] = [];
+  for (const task of tasks) {
+    const cycle = inCycle.get(task.identifier);
+    if (cycle) {
+      skipped.push({ task, reason: 'cycle', detail: `dependency cycle between ${cycle.join(', ')}` });
+    } else if (task.blockedBy.length > 0) {
+      skipped.push({ task, reason: 'blocked', detail: `blocked by ${task.blockedBy.join(', ')}` });
+    } else {
+      ready.push(task);
+    }
+  }
+
+  // Reserve what running work touches, then fill slots greedily
+  const claimed = new Map<string, string>();
+  for (const issue of options.running ?? []) {
+    for (const key of conflictKeys(issue, subsystems)) claimed.set(key, issue.identifier);
+  }
+
+  const selected: ScheduledTask[] = [];
+  const notSelected: ScheduledTask[] = [];
+  for (const task of ready) {
+    if (selected.length >= maxParallel) {
+      skipped.push({ task, reason: 'capacity', detail: `all ${maxParallel} slot(s) taken` });
+      notSelected.push(task);
+      continue;
+    }
+    const clash = task.conflictKeys.find((key) => claimed.has(key));
+    if (clash) {
+      skipped.push({ task, reason: 'conflict', detail: `overlaps ${claimed.get(clash)} on ${clash}` });
+      notSelected.push(task);
+      continue;
+    }
+    selected.push(task);
+    for (const key of task.conflictKeys) claimed.set(key, task.identifier);
+  }
+
+  return { selected, ready: notSelected, skipped, cycles };
+}
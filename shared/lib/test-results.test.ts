@@ -0,0 +1,241 @@
+/**
+ * Tests for test result parsing and ingestion.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync, utimesSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  detectTestFormat,
+  ingestTestResults,
+  parseJUnitXml,
+  parseLcov,
+  parseNodeSpec,
+  parseTap,
+  summarizeTestCases,
+  type TestCommandRunner,
+} from './test-results.ts';
+import { collectTestsOutcome } from './outcome-collectors.ts';
+
+const junit = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites>
+  <testsuite name="api &amp; routes" tests="4" time="1.5">
+    <testcase classname="api" name="lists users" time="0.5"/>
+    <testcase classname="api" name="creates a user" time="0.75">
+      <failure message="expected 201"><![CDATA[<testcase name="not a test"/>]]></failure>
+    </testcase>
+    <testcase classname="api" name="retries the cache" time="0.25" file="test/cache.test.ts">
+      <flakyFailure message="timeout"/>
+    </testcase>
+    <testcase classname="api" name="deletes a user"><skipped/></testcase>
+  </testsuite>
+</testsuites>`;
+
+// Output of node --test --test-reporter=tap, trimmed
+const tap = `TAP version 13
+# Subtest: suite A
+    # Subtest: passes
+    ok 1 - passes
+      ---
+      duration_ms: 1.5
+      location: '/work/test/a.test.mjs:3:5'
+      ...
+    # Subtest: fails
+    not ok 2 - fails
+      ---
+      duration_ms: 2.5
+      error: '1 == 2'
+      ...
+    ok 3 - skips # SKIP
+    # Subtest: inner
+        ok 1 - deep \\# hash
+          ---
+          duration_ms: 0.5
+          ...
+        1..1
+    ok 4 - inner
+      ---
+      duration_ms: 0.6
+      type: 'suite'
+      ...
+    1..4
+not ok 1 - suite A
+  ---
+  duration_ms: 8.3
+  type: 'suite'
+  ...
+ok 2 - top level
+ok 3 - todo one # TODO
+1..3
+`;
+
+// Output of node --test's spec reporter, trimmed
+const spec = `▶ suite A
+  ✔ passes (1.5ms)
+  ✖ fails (2.5ms)
+    AssertionError [ERR_ASSERTION]: 1 == 2
+
+  ﹣ skips (0.2ms) # SKIP
+  ▶ inner
+    ✔ deep # hash (0.5ms)
+  ✔ inner (0.6ms)
+✖ suite A (8.3ms)
+✔ top level (0.3ms)
+✔ todo one (0.2ms) # TODO
+ℹ tests 6
+ℹ pass 3
+
+✖ failing tests:
+
+✖ fails (2.5ms)
+`;
+
+describe('parsers', () => {
+  it('detects report formats', () => {
+    assert.equal(detectTestFormat(junit), 'junit');
+    assert.equal(detectTestFormat(tap), 'tap');
+    assert.equal(detectTestFormat(spec), 'node-spec');
+    assert.equal(detectTestFormat('> npm test\nall good'), null);
+  });
+
+  it('parses JUnit XML with flaky reruns', () => {
+    const cases = parseJUnitXml(junit);
+    assert.deepEqual(cases.map((c) => [c.suite, c.name, c.status, c.retries]), [
+      ['api & routes', 'lists users', 'passed', 0],
+      ['api & routes', 'creates a user', 'failed', 0],
+      ['api & routes', 'retries the cache', 'passed', 1],
+      ['api & routes', 'deletes a user', 'skipped', 0],
+    ]);
+    assert.equal(cases[1].durationSeconds, 0.75);
+    assert.equal(cases[2].file, 'test/cache.test.ts');
+    assert.equal(parseJUnitXml('<testsuite><testcase classname="src/a.test.js" name="x"/></testsuite>')[0].file, 'src/a.test.js');
+    assert.equal(parseJUnitXml('<testsuite><testcase classname="com.acme.ApiTest" name="x"/></testsuite>')[0].file, undefined);
+  });
+
+  it('parses node --test TAP and spec output to the same cases', () => {
+    const expected = [
+      ['suite A', 'passes', 'passed'],
+      ['suite A', 'fails', 'failed'],
+      ['suite A', 'skips', 'skipped'],
+      ['suite A', 'deep # hash', 'passed'],
+      ['a.test.mjs', 'top level', 'passed'],
+      ['a.test.mjs', 'todo one', 'skipped'],
+    ];
+    for (const cases of [parseTap(tap, 'a.test.mjs'), parseNodeSpec(spec, 'a.test.mjs')]) {
+      assert.deepEqual(cases.map((c) => [c.suite, c.name, c.status]), expected);
+      assert.equal(cases[1].durationSeconds, 0.0025);
+    }
+    assert.equal(parseTap(tap)[0].file, '/work/test/a.test.mjs');
+  });
+
+  it('sums lcov line coverage', () => {
+    const lcov = 'SF:a.ts\nDA:1,1\nDA:2,0\nLF:2\nLH:1\nend_of_record\nSF:b.ts\nDA:1,3\nDA:2,1\nend_of_record\n';
+    assert.deepEqual(parseLcov(lcov), { linesFound: 4, linesHit: 3, lineCoverage: 0.75 });
+    assert.equal(parseLcov(''), null);
+  });
+});
+
+describe('summarizeTestCases', () => {
+  it('counts per suite and treats repeated reports of a test as retries', () => {
+    const results = summarizeTestCases([
+      ...parseJUnitXml(junit),
+      { suite: 'db', name: 'connects', status: 'failed', retries: 0 },
+      { suite: 'db', name: 'connects', status: 'passed', retries: 0 },
+    ]);
+    assert.deepEqual(
+      results.suites.map((s) => [s.name, s.tests, s.passed, s.failed, s.skipped]),
+      [['api & routes', 4, 2, 1, 1], ['db', 1, 1, 0, 0]],
+    );
+    assert.deepEqual(
+      [results.total, results.passed, results.failed, results.skipped, results.flaky, results.retries],
+      [5, 3, 1, 1, 2, 2],
+    );
+    assert.deepEqual(results.flakyTests, [
+      { suite: 'api & routes', name: 'retries the cache', file: 'test/cache.test.ts' },
+      { suite: 'db', name: 'connects' },
+    ]);
+    assert.equal(results.durationSeconds, 1.5);
+  });
+});
+
+describe('ingestTestResults', () => {
+  it('runs the command, reads reports and compares coverage', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'test-results-'));
+    try {
+      mkdirSync(join(dir, 'reports', 'unit'), { recursive: true });
+      mkdirSync(join(dir, 'coverage'));
+      writeFileSync(join(dir, 'reports', 'unit', 'junit.xml'), junit);
+      writeFileSync(join(dir, 'reports', 'notes.txt'), 'not a report');
+      writeFileSync(join(dir, 'base.lcov'), 'SF:a.ts\nLF:10\nLH:6\nend_of_record\n');
+
+      const commands: string[] = [];
+      const run: TestCommandRunner = (command, cwd) => {
+        commands.push(`${command} @ ${cwd}`);
+        writeFileSync(join(dir, 'coverage', 'lcov.info'), 'SF:a.ts\nLF:10\nLH:8\nend_of_record\n');
+        return { stdout: tap, exitCode: 1, durationSeconds: 12 };
+      };
+      const ingestion = ingestTestResults(
+        dir,
+        { command: 'npm test', reports: ['reports/**/*.xml'], baselineLcov: 'base.lcov' },
+        run,
+      );
+
+      assert.deepEqual(commands, [`npm test @ ${dir}`]);
+      assert.equal(ingestion.exitCode, 1);
+      // Reports replace stdout when configured
+      assert.equal(ingestion.results?.total, 4);
+      assert.equal(ingestion.lineCoverage, 0.8);
+      assert.ok(Math.abs(ingestion.coverageDelta! - 0.2) < 1e-9);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('ignores an lcov file the test command did not rewrite', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'test-results-'));
+    try {
+      mkdirSync(join(dir, 'coverage'));
+      const lcov = join(dir, 'coverage', 'lcov.info');
+      writeFileSync(lcov, 'SF:a.ts\nLF:10\nLH:8\nend_of_record\n');
+      utimesSync(lcov, new Date('2026-01-01T00:00:00Z'), new Date('2026-01-01T00:00:00Z'));
+
+      const run: TestCommandRunner = () => ({ stdout: tap, exitCode: 1, durationSeconds: 1 });
+      assert.equal(ingestTestResults(dir, { command: 'npm test' }, run).lineCoverage, undefined);
+      // Without a command, the lcov on disk is all there is
+      assert.equal(ingestTestResults(dir, {}).lineCoverage, 0.8);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('feeds collectTestsOutcome when eval.tests is configured', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'test-results-'));
+    try {
+      execFileSync('git', ['init', '-q', '-b', 'feature'], { cwd: dir });
+      writeFileSync(join(dir, 'results.tap'), tap);
+      writeFileSync(join(dir, '.wavemill-config.json'), JSON.stringify({ eval: { tests: { reports: ['results.tap'] } } }));
+      const source = {
+        provider: 'fixture' as const,
+        remote: false,
+        checks: () => [],
+        checkHistory: () => [],
+        reviews: () => [],
+        changeRequest: () => null,
+      };
+
+      const outcome = collectTestsOutcome('1', 'feature', 'main', dir, source);
+      assert.equal(outcome.passRate, 3 / 4);
+      assert.deepEqual([outcome.total, outcome.passed, outcome.failed, outcome.skipped], [6, 3, 1, 2]);
+      assert.deepEqual(outcome.suites?.map((s) => s.name), ['suite A', 'results.tap']);
+
+      // Another branch is checked out: its tests say nothing about the PR
+      const other = collectTestsOutcome('1', 'other', 'main', dir, source);
+      assert.equal(other.total, undefined);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
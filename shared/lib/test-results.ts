@@ -0,0 +1,525 @@
+/**
+ * Test result ingestion for the tests outcome.
+ *
+ * Runs the repo's configured test command in the worktree and/or reads
+ * report artifacts, then parses them into per-suite pass/fail counts:
+ * - JUnit XML (including Surefire flaky/rerun elements)
+ * - TAP, including node --test's nested subtests
+ * - node --test's default spec reporter
+ *
+ * An lcov file, when present, adds line coverage and its delta against a
+ * baseline lcov.
+ *
+ * @module test-results
+ */
+
+import { spawnSync } from 'node:child_process';
+import { existsSync, readFileSync, readdirSync, statSync } from 'node:fs';
+import { basename, isAbsolute, join, relative, resolve } from 'node:path';
+import { matchesGlob } from './glob-utils.ts';
+
+/** Where the command's coverage report is read from unless configured. */
+export const DEFAULT_LCOV_PATH = 'coverage/lcov.info';
+const DEFAULT_TIMEOUT_SECONDS = 600;
+/** Suite name for tests that are not nested in a suite */
+const ROOT_SUITE = '(root)';
+
+// ────────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────────
+
+export type TestReportFormat = 'junit' | 'tap' | 'node-spec';
+
+export type TestStatus = 'passed' | 'failed' | 'skipped';
+
+export interface TestCaseResult {
+  suite: string;
+  name: string;
+  status: TestStatus;
+  durationSeconds?: number;
+  /** Extra attempts the runner made before the final status */
+  retries: number;
+  /** Test file, relative to the worktree once ingested */
+  file?: string;
+}
+
+export interface TestSuiteResult {
+  name: string;
+  tests: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  durationSeconds?: number;
+}
+
+export interface TestResults {
+  suites: TestSuiteResult[];
+  total: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  /** Tests that failed at least once and then passed on retry */
+  flaky: number;
+  /** The flaky tests themselves */
+  flakyTests: Array<{ suite: string; name: string; file?: string }>;
+  /** Retry attempts across all tests */
+  retries: number;
+  durationSeconds?: number;
+}
+
+export interface LcovSummary {
+  linesFound: number;
+  linesHit: number;
+  /** linesHit / linesFound (0-1) */
+  lineCoverage: number;
+}
+
+export interface TestIngestionOptions {
+  /** Shell command that runs the tests in the worktree */
+  command?: string;
+  /** Report files or globs (JUnit XML or TAP), relative to the worktree */
+  reports?: string[];
+  /** lcov file produced by the tests (default: coverage/lcov.info) */
+  lcov?: string;
+  /** lcov file to compare coverage against, e.g. from the base branch */
+  baselineLcov?: string;
+  /** Command timeout (default: 600) */
+  timeoutSeconds?: number;
+}
+
+export interface TestCommandResult {
+  stdout: string;
+  exitCode: number | null;
+  durationSeconds: number;
+}
+
+export type TestCommandRunner = (command: string, cwd: string, timeoutMs: number) => TestCommandResult;
+
+export interface TestIngestionResult {
+  /** Parsed results, or null when no report or output could be parsed */
+  results: TestResults | null;
+  /** Exit code of the test command, if one ran (null on timeout) */
+  exitCode?: number | null;
+  lineCoverage?: number;
+  /** lineCoverage minus the baseline's line coverage */
+  coverageDelta?: number;
+}
+
+// ────────────────────────────────────────────────────────────────
+// Format Detection
+// ────────────────────────────────────────────────────────────────
+
+/** Guess the format of a report or command output, or null if unknown. */
+export function detectTestFormat(text: string): TestReportFormat | null {
+  if (/<testsuites?\b/.test(text)) return 'junit';
+  if (/^TAP version/m.test(text) || /^\s*(?:not )?ok(?=\s|$)/m.test(text)) return 'tap';
+  if (/^\s*[✔✖﹣] /m.test(text)) return 'node-spec';
+  return null;
+}
+
+/** Parse text in any supported format into test cases. */
+export function parseTestReport(text: string, defaultSuite = ROOT_SUITE): TestCaseResult[] {
+  switch (detectTestFormat(text)) {
+    case 'junit': return parseJUnitXml(text);
+    case 'tap': return parseTap(text, defaultSuite);
+    case 'node-spec': return parseNodeSpec(text, defaultSuite);
+    default: return [];
+  }
+}
+
+// ────────────────────────────────────────────────────────────────
+// JUnit XML
+// ────────────────────────────────────────────────────────────────
+
+const XML_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+function xmlAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = (match[2] ?? match[3]).replace(/&(lt|gt|amp|quot|apos);/g, (_, e) => XML_ENTITIES[e]);
+  }
+  return attributes;
+}
+
+function seconds(value: string | undefined): number | undefined {
+  const parsed = value === undefined ? NaN : parseFloat(value.replace(/,/g, ''));
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/** A classname that names a source file (jest-junit, pytest) rather than a class. */
+function classnameFile(classname: string | undefined): string | undefined {
+  return classname && /[/\\]|\.[cm]?[jt]sx?$|\.py$/.test(classname) ? classname : undefined;
+}
+
+/**
+ * Parse a JUnit XML report. Surefire's `flakyFailure`/`flakyError` (passed
+ * on a rerun) and `rerunFailure`/`rerunError` (failed every rerun) elements
+ * count as retries. A case's file comes from its `file` attribute, its
+ * suite's, or a path-like `classname`.
+ */
+export function parseJUnitXml(xml: string): TestCaseResult[] {
+  const body = xml.replace(/<!\[CDATA\[[\s\S]*?\]\]>/g, '').replace(/<!--[\s\S]*?-->/g, '');
+  const cases: TestCaseResult[] = [];
+  const suites: Array<{ name: string; file?: string }> = [];
+  let current: TestCaseResult | null = null;
+
+  const tag = /<(\/?)(testsuite|testcase|failure|error|skipped|flakyFailure|flakyError|rerunFailure|rerunError)\b([^>]*?)(\/?)>/g;
+  for (const [, closing, name, rawAttributes, selfClosing] of body.matchAll(tag)) {
+    if (name === 'testsuite') {
+      if (closing) suites.pop();
+      else if (!selfClosing) {
+        const attributes = xmlAttributes(rawAttributes);
+        suites.push({ name: attributes.name ?? ROOT_SUITE, file: attributes.file });
+      }
+      continue;
+    }
+    if (name === 'testcase') {
+      if (closing) {
+        if (current) cases.push(current);
+        current = null;
+        continue;
+      }
+      const attributes = xmlAttributes(rawAttributes);
+      const durationSeconds = seconds(attributes.time);
+      const suite = suites[suites.length - 1];
+      const file = attributes.file ?? suite?.file ?? classnameFile(attributes.classname);
+      current = {
+        suite: suite?.name ?? attributes.classname ?? ROOT_SUITE,
+        name: attributes.name ?? 'unknown',
+        status: 'passed',
+        ...(durationSeconds !== undefined && { durationSeconds }),
+        retries: 0,
+        ...(file !== undefined && { file }),
+      };
+      if (selfClosing) {
+        cases.push(current);
+        current = null;
+      }
+      continue;
+    }
+    if (!current || closing) continue;
+    if (name === 'failure' || name === 'error') current.status = 'failed';
+    else if (name === 'skipped') current.status = 'skipped';
+    else current.retries++;
+  }
+
+  return cases;
+}
+
+// ────────────────────────────────────────────────────────────────
+// TAP and node --test spec output
+// ────────────────────────────────────────────────────────────────
+
+interface TestPoint {
+  indent: number;
+  name: string;
+  status: TestStatus;
+  durationSeconds?: number;
+  file?: string;
+}
+
+/**
+ * Turn test points into cases. Runners print a test's subtests before the
+ * test itself, one level deeper, so a point is a suite when the point
+ * before it is indented further. Nested cases are grouped under their
+ * top-level suite.
+ */
+function nestTestPoints(points: TestPoint[], defaultSuite: string): TestCaseResult[] {
+  const cases: TestCaseResult[] = [];
+  let pending: TestCaseResult[] = [];
+
+  points.forEach((point, i) => {
+    const isSuite = i > 0 && points[i - 1].indent > point.indent;
+    if (!isSuite) {
+      const testCase: TestCaseResult = {
+        suite: defaultSuite,
+        name: point.name,
+        status: point.status,
+        ...(point.durationSeconds !== undefined && { durationSeconds: point.durationSeconds }),
+        retries: 0,
+        ...(point.file !== undefined && { file: point.file }),
+      };
+      if (point.indent > 0) pending.push(testCase);
+      else cases.push(testCase);
+    } else if (point.indent === 0) {
+      for (const testCase of pending) testCase.suite = point.name;
+      cases.push(...pending);
+      pending = [];
+    }
+  });
+
+  // Output cut off before the enclosing suite finished
+  return [...cases, ...pending];
+}
+
+/** Parse TAP output; skipped and TODO tests count as skipped. */
+export function parseTap(text: string, defaultSuite = ROOT_SUITE): TestCaseResult[] {
+  const points: TestPoint[] = [];
+  const testPoint = /^(\s*)(not ok|ok)(?=\s|$)(?:\s+\d+)?(?:\s+-)?\s*(.*)$/;
+
+  for (const line of text.split('\n')) {
+    const match = line.match(testPoint);
+    if (match) {
+      const [, indent, result, rest] = match;
+      // A directive starts at the first unescaped #
+      const directive = rest.match(/^((?:[^#\\]|\\.)*?)\s*#\s*(SKIP|TODO)\b/i);
+      const name = (directive ? directive[1] : rest.replace(/\s*(?<!\\)#.*$/, '')).replace(/\\([#\\])/g, '$1').trim();
+      points.push({
+        indent: indent.length,
+        name: name || 'unnamed',
+        status: directive ? 'skipped' : result === 'ok' ? 'passed' : 'failed',
+      });
+      continue;
+    }
+    // node --test puts durations and locations in the YAML block after each test point
+    const duration = line.match(/^\s+duration_ms:\s*([\d.]+)/);
+    if (duration && points.length > 0) {
+      points[points.length - 1].durationSeconds = parseFloat(duration[1]) / 1000;
+    }
+    const location = line.match(/^\s+location:\s*'?(.+?):\d+:\d+'?\s*$/);
+    if (location && points.length > 0) {
+      points[points.length - 1].file = location[1];
+    }
+  }
+
+  return nestTestPoints(points, defaultSuite);
+}
+
+/** Parse the output of node --test's spec reporter. */
+export function parseNodeSpec(text: string, defaultSuite = ROOT_SUITE): TestCaseResult[] {
+  const points: TestPoint[] = [];
+  const testLine = /^(\s*)([✔✖﹣])\s+(.*?)(?:\s+\(([\d.]+)ms\))?(?:\s+#\s*(SKIP|TODO)\b.*)?$/;
+
+  for (const line of text.split('\n')) {
+    // The failure summary repeats the failed tests
+    if (/^✖ failing tests:/.test(line)) break;
+    const match = line.match(testLine);
+    if (!match) continue;
+    const [, indent, marker, name, ms, directive] = match;
+    points.push({
+      indent: indent.length,
+      name,
+      status: directive || marker === '﹣' ? 'skipped' : marker === '✔' ? 'passed' : 'failed',
+      ...(ms !== undefined && { durationSeconds: parseFloat(ms) / 1000 }),
+    });
+  }
+
+  return nestTestPoints(points, defaultSuite);
+}
+
+// ────────────────────────────────────────────────────────────────
+// Summaries
+// ────────────────────────────────────────────────────────────────
+
+function sumDurations(cases: TestCaseResult[]): number | undefined {
+  const timed = cases.filter((c) => c.durationSeconds !== undefined);
+  return timed.length > 0 ? timed.reduce((sum, c) => sum + c.durationSeconds!, 0) : undefined;
+}
+
+/**
+ * Summarize cases per suite. A test reported more than once (for example by
+ * a runner that reruns failures into the same report) counts once, with its
+ * last status and the earlier attempts as retries.
+ */
+export function summarizeTestCases(cases: TestCaseResult[]): TestResults {
+  const merged = new Map<string, TestCaseResult>();
+  for (const testCase of cases) {
+    const key = `${testCase.suite}\0${testCase.name}`;
+    const previous = merged.get(key);
+    merged.set(key, previous
+      ? { ...testCase, retries: previous.retries + testCase.retries + 1 }
+      : { ...testCase });
+  }
+  const tests = [...merged.values()];
+
+  const bySuite = new Map<string, TestCaseResult[]>();
+  for (const testCase of tests) {
+    const list = bySuite.get(testCase.suite);
+    if (list) list.push(testCase);
+    else bySuite.set(testCase.suite, [testCase]);
+  }
+  const count = (list: TestCaseResult[], status: TestStatus) => list.filter((c) => c.status === status).length;
+
+  const suites = [...bySuite.entries()].map(([name, list]): TestSuiteResult => {
+    const durationSeconds = sumDurations(list);
+    return {
+      name,
+      tests: list.length,
+      passed: count(list, 'passed'),
+      failed: count(list, 'failed'),
+      skipped: count(list, 'skipped'),
+      ...(durationSeconds !== undefined && { durationSeconds }),
+    };
+  });
+  const durationSeconds = sumDurations(tests);
+  const flakyTests = tests
+    .filter((c) => c.status === 'passed' && c.retries > 0)
+    .map(({ suite, name, file }) => ({ suite, name, ...(file !== undefined && { file }) }));
+
+  return {
+    suites,
+    total: tests.length,
+    passed: count(tests, 'passed'),
+    failed: count(tests, 'failed'),
+    skipped: count(tests, 'skipped'),
+    flaky: flakyTests.length,
+    flakyTests,
+    retries: tests.reduce((sum, c) => sum + c.retries, 0),
+    ...(durationSeconds !== undefined && { durationSeconds }),
+  };
+}
+
+// ────────────────────────────────────────────────────────────────
+// Coverage
+// ────────────────────────────────────────────────────────────────
+
+/**
+ * Sum line coverage over all files of an lcov report, from the LF/LH
+ * totals or, when a file has none, its DA records.
+ */
+export function parseLcov(text: string): LcovSummary | null {
+  let linesFound = 0;
+  let linesHit = 0;
+  let file = { found: 0, hit: 0, daFound: 0, daHit: 0, hasTotals: false };
+
+  for (const line of text.split('\n')) {
+    const [key, value = ''] = line.trim().split(':', 2);
+    if (key === 'LF') {
+      file.found = parseInt(value, 10) || 0;
+      file.hasTotals = true;
+    } else if (key === 'LH') {
+      file.hit = parseInt(value, 10) || 0;
+    } else if (key === 'DA') {
+      file.daFound++;
+      if ((parseInt(value.split(',')[1], 10) || 0) > 0) file.daHit++;
+    } else if (key === 'end_of_record') {
+      linesFound += file.hasTotals ? file.found : file.daFound;
+      linesHit += file.hasTotals ? file.hit : file.daHit;
+      file = { found: 0, hit: 0, daFound: 0, daHit: 0, hasTotals: false };
+    }
+  }
+
+  if (linesFound === 0) return null;
+  return { linesFound, linesHit, lineCoverage: linesHit / linesFound };
+}
+
+// ────────────────────────────────────────────────────────────────
+// Ingestion
+// ────────────────────────────────────────────────────────────────
+
+function runTestCommand(command: string, cwd: string, timeoutMs: number): TestCommandResult {
+  const start = Date.now();
+  const result = spawnSync('/bin/bash', ['-c', command], {
+    cwd,
+    encoding: 'utf-8',
+    timeout: timeoutMs,
+    maxBuffer: 64 * 1024 * 1024,
+    env: { ...process.env, CI: process.env.CI ?? '1' },
+  });
+  return {
+    stdout: result.stdout ?? '',
+    exitCode: result.status,
+    durationSeconds: (Date.now() - start) / 1000,
+  };
+}
+
+/** Walk a directory for files, skipping dependency and VCS directories. */
+function listFiles(dir: string): string[] {
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    if (entry.name === 'node_modules' || entry.name === '.git') return [];
+    const path = join(dir, entry.name);
+    return entry.isDirectory() ? listFiles(path) : entry.isFile() ? [path] : [];
+  });
+}
+
+/** Resolve report paths and globs to existing files. */
+export function findReportFiles(worktreeDir: string, patterns: string[]): string[] {
+  const files = new Set<string>();
+  for (const pattern of patterns) {
+    if (!/[*?]/.test(pattern)) {
+      const path = resolve(worktreeDir, pattern);
+      if (existsSync(path)) files.add(path);
+      continue;
+    }
+    // Only walk below the part of the pattern without wildcards
+    const segments = pattern.replace(/^\.?\//, '').split('/');
+    const staticPrefix = segments.slice(0, segments.findIndex((s) => /[*?]/.test(s))).join('/');
+    for (const path of listFiles(resolve(worktreeDir, staticPrefix))) {
+      if (matchesGlob(relative(worktreeDir, path), pattern)) files.add(path);
+    }
+  }
+  return [...files].sort();
+}
+
+/** A reported test file relative to the worktree, as commits name it. */
+function worktreeRelative(worktreeDir: string, file: string): string {
+  const path = file.replace(/^file:\/\//, '');
+  if (!isAbsolute(path)) return path.replace(/^\.\//, '');
+  const rel = relative(worktreeDir, path);
+  return rel.startsWith('..') ? path : rel;
+}
+
+/** Parse an lcov file; null when missing or last written before `since` (ms). */
+function readLcov(worktreeDir: string, path: string, since?: number): LcovSummary | null {
+  const file = isAbsolute(path) ? path : resolve(worktreeDir, path);
+  if (!existsSync(file)) return null;
+  if (since !== undefined && statSync(file).mtimeMs < since) return null;
+  return parseLcov(readFileSync(file, 'utf-8'));
+}
+
+/**
+ * Run the test command (if any) in the worktree and parse its results.
+ * Report files take precedence over the command's stdout, which is only
+ * parsed when no reports are configured. Coverage is read afterwards,
+ * and only if the command (when there is one) rewrote the lcov file, so a
+ * stale lcov from an earlier run isn't reported.
+ */
+export function ingestTestResults(
+  worktreeDir: string,
+  options: TestIngestionOptions,
+  run: TestCommandRunner = runTestCommand,
+): TestIngestionResult {
+  const ingestion: TestIngestionResult = { results: null };
+  const cases: TestCaseResult[] = [];
+  let commandSeconds: number | undefined;
+  let commandStart: number | undefined;
+
+  if (options.command) {
+    // Whole seconds, for filesystems with coarse modification times
+    commandStart = Math.floor(Date.now() / 1000) * 1000;
+    const output = run(options.command, worktreeDir, (options.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS) * 1000);
+    ingestion.exitCode = output.exitCode;
+    commandSeconds = output.durationSeconds;
+    if (!options.reports?.length) {
+      cases.push(...parseTestReport(output.stdout));
+    }
+  }
+
+  for (const file of findReportFiles(worktreeDir, options.reports ?? [])) {
+    cases.push(...parseTestReport(readFileSync(file, 'utf-8'), basename(file)));
+  }
+
+  for (const testCase of cases) {
+    if (testCase.file) testCase.file = worktreeRelative(worktreeDir, testCase.file);
+  }
+
+  if (cases.length > 0) {
+    const results = summarizeTestCases(cases);
+    if (results.durationSeconds === undefined && commandSeconds !== undefined) {
+      results.durationSeconds = commandSeconds;
+    }
+    ingestion.results = results;
+  }
+
+  const coverage = readLcov(worktreeDir, options.lcov ?? DEFAULT_LCOV_PATH, commandStart);
+  if (coverage) {
+    ingestion.lineCoverage = coverage.lineCoverage;
+    const baseline = options.baselineLcov ? readLcov(worktreeDir, options.baselineLcov) : null;
+    if (baseline) {
+      ingestion.coverageDelta = coverage.lineCoverage - baseline.lineCoverage;
+    }
+  }
+
+  return ingestion;
+}
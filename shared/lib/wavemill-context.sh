@@ -147,6 +147,7 @@ cmd_search() {
     echo "Options:"
     echo "  --limit N       Max results to show (default: 10)"
     echo "  --section NAME  Search only in specific section"
+    echo "  --code          Rank source files and symbols with the code index"
     exit 1
   fi
 
@@ -162,6 +163,10 @@ cmd_search() {
         args+=("--section" "$2")
         shift 2
         ;;
+      --code)
+        args+=("--code")
+        shift
+        ;;
       *)
         log_error "Unknown flag: $1"
         exit 1
@@ -207,6 +212,8 @@ Commands:
                     Options:
                       --limit N         Max results (default: 10)
                       --section NAME    Search only specific section
+                      --code            Rank source files and symbols instead
+                                        (BM25 index in .wavemill/code-index.json)
 
 Examples:
   # Initialize subsystem documentation
@@ -227,6 +234,9 @@ Examples:
   # Search with limit
   wavemill context search "api" --limit 5
 
+  # Find the code an issue is likely about
+  wavemill context search "retry failed webhook deliveries" --code
+
 EOF
 }
 
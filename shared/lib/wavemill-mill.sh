@@ -395,13 +395,40 @@ pick_candidates() {
 }
 
 
+# Dependency-aware auto-selection: only unblocked issues, preferring those that
+# unblock the most downstream work, with area/subsystem/file overlap avoided.
+# Output: issue|slug|title (empty on failure)
+schedule_from_backlog() {
+  local backlog_json="$1"
+  local backlog_file
+  backlog_file=$(mktemp) || return 1
+  echo "$backlog_json" > "$backlog_file"
+  _with_timeout 60 npx tsx "$TOOLS_DIR/schedule-tasks.ts" --file "$backlog_file" \
+    --max "$MAX_PARALLEL" --repo "$REPO_DIR" --explain
+  local rc=$?
+  rm -f "$backlog_file"
+  return $rc
+}
+
+
 # Smart selection that avoids area conflicts
 smart_select_from_candidates() {
   local candidates="$1"
   local selected_numbers="$2"
+  local backlog_json="${3:-}"
 
 
   if [[ -z "$selected_numbers" ]]; then
+    # Prefer the dependency-aware scheduler; fall back to area-only selection
+    if [[ -n "$backlog_json" ]] && [[ -f "$TOOLS_DIR/schedule-tasks.ts" ]]; then
+      local scheduled
+      if scheduled=$(schedule_from_backlog "$backlog_json") && [[ -n "$scheduled" ]]; then
+        echo "$scheduled"
+        return
+      fi
+      log_warn "Dependency-aware scheduling failed; falling back to area-based selection"
+    fi
+
     # Auto-select up to MAX_PARALLEL with conflict avoidance
     local -A area_used=()
     local -a result=()
@@ -639,7 +666,7 @@ fi
 
 log "Fetching backlog..."
 BACKLOG="$(linear_list_backlog)" || {
-  log_error "Failed to fetch backlog from Linear. Check your LINEAR_API_KEY and network."
+  log_error "Failed to fetch backlog from the issue tracker. Check tracker.backend, your LINEAR_API_KEY (Linear) or gh auth (GitHub), and network."
   exit 1
 }
 
@@ -717,7 +744,7 @@ fi
 
 # Use smart selection
 TASKS=()
-SELECTED_LINES="$(smart_select_from_candidates "$CANDIDATES" "$SELECTED")"
+SELECTED_LINES="$(smart_select_from_candidates "$CANDIDATES" "$SELECTED" "$BACKLOG")"
 while IFS= read -r line; do
   [[ -n "$line" ]] && TASKS+=("$line")
 done <<<"$SELECTED_LINES"
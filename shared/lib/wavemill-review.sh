@@ -4,7 +4,8 @@ set -euo pipefail
 # PR Review - Interactive selection and LLM-powered code review
 #
 # This script:
-# 1. Parses filter options (--state, --author, --branch)
+# 1. Parses filter options (--state, --author, --branch); --stats and --fix
+#    hand off to review-stats.ts / review-fix.ts
 # 2. Checks if PR number provided as argument
 # 3. If yes, directly reviews that PR
 # 4. If no, fetches PRs with filters and presents interactive selection
@@ -77,11 +78,22 @@ main() {
     exec npx tsx "$stats_tool" "$@"
   fi
 
+  # Auto-fix mode: review the current branch and drive the agent through fixes
+  if [[ "${1:-}" == "--fix" ]]; then
+    shift
+    local fix_tool="$TOOLS_DIR/review-fix.ts"
+    if [[ -f "$REPO_DIR/tools/review-fix.ts" ]]; then
+      fix_tool="$REPO_DIR/tools/review-fix.ts"
+    fi
+    exec npx tsx "$fix_tool" "$@"
+  fi
+
   # Default filter values
   local state="open"
   local author=""
   local branch=""
   local pr_number=""
+  local review_args=()
 
   # Parse arguments
   while [[ $# -gt 0 ]]; do
@@ -98,6 +110,10 @@ main() {
         branch="$2"
         shift 2
         ;;
+      --post)
+        review_args+=("--post")
+        shift
+        ;;
       [0-9]*)
         pr_number="$1"
         shift
@@ -128,7 +144,7 @@ main() {
     fi
 
     log "Reviewing PR #$pr_number..."
-    exec npx tsx "$review_tool" "$pr_number"
+    exec npx tsx "$review_tool" "$pr_number" ${review_args[@]+"${review_args[@]}"}
   fi
 
   # Interactive selection
@@ -206,7 +222,7 @@ main() {
   # Review the selected PR
   echo ""
   log "Reviewing PR #$SELECTED_PR..."
-  exec npx tsx "$review_tool" "$SELECTED_PR"
+  exec npx tsx "$review_tool" "$SELECTED_PR" ${review_args[@]+"${review_args[@]}"}
 }
 
 main "$@"
@@ -162,6 +162,7 @@ export function computeModelCost(
  * @param opts.branchName - Git branch name to filter by (e.g. "task/add-cost-data")
  * @param opts.repoDir - Repository root for loading pricing config
  * @param opts.agentType - Agent type for session adapter selection (default: 'claude')
+ * @param opts.detectAgent - Fall back to the detected agent when `agentType` has no sessions (default: true)
  * @returns Aggregated cost result with diagnostics (success or failure)
  */
 export function computeWorkflowCost(opts: {
@@ -170,8 +171,9 @@ export function computeWorkflowCost(opts: {
   repoDir?: string;
   pricingTable?: PricingTable;
   agentType?: AgentType | string;
+  detectAgent?: boolean;
 }): WorkflowCostOutcome {
-  const { worktreePath, branchName, repoDir, pricingTable: externalPricing, agentType } = opts;
+  const { worktreePath, branchName, repoDir, pricingTable: externalPricing, agentType, detectAgent = true } = opts;
   const debug = process.env.DEBUG_COST === '1' || process.env.DEBUG_COST === 'true';
 
   if (debug) {
@@ -192,7 +194,7 @@ export function computeWorkflowCost(opts: {
   let scanResult = adapter.scan({ worktreePath, branchName });
 
   // If no sessions found, try auto-detection as a fallback
-  if (!scanResult || scanResult.turnCount === 0) {
+  if (detectAgent && (!scanResult || scanResult.turnCount === 0)) {
     if (debug) {
       console.log(`[DEBUG_COST]   No sessions found for agentType '${agentType || 'claude'}', attempting auto-detection`);
     }
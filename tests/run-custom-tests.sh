@@ -14,10 +14,12 @@ SKIP=0
 for f in \
   constraint-parser.test.ts \
   constraint-storage.test.ts \
+  constraint-validator.test.ts \
   difficulty-analyzer.test.ts \
   eval-export.test.ts \
   eval-persistence.test.ts \
   eval-schema.test.ts \
+  eval-warehouse.test.ts \
   llm-router.test.ts \
   repo-context-analyzer.test.ts \
   review-context-gatherer.test.ts \
@@ -36,14 +38,6 @@ for f in \
   fi
 done
 
-# Known-broken tests (pre-existing issues, tracked separately)
-for f in \
-  constraint-validator.test.ts \
-; do
-  echo "  $f: SKIP (known import issue)"
-  SKIP=$((SKIP + 1))
-done
-
 echo ""
 echo "--- Results: $PASS passed, $FAIL failed, $SKIP skipped ---"
 
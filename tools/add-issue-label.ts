@@ -1,11 +1,11 @@
 #!/usr/bin/env -S npx tsx
 import '../shared/lib/env.js';
 import { runTool } from '../shared/lib/tool-runner.ts';
-import { getIssueForLabeling, getOrCreateLabel, addLabelsToIssue } from '../shared/lib/linear.js';
+import { getIssueTracker } from '../shared/lib/issue-tracker.ts';
 
 runTool({
   name: 'add-issue-label',
-  description: 'Add a label to a Linear issue',
+  description: 'Add a label to an issue in the configured tracker',
   options: {
     help: { type: 'boolean', short: 'h', description: 'Show help' },
   },
@@ -26,40 +26,13 @@ runTool({
       process.exit(1);
     }
 
-    // Get the issue to find its team ID
-    const issue = await getIssueForLabeling(identifier);
-    if (!issue) {
-      console.error(`Issue not found: ${identifier}`);
-      process.exit(1);
-    }
-
-    const teamId = issue.team.id;
-
-    // Get or create the label
-    const label = await getOrCreateLabel(labelName, teamId);
-    if (!label) {
-      console.error(`Failed to get or create label: ${labelName}`);
-      process.exit(1);
-    }
-
-    // Get current label IDs
-    const currentLabelIds = issue.labels.nodes.map(l => l.id);
+    const result = await getIssueTracker().addLabels(identifier, [labelName], { createMissing: true });
 
-    // Check if label is already added
-    if (currentLabelIds.includes(label.id)) {
+    if (result.added.length === 0) {
       console.log(`Label "${labelName}" already exists on ${identifier}`);
       process.exit(0);
     }
 
-    // Add the new label to the existing ones
-    const updatedLabelIds = [...currentLabelIds, label.id];
-    const result = await addLabelsToIssue(issue.id, updatedLabelIds);
-
-    if (result.success) {
-      console.log(`✓ Added label "${labelName}" to ${identifier}`);
-    } else {
-      console.error(`Failed to add label to ${identifier}`);
-      process.exit(1);
-    }
+    console.log(`✓ Added label "${labelName}" to ${identifier}`);
   },
 });
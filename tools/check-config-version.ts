@@ -14,6 +14,7 @@
 import { existsSync } from 'node:fs';
 import { resolve } from 'node:path';
 import { loadWavemillConfig, CURRENT_CONFIG_VERSION } from '../shared/lib/config.ts';
+import { compareVersions } from '../shared/lib/config-migrations.ts';
 
 interface VersionCheckResult {
   status: 'missing' | 'no-version' | 'outdated' | 'current' | 'newer';
@@ -23,19 +24,6 @@ interface VersionCheckResult {
   needsUpgrade: boolean;
 }
 
-function compareVersions(v1: string, v2: string): number {
-  const parts1 = v1.split('.').map(Number);
-  const parts2 = v2.split('.').map(Number);
-
-  for (let i = 0; i < Math.max(parts1.length, parts2.length); i++) {
-    const p1 = parts1[i] || 0;
-    const p2 = parts2[i] || 0;
-    if (p1 > p2) return 1;
-    if (p1 < p2) return -1;
-  }
-  return 0;
-}
-
 function checkConfigVersion(repoDir: string = process.cwd()): VersionCheckResult {
   const configPath = resolve(repoDir, '.wavemill-config.json');
 
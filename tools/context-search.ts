@@ -2,6 +2,7 @@
 import { runTool } from '../shared/lib/tool-runner.ts';
 import { existsSync, readdirSync, readFileSync } from "node:fs";
 import { join, resolve } from "node:path";
+import { CodeIndex, formatCodeSearchResults, type CodeIndexUpdate } from '../shared/lib/code-index.ts';
 
 // ────────────────────────────────────────────────────────────────
 // Types
@@ -291,12 +292,42 @@ async function main(
   displayResults(limitedResults, query);
 }
 
+/**
+ * Search the code index instead of the specs, updating it first.
+ */
+function searchCode(query: string, repoDir: string, limit: number): void {
+  const index = new CodeIndex(repoDir);
+  let update: CodeIndexUpdate;
+  try {
+    update = index.update();
+  } catch {
+    console.error(`Error: ${repoDir} is not a git repository; the code index needs git`);
+    process.exit(1);
+  }
+  index.save();
+  if (update.rebuilt || update.indexed > 0 || update.removed > 0) {
+    console.log(`Code index: ${update.indexed} file(s) indexed, ${update.removed} removed (${index.size} total)`);
+  }
+
+  const results = index.search(query, limit);
+  console.log('');
+  if (results.length === 0) {
+    console.log(`No files match "${query}"`);
+  } else {
+    console.log(`Top ${results.length} file${results.length === 1 ? '' : 's'} for "${query}"`);
+    console.log('');
+    console.log(formatCodeSearchResults(results, 5));
+  }
+  console.log('');
+}
+
 runTool({
   name: 'context-search',
   description: 'Keyword search across subsystem specs',
   options: {
     limit: { type: 'string', description: 'Max results to show (default: 10)' },
     section: { type: 'string', description: 'Search only in specific section' },
+    code: { type: 'boolean', description: 'Rank source files and symbols with the code index instead' },
     help: { type: 'boolean', short: 'h', description: 'Show help' },
   },
   positional: {
@@ -308,9 +339,14 @@ runTool({
     'npx tsx tools/context-search.ts "linear api"',
     'npx tsx tools/context-search.ts "error handling" --limit 5',
     'npx tsx tools/context-search.ts "validation" --section "Architectural Constraints"',
+    'npx tsx tools/context-search.ts "retry failed webhook deliveries" --code',
   ],
   additionalHelp: `Performs case-insensitive substring matching across all subsystem specs.
-Returns ranked results with relevant snippets.`,
+Returns ranked results with relevant snippets.
+
+With --code, ranks the repository's files by BM25 relevance to the query and
+lists matching symbols. The index is kept in .wavemill/code-index.json and
+updated from git diffs before each search.`,
   async run({ args, positional }) {
     const query = positional[0];
     if (!query) {
@@ -320,6 +356,10 @@ Returns ranked results with relevant snippets.`,
     const repoPath = positional[1] || process.cwd();
     const repoDir = resolve(repoPath);
     const limit = args.limit ? parseInt(args.limit, 10) : 10;
+    if (args.code) {
+      searchCode(query, repoDir, limit);
+      return;
+    }
     await main(query, repoDir, limit, args.section);
   },
 });
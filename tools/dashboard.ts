@@ -0,0 +1,215 @@
+#!/usr/bin/env -S npx tsx
+import { runTool } from '../shared/lib/tool-runner.ts';
+import { createServer, type ServerResponse } from 'node:http';
+import { readEvalRecords } from '../shared/lib/eval-persistence.ts';
+import { loadMetrics } from '../shared/lib/review-metrics.ts';
+import { buildDashboardSummary } from '../shared/lib/dashboard-data.ts';
+
+// ── Page ─────────────────────────────────────────────────────────────────────
+
+// Self-contained page: no external assets, data comes from /api/*.
+const PAGE_HTML = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Wavemill Dashboard</title>
+<style>
+  body { font: 14px/1.4 -apple-system, system-ui, sans-serif; margin: 0; color: #1f2328; background: #f6f8fa; }
+  header { background: #0b3d5c; color: #fff; padding: 12px 24px; display: flex; justify-content: space-between; align-items: baseline; }
+  header h1 { font-size: 18px; margin: 0; }
+  main { padding: 16px 24px; display: grid; gap: 16px; grid-template-columns: repeat(auto-fit, minmax(420px, 1fr)); }
+  section { background: #fff; border: 1px solid #d0d7de; border-radius: 6px; padding: 12px 16px; }
+  section.wide { grid-column: 1 / -1; }
+  h2 { font-size: 15px; margin: 0 0 8px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; padding: 4px 6px; border-bottom: 1px solid #eaeef2; vertical-align: top; }
+  th { font-weight: 600; color: #57606a; }
+  tr.clickable { cursor: pointer; }
+  tr.clickable:hover { background: #f3f8fc; }
+  .bar { display: flex; height: 14px; min-width: 120px; border-radius: 3px; overflow: hidden; background: #eaeef2; }
+  .bar span { display: block; height: 100%; }
+  .legend span { display: inline-block; margin-right: 12px; }
+  .swatch { display: inline-block; width: 10px; height: 10px; border-radius: 2px; margin-right: 4px; }
+  .muted { color: #57606a; }
+  .stat { display: inline-block; margin-right: 24px; }
+  .stat b { font-size: 20px; display: block; }
+  #detail { position: fixed; inset: 0; background: rgba(0,0,0,.35); display: none; }
+  #detail .panel { background: #fff; max-width: 860px; margin: 40px auto; padding: 16px 20px; border-radius: 6px; max-height: calc(100vh - 80px); overflow: auto; }
+  #detail pre { white-space: pre-wrap; background: #f6f8fa; padding: 8px; border-radius: 4px; }
+</style>
+</head>
+<body>
+<header><h1>Wavemill Dashboard</h1><span id="generated" class="muted"></span></header>
+<main>
+  <section class="wide"><h2>Overview</h2><div id="overview"></div></section>
+  <section class="wide"><h2>Score bands by model</h2><div id="legend" class="legend"></div><div id="models"></div></section>
+  <section><h2>Cost per merged PR</h2><div id="cost"></div></section>
+  <section><h2>Interventions by type</h2><div id="interventions"></div></section>
+  <section class="wide"><h2>Evaluations</h2><div id="records"></div></section>
+</main>
+<div id="detail"><div class="panel" id="detail-body"></div></div>
+<script>
+const BAND_COLORS = ['#cf222e', '#fb8500', '#d4a72c', '#5cb85c', '#1a7f37'];
+
+function esc(value) {
+  return String(value ?? '').replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]));
+}
+function usd(value) { return value == null ? '—' : '$' + Number(value).toFixed(2); }
+
+function bandBar(bands, labels) {
+  const total = labels.reduce((sum, label) => sum + (bands[label] || 0), 0);
+  if (total === 0) return '<div class="bar"></div>';
+  return '<div class="bar">' + labels.map((label, i) => {
+    const n = bands[label] || 0;
+    return n ? '<span title="' + esc(label) + ': ' + n + '" style="width:' + (100 * n / total) + '%;background:' + BAND_COLORS[i] + '"></span>' : '';
+  }).join('') + '</div>';
+}
+
+function render(data) {
+  const labels = data.bandLabels;
+  document.getElementById('generated').textContent = 'Updated ' + new Date(data.generatedAt).toLocaleString();
+
+  document.getElementById('overview').innerHTML =
+    '<div class="stat"><b>' + data.totals.evals + '</b>evaluations</div>' +
+    '<div class="stat"><b>' + data.totals.avgScore.toFixed(2) + '</b>avg score</div>' +
+    '<div class="stat"><b>' + data.totals.models + '</b>models</div>' +
+    '<div class="stat"><b>' + data.cost.mergedPRs + '</b>merged PRs</div>' +
+    '<div class="stat"><b>' + data.review.total + '</b>self-reviews (' + data.review.resolved + ' resolved, ' +
+      data.review.escalated + ' escalated, avg ' + data.review.avgIterations + ' iterations)</div>';
+
+  document.getElementById('legend').innerHTML = labels.map((label, i) =>
+    '<span><i class="swatch" style="background:' + BAND_COLORS[i] + '"></i>' + esc(label) + '</span>').join('');
+
+  document.getElementById('models').innerHTML = data.models.length === 0 ? '<p class="muted">No evaluations yet.</p>' :
+    data.models.map((m) =>
+      '<h3>' + esc(m.modelId) + ' <span class="muted">— ' + m.count + ' evals, avg ' + m.avgScore.toFixed(2) + '</span></h3>' +
+      '<table><tr><th>Week of</th><th>Evals</th><th>Avg</th><th style="width:60%">Bands</th></tr>' +
+      m.weekly.map((w) => '<tr><td>' + w.week + '</td><td>' + w.count + '</td><td>' + w.avgScore.toFixed(2) +
+        '</td><td>' + bandBar(w.bands, labels) + '</td></tr>').join('') +
+      '</table>').join('');
+
+  const costRow = (name, c) => '<tr><td>' + esc(name) + '</td><td>' + c.mergedPRs + '</td><td>' + usd(c.totalCost) +
+    '</td><td>' + usd(c.costPerMergedPr) + '</td><td>' + c.uncostedRecords + '</td></tr>';
+  document.getElementById('cost').innerHTML =
+    '<table><tr><th>Model</th><th>Merged</th><th>Total spend</th><th>Per merged PR</th><th>Uncosted</th></tr>' +
+    data.cost.byModel.map((c) => costRow(c.modelId, c)).join('') + costRow('All models', data.cost) + '</table>';
+
+  document.getElementById('interventions').innerHTML =
+    '<table><tr><th>Type</th><th>Count</th><th>low / med / high</th><th>By model</th></tr>' +
+    data.interventions.map((i) => '<tr><td>' + esc(i.type) + '</td><td>' + i.count + '</td><td>' +
+      i.bySeverity.low + ' / ' + i.bySeverity.med + ' / ' + i.bySeverity.high + '</td><td class="muted">' +
+      Object.entries(i.byModel).map(([model, n]) => esc(model) + ': ' + n).join(', ') + '</td></tr>').join('') +
+    '</table>';
+
+  document.getElementById('records').innerHTML =
+    '<table><tr><th>When</th><th>Issue</th><th>Model</th><th>Score</th><th>Band</th><th>Cost</th><th>Interventions</th><th>Merged</th></tr>' +
+    data.records.map((r) => '<tr class="clickable" data-id="' + esc(r.id) + '"><td>' + esc(r.timestamp.slice(0, 16).replace('T', ' ')) +
+      '</td><td>' + esc(r.issueId || '—') + '</td><td>' + esc(r.modelId) + '</td><td>' + r.score.toFixed(2) + '</td><td>' +
+      esc(r.scoreBand) + '</td><td>' + usd(r.workflowCost) + '</td><td>' + r.interventionCount + '</td><td>' +
+      (r.merged ? 'yes' : 'no') + '</td></tr>').join('') + '</table>';
+}
+
+async function showRecord(id) {
+  const res = await fetch('/api/evals/' + encodeURIComponent(id));
+  if (!res.ok) return;
+  const r = await res.json();
+  const interventions = (r.interventions || []).map((i) =>
+    '<li><b>' + esc(i.type) + '</b> (' + esc(i.severity) + ') ' + esc(i.note) + '</li>').join('');
+  document.getElementById('detail-body').innerHTML =
+    '<h2>' + esc(r.issueId || r.id) + ' — ' + esc(r.scoreBand) + ' (' + r.score.toFixed(2) + ')</h2>' +
+    '<p class="muted">' + esc(r.modelId) + ' · judged by ' + esc(r.judgeModel || 'unknown') + ' · ' + esc(r.timestamp) +
+    (String(r.prUrl || '').startsWith('https://') ? ' · <a href="' + esc(r.prUrl) + '" target="_blank" rel="noopener">PR</a>' : '') + '</p>' +
+    '<h3>Judge rationale</h3><pre>' + esc(r.rationale) + '</pre>' +
+    (interventions ? '<h3>Interventions</h3><ul>' + interventions + '</ul>' : '') +
+    '<h3>Task</h3><pre>' + esc(r.originalPrompt) + '</pre>' +
+    '<details><summary>Raw record</summary><pre>' + esc(JSON.stringify(r, null, 2)) + '</pre></details>';
+  document.getElementById('detail').style.display = 'block';
+}
+
+document.getElementById('records').addEventListener('click', (e) => {
+  const row = e.target.closest('tr[data-id]');
+  if (row) showRecord(row.dataset.id);
+});
+document.getElementById('detail').addEventListener('click', (e) => {
+  if (e.target.id === 'detail') e.currentTarget.style.display = 'none';
+});
+
+fetch('/api/summary').then((res) => res.json()).then(render);
+</script>
+</body>
+</html>
+`;
+
+// ── Server ───────────────────────────────────────────────────────────────────
+
+function sendJson(res: ServerResponse, status: number, payload: unknown): void {
+  res.writeHead(status, { 'content-type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(payload));
+}
+
+runTool({
+  name: 'dashboard',
+  description: 'Serve a local HTML dashboard over eval, review and cost data',
+  options: {
+    port: { type: 'string', short: 'p', description: 'Port to listen on', default: '4319' },
+    host: { type: 'string', description: 'Interface to bind', default: '127.0.0.1' },
+    dir: { type: 'string', description: 'Evals directory override (default: eval.evalsDir)' },
+    help: { type: 'boolean', short: 'h', description: 'Show help' },
+  },
+  examples: [
+    'npx tsx tools/dashboard.ts',
+    'npx tsx tools/dashboard.ts --port 8080',
+  ],
+  additionalHelp: `Pages:
+  /                 Score-band trends per model, cost per merged PR,
+                    intervention breakdown and the eval list (click a row
+                    for the judge rationale)
+  /api/summary      Aggregated data as JSON
+  /api/evals/<id>   A single eval record as JSON
+
+Data is re-read on every request, so new evals show up on refresh. Reads
+whichever eval store is configured (JSONL or SQLite) and the review metrics
+log at review.metricsLog.`,
+  async run({ args }) {
+    const port = Number(args.port);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      throw new Error(`Invalid --port: ${args.port}`);
+    }
+    const repoDir = process.cwd();
+    const readRecords = () => readEvalRecords(args.dir ? { dir: args.dir } : undefined);
+
+    const server = createServer((req, res) => {
+      const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+      try {
+        if (req.method !== 'GET') {
+          sendJson(res, 405, { error: 'Method not allowed' });
+        } else if (pathname === '/') {
+          res.writeHead(200, { 'content-type': 'text/html; charset=utf-8' });
+          res.end(PAGE_HTML);
+        } else if (pathname === '/api/summary') {
+          sendJson(res, 200, buildDashboardSummary(readRecords(), loadMetrics(repoDir)));
+        } else if (pathname.startsWith('/api/evals/')) {
+          const id = decodeURIComponent(pathname.slice('/api/evals/'.length));
+          const record = readRecords().find((r) => r.id === id);
+          if (record) sendJson(res, 200, record);
+          else sendJson(res, 404, { error: `No eval record with id ${id}` });
+        } else {
+          sendJson(res, 404, { error: 'Not found' });
+        }
+      } catch (error) {
+        sendJson(res, 500, { error: (error as Error).message });
+      }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, args.host, resolve);
+    });
+
+    const address = server.address();
+    const boundPort = typeof address === 'object' && address ? address.port : port;
+    console.log(`Wavemill dashboard running at http://${args.host}:${boundPort}/`);
+    console.log('Press Ctrl+C to stop.');
+  },
+});
@@ -0,0 +1,128 @@
+#!/usr/bin/env -S npx tsx
+import { join } from 'node:path';
+import { runTool } from '../shared/lib/tool-runner.ts';
+import { loadWavemillConfig } from '../shared/lib/config.ts';
+import { readEvalRecords } from '../shared/lib/eval-persistence.ts';
+import { resolveMillSettings } from '../shared/lib/mill-orchestrator.ts';
+import {
+  compareVariants,
+  formatComparison,
+  loadComparison,
+  newRunId,
+  parseVariant,
+  runComparison,
+  selectReplayTasks,
+  type ComparisonResults,
+} from '../shared/lib/eval-compare.ts';
+import { createCompareServices } from '../shared/lib/eval-compare-services.ts';
+import { BOLD, DIM, NC } from '../shared/lib/colors.ts';
+
+function printReport(results: ComparisonResults, json: boolean): void {
+  const comparisons = compareVariants(results);
+  if (json) {
+    console.log(JSON.stringify({ ...results, comparisons }, null, 2));
+    return;
+  }
+  for (const line of formatComparison(results, comparisons)) console.log(line);
+}
+
+function positiveInt(value: string | undefined, name: string, fallback: number): number {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) throw new Error(`Invalid --${name}: ${value}`);
+  return parsed;
+}
+
+runTool({
+  name: 'eval-compare',
+  description: 'Replay merged issues against agent/model variants and compare them pairwise',
+  options: {
+    variants: { type: 'string', description: 'Comma-separated agent[:model] variants, e.g. claude:claude-opus-4-6,codex:gpt-5.4' },
+    baseline: { type: 'string', description: 'Variant the others are compared with (default: the first)' },
+    issues: { type: 'string', description: 'Comma-separated issues to replay (default: most recent merged issues)' },
+    stratum: { type: 'string', description: 'Only replay issues from this stratum' },
+    limit: { type: 'string', description: 'Number of issues to replay (default: 10)' },
+    parallel: { type: 'string', description: 'Runs at a time (default: 1)' },
+    timeout: { type: 'string', description: 'Minutes before an agent run is stopped (default: 60)' },
+    'eval-model': { type: 'string', description: 'Override the judge model' },
+    'keep-worktrees': { type: 'boolean', description: 'Leave replay worktrees in place for inspection' },
+    resume: { type: 'string', description: 'Resume an interrupted comparison by run id' },
+    report: { type: 'string', description: 'Report on a finished comparison by run id' },
+    'dry-run': { type: 'boolean', description: 'List the issues and runs without running anything' },
+    json: { type: 'boolean', description: 'Output the results and comparisons as JSON' },
+    help: { type: 'boolean', short: 'h', description: 'Show help' },
+  },
+  examples: [
+    'wavemill eval compare --variants claude:claude-opus-4-6,codex:gpt-5.4 --limit 5',
+    'wavemill eval compare --variants claude:claude-sonnet-4-5,claude:claude-opus-4-6 --stratum ts_nextjs_small',
+    'wavemill eval compare --resume 20260301-120000',
+    'wavemill eval compare --report 20260301-120000 --json',
+  ],
+  additionalHelp: `Each issue is replayed from the commit its merged PR was based on, with the
+task packet recorded on its eval record, once per variant in a fresh worktree
+under mill.worktreeRoot. Each run's diff is judged the same way as
+"wavemill eval" (replays are not added to the eval history).
+
+Runs are paired by issue, and each variant is reported against the baseline
+as mean score, cost and time deltas with 95% confidence intervals, overall
+and per stratum. Results and agent logs are kept in
+.wavemill/compare/<run id>/.`,
+  async run({ args }) {
+    const repoDir = process.cwd();
+    const compareDir = join(repoDir, '.wavemill', 'compare');
+
+    if (args.report) {
+      printReport(loadComparison(join(compareDir, args.report)), !!args.json);
+      return;
+    }
+
+    const previous = args.resume ? loadComparison(join(compareDir, args.resume)) : undefined;
+    const variants = previous?.variants ?? (args.variants || '').split(',').filter((s) => s.trim()).map(parseVariant);
+    if (variants.length < 2) {
+      throw new Error('Give at least two variants with --variants (agent[:model],agent[:model])');
+    }
+
+    const tasks = previous?.tasks ?? selectReplayTasks(readEvalRecords(), {
+      issues: args.issues ? args.issues.split(',').map((s) => s.trim()).filter(Boolean) : undefined,
+      stratum: args.stratum,
+      limit: positiveInt(args.limit, 'limit', 10),
+    });
+    if (tasks.length === 0) {
+      throw new Error('No merged issues with a recorded task packet and PR found in the eval history');
+    }
+
+    const runId = previous?.runId ?? newRunId();
+    if (args['dry-run']) {
+      console.log(`${BOLD}Comparison ${runId}${NC} ${DIM}(dry run)${NC}`);
+      for (const task of tasks) {
+        console.log(`  ${task.issueId}  PR #${task.prNumber}  ${task.stratum}${task.originalScore !== undefined ? `  original score ${task.originalScore.toFixed(2)}` : ''}`);
+      }
+      console.log(`${tasks.length * variants.length} run(s): ${variants.map((v) => v.label).join(' vs ')}`);
+      return;
+    }
+
+    const config = loadWavemillConfig(repoDir);
+    const settings = resolveMillSettings(config.mill ?? {}, repoDir);
+    const runDir = join(compareDir, runId);
+    // Keep stdout clean for --json
+    const progress = args.json ? console.error : console.log;
+    progress(`${BOLD}Comparison ${runId}${NC}: ${tasks.length} issue(s) × ${variants.length} variant(s) ${DIM}(${runDir})${NC}`);
+
+    const results = await runComparison(tasks, {
+      runId,
+      variants,
+      baseline: previous?.baseline ?? args.baseline,
+      services: createCompareServices(repoDir, { setupCommand: settings.setupCommand, evalModel: args['eval-model'] }),
+      worktreeRoot: settings.worktreeRoot,
+      runDir,
+      toolsDir: settings.toolsDir,
+      timeoutMs: positiveInt(args.timeout, 'timeout', 60) * 60_000,
+      parallel: positiveInt(args.parallel, 'parallel', 1),
+      keepWorktrees: !!args['keep-worktrees'],
+      log: (message) => progress(message),
+    }, previous);
+
+    progress('');
+    printReport(results, !!args.json);
+  },
+});
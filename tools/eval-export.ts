@@ -15,15 +15,22 @@ runTool({
     from: { type: 'string', description: 'Include records from this date (YYYY-MM-DD)' },
     to: { type: 'string', description: 'Include records up to this date (YYYY-MM-DD)' },
     model: { type: 'string', description: 'Filter to a specific model identifier' },
+    agent: { type: 'string', description: 'Filter to an agent type (claude, codex)' },
+    stratum: { type: 'string', description: 'Filter to a tech stack/size stratum' },
+    'task-type': { type: 'string', description: 'Filter to a task type' },
+    difficulty: { type: 'string', description: 'Filter to a difficulty band' },
+    repo: { type: 'string', description: 'Filter to a source repo (SQLite warehouse)' },
     'min-score': { type: 'string', description: 'Include only records with score >= N' },
     'max-score': { type: 'string', description: 'Include only records with score <= N' },
     dir: { type: 'string', description: 'Override evals directory' },
+    db: { type: 'string', description: 'Read from this SQLite eval warehouse instead of the configured store' },
     help: { type: 'boolean', short: 'h', description: 'Show help' },
   },
   examples: [
     'npx tsx tools/eval-export.ts',
     'npx tsx tools/eval-export.ts --format csv --redact -o dataset.csv',
     'npx tsx tools/eval-export.ts --model claude-opus-4-6 --from 2026-01-01',
+    'npx tsx tools/eval-export.ts --db ~/.wavemill/evals.db --agent codex --stratum ts_nextjs_small',
   ],
   additionalHelp: `Exports eval records in ML-training-ready formats (CSV, JSONL).
 
@@ -45,7 +52,13 @@ Load into pandas:
 
     const records = readEvalRecords({
       dir: args.dir as string | undefined,
+      ...(args.db && { backend: 'sqlite' as const, dbPath: args.db as string }),
       model: args.model as string | undefined,
+      agentType: args.agent as string | undefined,
+      stratum: args.stratum as string | undefined,
+      taskType: args['task-type'] as string | undefined,
+      difficultyBand: args.difficulty as string | undefined,
+      repo: args.repo as string | undefined,
       after: args.from ? new Date(args.from as string) : undefined,
       before: args.to ? new Date((args.to as string) + 'T23:59:59') : undefined,
       minScore: args['min-score'] ? Number(args['min-score']) : undefined,
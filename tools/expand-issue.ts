@@ -5,7 +5,7 @@ import fs from "node:fs/promises";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
 import { spawn } from "node:child_process";
-import { getIssue, updateIssue } from '../shared/lib/linear.js';
+import { getIssueTracker, assertTrackerCredentials } from '../shared/lib/issue-tracker.ts';
 import {
   validateTaskPacket,
   DEFAULT_VALIDATION_CONFIG,
@@ -20,18 +20,14 @@ import {
   expandIssueWithClaude,
   checkSubsystemDrift,
 } from '../shared/lib/issue-expander.ts';
-import { gatherCodebaseContext } from '../shared/lib/codebase-context-gatherer.ts';
+import { gatherCodebaseContext, rankRelevantFiles } from '../shared/lib/codebase-context-gatherer.ts';
+import { openCodeIndex } from '../shared/lib/code-index.ts';
 import { splitTaskPacket, isValidTaskPacket } from '../shared/lib/task-packet-utils.ts';
 import { formatValidationIssues } from '../shared/lib/validation-formatter.ts';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-if (!process.env.LINEAR_API_KEY) {
-  console.error('Error: LINEAR_API_KEY not found in environment');
-  process.exit(1);
-}
-
 // Ask user for confirmation
 async function promptUser(question: string): Promise<boolean> {
   const rl = createInterface({
@@ -44,22 +40,25 @@ async function promptUser(question: string): Promise<boolean> {
       rl.close();
       resolve(answer.toLowerCase().startsWith('y'));
     });
+    // No answer at EOF (e.g. stdin is not a terminal)
+    rl.on('close', () => resolve(false));
   });
 }
 
 runTool({
   name: 'expand-issue',
-  description: 'Expand Linear issue into comprehensive task packet',
+  description: 'Expand an issue into a comprehensive task packet',
   options: {
-    update: { type: 'boolean', description: 'Update the Linear issue with expanded content' },
+    update: { type: 'boolean', description: 'Update the tracker issue with expanded content' },
     'skip-validation': { type: 'boolean', description: 'Skip quality gate validation' },
+    'non-interactive': { type: 'boolean', description: 'Exit with an error instead of asking when --update fails validation' },
     output: { type: 'string', description: 'Save expanded description to file' },
     'repo-path': { type: 'string', description: 'Path to target repository' },
     help: { type: 'boolean', short: 'h', description: 'Show help' },
   },
   positional: {
     name: 'issueId',
-    description: 'Linear issue ID (e.g., LIN-123) or URL',
+    description: 'Issue ID (e.g., LIN-123) or Linear URL',
   },
   examples: [
     'npx tsx tools/expand-issue.ts LIN-123',
@@ -67,7 +66,8 @@ runTool({
     'npx tsx tools/expand-issue.ts LIN-123 --output expanded-issue.md',
   ],
   additionalHelp: `Environment Variables:
-  LINEAR_API_KEY   Required: Linear API key
+  LINEAR_API_KEY   Required for the Linear tracker backend
+  WAVEMILL_TRACKER Optional: Override tracker.backend (linear, github, local)
   CLAUDE_CMD       Optional: Claude CLI command (default: 'claude')`,
   async run({ args, positional }) {
     const issueInput = positional[0];
@@ -78,14 +78,24 @@ runTool({
 
     const shouldUpdate = !!args.update;
     const skipValidation = !!args['skip-validation'];
+    const nonInteractive = !!args['non-interactive'];
     const outputFile = args.output as string | null;
     const repoPath = (args['repo-path'] as string) || process.cwd();
 
+    // The target repo's config picks the tracker backend
+    const tracker = getIssueTracker(repoPath);
+    try {
+      assertTrackerCredentials(tracker);
+    } catch (error) {
+      console.error(`Error: ${(error as Error).message}`);
+      process.exit(1);
+    }
+
     try {
       // Parse and fetch issue
       console.log('Fetching issue details...');
       const identifier = parseIssueInput(issueInput);
-      const issue = await getIssue(identifier);
+      const issue = await tracker.getIssue(identifier);
 
       if (!issue) {
         console.error(`Issue not found: ${identifier}`);
@@ -104,11 +114,13 @@ runTool({
       // Format issue context
       const issueContext = formatIssueContext(issue);
 
-      // Gather codebase context
+      // Gather codebase context (the code index is reused to annotate the task packet)
+      const codeIndex = openCodeIndex(repoPath);
       const codebaseContext = await gatherCodebaseContext({
         repoPath,
         issueTitle: issue.title,
         issueDescription: issue.description || '',
+        codeIndex,
       });
 
       // Check for subsystem drift before expansion
@@ -129,7 +141,13 @@ runTool({
       const { header, details, fullContent } = splitTaskPacket(expandedDescription);
       console.log(`Split task packet: header (${header.length} chars), details (${details.length} chars)\n`);
 
-      // Handle output (don't let file write failure block Linear update)
+      // Point the agent at the code the expanded packet is about
+      const relevantCode = codeIndex ? rankRelevantFiles(codeIndex, issue.title, fullContent, 10) : '';
+      const packetDetails = relevantCode
+        ? `${details.trimEnd()}\n\n## Relevant Code (code index)\n\n${relevantCode}\n`
+        : details;
+
+      // Handle output (don't let file write failure block tracker update)
       if (outputFile) {
         try {
           // Write header file
@@ -139,7 +157,7 @@ runTool({
 
           // Write details file
           const detailsFile = outputFile.replace(/\.md$/, '-details.md');
-          await fs.writeFile(detailsFile, details, 'utf-8');
+          await fs.writeFile(detailsFile, packetDetails, 'utf-8');
           console.log(`✓ Details saved to: ${detailsFile}`);
 
           // Also write full content for reference
@@ -156,11 +174,11 @@ runTool({
         console.log('(Full details available in details section)\n');
       }
 
-      // Validate output before updating Linear (use full content for validation)
+      // Validate output before updating the tracker (use full content for validation)
       if (!isValidTaskPacket(fullContent)) {
         console.error('✗ Claude output is not a valid task packet (missing expected section headers).');
         console.error('  First 200 chars:', fullContent.substring(0, 200));
-        console.error('  Skipping Linear update to avoid overwriting with bad content.');
+        console.error('  Skipping tracker update to avoid overwriting with bad content.');
         process.exit(1);
       }
 
@@ -185,10 +203,13 @@ runTool({
           if (!validationResult.passed) {
             console.error('\n❌ Validation FAILED');
 
-            if (shouldUpdate) {
+            if (shouldUpdate && nonInteractive) {
+              console.error('✗ Not updating the issue: the task packet failed validation (--non-interactive).');
+              process.exit(1);
+            } else if (shouldUpdate) {
               // Ask user whether to proceed
               console.log('\nThe task packet has quality issues that may cause problems for autonomous agents.');
-              const proceed = await promptUser('Do you want to update Linear anyway? (y/N): ');
+              const proceed = await promptUser('Do you want to update the issue anyway? (y/N): ');
 
               if (!proceed) {
                 console.log('✗ Cancelled. Fix the issues and try again.');
@@ -197,7 +218,7 @@ runTool({
                 console.log('⚠️  Proceeding with update despite validation failures...');
               }
             } else {
-              console.log('\nℹ This is a dry-run. Use --update to save to Linear (with confirmation).');
+              console.log('\nℹ This is a dry-run. Use --update to save to the tracker (with confirmation).');
               console.log('  Or use --skip-validation to bypass quality gate.');
             }
           } else {
@@ -212,18 +233,19 @@ runTool({
         console.log('\n⚠️  Skipping validation (--skip-validation flag)');
       }
 
-      // Update Linear if requested (with full content for backward compatibility)
+      // Update the tracker if requested (with full content for backward compatibility)
       if (shouldUpdate) {
-        console.log(`Updating Linear issue ${issue.identifier}...`);
-        const result = await updateIssue(issue.id, { description: fullContent });
+        console.log(`Updating ${tracker.backend} issue ${issue.identifier}...`);
+        const result = await tracker.updateIssueDescription(issue.identifier, fullContent);
 
         if (result.success) {
-          console.log(`✓ Successfully updated: ${result.issue.url}`);
+          console.log(`✓ Successfully updated: ${result.issue?.url || issue.identifier}`);
 
           // Auto-label the issue based on expanded content
           console.log(`\nAuto-labeling issue ${issue.identifier}...`);
           try {
             const autoLabel = spawn('npx', ['tsx', path.join(__dirname, 'auto-label-issue.ts'), issue.identifier], {
+              cwd: repoPath,
               stdio: 'inherit'
             });
 
@@ -247,7 +269,7 @@ runTool({
           process.exit(1);
         }
       } else {
-        console.log('ℹ Dry-run mode (use --update to save to Linear)');
+        console.log('ℹ Dry-run mode (use --update to save to the tracker)');
       }
 
     } catch (error) {
@@ -0,0 +1,44 @@
+#!/usr/bin/env -S npx tsx
+import { runTool } from '../shared/lib/tool-runner.ts';
+import { explainConfig, entriesFor, formatConfigExplanation } from '../shared/lib/config-explain.ts';
+
+runTool({
+  name: 'explain-config',
+  description: 'Show effective wavemill settings and which layer each came from',
+  options: {
+    json: { type: 'boolean', description: 'Output as JSON' },
+    help: { type: 'boolean', short: 'h', description: 'Show help' },
+  },
+  positional: {
+    name: 'key',
+    description: 'Dotted config key or section to explain (e.g. mill.maxParallel, router)',
+  },
+  examples: [
+    'wavemill config explain',
+    'wavemill config explain mill',
+    'MAX_PARALLEL=5 wavemill config explain mill.maxParallel',
+    'wavemill config explain --json',
+  ],
+  additionalHelp: `Layers, later wins: default < user (~/.wavemill/config.json)
+< repo (.wavemill-config.json) < env var. Keys the schema doesn't know are
+flagged (they are ignored, often a typo), as are schema violations in either
+file. Exits 1 when a config file violates the schema.`,
+  run({ args, positional }) {
+    const key = positional[0];
+    const explanation = explainConfig({ repoDir: process.cwd() });
+    const entries = entriesFor(explanation, key);
+
+    if (args.json) {
+      console.log(JSON.stringify({ ...explanation, entries }, null, 2));
+    } else {
+      if (key && entries.length === 0) {
+        console.log(`${key} is not set in any layer`);
+      }
+      for (const line of formatConfigExplanation(explanation, key)) {
+        console.log(line);
+      }
+    }
+
+    if (explanation.schemaErrors.length > 0) process.exit(1);
+  },
+});
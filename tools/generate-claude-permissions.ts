@@ -11,6 +11,7 @@
  * Options:
  *   --output <path>  Output file path (default: .wavemill/claude-permissions.json)
  *   --stdout         Print to stdout instead of file
+ *   --explain <cmd>  Explain whether a command would be auto-approved
  *   --help           Show help
  *
  * @module generate-claude-permissions
@@ -20,7 +21,11 @@ import { writeFileSync, mkdirSync, existsSync } from 'node:fs';
 import { resolve, dirname } from 'node:path';
 import { runTool } from '../shared/lib/tool-runner.ts';
 import { getPermissionsConfig } from '../shared/lib/config.ts';
-import { getDefaultPatterns } from '../shared/lib/permission-patterns.ts';
+import {
+  resolveAutoApprovePatterns,
+  evaluateCommand,
+  formatEvaluation,
+} from '../shared/lib/permission-patterns.ts';
 
 // ────────────────────────────────────────────────────────────────
 // Types
@@ -45,16 +50,10 @@ interface ClaudeCodePermissions {
 function generateClaudePermissions(repoDir: string): ClaudeCodePermissions {
   const permissionsConfig = getPermissionsConfig(repoDir);
 
-  // Get patterns from config, fallback to defaults if not configured
-  let patterns = permissionsConfig.autoApprovePatterns || [];
-
-  // If worktreeMode is enabled and autoApproveReadOnly is true, include defaults
-  if (
-    permissionsConfig.worktreeMode?.enabled &&
-    permissionsConfig.worktreeMode?.autoApproveReadOnly
-  ) {
-    const defaults = getDefaultPatterns();
-    patterns = [...new Set([...patterns, ...defaults])]; // Deduplicate
+  // Merge configured and default read-only patterns, dropping unsafe ones
+  const { patterns, rejected } = resolveAutoApprovePatterns(permissionsConfig);
+  for (const { pattern, reason } of rejected) {
+    console.error(`⚠️  Skipping unsafe pattern "${pattern}": ${reason}`);
   }
 
   // Claude Code groups permissions by tool type
@@ -85,6 +84,10 @@ runTool({
       type: 'boolean',
       description: 'Print to stdout instead of file'
     },
+    explain: {
+      type: 'string',
+      description: 'Explain whether a command would be auto-approved'
+    },
     help: {
       type: 'boolean',
       short: 'h',
@@ -100,9 +103,19 @@ runTool({
     '',
     '# Print to stdout',
     'npx tsx tools/generate-claude-permissions.ts --stdout',
+    '',
+    '# Check a command against the generated patterns',
+    'npx tsx tools/generate-claude-permissions.ts --explain "git log | head -5"',
   ],
   run({ args }) {
     const repoDir = process.cwd();
+
+    if (args.explain) {
+      const { patterns } = resolveAutoApprovePatterns(getPermissionsConfig(repoDir));
+      console.log(formatEvaluation(args.explain, evaluateCommand(args.explain, patterns)));
+      return;
+    }
+
     const settings = generateClaudePermissions(repoDir);
     const json = JSON.stringify(settings, null, 2);
 
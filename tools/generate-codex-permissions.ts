@@ -10,7 +10,11 @@ import { writeFileSync, mkdirSync, existsSync } from 'node:fs';
 import { resolve, dirname } from 'node:path';
 import { runTool } from '../shared/lib/tool-runner.ts';
 import { getPermissionsConfig } from '../shared/lib/config.ts';
-import { getDefaultPatterns } from '../shared/lib/permission-patterns.ts';
+import {
+  resolveAutoApprovePatterns,
+  evaluateCommand,
+  formatEvaluation,
+} from '../shared/lib/permission-patterns.ts';
 
 interface CodexPermissions {
   autoApprovePatterns: string[];
@@ -23,14 +27,9 @@ interface CodexPermissions {
 function generateCodexPermissions(repoDir: string): CodexPermissions {
   const permissionsConfig = getPermissionsConfig(repoDir);
 
-  let patterns = permissionsConfig.autoApprovePatterns || [];
-
-  if (
-    permissionsConfig.worktreeMode?.enabled &&
-    permissionsConfig.worktreeMode?.autoApproveReadOnly
-  ) {
-    const defaults = getDefaultPatterns();
-    patterns = [...new Set([...patterns, ...defaults])];
+  const { patterns, rejected } = resolveAutoApprovePatterns(permissionsConfig);
+  for (const { pattern, reason } of rejected) {
+    console.error(`⚠️  Skipping unsafe pattern "${pattern}": ${reason}`);
   }
 
   return {
@@ -45,6 +44,7 @@ runTool({
   options: {
     output: { type: 'string', description: 'Output file path' },
     stdout: { type: 'boolean', description: 'Print to stdout instead of file' },
+    explain: { type: 'string', description: 'Explain whether a command would be auto-approved' },
     help: { type: 'boolean', short: 'h', description: 'Show help' },
   },
   examples: [
@@ -56,9 +56,19 @@ runTool({
     '',
     '# Print to stdout',
     'npx tsx tools/generate-codex-permissions.ts --stdout',
+    '',
+    '# Check a command against the generated patterns',
+    'npx tsx tools/generate-codex-permissions.ts --explain "git log | head -5"',
   ],
   run({ args }) {
     const repoDir = process.cwd();
+
+    if (args.explain) {
+      const { patterns } = resolveAutoApprovePatterns(getPermissionsConfig(repoDir));
+      console.log(formatEvaluation(args.explain, evaluateCommand(args.explain, patterns)));
+      return;
+    }
+
     const settings = generateCodexPermissions(repoDir);
     const json = JSON.stringify(settings, null, 2);
 
@@ -12,8 +12,6 @@ async function generateConstraintRules(issueId: string, taskPacketPath: string |
     console.error('❌ Error: Issue ID is required');
     process.exit(1);
   }
-    process.exit(1);
-  }
 
   // Check if rules already exist
   if (constraintRulesExist(issueId) && !force) {
@@ -105,7 +103,10 @@ async function generateConstraintRules(issueId: string, taskPacketPath: string |
   console.log(`\n⚙️  Generating constraint rules...`);
   const ruleGenResult = generateRules(parseResult.constraints, issueId, taskPacketContent);
 
-  console.log(`\n✓ Generated ${ruleGenResult.rules.length} auto-validatable rules`);
+  console.log(`\n✓ Generated ${ruleGenResult.rules.length} auto-validatable rules:`);
+  ruleGenResult.rules.forEach(r => {
+    console.log(`   - ${r.id}: ${r.checks.map(c => c.kind).join(', ')}`);
+  });
   if (ruleGenResult.manualReviewConstraints.length > 0) {
     console.log(`✓ ${ruleGenResult.manualReviewConstraints.length} constraints require manual review`);
   }
@@ -116,7 +117,7 @@ async function generateConstraintRules(issueId: string, taskPacketPath: string |
 
   console.log(`\n✅ Constraint rules generated successfully!`);
   console.log(`\n📁 Location: ${savedPath}/`);
-  console.log(`   - ${ruleGenResult.rules.length} executable rules in rules/`);
+  console.log(`   - ${ruleGenResult.rules.length} rules in rules.json`);
   console.log(`   - metadata.json`);
   if (ruleGenResult.manualReviewConstraints.length > 0) {
     console.log(`   - manual-review.md (${ruleGenResult.manualReviewConstraints.length} constraints)`);
@@ -128,7 +129,7 @@ async function generateConstraintRules(issueId: string, taskPacketPath: string |
 
 runTool({
   name: 'generate-constraint-rules',
-  description: 'Generate executable constraint validation rules',
+  description: 'Generate constraint validation rules',
   options: {
     'issue-id': { type: 'string', description: 'Issue ID for the constraints' },
     file: { type: 'string', description: 'Path to task packet or plan markdown file' },
@@ -146,10 +147,11 @@ runTool({
     'npx tsx tools/generate-constraint-rules.ts HOK-123 --force',
   ],
   additionalHelp: `Parses "Implementation Constraints" section from task packets or plans
-and generates executable validation rules. Rules are saved to version
-control in constraints/<issue-id>/ directory.
+and compiles them to declarative checks (files touched or not touched,
+forbidden imports, required test files, banned APIs, hardcoded secrets).
+Rules are saved to version control in constraints/<issue-id>/rules.json.
 
-Auto-validatable constraints become Node.js scripts that check the code.
+Constraints that compile to no check are treated as manual review.
 Manual-review constraints are documented in manual-review.md.
 
 Rules are generated at plan creation time and validated before PR creation.`,
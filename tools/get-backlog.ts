@@ -1,9 +1,11 @@
 #!/usr/bin/env -S npx tsx
 import '../shared/lib/env.js';
 import { runTool } from '../shared/lib/tool-runner.ts';
-import { getBacklog, getProjects } from '../shared/lib/linear.js';
+import { getIssueTracker, assertTrackerCredentials } from '../shared/lib/issue-tracker.ts';
 import readline from "node:readline";
 
+const tracker = getIssueTracker();
+
 const rl = readline.createInterface({
   input: process.stdin,
   output: process.stdout
@@ -18,7 +20,7 @@ const question = (prompt: string): Promise<string> => {
 async function selectProject(): Promise<string | null> {
   try {
     console.log('Fetching available projects...\n');
-    const projects = await getProjects();
+    const projects = await tracker.getProjects();
 
     if (projects.length === 0) {
       console.log('No projects found.');
@@ -48,7 +50,7 @@ async function selectProject(): Promise<string | null> {
 
 async function displayBacklog(projectName: string | null): Promise<void> {
   try {
-    const backlog = await getBacklog(projectName);
+    const backlog = await tracker.getBacklog(projectName);
 
     if (backlog.length === 0) {
       console.log(`No issues found${projectName ? ` for project "${projectName}"` : ''}.`);
@@ -88,7 +90,7 @@ async function displayBacklog(projectName: string | null): Promise<void> {
 
 runTool({
   name: 'get-backlog',
-  description: 'Fetch and display Linear backlog (interactive or by project name)',
+  description: 'Fetch and display the issue tracker backlog (interactive or by project name)',
   options: {
     help: { type: 'boolean', short: 'h', description: 'Show help' },
   },
@@ -104,6 +106,7 @@ runTool({
     const projectName = positional[0];
 
     try {
+      assertTrackerCredentials(tracker);
       if (projectName) {
         console.log(`Fetching backlog for project: ${projectName}`);
         await displayBacklog(projectName);
@@ -1,7 +1,7 @@
 #!/usr/bin/env -S npx tsx
 import '../shared/lib/env.js';
 import { runTool } from '../shared/lib/tool-runner.ts';
-import { getIssue } from '../shared/lib/linear.js';
+import { getIssueTracker } from '../shared/lib/issue-tracker.ts';
 
 // Hard process-level timeout — kills the entire process if npx/tsx startup
 // or network hangs before the per-request AbortSignal fires.
@@ -13,7 +13,7 @@ setTimeout(() => {
 
 runTool({
   name: 'get-issue-json',
-  description: 'Fetch a Linear issue and output as JSON',
+  description: 'Fetch an issue from the configured tracker and output as JSON',
   options: {
     help: { type: 'boolean', short: 'h', description: 'Show help' },
   },
@@ -34,7 +34,7 @@ runTool({
       process.exit(1);
     }
 
-    const issue = await getIssue(identifier);
+    const issue = await getIssueTracker().getIssue(identifier);
     console.log(JSON.stringify(issue, null, 2));
   },
 });
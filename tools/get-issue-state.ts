@@ -1,12 +1,12 @@
 #!/usr/bin/env -S npx tsx
-// Check if a Linear issue is in a completed state
+// Check if an issue is in a completed state
 import '../shared/lib/env.js';
 import { runTool } from '../shared/lib/tool-runner.ts';
-import { getIssueCompletionState } from '../shared/lib/linear.js';
+import { getIssueTracker } from '../shared/lib/issue-tracker.ts';
 
 runTool({
   name: 'get-issue-state',
-  description: 'Check if a Linear issue is completed or active',
+  description: 'Check if an issue is completed or active',
   options: {
     help: { type: 'boolean', short: 'h', description: 'Show help' },
   },
@@ -19,7 +19,7 @@ runTool({
   async run({ positional }) {
     const identifier = positional[0];
 
-    const issue = await getIssueCompletionState(identifier);
+    const issue = await getIssueTracker().getIssueCompletionState(identifier);
 
     // Check if issue is completed or canceled
     const isCompleted = !!(issue.completedAt || issue.canceledAt);
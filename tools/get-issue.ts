@@ -1,11 +1,11 @@
 #!/usr/bin/env -S npx tsx
 import '../shared/lib/env.js';
 import { runTool } from '../shared/lib/tool-runner.ts';
-import { getIssue } from '../shared/lib/linear.js';
+import { getIssueTracker } from '../shared/lib/issue-tracker.ts';
 
 runTool({
   name: 'get-issue',
-  description: 'Fetch and display a Linear issue',
+  description: 'Fetch and display an issue from the configured tracker',
   options: {
     help: { type: 'boolean', short: 'h', description: 'Show help' },
   },
@@ -26,7 +26,7 @@ runTool({
       process.exit(1);
     }
 
-    const issue = await getIssue(identifier);
+    const issue = await getIssueTracker().getIssue(identifier);
 
     console.log(`\n${issue.identifier}: ${issue.title}`);
     console.log(`State: ${issue.state?.name || 'Unknown'}`);
@@ -1,6 +1,6 @@
 #!/usr/bin/env -S npx tsx
 import { runTool } from '../shared/lib/tool-runner.ts';
-import { getTeams, getLabels, createLabel } from '../shared/lib/linear.js';
+import { getIssueTracker, assertTrackerCredentials } from '../shared/lib/issue-tracker.ts';
 
 const LABEL_DEFINITIONS = {
   area: [
@@ -35,8 +35,10 @@ const LABEL_DEFINITIONS = {
 };
 
 async function initializeLabels(teamKey?: string) {
-  console.log('🏷️  Initializing Linear labels...\n');
-  const teams = await getTeams();
+  const tracker = getIssueTracker();
+  assertTrackerCredentials(tracker);
+  console.log(`🏷️  Initializing ${tracker.backend} labels...\n`);
+  const teams = await tracker.getTeams();
   console.log(`Found ${teams.length} teams:`);
   teams.forEach((t) => console.log(`  - ${t.name} (${t.key})`));
   console.log();
@@ -52,26 +54,22 @@ async function initializeLabels(teamKey?: string) {
   }
 
   console.log(`Using team: ${targetTeam.name} (${targetTeam.key})\n`);
-  const existingLabels = await getLabels(targetTeam.id);
-  const existingNames = new Set(existingLabels.map((l) => l.name));
-  console.log(`Found ${existingLabels.length} existing labels\n`);
 
   let created = 0;
   let skipped = 0;
 
   for (const [category, labels] of Object.entries(LABEL_DEFINITIONS)) {
     console.log(`\n📁 ${category.toUpperCase()}`);
+    const result = await tracker.ensureLabels(labels, targetTeam.id);
     for (const label of labels) {
-      if (existingNames.has(label.name)) {
+      if (result.created.includes(label.name)) {
+        console.log(`  ✅ ${label.name}`);
+        created++;
+      } else if (result.existing.includes(label.name)) {
         console.log(`  ⏭️  ${label.name} (already exists)`);
         skipped++;
       } else {
-        await createLabel(label.name, targetTeam.id, {
-          color: label.color,
-          description: label.description,
-        });
-        console.log(`  ✅ ${label.name}`);
-        created++;
+        console.log(`  ❌ ${label.name} (could not be created)`);
       }
     }
   }
@@ -84,7 +82,7 @@ async function initializeLabels(teamKey?: string) {
 
 runTool({
   name: 'init-labels',
-  description: 'Initialize Linear labels for a team',
+  description: 'Initialize issue tracker labels for a team',
   options: {
     help: { type: 'boolean', short: 'h', description: 'Show help' },
   },
@@ -0,0 +1,212 @@
+#!/usr/bin/env -S npx tsx
+import { join } from 'node:path';
+import { spawnSync } from 'node:child_process';
+import { runTool } from '../shared/lib/tool-runner.ts';
+import { readEvalRecords } from '../shared/lib/eval-persistence.ts';
+import { fetchPrContext } from '../shared/lib/eval-context-gatherer.ts';
+import { loadPenalties } from '../shared/lib/intervention-detector.ts';
+import {
+  CalibrationStore,
+  calibrationReport,
+  formatCalibrationReport,
+  interventionSummaryOf,
+  rejudgeRecord,
+  sampleRecords,
+  type CalibrationSample,
+} from '../shared/lib/judge-calibration.ts';
+import type { EvalRecord } from '../shared/lib/eval-schema.ts';
+import { BOLD, CYAN, DIM, GREEN, YELLOW, NC } from '../shared/lib/colors.ts';
+
+const COMMANDS = ['sample', 'rate', 'rejudge', 'report'] as const;
+const PROMPT_LINES = 60;
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function positiveInt(value: string | undefined, name: string, fallback: number): number {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) throw new Error(`Invalid --${name}: ${value}`);
+  return parsed;
+}
+
+function requireSample(store: CalibrationStore): CalibrationSample {
+  const sample = store.readSample();
+  if (!sample) throw new Error('No calibration sample yet. Run "wavemill eval calibrate sample" first.');
+  return sample;
+}
+
+function sampledRecords(sample: CalibrationSample): EvalRecord[] {
+  const byId = new Map(readEvalRecords().map((record) => [record.id, record]));
+  return sample.recordIds.flatMap((id) => (byId.has(id) ? [byId.get(id)!] : []));
+}
+
+function defaultRater(): string {
+  const name = spawnSync('git', ['config', 'user.name'], { encoding: 'utf-8' }).stdout?.trim();
+  return name || process.env.USER || 'anonymous';
+}
+
+function showRecord(record: EvalRecord, index: number, total: number): void {
+  console.log(`\n${BOLD}[${index}/${total}] ${record.issueId ?? record.id}${NC}  ${DIM}${record.prUrl}${NC}`);
+  const lines = record.originalPrompt.trim().split('\n');
+  console.log(lines.slice(0, PROMPT_LINES).join('\n'));
+  if (lines.length > PROMPT_LINES) console.log(`${DIM}… ${lines.length - PROMPT_LINES} more line(s)${NC}`);
+
+  const interventions = (interventionSummaryOf(record)?.interventions ?? []).filter((e) => e.count > 0);
+  if (interventions.length > 0) {
+    console.log(`${CYAN}Interventions:${NC} ${interventions.map((e) => `${e.type} ×${e.count}`).join(', ')}`);
+  }
+}
+
+// ── Commands ─────────────────────────────────────────────────────────────────
+
+async function rate(store: CalibrationStore, rater: string): Promise<void> {
+  const rated = new Set(store.humanScores().filter((s) => s.rater === rater).map((s) => s.recordId));
+  const pending = sampledRecords(requireSample(store)).filter((record) => !rated.has(record.id));
+  if (pending.length === 0) {
+    console.log(`${GREEN}✓${NC} ${rater} has rated every sampled record`);
+    return;
+  }
+
+  console.log(`Rating as ${BOLD}${rater}${NC}: ${pending.length} record(s) left.`);
+  console.log(`${DIM}Score each PR 0–1 against the rubric in tools/prompts/eval-judge.md, optionally followed by a note.`);
+  console.log(`d = show diff, s = skip, q = quit. The judge's score is hidden so it doesn't anchor you.${NC}`);
+
+  const readline = await import('node:readline/promises');
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    for (const [i, record] of pending.entries()) {
+      showRecord(record, i + 1, pending.length);
+      for (;;) {
+        const answer = (await rl.question('Score> ')).trim();
+        if (answer === 'q') return;
+        if (answer === 's') break;
+        if (answer === 'd') {
+          console.log(fetchPrContext(record.prUrl!, process.cwd()).diff);
+          continue;
+        }
+        const [value, ...note] = answer.split(/\s+/);
+        const score = Number(value);
+        if (value === '' || !Number.isFinite(score) || score < 0 || score > 1) {
+          console.log(`${YELLOW}Enter a score between 0 and 1 (or d, s, q)${NC}`);
+          continue;
+        }
+        store.addHumanScore({
+          recordId: record.id,
+          rater,
+          score,
+          ...(note.length > 0 ? { note: note.join(' ') } : {}),
+          timestamp: new Date().toISOString(),
+        });
+        break;
+      }
+    }
+    console.log(`\n${GREEN}✓${NC} Done. See the results with "wavemill eval calibrate report".`);
+  } finally {
+    rl.close();
+  }
+}
+
+async function rejudge(store: CalibrationStore, runs: number, models: Array<string | undefined>): Promise<void> {
+  const records = sampledRecords(requireSample(store));
+  const penalties = loadPenalties(process.cwd());
+  let failures = 0;
+
+  for (const [i, record] of records.entries()) {
+    const { diff } = fetchPrContext(record.prUrl!, process.cwd());
+    if (diff.startsWith('(PR diff unavailable)')) {
+      console.log(`${YELLOW}⚠${NC} [${i + 1}/${records.length}] ${record.issueId ?? record.id}: PR diff unavailable, skipped`);
+      failures++;
+      continue;
+    }
+    for (const model of models) {
+      for (let run = 1; run <= runs; run++) {
+        try {
+          const result = await rejudgeRecord(record, { diff, penalties, model });
+          store.addRejudgement(result);
+          console.log(`[${i + 1}/${records.length}] ${record.issueId ?? record.id} ${DIM}${result.judgeModel} run ${run}${NC}: ${result.score.toFixed(2)} ${DIM}(original ${record.score.toFixed(2)})${NC}`);
+        } catch (error) {
+          failures++;
+          console.log(`${YELLOW}⚠${NC} [${i + 1}/${records.length}] ${record.issueId ?? record.id}: ${(error as Error).message}`);
+        }
+      }
+    }
+  }
+  if (failures > 0) console.log(`${YELLOW}${failures} judgement(s) failed or skipped${NC}`);
+}
+
+// ── Main ─────────────────────────────────────────────────────────────────────
+
+runTool({
+  name: 'judge-calibration',
+  description: 'Check the eval judge against human scores and against itself',
+  options: {
+    size: { type: 'string', description: 'sample: number of records (default: 30)' },
+    seed: { type: 'string', description: 'sample: random seed (default: current time)' },
+    force: { type: 'boolean', description: 'sample: replace an existing sample' },
+    rater: { type: 'string', description: 'rate: your name (default: git user.name)' },
+    runs: { type: 'string', description: 'rejudge: judgements per record and model (default: 3)' },
+    models: { type: 'string', description: 'rejudge: comma-separated judge models (default: the configured judge)' },
+    json: { type: 'boolean', description: 'report: output JSON' },
+    help: { type: 'boolean', short: 'h', description: 'Show help' },
+  },
+  positional: {
+    name: 'command',
+    description: `One of: ${COMMANDS.join(', ')}`,
+    required: true,
+  },
+  examples: [
+    'wavemill eval calibrate sample --size 30 --seed 7',
+    'wavemill eval calibrate rate --rater alice',
+    'wavemill eval calibrate rejudge --runs 3 --models claude-sonnet-4-5-20250929,claude-opus-4-6',
+    'wavemill eval calibrate report',
+  ],
+  additionalHelp: `Steps:
+  sample   Pick eval records to calibrate on, spread across score bands
+  rate     Score the sampled PRs yourself (several raters may each rate)
+  rejudge  Judge the sampled PRs again, repeatedly and/or with other models
+  report   Judge↔human agreement (Pearson, Spearman, band confusion matrix,
+           weighted kappa), alternate judges, self-consistency, human scores
+           per judge band and judge−human residuals per intervention type
+
+Data is kept in .wavemill/calibration/. Use the band breakdown to tune
+SCORE_BANDS and the residuals to tune eval.interventionPenalties.`,
+  async run({ args, positional }) {
+    const [command] = positional;
+    if (!(COMMANDS as readonly string[]).includes(command)) {
+      throw new Error(`Unknown command "${command}" (expected: ${COMMANDS.join(', ')})`);
+    }
+    const store = new CalibrationStore(join(process.cwd(), '.wavemill', 'calibration'));
+
+    switch (command) {
+      case 'sample': {
+        if (store.readSample() && !args.force) {
+          throw new Error('A calibration sample already exists; pass --force to replace it');
+        }
+        const seed = args.seed !== undefined ? Number(args.seed) : Date.now() % 1_000_000;
+        if (!Number.isInteger(seed)) throw new Error(`Invalid --seed: ${args.seed}`);
+        const sample = sampleRecords(readEvalRecords(), { size: positiveInt(args.size, 'size', 30), seed });
+        if (sample.length === 0) throw new Error('No eval records with a task prompt and PR to sample');
+        store.writeSample({ createdAt: new Date().toISOString(), seed, recordIds: sample.map((r) => r.id) });
+        console.log(`${GREEN}✓${NC} Sampled ${sample.length} record(s) ${DIM}(seed ${seed})${NC}`);
+        return;
+      }
+      case 'rate':
+        await rate(store, args.rater || defaultRater());
+        return;
+      case 'rejudge': {
+        const models = args.models ? args.models.split(',').map((m) => m.trim()).filter(Boolean) : [undefined];
+        await rejudge(store, positiveInt(args.runs, 'runs', 3), models);
+        return;
+      }
+      case 'report': {
+        const sample = requireSample(store);
+        const report = calibrationReport(sampledRecords(sample), sample, store.humanScores(), store.rejudgements());
+        if (args.json) {
+          console.log(JSON.stringify(report, null, 2));
+        } else {
+          for (const line of formatCalibrationReport(report)) console.log(line);
+        }
+      }
+    }
+  },
+});
@@ -1,7 +1,7 @@
 #!/usr/bin/env -S npx tsx
 import '../shared/lib/env.js';
 import { runTool } from '../shared/lib/tool-runner.ts';
-import { getBacklogForScoring } from '../shared/lib/linear.js';
+import { getIssueTracker } from '../shared/lib/issue-tracker.ts';
 
 // Hard process-level timeout
 const PROCESS_TIMEOUT_MS = 30_000;
@@ -12,7 +12,7 @@ setTimeout(() => {
 
 runTool({
   name: 'list-backlog-json',
-  description: 'Fetch Linear backlog and output as JSON',
+  description: 'Fetch the backlog from the configured tracker and output as JSON',
   options: {
     help: { type: 'boolean', short: 'h', description: 'Show help' },
   },
@@ -27,7 +27,7 @@ runTool({
   async run({ positional }) {
     const projectName = positional[0] || null;
 
-    const backlog = await getBacklogForScoring(projectName);
+    const backlog = await getIssueTracker().getBacklogForScoring(projectName);
     console.log(JSON.stringify(backlog, null, 2));
   },
 });
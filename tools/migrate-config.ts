@@ -0,0 +1,102 @@
+#!/usr/bin/env -S npx tsx
+import { existsSync } from 'node:fs';
+import { runTool } from '../shared/lib/tool-runner.ts';
+import { CURRENT_CONFIG_VERSION } from '../shared/lib/config.ts';
+import {
+  CONFIG_MIGRATIONS,
+  migrateConfigFile,
+  restoreConfigBackup,
+  formatConfigChanges,
+  repoConfigPath,
+  userConfigPath,
+  type ConfigFileMigration,
+} from '../shared/lib/config-migrations.ts';
+import { GREEN, YELLOW, RED, CYAN, DIM, NC } from '../shared/lib/colors.ts';
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function printMigration(result: ConfigFileMigration, dryRun: boolean): void {
+  console.log(`${CYAN}${result.path}${NC}`);
+
+  if (result.direction === 'none') {
+    console.log(`  ${DIM}Already at version ${result.to}${NC}`);
+  } else {
+    console.log(`  ${result.from} → ${result.to}${result.direction === 'down' ? ' (rollback)' : ''}`);
+    for (const migration of result.applied) {
+      console.log(`  ${result.direction === 'up' ? '↑' : '↓'} ${migration.version}: ${migration.description}`);
+    }
+  }
+
+  for (const line of formatConfigChanges(result.changes)) {
+    console.log(`    ${line}`);
+  }
+
+  if (result.errors.length > 0) {
+    console.log(`  ${RED}Migrated config fails schema validation; not written:${NC}`);
+    for (const error of result.errors) console.log(`    ${error}`);
+  } else if (result.written) {
+    console.log(`  ${GREEN}✓ Written${NC} ${DIM}(backup: ${result.backupPath})${NC}`);
+  } else if (dryRun && result.changes.length > 0) {
+    console.log(`  ${YELLOW}Dry run — not written${NC}`);
+  }
+}
+
+// ── Main ─────────────────────────────────────────────────────────────────────
+
+runTool({
+  name: 'migrate-config',
+  description: 'Migrate wavemill config files between config versions',
+  options: {
+    to: { type: 'string', description: `Target version (default: ${CURRENT_CONFIG_VERSION}); lower versions roll back` },
+    'dry-run': { type: 'boolean', description: 'Show the changes without writing' },
+    user: { type: 'boolean', description: 'Migrate ~/.wavemill/config.json instead of the repo config' },
+    all: { type: 'boolean', description: 'Migrate both the repo and user config' },
+    rollback: { type: 'boolean', description: 'Restore the backup taken by the last migration' },
+    list: { type: 'boolean', description: 'List known migrations' },
+    help: { type: 'boolean', short: 'h', description: 'Show help' },
+  },
+  examples: [
+    'wavemill config migrate --dry-run',
+    'wavemill config migrate --all',
+    'wavemill config migrate --to 1.0.0 --user',
+    'wavemill config migrate --rollback',
+  ],
+  additionalHelp: `Runs the ordered migrations in shared/lib/config-migrations.ts so renamed or
+moved keys keep their values. The result is validated against
+wavemill-config.schema.json before anything is written, and the previous
+file is kept as <config>.backup (restore it with --rollback).`,
+  run({ args }) {
+    if (args.list) {
+      for (const migration of CONFIG_MIGRATIONS) {
+        console.log(`${migration.version.padEnd(8)} ${migration.description}`);
+      }
+      return;
+    }
+
+    const paths = args.all
+      ? [repoConfigPath(), userConfigPath()]
+      : [args.user ? userConfigPath() : repoConfigPath()];
+    const existing = paths.filter((path) => existsSync(path));
+    if (existing.length === 0) {
+      throw new Error(`No config found at ${paths.join(' or ')}. Run "wavemill init" to create one.`);
+    }
+
+    if (args.rollback) {
+      for (const path of existing) {
+        const changes = restoreConfigBackup(path);
+        console.log(`${GREEN}✓ Restored${NC} ${path} from backup`);
+        for (const line of formatConfigChanges(changes)) console.log(`    ${line}`);
+      }
+      return;
+    }
+
+    const dryRun = !!args['dry-run'];
+    let failed = false;
+    for (const path of existing) {
+      const result = migrateConfigFile(path, { to: args.to as string | undefined, dryRun });
+      printMigration(result, dryRun);
+      failed ||= result.errors.length > 0;
+    }
+    if (failed) process.exit(1);
+  },
+});
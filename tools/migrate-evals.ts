@@ -0,0 +1,78 @@
+#!/usr/bin/env -S npx tsx
+import { runTool } from '../shared/lib/tool-runner.ts';
+import { join, resolve, basename } from 'node:path';
+import { getEvalConfig } from '../shared/lib/config.ts';
+import { resolveEvalDbPath } from '../shared/lib/eval-persistence.ts';
+import { EvalWarehouse } from '../shared/lib/eval-warehouse.ts';
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Resolve a repo's evals.jsonl, honouring its own eval.evalsDir setting. */
+function resolveRepoEvalsFile(repoDir: string): string {
+  const evalsDir = getEvalConfig(repoDir).evalsDir || '.wavemill/evals';
+  return join(resolve(repoDir, evalsDir), 'evals.jsonl');
+}
+
+runTool({
+  name: 'migrate-evals',
+  description: 'Import eval JSONL files into the SQLite eval warehouse',
+  options: {
+    repos: { type: 'string', multiple: true, description: 'Repository directory to import from (repeatable)' },
+    db: { type: 'string', description: 'Warehouse path (default: eval.store.path, else .wavemill/evals/evals.db)' },
+    help: { type: 'boolean', short: 'h', description: 'Show help' },
+  },
+  positional: {
+    name: 'repos',
+    description: 'Repository directories to import from',
+    multiple: true,
+  },
+  examples: [
+    'npx tsx tools/migrate-evals.ts',
+    'npx tsx tools/migrate-evals.ts --db ~/.wavemill/evals.db',
+    'npx tsx tools/migrate-evals.ts --repos ~/proj1 --repos ~/proj2',
+    'npx tsx tools/migrate-evals.ts ~/proj1 ~/proj2',
+  ],
+  additionalHelp: `Copies records from each repo's .wavemill/evals/evals.jsonl into a SQLite
+warehouse with indexed model, agent, stratum, task type, difficulty and
+timestamp columns. Records already in the warehouse (same id) are skipped,
+so the migration can be re-run safely. JSONL files are left in place.
+
+Repositories are given with repeated --repos flags or as positional paths.
+If none are given, imports the current repo plus eval.aggregation.repos from
+.wavemill-config.json.
+
+After migrating, set eval.store.backend to "sqlite" (and eval.store.path for
+a shared warehouse) so new evals are written there. Requires Node.js 22.13+.`,
+  run({ args, positional }) {
+    const configuredRepos = getEvalConfig().aggregation?.repos || [];
+    const requested = [...(Array.isArray(args.repos) ? args.repos : (args.repos ? [args.repos] : [])), ...positional];
+    const repos = requested.length > 0 ? requested : configuredRepos;
+    const repoSet = new Set([resolve('.'), ...repos.map((r) => resolve(r))]);
+
+    const dbPath = resolveEvalDbPath(args.db ? { dbPath: args.db as string } : undefined);
+    const warehouse = EvalWarehouse.open(dbPath);
+
+    try {
+      let totalImported = 0;
+      console.log(`Warehouse: ${warehouse.path}\n`);
+
+      for (const repoDir of repoSet) {
+        const repoName = basename(repoDir);
+        const result = warehouse.importJsonl(resolveRepoEvalsFile(repoDir), repoName);
+        totalImported += result.imported;
+
+        const extras = [
+          result.existing > 0 ? `${result.existing} already present` : '',
+          result.malformed > 0 ? `${result.malformed} malformed` : '',
+        ].filter(Boolean);
+        console.log(
+          `  ${repoName}: ${result.imported} imported` + (extras.length > 0 ? ` (${extras.join(', ')})` : ''),
+        );
+      }
+
+      console.log(`\nImported ${totalImported} record(s); warehouse now holds ${warehouse.count()}.`);
+    } finally {
+      warehouse.close();
+    }
+  },
+});
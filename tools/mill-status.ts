@@ -0,0 +1,124 @@
+#!/usr/bin/env -S npx tsx
+import { existsSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { spawnSync } from 'node:child_process';
+import { runTool } from '../shared/lib/tool-runner.ts';
+import { MillLedger, readMillLock, isMillLockHeld, isTerminal, type MillTask } from '../shared/lib/mill-state.ts';
+import { createRunner, isRunnerName, headlessLogPath, type TaskRunner } from '../shared/lib/mill-runner.ts';
+import { formatUsd } from '../shared/lib/budget-guard.ts';
+import { CYAN, GREEN, YELLOW, RED, BOLD, DIM, NC } from '../shared/lib/colors.ts';
+
+// ────────────────────────────────────────────────────────────────
+// Formatting
+// ────────────────────────────────────────────────────────────────
+
+function age(iso: string, now = Date.now()): string {
+  const seconds = Math.max(0, Math.round((now - Date.parse(iso)) / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h`;
+  return `${Math.floor(seconds / 86400)}d`;
+}
+
+function stateColor(task: MillTask): string {
+  if (task.state === 'merged') return GREEN;
+  if (task.state === 'failed') return RED;
+  if (task.state === 'paused' || task.attempts > 0) return YELLOW;
+  return CYAN;
+}
+
+// ────────────────────────────────────────────────────────────────
+// Main
+// ────────────────────────────────────────────────────────────────
+
+runTool({
+  name: 'mill-status',
+  description: 'Show the mill and its tasks, or follow one task\'s agent',
+  options: {
+    attach: { type: 'string', description: 'Follow a task: tail its headless log or attach to its tmux window' },
+    all: { type: 'boolean', description: 'Include finished tasks' },
+    json: { type: 'boolean', description: 'Output as JSON' },
+    help: { type: 'boolean', short: 'h', description: 'Show help' },
+  },
+  examples: [
+    'wavemill status',
+    'wavemill status --attach HOK-12',
+    'wavemill status --all --json',
+  ],
+  async run({ args }) {
+    const repoDir = process.env.REPO_DIR ? resolve(process.env.REPO_DIR) : process.cwd();
+    const stateDir = process.env.STATE_DIR ? resolve(process.env.STATE_DIR) : join(repoDir, '.wavemill');
+    const ledgerPath = join(stateDir, 'mill-ledger.json');
+
+    const lock = readMillLock(join(stateDir, 'mill.pid'));
+    const millAlive = lock !== null && isMillLockHeld(lock);
+    const ledger = existsSync(ledgerPath) ? new MillLedger(ledgerPath) : null;
+    const session = ledger?.session ?? 'wavemill';
+
+    const runners = new Map<string, TaskRunner>();
+    const runnerFor = (task: MillTask): TaskRunner | null => {
+      const name = task.runner ?? 'tmux';
+      if (!isRunnerName(name)) return null;
+      if (!runners.has(name)) runners.set(name, createRunner(name, { session, stateDir }));
+      return runners.get(name)!;
+    };
+
+    if (args.attach) {
+      const task = ledger?.get(args.attach);
+      if (!task) throw new Error(`No mill task for ${args.attach}`);
+      if (task.runner === 'headless') {
+        const log = headlessLogPath(stateDir, task.issue);
+        if (!existsSync(log)) throw new Error(`No agent log for ${task.issue} at ${log}`);
+        const follow = runnerFor(task)?.isAlive(task) ?? false;
+        console.error(`${DIM}${log}${follow ? ' (Ctrl+C to stop following)' : ' (agent has exited)'}${NC}`);
+        spawnSync('tail', follow ? ['-n', '+1', '-f', log] : ['-n', '+1', log], { stdio: 'inherit' });
+      } else {
+        spawnSync('tmux', ['attach', '-t', `${session}:${task.issue}-${task.slug}`], { stdio: 'inherit' });
+      }
+      return;
+    }
+
+    const tasks = (ledger?.all() ?? [])
+      .filter((t) => args.all || !isTerminal(t.state) || !t.cleanedUp)
+      .map((t) => ({ ...t, alive: t.runner ? runnerFor(t)?.isAlive(t) ?? false : false }));
+
+    if (args.json) {
+      console.log(JSON.stringify({
+        mill: lock ? { ...lock, alive: millAlive } : null,
+        tasks,
+      }, null, 2));
+      return;
+    }
+
+    if (!lock) {
+      console.log(`${BOLD}Mill:${NC} not running`);
+    } else if (millAlive) {
+      console.log(`${BOLD}Mill:${NC} ${GREEN}running${NC} (pid ${lock.pid}, runner ${lock.runner}, up ${age(lock.started)})`);
+    } else {
+      console.log(`${BOLD}Mill:${NC} ${RED}not running${NC} ${DIM}(stale pidfile from pid ${lock.pid}; the next mill will take over)${NC}`);
+    }
+
+    if (tasks.length === 0) {
+      console.log(`${DIM}No ${args.all ? '' : 'active '}tasks in ${ledgerPath}${NC}`);
+      return;
+    }
+
+    console.log('');
+    console.log(`${BOLD}${'ISSUE'.padEnd(12)}${'STATE'.padEnd(11)}${'AGENT'.padEnd(18)}${'PR'.padEnd(7)}${'COST'.padEnd(9)}${'UPDATED'.padEnd(9)}TITLE${NC}`);
+    for (const task of tasks) {
+      const agent = `${task.agent ?? '-'}${task.alive ? ' ●' : ''}`;
+      console.log(
+        `${task.issue.padEnd(12)}${stateColor(task)}${task.state.padEnd(11)}${NC}${agent.padEnd(18)}` +
+        `${(task.pr ? `#${task.pr}` : '-').padEnd(7)}${(task.budget ? formatUsd(task.budget.costUsd) : '-').padEnd(9)}` +
+        `${age(task.updated).padEnd(9)}${task.title}`,
+      );
+      if (task.error) {
+        console.log(`${' '.repeat(12)}${DIM}${task.attempts > 0 ? `retry ${task.attempts}: ` : ''}${task.error}${NC}`);
+      } else if (task.state === 'paused') {
+        console.log(`${' '.repeat(12)}${DIM}${task.history.at(-1)?.detail ?? ''}${NC}`);
+      }
+    }
+    console.log('');
+    console.log(`${DIM}● agent running · follow a task with: wavemill status --attach <ISSUE>${NC}`);
+  },
+});
@@ -0,0 +1,243 @@
+#!/usr/bin/env -S npx tsx
+import '../shared/lib/env.js';
+import { closeSync, existsSync, mkdirSync, openSync, rmSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { spawn } from 'node:child_process';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { runTool } from '../shared/lib/tool-runner.ts';
+import { loadWavemillConfig } from '../shared/lib/config.ts';
+import { getIssueTracker } from '../shared/lib/issue-tracker.ts';
+import { MillLedger, acquireMillLock, releaseMillLock, readMillLock, isMillLockHeld, isProcessAlive } from '../shared/lib/mill-state.ts';
+import { MillOrchestrator, resolveMillSettings } from '../shared/lib/mill-orchestrator.ts';
+import { createMillServices } from '../shared/lib/mill-services.ts';
+import { resolveBudgetSettings, formatUsd } from '../shared/lib/budget-guard.ts';
+import { RUNNERS, createRunner, isRunnerName } from '../shared/lib/mill-runner.ts';
+import { HookRegistry, HOOK_PHASES } from '../shared/lib/mill-hooks.ts';
+import { explainConfig, formatConfigExplanation } from '../shared/lib/config-explain.ts';
+import { BOLD, DIM, NC } from '../shared/lib/colors.ts';
+import { detectSubsystems } from '../shared/lib/subsystem-detector.ts';
+
+function log(message: string): void {
+  const time = new Date().toTimeString().slice(0, 8);
+  console.log(`${time} ${message}`);
+}
+
+/**
+ * Re-run this command as a detached background process (minus --detach),
+ * with output going to <stateDir>/mill.log. Returns the child's pid.
+ */
+function detach(stateDir: string): number {
+  mkdirSync(stateDir, { recursive: true });
+  const fd = openSync(join(stateDir, 'mill.log'), 'a');
+  try {
+    const args = [...process.execArgv, process.argv[1], ...process.argv.slice(2).filter((a) => a !== '--detach')];
+    const child = spawn(process.execPath, args, {
+      detached: true,
+      stdio: ['ignore', fd, fd],
+      env: process.env,
+    });
+    child.unref();
+    return child.pid!;
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/** How long a detached mill gets to take the lock before it's reported as started anyway */
+const DETACH_STARTUP_MS = 10_000;
+
+/**
+ * Wait until the detached mill holds the lock. Throws when it exits first
+ * (bad config, another mill won the lock), pointing at its log.
+ */
+async function waitForDetachedMill(pid: number, lockPath: string, logPath: string): Promise<void> {
+  const deadline = Date.now() + DETACH_STARTUP_MS;
+  while (Date.now() < deadline) {
+    if (readMillLock(lockPath)?.pid === pid) return;
+    if (!isProcessAlive(pid)) {
+      throw new Error(`The background mill (pid ${pid}) exited during startup; see ${logPath}`);
+    }
+    await sleep(250);
+  }
+}
+
+runTool({
+  name: 'mill',
+  description: 'Run the mill: schedule backlog issues and drive each through its task lifecycle',
+  options: {
+    runner: { type: 'string', description: `Where agents run: ${RUNNERS.join(', ')} (default: $MILL_RUNNER, else tmux)` },
+    detach: { type: 'boolean', description: 'Run the mill in the background, logging to .wavemill/mill.log' },
+    issues: { type: 'string', description: 'Comma-separated issues to run instead of auto-scheduling the backlog' },
+    max: { type: 'string', description: 'Max parallel tasks (default: mill.maxParallel, else 3)' },
+    agent: { type: 'string', description: 'Agent CLI for every task, skipping model routing' },
+    once: { type: 'boolean', description: 'Advance tasks one step and exit' },
+    verbose: { type: 'boolean', short: 'v', description: 'Show where each mill and budget setting came from' },
+    help: { type: 'boolean', short: 'h', description: 'Show help' },
+  },
+  examples: [
+    'npx tsx tools/mill.ts',
+    'npx tsx tools/mill.ts --issues HOK-12,HOK-15',
+    'npx tsx tools/mill.ts --once',
+    'npx tsx tools/mill.ts --runner headless --detach',
+  ],
+  additionalHelp: `Each task moves through:
+  selected → expanded → planned → running → pr_open → reviewing → merged
+with failed reachable from any step. Progress is saved to
+.wavemill/mill-ledger.json after every change, so restarting the mill resumes
+in-flight tasks. Expand/plan/launch steps are retried per mill.maxRetries and
+mill.retryDelay (seconds, doubling each attempt).
+
+Without --issues, free slots are filled from the backlog with the
+dependency-aware scheduler (see tools/schedule-tasks.ts).
+
+The headless runner starts each agent as a detached process logging to
+.wavemill/tasks/<ISSUE>/agent.log, so it needs no terminal and agents keep
+running if the mill exits. Interactive planning is skipped. Only one mill may
+run per repo; .wavemill/mill.pid records which. Check on it with
+\`wavemill status\` and follow a task with \`wavemill status --attach <ISSUE>\`.
+
+With budget.perTaskUsd / budget.perDayUsd set, running tasks' session spend
+is checked every poll. Over a limit, a task is paused, downgraded to a
+cheaper model, or aborted (budget.action); decisions are recorded on the
+task's eval record.
+
+Hooks in the config's "hooks" section run shell commands or local TS/JS
+modules at beforeLaunch, afterPrCreated, afterReview and afterMerge; their
+output goes to .wavemill/tasks/<ISSUE>/hooks.log.
+
+Stop after in-flight tasks finish: touch .wavemill/.stop-loop`,
+  async run({ args }) {
+    const repoDir = process.env.REPO_DIR ? resolve(process.env.REPO_DIR) : process.cwd();
+    // Validate the repo config, then layer ~/.wavemill/config.json and env
+    // vars (MAX_PARALLEL, ...) over it the way the shell mill does
+    loadWavemillConfig(repoDir);
+    const explanation = explainConfig({ repoDir });
+    const config = explanation.config;
+    const stateDir = process.env.STATE_DIR ? resolve(process.env.STATE_DIR) : join(repoDir, '.wavemill');
+    const stopFile = join(stateDir, '.stop-loop');
+
+    const runnerName = args.runner || process.env.MILL_RUNNER || 'tmux';
+    if (!isRunnerName(runnerName)) {
+      throw new Error(`Unknown runner "${runnerName}" (expected: ${RUNNERS.join(', ')})`);
+    }
+
+    const maxParallel = args.max ? parseInt(args.max, 10) : undefined;
+    if (maxParallel !== undefined && (!Number.isInteger(maxParallel) || maxParallel < 1)) {
+      throw new Error(`Invalid --max: ${args.max}`);
+    }
+
+    const lockPath = join(stateDir, 'mill.pid');
+    if (args.detach) {
+      const existing = readMillLock(lockPath);
+      if (existing && isMillLockHeld(existing)) {
+        throw new Error(`Another mill is already running (pid ${existing.pid}, started ${existing.started})`);
+      }
+      const pid = detach(stateDir);
+      await waitForDetachedMill(pid, lockPath, join(stateDir, 'mill.log'));
+      console.log(`Mill started in the background (pid ${pid})`);
+      console.log(`  Log:    ${join(stateDir, 'mill.log')}`);
+      console.log('  Status: wavemill status');
+      return;
+    }
+
+    const settings = resolveMillSettings(config.mill ?? {}, repoDir, {
+      autoEval: config.autoEval !== false,
+      budget: resolveBudgetSettings(config.budget),
+      ...(maxParallel ? { maxParallel } : {}),
+      ...(args.agent ? { agentCmd: args.agent, agentExplicit: true } : {}),
+    });
+    if (runnerName === 'headless' && settings.planningMode === 'interactive') {
+      log('Headless runner: skipping interactive planning');
+      settings.planningMode = 'skip';
+    }
+    const hooks = HookRegistry.fromConfig(config.hooks, repoDir);
+    const session = config.mill?.session || 'wavemill';
+    const runner = createRunner(runnerName, { session, stateDir });
+    acquireMillLock(lockPath, runner.name);
+    process.on('exit', () => releaseMillLock(lockPath));
+    const ledger = new MillLedger(join(stateDir, 'mill-ledger.json'), session);
+    const orchestrator = new MillOrchestrator({
+      ledger,
+      runner,
+      services: createMillServices(repoDir, settings),
+      settings,
+      stateDir,
+      hooks,
+      log,
+      subsystems: detectSubsystems(repoDir, {
+        minFiles: 3,
+        useGitAnalysis: false, // Skip git analysis for speed
+        maxSubsystems: 20,
+      }),
+    });
+
+    let stopping = false;
+    process.on('SIGINT', () => {
+      if (stopping) process.exit(130);
+      stopping = true;
+      log('Interrupted — saving state and exiting after this step (Ctrl+C again to force)');
+    });
+    process.on('SIGTERM', () => {
+      stopping = true;
+      log('Terminated — saving state and exiting after this step');
+    });
+
+    const resumed = orchestrator.activeTasks();
+    if (resumed.length > 0) {
+      log(`Resuming ${resumed.length} task(s): ${resumed.map((t) => `${t.issue} [${t.state}]`).join(', ')}`);
+    }
+
+    const explicit = (args.issues || '').split(',').map((s) => s.trim()).filter(Boolean);
+    if (explicit.length > 0) {
+      const tracker = getIssueTracker(repoDir);
+      for (const id of explicit) {
+        orchestrator.select(await tracker.getIssue(id));
+      }
+    }
+
+    log(`${BOLD}Mill running${NC} ${DIM}(runner: ${runner.name}, max parallel: ${settings.maxParallel}, poll: ${settings.pollSeconds}s)${NC}`);
+    if (settings.budget) {
+      const limits = [
+        settings.budget.perTaskUsd !== undefined ? `${formatUsd(settings.budget.perTaskUsd)}/task` : null,
+        settings.budget.perDayUsd !== undefined ? `${formatUsd(settings.budget.perDayUsd)}/day` : null,
+      ].filter(Boolean);
+      log(`${DIM}Budget: ${limits.join(', ')} (over limit: ${settings.budget.action})${NC}`);
+    }
+    if (hooks.size > 0) {
+      const counts = HOOK_PHASES
+        .map((phase) => [phase, hooks.forPhase(phase).length] as const)
+        .filter(([, count]) => count > 0)
+        .map(([phase, count]) => `${phase} ×${count}`);
+      log(`${DIM}Hooks: ${counts.join(', ')}${NC}`);
+    }
+    if (args.verbose) {
+      for (const line of [...formatConfigExplanation(explanation, 'mill'), ...formatConfigExplanation(explanation, 'budget')]) {
+        log(`${DIM}  ${line}${NC}`);
+      }
+    }
+
+    while (!stopping) {
+      await orchestrator.tick();
+
+      const stopRequested = existsSync(stopFile);
+      if (explicit.length === 0 && !stopRequested && orchestrator.freeSlots() > 0) {
+        try {
+          const backlog = await getIssueTracker(repoDir).getBacklogForScoring(config.linear?.project || null);
+          orchestrator.fillSlots(backlog);
+        } catch (error) {
+          log(`⚠ Failed to fetch backlog: ${(error as Error).message}`);
+        }
+      }
+
+      if (args.once) break;
+
+      if (orchestrator.activeTasks().length === 0) {
+        if (stopRequested) rmSync(stopFile, { force: true });
+        log(stopRequested ? 'Stop signal received and no tasks in flight. Exiting.' : 'No tasks in flight and nothing left to schedule. Exiting.');
+        break;
+      }
+
+      await sleep(settings.pollSeconds * 1000);
+    }
+  },
+});
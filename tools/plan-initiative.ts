@@ -7,6 +7,7 @@ import { fileURLToPath } from "node:url";
 import { listInitiatives } from '../shared/lib/initiative-lister.ts';
 import { decomposeInitiative } from '../shared/lib/initiative-decomposer.ts';
 import { getPlanConfig } from '../shared/lib/config.ts';
+import { getIssueTracker, assertTrackerCredentials } from '../shared/lib/issue-tracker.ts';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -31,8 +32,10 @@ function getInteractiveSetting(args: any, repoRoot: string): boolean {
   return planConfig.interactive ?? true; // Default: true
 }
 
-if (!process.env.LINEAR_API_KEY) {
-  console.error('Error: LINEAR_API_KEY not found in environment');
+try {
+  assertTrackerCredentials(getIssueTracker());
+} catch (error) {
+  console.error(`Error: ${(error as Error).message}`);
   process.exit(1);
 }
 
@@ -150,7 +153,7 @@ Interactive Mode:
     {"plan": {"interactive": true}}
 
 Environment Variables:
-  LINEAR_API_KEY   Required: Linear API key
+  LINEAR_API_KEY   Required for the Linear tracker backend
   CLAUDE_CMD       Optional: Claude CLI command (default: 'claude')
   PLAN_MODEL       Optional: LLM model for planning (default: claude-opus-4-6)`,
   async run({ args, positional }) {
@@ -110,6 +110,7 @@ runTool({
     verbose: { type: 'boolean', description: 'Print full review output and debug info (stderr)' },
     'skip-ui': { type: 'boolean', description: 'Skip UI verification even if design context exists' },
     'ui-only': { type: 'boolean', description: 'Run only UI verification (skip code review)' },
+    'fix-prompts': { type: 'boolean', description: 'Include a targeted fix prompt per blocker (fixPrompts in JSON output)' },
     help: { type: 'boolean', short: 'h', description: 'Show help' },
   },
   positional: {
@@ -123,6 +124,7 @@ runTool({
     'npx tsx tools/review-changes.ts main --json',
     'npx tsx tools/review-changes.ts main --verbose',
     'npx tsx tools/review-changes.ts main /path/to/repo --skip-ui',
+    'npx tsx tools/review-changes.ts main --json --fix-prompts',
   ],
   additionalHelp: `Exit Codes:
   0 - Review passed (verdict: ready)
@@ -229,6 +231,8 @@ Use the relative path: npx tsx tools/review-changes.ts ${targetBranch} --json
         skipUi: !!args['skip-ui'],
         uiOnly: !!args['ui-only'],
         verbose,
+        includeFixPrompts: !!args['fix-prompts'],
+        issueId: metric.issueId,
       });
 
       // Add iteration to metric
@@ -0,0 +1,191 @@
+#!/usr/bin/env -S npx tsx
+import { runTool } from '../shared/lib/tool-runner.ts';
+import { resolve } from 'node:path';
+import { execSync } from 'node:child_process';
+import { reviewChanges } from '../shared/lib/review-runner.ts';
+import { runFixAgent, type FixAgent } from '../shared/lib/review-fix.ts';
+import { loadWavemillConfig } from '../shared/lib/config.ts';
+import {
+  initReviewMetric,
+  addIteration,
+  recordFixAttempts,
+  finalizeMetric,
+  saveMetric,
+  findIssueIdFromContext,
+  clearReviewRunState,
+  type FixAttempt,
+  type ReviewMetric,
+} from '../shared/lib/review-metrics.ts';
+import { GREEN, YELLOW, RED, BOLD, DIM, NC } from '../shared/lib/colors.ts';
+
+const FIX_AGENTS: FixAgent[] = ['claude', 'codex'];
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function git(command: string, repoDir: string): string {
+  return execSync(`git ${command}`, { cwd: repoDir, encoding: 'utf-8', stdio: ['pipe', 'pipe', 'pipe'] });
+}
+
+/** Snapshot of HEAD and uncommitted changes, used to tell whether a fix edited or committed anything. */
+function treeSnapshot(repoDir: string): string {
+  return git('rev-parse HEAD', repoDir) + git('status --porcelain', repoDir) + git('diff HEAD', repoDir);
+}
+
+function hasUncommittedChanges(repoDir: string): boolean {
+  return git('status --porcelain', repoDir).trim().length > 0;
+}
+
+runTool({
+  name: 'review-fix',
+  description: 'Self-review with targeted agent fixes for each blocker',
+  options: {
+    agent: { type: 'string', description: 'Agent CLI to run fixes with: claude or codex (default: $AGENT_CMD, else claude)' },
+    model: { type: 'string', description: 'Model for the fix agent' },
+    'max-iterations': { type: 'string', description: 'Review iterations before escalating (default: review.maxIterations, else 3)' },
+    issue: { type: 'string', description: 'Issue ID for constraint rules (default: detected from feature context)' },
+    'skip-ui': { type: 'boolean', description: 'Skip UI verification even if design context exists' },
+    'dry-run': { type: 'boolean', description: 'Run one review and print the fix prompts without running the agent' },
+    help: { type: 'boolean', short: 'h', description: 'Show help' },
+  },
+  positional: {
+    name: 'targetBranch repoDir',
+    description: 'Target branch and optional repository directory',
+    multiple: true,
+  },
+  examples: [
+    'npx tsx tools/review-fix.ts main',
+    'npx tsx tools/review-fix.ts main --agent codex --max-iterations 2',
+    'npx tsx tools/review-fix.ts main --dry-run',
+  ],
+  additionalHelp: `Each iteration reviews the branch against the target. If blockers remain,
+the agent is run once per blocker with a focused prompt (the finding, the
+surrounding code and the task's constraint rules), the resulting changes are
+committed, and the branch is reviewed again. The run is recorded in the
+review metrics log with per-finding resolution for every iteration.
+
+The working tree must be clean (except with --dry-run), so that only the
+agent's changes are committed.
+
+Exit Codes:
+  0 - Review passed (verdict: ready)
+  1 - Blockers remain after the last iteration (escalated)
+  2 - Error occurred`,
+  async run({ args, positional }) {
+    const targetBranch = positional[0] || 'main';
+    const repoDir = positional[1] ? resolve(positional[1]) : process.cwd();
+    const agent = (args.agent || process.env.AGENT_CMD || 'claude') as FixAgent;
+    if (!FIX_AGENTS.includes(agent)) {
+      console.error(`Error: Unsupported fix agent "${agent}" (expected: ${FIX_AGENTS.join(', ')})`);
+      process.exitCode = 2;
+      return;
+    }
+
+    const maxIterations = args['max-iterations']
+      ? parseInt(args['max-iterations'], 10)
+      : loadWavemillConfig(repoDir).review?.maxIterations ?? 3;
+    if (!Number.isInteger(maxIterations) || maxIterations < 1) {
+      console.error(`Error: Invalid --max-iterations: ${args['max-iterations']}`);
+      process.exitCode = 2;
+      return;
+    }
+
+    let metric: ReviewMetric | undefined;
+
+    try {
+      if (!args['dry-run'] && hasUncommittedChanges(repoDir)) {
+        console.error('Error: Working tree has uncommitted changes; commit or stash them first');
+        process.exitCode = 2;
+        return;
+      }
+
+      const branch = git('rev-parse --abbrev-ref HEAD', repoDir).trim();
+      const issueId = args.issue || findIssueIdFromContext(repoDir);
+
+      // Fix mode owns the whole run, so discard any half-finished loop state
+      clearReviewRunState(repoDir);
+      metric = initReviewMetric(branch, targetBranch, issueId);
+      metric.metadata = { agent, model: args.model };
+
+      for (let iteration = 1; iteration <= maxIterations; iteration++) {
+        console.log(`\n${BOLD}Iteration ${iteration}/${maxIterations}${NC} — reviewing ${branch} against ${targetBranch}...`);
+
+        const result = await reviewChanges({
+          targetBranch,
+          repoDir,
+          skipUi: !!args['skip-ui'],
+          includeFixPrompts: true,
+          issueId,
+        });
+        addIteration(metric, iteration, result);
+
+        const latest = metric.iterations[metric.iterations.length - 1];
+        for (const resolution of latest.resolutions ?? []) {
+          const mark = resolution.status === 'resolved' ? `${GREEN}resolved${NC}` : `${RED}still open${NC}`;
+          console.log(`  ${mark}  ${DIM}${resolution.location}${NC} [${resolution.category}]`);
+        }
+
+        if (result.verdict === 'ready') {
+          console.log(`\n${GREEN}${BOLD}READY ✓${NC} after ${iteration} iteration(s)`);
+          finalizeMetric(metric, 'resolved');
+          saveMetric(metric, repoDir);
+          process.exitCode = 0;
+          return;
+        }
+
+        const prompts = result.fixPrompts ?? [];
+        console.log(`  ${RED}${prompts.length} blocker(s)${NC}, ${latest.findingsSummary.warnings} warning(s)`);
+
+        if (args['dry-run']) {
+          for (const fix of prompts) {
+            console.log(`\n${BOLD}── Fix prompt: ${fix.finding.location} ──${NC}\n`);
+            console.log(fix.prompt);
+          }
+          process.exitCode = 1;
+          return;
+        }
+
+        if (iteration === maxIterations || prompts.length === 0) break;
+
+        const attempts: FixAttempt[] = [];
+        for (const [index, fix] of prompts.entries()) {
+          console.log(`  ${YELLOW}fixing${NC} (${index + 1}/${prompts.length}) ${fix.finding.location} [${fix.finding.category}]`);
+          const before = treeSnapshot(repoDir);
+          const run = runFixAgent(fix.prompt, { agent, model: args.model, cwd: repoDir });
+
+          const attempt: FixAttempt = {
+            fingerprint: fix.fingerprint,
+            location: fix.finding.location,
+            outcome: !run.ok ? 'failed' : treeSnapshot(repoDir) === before ? 'no_changes' : 'changed',
+          };
+          if (run.error) attempt.error = run.error;
+          attempts.push(attempt);
+
+          if (attempt.outcome === 'failed') {
+            console.log(`    ${RED}failed:${NC} ${run.error}`);
+          } else if (attempt.outcome === 'no_changes') {
+            console.log(`    ${DIM}no changes${NC}`);
+          }
+        }
+        recordFixAttempts(metric, attempts);
+
+        // Agents may have committed their fixes already
+        if (attempts.some((a) => a.outcome === 'changed') && hasUncommittedChanges(repoDir)) {
+          git('add -A', repoDir);
+          git(`commit -q -m "fix: Address self-review findings (iteration ${iteration})"`, repoDir);
+        }
+      }
+
+      console.log(`\n${RED}${BOLD}NOT READY ✗${NC} — blockers remain; escalating to human review`);
+      finalizeMetric(metric, 'escalated');
+      saveMetric(metric, repoDir);
+      process.exitCode = 1;
+    } catch (error) {
+      if (metric) {
+        finalizeMetric(metric, 'error', { error: (error as Error).message });
+        saveMetric(metric, repoDir);
+      }
+      console.error(`Error: ${(error as Error).message}`);
+      process.exitCode = 2;
+    }
+  },
+});
@@ -3,6 +3,7 @@ import { runTool } from '../shared/lib/tool-runner.ts';
 import { getPullRequest, getPullRequestDiff } from '../shared/lib/github.js';
 import { findTaskPacket, findPlan, gatherDesignContext, analyzeDiffMetadata, type ReviewContext } from '../shared/lib/review-context-gatherer.ts';
 import { runReview, type ReviewResult, type ReviewFinding, type ReviewerPersona } from '../shared/lib/review-engine.ts';
+import { publishReviewComments, createGhReviewClient } from '../shared/lib/pr-review-comments.ts';
 import { CYAN, GREEN, YELLOW, RED, BOLD, DIM, NC } from '../shared/lib/colors.ts';
 
 const TIMEOUT_MS = 180_000; // 3 minutes for large PR diffs
@@ -145,6 +146,7 @@ runTool({
   options: {
     repo: { type: 'string', description: 'Review PR from different repository (OWNER/NAME)' },
     reviewers: { type: 'string', description: 'Comma-separated list of reviewers (general,security,performance,correctness,design) or "all"' },
+    post: { type: 'boolean', description: 'Post findings to the PR as inline review comments with a summary review' },
     help: { type: 'boolean', short: 'h', description: 'Show help' },
   },
   positional: {
@@ -156,6 +158,7 @@ runTool({
     'npx tsx tools/review-pr.ts 42 --repo timogilvie/wavemill',
     'npx tsx tools/review-pr.ts 42 --reviewers security,performance',
     'npx tsx tools/review-pr.ts 42 --reviewers all',
+    'npx tsx tools/review-pr.ts 42 --post',
   ],
   additionalHelp: `Environment Variables:
   REVIEW_MODEL    Override review model (uses .wavemill-config.json if not set)
@@ -172,7 +175,14 @@ The review focuses on major issues:
   - Security concerns
   - Deviation from plan/requirements
   - Missing error handling at boundaries
-  - Architectural consistency`,
+  - Architectural consistency
+
+Posting (--post):
+  Findings whose location (file:line or file:start-end) falls inside a diff
+  hunk become line-anchored review comments; the rest are listed in a
+  summary review that carries the verdict. Re-running updates the earlier
+  comments and summary instead of duplicating them, and marks findings that
+  are no longer reported as resolved.`,
   async run({ args, positional }) {
     const prNumber = positional[0] ? parseInt(positional[0], 10) : 0;
     if (!prNumber) {
@@ -254,6 +264,21 @@ The review focuses on major issues:
       });
 
       displayResults(result, prNumber, pr.title);
+
+      if (args.post) {
+        console.log('💬 Posting review comments...');
+        const posted = publishReviewComments(
+          result,
+          diff,
+          pr.headRefOid,
+          createGhReviewClient(prNumber, { repo: args.repo as string | undefined, cwd: repoDir }),
+        );
+        console.log(`   Inline: ${posted.created} new, ${posted.updated} updated, ${posted.unchanged} unchanged`);
+        if (posted.resolved > 0) console.log(`   Resolved: ${posted.resolved} earlier finding(s)`);
+        if (posted.unanchored > 0) console.log(`   Outside the diff: ${posted.unanchored} (listed in summary)`);
+        console.log(`   Summary review ${posted.summaryReview}\n`);
+      }
+
       process.exit(result.verdict === 'ready' ? 0 : 1);
     } catch (error) {
       console.error(`\n❌ Error: ${(error as Error).message}\n`);
@@ -0,0 +1,136 @@
+#!/usr/bin/env -S npx tsx
+
+/**
+ * Router Train Tool
+ *
+ * Retrains the LLM router's selector artifact from the eval history, scores
+ * it on held-out records against the heuristic router and the current
+ * artifact, and installs it only when it wins.
+ *
+ * Usage:
+ *   npx tsx tools/router-train.ts
+ *   npx tsx tools/router-train.ts --dry-run --json
+ */
+
+import { copyFileSync, existsSync, mkdirSync, writeFileSync } from 'node:fs';
+import { basename, dirname, join, resolve } from 'node:path';
+import { runTool } from '../shared/lib/tool-runner.ts';
+import { loadRouterConfig, loadRoutingHistory } from '../shared/lib/model-router.ts';
+import {
+  DEFAULT_ARTIFACT_PATH,
+  DEFAULT_RUNTIME_MODEL,
+  defaultCallFn,
+  loadArtifact,
+} from '../shared/lib/llm-router.ts';
+import { formatTrainingResult, trainRouter } from '../shared/lib/router-training.ts';
+import { BOLD, CYAN, GREEN, YELLOW, NC } from '../shared/lib/colors.ts';
+
+function fraction(value: string | undefined, fallback: number): number {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!(parsed > 0 && parsed < 1)) throw new Error(`Invalid --holdout: ${value} (expected a fraction between 0 and 1)`);
+  return parsed;
+}
+
+function positiveInt(value: string | undefined, name: string, fallback: number): number {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) throw new Error(`Invalid --${name}: ${value}`);
+  return parsed;
+}
+
+runTool({
+  name: 'router-train',
+  description: 'Retrain the LLM router artifact from eval history',
+  options: {
+    holdout: {
+      type: 'string',
+      description: 'Share of the most recent records held out for scoring (default: 0.2)',
+    },
+    examples: {
+      type: 'string',
+      description: 'Number of few-shot examples in the artifact (default: 4)',
+    },
+    artifact: {
+      type: 'string',
+      description: `Artifact to compare against and replace (default: ${DEFAULT_ARTIFACT_PATH})`,
+    },
+    'dry-run': {
+      type: 'boolean',
+      description: 'Train and score, but never replace the artifact',
+    },
+    json: {
+      type: 'boolean',
+      description: 'Output the training result as JSON',
+    },
+    'repo-dir': {
+      type: 'string',
+      description: 'Repository directory (default: current directory)',
+    },
+    help: {
+      type: 'boolean',
+      short: 'h',
+      description: 'Show help message',
+    },
+  },
+  examples: [
+    '# Retrain and install the artifact if it beats the heuristic router',
+    'npx tsx tools/router-train.ts',
+    '',
+    '# Score a candidate without installing it',
+    'npx tsx tools/router-train.ts --dry-run --holdout 0.3',
+  ],
+  async run({ args }) {
+    const repoDir = args['repo-dir'] || process.cwd();
+    const config = loadRouterConfig(repoDir);
+    const artifactPath = resolve(repoDir, args.artifact || DEFAULT_ARTIFACT_PATH);
+    const current = loadArtifact(repoDir, artifactPath);
+    const runtimeModel = config.llmModel || current?.runtime_model || DEFAULT_RUNTIME_MODEL;
+    const records = loadRoutingHistory({ ...config, repoDir });
+    const models = config.models?.length
+      ? config.models
+      : current?.model_candidates ?? [...new Set(records.map((r) => r.modelId))];
+
+    const result = trainRouter(records, {
+      models,
+      defaultModel: config.defaultModel ?? models[0],
+      agentMap: config.agentMap ?? {},
+      defaultAgent: config.defaultAgent ?? 'claude',
+      repoName: basename(resolve(repoDir)),
+      current,
+      runtimeModel,
+      callFn: (prompt, model) => defaultCallFn(prompt, model, config.llmProvider),
+      holdoutFraction: fraction(args.holdout, 0.2),
+      fewShotCount: positiveInt(args.examples, 'examples', 4),
+      log: args.json ? undefined : (message) => console.log(message),
+    });
+
+    // Keep every candidate and its scores for inspection, installed or not
+    const outDir = resolve(repoDir, '.wavemill/router');
+    mkdirSync(outDir, { recursive: true });
+    writeFileSync(join(outDir, 'candidate-selector.json'), JSON.stringify(result.candidate, null, 2) + '\n');
+    writeFileSync(join(outDir, 'last-training.json'), JSON.stringify({ ...result, candidate: undefined }, null, 2) + '\n');
+
+    const install = result.wins && !args['dry-run'];
+    const backup = install && existsSync(artifactPath) ? join(outDir, 'previous-selector.json') : null;
+    if (install) {
+      if (backup) copyFileSync(artifactPath, backup);
+      mkdirSync(dirname(artifactPath), { recursive: true });
+      writeFileSync(artifactPath, JSON.stringify(result.candidate, null, 2) + '\n');
+    }
+
+    if (args.json) {
+      console.log(JSON.stringify({ ...result, installed: install, artifactPath }, null, 2));
+      return;
+    }
+
+    console.log(`\n${BOLD}${CYAN}Router training${NC}`);
+    for (const line of formatTrainingResult(result)) console.log(line);
+    if (install) {
+      console.log(`${GREEN}Installed the new artifact at ${artifactPath}${NC}`);
+      if (backup) console.log(`Previous artifact backed up to ${backup}`);
+    } else {
+      console.log(`${YELLOW}Artifact not replaced${result.wins ? ' (dry run)' : ''}.${NC} Candidate saved to ${join(outDir, 'candidate-selector.json')}`);
+    }
+  },
+});
@@ -9,6 +9,33 @@
 
 import { runTool } from '../shared/lib/tool-runner.ts';
 import { runPostCompletionEval } from '../shared/lib/post-completion-hook.ts';
+import type { BudgetDecision, RoutingDecision } from '../shared/lib/eval-schema.ts';
+
+/** Parse --budget-decisions; a malformed value is dropped so the eval still runs. */
+function parseBudgetDecisions(raw: string | undefined): BudgetDecision[] | undefined {
+  if (!raw) return undefined;
+  try {
+    const parsed = JSON.parse(raw);
+    if (Array.isArray(parsed)) return parsed as BudgetDecision[];
+  } catch {
+    // Fall through
+  }
+  console.warn('Post-completion eval hook: ignoring malformed --budget-decisions');
+  return undefined;
+}
+
+/** Parse --routing-decision; a malformed value is dropped so the eval still runs. */
+function parseRoutingDecision(raw: string | undefined): RoutingDecision | undefined {
+  if (!raw) return undefined;
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed && Array.isArray(parsed.candidates)) return parsed as RoutingDecision;
+  } catch {
+    // Fall through
+  }
+  console.warn('Post-completion eval hook: ignoring malformed --routing-decision');
+  return undefined;
+}
 
 runTool({
   name: 'run-eval-hook',
@@ -22,6 +49,8 @@ runTool({
     worktree: { type: 'string', description: 'Worktree directory' },
     agent: { type: 'string', description: 'Agent type: claude or codex (default: claude)' },
     'repo-dir': { type: 'string', description: 'Repository directory (default: current directory)' },
+    'budget-decisions': { type: 'string', description: 'JSON array of budget decisions recorded by the mill' },
+    'routing-decision': { type: 'string', description: 'Routing decision (JSON) recorded when the model was chosen' },
     debug: { type: 'boolean', description: 'Enable detailed cost computation diagnostics' },
     help: { type: 'boolean', short: 'h', description: 'Show help message' },
   },
@@ -65,6 +94,8 @@ runTool({
       branchName: args.branch,
       worktreePath: args.worktree,
       agentType: args.agent,
+      budgetDecisions: parseBudgetDecisions(args['budget-decisions']),
+      routingDecision: parseRoutingDecision(args['routing-decision']),
     };
 
     if (debug) {
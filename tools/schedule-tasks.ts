@@ -0,0 +1,85 @@
+#!/usr/bin/env -S npx tsx
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { runTool } from '../shared/lib/tool-runner.ts';
+import { scheduleTasks, type ScheduleResult } from '../shared/lib/task-scheduler.ts';
+import { detectSubsystems } from '../shared/lib/subsystem-detector.ts';
+import type { TrackerIssue } from '../shared/lib/issue-tracker.ts';
+import { GREEN, YELLOW, DIM, NC } from '../shared/lib/colors.ts';
+
+// ── Output Formatting ────────────────────────────────────────────────────────
+
+/** Print why each candidate was or wasn't picked (stderr, so stdout stays parseable). */
+function explain(result: ScheduleResult): void {
+  for (const task of result.selected) {
+    const unblocks = task.unblocks.length > 0 ? `unblocks ${task.unblocks.length}` : 'unblocks none';
+    console.error(`  ${GREEN}${'launch'.padEnd(8)}${NC}  ${task.identifier} ${DIM}(${unblocks}, score ${task.score})${NC}`);
+  }
+  for (const { task, reason, detail } of result.skipped) {
+    console.error(`  ${YELLOW}${reason.padEnd(8)}${NC}  ${task.identifier} ${DIM}${detail}${NC}`);
+  }
+}
+
+runTool({
+  name: 'schedule-tasks',
+  description: 'Pick unblocked, non-overlapping backlog issues to launch, ordered by downstream impact',
+  options: {
+    file: { type: 'string', description: 'Backlog JSON from list-backlog-json.ts (default: stdin)' },
+    max: { type: 'string', description: 'Maximum issues to select (default: $MAX_PARALLEL, else 3)' },
+    repo: { type: 'string', description: 'Repository for subsystem overlap detection (default: cwd)' },
+    'no-subsystems': { type: 'boolean', description: 'Only use area labels and mentioned files for overlap' },
+    explain: { type: 'boolean', description: 'Print the reason for each pick or skip to stderr' },
+    json: { type: 'boolean', description: 'Output the full schedule as JSON' },
+    help: { type: 'boolean', short: 'h', description: 'Show help' },
+  },
+  examples: [
+    'npx tsx tools/list-backlog-json.ts | npx tsx tools/schedule-tasks.ts --max 3',
+    'npx tsx tools/schedule-tasks.ts --file backlog.json --explain',
+    'npx tsx tools/schedule-tasks.ts --file backlog.json --json',
+  ],
+  additionalHelp: `Default output is one selected issue per line as identifier|slug|title,
+the format wavemill-mill.sh launches from.
+
+An issue is held back while any issue that blocks it is still open. Issues
+whose area label, subsystem or mentioned files overlap are not launched
+together. Among ready issues, those that (transitively) unblock the most
+downstream work go first, then the mill's priority score breaks ties.`,
+  async run({ args }) {
+    const raw = readFileSync(args.file ? resolve(args.file) : 0, 'utf-8');
+    const issues = JSON.parse(raw) as TrackerIssue[];
+    if (!Array.isArray(issues)) {
+      throw new Error('Backlog JSON must be an array of issues');
+    }
+
+    const maxParallel = parseInt(args.max || process.env.MAX_PARALLEL || '3', 10);
+    if (!Number.isInteger(maxParallel) || maxParallel < 1) {
+      throw new Error(`Invalid --max: ${args.max}`);
+    }
+
+    const subsystems = args['no-subsystems']
+      ? []
+      : detectSubsystems(resolve(args.repo || process.cwd()), {
+          minFiles: 3,
+          useGitAnalysis: false, // Skip git analysis for speed
+          maxSubsystems: 20,
+        });
+
+    const result = scheduleTasks(issues, { maxParallel, subsystems });
+
+    if (args.json) {
+      const strip = ({ issue: _issue, ...task }: ScheduleResult['selected'][number]) => task;
+      console.log(JSON.stringify({
+        selected: result.selected.map(strip),
+        ready: result.ready.map(strip),
+        skipped: result.skipped.map(({ task, reason, detail }) => ({ identifier: task.identifier, reason, detail })),
+        cycles: result.cycles,
+      }, null, 2));
+      return;
+    }
+
+    if (args.explain) explain(result);
+    for (const task of result.selected) {
+      console.log(`${task.identifier}|${task.slug}|${task.title}`);
+    }
+  },
+});
@@ -1,11 +1,11 @@
 #!/usr/bin/env -S npx tsx
 import '../shared/lib/env.js';
 import { runTool } from '../shared/lib/tool-runner.ts';
-import { setIssueState } from '../shared/lib/linear.js';
+import { getIssueTracker } from '../shared/lib/issue-tracker.ts';
 
 runTool({
   name: 'set-issue-state',
-  description: 'Set the state of a Linear issue',
+  description: 'Set the state of an issue in the configured tracker',
   options: {
     help: { type: 'boolean', short: 'h', description: 'Show help' },
   },
@@ -26,11 +26,13 @@ runTool({
       process.exit(1);
     }
 
-    const result = await setIssueState(identifier, stateName);
+    const result = await getIssueTracker().setIssueState(identifier, stateName);
 
     if (result.success) {
       console.log(`✓ ${identifier} → ${stateName}`);
-      console.log(`  ${result.issue.url}`);
+      if (result.issue?.url) {
+        console.log(`  ${result.issue.url}`);
+      }
     } else {
       console.error('Failed to update issue state');
       process.exit(1);
@@ -24,6 +24,10 @@ import { CYAN, GREEN, YELLOW, RED, BOLD, DIM, NC } from '../shared/lib/colors.ts
 
 // ── Output Formatting ────────────────────────────────────────────────────────
 
+function formatCost(cost: number | null | undefined): string {
+  return cost === null || cost === undefined ? 'unknown' : `$${cost.toFixed(2)}`;
+}
+
 function formatRecommendation(rec: ModelRecommendation): string {
   const SEP = '\u2550'.repeat(50);
   const lines: string[] = [];
@@ -48,8 +52,8 @@ function formatRecommendation(rec: ModelRecommendation): string {
     lines.push('');
     lines.push(`  ${DIM}${rec.reasoning}${NC}`);
   } else {
-    // Recommended model
-    const best = rec.candidates[0];
+    // Recommended model (not necessarily the top candidate when the bandit explores)
+    const best = rec.candidates.find((c) => c.modelId === rec.recommendedModel) ?? rec.candidates[0];
     if (best) {
       lines.push(
         `  ${BOLD}${GREEN}Recommended:${NC} ${BOLD}${best.modelId}${NC} (agent: ${rec.recommendedAgent})`,
@@ -58,24 +62,42 @@ function formatRecommendation(rec: ModelRecommendation): string {
         `    Avg Score: ${GREEN}${best.avgScore.toFixed(2)}${NC}` +
         `  ${DIM}(n=${best.taskTypeRecordCount > 0 ? best.taskTypeRecordCount : best.recordCount})${NC}`,
       );
+      if (best.expectedCost !== undefined) {
+        lines.push(`    Expected Cost: ${formatCost(best.expectedCost)}`);
+      }
+      if (best.posteriorMean !== undefined) {
+        lines.push(
+          `    Posterior Mean: ${best.posteriorMean.toFixed(2)}  ${DIM}draw ${best.sampledScore?.toFixed(2)}${NC}`,
+        );
+      }
     }
 
     // Alternatives
-    const alternatives = rec.candidates.slice(1);
+    const alternatives = rec.candidates.filter((c) => c !== best);
     if (alternatives.length > 0) {
       lines.push('');
       lines.push(`  ${DIM}Alternatives:${NC}`);
       for (const alt of alternatives) {
         const scoreColor = alt.avgScore >= 0.8 ? GREEN : alt.avgScore >= 0.5 ? YELLOW : RED;
         const n = alt.taskTypeRecordCount > 0 ? alt.taskTypeRecordCount : alt.recordCount;
+        const cost = alt.expectedCost !== undefined ? `  ${formatCost(alt.expectedCost)}` : '';
         lines.push(
-          `    ${alt.modelId.padEnd(30)} ${scoreColor}${alt.avgScore.toFixed(2)}${NC} ${DIM}(n=${n})${NC}`,
+          `    ${alt.modelId.padEnd(30)} ${scoreColor}${alt.avgScore.toFixed(2)}${NC}${cost} ${DIM}(n=${n})${NC}`,
         );
       }
     }
 
     lines.push('');
     lines.push(`  ${DIM}${rec.reasoning}${NC}`);
+    if (rec.costReasoning) {
+      lines.push(`  ${DIM}${rec.costReasoning}${NC}`);
+    }
+    if (rec.routingDecision) {
+      lines.push(
+        `  ${DIM}Policy: ${rec.routingDecision.decisionPolicyVersion}` +
+        `${rec.objective ? `, objective: ${rec.objective}` : ''}${NC}`,
+      );
+    }
   }
 
   lines.push('');
@@ -103,6 +125,10 @@ runTool({
       type: 'string',
       description: 'Repository directory (default: current directory)'
     },
+    stratum: {
+      type: 'string',
+      description: 'Difficulty stratum of the task, e.g. ts_nextjs_small (narrows the thompson policy context)'
+    },
     help: {
       type: 'boolean',
       short: 'h',
@@ -163,7 +189,11 @@ runTool({
 
     // Load config and get recommendation
     const routerConfig = loadRouterConfig(repoDir);
-    const recommendation = recommendModel(prompt, { ...routerConfig, repoDir });
+    const recommendation = recommendModel(prompt, {
+      ...routerConfig,
+      repoDir,
+      ...(args.stratum ? { stratum: args.stratum } : {}),
+    });
 
     if (args.json) {
       console.log(JSON.stringify(recommendation, null, 2));
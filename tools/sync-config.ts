@@ -4,11 +4,12 @@
  *
  * This tool:
  * 1. Loads the current config (if exists)
- * 2. Merges with the canonical template
- * 3. Preserves all user-configured values
- * 4. Adds missing sections and fields
- * 5. Updates configVersion to current
- * 6. Creates backup before modifying
+ * 2. Runs pending config migrations (renamed/moved keys keep their values)
+ * 3. Merges with the canonical template
+ * 4. Preserves all user-configured values
+ * 5. Adds missing sections and fields
+ * 6. Validates the result against the schema
+ * 7. Creates backup before modifying
  *
  * Usage:
  *   npx tsx tools/sync-config.ts [--yes] [--dry-run]
@@ -20,11 +21,12 @@
 
 import { readFileSync, writeFileSync, existsSync, copyFileSync } from 'node:fs';
 import { resolve } from 'node:path';
-import { loadWavemillConfig, CURRENT_CONFIG_VERSION } from '../shared/lib/config.ts';
+import { CURRENT_CONFIG_VERSION, getConfigValidationErrors } from '../shared/lib/config.ts';
+import { migrateConfig } from '../shared/lib/config-migrations.ts';
 
 // Canonical template matching the comprehensive config from wavemill init
 const CANONICAL_TEMPLATE = {
-  configVersion: '1.0.0',
+  configVersion: CURRENT_CONFIG_VERSION,
   linear: {
     project: '',
   },
@@ -71,6 +73,7 @@ const CANONICAL_TEMPLATE = {
       postPrCommit: 0.08,
       manualEdit: 0.10,
       testFix: 0.06,
+      environmentFix: 0.02,
       sessionRedirect: 0.12,
       selfReviewWarning: 0.05,
       selfReviewBlocker: 0.20,
@@ -230,12 +233,31 @@ async function syncConfig(options: { yes?: boolean; dryRun?: boolean } = {}) {
     console.log(`ℹ No existing config found. Will create new one.`);
   }
 
+  // Migrate renamed/moved keys before merging, so user values aren't orphaned
+  let migration;
+  try {
+    migration = migrateConfig(currentConfig);
+  } catch (err) {
+    console.error(`✗ ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(1);
+  }
+  for (const step of migration.applied) {
+    console.log(`✓ Migration ${step.version}: ${step.description}`);
+  }
+
   // Merge with template
-  const merged = deepMerge(CANONICAL_TEMPLATE, currentConfig);
+  const merged = deepMerge(CANONICAL_TEMPLATE, migration.config);
 
   // Always update version to current
   merged.configVersion = CURRENT_CONFIG_VERSION;
 
+  const validationErrors = getConfigValidationErrors(merged) ?? [];
+  if (validationErrors.length > 0) {
+    console.error('✗ Synced config fails schema validation:');
+    validationErrors.forEach(error => console.error(`   ${error}`));
+    process.exit(1);
+  }
+
   // Identify additions
   const additions = configExists ? identifyAdditions(currentConfig, merged) : [];
 
@@ -1,12 +1,12 @@
 #!/usr/bin/env -S npx tsx
 import '../shared/lib/env.js';
 import { runTool } from '../shared/lib/tool-runner.ts';
-import { getIssueBasic, updateIssue } from '../shared/lib/linear.js';
+import { getIssueTracker } from '../shared/lib/issue-tracker.ts';
 import fs from "node:fs/promises";
 
 runTool({
   name: 'update-issue',
-  description: 'Update a Linear issue description from a file',
+  description: 'Update an issue description from a file',
   options: {
     file: { type: 'string', description: 'File containing the description' },
     help: { type: 'boolean', short: 'h', description: 'Show help' },
@@ -36,17 +36,12 @@ runTool({
       process.exit(1);
     }
 
-    // Fetch issue to get its internal ID
-    console.log(`Fetching ${identifier}...`);
-    const issue = await getIssueBasic(identifier);
-    console.log(`Found: ${issue.identifier} - ${issue.title}`);
-
     // Update the issue
-    console.log(`Updating description (${description.length} chars)...`);
-    const result = await updateIssue(issue.id, { description });
+    console.log(`Updating ${identifier} description (${description.length} chars)...`);
+    const result = await getIssueTracker().updateIssueDescription(identifier, description);
 
     if (result.success) {
-      console.log(`Updated: ${result.issue.url}`);
+      console.log(`Updated: ${result.issue?.url || identifier}`);
     } else {
       console.error('Update failed');
       process.exit(1);
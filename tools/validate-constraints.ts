@@ -9,13 +9,19 @@
  *
  * Options:
  *   --issue-id <id>    Issue ID to validate constraints for
- *   --no-parallel      Disable parallel rule execution
+ *   --base <branch>    Branch to measure changes against (default: mill.baseBranch, then main)
+ *   --json             Output the validation result as JSON
+ *   --sarif <file>     Also write the violations as a SARIF 2.1.0 log
+ *   --annotations <file>  Also write a GitHub check run payload with annotations
  *   --help            Show help message
  */
 
+import { execFileSync } from 'node:child_process';
+import { writeFileSync } from 'node:fs';
 import { runTool } from '../shared/lib/tool-runner.ts';
 import { validateConstraints, formatValidationResult } from '../shared/lib/constraint-validator.ts';
 import { constraintRulesExist } from '../shared/lib/constraint-storage.ts';
+import { toCheckRun, toSarif } from '../shared/lib/constraint-report.ts';
 
 runTool({
   name: 'validate-constraints',
@@ -25,9 +31,21 @@ runTool({
       type: 'string',
       description: 'Issue ID to validate constraints for'
     },
-    'no-parallel': {
+    base: {
+      type: 'string',
+      description: 'Branch to measure changes against (default: mill.baseBranch, then main)'
+    },
+    json: {
       type: 'boolean',
-      description: 'Disable parallel rule execution'
+      description: 'Output the validation result as JSON'
+    },
+    sarif: {
+      type: 'string',
+      description: 'Also write the violations as a SARIF 2.1.0 log to this file'
+    },
+    annotations: {
+      type: 'string',
+      description: 'Also write a GitHub check run payload with annotations to this file'
     },
     help: {
       type: 'boolean',
@@ -44,25 +62,32 @@ runTool({
     '# Validate constraints for HOK-123',
     'npx tsx tools/validate-constraints.ts HOK-123',
     '',
-    '# Validate with sequential execution',
-    'npx tsx tools/validate-constraints.ts HOK-123 --no-parallel',
+    '# Validate against a release branch',
+    'npx tsx tools/validate-constraints.ts HOK-123 --base release/2.0',
+    '',
+    '# Export for code scanning and the GitHub Checks API',
+    'npx tsx tools/validate-constraints.ts HOK-123 --sarif constraints.sarif --annotations check-run.json',
     '',
     '# Use --issue-id flag',
     'npx tsx tools/validate-constraints.ts --issue-id HOK-123',
   ],
   additionalHelp: `Description:
-  Executes constraint validation rules for a specific issue.
+  Evaluates constraint rules for a specific issue against the files changed
+  since the branch forked from its base branch, including uncommitted work.
   Rules must be generated first using generate-constraint-rules.ts.
 
   Constraint rules are stored in: constraints/<issue-id>/
 
+  --sarif writes a log for github/codeql-action/upload-sarif or any other
+  SARIF consumer. --annotations writes a body for the Checks API:
+    gh api repos/{owner}/{repo}/check-runs --input check-run.json
+
 Exit Codes:
   0 - All constraints passed (or only manual review required)
   1 - One or more constraints failed`,
   async run({ args, positional }) {
     // Get issue ID from positional arg or --issue-id flag
     const issueId = positional[0] || args['issue-id'];
-    const parallel = !args['no-parallel'];
 
     if (!issueId) {
       console.error('❌ Error: Issue ID is required\n');
@@ -81,13 +106,23 @@ Exit Codes:
     }
 
     // Validate constraints
-    console.log(`\n🔍 Validating constraints for ${issueId}...\n`);
+    if (!args.json) console.log(`\n🔍 Validating constraints for ${issueId}...\n`);
 
-    const result = await validateConstraints(issueId, process.cwd(), { parallel });
+    const result = await validateConstraints(issueId, process.cwd(), { baseBranch: args.base });
 
     // Format and print result
-    const formatted = formatValidationResult(result);
-    console.log(formatted);
+    console.log(args.json ? JSON.stringify(result, null, 2) : formatValidationResult(result));
+
+    // Export for other tools
+    if (args.sarif) {
+      writeFileSync(args.sarif, JSON.stringify(toSarif(result), null, 2) + '\n');
+      if (!args.json) console.log(`📄 SARIF written to ${args.sarif}`);
+    }
+    if (args.annotations) {
+      const headSha = execFileSync('git', ['rev-parse', 'HEAD'], { encoding: 'utf-8' }).trim();
+      writeFileSync(args.annotations, JSON.stringify(toCheckRun(result, headSha), null, 2) + '\n');
+      if (!args.json) console.log(`📄 Check run payload written to ${args.annotations}`);
+    }
 
     // Exit with appropriate code
     if (!result.passed) {
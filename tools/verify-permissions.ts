@@ -5,11 +5,12 @@ import { resolve } from 'node:path';
 import { homedir } from 'node:os';
 import { getPermissionsConfig } from '../shared/lib/config.ts';
 import {
-  isSafePattern,
+  checkPatternSafety,
   getDefaultPatterns,
   getCategoryNames,
   getPatternsByCategory,
 } from '../shared/lib/permission-patterns.ts';
+import { explainConfig, formatConfigExplanation } from '../shared/lib/config-explain.ts';
 
 interface ValidationResult {
   valid: boolean;
@@ -52,13 +53,15 @@ function validateConfig(repoDir: string, verbose: boolean): ValidationResult {
 
   if (verbose) {
     result.info.push(`Found ${patterns.length} custom pattern(s)`);
+    result.info.push(...formatConfigExplanation(explainConfig({ repoDir }), 'permissions'));
   }
 
   // Check each pattern for safety
   const unsafePatterns: string[] = [];
   for (const pattern of patterns) {
-    if (!isSafePattern(pattern)) {
-      unsafePatterns.push(pattern);
+    const check = checkPatternSafety(pattern);
+    if (!check.safe) {
+      unsafePatterns.push(`${pattern} (${check.reason})`);
     }
   }
 